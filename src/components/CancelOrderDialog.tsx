@@ -0,0 +1,149 @@
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from 'sonner'
+import { type Order } from '@/lib/supabase'
+import { canCancelOrder, isOrderPaid } from '@/lib/order-status'
+import { requestOrderCancellation } from '@/lib/order-cancellation'
+
+interface CancelOrderDialogProps {
+  order: Order | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess?: () => void
+}
+
+const CancelOrderDialog: React.FC<CancelOrderDialogProps> = ({
+  order,
+  open,
+  onOpenChange,
+  onSuccess
+}) => {
+  const [reason, setReason] = useState('')
+  const [upiId, setUpiId] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  React.useEffect(() => {
+    if (open) {
+      setReason('')
+      setUpiId('')
+    }
+  }, [open])
+
+  if (!order) return null
+
+  const isInstant = canCancelOrder(order.status)
+  const needsRefund = isOrderPaid(order.status)
+
+  const validateUPI = (upi: string) => {
+    // Basic UPI ID validation - should end with @provider
+    const upiRegex = /^[a-zA-Z0-9.\-_]{2,}@[a-zA-Z]{2,}$/
+    return upiRegex.test(upi)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!isInstant && !reason.trim()) {
+      toast.error('Please tell us why you want to cancel this order')
+      return
+    }
+
+    if (needsRefund && !validateUPI(upiId.trim())) {
+      toast.error('Please enter a valid UPI ID for your refund (e.g., yourname@paytm)')
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const request = await requestOrderCancellation(
+        order.id,
+        reason.trim() || undefined,
+        needsRefund ? upiId.trim() : undefined
+      )
+
+      if (request.status === 'approved') {
+        toast.success(needsRefund
+          ? 'Order cancelled. Your refund will be sent to your UPI ID shortly.'
+          : 'Order cancelled successfully.')
+      } else {
+        toast.success('Cancellation request submitted. We will review it and get back to you.')
+      }
+
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      console.error('Error cancelling order:', error)
+      toast.error((error as Error).message || 'Failed to cancel order. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isInstant ? 'Cancel Order' : 'Request Cancellation'}</DialogTitle>
+          <DialogDescription>
+            {isInstant
+              ? `Order #${order.id.slice(0, 8).toUpperCase()} will be cancelled immediately.`
+              : `Order #${order.id.slice(0, 8).toUpperCase()} is already being fulfilled. Your request will be reviewed by our team.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Reason{isInstant ? ' (Optional)' : ' *'}</Label>
+            <Textarea
+              id="cancel-reason"
+              placeholder="Why are you cancelling this order?"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          {needsRefund && (
+            <div className="space-y-2">
+              <Label htmlFor="refund-upi-id">Refund UPI ID *</Label>
+              <Input
+                id="refund-upi-id"
+                type="text"
+                placeholder="yourname@paytm"
+                value={upiId}
+                onChange={(e) => setUpiId(e.target.value)}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                ₹{order.total_amount.toFixed(2)} will be refunded to this UPI ID
+                {isInstant ? '' : ' once your request is approved'}
+              </p>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Keep Order
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isSubmitting}>
+              {isSubmitting ? 'Submitting...' : isInstant ? 'Cancel Order' : 'Submit Request'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+CancelOrderDialog.displayName = "CancelOrderDialog"
+
+export { CancelOrderDialog }
@@ -1,10 +1,20 @@
 import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { toast } from 'sonner'
 import { createWithdrawalRequest, getCurrentUser, getUserProfile } from '@/lib/supabase'
+import {
+  getRemainingAllowance,
+  getWithdrawalBlockers,
+  getWithdrawalLimits,
+  type WithdrawalLimits
+} from '@/lib/withdrawal-policy'
+import { describePayoutAccount, getPayoutAccounts, type PayoutAccount } from '@/lib/kyc'
+import { loadTdsPolicy, type TdsPolicy } from '@/lib/tds'
 
 interface WithdrawalRequestDialogProps {
   open: boolean
@@ -17,14 +27,18 @@ const WithdrawalRequestDialog: React.FC<WithdrawalRequestDialogProps> = ({
   onOpenChange,
   onSuccess
 }) => {
-  const [upiId, setUpiId] = useState('')
+  const [accounts, setAccounts] = useState<PayoutAccount[]>([])
+  const [accountId, setAccountId] = useState('')
   const [amount, setAmount] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [availableBalance, setAvailableBalance] = useState(0)
+  const [limits, setLimits] = useState<WithdrawalLimits | null>(null)
+  const [tdsPolicy, setTdsPolicy] = useState<TdsPolicy | null>(null)
 
   React.useEffect(() => {
     if (open) {
       loadUserBalance()
+      loadLimits()
     }
   }, [open])
 
@@ -34,28 +48,38 @@ const WithdrawalRequestDialog: React.FC<WithdrawalRequestDialogProps> = ({
       if (user) {
         const profile = await getUserProfile(user.id)
         setAvailableBalance(profile?.available_balance || 0)
+
+        // Only verified accounts can receive withdrawals
+        const verified = (await getPayoutAccounts(user.id)).filter(account => account.status === 'verified')
+        setAccounts(verified)
+        setAccountId(current => verified.some(account => account.id === current) ? current : verified[0]?.id || '')
       }
     } catch (error) {
       console.error('Error loading user balance:', error)
     }
   }
 
-  const validateUPI = (upi: string) => {
-    // Basic UPI ID validation - should end with @provider
-    const upiRegex = /^[a-zA-Z0-9.\-_]{2,}@[a-zA-Z]{2,}$/
-    return upiRegex.test(upi)
+  const loadLimits = async () => {
+    try {
+      const [current, tds] = await Promise.all([getWithdrawalLimits(), loadTdsPolicy()])
+      setLimits(current)
+      setTdsPolicy(tds)
+    } catch (error) {
+      console.error('Error loading withdrawal limits:', error)
+    }
   }
 
+  const selectedAccount = accounts.find(account => account.id === accountId) || null
+  const minAmount = limits?.policy.min_amount ?? 10
+  const remainingAllowance = limits ? getRemainingAllowance(limits) : null
+  const coolingHours = limits?.policy.upi_change_cooling_hours ?? 0
+  const blockers = limits ? getWithdrawalBlockers(limits, parseFloat(amount) || 0, selectedAccount) : []
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
-    if (!upiId.trim()) {
-      toast.error('Please enter your UPI ID')
-      return
-    }
-
-    if (!validateUPI(upiId)) {
-      toast.error('Please enter a valid UPI ID (e.g., yourname@paytm)')
+    if (!selectedAccount) {
+      toast.error('Please choose a verified payout account')
       return
     }
 
@@ -70,8 +94,13 @@ const WithdrawalRequestDialog: React.FC<WithdrawalRequestDialogProps> = ({
       return
     }
 
-    if (withdrawalAmount < 10) {
-      toast.error('Minimum withdrawal amount is ₹10')
+    if (withdrawalAmount < minAmount) {
+      toast.error(`Minimum withdrawal amount is ₹${minAmount}`)
+      return
+    }
+
+    if (blockers.length > 0) {
+      toast.error(blockers[0])
       return
     }
 
@@ -84,18 +113,17 @@ const WithdrawalRequestDialog: React.FC<WithdrawalRequestDialogProps> = ({
         return
       }
 
-      await createWithdrawalRequest(user.id, withdrawalAmount, upiId)
+      await createWithdrawalRequest(user.id, withdrawalAmount, selectedAccount.id)
       
       toast.success('Withdrawal request submitted successfully! You will be notified once it\'s processed.')
       
       // Reset form
-      setUpiId('')
       setAmount('')
       onOpenChange(false)
       onSuccess?.()
     } catch (error) {
       console.error('Error creating withdrawal request:', error)
-      toast.error('Failed to submit withdrawal request. Please try again.')
+      toast.error((error as Error).message || 'Failed to submit withdrawal request. Please try again.')
     } finally {
       setIsSubmitting(false)
     }
@@ -107,7 +135,7 @@ const WithdrawalRequestDialog: React.FC<WithdrawalRequestDialogProps> = ({
         <DialogHeader>
           <DialogTitle>Request Withdrawal</DialogTitle>
           <DialogDescription>
-            Enter your UPI ID and withdrawal amount. Your request will be processed by our admin team.
+            Choose a verified payout account and the withdrawal amount. Your request will be processed by our admin team.
           </DialogDescription>
         </DialogHeader>
 
@@ -120,18 +148,29 @@ const WithdrawalRequestDialog: React.FC<WithdrawalRequestDialogProps> = ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="upi-id">UPI ID *</Label>
-            <Input
-              id="upi-id"
-              type="text"
-              placeholder="yourname@paytm"
-              value={upiId}
-              onChange={(e) => setUpiId(e.target.value)}
-              required
-            />
-            <p className="text-xs text-muted-foreground">
-              Enter your UPI ID (e.g., yourname@paytm, yourname@gpay)
-            </p>
+            <Label htmlFor="payout-account">Pay to *</Label>
+            {accounts.length > 0 ? (
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger id="payout-account">
+                  <SelectValue placeholder="Choose a payout account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.account_type === 'upi' ? 'UPI' : 'Bank'}: {describePayoutAccount(account)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <p className="text-xs text-orange-600">
+                You have no verified payout account yet.{' '}
+                <Link to="/profile?tab=kyc" className="underline" onClick={() => onOpenChange(false)}>
+                  Add a UPI ID or bank account
+                </Link>{' '}
+                and we will verify it before your first withdrawal.
+              </p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -140,18 +179,53 @@ const WithdrawalRequestDialog: React.FC<WithdrawalRequestDialogProps> = ({
               id="amount"
               type="number"
               placeholder="0.00"
-              min="10"
-              max={availableBalance}
+              min={minAmount}
+              max={remainingAllowance !== null ? Math.min(availableBalance, remainingAllowance) : availableBalance}
               step="0.01"
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
               required
             />
             <p className="text-xs text-muted-foreground">
-              Minimum withdrawal: ₹10
+              Minimum withdrawal: ₹{minAmount}
             </p>
           </div>
 
+          {limits && (
+            <div className="rounded-lg border bg-muted/40 p-3 space-y-1 text-xs text-muted-foreground">
+              <p className="font-medium text-foreground">Withdrawal limits</p>
+              {limits.policy.daily_limit !== null && (
+                <p>Daily: ₹{limits.policy.daily_limit} (₹{limits.used_today.toFixed(2)} used today)</p>
+              )}
+              {limits.policy.monthly_limit !== null && (
+                <p>Monthly: ₹{limits.policy.monthly_limit} (₹{limits.used_this_month.toFixed(2)} used this month)</p>
+              )}
+              {limits.policy.one_pending_request && <p>One request at a time</p>}
+              {limits.policy.kyc_threshold !== null && (
+                <p>
+                  KYC required above ₹{limits.policy.kyc_threshold}
+                  {limits.kyc_status === 'verified' ? ' (verified)' : ''}
+                </p>
+              )}
+              {coolingHours > 0 && <p>{coolingHours}-hour wait before paying to a newly added account</p>}
+              {tdsPolicy?.enabled && (
+                <p>
+                  TDS at {limits.kyc_status === 'verified' ? tdsPolicy.rate_percent : tdsPolicy.no_pan_rate_percent}%
+                  {limits.kyc_status !== 'verified' && ` (${tdsPolicy.rate_percent}% with a verified PAN)`}
+                  {tdsPolicy.annual_threshold !== null
+                    ? ` once this year's withdrawals pass ₹${tdsPolicy.annual_threshold}`
+                    : ''}, deducted on approval
+                </p>
+              )}
+            </div>
+          )}
+
+          {blockers.length > 0 && (
+            <div className="rounded-lg border border-orange-200 bg-orange-50 p-3 space-y-1 text-xs text-orange-700">
+              {blockers.map(blocker => <p key={blocker}>{blocker}</p>)}
+            </div>
+          )}
+
           <DialogFooter className="gap-2">
             <Button 
               type="button" 
@@ -163,7 +237,7 @@ const WithdrawalRequestDialog: React.FC<WithdrawalRequestDialogProps> = ({
             </Button>
             <Button 
               type="submit" 
-              disabled={isSubmitting || !upiId || !amount}
+              disabled={isSubmitting || !selectedAccount || !amount || blockers.length > 0}
             >
               {isSubmitting ? 'Submitting...' : 'Submit Request'}
             </Button>
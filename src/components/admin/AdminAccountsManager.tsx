@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { UserCog, RefreshCw, ShieldCheck, ShieldOff } from 'lucide-react'
+import { getAllAdmins, updateAdminStatus, type Admin } from '@/lib/supabase'
+import { resetAdminTwoFactor } from '@/lib/admin-api'
+import {
+  formatAdminRole,
+  updateAdminRole,
+  updateRoleTwoFactorRequirement,
+  type AdminRole,
+  type AdminRoleInfo
+} from '@/lib/admin-permissions'
+
+interface AdminAccountsManagerProps {
+  currentAdminId: string
+  roles: AdminRoleInfo[]
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+export const AdminAccountsManager: React.FC<AdminAccountsManagerProps> = ({ currentAdminId, roles }) => {
+  const [admins, setAdmins] = useState<Admin[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [roleList, setRoleList] = useState<AdminRoleInfo[]>(roles)
+  const [resetting, setResetting] = useState<Admin | null>(null)
+
+  useEffect(() => {
+    setRoleList(roles)
+  }, [roles])
+
+  const loadAdmins = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setAdmins(await getAllAdmins())
+    } catch (error) {
+      console.error('Error loading admins:', error)
+      toast.error('Failed to load administrators')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadAdmins()
+  }, [loadAdmins])
+
+  const handleRoleChange = async (account: Admin, role: AdminRole) => {
+    try {
+      setSavingId(account.id)
+      const updated = await updateAdminRole(account.id, role)
+      setAdmins(prev => prev.map(item => item.id === updated.id ? updated : item))
+      toast.success(`${account.full_name || account.email} is now ${roles.find(item => item.role === role)?.label || formatAdminRole(role)}`)
+    } catch (error) {
+      console.error('Error changing admin role:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  // Deactivating an admin also ends their sessions (see the admin API migration)
+  const handleToggleActive = async (account: Admin) => {
+    try {
+      setSavingId(account.id)
+      const updated = await updateAdminStatus(account.id, !account.is_active)
+      setAdmins(prev => prev.map(item => item.id === updated.id ? updated : item))
+      toast.success(`${account.full_name || account.email} ${updated.is_active ? 'activated' : 'deactivated'}`)
+    } catch (error) {
+      console.error('Error changing admin status:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  // Admins of the role without 2FA are asked to set it up at their next sign-in
+  const handleRequireTwoFactor = async (role: AdminRoleInfo, required: boolean) => {
+    try {
+      setSavingId(role.role)
+      const updated = await updateRoleTwoFactorRequirement(role.role, required)
+      setRoleList(prev => prev.map(item => item.role === updated.role ? updated : item))
+      toast.success(`Two-factor authentication ${required ? 'required' : 'optional'} for ${updated.label}`)
+    } catch (error) {
+      console.error('Error changing role two-factor requirement:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  // For an admin who lost their authenticator; they are signed out everywhere
+  const handleResetTwoFactor = async () => {
+    if (!resetting) return
+    const account = resetting
+
+    try {
+      setSavingId(account.id)
+      await resetAdminTwoFactor(account.id)
+      setAdmins(prev => prev.map(item => item.id === account.id ? { ...item, totp_enabled_at: null } : item))
+      setResetting(null)
+      toast.success(`Two-factor authentication reset for ${account.full_name || account.email}`)
+    } catch (error) {
+      console.error('Error resetting admin two-factor authentication:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center text-base md:text-lg">
+              <UserCog className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+              Administrators ({admins.length})
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Each admin's role decides which sections and actions they can use
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadAdmins} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {admins.length === 0 ? (
+          <p className="text-center text-slate-500 py-6 text-sm">No administrators found</p>
+        ) : (
+          <div className="space-y-3">
+            {admins.map((account) => {
+              const isCurrent = account.id === currentAdminId
+
+              return (
+                <div key={account.id} className="flex flex-col space-y-3 md:flex-row md:items-center md:justify-between md:space-y-0 p-3 md:p-4 border rounded-lg">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-sm md:text-base">{account.full_name || account.email}</span>
+                      {isCurrent && <Badge className="text-xs">You</Badge>}
+                      {!account.is_active && <Badge variant="secondary" className="text-xs">Inactive</Badge>}
+                      {account.totp_enabled_at && (
+                        <Badge variant="outline" className="text-xs text-green-700 border-green-300">
+                          <ShieldCheck className="w-3 h-3 mr-1" />
+                          2FA
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500 break-all">
+                      {account.email} • Added {formatDate(account.created_at)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    {account.totp_enabled_at && !isCurrent && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setResetting(account)}
+                        disabled={savingId === account.id}
+                        title="Reset two-factor authentication"
+                      >
+                        <ShieldOff className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {/* Admins cannot change their own role or deactivate themselves */}
+                    <Select
+                      value={account.role}
+                      onValueChange={(value) => handleRoleChange(account, value as AdminRole)}
+                      disabled={isCurrent || savingId === account.id}
+                    >
+                      <SelectTrigger className="w-44 text-xs md:text-sm">
+                        <SelectValue placeholder={formatAdminRole(account.role)} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles.map((role) => (
+                          <SelectItem key={role.role} value={role.role}>{role.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Switch
+                      checked={account.is_active}
+                      onCheckedChange={() => handleToggleActive(account)}
+                      disabled={isCurrent || savingId === account.id}
+                      aria-label={account.is_active ? 'Deactivate admin' : 'Activate admin'}
+                    />
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {roleList.length > 0 && (
+          <div className="mt-6 space-y-3">
+            <div>
+              <h4 className="font-medium text-sm md:text-base">Require two-factor authentication</h4>
+              <p className="text-xs text-slate-500">
+                Admins of these roles must sign in with a code from an authenticator app; those without one set it up at their next sign-in
+              </p>
+            </div>
+            <div className="grid gap-2 md:grid-cols-2">
+              {roleList.map((role) => (
+                <div key={role.role} className="flex items-center justify-between p-3 border rounded-lg">
+                  <span className="text-sm">{role.label}</span>
+                  <Switch
+                    checked={role.require_2fa}
+                    onCheckedChange={(checked) => handleRequireTwoFactor(role, checked)}
+                    disabled={savingId === role.role}
+                    aria-label={`Require two-factor authentication for ${role.label}`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!resetting} onOpenChange={(open) => !open && setResetting(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              {resetting?.full_name || resetting?.email} will be signed out everywhere, and their authenticator app and backup codes will stop working. Do this only after confirming who is asking, for example when they have lost their phone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResetting(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleResetTwoFactor} disabled={!!resetting && savingId === resetting.id}>
+              Reset 2FA
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
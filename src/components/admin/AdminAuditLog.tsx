@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+import { History, RefreshCw, Download, Search, ChevronDown, ChevronRight } from 'lucide-react'
+import {
+  AUDIT_PAGE_SIZE,
+  AUDIT_TARGET_TABLES,
+  describeAuditChanges,
+  downloadAdminAuditLog,
+  formatAuditAction,
+  getAdminAuditLog,
+  type AdminAuditEntry,
+  type AdminAuditFilters
+} from '@/lib/admin-audit'
+
+const ALL_TABLES = 'all'
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+}
+
+const formatJson = (value: unknown) => JSON.stringify(value, null, 2)
+
+export const AdminAuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const [search, setSearch] = useState('')
+  const [targetTable, setTargetTable] = useState(ALL_TABLES)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  // The filters the current list was loaded with; the search box applies on submit
+  const [filters, setFilters] = useState<AdminAuditFilters>({})
+
+  const loadEntries = useCallback(async (offset: number = 0) => {
+    try {
+      setIsLoading(true)
+      const page = await getAdminAuditLog(filters, offset)
+      setEntries(prev => offset === 0 ? page : [...prev, ...page])
+      setHasMore(page.length === AUDIT_PAGE_SIZE)
+    } catch (error) {
+      console.error('Error loading audit log:', error)
+      toast.error('Failed to load audit log')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  const applyFilters = (event?: React.FormEvent) => {
+    event?.preventDefault()
+    if (from && to && from > to) {
+      toast.error('The start date must be before the end date')
+      return
+    }
+    setFilters({
+      search: search.trim() || undefined,
+      targetTable: targetTable === ALL_TABLES ? undefined : targetTable,
+      from: from || undefined,
+      to: to || undefined
+    })
+  }
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true)
+      const count = await downloadAdminAuditLog(filters)
+      toast.success(`Exported ${count} audit ${count === 1 ? 'entry' : 'entries'}`)
+    } catch (error) {
+      console.error('Error exporting audit log:', error)
+      toast.error('Failed to export audit log')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col space-y-3 md:flex-row md:items-center md:justify-between md:space-y-0">
+          <div>
+            <CardTitle className="flex items-center text-base md:text-lg">
+              <History className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+              Audit Log
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Every change made by an admin, with who made it, from where, and the record before and after. Entries cannot be edited or deleted.
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting || entries.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              {isExporting ? 'Exporting...' : 'Export CSV'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => loadEntries()} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={applyFilters} className="grid gap-3 md:grid-cols-5 md:items-end">
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="audit-search" className="text-xs">Search</Label>
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <Input
+                id="audit-search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Admin email, action, record ID or IP"
+                className="pl-9"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Record type</Label>
+            <Select value={targetTable} onValueChange={setTargetTable}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TABLES}>All records</SelectItem>
+                {AUDIT_TARGET_TABLES.map((table) => (
+                  <SelectItem key={table} value={table}>{table}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="audit-from" className="text-xs">From</Label>
+              <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to" className="text-xs">To</Label>
+              <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+          <Button type="submit" disabled={isLoading}>Apply</Button>
+        </form>
+
+        {entries.length === 0 ? (
+          <p className="text-center text-slate-500 py-6 text-sm">
+            {isLoading ? 'Loading audit log...' : 'No audit entries match these filters'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry) => {
+              const isExpanded = expandedId === entry.id
+              const summary = describeAuditChanges(entry)
+
+              return (
+                <div key={entry.id} className="border rounded-lg">
+                  <button
+                    type="button"
+                    className="w-full text-left p-3 md:p-4 flex items-start space-x-3"
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  >
+                    {isExpanded
+                      ? <ChevronDown className="w-4 h-4 mt-1 text-slate-400 shrink-0" />
+                      : <ChevronRight className="w-4 h-4 mt-1 text-slate-400 shrink-0" />}
+                    <div className="space-y-1 min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold text-sm md:text-base">{formatAuditAction(entry.action)}</span>
+                        {entry.target_table && <Badge variant="outline" className="text-xs">{entry.target_table}</Badge>}
+                      </div>
+                      {summary && <p className="text-xs md:text-sm text-slate-700 break-words">{summary}</p>}
+                      <p className="text-xs text-slate-500 break-all">
+                        {entry.admin_email} • {formatDate(entry.created_at)}
+                        {entry.ip_address && ` • ${entry.ip_address}`}
+                        {entry.target_id && ` • ${entry.target_id}`}
+                      </p>
+                    </div>
+                  </button>
+                  {isExpanded && (
+                    <div className="border-t p-3 md:p-4 space-y-3 text-xs">
+                      <p className="text-slate-500 break-all">
+                        Action <code>{entry.action}</code>
+                        {entry.session_id && <> • Session <code>{entry.session_id}</code></>}
+                        {entry.user_agent && <> • {entry.user_agent}</>}
+                      </p>
+                      <div className="grid gap-3 md:grid-cols-2">
+                        <div>
+                          <p className="font-medium mb-1">Before</p>
+                          <pre className="bg-slate-50 rounded p-2 overflow-x-auto max-h-64">{entry.before ? formatJson(entry.before) : '—'}</pre>
+                        </div>
+                        <div>
+                          <p className="font-medium mb-1">After</p>
+                          <pre className="bg-slate-50 rounded p-2 overflow-x-auto max-h-64">{entry.after ? formatJson(entry.after) : '—'}</pre>
+                        </div>
+                      </div>
+                      {Object.keys(entry.metadata || {}).length > 0 && (
+                        <div>
+                          <p className="font-medium mb-1">Details</p>
+                          <pre className="bg-slate-50 rounded p-2 overflow-x-auto max-h-64">{formatJson(entry.metadata)}</pre>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+            {hasMore && (
+              <div className="text-center pt-2">
+                <Button variant="outline" size="sm" onClick={() => loadEntries(entries.length)} disabled={isLoading}>
+                  {isLoading ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -14,7 +14,24 @@ import { toast } from 'sonner'
 import QRCode from 'react-qr-code'
 import { useAdminAuth } from '@/contexts/AdminAuthContext'
 import { RewardConfigManager } from './RewardConfigManager'
+import { SubscriptionPlanManager } from './SubscriptionPlanManager'
 import { OrderDetailDialog } from './OrderDetailDialog'
+import { StockHistoryDialog } from './StockHistoryDialog'
+import { RefundsManager } from './RefundsManager'
+import { StatementReconciliation } from './StatementReconciliation'
+import { PaymentProviderSettings } from './PaymentProviderSettings'
+import { WalletDriftReport } from './WalletDriftReport'
+import { PayoutBatchManager } from './PayoutBatchManager'
+import { WithdrawalPolicyManager } from './WithdrawalPolicyManager'
+import { KycVerificationQueue } from './KycVerificationQueue'
+import { FraudReviewPanel } from './FraudReviewPanel'
+import { AdminSessionsPanel } from './AdminSessionsPanel'
+import { AdminTwoFactorSettings } from './AdminTwoFactorSettings'
+import { AdminAccountsManager } from './AdminAccountsManager'
+import { TdsPolicyManager } from './TdsPolicyManager'
+import { TdsReport } from './TdsReport'
+import { ReferralTreeDialog } from './ReferralTreeDialog'
+import { AdminAuditLog } from './AdminAuditLog'
 import {
   getAllWithdrawalRequests,
   updateWithdrawalRequestStatus,
@@ -24,7 +41,6 @@ import {
   updateProduct,
   deleteProduct,
   toggleProductStatus,
-  updateProductStock,
   getAdminAnalytics,
   getAllUsers,
   updateUserByAdmin,
@@ -47,12 +63,13 @@ import {
   Order,
   AdminUPI,
   SubscriptionRequest,
-  supabase,
   testSupabaseConnection,
   isSupabaseAvailable
 } from '@/lib/supabase'
-import { hasAdminAccess, supabaseAdmin } from '@/lib/supabase-admin'
+import { adminApi } from '@/lib/admin-api'
+import { formatAdminRole, getAdminRoles, type AdminPermission, type AdminRole, type AdminRoleInfo } from '@/lib/admin-permissions'
 import { validatePasswordStrength, generateSecurePassword } from '@/lib/password-utils'
+import { getPayoutAmount, getPayoutDestination, isValidUtr, recordPayoutResult } from '@/lib/payouts'
 import {
   LogOut,
   RefreshCw,
@@ -99,7 +116,12 @@ import {
   Briefcase,
   Filter,
   MoreVertical,
-  Lock
+  Lock,
+  RotateCcw,
+  ShieldCheck,
+  ShieldAlert,
+  GitBranch,
+  History
 } from 'lucide-react'
 
 interface WithdrawalRequestWithUser extends WithdrawalRequest {
@@ -115,6 +137,11 @@ interface SubscriptionRequestWithProfile extends SubscriptionRequest {
     full_name: string;
     phone?: string;
   };
+  subscription_plan?: {
+    name: string;
+    price: number;
+    duration_months: number;
+  } | null;
 }
 
 interface DashboardStats {
@@ -145,23 +172,38 @@ interface UpiPaymentNotification {
   user_email?: string;
   user_name?: string;
   order_total?: number;
+  payment_reference?: string;
+  expected_amount?: number;
 }
 
-const sidebarItems = [
-  { id: 'overview', label: 'Overview', icon: Home, description: 'Dashboard overview' },
-  { id: 'withdrawals', label: 'Withdrawals', icon: Wallet, description: 'Manage withdrawals' },
-  { id: 'subscriptions', label: 'Subscriptions', icon: Crown, description: 'Subscription management' },
-  { id: 'payments', label: 'Payments', icon: CreditCard, description: 'Payment verification' },
-  { id: 'products', label: 'Products', icon: Package, description: 'Product catalog' },
-  { id: 'orders', label: 'Orders', icon: ShoppingBag, description: 'Order management' },
-  { id: 'users', label: 'Users', icon: Users, description: 'User management' },
-  { id: 'analytics', label: 'Analytics', icon: BarChart3, description: 'Analytics & reports' },
+// A tab shows when the admin's role grants any of its permissions;
+// settings always shows, for the admin's own account and sessions
+const sidebarItems: {
+  id: string
+  label: string
+  icon: typeof Home
+  description: string
+  permissions?: AdminPermission[]
+}[] = [
+  { id: 'overview', label: 'Overview', icon: Home, description: 'Dashboard overview', permissions: ['analytics.view'] },
+  { id: 'withdrawals', label: 'Withdrawals', icon: Wallet, description: 'Manage withdrawals', permissions: ['withdrawals.view'] },
+  { id: 'kyc', label: 'KYC', icon: ShieldCheck, description: 'Documents & payout accounts', permissions: ['kyc.view', 'kyc.review'] },
+  { id: 'fraud', label: 'Fraud', icon: ShieldAlert, description: 'Referral fraud review', permissions: ['fraud.view'] },
+  { id: 'subscriptions', label: 'Subscriptions', icon: Crown, description: 'Subscription management', permissions: ['subscriptions.view'] },
+  { id: 'payments', label: 'Payments', icon: CreditCard, description: 'Payment verification', permissions: ['payments.view'] },
+  { id: 'products', label: 'Products', icon: Package, description: 'Product catalog', permissions: ['products.view'] },
+  { id: 'orders', label: 'Orders', icon: ShoppingBag, description: 'Order management', permissions: ['orders.view'] },
+  { id: 'refunds', label: 'Refunds', icon: RotateCcw, description: 'Cancellations & refunds', permissions: ['refunds.manage'] },
+  { id: 'users', label: 'Users', icon: Users, description: 'User management', permissions: ['users.view'] },
+  { id: 'analytics', label: 'Analytics', icon: BarChart3, description: 'Analytics & reports', permissions: ['analytics.view'] },
+  { id: 'audit', label: 'Audit Log', icon: History, description: 'Admin activity history', permissions: ['audit.view'] },
   { id: 'settings', label: 'Settings', icon: Settings, description: 'System settings' },
 ]
 
 export const AdminDashboard: React.FC = () => {
-  const { admin, logout } = useAdminAuth()
-  const [activeTab, setActiveTab] = useState('overview')
+  const { admin, logout, can } = useAdminAuth()
+  const visibleSidebarItems = sidebarItems.filter(item => !item.permissions || can(...item.permissions))
+  const [activeTab, setActiveTab] = useState(() => visibleSidebarItems[0].id)
   const [isLoading, setIsLoading] = useState(false)
   const [connectionStatus, setConnectionStatus] = useState<'testing' | 'connected' | 'disconnected'>('testing')
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
@@ -186,11 +228,15 @@ export const AdminDashboard: React.FC = () => {
   const [selectedRequest, setSelectedRequest] = useState<WithdrawalRequestWithUser | null>(null)
   const [actionDialog, setActionDialog] = useState<'approve' | 'reject' | 'payment' | 'add-admin' | null>(null)
   const [adminNotes, setAdminNotes] = useState('')
+  const [paymentUtr, setPaymentUtr] = useState('')
 
   // Admin management
   const [newAdminEmail, setNewAdminEmail] = useState('')
   const [newAdminName, setNewAdminName] = useState('')
   const [newAdminPassword, setNewAdminPassword] = useState('')
+  const [newAdminRole, setNewAdminRole] = useState<AdminRole>('admin')
+  const [adminRoles, setAdminRoles] = useState<AdminRoleInfo[]>([])
+  const [adminAccountsVersion, setAdminAccountsVersion] = useState(0)
   const [showNewAdminPassword, setShowNewAdminPassword] = useState(false)
   const [passwordErrors, setPasswordErrors] = useState<string[]>([])
 
@@ -215,6 +261,8 @@ export const AdminDashboard: React.FC = () => {
   const [ordersLoading, setOrdersLoading] = useState(false)
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
   const [orderDetailDialogOpen, setOrderDetailDialogOpen] = useState(false)
+  const [stockProduct, setStockProduct] = useState<Product | null>(null)
+  const [treeUser, setTreeUser] = useState<UserProfile | null>(null)
   const [userDialog, setUserDialog] = useState<'edit' | 'delete' | null>(null)
   const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null)
   const [editUser, setEditUser] = useState({ full_name: '', email: '', phone: '' })
@@ -345,18 +393,21 @@ export const AdminDashboard: React.FC = () => {
   const loadDashboardData = async () => {
     setIsLoading(true)
     try {
-      // Load data first
+      // Load data first, only what the admin's role can see
       await Promise.all([
-        loadWithdrawalRequests(),
-        loadProducts(),
-        loadUsers(),
-        loadOrders(),
-        loadAdminUPIs(),
-        loadSubscriptionRequests(),
-        loadPaymentNotifications()
+        can('withdrawals.view') && loadWithdrawalRequests(),
+        can('products.view') && loadProducts(),
+        can('users.view') && loadUsers(),
+        can('orders.view') && loadOrders(),
+        can('settings.write') && loadAdminUPIs(),
+        can('subscriptions.view') && loadSubscriptionRequests(),
+        can('payments.view') && loadPaymentNotifications(),
+        can('admins.manage') && loadAdminRoles()
       ])
       // Then load stats after other data is loaded
-      await loadStats()
+      if (can('analytics.view')) {
+        await loadStats()
+      }
     } catch (error: any) {
       console.error('Error loading dashboard data:', {
         message: error?.message,
@@ -493,6 +544,15 @@ export const AdminDashboard: React.FC = () => {
     }
   }
 
+  const loadAdminRoles = async () => {
+    try {
+      setAdminRoles(await getAdminRoles())
+    } catch (error) {
+      console.error('Error loading admin roles:', error)
+      setAdminRoles([])
+    }
+  }
+
   const loadSubscriptionRequests = async () => {
     try {
       const requests = await getAllSubscriptionRequests()
@@ -510,18 +570,13 @@ export const AdminDashboard: React.FC = () => {
 
   const loadPaymentNotifications = async () => {
     try {
-      // Use admin client for admin operations
-      const client = hasAdminAccess ? supabaseAdmin! : supabase
-      
       console.log('🔧 Loading payment notifications...')
-      console.log('Admin access available:', hasAdminAccess)
-      console.log('Using client:', hasAdminAccess ? 'supabaseAdmin' : 'supabase')
-      
-      const { data, error } = await client
+
+      const { data, error } = await adminApi
         .from('upi_payment_notifications')
         .select(`
           *,
-          orders:order_id (
+          orders:orders (
             id,
             total_amount,
             user_id,
@@ -539,12 +594,27 @@ export const AdminDashboard: React.FC = () => {
         throw error
       }
 
+      // Payment intents carry the reference and exact amount the customer was asked to pay
+      const orderIds = (data || []).map(notification => notification.order_id).filter(Boolean)
+      const intentsByOrder = new Map<string, { reference: string; amount: number }>()
+      if (orderIds.length > 0) {
+        const { data: intents, error: intentsError } = await adminApi
+          .from('payment_intents')
+          .select('order_id, reference, amount')
+          .in('order_id', orderIds)
+
+        if (intentsError && intentsError.code !== '42P01') {
+          console.warn('Error loading payment intents:', intentsError.message)
+        }
+        intents?.forEach(intent => intentsByOrder.set(intent.order_id, intent))
+      }
+
       // Get user details for each notification
       const notificationsWithUsers = await Promise.all(
         (data || []).map(async (notification) => {
           try {
             // Get user profile from user_profiles table
-            const { data: userProfile } = await client
+            const { data: userProfile } = await adminApi
               .from('user_profiles')
               .select('full_name')
               .eq('user_id', notification.user_id)
@@ -553,13 +623,17 @@ export const AdminDashboard: React.FC = () => {
             return {
               ...notification,
               user_name: userProfile?.full_name || 'Unknown User',
-              order_total: notification.orders?.total_amount || notification.amount
+              order_total: notification.orders?.total_amount || notification.amount,
+              payment_reference: intentsByOrder.get(notification.order_id)?.reference,
+              expected_amount: intentsByOrder.has(notification.order_id) ? Number(intentsByOrder.get(notification.order_id)!.amount) : undefined
             }
           } catch (error) {
             return {
               ...notification,
               user_name: 'Unknown User',
-              order_total: notification.orders?.total_amount || notification.amount
+              order_total: notification.orders?.total_amount || notification.amount,
+              payment_reference: intentsByOrder.get(notification.order_id)?.reference,
+              expected_amount: intentsByOrder.has(notification.order_id) ? Number(intentsByOrder.get(notification.order_id)!.amount) : undefined
             }
           }
         })
@@ -582,7 +656,6 @@ export const AdminDashboard: React.FC = () => {
       await updateWithdrawalRequestStatus(
         selectedRequest.id,
         'approved',
-        admin.id,
         adminNotes
       )
       
@@ -609,7 +682,6 @@ export const AdminDashboard: React.FC = () => {
       await updateWithdrawalRequestStatus(
         selectedRequest.id,
         'rejected',
-        admin.id,
         adminNotes
       )
       
@@ -645,13 +717,15 @@ export const AdminDashboard: React.FC = () => {
     }
 
     try {
-      await addNewAdmin(newAdminEmail, newAdminPassword, newAdminName, admin.id)
+      await addNewAdmin(newAdminEmail, newAdminPassword, newAdminName, admin.id, newAdminRole)
       toast.success(`Admin added successfully! ${newAdminEmail} can now access the admin panel.`)
       setNewAdminEmail('')
       setNewAdminName('')
+      setNewAdminRole('admin')
       setNewAdminPassword('')
       setPasswordErrors([])
       setActionDialog(null)
+      setAdminAccountsVersion(version => version + 1)
     } catch (error: any) {
       console.error('Error adding admin:', error)
       toast.error(error.message || 'Failed to add admin')
@@ -825,7 +899,6 @@ export const AdminDashboard: React.FC = () => {
       await updateSubscriptionRequestStatus(
         selectedSubscriptionRequest.id,
         'approved',
-        admin.id,
         subscriptionNotes
       )
       
@@ -852,7 +925,6 @@ export const AdminDashboard: React.FC = () => {
       await updateSubscriptionRequestStatus(
         selectedSubscriptionRequest.id,
         'rejected',
-        admin.id,
         subscriptionNotes
       )
       
@@ -903,6 +975,7 @@ export const AdminDashboard: React.FC = () => {
     setActionDialog(null)
     setSelectedRequest(null)
     setAdminNotes('')
+    setPaymentUtr('')
   }
 
   const closeSubscriptionDialogs = () => {
@@ -918,10 +991,25 @@ export const AdminDashboard: React.FC = () => {
     setAdminNotes('')
   }
 
+  const handleMarkPaid = async () => {
+    if (!selectedRequest || !admin) return
+
+    try {
+      await recordPayoutResult(selectedRequest.id, 'paid', { utr: paymentUtr })
+      toast.success('Withdrawal marked as paid')
+      closeDialogs()
+      loadWithdrawalRequests()
+      loadStats()
+    } catch (error) {
+      console.error('Error marking withdrawal as paid:', error)
+      toast.error(`Failed to mark as paid: ${(error as Error).message}`)
+    }
+  }
+
   const openUPIApp = () => {
     if (!selectedRequest) return
     
-    const upiUrl = `upi://pay?pa=${selectedRequest.upi_id}&pn=Withdrawal&am=${selectedRequest.amount}&cu=INR&tn=Withdrawal Payment`
+    const upiUrl = `upi://pay?pa=${selectedRequest.upi_id}&pn=Withdrawal&am=${getPayoutAmount(selectedRequest)}&cu=INR&tn=Withdrawal Payment`
     window.open(upiUrl, '_blank')
     toast.success('UPI app should open now. Complete the payment and mark as paid.')
   }
@@ -934,6 +1022,10 @@ export const AdminDashboard: React.FC = () => {
         return <Badge variant="secondary" className="bg-green-100 text-green-800"><CheckCircle className="w-3 h-3 mr-1" />Approved</Badge>
       case 'rejected':
         return <Badge variant="secondary" className="bg-red-100 text-red-800"><XCircle className="w-3 h-3 mr-1" />Rejected</Badge>
+      case 'paid':
+        return <Badge variant="secondary" className="bg-blue-100 text-blue-800"><CheckCircle className="w-3 h-3 mr-1" />Paid</Badge>
+      case 'failed':
+        return <Badge variant="secondary" className="bg-red-100 text-red-800"><XCircle className="w-3 h-3 mr-1" />Payout failed</Badge>
       case 'verified':
         return <Badge variant="secondary" className="bg-green-100 text-green-800"><CheckCircle className="w-3 h-3 mr-1" />Verified</Badge>
       default:
@@ -958,6 +1050,7 @@ export const AdminDashboard: React.FC = () => {
     const matchesSearch = userProfile?.full_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          userProfile?.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          request.upi_id?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         request.bank_account_number?.includes(searchTerm) ||
                          searchTerm === ''
     const matchesFilter = filterStatus === 'all' || request.status === filterStatus
     return matchesSearch && matchesFilter
@@ -1034,7 +1127,7 @@ export const AdminDashboard: React.FC = () => {
         {/* Navigation */}
         <ScrollArea className="flex-1">
           <nav className="p-2 space-y-1">
-            {sidebarItems.map((item) => {
+            {visibleSidebarItems.map((item) => {
               const Icon = item.icon
               const isActive = activeTab === item.id
               const hasBadge = (item.id === 'withdrawals' && stats.pendingWithdrawals > 0) ||
@@ -1100,15 +1193,17 @@ export const AdminDashboard: React.FC = () => {
           )}
           
           <div className={`flex ${sidebarCollapsed && !isMobile ? 'flex-col' : 'flex-row'} gap-2`}>
-            <Button
-              variant="outline"
-              onClick={() => setActionDialog('add-admin')}
-              className={`${sidebarCollapsed && !isMobile ? 'w-full p-2' : 'flex-1'}`}
-              size="sm"
-            >
-              <UserPlus className="w-3 h-4" />
-              {(!sidebarCollapsed || isMobile) && <span className="ml-1">Add Admin</span>}
-            </Button>
+            {can('admins.manage') && (
+              <Button
+                variant="outline"
+                onClick={() => setActionDialog('add-admin')}
+                className={`${sidebarCollapsed && !isMobile ? 'w-full p-2' : 'flex-1'}`}
+                size="sm"
+              >
+                <UserPlus className="w-3 h-4" />
+                {(!sidebarCollapsed || isMobile) && <span className="ml-1">Add Admin</span>}
+              </Button>
+            )}
             <Button
               variant="outline"
               onClick={logout}
@@ -1184,7 +1279,7 @@ export const AdminDashboard: React.FC = () => {
         </div>
 
         {/* Status Alerts */}
-        {(connectionStatus === 'disconnected' || !hasAdminAccess || !isSupabaseAvailable) && (
+        {(connectionStatus === 'disconnected' || !isSupabaseAvailable) && (
           <div className="p-3 md:p-4 space-y-2">
             {connectionStatus === 'disconnected' && (
               <Alert className="border-red-200 bg-red-50">
@@ -1195,15 +1290,6 @@ export const AdminDashboard: React.FC = () => {
               </Alert>
             )}
 
-            {!hasAdminAccess && connectionStatus === 'connected' && (
-              <Alert className="border-yellow-200 bg-yellow-50">
-                <AlertCircle className="h-4 w-4 text-yellow-600" />
-                <AlertDescription className="text-yellow-800 text-sm">
-                  <strong>Limited Admin Access:</strong> Service role key not configured.
-                </AlertDescription>
-              </Alert>
-            )}
-
             {!isSupabaseAvailable && (
               <Alert className="border-orange-200 bg-orange-50">
                 <AlertCircle className="h-4 w-4 text-orange-600" />
@@ -1314,59 +1400,65 @@ export const AdminDashboard: React.FC = () => {
 
                 {/* Quick Actions */}
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6">
-                  <Card 
-                    className="cursor-pointer hover:shadow-lg transition-all hover:scale-105" 
-                    onClick={() => setActiveTab('withdrawals')}
-                  >
-                    <CardContent className="p-4 md:p-6">
-                      <div className="flex items-center space-x-3 md:space-x-4">
-                        <div className="w-10 h-10 md:w-12 md:h-12 bg-orange-100 rounded-lg flex items-center justify-center">
-                          <Wallet className="w-5 h-5 md:w-6 md:h-6 text-orange-600" />
-                        </div>
-                        <div>
-                          <h3 className="font-semibold text-sm md:text-lg text-slate-900">Pending Withdrawals</h3>
-                          <p className="text-xs md:text-sm text-slate-600">Requests awaiting approval</p>
-                          <p className="text-xl md:text-2xl font-bold text-orange-600 mt-1">{stats.pendingWithdrawals}</p>
+                  {can('withdrawals.view') && (
+                    <Card 
+                      className="cursor-pointer hover:shadow-lg transition-all hover:scale-105" 
+                      onClick={() => setActiveTab('withdrawals')}
+                    >
+                      <CardContent className="p-4 md:p-6">
+                        <div className="flex items-center space-x-3 md:space-x-4">
+                          <div className="w-10 h-10 md:w-12 md:h-12 bg-orange-100 rounded-lg flex items-center justify-center">
+                            <Wallet className="w-5 h-5 md:w-6 md:h-6 text-orange-600" />
+                          </div>
+                          <div>
+                            <h3 className="font-semibold text-sm md:text-lg text-slate-900">Pending Withdrawals</h3>
+                            <p className="text-xs md:text-sm text-slate-600">Requests awaiting approval</p>
+                            <p className="text-xl md:text-2xl font-bold text-orange-600 mt-1">{stats.pendingWithdrawals}</p>
+                          </div>
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
+                      </CardContent>
+                    </Card>
+                  )}
 
-                  <Card 
-                    className="cursor-pointer hover:shadow-lg transition-all hover:scale-105" 
-                    onClick={() => setActiveTab('subscriptions')}
-                  >
-                    <CardContent className="p-4 md:p-6">
-                      <div className="flex items-center space-x-3 md:space-x-4">
-                        <div className="w-10 h-10 md:w-12 md:h-12 bg-purple-100 rounded-lg flex items-center justify-center">
-                          <Crown className="w-5 h-5 md:w-6 md:h-6 text-purple-600" />
-                        </div>
-                        <div>
-                          <h3 className="font-semibold text-sm md:text-lg text-slate-900">Pending Subscriptions</h3>
-                          <p className="text-xs md:text-sm text-slate-600">Subscription requests</p>
-                          <p className="text-xl md:text-2xl font-bold text-purple-600 mt-1">{stats.pendingSubscriptions}</p>
+                  {can('subscriptions.view') && (
+                    <Card 
+                      className="cursor-pointer hover:shadow-lg transition-all hover:scale-105" 
+                      onClick={() => setActiveTab('subscriptions')}
+                    >
+                      <CardContent className="p-4 md:p-6">
+                        <div className="flex items-center space-x-3 md:space-x-4">
+                          <div className="w-10 h-10 md:w-12 md:h-12 bg-purple-100 rounded-lg flex items-center justify-center">
+                            <Crown className="w-5 h-5 md:w-6 md:h-6 text-purple-600" />
+                          </div>
+                          <div>
+                            <h3 className="font-semibold text-sm md:text-lg text-slate-900">Pending Subscriptions</h3>
+                            <p className="text-xs md:text-sm text-slate-600">Subscription requests</p>
+                            <p className="text-xl md:text-2xl font-bold text-purple-600 mt-1">{stats.pendingSubscriptions}</p>
+                          </div>
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
+                      </CardContent>
+                    </Card>
+                  )}
 
-                  <Card 
-                    className="cursor-pointer hover:shadow-lg transition-all hover:scale-105" 
-                    onClick={() => setActiveTab('payments')}
-                  >
-                    <CardContent className="p-4 md:p-6">
-                      <div className="flex items-center space-x-3 md:space-x-4">
-                        <div className="w-10 h-10 md:w-12 md:h-12 bg-blue-100 rounded-lg flex items-center justify-center">
-                          <CreditCard className="w-5 h-5 md:w-6 md:h-6 text-blue-600" />
-                        </div>
-                        <div>
-                          <h3 className="font-semibold text-sm md:text-lg text-slate-900">Payment Verifications</h3>
-                          <p className="text-xs md:text-sm text-slate-600">Payments to verify</p>
-                          <p className="text-xl md:text-2xl font-bold text-blue-600 mt-1">{pendingNotifications.length}</p>
+                  {can('payments.view') && (
+                    <Card 
+                      className="cursor-pointer hover:shadow-lg transition-all hover:scale-105" 
+                      onClick={() => setActiveTab('payments')}
+                    >
+                      <CardContent className="p-4 md:p-6">
+                        <div className="flex items-center space-x-3 md:space-x-4">
+                          <div className="w-10 h-10 md:w-12 md:h-12 bg-blue-100 rounded-lg flex items-center justify-center">
+                            <CreditCard className="w-5 h-5 md:w-6 md:h-6 text-blue-600" />
+                          </div>
+                          <div>
+                            <h3 className="font-semibold text-sm md:text-lg text-slate-900">Payment Verifications</h3>
+                            <p className="text-xs md:text-sm text-slate-600">Payments to verify</p>
+                            <p className="text-xl md:text-2xl font-bold text-blue-600 mt-1">{pendingNotifications.length}</p>
+                          </div>
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
+                      </CardContent>
+                    </Card>
+                  )}
                 </div>
 
                 {/* Recent Activity */}
@@ -1403,163 +1495,206 @@ export const AdminDashboard: React.FC = () => {
             )}
 
             {activeTab === 'withdrawals' && (
-              <Card>
-                <CardHeader>
-                  <div className="flex flex-col space-y-4 md:flex-row md:justify-between md:items-center md:space-y-0">
-                    <div>
-                      <CardTitle className="flex items-center text-base md:text-lg">
-                        <Wallet className="w-4 h-4 md:w-5 md:h-5 mr-2" />
-                        Withdrawal Management
-                      </CardTitle>
-                      <CardDescription className="text-sm">
-                        Manage user withdrawal requests and UPI payments
-                      </CardDescription>
-                    </div>
-                    <div className="flex space-x-2">
-                      <Button variant="outline" className="h-8 md:h-9 text-xs md:text-sm">
-                        <Download className="w-3 h-3 md:w-4 md:h-4 mr-2" />
-                        Export
-                      </Button>
+              <div className="space-y-4 md:space-y-6">
+                <Card>
+                  <CardHeader>
+                    <div className="flex flex-col space-y-4 md:flex-row md:justify-between md:items-center md:space-y-0">
+                      <div>
+                        <CardTitle className="flex items-center text-base md:text-lg">
+                          <Wallet className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+                          Withdrawal Management
+                        </CardTitle>
+                        <CardDescription className="text-sm">
+                          Manage user withdrawal requests and UPI payments
+                        </CardDescription>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button variant="outline" className="h-8 md:h-9 text-xs md:text-sm">
+                          <Download className="w-3 h-3 md:w-4 md:h-4 mr-2" />
+                          Export
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  {/* Search and Filter */}
-                  <div className="flex flex-col space-y-3 md:flex-row md:space-y-0 md:space-x-4 mb-4 md:mb-6">
-                    <div className="flex-1">
-                      <div className="relative">
-                        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-                        <Input
-                          placeholder="Search by name, email, or UPI ID..."
-                          value={searchTerm}
-                          onChange={(e) => setSearchTerm(e.target.value)}
-                          className="pl-10 text-sm"
-                        />
+                  </CardHeader>
+                  <CardContent>
+                    {/* Search and Filter */}
+                    <div className="flex flex-col space-y-3 md:flex-row md:space-y-0 md:space-x-4 mb-4 md:mb-6">
+                      <div className="flex-1">
+                        <div className="relative">
+                          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                          <Input
+                            placeholder="Search by name, email, or UPI ID..."
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            className="pl-10 text-sm"
+                          />
+                        </div>
                       </div>
+                      <Select value={filterStatus} onValueChange={setFilterStatus}>
+                        <SelectTrigger className="w-full md:w-[180px]">
+                          <SelectValue placeholder="Filter by status" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Status</SelectItem>
+                          <SelectItem value="pending">Pending</SelectItem>
+                          <SelectItem value="approved">Approved</SelectItem>
+                          <SelectItem value="paid">Paid</SelectItem>
+                          <SelectItem value="failed">Payout failed</SelectItem>
+                          <SelectItem value="rejected">Rejected</SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
-                    <Select value={filterStatus} onValueChange={setFilterStatus}>
-                      <SelectTrigger className="w-full md:w-[180px]">
-                        <SelectValue placeholder="Filter by status" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="all">All Status</SelectItem>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="approved">Approved</SelectItem>
-                        <SelectItem value="rejected">Rejected</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
 
-                  {/* Withdrawal Requests */}
-                  {isLoading ? (
-                    <div className="text-center py-8 md:py-12">
-                      <div className="animate-spin rounded-full h-6 w-6 md:h-8 md:w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
-                      <p className="text-slate-600 text-sm md:text-base">Loading withdrawal requests...</p>
-                    </div>
-                  ) : filteredRequests.length === 0 ? (
-                    <div className="text-center py-8 md:py-12">
-                      <Wallet className="w-8 h-8 md:w-12 md:h-12 text-slate-400 mx-auto mb-4" />
-                      <h3 className="text-base md:text-lg font-medium text-slate-900 mb-2">No withdrawal requests found</h3>
-                      <p className="text-slate-500 text-sm md:text-base">Try adjusting your search or filter criteria</p>
-                    </div>
-                  ) : (
-                    <div className="space-y-3 md:space-y-4">
-                      {filteredRequests.map((request) => (
-                        <Card key={request.id} className="hover:shadow-md transition-shadow">
-                          <CardContent className="p-4 md:p-6">
-                            <div className="space-y-4">
-                              <div className="flex flex-col space-y-3 md:flex-row md:justify-between md:items-start md:space-y-0">
-                                <div className="flex-1 w-full">
-                                  <div className="flex flex-col space-y-2 md:flex-row md:items-center md:space-y-0 md:space-x-3 mb-3 md:mb-4">
-                                    <div className="flex items-center space-x-3">
-                                      <div className="w-8 h-8 md:w-10 md:h-10 bg-slate-100 rounded-full flex items-center justify-center">
-                                        <User className="w-4 h-4 md:w-5 md:h-5 text-slate-600" />
+                    {/* Withdrawal Requests */}
+                    {isLoading ? (
+                      <div className="text-center py-8 md:py-12">
+                        <div className="animate-spin rounded-full h-6 w-6 md:h-8 md:w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                        <p className="text-slate-600 text-sm md:text-base">Loading withdrawal requests...</p>
+                      </div>
+                    ) : filteredRequests.length === 0 ? (
+                      <div className="text-center py-8 md:py-12">
+                        <Wallet className="w-8 h-8 md:w-12 md:h-12 text-slate-400 mx-auto mb-4" />
+                        <h3 className="text-base md:text-lg font-medium text-slate-900 mb-2">No withdrawal requests found</h3>
+                        <p className="text-slate-500 text-sm md:text-base">Try adjusting your search or filter criteria</p>
+                      </div>
+                    ) : (
+                      <div className="space-y-3 md:space-y-4">
+                        {filteredRequests.map((request) => (
+                          <Card key={request.id} className="hover:shadow-md transition-shadow">
+                            <CardContent className="p-4 md:p-6">
+                              <div className="space-y-4">
+                                <div className="flex flex-col space-y-3 md:flex-row md:justify-between md:items-start md:space-y-0">
+                                  <div className="flex-1 w-full">
+                                    <div className="flex flex-col space-y-2 md:flex-row md:items-center md:space-y-0 md:space-x-3 mb-3 md:mb-4">
+                                      <div className="flex items-center space-x-3">
+                                        <div className="w-8 h-8 md:w-10 md:h-10 bg-slate-100 rounded-full flex items-center justify-center">
+                                          <User className="w-4 h-4 md:w-5 md:h-5 text-slate-600" />
+                                        </div>
+                                        <h3 className="text-base md:text-lg font-semibold text-slate-900">
+                                          {request.user_profiles?.full_name || 'Unknown User'}
+                                        </h3>
                                       </div>
-                                      <h3 className="text-base md:text-lg font-semibold text-slate-900">
-                                        {request.user_profiles?.full_name || 'Unknown User'}
-                                      </h3>
-                                    </div>
-                                    {getStatusBadge(request.status)}
-                                  </div>
-                                  
-                                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4 text-sm">
-                                    <div>
-                                      <Label className="text-slate-500 text-xs md:text-sm">Email</Label>
-                                      <p className="font-medium text-slate-900 text-sm md:text-base break-all">{request.user_profiles?.email || 'No email available'}</p>
-                                    </div>
-                                    <div>
-                                      <Label className="text-slate-500 text-xs md:text-sm">Amount</Label>
-                                      <p className="font-semibold text-green-600 text-base md:text-lg">{formatCurrency(request.amount)}</p>
-                                    </div>
-                                    <div>
-                                      <Label className="text-slate-500 text-xs md:text-sm">UPI ID</Label>
-                                      <p className="font-mono text-xs md:text-sm text-slate-900 break-all">{request.upi_id}</p>
+                                      {getStatusBadge(request.status)}
                                     </div>
-                                    <div>
-                                      <Label className="text-slate-500 text-xs md:text-sm">Requested</Label>
-                                      <p className="font-medium text-slate-900 text-sm md:text-base">{formatDate(request.requested_at)}</p>
+                                    
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4 text-sm">
+                                      <div>
+                                        <Label className="text-slate-500 text-xs md:text-sm">Email</Label>
+                                        <p className="font-medium text-slate-900 text-sm md:text-base break-all">{request.user_profiles?.email || 'No email available'}</p>
+                                      </div>
+                                      <div>
+                                        <Label className="text-slate-500 text-xs md:text-sm">Amount</Label>
+                                        <p className="font-semibold text-green-600 text-base md:text-lg">{formatCurrency(request.amount)}</p>
+                                        {(request.tds_amount || 0) > 0 && (
+                                          <p className="text-xs text-slate-500">
+                                            {formatCurrency(request.tds_amount)} TDS · {formatCurrency(getPayoutAmount(request))} to pay
+                                          </p>
+                                        )}
+                                      </div>
+                                      <div>
+                                        <Label className="text-slate-500 text-xs md:text-sm">{request.upi_id ? 'UPI ID' : 'Bank Account'}</Label>
+                                        <p className="font-mono text-xs md:text-sm text-slate-900 break-all">{getPayoutDestination(request)}</p>
+                                      </div>
+                                      <div>
+                                        <Label className="text-slate-500 text-xs md:text-sm">Requested</Label>
+                                        <p className="font-medium text-slate-900 text-sm md:text-base">{formatDate(request.requested_at)}</p>
+                                      </div>
                                     </div>
+                                    
+                                    {request.admin_notes && (
+                                      <div className="mt-3 md:mt-4 p-3 bg-slate-50 rounded-lg">
+                                        <Label className="text-slate-500 text-xs md:text-sm">Admin Notes</Label>
+                                        <p className="text-xs md:text-sm text-slate-700 mt-1">{request.admin_notes}</p>
+                                      </div>
+                                    )}
+
+                                    {(request.utr || request.failure_reason) && (
+                                      <div className="mt-3 md:mt-4 p-3 bg-slate-50 rounded-lg">
+                                        <Label className="text-slate-500 text-xs md:text-sm">
+                                          {request.status === 'failed' ? 'Payout failed' : 'UTR'}
+                                        </Label>
+                                        <p className="text-xs md:text-sm text-slate-700 mt-1 font-mono">
+                                          {request.status === 'failed' ? request.failure_reason : request.utr}
+                                        </p>
+                                      </div>
+                                    )}
                                   </div>
-                                  
-                                  {request.admin_notes && (
-                                    <div className="mt-3 md:mt-4 p-3 bg-slate-50 rounded-lg">
-                                      <Label className="text-slate-500 text-xs md:text-sm">Admin Notes</Label>
-                                      <p className="text-xs md:text-sm text-slate-700 mt-1">{request.admin_notes}</p>
+                                </div>
+                                
+                                <div className="flex flex-col space-y-2 md:flex-row md:space-y-0 md:space-x-2 pt-2 border-t">
+                                  {request.status === 'pending' && can('withdrawals.approve') && (
+                                    <div className="flex space-x-2">
+                                      <Button
+                                        size="sm"
+                                        onClick={() => {
+                                          setSelectedRequest(request)
+                                          setActionDialog('approve')
+                                        }}
+                                        className="bg-green-600 hover:bg-green-700 flex-1 md:flex-none"
+                                      >
+                                        <Check className="w-4 h-4 mr-2" />
+                                        Approve
+                                      </Button>
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => {
+                                          setSelectedRequest(request)
+                                          setActionDialog('reject')
+                                        }}
+                                        className="border-red-200 text-red-600 hover:bg-red-50 flex-1 md:flex-none"
+                                      >
+                                        <X className="w-4 h-4 mr-2" />
+                                        Reject
+                                      </Button>
                                     </div>
                                   )}
-                                </div>
-                              </div>
-                              
-                              <div className="flex flex-col space-y-2 md:flex-row md:space-y-0 md:space-x-2 pt-2 border-t">
-                                {request.status === 'pending' && (
-                                  <div className="flex space-x-2">
-                                    <Button
-                                      size="sm"
-                                      onClick={() => {
-                                        setSelectedRequest(request)
-                                        setActionDialog('approve')
-                                      }}
-                                      className="bg-green-600 hover:bg-green-700 flex-1 md:flex-none"
-                                    >
-                                      <Check className="w-4 h-4 mr-2" />
-                                      Approve
-                                    </Button>
+                                  {request.status === 'approved' && request.payout_batch_id && (
+                                    <p className="text-xs md:text-sm text-slate-500">
+                                      In a payout batch; record the result under Payout Batches
+                                    </p>
+                                  )}
+                                  {request.status === 'approved' && !request.payout_batch_id && can('payouts.manage') && (
                                     <Button
                                       size="sm"
-                                      variant="outline"
                                       onClick={() => {
                                         setSelectedRequest(request)
-                                        setActionDialog('reject')
+                                        setActionDialog('payment')
                                       }}
-                                      className="border-red-200 text-red-600 hover:bg-red-50 flex-1 md:flex-none"
+                                      className="bg-blue-600 hover:bg-blue-700 w-full md:w-auto"
                                     >
-                                      <X className="w-4 h-4 mr-2" />
-                                      Reject
+                                      <QrCode className="w-4 h-4 mr-2" />
+                                      Pay Now
                                     </Button>
-                                  </div>
-                                )}
-                                {request.status === 'approved' && (
-                                  <Button
-                                    size="sm"
-                                    onClick={() => {
-                                      setSelectedRequest(request)
-                                      setActionDialog('payment')
-                                    }}
-                                    className="bg-blue-600 hover:bg-blue-700 w-full md:w-auto"
-                                  >
-                                    <QrCode className="w-4 h-4 mr-2" />
-                                    Pay Now
-                                  </Button>
-                                )}
+                                  )}
+                                </div>
                               </div>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      ))}
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
+                            </CardContent>
+                          </Card>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+                {can('payouts.manage') && (
+                  <PayoutBatchManager
+                    onPayoutsChanged={() => {
+                      loadWithdrawalRequests()
+                      loadStats()
+                    }}
+                  />
+                )}
+                {can('tds.view') && <TdsReport />}
+                {can('wallet.adjust') && <WalletDriftReport />}
+              </div>
+            )}
+
+            {activeTab === 'kyc' && (
+              <KycVerificationQueue />
+            )}
+
+            {activeTab === 'fraud' && (
+              <FraudReviewPanel />
             )}
 
             {activeTab === 'subscriptions' && (
@@ -1597,6 +1732,9 @@ export const AdminDashboard: React.FC = () => {
                                         {request.user_profile?.full_name || 'Unknown User'}
                                       </h3>
                                       {getStatusBadge(request.status)}
+                                      {request.request_type === 'renewal' && (
+                                        <Badge variant="outline" className="border-purple-300 text-purple-700">Renewal</Badge>
+                                      )}
                                     </div>
                                     
                                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4 text-sm">
@@ -1604,6 +1742,14 @@ export const AdminDashboard: React.FC = () => {
                                         <Label className="text-slate-500 text-xs md:text-sm">Amount</Label>
                                         <p className="font-semibold text-green-600 text-base md:text-lg">₹{request.amount}</p>
                                       </div>
+                                      <div>
+                                        <Label className="text-slate-500 text-xs md:text-sm">Plan</Label>
+                                        <p className="font-medium text-slate-900 text-sm md:text-base">
+                                          {request.subscription_plan
+                                            ? `${request.subscription_plan.name} (${request.subscription_plan.duration_months} months)`
+                                            : 'Default plan'}
+                                        </p>
+                                      </div>
                                       <div>
                                         <Label className="text-slate-500 text-xs md:text-sm">Transaction ID</Label>
                                         <p className="font-mono text-xs md:text-sm text-slate-900 break-all">{request.upi_transaction_id}</p>
@@ -1632,29 +1778,33 @@ export const AdminDashboard: React.FC = () => {
                                       View Proof
                                     </Button>
                                   )}
-                                  <Button
-                                    size="sm"
-                                    onClick={() => {
-                                      setSelectedSubscriptionRequest(request)
-                                      setSubscriptionDialog('approve')
-                                    }}
-                                    className="bg-green-600 hover:bg-green-700 w-full md:w-auto"
-                                  >
-                                    <Check className="w-4 h-4 mr-2" />
-                                    Approve
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => {
-                                      setSelectedSubscriptionRequest(request)
-                                      setSubscriptionDialog('reject')
-                                    }}
-                                    className="border-red-200 text-red-600 hover:bg-red-50 w-full md:w-auto"
-                                  >
-                                    <X className="w-4 h-4 mr-2" />
-                                    Reject
-                                  </Button>
+                                  {can('subscriptions.approve') && (
+                                    <>
+                                      <Button
+                                        size="sm"
+                                        onClick={() => {
+                                          setSelectedSubscriptionRequest(request)
+                                          setSubscriptionDialog('approve')
+                                        }}
+                                        className="bg-green-600 hover:bg-green-700 w-full md:w-auto"
+                                      >
+                                        <Check className="w-4 h-4 mr-2" />
+                                        Approve
+                                      </Button>
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => {
+                                          setSelectedSubscriptionRequest(request)
+                                          setSubscriptionDialog('reject')
+                                        }}
+                                        className="border-red-200 text-red-600 hover:bg-red-50 w-full md:w-auto"
+                                      >
+                                        <X className="w-4 h-4 mr-2" />
+                                        Reject
+                                      </Button>
+                                    </>
+                                  )}
                                 </div>
                               </div>
                             </CardContent>
@@ -1664,6 +1814,8 @@ export const AdminDashboard: React.FC = () => {
                     )}
                   </CardContent>
                 </Card>
+
+                {can('plans.write') && <SubscriptionPlanManager />}
               </div>
             )}
 
@@ -1774,6 +1926,14 @@ export const AdminDashboard: React.FC = () => {
                                         <Label className="text-slate-500 text-xs md:text-sm">Submitted</Label>
                                         <p className="font-medium text-slate-900 text-sm md:text-base">{formatDate(notification.created_at)}</p>
                                       </div>
+                                      {notification.payment_reference && (
+                                        <div>
+                                          <Label className="text-slate-500 text-xs md:text-sm">Payment Reference</Label>
+                                          <p className="font-mono text-xs md:text-sm text-slate-900 break-all">
+                                            {notification.payment_reference} • exactly ₹{notification.expected_amount?.toFixed(2)}
+                                          </p>
+                                        </div>
+                                      )}
                                     </div>
                                     
                                     {(notification.transaction_reference || notification.user_message) && (
@@ -1795,34 +1955,36 @@ export const AdminDashboard: React.FC = () => {
                                   </div>
                                 </div>
                                 
-                                <div className="flex flex-col space-y-2 md:flex-row md:space-y-0 md:space-x-2 pt-2 border-t">
-                                  <Button
-                                    size="sm"
-                                    onClick={() => {
-                                      setSelectedNotification(notification)
-                                      setVerificationAction('verified')
-                                      setNotificationDialog('verify')
-                                    }}
-                                    className="bg-green-600 hover:bg-green-700 w-full md:w-auto"
-                                  >
-                                    <CheckCircle className="h-4 w-4 mr-2" />
-                                    Verify
-                                  </Button>
+                                {can('payments.verify') && (
+                                  <div className="flex flex-col space-y-2 md:flex-row md:space-y-0 md:space-x-2 pt-2 border-t">
+                                    <Button
+                                      size="sm"
+                                      onClick={() => {
+                                        setSelectedNotification(notification)
+                                        setVerificationAction('verified')
+                                        setNotificationDialog('verify')
+                                      }}
+                                      className="bg-green-600 hover:bg-green-700 w-full md:w-auto"
+                                    >
+                                      <CheckCircle className="h-4 w-4 mr-2" />
+                                      Verify
+                                    </Button>
                                   
-                                  <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() => {
-                                      setSelectedNotification(notification)
-                                      setVerificationAction('rejected')
-                                      setNotificationDialog('verify')
-                                    }}
-                                    className="border-red-200 text-red-600 hover:bg-red-50 w-full md:w-auto"
-                                  >
-                                    <XCircle className="h-4 w-4 mr-2" />
-                                    Reject
-                                  </Button>
-                                </div>
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => {
+                                        setSelectedNotification(notification)
+                                        setVerificationAction('rejected')
+                                        setNotificationDialog('verify')
+                                      }}
+                                      className="border-red-200 text-red-600 hover:bg-red-50 w-full md:w-auto"
+                                    >
+                                      <XCircle className="h-4 w-4 mr-2" />
+                                      Reject
+                                    </Button>
+                                  </div>
+                                )}
                               </div>
                             </CardContent>
                           </Card>
@@ -1831,6 +1993,16 @@ export const AdminDashboard: React.FC = () => {
                     )}
                   </CardContent>
                 </Card>
+
+                {can('reconciliation.manage') && (
+                  <StatementReconciliation
+                    onPaymentsSettled={() => {
+                      loadPaymentNotifications()
+                      loadSubscriptionRequests()
+                      loadOrders()
+                    }}
+                  />
+                )}
               </div>
             )}
 
@@ -1848,13 +2020,15 @@ export const AdminDashboard: React.FC = () => {
                       </CardDescription>
                     </div>
                     <div className="flex flex-col space-y-2 md:flex-row md:space-y-0 md:space-x-2">
-                      <Button
-                        onClick={() => openProductDialog('add')}
-                        className="bg-green-600 hover:bg-green-700 w-full md:w-auto"
-                      >
-                        <Plus className="w-4 h-4 mr-2" />
-                        Add Product
-                      </Button>
+                      {can('products.write') && (
+                        <Button
+                          onClick={() => openProductDialog('add')}
+                          className="bg-green-600 hover:bg-green-700 w-full md:w-auto"
+                        >
+                          <Plus className="w-4 h-4 mr-2" />
+                          Add Product
+                        </Button>
+                      )}
                       <Button variant="outline" onClick={loadProducts} className="w-full md:w-auto">
                         <RefreshCw className="w-4 h-4 mr-2" />
                         Refresh
@@ -1872,11 +2046,15 @@ export const AdminDashboard: React.FC = () => {
                     <div className="text-center py-8 md:py-12">
                       <Package className="w-8 h-8 md:w-12 md:h-12 text-slate-400 mx-auto mb-4" />
                       <h3 className="text-base md:text-lg font-medium text-slate-900 mb-2">No products found</h3>
-                      <p className="text-slate-500 mb-4 text-sm md:text-base">Get started by adding your first product</p>
-                      <Button onClick={() => openProductDialog('add')}>
-                        <Plus className="w-4 h-4 mr-2" />
-                        Add Product
-                      </Button>
+                      <p className="text-slate-500 mb-4 text-sm md:text-base">
+                        {can('products.write') ? 'Get started by adding your first product' : 'No products have been added yet'}
+                      </p>
+                      {can('products.write') && (
+                        <Button onClick={() => openProductDialog('add')}>
+                          <Plus className="w-4 h-4 mr-2" />
+                          Add Product
+                        </Button>
+                      )}
                     </div>
                   ) : (
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
@@ -1919,43 +2097,35 @@ export const AdminDashboard: React.FC = () => {
                               </div>
 
                               <div className="flex flex-col space-y-2 pt-2 border-t">
-                                <div className="flex space-x-2">
-                                  <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => openProductDialog('edit', product)}
-                                    className="flex-1"
-                                  >
-                                    <Edit className="w-4 h-4 mr-1" />
-                                    Edit
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => openProductDialog('delete', product)}
-                                    className="flex-1 text-red-600 hover:text-red-700"
-                                  >
-                                    <Trash2 className="w-4 h-4 mr-1" />
-                                    Delete
-                                  </Button>
-                                </div>
+                                {can('products.write') && (
+                                  <div className="flex space-x-2">
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => openProductDialog('edit', product)}
+                                      className="flex-1"
+                                    >
+                                      <Edit className="w-4 h-4 mr-1" />
+                                      Edit
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => openProductDialog('delete', product)}
+                                      className="flex-1 text-red-600 hover:text-red-700"
+                                    >
+                                      <Trash2 className="w-4 h-4 mr-1" />
+                                      Delete
+                                    </Button>
+                                  </div>
+                                )}
                                 <Button
                                   size="sm"
                                   variant="ghost"
-                                  onClick={() => {
-                                    const newStock = prompt('Enter new stock quantity:', product.stock_quantity.toString())
-                                    if (newStock && !isNaN(Number(newStock))) {
-                                      updateProductStock(product.id, Number(newStock)).then(() => {
-                                        toast.success('Stock updated successfully!')
-                                        loadProducts()
-                                      }).catch(() => {
-                                        toast.error('Failed to update stock')
-                                      })
-                                    }
-                                  }}
+                                  onClick={() => setStockProduct(product)}
                                   className="text-blue-600 hover:text-blue-700 w-full"
                                 >
-                                  Update Stock
+                                  Stock & History
                                 </Button>
                               </div>
                             </div>
@@ -2046,28 +2216,43 @@ export const AdminDashboard: React.FC = () => {
                               </div>
 
                               <div className="flex gap-2 pt-3">
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={() => {
-                                    setSelectedUser(user)
-                                    setEditUser({ full_name: user.full_name || '', email: user.email || '', phone: user.phone || '' })
-                                    setUserDialog('edit')
-                                  }}
-                                  className="text-xs"
-                                >
-                                  <Edit className="w-4 h-4 mr-1" />
-                                  Edit
-                                </Button>
-                                <Button
-                                  variant="destructive"
-                                  size="sm"
-                                  onClick={() => { setSelectedUser(user); setUserDialog('delete') }}
-                                  className="text-xs"
-                                >
-                                  <Trash2 className="w-4 h-4 mr-1" />
-                                  Delete
-                                </Button>
+                                {can('users.write') && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => {
+                                      setSelectedUser(user)
+                                      setEditUser({ full_name: user.full_name || '', email: user.email || '', phone: user.phone || '' })
+                                      setUserDialog('edit')
+                                    }}
+                                    className="text-xs"
+                                  >
+                                    <Edit className="w-4 h-4 mr-1" />
+                                    Edit
+                                  </Button>
+                                )}
+                                {can('referrals.view') && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setTreeUser(user)}
+                                    className="text-xs"
+                                  >
+                                    <GitBranch className="w-4 h-4 mr-1" />
+                                    Tree
+                                  </Button>
+                                )}
+                                {can('users.delete') && (
+                                  <Button
+                                    variant="destructive"
+                                    size="sm"
+                                    onClick={() => { setSelectedUser(user); setUserDialog('delete') }}
+                                    className="text-xs"
+                                  >
+                                    <Trash2 className="w-4 h-4 mr-1" />
+                                    Delete
+                                  </Button>
+                                )}
                               </div>
                             </div>
                           </CardContent>
@@ -2144,6 +2329,10 @@ export const AdminDashboard: React.FC = () => {
               </Card>
             )}
 
+            {activeTab === 'refunds' && (
+              <RefundsManager />
+            )}
+
             {activeTab === 'analytics' && (
               <div className="space-y-4 md:space-y-6">
                 <Card>
@@ -2165,6 +2354,10 @@ export const AdminDashboard: React.FC = () => {
               </div>
             )}
 
+            {activeTab === 'audit' && (
+              <AdminAuditLog />
+            )}
+
             {activeTab === 'settings' && (
               <div className="space-y-4 md:space-y-6">
                 {/* Account Information */}
@@ -2190,7 +2383,7 @@ export const AdminDashboard: React.FC = () => {
                         <Label className="text-slate-500 text-xs md:text-sm">Role</Label>
                         <Badge variant="outline" className="w-fit text-xs">
                           <Shield className="w-3 h-3 mr-1" />
-                          {admin?.role || 'admin'}
+                          {formatAdminRole(admin?.role || 'admin')}
                         </Badge>
                       </div>
                       <div>
@@ -2203,121 +2396,135 @@ export const AdminDashboard: React.FC = () => {
                   </CardContent>
                 </Card>
 
-                {/* UPI Management */}
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center text-base md:text-lg">
-                      <CreditCard className="w-4 h-4 md:w-5 md:h-5 mr-2" />
-                      UPI Payment Settings
-                    </CardTitle>
-                    <CardDescription className="text-sm">
-                      Manage UPI IDs for receiving payments
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      {upiLoading ? (
-                        <div className="text-center py-6 md:py-8">
-                          <div className="animate-spin rounded-full h-6 w-6 md:h-8 md:w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
-                          <p className="text-slate-600 text-sm md:text-base">Loading UPI settings...</p>
-                        </div>
-                      ) : adminUPIs.length === 0 ? (
-                        <div className="text-center py-8 md:py-12">
-                          <CreditCard className="w-8 h-8 md:w-12 md:h-12 text-slate-400 mx-auto mb-4" />
-                          <h3 className="text-base md:text-lg font-medium text-slate-900 mb-2">No UPI IDs configured</h3>
-                          <p className="text-slate-500 mb-4 text-sm md:text-base">Add your first UPI ID to start receiving payments</p>
-                          <Button onClick={() => setUpiDialog('add')}>
-                            <Plus className="w-4 h-4 mr-2" />
-                            Add UPI ID
-                          </Button>
-                        </div>
-                      ) : (
+                {admin && can('admins.manage') && (
+                  <AdminAccountsManager key={adminAccountsVersion} currentAdminId={admin.id} roles={adminRoles} />
+                )}
+
+                {admin && <AdminTwoFactorSettings />}
+
+                {admin && <AdminSessionsPanel admin={admin} />}
+
+                {can('settings.write') && (
+                  <>
+                    <PaymentProviderSettings />
+
+                    {/* UPI Management */}
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="flex items-center text-base md:text-lg">
+                          <CreditCard className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+                          UPI Payment Settings
+                        </CardTitle>
+                        <CardDescription className="text-sm">
+                          Manage UPI IDs for receiving payments
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
                         <div className="space-y-4">
-                          {adminUPIs.map((upi) => (
-                            <Card key={upi.id} className="border hover:shadow-md transition-shadow">
-                              <CardContent className="p-4">
-                                <div className="flex flex-col space-y-3 md:flex-row md:items-center md:justify-between md:space-y-0">
-                                  <div className="flex items-center gap-3">
-                                    <div className="w-8 h-8 md:w-10 md:h-10 bg-blue-100 rounded-full flex items-center justify-center">
-                                      <CreditCard className="w-4 h-4 md:w-5 md:h-5 text-blue-600" />
-                                    </div>
-                                    <div className="min-w-0 flex-1">
-                                      <p className="font-mono text-xs md:text-sm text-slate-900 break-all">{upi.upi_id}</p>
-                                      <p className="text-xs md:text-sm text-slate-600">{upi.upi_name}</p>
-                                      {upi.is_primary && (
-                                        <Badge variant="default" className="bg-green-100 text-green-800 mt-1 text-xs">
-                                          <CheckCircle className="h-3 w-3 mr-1" />
-                                          Primary
-                                        </Badge>
-                                      )}
-                                    </div>
-                                  </div>
+                          {upiLoading ? (
+                            <div className="text-center py-6 md:py-8">
+                              <div className="animate-spin rounded-full h-6 w-6 md:h-8 md:w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                              <p className="text-slate-600 text-sm md:text-base">Loading UPI settings...</p>
+                            </div>
+                          ) : adminUPIs.length === 0 ? (
+                            <div className="text-center py-8 md:py-12">
+                              <CreditCard className="w-8 h-8 md:w-12 md:h-12 text-slate-400 mx-auto mb-4" />
+                              <h3 className="text-base md:text-lg font-medium text-slate-900 mb-2">No UPI IDs configured</h3>
+                              <p className="text-slate-500 mb-4 text-sm md:text-base">Add your first UPI ID to start receiving payments</p>
+                              <Button onClick={() => setUpiDialog('add')}>
+                                <Plus className="w-4 h-4 mr-2" />
+                                Add UPI ID
+                              </Button>
+                            </div>
+                          ) : (
+                            <div className="space-y-4">
+                              {adminUPIs.map((upi) => (
+                                <Card key={upi.id} className="border hover:shadow-md transition-shadow">
+                                  <CardContent className="p-4">
+                                    <div className="flex flex-col space-y-3 md:flex-row md:items-center md:justify-between md:space-y-0">
+                                      <div className="flex items-center gap-3">
+                                        <div className="w-8 h-8 md:w-10 md:h-10 bg-blue-100 rounded-full flex items-center justify-center">
+                                          <CreditCard className="w-4 h-4 md:w-5 md:h-5 text-blue-600" />
+                                        </div>
+                                        <div className="min-w-0 flex-1">
+                                          <p className="font-mono text-xs md:text-sm text-slate-900 break-all">{upi.upi_id}</p>
+                                          <p className="text-xs md:text-sm text-slate-600">{upi.upi_name}</p>
+                                          {upi.is_primary && (
+                                            <Badge variant="default" className="bg-green-100 text-green-800 mt-1 text-xs">
+                                              <CheckCircle className="h-3 w-3 mr-1" />
+                                              Primary
+                                            </Badge>
+                                          )}
+                                        </div>
+                                      </div>
                                   
-                                  <div className="flex items-center gap-2">
-                                    <Button
-                                      variant="ghost"
-                                      size="sm"
-                                      onClick={() => {
-                                        navigator.clipboard.writeText(upi.upi_id)
-                                        toast.success('UPI ID copied to clipboard')
-                                      }}
-                                    >
-                                      <Copy className="h-4 w-4" />
-                                    </Button>
+                                      <div className="flex items-center gap-2">
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => {
+                                            navigator.clipboard.writeText(upi.upi_id)
+                                            toast.success('UPI ID copied to clipboard')
+                                          }}
+                                        >
+                                          <Copy className="h-4 w-4" />
+                                        </Button>
                                     
-                                    <Button
-                                      variant="ghost"
-                                      size="sm"
-                                      onClick={() => {
-                                        setSelectedUPI(upi)
-                                        setUpiDialog('qr')
-                                      }}
-                                    >
-                                      <QrCode className="h-4 w-4" />
-                                    </Button>
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => {
+                                            setSelectedUPI(upi)
+                                            setUpiDialog('qr')
+                                          }}
+                                        >
+                                          <QrCode className="h-4 w-4" />
+                                        </Button>
                                     
-                                    {!upi.is_primary && (
-                                      <Button
-                                        variant="ghost"
-                                        size="sm"
-                                        onClick={() => handleSetDefaultUPI(upi.upi_id)}
-                                        className="text-blue-600 hover:text-blue-700"
-                                        title="Set as Default UPI"
-                                      >
-                                        <Target className="h-4 w-4" />
-                                      </Button>
-                                    )}
+                                        {!upi.is_primary && (
+                                          <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => handleSetDefaultUPI(upi.upi_id)}
+                                            className="text-blue-600 hover:text-blue-700"
+                                            title="Set as Default UPI"
+                                          >
+                                            <Target className="h-4 w-4" />
+                                          </Button>
+                                        )}
                                     
-                                    <Button
-                                      variant="ghost"
-                                      size="sm"
-                                      onClick={() => {
-                                        setSelectedUPI(upi)
-                                        setUpiDialog('delete')
-                                      }}
-                                      className="text-red-600 hover:text-red-700"
-                                    >
-                                      <Trash2 className="h-4 w-4" />
-                                    </Button>
-                                  </div>
-                                </div>
-                              </CardContent>
-                            </Card>
-                          ))}
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => {
+                                            setSelectedUPI(upi)
+                                            setUpiDialog('delete')
+                                          }}
+                                          className="text-red-600 hover:text-red-700"
+                                        >
+                                          <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                      </div>
+                                    </div>
+                                  </CardContent>
+                                </Card>
+                              ))}
                           
-                          <Button
-                            variant="outline"
-                            onClick={() => setUpiDialog('add')}
-                            className="w-full"
-                          >
-                            <Plus className="w-4 h-4 mr-2" />
-                            Add UPI ID
-                          </Button>
+                              <Button
+                                variant="outline"
+                                onClick={() => setUpiDialog('add')}
+                                className="w-full"
+                              >
+                                <Plus className="w-4 h-4 mr-2" />
+                                Add UPI ID
+                              </Button>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
+                      </CardContent>
+                    </Card>
+                  </>
+                )}
 
                 {/* System Status */}
                 <Card>
@@ -2340,25 +2547,17 @@ export const AdminDashboard: React.FC = () => {
                         </Badge>
                       </div>
                       
-                      <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
-                        <div className="flex items-center space-x-3">
-                          <div className={`w-3 h-3 rounded-full ${adminUPIs.length > 0 ? 'bg-green-500' : 'bg-yellow-500'}`}></div>
-                          <span className="font-medium text-slate-900 text-sm md:text-base">UPI Integration</span>
-                        </div>
-                        <Badge variant={adminUPIs.length > 0 ? 'default' : 'secondary'} className="text-xs">
-                          {adminUPIs.length > 0 ? 'Configured' : 'Not Configured'}
-                        </Badge>
-                      </div>
-                      
-                      <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
-                        <div className="flex items-center space-x-3">
-                          <div className={`w-3 h-3 rounded-full ${hasAdminAccess ? 'bg-green-500' : 'bg-yellow-500'}`}></div>
-                          <span className="font-medium text-slate-900 text-sm md:text-base">Admin Access</span>
+                      {can('settings.write') && (
+                        <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                          <div className="flex items-center space-x-3">
+                            <div className={`w-3 h-3 rounded-full ${adminUPIs.length > 0 ? 'bg-green-500' : 'bg-yellow-500'}`}></div>
+                            <span className="font-medium text-slate-900 text-sm md:text-base">UPI Integration</span>
+                          </div>
+                          <Badge variant={adminUPIs.length > 0 ? 'default' : 'secondary'} className="text-xs">
+                            {adminUPIs.length > 0 ? 'Configured' : 'Not Configured'}
+                          </Badge>
                         </div>
-                        <Badge variant={hasAdminAccess ? 'default' : 'secondary'} className="text-xs">
-                          {hasAdminAccess ? 'Full Access' : 'Limited'}
-                        </Badge>
-                      </div>
+                      )}
                       
                       <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
                         <div className="flex items-center space-x-3">
@@ -2371,8 +2570,16 @@ export const AdminDashboard: React.FC = () => {
                   </CardContent>
                 </Card>
 
-                {/* Reward Configuration */}
-                <RewardConfigManager />
+                {can('settings.write') && (
+                  <>
+                    {/* Reward Configuration */}
+                    <RewardConfigManager />
+
+                    <WithdrawalPolicyManager />
+
+                    <TdsPolicyManager />
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -2451,7 +2658,8 @@ export const AdminDashboard: React.FC = () => {
           <DialogHeader>
             <DialogTitle className="text-base md:text-lg">Approve Withdrawal Request</DialogTitle>
             <DialogDescription className="text-sm">
-              Approve withdrawal of {formatCurrency(selectedRequest?.amount || 0)} to {selectedRequest?.upi_id}
+              Approve withdrawal of {formatCurrency(selectedRequest?.amount || 0)} to {selectedRequest ? getPayoutDestination(selectedRequest) : ''}.
+              Any TDS due is worked out on approval and withheld from the payout.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -2479,7 +2687,7 @@ export const AdminDashboard: React.FC = () => {
           <DialogHeader>
             <DialogTitle className="text-base md:text-lg">Reject Withdrawal Request</DialogTitle>
             <DialogDescription className="text-sm">
-              Reject withdrawal of {formatCurrency(selectedRequest?.amount || 0)} to {selectedRequest?.upi_id}
+              Reject withdrawal of {formatCurrency(selectedRequest?.amount || 0)} to {selectedRequest ? getPayoutDestination(selectedRequest) : ''}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -2510,24 +2718,67 @@ export const AdminDashboard: React.FC = () => {
           <DialogHeader>
             <DialogTitle className="text-base md:text-lg">Process Payment</DialogTitle>
             <DialogDescription className="text-sm">
-              Send {formatCurrency(selectedRequest?.amount || 0)} to {selectedRequest?.upi_id}
+              Send {formatCurrency(selectedRequest ? getPayoutAmount(selectedRequest) : 0)} to {selectedRequest ? getPayoutDestination(selectedRequest) : ''}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 text-center">
             <div className="p-4 md:p-6 border rounded-lg">
               <QrCode className="w-12 h-12 md:w-16 md:h-16 mx-auto mb-4 text-blue-600" />
-              <p className="text-base md:text-lg font-semibold">UPI Payment</p>
-              <p className="text-xs md:text-sm text-gray-600 mb-4">Click below to open UPI app and complete payment</p>
-              <div className="space-y-2 text-xs md:text-sm">
-                <p><strong>Amount:</strong> {formatCurrency(selectedRequest?.amount || 0)}</p>
-                <p className="break-all"><strong>UPI ID:</strong> {selectedRequest?.upi_id}</p>
-              </div>
+              {selectedRequest?.upi_id ? (
+                <>
+                  <p className="text-base md:text-lg font-semibold">UPI Payment</p>
+                  <p className="text-xs md:text-sm text-gray-600 mb-4">Click below to open UPI app and complete payment</p>
+                  <div className="space-y-2 text-xs md:text-sm">
+                    <p><strong>Amount:</strong> {formatCurrency(selectedRequest ? getPayoutAmount(selectedRequest) : 0)}</p>
+                    {(selectedRequest?.tds_amount || 0) > 0 && (
+                      <p className="text-slate-500">
+                        {formatCurrency(selectedRequest?.amount || 0)} requested, {formatCurrency(selectedRequest?.tds_amount || 0)} TDS withheld
+                      </p>
+                    )}
+                    <p className="break-all"><strong>UPI ID:</strong> {selectedRequest?.upi_id}</p>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p className="text-base md:text-lg font-semibold">Bank Transfer</p>
+                  <p className="text-xs md:text-sm text-gray-600 mb-4">Send by IMPS or NEFT from your bank and record the UTR below</p>
+                  <div className="space-y-2 text-xs md:text-sm">
+                    <p><strong>Amount:</strong> {formatCurrency(selectedRequest ? getPayoutAmount(selectedRequest) : 0)}</p>
+                    {(selectedRequest?.tds_amount || 0) > 0 && (
+                      <p className="text-slate-500">
+                        {formatCurrency(selectedRequest?.amount || 0)} requested, {formatCurrency(selectedRequest?.tds_amount || 0)} TDS withheld
+                      </p>
+                    )}
+                    <p className="break-all"><strong>Account holder:</strong> {selectedRequest?.account_holder_name}</p>
+                    <p className="break-all"><strong>Account number:</strong> {selectedRequest?.bank_account_number}</p>
+                    <p><strong>IFSC:</strong> {selectedRequest?.bank_ifsc}</p>
+                  </div>
+                </>
+              )}
+            </div>
+            <div className="text-left space-y-2">
+              <Label htmlFor="payment-utr" className="text-sm">UTR / UPI reference</Label>
+              <Input
+                id="payment-utr"
+                placeholder="12-digit reference from your UPI app"
+                value={paymentUtr}
+                onChange={(e) => setPaymentUtr(e.target.value)}
+                className="text-sm font-mono"
+              />
+              <p className="text-xs text-slate-500">
+                The amount stays held until the payment is recorded here or in a payout batch.
+              </p>
             </div>
           </div>
           <DialogFooter className="flex-col space-y-2 md:flex-row md:space-y-0 md:space-x-2">
             <Button variant="outline" onClick={closeDialogs} className="w-full md:w-auto">Close</Button>
-            <Button onClick={openUPIApp} className="w-full md:w-auto">
-              Open UPI App
+            {selectedRequest?.upi_id && (
+              <Button variant="outline" onClick={openUPIApp} className="w-full md:w-auto">
+                Open UPI App
+              </Button>
+            )}
+            <Button onClick={handleMarkPaid} disabled={!isValidUtr(paymentUtr)} className="w-full md:w-auto">
+              Mark as Paid
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -2564,6 +2815,22 @@ export const AdminDashboard: React.FC = () => {
                 className="text-sm"
               />
             </div>
+            <div>
+              <Label htmlFor="new-admin-role" className="text-sm">Role</Label>
+              <Select value={newAdminRole} onValueChange={(value) => setNewAdminRole(value as AdminRole)}>
+                <SelectTrigger id="new-admin-role" className="text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {adminRoles.map((role) => (
+                    <SelectItem key={role.role} value={role.role}>{role.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-500 mt-1">
+                {adminRoles.find(role => role.role === newAdminRole)?.description}
+              </p>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="new-admin-password" className="text-sm">Password</Label>
               <div className="relative">
@@ -2953,51 +3220,29 @@ export const AdminDashboard: React.FC = () => {
                     admin_notes: adminNotes.trim() || undefined
                   }
 
-                  // Try to set verified_by, but don't fail if admin doesn't exist
-                  try {
-                    const { data: adminExists } = await supabase
-                      .from('admins')
-                      .select('id')
-                      .eq('id', admin.id)
-                      .single()
-
-                    if (adminExists) {
-                      updateData.verified_by = admin.id
-                    }
-                  } catch {
-                    // If admin doesn't exist, just skip setting verified_by
-                  }
-
-                  // Use admin client for admin operations
-                  const client = hasAdminAccess ? supabaseAdmin! : supabase
-                  
-                  const { error } = await client
+                  const { error } = await adminApi
                     .from('upi_payment_notifications')
                     .update(updateData)
                     .eq('id', selectedNotification.id)
 
                   if (error) throw error
 
-                  // If payment is verified, update the corresponding order status
-                  if (verificationAction === 'verified' && selectedNotification.order_id) {
+                  // Move the order along the state machine: verified payments mark it
+                  // paid, rejected ones fail the payment and release reserved stock
+                  if (selectedNotification.order_id) {
+                    const nextStatus = verificationAction === 'verified' ? 'paid' : 'payment_failed'
                     try {
-                      const { error: orderUpdateError } = await client
-                        .from('orders')
-                        .update({
-                          status: 'confirmed',
-                          status_notes: `Payment verified by admin. UPI ID: ${selectedNotification.upi_id}`,
-                          status_updated_by: admin.id,
-                          status_updated_at: new Date().toISOString()
-                        })
-                        .eq('id', selectedNotification.order_id)
-
-                      if (orderUpdateError) {
-                        console.warn('Failed to update order status:', orderUpdateError)
-                      } else {
-                        console.log('✅ Order status updated to confirmed')
-                      }
+                      await updateOrderStatus(
+                        selectedNotification.order_id,
+                        nextStatus,
+                        verificationAction === 'verified'
+                          ? `Payment verified by admin. UPI ID: ${selectedNotification.upi_id}`
+                          : `Payment rejected by admin${adminNotes.trim() ? `: ${adminNotes.trim()}` : ''}`
+                      )
+                      console.log(`✅ Order status updated to ${nextStatus}`)
                     } catch (orderError) {
                       console.warn('Error updating order status after payment verification:', orderError)
+                      toast.warning(`Payment saved, but the order could not be moved to ${nextStatus}. Update it from the Orders tab.`)
                     }
                   }
 
@@ -3040,6 +3285,21 @@ export const AdminDashboard: React.FC = () => {
           loadStats()
         }}
       />
+
+      {/* Stock History Dialog */}
+      <StockHistoryDialog
+        product={stockProduct}
+        isOpen={!!stockProduct}
+        onClose={() => setStockProduct(null)}
+        onStockUpdated={loadProducts}
+      />
+
+      {/* Referral Tree Dialog */}
+      <ReferralTreeDialog
+        user={treeUser}
+        isOpen={!!treeUser}
+        onClose={() => setTreeUser(null)}
+      />
     </div>
   )
 }
@@ -5,15 +5,22 @@ import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { toast } from 'sonner'
 import { useAdminAuth } from '@/contexts/AdminAuthContext'
-import { Lock, Mail, Home, Eye, EyeOff } from 'lucide-react'
+import { Lock, Mail, Home, Eye, EyeOff, ShieldCheck, ArrowLeft } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
+import type { AdminTwoFactorChallenge } from '@/lib/admin-api'
+import { AuthenticatorQrCode, BackupCodeList } from './TwoFactorCodes'
 
 export const AdminLogin: React.FC = () => {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const { login } = useAdminAuth()
+  // After the password: the two-factor step, then (after enrolment) the backup codes
+  const [challenge, setChallenge] = useState<AdminTwoFactorChallenge | null>(null)
+  const [code, setCode] = useState('')
+  const [useBackupCode, setUseBackupCode] = useState(false)
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+  const { login, completeTwoFactor, finishLogin } = useAdminAuth()
   const navigate = useNavigate()
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -32,7 +39,13 @@ export const AdminLogin: React.FC = () => {
     setIsLoading(true)
 
     try {
-      await login(email, password)
+      const twoFactor = await login(email, password)
+      if (twoFactor) {
+        setChallenge(twoFactor)
+        setCode('')
+        setUseBackupCode(false)
+        return
+      }
       toast.success('Welcome to Admin Panel!')
     } catch (error: any) {
       console.error('Login error:', error)
@@ -48,6 +61,141 @@ export const AdminLogin: React.FC = () => {
     }
   }
 
+  const handleBack = () => {
+    setChallenge(null)
+    setCode('')
+    setPassword('')
+  }
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!challenge) return
+
+    if (!code.trim()) {
+      toast.error(useBackupCode ? 'Please enter a backup code' : 'Please enter the 6-digit code from your app')
+      return
+    }
+
+    if (new Date(challenge.expiresAt).getTime() <= Date.now()) {
+      toast.error('Sign-in timed out. Please enter your password again.')
+      handleBack()
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      const result = await completeTwoFactor(challenge, code)
+      if (result.backupCodes) {
+        setBackupCodes(result.backupCodes)
+        return
+      }
+      if (result.backupCodesRemaining !== undefined) {
+        toast.warning(`Backup code used. ${result.backupCodesRemaining} left; create new ones in Settings if you are running low.`)
+      }
+      toast.success('Welcome to Admin Panel!')
+    } catch (error) {
+      console.error('Two-factor error:', error)
+      toast.error((error as Error).message || 'Invalid verification code')
+      setCode('')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (backupCodes) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <Card className="shadow-xl">
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl">Save Your Backup Codes</CardTitle>
+              <CardDescription>Two-factor authentication is now on for your account</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <BackupCodeList codes={backupCodes} />
+              <Button className="w-full" onClick={finishLogin}>
+                I have saved my backup codes
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  if (challenge) {
+    const isEnrolment = challenge.twoFactor === 'enroll'
+
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <Card className="shadow-xl">
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl flex items-center justify-center">
+                <ShieldCheck className="h-5 w-5 mr-2" />
+                {isEnrolment ? 'Set Up Two-Factor Authentication' : 'Two-Factor Authentication'}
+              </CardTitle>
+              <CardDescription>
+                {isEnrolment
+                  ? 'Your role requires a code from an authenticator app. Scan the QR code with Google Authenticator, Authy or a similar app, then enter the code it shows.'
+                  : useBackupCode
+                    ? 'Enter one of your backup codes'
+                    : 'Enter the 6-digit code from your authenticator app'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCodeSubmit} className="space-y-4">
+                {isEnrolment && challenge.secret && challenge.otpauthUrl && (
+                  <AuthenticatorQrCode secret={challenge.secret} otpauthUrl={challenge.otpauthUrl} />
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="code">{useBackupCode ? 'Backup Code' : 'Verification Code'}</Label>
+                  <Input
+                    id="code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder={useBackupCode ? 'xxxxx-xxxxx' : '123456'}
+                    inputMode={useBackupCode ? 'text' : 'numeric'}
+                    autoComplete="one-time-code"
+                    maxLength={useBackupCode ? 11 : 6}
+                    className="text-center font-mono tracking-widest"
+                    autoFocus
+                    required
+                  />
+                </div>
+
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? 'Verifying...' : isEnrolment ? 'Turn On and Sign In' : 'Verify'}
+                </Button>
+
+                <div className="flex items-center justify-between text-sm">
+                  <button type="button" onClick={handleBack} className="flex items-center text-slate-600 hover:text-slate-900">
+                    <ArrowLeft className="h-4 w-4 mr-1" />
+                    Back
+                  </button>
+                  {!isEnrolment && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setUseBackupCode(!useBackupCode)
+                        setCode('')
+                      }}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+                    </button>
+                  )}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
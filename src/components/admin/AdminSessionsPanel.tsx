@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { useAdminAuth } from '@/contexts/AdminAuthContext'
+import { MonitorSmartphone, RefreshCw, LogOut } from 'lucide-react'
+import {
+  listAdminSessions,
+  revokeAdminSession,
+  revokeAllAdminSessions,
+  type AdminSessionInfo
+} from '@/lib/admin-api'
+import type { Admin } from '@/lib/supabase'
+
+interface AdminSessionsPanelProps {
+  admin: Admin
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+// "Chrome on Windows" style label from a user agent string
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device'
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser'
+
+  const os = /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null
+
+  return os ? `${browser} on ${os}` : browser
+}
+
+export const AdminSessionsPanel: React.FC<AdminSessionsPanelProps> = ({ admin }) => {
+  const [sessions, setSessions] = useState<AdminSessionInfo[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const { can } = useAdminAuth()
+  const canManageAdmins = can('admins.manage')
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setSessions(await listAdminSessions())
+    } catch (error) {
+      console.error('Error loading admin sessions:', error)
+      toast.error('Failed to load sessions')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const handleRevoke = async (session: AdminSessionInfo) => {
+    try {
+      setSavingId(session.id)
+      await revokeAdminSession(session.id)
+      toast.success('Session ended')
+      loadSessions()
+    } catch (error) {
+      console.error('Error ending admin session:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  // Every session of an admin; for the signed-in admin, all but this browser's
+  const handleRevokeAll = async (adminId: string) => {
+    try {
+      setSavingId(adminId)
+      const revoked = await revokeAllAdminSessions(adminId, adminId === admin.id)
+      toast.success(`Ended ${revoked} session${revoked === 1 ? '' : 's'}`)
+      loadSessions()
+    } catch (error) {
+      console.error('Error ending admin sessions:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const hasOtherSessions = sessions.some(session => session.admin_id === admin.id && !session.current)
+
+  // Admins with admins.manage see everyone's sessions, grouped by admin
+  const sessionsByAdmin = sessions.reduce((groups, session) => {
+    groups.set(session.admin_id, [...(groups.get(session.admin_id) || []), session])
+    return groups
+  }, new Map<string, AdminSessionInfo[]>())
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col space-y-3 md:flex-row md:items-center md:justify-between md:space-y-0">
+          <div>
+            <CardTitle className="flex items-center text-base md:text-lg">
+              <MonitorSmartphone className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+              Active Sessions ({sessions.length})
+            </CardTitle>
+            <CardDescription className="text-sm">
+              {canManageAdmins
+                ? 'Where each administrator is signed in. Ending a session signs that browser out on its next request'
+                : 'Where your admin account is signed in. Ending a session signs that browser out on its next request'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRevokeAll(admin.id)}
+              disabled={!hasOtherSessions || !!savingId}
+            >
+              <LogOut className="w-4 h-4 mr-1" />
+              Sign out other sessions
+            </Button>
+            <Button variant="outline" size="sm" onClick={loadSessions} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {sessions.length === 0 ? (
+          <p className="text-center text-slate-500 py-6 text-sm">No active sessions</p>
+        ) : (
+          <div className="space-y-4">
+            {Array.from(sessionsByAdmin.entries()).map(([adminId, adminSessions]) => (
+              <div key={adminId} className="space-y-3">
+                {canManageAdmins && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-slate-700">
+                      {adminId === admin.id ? 'You' : adminSessions[0].admin?.full_name || adminSessions[0].admin?.email || 'Unknown admin'}
+                    </span>
+                    {adminId !== admin.id && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-xs"
+                        onClick={() => handleRevokeAll(adminId)}
+                        disabled={!!savingId}
+                      >
+                        <LogOut className="w-3 h-3 mr-1" />
+                        Sign out everywhere
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {adminSessions.map((session) => (
+                  <div key={session.id} className="flex flex-col space-y-3 md:flex-row md:items-center md:justify-between md:space-y-0 p-3 md:p-4 border rounded-lg">
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold text-sm md:text-base">{describeDevice(session.user_agent)}</span>
+                        {session.current && <Badge className="text-xs">This browser</Badge>}
+                      </div>
+                      <p className="text-xs text-slate-500">
+                        {session.ip_address || 'Unknown IP'} • Signed in {formatDate(session.created_at)} • Last active {formatDate(session.last_seen_at)}
+                      </p>
+                      <p className="text-xs text-slate-500">Ends by {formatDate(session.expires_at)}</p>
+                    </div>
+                    {!session.current && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-xs"
+                        onClick={() => handleRevoke(session)}
+                        disabled={!!savingId}
+                      >
+                        <LogOut className="w-3 h-3 mr-1" />
+                        End session
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
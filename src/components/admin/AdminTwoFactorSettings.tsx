@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { ShieldCheck, KeyRound } from 'lucide-react'
+import {
+  confirmTwoFactorEnrolment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateBackupCodes,
+  startTwoFactorEnrolment,
+  type AdminTwoFactorStatus
+} from '@/lib/admin-api'
+import { AuthenticatorQrCode, BackupCodeList } from './TwoFactorCodes'
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+// Fewer unused backup codes than this gets a warning
+const LOW_BACKUP_CODES = 3
+
+// The signed-in admin's own two-factor authentication
+export const AdminTwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<AdminTwoFactorStatus | null>(null)
+  const [enrolment, setEnrolment] = useState<{ secret: string; otpauthUrl: string } | null>(null)
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Turning 2FA off and replacing backup codes both ask for a current code
+  const [confirming, setConfirming] = useState<'disable' | 'regenerate' | null>(null)
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await getTwoFactorStatus())
+    } catch (error) {
+      console.error('Error loading two-factor status:', error)
+      toast.error('Failed to load two-factor authentication status')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  const handleStart = async () => {
+    try {
+      setIsSaving(true)
+      setEnrolment(await startTwoFactorEnrolment())
+      setCode('')
+    } catch (error) {
+      console.error('Error starting two-factor enrolment:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!code.trim()) {
+      toast.error('Please enter the 6-digit code from your app')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setBackupCodes(await confirmTwoFactorEnrolment(code))
+      setEnrolment(null)
+      setCode('')
+      toast.success('Two-factor authentication is on')
+      loadStatus()
+    } catch (error) {
+      console.error('Error confirming two-factor enrolment:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleConfirmAction = async () => {
+    if (!confirming) return
+    if (!code.trim()) {
+      toast.error('Please enter a code from your app or a backup code')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      if (confirming === 'disable') {
+        await disableTwoFactor(code)
+        toast.success('Two-factor authentication is off')
+      } else {
+        setBackupCodes(await regenerateBackupCodes(code))
+        toast.success('New backup codes created; the old ones no longer work')
+      }
+      setConfirming(null)
+      setCode('')
+      loadStatus()
+    } catch (error) {
+      console.error('Error changing two-factor authentication:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-base md:text-lg">
+          <ShieldCheck className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge className="ml-2 text-xs bg-green-100 text-green-800">On</Badge>}
+          {status?.required && <Badge variant="outline" className="ml-2 text-xs">Required for your role</Badge>}
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Ask for a code from an authenticator app each time you sign in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {backupCodes && (
+          <div className="space-y-3">
+            <BackupCodeList codes={backupCodes} />
+            <Button size="sm" onClick={() => setBackupCodes(null)}>Done</Button>
+          </div>
+        )}
+
+        {!backupCodes && status && !status.enabled && !enrolment && (
+          <Button onClick={handleStart} disabled={isSaving}>
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            {isSaving ? 'Starting...' : 'Set Up Two-Factor Authentication'}
+          </Button>
+        )}
+
+        {enrolment && (
+          <form onSubmit={handleConfirm} className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Scan the QR code with Google Authenticator, Authy or a similar app, then enter the code it shows.
+            </p>
+            <AuthenticatorQrCode secret={enrolment.secret} otpauthUrl={enrolment.otpauthUrl} />
+            <div className="space-y-2">
+              <Label htmlFor="totp-confirm">Verification Code</Label>
+              <Input
+                id="totp-confirm"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                className="font-mono tracking-widest max-w-40"
+              />
+            </div>
+            <div className="flex space-x-2">
+              <Button type="submit" disabled={isSaving}>{isSaving ? 'Verifying...' : 'Turn On'}</Button>
+              <Button type="button" variant="outline" onClick={() => setEnrolment(null)} disabled={isSaving}>Cancel</Button>
+            </div>
+          </form>
+        )}
+
+        {!backupCodes && status?.enabled && (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-600">
+              On since {status.enabledAt ? formatDate(status.enabledAt) : '—'} • {status.backupCodesRemaining} backup code{status.backupCodesRemaining === 1 ? '' : 's'} left
+            </p>
+            {status.backupCodesRemaining < LOW_BACKUP_CODES && (
+              <p className="text-sm text-amber-700">You are running low on backup codes. Create new ones so you are not locked out.</p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => { setConfirming('regenerate'); setCode('') }}>
+                <KeyRound className="w-4 h-4 mr-2" />
+                New Backup Codes
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-red-600 hover:text-red-700"
+                onClick={() => { setConfirming('disable'); setCode('') }}
+                disabled={status.required}
+                title={status.required ? 'Your role requires two-factor authentication' : undefined}
+              >
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!confirming} onOpenChange={(open) => !open && setConfirming(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{confirming === 'disable' ? 'Turn Off Two-Factor Authentication' : 'Create New Backup Codes'}</DialogTitle>
+            <DialogDescription>
+              {confirming === 'disable'
+                ? 'Signing in will only need your password. Enter a code from your app or a backup code to confirm.'
+                : 'Your current backup codes will stop working. Enter a code from your app or a backup code to confirm.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="totp-action-code">Code</Label>
+            <Input
+              id="totp-action-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456 or xxxxx-xxxxx"
+              autoComplete="one-time-code"
+              maxLength={11}
+              className="font-mono"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirming(null)} disabled={isSaving}>Cancel</Button>
+            <Button
+              onClick={handleConfirmAction}
+              disabled={isSaving}
+              variant={confirming === 'disable' ? 'destructive' : 'default'}
+            >
+              {isSaving ? 'Confirming...' : 'Confirm'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
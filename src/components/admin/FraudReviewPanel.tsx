@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { useAdminAuth } from '@/contexts/AdminAuthContext'
+import { ShieldAlert, RefreshCw, Check, Undo2, Link2 } from 'lucide-react'
+import {
+  FRAUD_REASON_LABELS,
+  FRAUD_SIGNAL_LABELS,
+  getFraudFlags,
+  reviewFraudFlag,
+  type FraudFlag,
+  type FraudFlagProfile,
+  type FraudFlagStatus
+} from '@/lib/fraud-signals'
+
+const STATUS_TABS: { id: FraudFlagStatus; label: string }[] = [
+  { id: 'open', label: 'Open' },
+  { id: 'cleared', label: 'Cleared' },
+  { id: 'reversed', label: 'Reversed' }
+]
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2
+  }).format(amount)
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+const describeProfile = (profile: FraudFlagProfile | null) =>
+  profile ? `${profile.full_name || 'Unnamed user'}${profile.referral_code ? ` (${profile.referral_code})` : ''}` : 'Deleted user'
+
+export const FraudReviewPanel: React.FC = () => {
+  const { can } = useAdminAuth()
+  const [status, setStatus] = useState<FraudFlagStatus>('open')
+  const [flags, setFlags] = useState<FraudFlag[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const [reviewing, setReviewing] = useState<{ flag: FraudFlag; decision: 'clear' | 'reverse' } | null>(null)
+  const [notes, setNotes] = useState('')
+
+  const loadFlags = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setFlags(await getFraudFlags(status))
+    } catch (error) {
+      console.error('Error loading fraud flags:', error)
+      toast.error('Failed to load fraud flags')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    loadFlags()
+  }, [loadFlags])
+
+  const openReviewDialog = (flag: FraudFlag, decision: 'clear' | 'reverse') => {
+    setReviewing({ flag, decision })
+    setNotes('')
+  }
+
+  const handleReview = async () => {
+    if (!reviewing) return
+
+    try {
+      setSavingId(reviewing.flag.id)
+      await reviewFraudFlag(reviewing.flag.id, reviewing.decision, notes)
+      toast.success(reviewing.decision === 'clear' ? 'Flag cleared' : 'Rewards reversed')
+      setReviewing(null)
+      loadFlags()
+    } catch (error) {
+      console.error('Error reviewing fraud flag:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col space-y-3 md:flex-row md:items-center md:justify-between md:space-y-0">
+            <div>
+              <CardTitle className="flex items-center text-base md:text-lg">
+                <ShieldAlert className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+                Referral Fraud ({flags.length})
+              </CardTitle>
+              <CardDescription className="text-sm">
+                Accounts that share a device, phone number or payout account with someone in their referral line, or share a payout account with anyone.
+                Their new rewards are held and withdrawals paused until every flag on them is reviewed
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              {STATUS_TABS.map(tab => (
+                <Button
+                  key={tab.id}
+                  size="sm"
+                  variant={status === tab.id ? 'default' : 'outline'}
+                  onClick={() => setStatus(tab.id)}
+                >
+                  {tab.label}
+                </Button>
+              ))}
+              <Button variant="outline" size="sm" onClick={loadFlags} disabled={isLoading}>
+                <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {flags.length === 0 ? (
+            <p className="text-center text-slate-500 py-6 text-sm">
+              {status === 'open' ? 'No accounts waiting for review' : `No ${status} flags`}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {flags.map((flag) => (
+                <div key={flag.id} className="flex flex-col space-y-3 md:flex-row md:items-center md:justify-between md:space-y-0 p-3 md:p-4 border rounded-lg">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-sm md:text-base">{describeProfile(flag.profile)}</span>
+                      <Badge variant={flag.reason === 'self_referral' ? 'destructive' : 'secondary'} className="text-xs">
+                        {FRAUD_REASON_LABELS[flag.reason]}
+                      </Badge>
+                    </div>
+                    <p className="flex items-center text-xs md:text-sm text-slate-600">
+                      <Link2 className="w-3 h-3 mr-1" />
+                      Linked to {describeProfile(flag.related_profile)}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {flag.signal_types.map(signal => (
+                        <Badge key={signal} variant="outline" className="text-xs">{FRAUD_SIGNAL_LABELS[signal] || signal}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      Held {formatCurrency(flag.held_amount)} • Earned from linked account {formatCurrency(flag.earned_from_related)} • Flagged {formatDate(flag.created_at)}
+                    </p>
+                    {flag.review_notes && (
+                      <p className="text-xs text-slate-500">
+                        Note: {flag.review_notes}{flag.reviewed_at && <> ({formatDate(flag.reviewed_at)})</>}
+                      </p>
+                    )}
+                  </div>
+                  {flag.status === 'open' && can('fraud.review') && (
+                    <div className="flex space-x-2">
+                      <Button
+                        size="sm"
+                        className="text-xs"
+                        onClick={() => openReviewDialog(flag, 'clear')}
+                        disabled={savingId === flag.id}
+                      >
+                        <Check className="w-3 h-3 mr-1" />
+                        Clear
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-xs"
+                        onClick={() => openReviewDialog(flag, 'reverse')}
+                        disabled={savingId === flag.id}
+                      >
+                        <Undo2 className="w-3 h-3 mr-1" />
+                        Reverse
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.decision === 'clear' ? 'Clear Flag' : 'Reverse Rewards'}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.decision === 'clear'
+                ? `${describeProfile(reviewing.flag.profile)} is not linked to ${describeProfile(reviewing.flag.related_profile)}. Held rewards are released once no other flags remain.`
+                : reviewing
+                  ? `Void the ${formatCurrency(reviewing.flag.held_amount)} held for ${describeProfile(reviewing.flag.profile)} and take back the ${formatCurrency(reviewing.flag.earned_from_related)} earned from ${describeProfile(reviewing.flag.related_profile)}` +
+                    (reviewing.flag.related_earned > 0
+                      ? `, and the ${formatCurrency(reviewing.flag.related_earned)} ${describeProfile(reviewing.flag.related_profile)} earned from them.`
+                      : '.')
+                  : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="fraud-review-notes">
+              Notes{reviewing?.decision === 'reverse' ? ' *' : ''}
+            </Label>
+            <Textarea
+              id="fraud-review-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={!!savingId}>Cancel</Button>
+            <Button
+              variant={reviewing?.decision === 'reverse' ? 'destructive' : 'default'}
+              onClick={handleReview}
+              disabled={!!savingId || (reviewing?.decision === 'reverse' && !notes.trim())}
+            >
+              {reviewing?.decision === 'clear' ? 'Clear' : 'Reverse'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { useAdminAuth } from '@/contexts/AdminAuthContext'
+import { ShieldCheck, Landmark, RefreshCw, Check, X, ExternalLink } from 'lucide-react'
+import {
+  KYC_DOCUMENT_LABELS,
+  getKycDocumentUrl,
+  getKycQueue,
+  maskAccountNumber,
+  reviewKycDocument,
+  reviewPayoutAccount,
+  type KycQueue
+} from '@/lib/kyc'
+
+type QueueItem =
+  | { kind: 'document'; item: KycQueue['documents'][number] }
+  | { kind: 'account'; item: KycQueue['accounts'][number] }
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+export const KycVerificationQueue: React.FC = () => {
+  const { can } = useAdminAuth()
+  const [queue, setQueue] = useState<KycQueue>({ documents: [], accounts: [] })
+  const [isLoading, setIsLoading] = useState(false)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const [rejecting, setRejecting] = useState<QueueItem | null>(null)
+  const [rejectReason, setRejectReason] = useState('')
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setQueue(await getKycQueue())
+    } catch (error) {
+      console.error('Error loading KYC queue:', error)
+      toast.error('Failed to load the KYC queue')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  const handleViewDocument = async (storagePath: string) => {
+    const url = await getKycDocumentUrl(storagePath)
+    if (!url) {
+      toast.error('Could not open the document')
+      return
+    }
+    window.open(url, '_blank', 'noopener,noreferrer')
+  }
+
+  const handleReview = async (entry: QueueItem, decision: 'verified' | 'rejected', reason?: string) => {
+    try {
+      setSavingId(entry.item.id)
+      if (entry.kind === 'document') {
+        await reviewKycDocument(entry.item.id, decision, reason)
+      } else {
+        await reviewPayoutAccount(entry.item.id, decision, reason)
+      }
+      toast.success(`${entry.kind === 'document' ? 'Document' : 'Payout account'} ${decision === 'verified' ? 'verified' : 'rejected'}`)
+      setRejecting(null)
+      loadQueue()
+    } catch (error) {
+      console.error('Error reviewing KYC item:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const openRejectDialog = (entry: QueueItem) => {
+    setRejecting(entry)
+    setRejectReason('')
+  }
+
+  // Roles with kyc.view alone see the queue without the review buttons
+  const renderActions = (entry: QueueItem) => can('kyc.review') && (
+    <div className="flex space-x-2">
+      <Button
+        size="sm"
+        className="text-xs"
+        onClick={() => handleReview(entry, 'verified')}
+        disabled={savingId === entry.item.id}
+      >
+        <Check className="w-3 h-3 mr-1" />
+        Verify
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        className="text-xs"
+        onClick={() => openRejectDialog(entry)}
+        disabled={savingId === entry.item.id}
+      >
+        <X className="w-3 h-3 mr-1" />
+        Reject
+      </Button>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center text-base md:text-lg">
+                <ShieldCheck className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+                KYC Documents ({queue.documents.length})
+              </CardTitle>
+              <CardDescription className="text-sm">Check the document against the number entered. A verified PAN completes KYC</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={loadQueue} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {queue.documents.length === 0 ? (
+            <p className="text-center text-slate-500 py-6 text-sm">No documents waiting for review</p>
+          ) : (
+            <div className="space-y-3">
+              {queue.documents.map((document) => (
+                <div key={document.id} className="flex flex-col space-y-2 md:flex-row md:items-center md:justify-between md:space-y-0 p-3 md:p-4 border rounded-lg">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold text-sm md:text-base">{KYC_DOCUMENT_LABELS[document.document_type]}</span>
+                      <Badge variant="outline" className="text-xs font-mono">{document.document_number}</Badge>
+                    </div>
+                    <p className="text-xs md:text-sm text-slate-600">
+                      {document.user_profile?.full_name || 'Unknown user'}
+                      {document.user_profile?.email && <> • {document.user_profile.email}</>}
+                    </p>
+                    <p className="text-xs text-slate-500">Submitted {formatDate(document.created_at)}</p>
+                  </div>
+                  <div className="flex flex-col space-y-2 md:flex-row md:space-y-0 md:space-x-2">
+                    <Button size="sm" variant="outline" className="text-xs" onClick={() => handleViewDocument(document.storage_path)}>
+                      <ExternalLink className="w-3 h-3 mr-1" />
+                      View
+                    </Button>
+                    {renderActions({ kind: 'document', item: document })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center text-base md:text-lg">
+            <Landmark className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+            Payout Accounts ({queue.accounts.length})
+          </CardTitle>
+          <CardDescription className="text-sm">
+            Confirm the account belongs to the user, for example with a penny drop, before verifying it
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {queue.accounts.length === 0 ? (
+            <p className="text-center text-slate-500 py-6 text-sm">No payout accounts waiting for review</p>
+          ) : (
+            <div className="space-y-3">
+              {queue.accounts.map((account) => (
+                <div key={account.id} className="flex flex-col space-y-2 md:flex-row md:items-center md:justify-between md:space-y-0 p-3 md:p-4 border rounded-lg">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="secondary" className="text-xs">{account.account_type === 'upi' ? 'UPI' : 'Bank'}</Badge>
+                      <span className="font-mono text-sm break-all">
+                        {account.account_type === 'upi' ? account.upi_id : `${account.account_number} · ${account.ifsc}`}
+                      </span>
+                    </div>
+                    <p className="text-xs md:text-sm text-slate-600">
+                      {account.user_profile?.full_name || 'Unknown user'}
+                      {account.account_holder_name && <> • Holder: {account.account_holder_name}</>}
+                    </p>
+                    <p className="text-xs text-slate-500">Added {formatDate(account.created_at)}</p>
+                  </div>
+                  {renderActions({ kind: 'account', item: account })}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {rejecting?.kind === 'document' ? 'Reject Document' : 'Reject Payout Account'}
+            </DialogTitle>
+            <DialogDescription>
+              {rejecting?.kind === 'document'
+                ? `${KYC_DOCUMENT_LABELS[rejecting.item.document_type]} from ${rejecting.item.user_profile?.full_name || 'the user'}. They can upload a new one.`
+                : rejecting?.kind === 'account'
+                  ? `${rejecting.item.account_type === 'upi' ? rejecting.item.upi_id : `A/c ${maskAccountNumber(rejecting.item.account_number)}`} cannot receive withdrawals.`
+                  : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="kyc-reject-reason">Reason shown to the user *</Label>
+            <Textarea
+              id="kyc-reject-reason"
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)} disabled={!!savingId}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && handleReview(rejecting, 'rejected', rejectReason)}
+              disabled={!!savingId || !rejectReason.trim()}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -8,6 +8,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Separator } from '@/components/ui/separator'
 import { toast } from 'sonner'
+import { useAdminAuth } from '@/contexts/AdminAuthContext'
 import { 
   Package, 
   User, 
@@ -19,9 +20,21 @@ import {
   Clock,
   Truck,
   Check,
-  X
+  X,
+  History,
+  RotateCcw,
+  AlertTriangle
 } from 'lucide-react'
-import { Order, OrderItem, UserProfile, updateOrderStatus, getOrderDetails } from '@/lib/supabase'
+import {
+  Order,
+  OrderItem,
+  OrderStatusHistoryEntry,
+  UserProfile,
+  updateOrderStatus,
+  getOrderDetails,
+  getOrderStatusHistory
+} from '@/lib/supabase'
+import { OrderStatus, ORDER_STATUS_LABELS, getNextStatuses } from '@/lib/order-status'
 
 interface OrderDetailDialogProps {
   order: Order | null
@@ -41,12 +54,20 @@ const getStatusIcon = (status: string) => {
       return <Clock className="w-4 h-4 text-orange-500" />
     case 'confirmed':
       return <CheckCircle className="w-4 h-4 text-green-500" />
+    case 'payment_pending':
+      return <CreditCard className="w-4 h-4 text-orange-500" />
+    case 'paid':
+      return <CreditCard className="w-4 h-4 text-green-500" />
     case 'processing':
       return <Package className="w-4 h-4 text-blue-500" />
     case 'shipped':
       return <Truck className="w-4 h-4 text-purple-500" />
     case 'delivered':
       return <CheckCircle className="w-4 h-4 text-green-600" />
+    case 'completed':
+      return <CheckCircle className="w-4 h-4 text-green-700" />
+    case 'refunded':
+      return <RotateCcw className="w-4 h-4 text-red-600" />
     case 'cancelled':
       return <XCircle className="w-4 h-4 text-red-500" />
     case 'payment_failed':
@@ -70,6 +91,16 @@ const getStatusBadge = (status: string) => {
         <CheckCircle className="w-3 h-3 mr-1" />
         Confirmed
       </Badge>
+    case 'payment_pending':
+      return <Badge variant="outline" className={`${baseClasses} border-orange-200 text-orange-700`}>
+        <CreditCard className="w-3 h-3 mr-1" />
+        Payment Pending
+      </Badge>
+    case 'paid':
+      return <Badge variant="outline" className={`${baseClasses} border-green-200 text-green-700`}>
+        <CreditCard className="w-3 h-3 mr-1" />
+        Paid
+      </Badge>
     case 'processing':
       return <Badge variant="outline" className={`${baseClasses} border-blue-200 text-blue-700`}>
         <Package className="w-3 h-3 mr-1" />
@@ -85,6 +116,16 @@ const getStatusBadge = (status: string) => {
         <CheckCircle className="w-3 h-3 mr-1" />
         Delivered
       </Badge>
+    case 'completed':
+      return <Badge variant="outline" className={`${baseClasses} border-green-300 text-green-800`}>
+        <CheckCircle className="w-3 h-3 mr-1" />
+        Completed
+      </Badge>
+    case 'refunded':
+      return <Badge variant="outline" className={`${baseClasses} border-red-300 text-red-800`}>
+        <RotateCcw className="w-3 h-3 mr-1" />
+        Refunded
+      </Badge>
     case 'cancelled':
       return <Badge variant="outline" className={`${baseClasses} border-red-200 text-red-700`}>
         <XCircle className="w-3 h-3 mr-1" />
@@ -121,13 +162,26 @@ const formatDate = (dateString: string) => {
   })
 }
 
+const getActorLabel = (entry: OrderStatusHistoryEntry) => {
+  switch (entry.actor_type) {
+    case 'admin':
+      return 'Admin'
+    case 'customer':
+      return 'Customer'
+    default:
+      return 'System'
+  }
+}
+
 export const OrderDetailDialog: React.FC<OrderDetailDialogProps> = ({
   order,
   isOpen,
   onClose,
   onOrderUpdated
 }) => {
+  const { can } = useAdminAuth()
   const [orderDetails, setOrderDetails] = useState<OrderWithDetails | null>(null)
+  const [statusHistory, setStatusHistory] = useState<OrderStatusHistoryEntry[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [newStatus, setNewStatus] = useState<string>('')
   const [statusNotes, setStatusNotes] = useState('')
@@ -136,6 +190,7 @@ export const OrderDetailDialog: React.FC<OrderDetailDialogProps> = ({
     if (order && isOpen) {
       loadOrderDetails()
       setNewStatus(order.status)
+      setStatusNotes('')
     }
   }, [order, isOpen])
 
@@ -145,7 +200,11 @@ export const OrderDetailDialog: React.FC<OrderDetailDialogProps> = ({
     try {
       setIsLoading(true)
       
-      const { order: orderData, orderItems, userProfile } = await getOrderDetails(order.id)
+      const [{ order: orderData, orderItems, userProfile }, history] = await Promise.all([
+        getOrderDetails(order.id),
+        getOrderStatusHistory(order.id)
+      ])
+      setStatusHistory(history)
       
       if (orderData) {
         setOrderDetails({
@@ -170,7 +229,7 @@ export const OrderDetailDialog: React.FC<OrderDetailDialogProps> = ({
 
     try {
       setIsLoading(true)
-      await updateOrderStatus(order.id, newStatus as any, statusNotes)
+      await updateOrderStatus(order.id, newStatus as OrderStatus, statusNotes.trim() || undefined)
       
       toast.success(`Order status updated to ${newStatus}`)
       onOrderUpdated()
@@ -183,7 +242,10 @@ export const OrderDetailDialog: React.FC<OrderDetailDialogProps> = ({
     }
   }
 
-  const canUpdateStatus = order && newStatus && newStatus !== order.status
+  // Roles without orders.update see the order read-only
+  const canEditOrder = can('orders.update')
+  const canUpdateStatus = canEditOrder && order && newStatus && newStatus !== order.status
+  const nextStatuses = orderDetails ? getNextStatuses(orderDetails.status) : []
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -217,9 +279,24 @@ export const OrderDetailDialog: React.FC<OrderDetailDialogProps> = ({
                     {getStatusBadge(orderDetails.status)}
                   </div>
                 </div>
+
+                {(orderDetails.stock_shortfall ?? 0) > 0 && (
+                  <div className="flex items-start gap-2 rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <p>
+                      {orderDetails.stock_shortfall} unit{orderDetails.stock_shortfall === 1 ? ' was' : 's were'} out of stock when
+                      this payment arrived. Restock before shipping, or cancel the order to refund the customer.
+                    </p>
+                  </div>
+                )}
                 
                 <Separator />
                 
+                {nextStatuses.length === 0 ? (
+                  <p className="text-sm text-gray-500">This order is in a final state and cannot be changed.</p>
+                ) : !canEditOrder ? (
+                  <p className="text-sm text-gray-500">Your role can view this order but not change its status.</p>
+                ) : (
                 <div className="space-y-3">
                   <Label htmlFor="status">Update Status</Label>
                   <Select value={newStatus} onValueChange={setNewStatus}>
@@ -227,13 +304,12 @@ export const OrderDetailDialog: React.FC<OrderDetailDialogProps> = ({
                       <SelectValue placeholder="Select new status" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="confirmed">Confirmed</SelectItem>
-                      <SelectItem value="processing">Processing</SelectItem>
-                      <SelectItem value="shipped">Shipped</SelectItem>
-                      <SelectItem value="delivered">Delivered</SelectItem>
-                      <SelectItem value="cancelled">Cancelled</SelectItem>
-                      <SelectItem value="payment_failed">Payment Failed</SelectItem>
+                      <SelectItem value={orderDetails.status}>
+                        {ORDER_STATUS_LABELS[orderDetails.status] || orderDetails.status} (current)
+                      </SelectItem>
+                      {nextStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>{ORDER_STATUS_LABELS[status]}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   
@@ -248,9 +324,47 @@ export const OrderDetailDialog: React.FC<OrderDetailDialogProps> = ({
                     />
                   </div>
                 </div>
+                )}
               </CardContent>
             </Card>
 
+            {/* Status Timeline */}
+            {statusHistory.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center">
+                    <History className="w-4 h-4 mr-2" />
+                    Status Timeline
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+                    {statusHistory.map((entry) => (
+                      <li key={entry.id} className="ml-6">
+                        <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-white rounded-full ring-4 ring-white">
+                          {getStatusIcon(entry.to_status)}
+                        </span>
+                        <div className="flex flex-wrap items-center gap-2">
+                          {entry.from_status && (
+                            <>
+                              {getStatusBadge(entry.from_status)}
+                              <span className="text-gray-400">→</span>
+                            </>
+                          )}
+                          {getStatusBadge(entry.to_status)}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {formatDate(entry.created_at)} · {getActorLabel(entry)}
+                          {entry.actor_id && <span className="font-mono"> ({entry.actor_id.substring(0, 8)})</span>}
+                        </p>
+                        {entry.notes && <p className="text-sm text-gray-700 mt-1">{entry.notes}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Customer Information */}
             <Card>
               <CardHeader>
@@ -0,0 +1,108 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { toast } from 'sonner'
+import { Wallet, Save, AlertCircle } from 'lucide-react'
+import {
+  PAYMENT_PROVIDERS,
+  DEFAULT_PAYMENT_PROVIDER_CONFIG,
+  PaymentProviderConfig,
+  PaymentProviderId,
+  loadPaymentProviderConfig,
+  savePaymentProviderConfig
+} from '@/lib/payment-providers'
+
+export const PaymentProviderSettings: React.FC = () => {
+  const [config, setConfig] = useState<PaymentProviderConfig>(DEFAULT_PAYMENT_PROVIDER_CONFIG)
+  const [savedProvider, setSavedProvider] = useState<PaymentProviderId>(DEFAULT_PAYMENT_PROVIDER_CONFIG.provider)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadConfig = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const current = await loadPaymentProviderConfig()
+      setConfig(current)
+      setSavedProvider(current.provider)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadConfig()
+  }, [loadConfig])
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true)
+      await savePaymentProviderConfig(config)
+      setSavedProvider(config.provider)
+      toast.success(`Checkout now uses ${PAYMENT_PROVIDERS[config.provider].label}`)
+    } catch (error) {
+      console.error('Error saving payment provider:', error)
+      toast.error(`Failed to save payment provider: ${(error as Error).message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-base md:text-lg">
+          <Wallet className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+          Checkout Payment Provider
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Choose how customers pay for orders at checkout
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <RadioGroup
+          value={config.provider}
+          onValueChange={(value) => setConfig(prev => ({ ...prev, provider: value as PaymentProviderId }))}
+          disabled={isLoading || isSaving}
+          className="space-y-2"
+        >
+          {Object.values(PAYMENT_PROVIDERS).map((provider) => (
+            <Label
+              key={provider.id}
+              htmlFor={`payment-provider-${provider.id}`}
+              className="flex items-start space-x-3 p-3 border rounded-lg cursor-pointer hover:bg-slate-50"
+            >
+              <RadioGroupItem value={provider.id} id={`payment-provider-${provider.id}`} className="mt-0.5" />
+              <div className="space-y-1">
+                <p className="font-medium text-sm md:text-base">{provider.label}</p>
+                <p className="text-xs md:text-sm text-slate-500 font-normal">{provider.description}</p>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        {config.provider === 'razorpay' && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="text-xs md:text-sm">
+              Razorpay needs the create-payment-order, verify-payment and razorpay-webhook functions deployed,
+              the RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET secrets set, and a webhook
+              for payment.captured pointing at the razorpay-webhook function.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={isLoading || isSaving || config.provider === savedProvider}
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Provider'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,412 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { Banknote, Download, RefreshCw, ChevronDown, ChevronUp, Check, X } from 'lucide-react'
+import {
+  PAYOUT_FILE_FORMATS,
+  canUsePayoutFileFormat,
+  createPayoutBatch,
+  downloadPayoutFile,
+  getPayableWithdrawals,
+  getPayoutBatchLines,
+  getPayoutBatches,
+  getPayoutAmount,
+  getPayoutDestination,
+  getPayoutLineReference,
+  isValidUtr,
+  recordPayoutResult,
+  type PayoutBatch,
+  type PayoutFileFormat,
+  type PayoutLine
+} from '@/lib/payouts'
+
+interface PayoutBatchManagerProps {
+  // Called after a batch is created or a line is settled
+  onPayoutsChanged?: () => void
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString('en-IN')
+
+const getLineBadge = (line: PayoutLine) => {
+  switch (line.status) {
+    case 'paid':
+      return <Badge variant="secondary" className="bg-green-100 text-green-800">Paid</Badge>
+    case 'failed':
+      return <Badge variant="secondary" className="bg-red-100 text-red-800">Failed</Badge>
+    default:
+      return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Awaiting payment</Badge>
+  }
+}
+
+export const PayoutBatchManager: React.FC<PayoutBatchManagerProps> = ({ onPayoutsChanged }) => {
+  const [payable, setPayable] = useState<PayoutLine[]>([])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [fileFormat, setFileFormat] = useState<PayoutFileFormat>('upi_bulk')
+  const [batches, setBatches] = useState<PayoutBatch[]>([])
+  const [batchLines, setBatchLines] = useState<Record<string, PayoutLine[]>>({})
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null)
+  const [utrInputs, setUtrInputs] = useState<Record<string, string>>({})
+  const [failing, setFailing] = useState<PayoutLine | null>(null)
+  const [failureReason, setFailureReason] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [busyLineId, setBusyLineId] = useState<string | null>(null)
+
+  const loadPayouts = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const [payableRequests, recentBatches] = await Promise.all([
+        getPayableWithdrawals(),
+        getPayoutBatches()
+      ])
+      setPayable(payableRequests)
+      setBatches(recentBatches)
+      setSelectedIds(prev => prev.filter(id => payableRequests.some(request => request.id === id)))
+    } catch (error) {
+      console.error('Error loading payouts:', error)
+      toast.error('Failed to load payout batches')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPayouts()
+  }, [loadPayouts])
+
+  const loadBatchLines = async (batchId: string) => {
+    const lines = await getPayoutBatchLines(batchId)
+    setBatchLines(prev => ({ ...prev, [batchId]: lines }))
+    return lines
+  }
+
+  const toggleBatch = async (batchId: string) => {
+    if (expandedBatchId === batchId) {
+      setExpandedBatchId(null)
+      return
+    }
+
+    setExpandedBatchId(batchId)
+    try {
+      await loadBatchLines(batchId)
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  const toggleSelected = (requestId: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, requestId] : prev.filter(id => id !== requestId))
+  }
+
+  const selectedLines = payable.filter(request => selectedIds.includes(request.id))
+  const selectedTotal = selectedLines.reduce((sum, request) => sum + getPayoutAmount(request), 0)
+  const formatFits = canUsePayoutFileFormat(fileFormat, selectedLines)
+
+  const handleCreateBatch = async () => {
+    try {
+      setIsCreating(true)
+      const batch = await createPayoutBatch(selectedIds, fileFormat)
+      const lines = await loadBatchLines(batch.id)
+      downloadPayoutFile(batch, lines)
+      toast.success(`Batch ${batch.reference} created with ${batch.line_count} payouts`)
+      setSelectedIds([])
+      setExpandedBatchId(batch.id)
+      await loadPayouts()
+      onPayoutsChanged?.()
+    } catch (error) {
+      console.error('Error creating payout batch:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleDownload = async (batch: PayoutBatch) => {
+    try {
+      const lines = batchLines[batch.id] || await loadBatchLines(batch.id)
+      downloadPayoutFile(batch, lines)
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  const settleLine = async (line: PayoutLine, outcome: 'paid' | 'failed', reason?: string) => {
+    try {
+      setBusyLineId(line.id)
+      await recordPayoutResult(line.id, outcome, { utr: utrInputs[line.id], reason })
+      toast.success(outcome === 'paid'
+        ? 'Payout marked as paid'
+        : 'Payout marked as failed; the amount is back in the user\'s balance')
+      setFailing(null)
+      if (line.payout_batch_id) await loadBatchLines(line.payout_batch_id)
+      await loadPayouts()
+      onPayoutsChanged?.()
+    } catch (error) {
+      console.error('Error recording payout result:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setBusyLineId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col space-y-4 md:flex-row md:justify-between md:items-center md:space-y-0">
+          <div>
+            <CardTitle className="flex items-center text-base md:text-lg">
+              <Banknote className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+              Payout Batches
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Export approved withdrawals as a bulk payout file, then record each transfer's UTR
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadPayouts} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <h3 className="font-medium text-sm md:text-base">
+              Ready to pay ({payable.length})
+            </h3>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Select value={fileFormat} onValueChange={(value) => setFileFormat(value as PayoutFileFormat)}>
+                <SelectTrigger className="w-full sm:w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PAYOUT_FILE_FORMATS) as PayoutFileFormat[]).map(format => (
+                    <SelectItem key={format} value={format}>{PAYOUT_FILE_FORMATS[format].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleCreateBatch} disabled={selectedIds.length === 0 || !formatFits || isCreating}>
+                <Download className="w-4 h-4 mr-2" />
+                {isCreating ? 'Creating...' : `Create batch (${selectedIds.length})`}
+              </Button>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">{PAYOUT_FILE_FORMATS[fileFormat].description}</p>
+          {!formatFits && (
+            <p className="text-xs text-orange-600">
+              Some selected requests go to bank accounts. Use the bank bulk transfer file for them.
+            </p>
+          )}
+
+          {payable.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-4">
+              No approved withdrawals are waiting for a batch
+            </p>
+          ) : (
+            <div className="overflow-x-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={selectedIds.length === payable.length}
+                        onCheckedChange={(checked) => setSelectedIds(checked ? payable.map(request => request.id) : [])}
+                      />
+                    </TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Pay to</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Requested</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payable.map(request => (
+                    <TableRow key={request.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(request.id)}
+                          onCheckedChange={(checked) => toggleSelected(request.id, !!checked)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm">{request.user_profiles?.full_name || 'Unknown User'}</TableCell>
+                      <TableCell className="font-mono text-xs break-all">{getPayoutDestination(request)}</TableCell>
+                      <TableCell className="text-sm font-medium">
+                        {formatCurrency(getPayoutAmount(request))}
+                        {(request.tds_amount || 0) > 0 && (
+                          <p className="text-xs font-normal text-slate-500">after {formatCurrency(request.tds_amount)} TDS</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">{formatDate(request.requested_at)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {selectedIds.length > 0 && (
+            <p className="text-sm text-slate-600">
+              {selectedIds.length} selected, {formatCurrency(selectedTotal)} in total
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="font-medium text-sm md:text-base">Recent batches</h3>
+          {batches.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-4">No payout batches yet</p>
+          ) : (
+            batches.map(batch => {
+              const lines = batchLines[batch.id] || []
+              const isExpanded = expandedBatchId === batch.id
+
+              return (
+                <div key={batch.id} className="border rounded-lg">
+                  <div className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                    <div>
+                      <p className="font-medium flex items-center gap-2">
+                        <span className="font-mono">{batch.reference}</span>
+                        <Badge variant={batch.status === 'completed' ? 'default' : 'secondary'}>
+                          {batch.status === 'completed' ? 'Completed' : 'Open'}
+                        </Badge>
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {PAYOUT_FILE_FORMATS[batch.file_format]?.label || batch.file_format} · {formatDate(batch.created_at)}
+                      </p>
+                      <p className="text-xs text-slate-600 mt-1">
+                        {batch.line_count} lines, {formatCurrency(batch.total_amount)} · {batch.paid_count} paid
+                        ({formatCurrency(batch.paid_amount)}) · {batch.failed_count} failed
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => handleDownload(batch)}>
+                        <Download className="w-4 h-4 mr-2" />
+                        File
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => toggleBatch(batch.id)}>
+                        {isExpanded ? <ChevronUp className="w-4 h-4 mr-2" /> : <ChevronDown className="w-4 h-4 mr-2" />}
+                        Lines
+                      </Button>
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="overflow-x-auto border-t">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Reference</TableHead>
+                            <TableHead>User</TableHead>
+                            <TableHead>Amount</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead>UTR / Result</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {lines.map((line, index) => (
+                            <TableRow key={line.id}>
+                              <TableCell className="font-mono text-xs">{getPayoutLineReference(batch, index)}</TableCell>
+                              <TableCell className="text-sm">
+                                <p>{line.user_profiles?.full_name || 'Unknown User'}</p>
+                                <p className="font-mono text-xs text-slate-500 break-all">{getPayoutDestination(line)}</p>
+                              </TableCell>
+                              <TableCell className="text-sm font-medium">{formatCurrency(getPayoutAmount(line))}</TableCell>
+                              <TableCell>{getLineBadge(line)}</TableCell>
+                              <TableCell>
+                                {line.status === 'approved' ? (
+                                  <div className="flex flex-col sm:flex-row gap-2 min-w-[260px]">
+                                    <Input
+                                      placeholder="UTR"
+                                      value={utrInputs[line.id] || ''}
+                                      onChange={(e) => setUtrInputs(prev => ({ ...prev, [line.id]: e.target.value }))}
+                                      className="h-8 text-xs font-mono"
+                                    />
+                                    <Button
+                                      size="sm"
+                                      className="h-8 bg-green-600 hover:bg-green-700"
+                                      disabled={busyLineId === line.id || !isValidUtr(utrInputs[line.id] || '')}
+                                      onClick={() => settleLine(line, 'paid')}
+                                    >
+                                      <Check className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="h-8 border-red-200 text-red-600 hover:bg-red-50"
+                                      disabled={busyLineId === line.id}
+                                      onClick={() => {
+                                        setFailing(line)
+                                        setFailureReason('')
+                                      }}
+                                    >
+                                      <X className="w-4 h-4" />
+                                    </Button>
+                                  </div>
+                                ) : line.status === 'paid' ? (
+                                  <span className="font-mono text-xs">{line.utr}</span>
+                                ) : (
+                                  <span className="text-xs text-red-600">{line.failure_reason || line.status}</span>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </div>
+              )
+            })
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!failing} onOpenChange={(open) => !open && setFailing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Mark Payout as Failed</DialogTitle>
+            <DialogDescription>
+              {formatCurrency(failing?.amount || 0)} to {failing ? getPayoutDestination(failing) : ''} goes back to
+              {' '}{failing?.user_profiles?.full_name || 'the user'}'s available balance.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="payout-failure-reason">Reason</Label>
+            <Textarea
+              id="payout-failure-reason"
+              value={failureReason}
+              onChange={(e) => setFailureReason(e.target.value)}
+              placeholder="e.g. Invalid VPA, beneficiary bank declined"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFailing(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={!failureReason.trim() || !!busyLineId}
+              onClick={() => failing && settleLine(failing, 'failed', failureReason)}
+            >
+              Mark as failed
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
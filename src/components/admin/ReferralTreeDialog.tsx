@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { ArrowLeft, ArrowUp, GitBranch, RefreshCw } from 'lucide-react'
+import { UserProfile } from '@/lib/supabase'
+import { getReferralUpline, type ReferralUplineMember } from '@/lib/referral-tree'
+import { ReferralTreeExplorer } from '@/components/referral/ReferralTreeExplorer'
+
+interface ReferralTreeDialogProps {
+  user: UserProfile | null
+  isOpen: boolean
+  onClose: () => void
+}
+
+// The member whose upline and downline are on screen
+interface TreeMember {
+  id: string
+  user_id: string
+  full_name?: string | null
+  referral_code: string
+  subscription_status: 'active' | 'inactive'
+}
+
+export const ReferralTreeDialog: React.FC<ReferralTreeDialogProps> = ({ user, isOpen, onClose }) => {
+  // Members opened from the tree, so Back can return to the previous one
+  const [trail, setTrail] = useState<TreeMember[]>([])
+  const [upline, setUpline] = useState<ReferralUplineMember[]>([])
+  const [uplineLoading, setUplineLoading] = useState(false)
+
+  const member = trail[trail.length - 1] || null
+  const memberUserId = member?.user_id
+
+  useEffect(() => {
+    if (user && isOpen) {
+      setTrail([{
+        id: user.id,
+        user_id: user.user_id,
+        full_name: user.full_name,
+        referral_code: user.referral_code,
+        subscription_status: user.subscription_status
+      }])
+    }
+  }, [user, isOpen])
+
+  useEffect(() => {
+    if (!memberUserId) return
+
+    const loadUpline = async () => {
+      try {
+        setUplineLoading(true)
+        setUpline(await getReferralUpline(memberUserId))
+      } catch (error) {
+        console.error('Error loading upline:', error)
+        toast.error('Failed to load the upline')
+        setUpline([])
+      } finally {
+        setUplineLoading(false)
+      }
+    }
+
+    loadUpline()
+  }, [memberUserId])
+
+  const openMember = (next: TreeMember) => {
+    if (next.id === member?.id) return
+    setTrail(prev => [...prev, next])
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center text-lg">
+            <GitBranch className="w-5 h-5 mr-2" />
+            Referral Tree - {member?.full_name || 'User'}
+          </DialogTitle>
+          <DialogDescription>
+            Who referred this member and everyone in their network, down to level 7
+          </DialogDescription>
+        </DialogHeader>
+
+        {member && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {trail.length > 1 && (
+                <Button variant="outline" size="sm" onClick={() => setTrail(prev => prev.slice(0, -1))}>
+                  <ArrowLeft className="w-4 h-4 mr-1" />
+                  Back to {trail[trail.length - 2].full_name || 'previous member'}
+                </Button>
+              )}
+              <Badge variant="outline" className="font-mono">{member.referral_code}</Badge>
+              <Badge className={member.subscription_status === 'active' ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-700'}>
+                {member.subscription_status === 'active' ? 'Active' : 'Inactive'}
+              </Badge>
+            </div>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center text-base">
+                  <ArrowUp className="w-4 h-4 mr-2" />
+                  Upline
+                  {uplineLoading && <RefreshCw className="w-4 h-4 ml-2 animate-spin" />}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!uplineLoading && upline.length === 0 ? (
+                  <p className="text-sm text-slate-500">This member joined without a referrer</p>
+                ) : (
+                  <div className="space-y-2">
+                    {upline.map(referrer => (
+                      <div key={referrer.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Badge variant="outline" className="text-xs">L{referrer.level}</Badge>
+                          <span className="text-sm font-medium truncate">{referrer.full_name || 'User'}</span>
+                          <span className="text-xs text-slate-500 font-mono">{referrer.referral_code}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={referrer.subscription_status === 'active' ? 'default' : 'secondary'} className="text-xs">
+                            {referrer.subscription_status === 'active' ? 'Active' : 'Inactive'}
+                          </Badge>
+                          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => openMember(referrer)}>
+                            <GitBranch className="w-3 h-3 mr-1" />
+                            Open
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <ReferralTreeExplorer rootProfileId={member.id} onOpenMember={openMember} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
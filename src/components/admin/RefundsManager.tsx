@@ -0,0 +1,364 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+import { RotateCcw, RefreshCw, Check, X, Clock, IndianRupee } from 'lucide-react'
+import { ORDER_STATUS_LABELS } from '@/lib/order-status'
+import {
+  CancellationRequestWithOrder,
+  RefundWithProfile,
+  RefundStatus,
+  REFUND_STATUS_LABELS,
+  getAllCancellationRequests,
+  getAllRefunds,
+  processCancellationRequest,
+  updateRefund
+} from '@/lib/order-cancellation'
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0
+  }).format(amount)
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+const getRefundBadge = (status: RefundStatus) => {
+  const className = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    processing: 'bg-blue-100 text-blue-800',
+    completed: 'bg-green-100 text-green-800',
+    failed: 'bg-red-100 text-red-800'
+  }[status]
+
+  return <Badge variant="secondary" className={className}>{REFUND_STATUS_LABELS[status]}</Badge>
+}
+
+export const RefundsManager: React.FC = () => {
+  const [requests, setRequests] = useState<CancellationRequestWithOrder[]>([])
+  const [refunds, setRefunds] = useState<RefundWithProfile[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [selectedRequest, setSelectedRequest] = useState<CancellationRequestWithOrder | null>(null)
+  const [requestAction, setRequestAction] = useState<'approve' | 'reject' | null>(null)
+  const [requestNotes, setRequestNotes] = useState('')
+
+  const [selectedRefund, setSelectedRefund] = useState<RefundWithProfile | null>(null)
+  const [refundForm, setRefundForm] = useState<{ status: RefundStatus; upi_id: string; reference: string; notes: string }>({
+    status: 'pending',
+    upi_id: '',
+    reference: '',
+    notes: ''
+  })
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const [requestData, refundData] = await Promise.all([
+        getAllCancellationRequests(),
+        getAllRefunds()
+      ])
+      setRequests(requestData)
+      setRefunds(refundData)
+    } catch (error) {
+      console.error('Error loading refunds:', error)
+      toast.error('Failed to load cancellations and refunds')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  const pendingRequests = requests.filter(request => request.status === 'pending')
+  const openRefunds = refunds.filter(refund => refund.status === 'pending' || refund.status === 'processing')
+  const closedRefunds = refunds.filter(refund => refund.status === 'completed' || refund.status === 'failed')
+
+  const openRequestDialog = (request: CancellationRequestWithOrder, action: 'approve' | 'reject') => {
+    setSelectedRequest(request)
+    setRequestAction(action)
+    setRequestNotes('')
+  }
+
+  const closeRequestDialog = () => {
+    setSelectedRequest(null)
+    setRequestAction(null)
+  }
+
+  const handleProcessRequest = async () => {
+    if (!selectedRequest || !requestAction) return
+
+    if (requestAction === 'reject' && !requestNotes.trim()) {
+      toast.error('Please give the customer a reason for rejecting the request')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      await processCancellationRequest(
+        selectedRequest.id,
+        requestAction === 'approve',
+        requestNotes.trim() || undefined
+      )
+      toast.success(requestAction === 'approve' ? 'Cancellation approved' : 'Cancellation request rejected')
+      closeRequestDialog()
+      loadData()
+    } catch (error) {
+      console.error('Error processing cancellation request:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const openRefundDialog = (refund: RefundWithProfile) => {
+    setSelectedRefund(refund)
+    setRefundForm({
+      status: refund.status === 'pending' ? 'completed' : refund.status,
+      upi_id: refund.upi_id || '',
+      reference: refund.reference || '',
+      notes: refund.notes || ''
+    })
+  }
+
+  const handleSaveRefund = async () => {
+    if (!selectedRefund) return
+
+    try {
+      setIsSaving(true)
+      await updateRefund(selectedRefund.id, {
+        status: refundForm.status,
+        upi_id: refundForm.upi_id.trim() || undefined,
+        reference: refundForm.reference.trim() || undefined,
+        notes: refundForm.notes.trim() || undefined
+      })
+      toast.success('Refund updated')
+      setSelectedRefund(null)
+      loadData()
+    } catch (error) {
+      console.error('Error updating refund:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderRefund = (refund: RefundWithProfile) => (
+    <div key={refund.id} className="flex flex-col space-y-2 md:flex-row md:items-center md:justify-between md:space-y-0 p-3 md:p-4 border rounded-lg">
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <span className="font-semibold text-sm md:text-base">{formatCurrency(refund.amount)}</span>
+          {getRefundBadge(refund.status)}
+        </div>
+        <p className="text-xs md:text-sm text-slate-600">
+          {refund.user_profile?.full_name || 'Unknown user'} • Order #{refund.order_id.substring(0, 8)}
+        </p>
+        <p className="text-xs text-slate-500">
+          UPI: {refund.upi_id || 'not provided'}
+          {refund.reference && <> • Ref: <span className="font-mono">{refund.reference}</span></>}
+        </p>
+        <p className="text-xs text-slate-500">{formatDate(refund.created_at)}</p>
+      </div>
+      <Button variant="outline" size="sm" className="text-xs" onClick={() => openRefundDialog(refund)}>
+        <IndianRupee className="w-3 h-3 mr-1" />
+        {refund.status === 'completed' || refund.status === 'failed' ? 'Edit' : 'Process'}
+      </Button>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center text-base md:text-lg">
+                <Clock className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+                Cancellation Requests
+              </CardTitle>
+              <CardDescription className="text-sm">Orders customers want cancelled after fulfilment started</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={loadData} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {pendingRequests.length === 0 ? (
+            <p className="text-center text-slate-500 py-6 text-sm">No pending cancellation requests</p>
+          ) : (
+            <div className="space-y-3">
+              {pendingRequests.map((request) => (
+                <div key={request.id} className="flex flex-col space-y-2 md:flex-row md:items-center md:justify-between md:space-y-0 p-3 md:p-4 border rounded-lg">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold text-sm md:text-base">Order #{request.order_id.substring(0, 8)}</span>
+                      {request.order && (
+                        <Badge variant="outline" className="text-xs">
+                          {ORDER_STATUS_LABELS[request.order.status] || request.order.status}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs md:text-sm text-slate-600">
+                      {request.user_profile?.full_name || 'Unknown user'}
+                      {request.order && <> • {formatCurrency(request.order.total_amount)}</>}
+                    </p>
+                    {request.reason && <p className="text-sm text-slate-700">"{request.reason}"</p>}
+                    <p className="text-xs text-slate-500">Requested {formatDate(request.requested_at)}</p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button size="sm" className="text-xs" onClick={() => openRequestDialog(request, 'approve')}>
+                      <Check className="w-3 h-3 mr-1" />
+                      Approve
+                    </Button>
+                    <Button size="sm" variant="outline" className="text-xs" onClick={() => openRequestDialog(request, 'reject')}>
+                      <X className="w-3 h-3 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center text-base md:text-lg">
+            <RotateCcw className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+            Refunds
+          </CardTitle>
+          <CardDescription className="text-sm">Send refunds over UPI and record the payment reference</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {openRefunds.length === 0 ? (
+            <p className="text-center text-slate-500 py-6 text-sm">No refunds waiting to be paid</p>
+          ) : (
+            <div className="space-y-3">{openRefunds.map(renderRefund)}</div>
+          )}
+
+          {closedRefunds.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-slate-700">History</h4>
+              {closedRefunds.slice(0, 20).map(renderRefund)}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedRequest && !!requestAction} onOpenChange={closeRequestDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{requestAction === 'approve' ? 'Approve Cancellation' : 'Reject Cancellation'}</DialogTitle>
+            <DialogDescription>
+              {requestAction === 'approve'
+                ? 'The order will be cancelled (or marked refunded if delivered), stock restored and referral commissions reversed.'
+                : 'The order will continue as normal.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="request-notes">Notes{requestAction === 'reject' ? ' *' : ' (Optional)'}</Label>
+            <Textarea
+              id="request-notes"
+              value={requestNotes}
+              onChange={(e) => setRequestNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeRequestDialog} disabled={isSaving}>Cancel</Button>
+            <Button
+              variant={requestAction === 'approve' ? 'default' : 'destructive'}
+              onClick={handleProcessRequest}
+              disabled={isSaving}
+            >
+              {isSaving ? 'Saving...' : requestAction === 'approve' ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedRefund} onOpenChange={() => setSelectedRefund(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Process Refund</DialogTitle>
+            <DialogDescription>
+              {selectedRefund && `${formatCurrency(selectedRefund.amount)} for order #${selectedRefund.order_id.substring(0, 8)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="refund-status">Status</Label>
+              <Select
+                value={refundForm.status}
+                onValueChange={(value) => setRefundForm(prev => ({ ...prev, status: value as RefundStatus }))}
+              >
+                <SelectTrigger id="refund-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REFUND_STATUS_LABELS) as RefundStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>{REFUND_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-upi">UPI ID</Label>
+              <Input
+                id="refund-upi"
+                value={refundForm.upi_id}
+                onChange={(e) => setRefundForm(prev => ({ ...prev, upi_id: e.target.value }))}
+                placeholder="customer@upi"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-reference">Payment Reference (UTR){refundForm.status === 'completed' ? ' *' : ''}</Label>
+              <Input
+                id="refund-reference"
+                value={refundForm.reference}
+                onChange={(e) => setRefundForm(prev => ({ ...prev, reference: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-notes">Notes (Optional)</Label>
+              <Textarea
+                id="refund-notes"
+                value={refundForm.notes}
+                onChange={(e) => setRefundForm(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedRefund(null)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleSaveRefund} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Refund'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -3,30 +3,50 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Settings, Save, RotateCcw } from 'lucide-react'
 import { toast } from '@/hooks/use-toast'
-import { loadRewardConfig, DEFAULT_REFERRAL_REWARD_CONFIG } from '@/lib/fixed-reward-system'
-import { supabase } from '@/lib/supabase'
-import { hasAdminAccess, supabaseAdmin } from '@/lib/supabase-admin'
+import {
+  DEFAULT_COMMISSION_MATURATION,
+  DEFAULT_REFERRAL_RULES,
+  MAX_REFERRAL_LEVELS,
+  REFERRAL_RULE_TRIGGERS,
+  loadCommissionMaturation,
+  loadReferralRules,
+  saveCommissionMaturation,
+  saveReferralRules,
+  type CommissionMaturationConfig,
+  type ReferralRule,
+  type ReferralRuleTrigger,
+  type ReferralRules
+} from '@/lib/referral-rules'
+
+const cloneRules = (rules: ReferralRules): ReferralRules => JSON.parse(JSON.stringify(rules))
 
 export const RewardConfigManager: React.FC = () => {
-  const [config, setConfig] = useState(DEFAULT_REFERRAL_REWARD_CONFIG)
+  const [rules, setRules] = useState<ReferralRules>(cloneRules(DEFAULT_REFERRAL_RULES))
+  const [maturation, setMaturation] = useState<CommissionMaturationConfig>(DEFAULT_COMMISSION_MATURATION)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
 
   useEffect(() => {
-    loadCurrentConfig()
+    loadCurrentRules()
   }, [])
 
-  const loadCurrentConfig = async () => {
+  const loadCurrentRules = async () => {
     try {
       setLoading(true)
-      const currentConfig = await loadRewardConfig()
-      setConfig(currentConfig)
+      const [currentRules, currentMaturation] = await Promise.all([
+        loadReferralRules(),
+        loadCommissionMaturation()
+      ])
+      setRules(currentRules)
+      setMaturation(currentMaturation)
     } catch (error) {
-      console.error('Error loading config:', error)
+      console.error('Error loading referral rules:', error)
       toast({
-        description: 'Failed to load reward configuration',
+        description: 'Failed to load referral reward rules',
         variant: 'destructive'
       })
     } finally {
@@ -34,38 +54,33 @@ export const RewardConfigManager: React.FC = () => {
     }
   }
 
-  const handleConfigChange = (level: string, value: string) => {
-    const numValue = parseFloat(value) || 0
-    setConfig(prev => ({
+  const updateRule = (trigger: ReferralRuleTrigger, changes: Partial<ReferralRule>) => {
+    setRules(prev => ({
       ...prev,
-      [level]: numValue
+      [trigger]: { ...prev[trigger], ...changes }
     }))
   }
 
-  const saveConfig = async () => {
+  const handleLevelChange = (trigger: ReferralRuleTrigger, index: number, value: string) => {
+    const levels = Array.from({ length: MAX_REFERRAL_LEVELS }, (_, i) => rules[trigger].levels[i] ?? 0)
+    levels[index] = parseFloat(value) || 0
+    updateRule(trigger, { levels })
+  }
+
+  const saveRules = async () => {
     try {
       setSaving(true)
-      
-      const client = hasAdminAccess ? supabaseAdmin! : supabase
-      
-      const { error } = await client
-        .from('system_settings')
-        .upsert({
-          key: 'referral_reward_config',
-          value: config,
-          description: '7-level fixed reward structure amounts in rupees'
-        })
-
-      if (error) throw error
+      await saveReferralRules(rules)
+      await saveCommissionMaturation(maturation)
 
       toast({
-        description: 'Reward configuration updated successfully!',
+        description: 'Referral reward rules updated successfully!',
         variant: 'default'
       })
-    } catch (error: any) {
-      console.error('Error saving config:', error)
+    } catch (error) {
+      console.error('Error saving referral rules:', error)
       toast({
-        description: `Failed to save configuration: ${error.message}`,
+        description: `Failed to save rules: ${(error as Error).message}`,
         variant: 'destructive'
       })
     } finally {
@@ -74,9 +89,10 @@ export const RewardConfigManager: React.FC = () => {
   }
 
   const resetToDefaults = () => {
-    setConfig(DEFAULT_REFERRAL_REWARD_CONFIG)
+    setRules(cloneRules(DEFAULT_REFERRAL_RULES))
+    setMaturation(DEFAULT_COMMISSION_MATURATION)
     toast({
-      description: 'Configuration reset to defaults (not saved yet)',
+      description: 'Rules reset to defaults (not saved yet)',
       variant: 'default'
     })
   }
@@ -85,7 +101,7 @@ export const RewardConfigManager: React.FC = () => {
     return (
       <Card>
         <CardContent className="p-6 text-center">
-          <div>Loading reward configuration...</div>
+          <div>Loading referral reward rules...</div>
         </CardContent>
       </Card>
     )
@@ -96,75 +112,156 @@ export const RewardConfigManager: React.FC = () => {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Settings className="h-5 w-5" />
-          7-Level Reward Configuration
+          Referral Reward Rules
         </CardTitle>
         <p className="text-sm text-muted-foreground">
-          Configure the fixed reward amounts for each referral level. Changes take effect immediately.
+          Configure what the referral chain earns for each event. Changes apply to events processed after saving.
         </p>
       </CardHeader>
       <CardContent className="space-y-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-          {Object.entries(config).map(([level, amount]) => (
-            <div key={level} className="space-y-2">
-              <Label htmlFor={level} className="text-sm font-medium">
-                {level.replace('level', 'Level ')} Reward
-              </Label>
-              <div className="relative">
-                <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-muted-foreground">
-                  ₹
-                </span>
-                <Input
-                  id={level}
-                  type="number"
-                  min="0"
-                  step="0.01"
-                  value={amount}
-                  onChange={(e) => handleConfigChange(level, e.target.value)}
-                  className="pl-8"
-                  placeholder="0.00"
-                />
+        {REFERRAL_RULE_TRIGGERS.map(({ trigger, label, description }) => {
+          const rule = rules[trigger]
+          const isPercentage = rule.type === 'percentage'
+
+          return (
+            <div key={trigger} className="border rounded-lg p-4 space-y-4">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div>
+                  <h3 className="font-semibold">{label}</h3>
+                  <p className="text-xs text-muted-foreground">{description}</p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <Select
+                    value={rule.type}
+                    onValueChange={(value) => updateRule(trigger, { type: value as ReferralRule['type'] })}
+                    disabled={!rule.enabled}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fixed">Fixed amount</SelectItem>
+                      <SelectItem value="percentage">Percentage</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`${trigger}-enabled`}
+                      checked={rule.enabled}
+                      onCheckedChange={(checked) => updateRule(trigger, { enabled: checked })}
+                    />
+                    <Label htmlFor={`${trigger}-enabled`} className="text-sm">Enabled</Label>
+                  </div>
+                </div>
               </div>
+
+              {rule.enabled && (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-3">
+                    {Array.from({ length: MAX_REFERRAL_LEVELS }, (_, index) => (
+                      <div key={index} className="space-y-1">
+                        <Label htmlFor={`${trigger}-level${index + 1}`} className="text-xs font-medium">
+                          Level {index + 1}
+                        </Label>
+                        <div className="relative">
+                          <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-muted-foreground">
+                            {isPercentage ? '%' : '₹'}
+                          </span>
+                          <Input
+                            id={`${trigger}-level${index + 1}`}
+                            type="number"
+                            min="0"
+                            max={isPercentage ? '100' : undefined}
+                            step="0.01"
+                            value={rule.levels[index] ?? 0}
+                            onChange={(e) => handleLevelChange(trigger, index, e.target.value)}
+                            className="pl-8"
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex flex-col md:flex-row md:items-end gap-3">
+                    <div className="space-y-1 md:w-64">
+                      <Label htmlFor={`${trigger}-cap`} className="text-xs font-medium">
+                        Cap per reward (₹)
+                      </Label>
+                      <Input
+                        id={`${trigger}-cap`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={rule.max_amount ?? ''}
+                        onChange={(e) => updateRule(trigger, {
+                          max_amount: e.target.value === '' ? null : parseFloat(e.target.value)
+                        })}
+                        placeholder="No cap"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground pb-2">
+                      {isPercentage
+                        ? `Level 1 earns ${rule.levels[0] ?? 0}% of the ${trigger === 'subscription_activation' ? 'plan price' : 'order total'}`
+                        : `Up to ₹${rule.levels.reduce((sum, amount) => sum + amount, 0)} per complete ${rule.levels.length}-level chain`}
+                      {trigger === 'subscription_activation' && !isPercentage && ', scaled by the plan\'s referral multiplier'}
+                    </p>
+                  </div>
+                </>
+              )}
             </div>
-          ))}
+          )
+        })}
+
+        <div className="border rounded-lg p-4 flex flex-col md:flex-row md:items-end gap-3">
+          <div className="space-y-1 md:w-64">
+            <Label htmlFor="return-window-days" className="text-sm font-medium">
+              Return window (days)
+            </Label>
+            <Input
+              id="return-window-days"
+              type="number"
+              min="0"
+              step="1"
+              value={maturation.return_window_days}
+              onChange={(e) => setMaturation({ return_window_days: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground pb-2">
+            Order rewards stay locked until the order is delivered and this many days have passed.
+            They are voided if the order is cancelled, fails payment or is refunded.
+          </p>
         </div>
 
         <div className="border-t pt-4">
           <div className="text-sm text-muted-foreground mb-4">
             <h3 className="font-semibold mb-2">How it works:</h3>
             <ul className="space-y-1 text-xs">
-              <li>• When a user activates their subscription, rewards are distributed up the referral chain</li>
+              <li>• Rewards are calculated by the database when the event happens, never in the browser</li>
               <li>• Level 1 = Direct referrer, Level 2 = Referrer's referrer, and so on</li>
-              <li>• If there's no referrer at any level, the chain stops there</li>
-              <li>• Rewards are automatically added to user balances</li>
+              <li>• Each event is paid at most once, however many times it is processed</li>
+              <li>• Referrers whose plan does not include referral rewards are skipped</li>
+              <li>• Order rewards are taken back if the order is cancelled or refunded, even after they unlock</li>
             </ul>
           </div>
         </div>
 
         <div className="flex gap-2 pt-4">
-          <Button 
-            onClick={saveConfig} 
+          <Button
+            onClick={saveRules}
             disabled={saving}
             className="flex-1"
           >
             <Save className="h-4 w-4 mr-2" />
-            {saving ? 'Saving...' : 'Save Configuration'}
+            {saving ? 'Saving...' : 'Save Rules'}
           </Button>
-          <Button 
-            onClick={resetToDefaults} 
+          <Button
+            onClick={resetToDefaults}
             variant="outline"
           >
             <RotateCcw className="h-4 w-4 mr-2" />
             Reset to Defaults
           </Button>
         </div>
-
-        <div className="bg-blue-50 p-4 rounded-lg text-sm">
-          <h4 className="font-semibold text-blue-800 mb-2">Current Total Potential Reward:</h4>
-          <p className="text-blue-700">
-            ₹{Object.values(config).reduce((sum, amount) => sum + amount, 0)} 
-            per complete 7-level activation chain
-          </p>
-        </div>
       </CardContent>
     </Card>
   )
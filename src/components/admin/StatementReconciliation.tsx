@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { FileSpreadsheet, Upload, RefreshCw, Check, X, AlertCircle } from 'lucide-react'
+import {
+  BankStatementEntry,
+  BankStatementImport,
+  MatchCandidate,
+  MATCH_TYPE_LABELS,
+  importBankStatement,
+  getReconciliationQueue,
+  getStatementImports,
+  confirmStatementMatch,
+  ignoreStatementEntry
+} from '@/lib/reconciliation'
+
+interface StatementReconciliationProps {
+  onPaymentsSettled?: () => void
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0
+  }).format(amount)
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+const getSignalBadges = (candidate: MatchCandidate) => (
+  <div className="flex flex-wrap gap-1">
+    <Badge variant="outline" className={candidate.utr_match ? 'border-green-300 text-green-700' : 'text-slate-400'}>UTR</Badge>
+    {candidate.payment_reference && (
+      <Badge variant="outline" className={candidate.reference_match ? 'border-green-300 text-green-700' : 'text-slate-400'}>Payment ref</Badge>
+    )}
+    {candidate.narration_match && (
+      <Badge variant="outline" className="border-amber-300 text-amber-700">Ref in narration</Badge>
+    )}
+    <Badge variant="outline" className={candidate.amount_match ? 'border-green-300 text-green-700' : 'text-slate-400'}>Amount</Badge>
+    <Badge variant="outline" className={candidate.time_match ? 'border-green-300 text-green-700' : 'text-slate-400'}>Time</Badge>
+  </div>
+)
+
+export const StatementReconciliation: React.FC<StatementReconciliationProps> = ({ onPaymentsSettled }) => {
+  const [queue, setQueue] = useState<BankStatementEntry[]>([])
+  const [imports, setImports] = useState<BankStatementImport[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [busyEntryId, setBusyEntryId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const [queueData, importData] = await Promise.all([
+        getReconciliationQueue(),
+        getStatementImports()
+      ])
+      setQueue(queueData)
+      setImports(importData)
+    } catch (error) {
+      console.error('Error loading reconciliation queue:', error)
+      toast.error('Failed to load the reconciliation queue')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      setIsImporting(true)
+      const result = await importBankStatement(file)
+      toast.success(
+        `Imported ${result.import.credit_rows} credits: ${result.autoMatched} verified automatically, ` +
+        `${result.needsReview} to review, ${result.unmatched} unmatched` +
+        (result.duplicates ? `, ${result.duplicates} already imported` : '')
+      )
+      if (result.failed > 0) {
+        toast.warning(`${result.failed} matches could not be verified and were sent to review`)
+      }
+      if (result.autoMatched > 0) onPaymentsSettled?.()
+      loadQueue()
+    } catch (error) {
+      console.error('Error importing statement:', error)
+      toast.error(`Import failed: ${(error as Error).message}`)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleConfirm = async (entry: BankStatementEntry, candidate: MatchCandidate) => {
+    try {
+      setBusyEntryId(entry.id)
+      await confirmStatementMatch(entry, candidate)
+      toast.success(`${MATCH_TYPE_LABELS[candidate.type]} verified`)
+      onPaymentsSettled?.()
+      loadQueue()
+    } catch (error) {
+      console.error('Error confirming statement match:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setBusyEntryId(null)
+    }
+  }
+
+  const handleIgnore = async (entry: BankStatementEntry) => {
+    try {
+      setBusyEntryId(entry.id)
+      await ignoreStatementEntry(entry.id, 'Not a customer payment')
+      setQueue(prev => prev.filter(item => item.id !== entry.id))
+    } catch (error) {
+      console.error('Error ignoring statement entry:', error)
+      toast.error('Failed to update statement entry')
+    } finally {
+      setBusyEntryId(null)
+    }
+  }
+
+  const reviewEntries = queue.filter(entry => entry.status === 'needs_review')
+  const unmatchedEntries = queue.filter(entry => entry.status === 'unmatched')
+
+  const renderEntry = (entry: BankStatementEntry) => (
+    <div key={entry.id} className="p-3 md:p-4 border rounded-lg space-y-3">
+      <div className="flex flex-col space-y-2 md:flex-row md:items-start md:justify-between md:space-y-0">
+        <div className="space-y-1">
+          <div className="flex items-center space-x-2">
+            <span className="font-semibold text-sm md:text-base">{formatCurrency(entry.amount)}</span>
+            {entry.utr && <span className="font-mono text-xs text-slate-600">UTR {entry.utr}</span>}
+          </div>
+          <p className="text-xs text-slate-500">{formatDate(entry.transaction_date)}</p>
+          {entry.description && <p className="text-xs text-slate-600 break-all">{entry.description}</p>}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-xs self-start"
+          onClick={() => handleIgnore(entry)}
+          disabled={busyEntryId === entry.id}
+        >
+          <X className="w-3 h-3 mr-1" />
+          Ignore
+        </Button>
+      </div>
+
+      {entry.candidates.length > 0 && (
+        <div className="space-y-2">
+          {entry.candidates.map((candidate) => (
+            <div key={`${candidate.type}-${candidate.id}`} className="flex flex-col space-y-2 md:flex-row md:items-center md:justify-between md:space-y-0 p-2 bg-slate-50 rounded">
+              <div className="space-y-1">
+                <p className="text-xs md:text-sm">
+                  <span className="font-medium">{MATCH_TYPE_LABELS[candidate.type]}</span>
+                  {' • '}{formatCurrency(candidate.amount)}
+                  {candidate.order_id && <> • Order #{candidate.order_id.substring(0, 8)}</>}
+                </p>
+                <p className="text-xs text-slate-500">
+                  Ref: <span className="font-mono">{candidate.reference || '—'}</span>
+                  {candidate.payment_reference && <> • Payment ref: <span className="font-mono">{candidate.payment_reference}</span></>}
+                  {' • '}{formatDate(candidate.created_at)}
+                </p>
+                {getSignalBadges(candidate)}
+              </div>
+              <Button
+                size="sm"
+                className="text-xs bg-green-600 hover:bg-green-700"
+                onClick={() => handleConfirm(entry, candidate)}
+                disabled={busyEntryId === entry.id}
+              >
+                <Check className="w-3 h-3 mr-1" />
+                Confirm Match
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col space-y-4 md:flex-row md:justify-between md:items-center md:space-y-0">
+          <div>
+            <CardTitle className="flex items-center text-base md:text-lg">
+              <FileSpreadsheet className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+              Statement Reconciliation
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Import a bank or UPI statement (CSV, XLS, XLSX) to verify payments by UTR, payment reference, amount and time
+            </CardDescription>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={loadQueue} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+              <Upload className="w-4 h-4 mr-2" />
+              {isImporting ? 'Importing...' : 'Import Statement'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,.xls,.xlsx"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {imports.length > 0 && (
+          <div className="text-xs text-slate-500">
+            Last import: {imports[0].file_name} on {formatDate(imports[0].created_at)} —{' '}
+            {imports[0].auto_matched} auto-verified, {imports[0].needs_review} for review, {imports[0].unmatched} unmatched
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-slate-700 flex items-center">
+            <AlertCircle className="w-4 h-4 mr-2 text-orange-500" />
+            Needs Review ({reviewEntries.length})
+          </h4>
+          {reviewEntries.length === 0 ? (
+            <p className="text-sm text-slate-500">Nothing to review</p>
+          ) : (
+            reviewEntries.map(renderEntry)
+          )}
+        </div>
+
+        {unmatchedEntries.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-slate-700">Unmatched Credits ({unmatchedEntries.length})</h4>
+            {unmatchedEntries.map(renderEntry)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { useAdminAuth } from '@/contexts/AdminAuthContext'
+import { Package, History, Clock, Check, X, RefreshCw } from 'lucide-react'
+import { Product, updateProductStock } from '@/lib/supabase'
+import {
+  StockMovement,
+  StockReservation,
+  STOCK_MOVEMENT_LABELS,
+  getProductStockMovements,
+  getActiveStockReservations
+} from '@/lib/inventory'
+
+interface StockHistoryDialogProps {
+  product: Product | null
+  isOpen: boolean
+  onClose: () => void
+  onStockUpdated: () => void
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+const getMovementBadge = (movement: StockMovement) => {
+  const className = movement.quantity > 0
+    ? 'border-green-200 text-green-700'
+    : 'border-red-200 text-red-700'
+
+  return (
+    <Badge variant="outline" className={className}>
+      {STOCK_MOVEMENT_LABELS[movement.movement_type] || movement.movement_type}
+    </Badge>
+  )
+}
+
+export const StockHistoryDialog: React.FC<StockHistoryDialogProps> = ({
+  product,
+  isOpen,
+  onClose,
+  onStockUpdated
+}) => {
+  const { can } = useAdminAuth()
+  const canAdjustStock = can('products.write', 'inventory.adjust')
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const [reservations, setReservations] = useState<StockReservation[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [newQuantity, setNewQuantity] = useState('')
+  const [movementType, setMovementType] = useState<'adjustment' | 'restock'>('restock')
+  const [notes, setNotes] = useState('')
+
+  const loadHistory = useCallback(async () => {
+    if (!product) return
+
+    try {
+      setIsLoading(true)
+      const [movementData, reservationData] = await Promise.all([
+        getProductStockMovements(product.id),
+        getActiveStockReservations(product.id)
+      ])
+      setMovements(movementData)
+      setReservations(reservationData)
+    } catch (error) {
+      console.error('Error loading stock history:', error)
+      toast.error('Failed to load stock history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [product])
+
+  useEffect(() => {
+    if (product && isOpen) {
+      loadHistory()
+      setNewQuantity(product.stock_quantity.toString())
+      setMovementType('restock')
+      setNotes('')
+    }
+  }, [product, isOpen, loadHistory])
+
+  const handleSave = async () => {
+    if (!product) return
+
+    const quantity = Number(newQuantity)
+    if (newQuantity === '' || isNaN(quantity) || quantity < 0 || !Number.isInteger(quantity)) {
+      toast.error('Enter a whole, non-negative stock quantity')
+      return
+    }
+
+    if (quantity === product.stock_quantity) {
+      toast.info('Stock quantity is unchanged')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      await updateProductStock(product.id, quantity, {
+        movementType,
+        notes: notes.trim() || undefined
+      })
+      toast.success('Stock updated successfully!')
+      onStockUpdated()
+      onClose()
+    } catch (error) {
+      console.error('Error updating stock:', error)
+      toast.error(`Failed to update stock: ${(error as Error).message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const reservedQuantity = reservations.reduce((sum, reservation) => sum + reservation.quantity, 0)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center text-lg">
+            <Package className="w-5 h-5 mr-2" />
+            Inventory - {product?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Adjust stock and review every stock movement for this product
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Stock Level</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label className="text-sm text-gray-500">Available</Label>
+                  <p className="text-lg font-bold">{product?.stock_quantity ?? 0}</p>
+                </div>
+                <div>
+                  <Label className="text-sm text-gray-500">Held for unpaid orders</Label>
+                  <p className="text-lg font-bold text-orange-600">{reservedQuantity}</p>
+                </div>
+              </div>
+
+              {canAdjustStock && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="stock-quantity">New Quantity</Label>
+                    <Input
+                      id="stock-quantity"
+                      type="number"
+                      min="0"
+                      value={newQuantity}
+                      onChange={(e) => setNewQuantity(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="movement-type">Reason</Label>
+                    <Select value={movementType} onValueChange={(value) => setMovementType(value as 'adjustment' | 'restock')}>
+                      <SelectTrigger id="movement-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="restock">Restock</SelectItem>
+                        <SelectItem value="adjustment">Manual adjustment</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="stock-notes">Notes (Optional)</Label>
+                    <Input
+                      id="stock-notes"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="e.g. Supplier invoice #"
+                    />
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {reservations.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center">
+                  <Clock className="w-4 h-4 mr-2" />
+                  Active Reservations
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {reservations.map((reservation) => (
+                    <div key={reservation.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                      <span className="font-mono">Order #{reservation.order_id.substring(0, 8)}</span>
+                      <span>Qty: {reservation.quantity}</span>
+                      <span className="text-gray-500">Expires {formatDate(reservation.expires_at)}</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base flex items-center">
+                  <History className="w-4 h-4 mr-2" />
+                  Movement History
+                </CardTitle>
+                <Button variant="outline" size="sm" onClick={loadHistory} disabled={isLoading}>
+                  <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading && movements.length === 0 ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : movements.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No stock movements recorded yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {movements.map((movement) => (
+                    <div key={movement.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="space-y-1">
+                        <div className="flex items-center space-x-2">
+                          {getMovementBadge(movement)}
+                          {movement.order_id && (
+                            <span className="font-mono text-xs text-gray-500">
+                              Order #{movement.order_id.substring(0, 8)}
+                            </span>
+                          )}
+                        </div>
+                        {movement.notes && <p className="text-sm text-gray-600">{movement.notes}</p>}
+                        <p className="text-xs text-gray-500">{formatDate(movement.created_at)}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className={`font-semibold ${movement.quantity > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                        </p>
+                        <p className="text-xs text-gray-500">Stock after: {movement.stock_after}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <DialogFooter className="flex flex-col space-y-2 sm:flex-row sm:space-y-0 sm:space-x-2">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            <X className="w-4 h-4 mr-2" />
+            Close
+          </Button>
+          {canAdjustStock && (
+            <Button onClick={handleSave} disabled={isSaving}>
+              <Check className="w-4 h-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Stock'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,396 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { Layers, Plus, Pencil, Trash2, RefreshCw } from 'lucide-react'
+import type { SubscriptionPlan } from '@/lib/supabase'
+import { PLAN_FEATURE_DEFINITIONS, PlanFeatures, parsePlanFeatures } from '@/lib/plan-features'
+import {
+  EMPTY_SUBSCRIPTION_PLAN,
+  SubscriptionPlanInput,
+  createSubscriptionPlan,
+  deleteSubscriptionPlan,
+  formatPlanDuration,
+  getAllSubscriptionPlans,
+  getMonthlyPrice,
+  getPlanFeatureList,
+  updateSubscriptionPlan
+} from '@/lib/subscription-plans'
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2
+  }).format(amount)
+}
+
+interface PlanForm extends Omit<SubscriptionPlanInput, 'features'> {
+  planFeatures: PlanFeatures
+  // Highlights, one per line
+  featuresText: string
+}
+
+const toForm = (plan: SubscriptionPlanInput | SubscriptionPlan): PlanForm => ({
+  name: plan.name,
+  description: plan.description || '',
+  price: Number(plan.price),
+  duration_months: plan.duration_months,
+  is_active: plan.is_active,
+  referral_reward_multiplier: plan.referral_reward_multiplier ?? 1,
+  sort_order: plan.sort_order ?? 0,
+  planFeatures: parsePlanFeatures(plan.features),
+  featuresText: getPlanFeatureList(plan).join('\n')
+})
+
+const fromForm = ({ featuresText, planFeatures, ...form }: PlanForm): SubscriptionPlanInput => ({
+  ...form,
+  features: {
+    ...planFeatures,
+    highlights: featuresText.split('\n').map(feature => feature.trim()).filter(Boolean)
+  }
+})
+
+// Badges for the features a plan leaves out or adds on top of the defaults
+const describePlanFeatures = (features: PlanFeatures): string[] => [
+  ...(!features.shopping ? ['No shopping'] : []),
+  ...(!features.referral_rewards ? ['No referral rewards'] : []),
+  ...(features.member_discount_percent > 0 ? [`${features.member_discount_percent}% member pricing`] : [])
+]
+
+export const SubscriptionPlanManager: React.FC = () => {
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [editingPlan, setEditingPlan] = useState<SubscriptionPlan | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [form, setForm] = useState<PlanForm>(toForm(EMPTY_SUBSCRIPTION_PLAN))
+  const [isSaving, setIsSaving] = useState(false)
+  const [planToDelete, setPlanToDelete] = useState<SubscriptionPlan | null>(null)
+
+  const loadPlans = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setPlans(await getAllSubscriptionPlans())
+    } catch (error) {
+      console.error('Error loading subscription plans:', error)
+      toast.error(`Failed to load plans: ${(error as Error).message}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPlans()
+  }, [loadPlans])
+
+  const openCreate = () => {
+    setEditingPlan(null)
+    setForm(toForm({ ...EMPTY_SUBSCRIPTION_PLAN, sort_order: plans.length }))
+    setIsDialogOpen(true)
+  }
+
+  const openEdit = (plan: SubscriptionPlan) => {
+    setEditingPlan(plan)
+    setForm(toForm(plan))
+    setIsDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true)
+      const input = fromForm(form)
+
+      if (editingPlan) {
+        await updateSubscriptionPlan(editingPlan.id, input)
+        toast.success(`Plan "${input.name}" updated`)
+      } else {
+        await createSubscriptionPlan(input)
+        toast.success(`Plan "${input.name}" created`)
+      }
+
+      setIsDialogOpen(false)
+      await loadPlans()
+    } catch (error) {
+      console.error('Error saving subscription plan:', error)
+      toast.error(`Failed to save plan: ${(error as Error).message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (plan: SubscriptionPlan) => {
+    try {
+      await updateSubscriptionPlan(plan.id, { is_active: !plan.is_active })
+      toast.success(`Plan "${plan.name}" ${plan.is_active ? 'hidden from' : 'offered to'} customers`)
+      await loadPlans()
+    } catch (error) {
+      console.error('Error updating subscription plan:', error)
+      toast.error(`Failed to update plan: ${(error as Error).message}`)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!planToDelete) return
+
+    try {
+      setIsSaving(true)
+      const result = await deleteSubscriptionPlan(planToDelete.id)
+      toast.success(result === 'deleted'
+        ? `Plan "${planToDelete.name}" deleted`
+        : `Plan "${planToDelete.name}" has been purchased before, so it was deactivated instead`)
+      setPlanToDelete(null)
+      await loadPlans()
+    } catch (error) {
+      console.error('Error deleting subscription plan:', error)
+      toast.error(`Failed to delete plan: ${(error as Error).message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const activePlanCount = plans.filter(plan => plan.is_active).length
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col space-y-3 md:flex-row md:items-center md:justify-between md:space-y-0">
+          <div>
+            <CardTitle className="flex items-center text-base md:text-lg">
+              <Layers className="w-4 h-4 md:w-5 md:h-5 mr-2 text-purple-600" />
+              Subscription Plans ({activePlanCount} active)
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Plans customers can choose from on the subscription page
+            </CardDescription>
+          </div>
+          <div className="flex space-x-2">
+            <Button size="sm" variant="outline" onClick={loadPlans} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Plan
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {plans.length === 0 ? (
+          <div className="text-center py-8">
+            <Layers className="w-8 h-8 md:w-12 md:h-12 text-slate-400 mx-auto mb-4" />
+            <p className="text-slate-500 text-sm md:text-base">
+              {isLoading ? 'Loading plans...' : 'No subscription plans yet'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {plans.map((plan) => (
+              <div
+                key={plan.id}
+                className={`flex flex-col space-y-3 md:flex-row md:items-center md:justify-between md:space-y-0 p-3 md:p-4 border rounded-lg ${
+                  plan.is_active ? '' : 'bg-slate-50 opacity-75'
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-semibold text-slate-900 text-sm md:text-base">{plan.name}</p>
+                    {!plan.is_active && <Badge variant="secondary" className="text-xs">Inactive</Badge>}
+                    {plan.referral_reward_multiplier !== 1 && (
+                      <Badge variant="outline" className="text-xs">
+                        Referral ×{plan.referral_reward_multiplier}
+                      </Badge>
+                    )}
+                    {describePlanFeatures(parsePlanFeatures(plan.features)).map((label) => (
+                      <Badge key={label} variant="outline" className="text-xs">{label}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-sm text-slate-600">
+                    {formatCurrency(plan.price)} {formatPlanDuration(plan.duration_months)}
+                    {plan.duration_months > 1 && (
+                      <span className="text-slate-400"> • {formatCurrency(getMonthlyPrice(plan))}/month</span>
+                    )}
+                  </p>
+                  {getPlanFeatureList(plan).length > 0 && (
+                    <p className="text-xs text-slate-500 truncate">{getPlanFeatureList(plan).join(' • ')}</p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    checked={plan.is_active}
+                    onCheckedChange={() => handleToggleActive(plan)}
+                    aria-label={plan.is_active ? 'Deactivate plan' : 'Activate plan'}
+                  />
+                  <Button size="sm" variant="outline" onClick={() => openEdit(plan)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-red-200 text-red-600 hover:bg-red-50"
+                    onClick={() => setPlanToDelete(plan)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Create / edit plan */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-[95vw] md:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-base md:text-lg">{editingPlan ? 'Edit Plan' : 'New Plan'}</DialogTitle>
+            <DialogDescription className="text-sm">
+              Price changes apply to new purchases; existing subscriptions keep their period.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label className="text-xs">Name</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Quarterly Plan" />
+            </div>
+            <div>
+              <Label className="text-xs">Description</Label>
+              <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-xs">Price (₹)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.price}
+                  onChange={(e) => setForm({ ...form, price: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Duration (months)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={form.duration_months}
+                  onChange={(e) => setForm({ ...form, duration_months: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Referral reward multiplier</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.05"
+                  value={form.referral_reward_multiplier}
+                  onChange={(e) => setForm({ ...form, referral_reward_multiplier: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Display order</Label>
+                <Input
+                  type="number"
+                  step="1"
+                  value={form.sort_order}
+                  onChange={(e) => setForm({ ...form, sort_order: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              Referral rewards for this plan are the configured level amounts × the multiplier (1 pays them unchanged).
+            </p>
+            <div className="space-y-2 p-3 border rounded-lg">
+              <Label className="text-xs font-semibold">Plan features</Label>
+              {PLAN_FEATURE_DEFINITIONS.map((definition) => (
+                <div key={definition.key} className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-medium">{definition.label}</p>
+                    <p className="text-xs text-slate-500">{definition.description}</p>
+                  </div>
+                  {definition.type === 'boolean' ? (
+                    <Switch
+                      checked={form.planFeatures[definition.key] as boolean}
+                      onCheckedChange={(checked) => setForm({
+                        ...form,
+                        planFeatures: { ...form.planFeatures, [definition.key]: checked }
+                      })}
+                    />
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="1"
+                        className="w-20"
+                        value={form.planFeatures[definition.key] as number}
+                        onChange={(e) => setForm({
+                          ...form,
+                          planFeatures: {
+                            ...form.planFeatures,
+                            [definition.key]: Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 100)
+                          }
+                        })}
+                      />
+                      <span className="text-sm text-slate-500">%</span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div>
+              <Label className="text-xs">Highlights (one per line)</Label>
+              <Textarea
+                rows={4}
+                value={form.featuresText}
+                onChange={(e) => setForm({ ...form, featuresText: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="plan-active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+              />
+              <Label htmlFor="plan-active" className="text-sm">Offer this plan to customers</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : editingPlan ? 'Save Changes' : 'Create Plan'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete plan */}
+      <Dialog open={!!planToDelete} onOpenChange={(open) => !open && setPlanToDelete(null)}>
+        <DialogContent className="max-w-[95vw] md:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-base md:text-lg">Delete Plan</DialogTitle>
+            <DialogDescription className="text-sm">
+              Delete "{planToDelete?.name}"? Plans that have already been purchased are deactivated instead, so
+              existing requests and subscriptions keep their history.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPlanToDelete(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? 'Deleting...' : 'Delete Plan'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
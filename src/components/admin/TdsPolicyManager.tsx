@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { toast } from 'sonner'
+import { Percent, Save } from 'lucide-react'
+import {
+  DEFAULT_TDS_POLICY,
+  loadTdsPolicy,
+  saveTdsPolicy,
+  type TdsPolicy
+} from '@/lib/tds'
+
+type RateField = 'rate_percent' | 'no_pan_rate_percent'
+
+const RATE_FIELDS: { field: RateField; label: string; hint: string }[] = [
+  { field: 'rate_percent', label: 'Rate with verified PAN (%)', hint: 'Section 194H is 2% from October 2024' },
+  { field: 'no_pan_rate_percent', label: 'Rate without PAN (%)', hint: 'Section 206AA sets 20% when no PAN is furnished' }
+]
+
+export const TdsPolicyManager: React.FC = () => {
+  const [policy, setPolicy] = useState<TdsPolicy>(DEFAULT_TDS_POLICY)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadTdsPolicy()
+      .then(setPolicy)
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      await saveTdsPolicy(policy)
+      toast.success('TDS settings saved')
+    } catch (error) {
+      console.error('Error saving TDS policy:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center text-sm text-slate-500">Loading TDS settings...</CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-base md:text-lg">
+          <Percent className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+          TDS on Withdrawals
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Worked out when a withdrawal is approved and withheld from the payout. Changes apply to requests approved afterwards.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div>
+            <Label htmlFor="tds-enabled" className="text-sm">Deduct TDS</Label>
+            <p className="text-xs text-slate-500">Switch off to pay withdrawals in full</p>
+          </div>
+          <Switch
+            id="tds-enabled"
+            checked={policy.enabled}
+            onCheckedChange={(checked) => setPolicy(prev => ({ ...prev, enabled: checked }))}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="tds-section" className="text-sm">Section</Label>
+            <Input
+              id="tds-section"
+              value={policy.section}
+              onChange={(e) => setPolicy(prev => ({ ...prev, section: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="tds-threshold" className="text-sm">Yearly threshold (₹)</Label>
+            <Input
+              id="tds-threshold"
+              type="number"
+              min="0"
+              step="1"
+              placeholder="No threshold"
+              value={policy.annual_threshold ?? ''}
+              onChange={(e) => setPolicy(prev => ({
+                ...prev,
+                annual_threshold: e.target.value === '' ? null : parseFloat(e.target.value)
+              }))}
+            />
+            <p className="text-xs text-slate-500">Nothing is deducted until a user's withdrawals in the financial year pass this</p>
+          </div>
+          {RATE_FIELDS.map(({ field, label, hint }) => (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`tds-${field}`} className="text-sm">{label}</Label>
+              <Input
+                id={`tds-${field}`}
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={policy[field]}
+                onChange={(e) => setPolicy(prev => ({ ...prev, [field]: parseFloat(e.target.value) || 0 }))}
+              />
+              <p className="text-xs text-slate-500">{hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={handleSave} disabled={saving} className="w-full md:w-auto">
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : 'Save TDS Settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
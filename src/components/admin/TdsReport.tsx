@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { toast } from 'sonner'
+import { FileSpreadsheet, Download, RefreshCw } from 'lucide-react'
+import {
+  downloadTdsReport,
+  getRecentFinancialYears,
+  getTdsReport,
+  summarizeTdsReport,
+  type TdsReportLine
+} from '@/lib/tds'
+
+const FINANCIAL_YEARS = getRecentFinancialYears()
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export const TdsReport: React.FC = () => {
+  const [financialYear, setFinancialYear] = useState(FINANCIAL_YEARS[0])
+  const [lines, setLines] = useState<TdsReportLine[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadReport = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setLines(await getTdsReport(financialYear))
+    } catch (error) {
+      console.error('Error loading TDS report:', error)
+      toast.error('Failed to load the TDS report')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [financialYear])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  const summaries = summarizeTdsReport(lines)
+  const totals = summaries.reduce(
+    (sum, row) => ({
+      gross: sum.gross + row.gross_amount,
+      tds: sum.tds + row.tds_amount,
+      net: sum.net + row.net_amount
+    }),
+    { gross: 0, tds: 0, net: 0 }
+  )
+  const missingPan = summaries.filter(row => !row.pan && row.tds_amount > 0).length
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center text-base md:text-lg">
+              <FileSpreadsheet className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+              TDS Report
+            </CardTitle>
+            <CardDescription className="text-sm">Paid withdrawals and tax withheld, by financial year</CardDescription>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={financialYear} onValueChange={setFinancialYear}>
+              <SelectTrigger className="w-full sm:w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FINANCIAL_YEARS.map(year => (
+                  <SelectItem key={year} value={year}>FY {year}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={loadReport} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {[
+            { label: 'Gross paid', value: totals.gross },
+            { label: 'TDS withheld', value: totals.tds },
+            { label: 'Net paid', value: totals.net }
+          ].map(item => (
+            <div key={item.label} className="rounded-lg border p-3">
+              <p className="text-xs text-slate-500">{item.label}</p>
+              <p className="text-lg font-semibold">{formatCurrency(item.value)}</p>
+            </div>
+          ))}
+        </div>
+
+        {missingPan > 0 && (
+          <p className="text-xs text-orange-600">
+            {missingPan} {missingPan === 1 ? 'user has' : 'users have'} TDS deducted without a verified PAN
+          </p>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => downloadTdsReport(financialYear, lines, 'summary')}
+            disabled={lines.length === 0}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export per-user summary
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => downloadTdsReport(financialYear, lines, 'deductions')}
+            disabled={lines.length === 0}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export deductions
+          </Button>
+        </div>
+
+        {summaries.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-4">
+            No withdrawals were paid in FY {financialYear}
+          </p>
+        ) : (
+          <div className="overflow-x-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>PAN</TableHead>
+                  <TableHead className="text-right">Gross</TableHead>
+                  <TableHead className="text-right">TDS</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaries.map(row => (
+                  <TableRow key={row.user_id}>
+                    <TableCell className="text-sm">
+                      <p>{row.full_name}</p>
+                      <p className="text-xs text-slate-500">{row.withdrawals} {row.withdrawals === 1 ? 'withdrawal' : 'withdrawals'}</p>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{row.pan || '-'}</TableCell>
+                    <TableCell className="text-sm text-right">{formatCurrency(row.gross_amount)}</TableCell>
+                    <TableCell className="text-sm text-right font-medium">{formatCurrency(row.tds_amount)}</TableCell>
+                    <TableCell className="text-sm text-right">{formatCurrency(row.net_amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+import QRCode from 'qrcode'
+import { Copy, Download } from 'lucide-react'
+
+// Shared by the sign-in enrolment step and the settings card
+
+interface AuthenticatorQrCodeProps {
+  secret: string
+  otpauthUrl: string
+}
+
+// The QR code to scan, with the secret for apps that take it typed in
+export const AuthenticatorQrCode: React.FC<AuthenticatorQrCodeProps> = ({ secret, otpauthUrl }) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    QRCode.toDataURL(otpauthUrl, { width: 200, margin: 1 })
+      .then((url) => {
+        if (!cancelled) setDataUrl(url)
+      })
+      .catch((error) => console.error('Error drawing QR code:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [otpauthUrl])
+
+  return (
+    <div className="flex flex-col items-center space-y-3">
+      {dataUrl ? (
+        <img src={dataUrl} alt="QR code for your authenticator app" className="w-48 h-48 border rounded-lg" />
+      ) : (
+        <div className="w-48 h-48 border rounded-lg bg-slate-50" />
+      )}
+      <div className="text-center">
+        <p className="text-xs text-slate-500">Or enter this key in the app</p>
+        <code className="text-sm font-mono break-all select-all">{secret.match(/.{1,4}/g)?.join(' ')}</code>
+      </div>
+    </div>
+  )
+}
+
+interface BackupCodeListProps {
+  codes: string[]
+}
+
+// Backup codes are only ever shown here, once
+export const BackupCodeList: React.FC<BackupCodeListProps> = ({ codes }) => {
+  const text = codes.join('\n')
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast.success('Backup codes copied')
+    } catch {
+      toast.error('Could not copy; write the codes down instead')
+    }
+  }
+
+  const handleDownload = () => {
+    const blob = new Blob([`${text}\n`], { type: 'text/plain;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'admin-backup-codes.txt'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-600">
+        Each code signs you in once if you lose your authenticator app. Keep them somewhere safe; they will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-3 bg-slate-50 border rounded-lg">
+        {codes.map((code) => (
+          <code key={code} className="font-mono text-sm text-center">{code}</code>
+        ))}
+      </div>
+      <div className="flex space-x-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { Scale, RefreshCw, CheckCircle, AlertTriangle } from 'lucide-react'
+import {
+  WalletDrift,
+  getWalletDrift,
+  adjustWalletBalance,
+  syncWalletCounters
+} from '@/lib/wallet'
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+const DRIFT_FIELDS: { label: string; counter: keyof WalletDrift; ledger: keyof WalletDrift }[] = [
+  { label: 'Total earnings', counter: 'counter_total_earnings', ledger: 'ledger_total_earnings' },
+  { label: 'Available', counter: 'counter_available_balance', ledger: 'ledger_available_balance' },
+  { label: 'Withdrawn', counter: 'counter_withdrawn_amount', ledger: 'ledger_withdrawn_amount' }
+]
+
+export const WalletDriftReport: React.FC = () => {
+  const [rows, setRows] = useState<WalletDrift[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [busyProfileId, setBusyProfileId] = useState<string | null>(null)
+  const [adjusting, setAdjusting] = useState<WalletDrift | null>(null)
+  const [adjustAmount, setAdjustAmount] = useState('')
+  const [adjustReason, setAdjustReason] = useState('')
+
+  const loadDrift = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setRows(await getWalletDrift())
+    } catch (error) {
+      console.error('Error loading wallet drift:', error)
+      toast.error('Failed to load the wallet drift report')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadDrift()
+  }, [loadDrift])
+
+  const handleSync = async (row: WalletDrift) => {
+    try {
+      setBusyProfileId(row.profile_id)
+      await syncWalletCounters(row.profile_id)
+      toast.success(`Counters for ${row.full_name || row.email || 'user'} reset to the ledger`)
+      setRows(prev => prev.filter(item => item.profile_id !== row.profile_id))
+    } catch (error) {
+      console.error('Error syncing wallet counters:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setBusyProfileId(null)
+    }
+  }
+
+  const openAdjust = (row: WalletDrift) => {
+    // Default to the amount that brings the ledger up to the counter
+    const difference = Math.round((row.counter_available_balance - row.ledger_available_balance) * 100) / 100
+    setAdjusting(row)
+    setAdjustAmount(difference ? String(difference) : '')
+    setAdjustReason('')
+  }
+
+  const handleAdjust = async () => {
+    if (!adjusting) return
+
+    try {
+      setBusyProfileId(adjusting.profile_id)
+      await adjustWalletBalance(adjusting.profile_id, parseFloat(adjustAmount), adjustReason)
+      toast.success('Adjustment posted to the ledger')
+      setAdjusting(null)
+      loadDrift()
+    } catch (error) {
+      console.error('Error posting wallet adjustment:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setBusyProfileId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col space-y-4 md:flex-row md:justify-between md:items-center md:space-y-0">
+          <div>
+            <CardTitle className="flex items-center text-base md:text-lg">
+              <Scale className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+              Wallet Drift
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Profiles whose balance counters disagree with the wallet ledger
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadDrift} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">
+            <CheckCircle className="w-10 h-10 mx-auto mb-3 text-green-500" />
+            <p className="text-sm">{isLoading ? 'Checking balances...' : 'Every balance matches the ledger'}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rows.map(row => (
+              <div key={row.profile_id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  <div>
+                    <p className="font-medium flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4 text-orange-500" />
+                      {row.full_name || 'Unnamed user'}
+                    </p>
+                    <p className="text-xs text-slate-500">{row.email || row.user_id}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busyProfileId === row.profile_id}
+                      onClick={() => openAdjust(row)}
+                    >
+                      Post adjustment
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={busyProfileId === row.profile_id}
+                      onClick={() => handleSync(row)}
+                    >
+                      Reset to ledger
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+                  {DRIFT_FIELDS.map(field => {
+                    const counter = row[field.counter] as number
+                    const ledger = row[field.ledger] as number
+                    const drifted = counter !== ledger
+                    return (
+                      <div key={field.label} className={`rounded border p-2 ${drifted ? 'border-orange-300 bg-orange-50' : ''}`}>
+                        <p className="text-xs text-slate-500">{field.label}</p>
+                        <p>Counter: <span className="font-medium">{formatCurrency(counter)}</span></p>
+                        <p>Ledger: <span className="font-medium">{formatCurrency(ledger)}</span></p>
+                        {drifted && (
+                          <Badge variant="outline" className="mt-1 border-orange-300 text-orange-700">
+                            {counter > ledger ? '+' : ''}{formatCurrency(counter - ledger)}
+                          </Badge>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+                {row.ledger_held_amount > 0 && (
+                  <p className="text-xs text-slate-500">
+                    {formatCurrency(row.ledger_held_amount)} held for pending withdrawals
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!adjusting} onOpenChange={(open) => !open && setAdjusting(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Post Wallet Adjustment</DialogTitle>
+            <DialogDescription>
+              Credits (positive) or debits (negative) {adjusting?.full_name || 'the user'}'s available balance
+              through the ledger. The entry is shown on their statement.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="wallet-adjust-amount">Amount (₹)</Label>
+              <Input
+                id="wallet-adjust-amount"
+                type="number"
+                step="0.01"
+                value={adjustAmount}
+                onChange={(e) => setAdjustAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wallet-adjust-reason">Reason</Label>
+              <Textarea
+                id="wallet-adjust-reason"
+                value={adjustReason}
+                onChange={(e) => setAdjustReason(e.target.value)}
+                placeholder="Shown to the user on their statement"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAdjusting(null)}>Cancel</Button>
+            <Button onClick={handleAdjust} disabled={!adjustAmount || !adjustReason.trim() || !!busyProfileId}>
+              Post adjustment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { toast } from 'sonner'
+import { ShieldCheck, Save } from 'lucide-react'
+import {
+  DEFAULT_WITHDRAWAL_POLICY,
+  loadWithdrawalPolicy,
+  saveWithdrawalPolicy,
+  type WithdrawalPolicy
+} from '@/lib/withdrawal-policy'
+
+type LimitField = 'daily_limit' | 'monthly_limit' | 'kyc_threshold'
+
+const LIMIT_FIELDS: { field: LimitField; label: string; hint: string }[] = [
+  { field: 'daily_limit', label: 'Daily limit (₹)', hint: 'Total a user can request per day (IST)' },
+  { field: 'monthly_limit', label: 'Monthly limit (₹)', hint: 'Total a user can request per calendar month' },
+  { field: 'kyc_threshold', label: 'KYC threshold (₹)', hint: 'Requests above this need verified KYC' }
+]
+
+export const WithdrawalPolicyManager: React.FC = () => {
+  const [policy, setPolicy] = useState<WithdrawalPolicy>(DEFAULT_WITHDRAWAL_POLICY)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadWithdrawalPolicy()
+      .then(setPolicy)
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      await saveWithdrawalPolicy(policy)
+      toast.success('Withdrawal policy saved')
+    } catch (error) {
+      console.error('Error saving withdrawal policy:', error)
+      toast.error((error as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center text-sm text-slate-500">Loading withdrawal policy...</CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-base md:text-lg">
+          <ShieldCheck className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+          Withdrawal Policy
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Checked by the database on every new withdrawal request. Leave a limit empty to switch it off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="policy-min-amount" className="text-sm">Minimum withdrawal (₹)</Label>
+            <Input
+              id="policy-min-amount"
+              type="number"
+              min="1"
+              step="0.01"
+              value={policy.min_amount}
+              onChange={(e) => setPolicy(prev => ({ ...prev, min_amount: parseFloat(e.target.value) || 0 }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="policy-cooling-hours" className="text-sm">Wait after adding a payout account (hours)</Label>
+            <Input
+              id="policy-cooling-hours"
+              type="number"
+              min="0"
+              step="1"
+              value={policy.upi_change_cooling_hours}
+              onChange={(e) => setPolicy(prev => ({ ...prev, upi_change_cooling_hours: parseInt(e.target.value) || 0 }))}
+            />
+          </div>
+          {LIMIT_FIELDS.map(({ field, label, hint }) => (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`policy-${field}`} className="text-sm">{label}</Label>
+              <Input
+                id={`policy-${field}`}
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="No limit"
+                value={policy[field] ?? ''}
+                onChange={(e) => setPolicy(prev => ({
+                  ...prev,
+                  [field]: e.target.value === '' ? null : parseFloat(e.target.value)
+                }))}
+              />
+              <p className="text-xs text-slate-500">{hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div>
+            <Label htmlFor="policy-one-pending" className="text-sm">One request at a time</Label>
+            <p className="text-xs text-slate-500">Block new requests while one is pending or approved but unpaid</p>
+          </div>
+          <Switch
+            id="policy-one-pending"
+            checked={policy.one_pending_request}
+            onCheckedChange={(checked) => setPolicy(prev => ({ ...prev, one_pending_request: checked }))}
+          />
+        </div>
+
+        <Button onClick={handleSave} disabled={saving} className="w-full md:w-auto">
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Policy'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
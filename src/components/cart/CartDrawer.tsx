@@ -29,7 +29,7 @@ interface CartDrawerProps {
 
 export const CartDrawer: React.FC<CartDrawerProps> = ({ children }) => {
   const [open, setOpen] = useState(false);
-  const { items, totalItems, totalAmount, clearCart, loading } = useCart();
+  const { items, totalItems, subtotalAmount, memberSavings, totalAmount, clearCart, loading } = useCart();
   const { user } = useAuth();
 
   const formatPrice = (price: number) => {
@@ -145,8 +145,14 @@ export const CartDrawer: React.FC<CartDrawerProps> = ({ children }) => {
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span>Subtotal</span>
-                  <span className="font-medium">{formatPrice(totalAmount)}</span>
+                  <span className="font-medium">{formatPrice(subtotalAmount)}</span>
                 </div>
+                {memberSavings > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span>Member discount</span>
+                    <span className="font-medium text-green-600">-{formatPrice(memberSavings)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span>Shipping</span>
                   <span className="font-medium text-green-600">Free</span>
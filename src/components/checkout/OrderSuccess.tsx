@@ -9,13 +9,16 @@ interface OrderSuccessProps {
   amount: number;
   customerName: string;
   estimatedDelivery?: string;
+  // Gateway payments are confirmed immediately; manual UPI waits for an admin
+  paymentConfirmed?: boolean;
 }
 
 export default function OrderSuccess({
   orderReference,
   amount,
   customerName,
-  estimatedDelivery = "3-5 business days"
+  estimatedDelivery = "3-5 business days",
+  paymentConfirmed = false
 }: OrderSuccessProps) {
   const formatAmount = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
@@ -40,7 +43,9 @@ export default function OrderSuccess({
               Order Placed Successfully! 🎉
             </h1>
             <p className="text-green-700">
-              Thank you {customerName}! Your order has been placed and payment notification sent.
+              {paymentConfirmed
+                ? `Thank you ${customerName}! Your order has been placed and your payment was received.`
+                : `Thank you ${customerName}! Your order has been placed and payment notification sent.`}
             </p>
           </div>
 
@@ -58,10 +63,17 @@ export default function OrderSuccess({
             </div>
             
             <div className="flex items-center justify-center gap-2">
-              <Badge variant="outline" className="text-yellow-700 border-yellow-300 bg-yellow-50">
-                <Clock className="h-3 w-3 mr-1" />
-                Payment Verification Pending
-              </Badge>
+              {paymentConfirmed ? (
+                <Badge variant="outline" className="text-green-700 border-green-300 bg-green-50">
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Payment Confirmed
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="text-yellow-700 border-yellow-300 bg-yellow-50">
+                  <Clock className="h-3 w-3 mr-1" />
+                  Payment Verification Pending
+                </Badge>
+              )}
             </div>
           </div>
 
@@ -75,8 +87,12 @@ export default function OrderSuccess({
                   <span className="text-xs font-semibold text-blue-600">1</span>
                 </div>
                 <div className="text-left">
-                  <p className="font-medium">Payment Verification</p>
-                  <p className="text-muted-foreground">Our admin will verify your UPI payment within 24 hours</p>
+                  <p className="font-medium">{paymentConfirmed ? 'Payment Confirmed' : 'Payment Verification'}</p>
+                  <p className="text-muted-foreground">
+                    {paymentConfirmed
+                      ? 'Your payment has been confirmed by our payment partner'
+                      : 'Our admin will verify your UPI payment within 24 hours'}
+                  </p>
                 </div>
               </div>
 
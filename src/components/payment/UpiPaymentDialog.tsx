@@ -14,6 +14,7 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { toast } from "sonner";
+import { buildUpiPaymentUrl } from "@/lib/payment-intents";
 
 interface UpiPaymentDialogProps {
   open: boolean;
@@ -21,6 +22,7 @@ interface UpiPaymentDialogProps {
   upiId: string;
   amount: number;
   orderReference: string;
+  expiresAt?: string;
   merchantName?: string;
   onPaymentNotification: () => void;
 }
@@ -31,6 +33,7 @@ export default function UpiPaymentDialog({
   upiId,
   amount,
   orderReference,
+  expiresAt,
   merchantName = "MATRATV CARE",
   onPaymentNotification
 }: UpiPaymentDialogProps) {
@@ -90,7 +93,7 @@ export default function UpiPaymentDialog({
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
       currency: 'INR',
-      maximumFractionDigits: 0
+      maximumFractionDigits: 2
     }).format(amount);
   };
 
@@ -103,15 +106,15 @@ export default function UpiPaymentDialog({
         return '';
       }
 
-      const params = new URLSearchParams({
-        pa: upiId.trim(), // payee address
-        pn: merchantName.trim(), // payee name
-        am: amount.toFixed(2), // amount with 2 decimal places
-        cu: 'INR', // currency
-        tn: `Order ${orderReference} - MATRATV CARE` // transaction note
+      // The reference is sent as both note and transaction ref so it shows up
+      // in the payer's app and, for most banks, in our statement narration
+      const url = buildUpiPaymentUrl({
+        upiId,
+        merchantName,
+        amount,
+        reference: orderReference,
+        note: `- ${merchantName.trim()}`
       });
-      
-      const url = `upi://pay?${params.toString()}`;
       console.log('Generated UPI URL:', url);
       return url;
     } catch (error) {
@@ -241,7 +244,11 @@ export default function UpiPaymentDialog({
                       {formatAmount(amount)}
                     </div>
                     <div className="text-sm text-muted-foreground">
-                      Order #{orderReference}
+                      Payment ref: <span className="font-mono">{orderReference}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Please pay the exact amount shown
+                      {expiresAt && ` before ${new Date(expiresAt).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`}
                     </div>
                   </CardContent>
                 </Card>
@@ -333,6 +340,7 @@ export default function UpiPaymentDialog({
 
                   <div className="text-xs text-center text-muted-foreground space-y-1">
                     <p>• Copy the UPI ID and paste in your UPI app</p>
+                    <p>• If paying manually, add the payment ref as the note</p>
                     <p>• Or scan the QR code with your UPI app</p>
                     <p>• After payment, click "I have completed the payment"</p>
                   </div>
@@ -357,7 +365,7 @@ export default function UpiPaymentDialog({
                       {formatAmount(amount)}
                     </div>
                     <div className="text-sm text-muted-foreground">
-                      Order #{orderReference}
+                      Payment ref: <span className="font-mono">{orderReference}</span>
                     </div>
                     <div className="text-xs text-muted-foreground">
                       UPI ID: {upiId}
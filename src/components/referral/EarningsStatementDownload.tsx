@@ -0,0 +1,65 @@
+import React, { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Download, FileText, Loader2 } from 'lucide-react'
+import { useAuth } from '@/context/NewAuthContext'
+import { downloadEarningsStatementPdf, getEarningsStatement } from '@/lib/earnings-statement'
+import { getRecentFinancialYears } from '@/lib/tds'
+import { toast } from '@/hooks/use-toast'
+
+const FINANCIAL_YEARS = getRecentFinancialYears()
+
+export const EarningsStatementDownload: React.FC = () => {
+  const { user } = useAuth()
+  const [financialYear, setFinancialYear] = useState(FINANCIAL_YEARS[0])
+  const [downloading, setDownloading] = useState(false)
+
+  const handleDownload = async () => {
+    if (!user?.id) return
+
+    try {
+      setDownloading(true)
+      const statement = await getEarningsStatement(user.id, financialYear)
+      await downloadEarningsStatementPdf(statement)
+    } catch (error) {
+      console.error('Error downloading earnings statement:', error)
+      toast({
+        description: 'Failed to download your earnings statement',
+        variant: 'destructive'
+      })
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+          <FileText className="h-5 w-5" />
+          Annual Earnings Statement
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Commissions, withdrawals and TDS deducted for a financial year (April to March), for your tax return
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col sm:flex-row gap-3">
+        <Select value={financialYear} onValueChange={setFinancialYear}>
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FINANCIAL_YEARS.map(year => (
+              <SelectItem key={year} value={year}>FY {year}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleDownload} disabled={downloading} className="w-full sm:w-auto">
+          {downloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          {downloading ? 'Preparing...' : 'Download PDF'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
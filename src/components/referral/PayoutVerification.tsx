@@ -0,0 +1,366 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Landmark, Loader2, ShieldCheck, Trash2, Upload } from 'lucide-react'
+import { useAuth } from '@/context/NewAuthContext'
+import {
+  KYC_DOCUMENT_LABELS,
+  KYC_STATUS_LABELS,
+  addPayoutAccount,
+  describePayoutAccount,
+  getKycDocuments,
+  getKycStatus,
+  getPayoutAccounts,
+  isValidAccountNumber,
+  isValidIfsc,
+  isValidVpa,
+  removePayoutAccount,
+  uploadKycDocument,
+  validateDocumentFile,
+  type KycDocument,
+  type KycDocumentType,
+  type PayoutAccount,
+  type PayoutAccountType,
+  type VerificationStatus
+} from '@/lib/kyc'
+import type { KycStatus } from '@/lib/withdrawal-policy'
+import { toast } from '@/hooks/use-toast'
+
+const getVerificationBadge = (status: VerificationStatus | KycStatus) => {
+  const className = {
+    not_submitted: 'bg-gray-100 text-gray-800',
+    pending: 'bg-yellow-100 text-yellow-800',
+    verified: 'bg-green-100 text-green-800',
+    rejected: 'bg-red-100 text-red-800'
+  }[status]
+
+  return <Badge variant="secondary" className={className}>{KYC_STATUS_LABELS[status]}</Badge>
+}
+
+const EMPTY_ACCOUNT_FORM = { type: 'upi' as PayoutAccountType, upiId: '', holderName: '', accountNumber: '', ifsc: '' }
+
+export const PayoutVerification: React.FC = () => {
+  const { user } = useAuth()
+  const [kycStatus, setKycStatus] = useState<KycStatus>('not_submitted')
+  const [documents, setDocuments] = useState<KycDocument[]>([])
+  const [accounts, setAccounts] = useState<PayoutAccount[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const [documentType, setDocumentType] = useState<KycDocumentType>('pan')
+  const [documentNumber, setDocumentNumber] = useState('')
+  const [documentFile, setDocumentFile] = useState<File | null>(null)
+  const [uploading, setUploading] = useState(false)
+
+  const [accountForm, setAccountForm] = useState(EMPTY_ACCOUNT_FORM)
+  const [savingAccount, setSavingAccount] = useState(false)
+
+  const loadVerification = useCallback(async () => {
+    if (!user?.id) return
+
+    try {
+      setLoading(true)
+      const [status, documentList, accountList] = await Promise.all([
+        getKycStatus(user.id),
+        getKycDocuments(user.id),
+        getPayoutAccounts(user.id)
+      ])
+      setKycStatus(status)
+      setDocuments(documentList)
+      setAccounts(accountList)
+    } catch (error) {
+      console.error('Error loading KYC details:', error)
+      toast({
+        description: 'Failed to load your KYC details',
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    loadVerification()
+  }, [loadVerification])
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null
+    const fileError = file ? validateDocumentFile(file) : null
+    if (fileError) {
+      toast({ description: fileError, variant: 'destructive' })
+      e.target.value = ''
+      setDocumentFile(null)
+      return
+    }
+    setDocumentFile(file)
+  }
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user?.id || !documentFile) return
+
+    try {
+      setUploading(true)
+      await uploadKycDocument(user.id, documentType, documentNumber, documentFile)
+      toast({ description: 'Document submitted. We will review it shortly.' })
+      setDocumentNumber('')
+      setDocumentFile(null)
+      loadVerification()
+    } catch (error) {
+      console.error('Error uploading KYC document:', error)
+      toast({ description: (error as Error).message, variant: 'destructive' })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const accountFormValid = accountForm.type === 'upi'
+    ? isValidVpa(accountForm.upiId)
+    : !!accountForm.holderName.trim() && isValidAccountNumber(accountForm.accountNumber) && isValidIfsc(accountForm.ifsc)
+
+  const handleAddAccount = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSavingAccount(true)
+      await addPayoutAccount(accountForm.type === 'upi'
+        ? { type: 'upi', upiId: accountForm.upiId, holderName: accountForm.holderName }
+        : { type: 'bank', holderName: accountForm.holderName, accountNumber: accountForm.accountNumber, ifsc: accountForm.ifsc })
+      toast({ description: 'Payout account added. It can receive withdrawals once we verify it.' })
+      setAccountForm(EMPTY_ACCOUNT_FORM)
+      loadVerification()
+    } catch (error) {
+      console.error('Error adding payout account:', error)
+      toast({ description: (error as Error).message, variant: 'destructive' })
+    } finally {
+      setSavingAccount(false)
+    }
+  }
+
+  const handleRemoveAccount = async (account: PayoutAccount) => {
+    try {
+      await removePayoutAccount(account.id)
+      toast({ description: 'Payout account removed' })
+      loadVerification()
+    } catch (error) {
+      console.error('Error removing payout account:', error)
+      toast({ description: (error as Error).message, variant: 'destructive' })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-2 text-lg sm:text-xl">
+            <span className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              KYC
+            </span>
+            {getVerificationBadge(kycStatus)}
+          </CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Upload your PAN card to verify your identity. Larger withdrawals need verified KYC.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {documents.length > 0 && (
+            <div className="space-y-2">
+              {documents.map((document) => (
+                <div key={document.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">
+                      {KYC_DOCUMENT_LABELS[document.document_type]}{' '}
+                      <span className="font-mono text-xs text-muted-foreground">{document.document_number}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Submitted {new Date(document.created_at).toLocaleDateString()}
+                    </p>
+                    {document.status === 'rejected' && document.rejection_reason && (
+                      <p className="text-xs text-red-600">{document.rejection_reason}</p>
+                    )}
+                  </div>
+                  {getVerificationBadge(document.status)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {kycStatus !== 'verified' && (
+            <form onSubmit={handleUpload} className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="kyc-document-type" className="text-xs sm:text-sm">Document</Label>
+                <Select value={documentType} onValueChange={(value) => setDocumentType(value as KycDocumentType)}>
+                  <SelectTrigger id="kyc-document-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(KYC_DOCUMENT_LABELS) as KycDocumentType[]).map(type => (
+                      <SelectItem key={type} value={type}>{KYC_DOCUMENT_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="kyc-document-number" className="text-xs sm:text-sm">Document number</Label>
+                <Input
+                  id="kyc-document-number"
+                  value={documentNumber}
+                  onChange={(e) => setDocumentNumber(e.target.value.toUpperCase())}
+                  placeholder={documentType === 'pan' ? 'ABCDE1234F' : ''}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="kyc-document-file" className="text-xs sm:text-sm">File (image or PDF, up to 5MB)</Label>
+                <Input
+                  id="kyc-document-file"
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,application/pdf"
+                  onChange={handleFileChange}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={uploading || !documentFile || !documentNumber.trim()} className="sm:col-span-3 sm:w-auto sm:justify-self-start">
+                {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                {uploading ? 'Uploading...' : 'Submit for review'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+            <Landmark className="h-5 w-5" />
+            Payout Accounts
+          </CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Withdrawals are paid only to accounts we have verified.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {accounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payout accounts yet</p>
+          ) : (
+            <div className="space-y-2">
+              {accounts.map((account) => (
+                <div key={account.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                  <div className="space-y-1 min-w-0">
+                    <p className="text-sm font-medium break-all">
+                      {account.account_type === 'upi' ? 'UPI' : 'Bank'}: <span className="font-mono">{describePayoutAccount(account)}</span>
+                    </p>
+                    {account.account_holder_name && (
+                      <p className="text-xs text-muted-foreground">{account.account_holder_name}</p>
+                    )}
+                    {account.status === 'rejected' && account.rejection_reason && (
+                      <p className="text-xs text-red-600">{account.rejection_reason}</p>
+                    )}
+                    {account.status === 'verified' && account.cooling_ends_at && new Date(account.cooling_ends_at) > new Date() && (
+                      <p className="text-xs text-orange-600">
+                        Withdrawals open on {new Date(account.cooling_ends_at).toLocaleString('en-IN')}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {getVerificationBadge(account.status)}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveAccount(account)}
+                      aria-label="Remove payout account"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleAddAccount} className="space-y-3 rounded-lg border p-3">
+            <p className="text-sm font-medium">Add a payout account</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="payout-account-type" className="text-xs sm:text-sm">Type</Label>
+                <Select
+                  value={accountForm.type}
+                  onValueChange={(value) => setAccountForm(prev => ({ ...prev, type: value as PayoutAccountType }))}
+                >
+                  <SelectTrigger id="payout-account-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="upi">UPI ID</SelectItem>
+                    <SelectItem value="bank">Bank account</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="payout-holder-name" className="text-xs sm:text-sm">
+                  Account holder name{accountForm.type === 'bank' ? ' *' : ''}
+                </Label>
+                <Input
+                  id="payout-holder-name"
+                  value={accountForm.holderName}
+                  onChange={(e) => setAccountForm(prev => ({ ...prev, holderName: e.target.value }))}
+                  required={accountForm.type === 'bank'}
+                />
+              </div>
+              {accountForm.type === 'upi' ? (
+                <div className="space-y-1 sm:col-span-2">
+                  <Label htmlFor="payout-upi-id" className="text-xs sm:text-sm">UPI ID *</Label>
+                  <Input
+                    id="payout-upi-id"
+                    placeholder="yourname@paytm"
+                    value={accountForm.upiId}
+                    onChange={(e) => setAccountForm(prev => ({ ...prev, upiId: e.target.value }))}
+                    required
+                  />
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="payout-account-number" className="text-xs sm:text-sm">Account number *</Label>
+                    <Input
+                      id="payout-account-number"
+                      inputMode="numeric"
+                      value={accountForm.accountNumber}
+                      onChange={(e) => setAccountForm(prev => ({ ...prev, accountNumber: e.target.value.replace(/\D/g, '') }))}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="payout-ifsc" className="text-xs sm:text-sm">IFSC *</Label>
+                    <Input
+                      id="payout-ifsc"
+                      placeholder="SBIN0001234"
+                      value={accountForm.ifsc}
+                      onChange={(e) => setAccountForm(prev => ({ ...prev, ifsc: e.target.value.toUpperCase() }))}
+                      required
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+            <Button type="submit" disabled={savingAccount || !accountFormValid}>
+              {savingAccount ? 'Adding...' : 'Add account'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ChevronDown, ChevronRight, GitBranch, Loader2, Search, User, X } from 'lucide-react'
+import {
+  REFERRAL_TREE_MAX_DEPTH,
+  getReferralTreeChildren,
+  searchReferralTree,
+  type ReferralTreeMatch,
+  type ReferralTreeNode
+} from '@/lib/referral-tree'
+
+interface ReferralTreeExplorerProps {
+  // Admin mode: browse this member's downline instead of the signed-in user's
+  rootProfileId?: string
+  // Admin mode: show a button on each member to open their own tree
+  onOpenMember?: (node: ReferralTreeNode) => void
+}
+
+// Children of the member at the top of the tree are stored under this key
+const ROOT_KEY = 'root'
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2
+  }).format(amount)
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+export const ReferralTreeExplorer: React.FC<ReferralTreeExplorerProps> = ({ rootProfileId, onOpenMember }) => {
+  const [childrenByParent, setChildrenByParent] = useState<Record<string, ReferralTreeNode[]>>({})
+  const [loadingKeys, setLoadingKeys] = useState<Set<string>>(new Set())
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [query, setQuery] = useState('')
+  const [matches, setMatches] = useState<ReferralTreeMatch[] | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [highlightedId, setHighlightedId] = useState<string | null>(null)
+  // Mirrors childrenByParent so a chain of loads can see earlier results
+  const loadedRef = useRef<Record<string, ReferralTreeNode[]>>({})
+
+  const loadChildren = useCallback(async (parentId: string | null) => {
+    const key = parentId || ROOT_KEY
+    if (loadedRef.current[key]) return
+
+    try {
+      setLoadingKeys(prev => new Set(prev).add(key))
+      const nodes = await getReferralTreeChildren(parentId, rootProfileId)
+      loadedRef.current = { ...loadedRef.current, [key]: nodes }
+      setChildrenByParent(loadedRef.current)
+    } catch (error) {
+      setLoadError((error as Error).message || 'Failed to load your referral tree')
+    } finally {
+      setLoadingKeys(prev => {
+        const next = new Set(prev)
+        next.delete(key)
+        return next
+      })
+    }
+  }, [rootProfileId])
+
+  useEffect(() => {
+    loadedRef.current = {}
+    setChildrenByParent({})
+    setExpanded(new Set())
+    setMatches(null)
+    setQuery('')
+    setHighlightedId(null)
+    setLoadError(null)
+    loadChildren(null)
+  }, [loadChildren])
+
+  const toggleNode = (node: ReferralTreeNode) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(node.id)) {
+        next.delete(node.id)
+      } else {
+        next.add(node.id)
+      }
+      return next
+    })
+    loadChildren(node.id)
+  }
+
+  const handleSearch = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (query.trim().length < 2) {
+      setMatches(null)
+      return
+    }
+
+    try {
+      setSearching(true)
+      setLoadError(null)
+      setMatches(await searchReferralTree(query.trim(), rootProfileId))
+    } catch (error) {
+      setLoadError((error as Error).message || 'Search failed')
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  // Open every branch between the top of the tree and a search hit
+  const revealMatch = async (match: ReferralTreeMatch) => {
+    await loadChildren(null)
+    for (const ancestorId of match.path) {
+      await loadChildren(ancestorId)
+    }
+    setExpanded(prev => new Set([...prev, ...match.path]))
+    setHighlightedId(match.id)
+    setMatches(null)
+  }
+
+  const renderNode = (node: ReferralTreeNode) => {
+    const isOpen = expanded.has(node.id)
+    const canExpand = node.direct_referrals > 0 && node.level < REFERRAL_TREE_MAX_DEPTH
+    const isLoading = loadingKeys.has(node.id)
+    const nodeChildren = childrenByParent[node.id] || []
+
+    return (
+      <li key={node.id}>
+        <div
+          className={`flex flex-col sm:flex-row sm:items-center gap-2 rounded-md border p-2 sm:p-3 ${
+            highlightedId === node.id ? 'border-blue-400 bg-blue-50' : 'bg-background'
+          }`}
+        >
+          <div className="flex items-center gap-2 flex-1 min-w-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 flex-shrink-0"
+              onClick={() => toggleNode(node)}
+              disabled={!canExpand}
+              aria-label={isOpen ? 'Collapse' : 'Expand'}
+            >
+              {isLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : canExpand ? (
+                isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />
+              ) : (
+                <span className="h-1.5 w-1.5 rounded-full bg-muted-foreground/40" />
+              )}
+            </Button>
+            <div className="min-w-0">
+              <p className="font-medium text-sm truncate">{node.full_name || 'User'}</p>
+              <p className="text-xs text-muted-foreground">
+                {node.referral_code} · Joined {formatDate(node.joined_at)}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 pl-8 sm:pl-0">
+            <Badge variant="outline" className="text-xs">L{node.level}</Badge>
+            <Badge
+              variant={node.subscription_status === 'active' ? 'default' : 'secondary'}
+              className="text-xs"
+            >
+              {node.subscription_status === 'active' ? 'Active' : 'Inactive'}
+            </Badge>
+            <span className="text-xs text-muted-foreground">
+              {node.direct_referrals} {node.direct_referrals === 1 ? 'referral' : 'referrals'}
+            </span>
+            <span className="text-sm font-semibold text-green-600">{formatCurrency(node.earnings_generated)}</span>
+            {onOpenMember && (
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onOpenMember(node)}>
+                <GitBranch className="h-3 w-3 mr-1" />
+                Open
+              </Button>
+            )}
+          </div>
+        </div>
+        {isOpen && nodeChildren.length > 0 && (
+          <ul className="ml-3 sm:ml-5 mt-2 space-y-2 border-l pl-3 sm:pl-4">
+            {nodeChildren.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  const firstLevel = childrenByParent[ROOT_KEY] || []
+  const rootLoading = loadingKeys.has(ROOT_KEY)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+          <GitBranch className="h-5 w-5" />
+          Referral Tree
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          {rootProfileId ? 'This member\'s' : 'Your'} network down to level {REFERRAL_TREE_MAX_DEPTH}. Expand a member to see who they referred; earnings are the commissions their activity has paid {rootProfileId ? 'this member' : 'you'}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name or referral code"
+              className="pl-9"
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={searching || query.trim().length < 2}>
+            {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Search'}
+          </Button>
+        </form>
+
+        {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+
+        {matches && (
+          <div className="rounded-md border">
+            <div className="flex items-center justify-between px-3 py-2 border-b">
+              <p className="text-xs text-muted-foreground">
+                {matches.length === 0 ? 'No one in the network matches' : `${matches.length} ${matches.length === 1 ? 'match' : 'matches'}`}
+              </p>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setMatches(null)} aria-label="Clear search">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {matches.map(match => (
+              <button
+                key={match.id}
+                type="button"
+                onClick={() => revealMatch(match)}
+                className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left hover:bg-muted"
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <User className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                  <span className="text-sm truncate">{match.full_name || 'User'}</span>
+                  <span className="text-xs text-muted-foreground">{match.referral_code}</span>
+                </span>
+                <Badge variant="outline" className="text-xs">L{match.level}</Badge>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {rootLoading && firstLevel.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span className="ml-2 text-sm">Loading referral tree...</span>
+          </div>
+        ) : firstLevel.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-6">
+            {rootProfileId ? 'This member has not referred anyone yet' : 'No referrals yet'}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {firstLevel.map(renderNode)}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Loader2, RefreshCw, Wallet } from 'lucide-react'
+import { useAuth } from '@/context/NewAuthContext'
+import {
+  buildWalletStatement,
+  getWalletBalance,
+  getWalletTransactions,
+  EMPTY_WALLET_BALANCE,
+  WALLET_ENTRY_LABELS,
+  type WalletBalance,
+  type WalletStatementLine
+} from '@/lib/wallet'
+import { toast } from '@/hooks/use-toast'
+
+interface WalletStatementProps {
+  // Hide the balance tiles where the page already shows them
+  showSummary?: boolean
+}
+
+const formatPrice = (amount: number) => `₹${amount.toFixed(2)}`
+
+const getEntryBadgeClass = (line: WalletStatementLine) => {
+  if (line.entry_type === 'payout') return 'bg-blue-100 text-blue-800'
+  if (line.entry_type === 'tds_deduction') return 'bg-orange-100 text-orange-800'
+  if (line.available_change > 0) return 'bg-green-100 text-green-800'
+  if (line.available_change < 0) return 'bg-red-100 text-red-800'
+  return 'bg-gray-100 text-gray-800'
+}
+
+export const WalletStatement: React.FC<WalletStatementProps> = ({ showSummary = true }) => {
+  const { user } = useAuth()
+  const [lines, setLines] = useState<WalletStatementLine[]>([])
+  const [balance, setBalance] = useState<WalletBalance>(EMPTY_WALLET_BALANCE)
+  const [loading, setLoading] = useState(true)
+
+  const loadStatement = useCallback(async () => {
+    if (!user?.id) return
+
+    try {
+      setLoading(true)
+      const [transactions, walletBalance] = await Promise.all([
+        getWalletTransactions(user.id),
+        getWalletBalance(user.id)
+      ])
+      // Newest first for display
+      setLines(buildWalletStatement(transactions).reverse())
+      setBalance(walletBalance)
+    } catch (error) {
+      console.error('Error loading wallet statement:', error)
+      toast({
+        description: 'Failed to load your wallet statement',
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    loadStatement()
+  }, [loadStatement])
+
+  const summary = [
+    { label: 'Total Earned', value: balance.total_earnings, className: '' },
+    { label: 'Locked', value: balance.locked_amount, className: 'text-gray-600' },
+    { label: 'Withdrawable', value: balance.available_balance, className: 'text-green-600' },
+    { label: 'Pending Withdrawal', value: balance.held_amount, className: 'text-orange-600' },
+    { label: 'Withdrawn', value: balance.withdrawn_amount, className: 'text-blue-600' }
+  ]
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-3">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+            <Wallet className="h-5 w-5" />
+            Wallet Statement
+          </CardTitle>
+          <CardDescription>Every credit, withdrawal and adjustment on your earnings</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadStatement} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {showSummary && (
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+            {summary.map(item => (
+              <div key={item.label} className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">{item.label}</p>
+                <p className={`text-lg font-semibold ${item.className}`}>{formatPrice(item.value)}</p>
+              </div>
+            ))}
+            {balance.locked_amount > 0 && (
+              <p className="col-span-2 lg:col-span-5 text-xs text-muted-foreground">
+                Locked earnings come from orders still inside their return window and unlock automatically.
+              </p>
+            )}
+            {balance.tds_withheld > 0 && (
+              <p className="col-span-2 lg:col-span-5 text-xs text-muted-foreground">
+                {formatPrice(balance.tds_withheld)} has been deducted from your payouts as TDS. Download a yearly earnings statement from the Earnings tab.
+              </p>
+            )}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : lines.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            No wallet activity yet. Earnings from your referrals will appear here.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs sm:text-sm">Date</TableHead>
+                  <TableHead className="text-xs sm:text-sm">Type</TableHead>
+                  <TableHead className="text-xs sm:text-sm min-w-[160px]">Details</TableHead>
+                  <TableHead className="text-xs sm:text-sm text-right">Amount</TableHead>
+                  <TableHead className="text-xs sm:text-sm text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map(line => (
+                  <TableRow key={line.id}>
+                    <TableCell className="text-xs sm:text-sm whitespace-nowrap">
+                      {new Date(line.created_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={`text-xs ${getEntryBadgeClass(line)}`}>
+                        {WALLET_ENTRY_LABELS[line.entry_type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs sm:text-sm text-muted-foreground">
+                      {line.description || '-'}
+                    </TableCell>
+                    <TableCell className={`text-xs sm:text-sm text-right font-medium ${
+                      line.available_change > 0 ? 'text-green-600' : line.available_change < 0 ? 'text-red-600' : ''
+                    }`}>
+                      {line.available_change > 0 ? '+' : line.available_change < 0 ? '-' : ''}
+                      {formatPrice(line.available_change === 0 ? line.amount : Math.abs(line.available_change))}
+                    </TableCell>
+                    <TableCell className="text-xs sm:text-sm text-right">
+                      {formatPrice(line.available_after)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
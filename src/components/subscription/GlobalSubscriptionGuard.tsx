@@ -1,13 +1,21 @@
 import React from 'react';
 import { useAuth } from '@/context/NewAuthContext';
 import { useLocation, Navigate } from 'react-router-dom';
+import type { BooleanPlanFeature } from '@/lib/plan-features';
+
+// Pages that need a plan feature on top of an active subscription
+const FEATURE_PATHS: Record<string, BooleanPlanFeature> = {
+  '/cart': 'shopping',
+  '/checkout': 'shopping',
+  '/rewards': 'referral_rewards'
+};
 
 interface GlobalSubscriptionGuardProps {
   children: React.ReactNode;
 }
 
 export const GlobalSubscriptionGuard: React.FC<GlobalSubscriptionGuardProps> = ({ children }) => {
-  const { user, hasActiveSubscription, subscriptionLoading, loading } = useAuth();
+  const { user, hasActiveSubscription, subscriptionLoading, loading, planFeatures } = useAuth();
   const location = useLocation();
 
   // Pages that don't require subscription
@@ -70,6 +78,14 @@ export const GlobalSubscriptionGuard: React.FC<GlobalSubscriptionGuardProps> = (
     return <Navigate to="/subscription" replace />;
   }
 
+  // If the user's plan doesn't include this page's feature, show the plans
+  const requiredFeature = Object.entries(FEATURE_PATHS)
+    .find(([path]) => location.pathname.startsWith(path))?.[1];
+
+  if (requiredFeature && planFeatures?.[requiredFeature] === false) {
+    return <Navigate to="/subscription" replace />;
+  }
+
   // User has active subscription, show protected content
   return <>{children}</>;
 };
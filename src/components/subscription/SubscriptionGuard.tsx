@@ -4,10 +4,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Crown, Lock, ArrowRight } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { PLAN_FEATURE_LABELS, type BooleanPlanFeature } from '@/lib/plan-features';
 
 interface SubscriptionGuardProps {
   children: React.ReactNode;
   feature?: string;
+  // Plan feature the content needs, beyond an active subscription
+  requires?: BooleanPlanFeature;
   showCard?: boolean;
   fallback?: React.ReactNode;
 }
@@ -15,10 +18,11 @@ interface SubscriptionGuardProps {
 export const SubscriptionGuard: React.FC<SubscriptionGuardProps> = ({
   children,
   feature = 'this feature',
+  requires,
   showCard = true,
   fallback
 }) => {
-  const { hasActiveSubscription, subscriptionLoading, user } = useAuth();
+  const { hasActiveSubscription, subscriptionLoading, user, planFeatures } = useAuth();
 
   // If user is not authenticated, don't show subscription guard
   if (!user) {
@@ -35,8 +39,10 @@ export const SubscriptionGuard: React.FC<SubscriptionGuardProps> = ({
     );
   }
 
-  // If user has active subscription, render children
-  if (hasActiveSubscription) {
+  const missingFromPlan = hasActiveSubscription && !!requires && planFeatures?.[requires] === false;
+
+  // If user has active subscription (with the required feature), render children
+  if (hasActiveSubscription && !missingFromPlan) {
     return <>{children}</>;
   }
 
@@ -45,6 +51,35 @@ export const SubscriptionGuard: React.FC<SubscriptionGuardProps> = ({
     return <>{fallback}</>;
   }
 
+  // Subscribed, but the plan does not include this feature
+  if (missingFromPlan) {
+    return (
+      <Card className="max-w-md mx-auto">
+        <CardHeader className="text-center">
+          <div className="w-16 h-16 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Crown className="w-8 h-8 text-purple-600" />
+          </div>
+          <CardTitle className="flex items-center justify-center gap-2">
+            <Lock className="w-5 h-5" />
+            Not Included in Your Plan
+          </CardTitle>
+          <CardDescription>
+            {PLAN_FEATURE_LABELS[requires]} is not part of your current plan, so you cannot access {feature}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-center">
+          <Button asChild className="w-full">
+            <Link to="/subscription">
+              <Crown className="w-4 h-4 mr-2" />
+              View Plans
+              <ArrowRight className="w-4 h-4 ml-2" />
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
   // Default subscription required card
   if (showCard) {
     return (
@@ -95,6 +130,7 @@ export const SubscriptionGuard: React.FC<SubscriptionGuardProps> = ({
 export const SubscriptionButton: React.FC<{
   children: React.ReactNode;
   feature?: string;
+  requires?: BooleanPlanFeature;
   className?: string;
   variant?: any;
   size?: any;
@@ -102,12 +138,13 @@ export const SubscriptionButton: React.FC<{
 }> = ({
   children,
   feature = 'this feature',
+  requires,
   className,
   variant,
   size,
   onClick
 }) => {
-  const { hasActiveSubscription, subscriptionLoading, user } = useAuth();
+  const { hasActiveSubscription, subscriptionLoading, user, planFeatures } = useAuth();
 
   // If user is not authenticated, show the normal button
   if (!user) {
@@ -132,6 +169,23 @@ export const SubscriptionButton: React.FC<{
     );
   }
 
+  if (hasActiveSubscription && requires && planFeatures?.[requires] === false) {
+    return (
+      <Button
+        asChild
+        className={className}
+        variant={variant}
+        size={size}
+        title={`${PLAN_FEATURE_LABELS[requires]} is not part of your plan`}
+      >
+        <Link to="/subscription">
+          <Lock className="w-4 h-4 mr-2" />
+          Upgrade Plan
+        </Link>
+      </Button>
+    );
+  }
+
   if (!hasActiveSubscription) {
     return (
       <Button
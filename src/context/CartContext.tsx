@@ -12,10 +12,15 @@ import {
 } from "@/lib/supabase";
 import { toast } from "@/components/ui/use-toast";
 import { errorManager } from "@/lib/error-manager";
+import { applyMemberDiscount } from "@/lib/plan-features";
 
 interface CartContextValue {
   items: CartItem[];
   totalItems: number;
+  // List-price total, before the member discount
+  subtotalAmount: number;
+  memberSavings: number;
+  // What the order will cost; place_order applies the same member pricing
   totalAmount: number;
   loading: boolean;
   error: string | null;
@@ -43,7 +48,8 @@ export const CartProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [operationInProgress, setOperationInProgress] = useState<string | null>(null);
-  const { user, hasActiveSubscription, subscriptionLoading } = useAuth();
+  const { user, hasActiveSubscription, subscriptionLoading, planFeatures } = useAuth();
+  const memberDiscountPercent = planFeatures?.member_discount_percent ?? 0;
   const navigate = useNavigate();
   const isAuthenticated = !!user;
 
@@ -374,14 +380,20 @@ export const CartProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
 
   const value = useMemo<CartContextValue>(() => {
     const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
-    const totalAmount = items.reduce((sum, item) => {
+    const subtotalAmount = items.reduce((sum, item) => {
       const price = item.product?.price || 0;
       return sum + (price * item.quantity);
     }, 0);
+    const totalAmount = items.reduce((sum, item) => {
+      const price = applyMemberDiscount(item.product?.price || 0, memberDiscountPercent);
+      return sum + (price * item.quantity);
+    }, 0);
 
     return {
       items,
       totalItems,
+      subtotalAmount,
+      memberSavings: subtotalAmount - totalAmount,
       totalAmount,
       loading: loading || !!operationInProgress,
       error,
@@ -397,6 +409,7 @@ export const CartProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
     };
   }, [
     items,
+    memberDiscountPercent,
     loading,
     error,
     operationInProgress,
@@ -5,6 +5,8 @@ import { User } from '@supabase/supabase-js';
 import { supabase, type UserProfile, type ShippingAddress, checkUserSubscriptionStatus } from '@/lib/supabase';
 import { sessionManager, type SessionData } from '@/lib/session-manager';
 import { errorManager, AuthError, ValidationError } from '@/lib/error-manager';
+import { getMyPlanFeatures, DEFAULT_PLAN_FEATURES, type PlanFeatures } from '@/lib/plan-features';
+import { getDeviceId, recordDeviceFingerprint } from '@/lib/fraud-signals';
 import { toast } from '@/components/ui/use-toast';
 import {
   AlertDialog,
@@ -46,6 +48,8 @@ interface AuthContextValue {
   // Subscription status
   hasActiveSubscription: boolean;
   subscriptionLoading: boolean;
+  // Features of the current plan; null without an active subscription
+  planFeatures: PlanFeatures | null;
 
   // Authentication methods
   signUp: (data: SignUpData) => Promise<void>;
@@ -129,6 +133,19 @@ function authReducer(state: { authState: AuthState; sessionData: SessionData | n
   }
 }
 
+// Features gate parts of the storefront; if they cannot be loaded, keep a
+// paying member's access (prices and rewards are enforced server-side)
+const loadPlanFeatures = async (hasActive: boolean): Promise<PlanFeatures | null> => {
+  if (!hasActive) return null;
+
+  try {
+    return (await getMyPlanFeatures()) ?? DEFAULT_PLAN_FEATURES;
+  } catch (error) {
+    console.error('❌ Error loading plan features:', error);
+    return DEFAULT_PLAN_FEATURES;
+  }
+};
+
 export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) => {
   const [state, setState] = useState({
     authState: AuthState.INITIALIZING,
@@ -138,7 +155,8 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
 
   const [subscriptionState, setSubscriptionState] = useState({
     hasActiveSubscription: false,
-    subscriptionLoading: true
+    subscriptionLoading: true,
+    planFeatures: null as PlanFeatures | null
   });
 
   const [requireAuthOpen, setRequireAuthOpen] = useState(false);
@@ -180,7 +198,7 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
 
     if (!currentUser) {
       console.log('🔍 No user found, setting subscription to inactive');
-      setSubscriptionState({ hasActiveSubscription: false, subscriptionLoading: false });
+      setSubscriptionState({ hasActiveSubscription: false, subscriptionLoading: false, planFeatures: null });
       return;
     }
 
@@ -192,7 +210,11 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
       if (state.sessionData?.profile?.subscription_status) {
         const hasActive = state.sessionData.profile.subscription_status === 'active';
         console.log('🔍 Subscription status from profile:', hasActive ? 'active' : 'inactive');
-        setSubscriptionState({ hasActiveSubscription: hasActive, subscriptionLoading: false });
+        setSubscriptionState({
+          hasActiveSubscription: hasActive,
+          subscriptionLoading: false,
+          planFeatures: await loadPlanFeatures(hasActive)
+        });
 
         // Redirect to subscription if not active
         if (!hasActive) {
@@ -207,7 +229,11 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
       const hasActive = subscriptionStatus === 'active';
       console.log('🔍 Subscription status from database:', subscriptionStatus);
 
-      setSubscriptionState({ hasActiveSubscription: hasActive, subscriptionLoading: false });
+      setSubscriptionState({
+        hasActiveSubscription: hasActive,
+        subscriptionLoading: false,
+        planFeatures: await loadPlanFeatures(hasActive)
+      });
 
       // Redirect to subscription if not active
       if (!hasActive) {
@@ -216,7 +242,7 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
 
     } catch (error) {
       console.error('❌ Error checking subscription:', error);
-      setSubscriptionState({ hasActiveSubscription: false, subscriptionLoading: false });
+      setSubscriptionState({ hasActiveSubscription: false, subscriptionLoading: false, planFeatures: null });
       // On error, redirect to subscription page to be safe
       redirectToSubscription();
     }
@@ -263,7 +289,7 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
       } else {
         console.log('📡 Session change: user signed out');
         dispatch({ type: 'SIGNOUT_SUCCESS' });
-        setSubscriptionState({ hasActiveSubscription: false, subscriptionLoading: false });
+        setSubscriptionState({ hasActiveSubscription: false, subscriptionLoading: false, planFeatures: null });
       }
     });
 
@@ -276,7 +302,12 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
       // Let session manager handle the session update
       if (event === 'SIGNED_OUT' || !session) {
         dispatch({ type: 'SIGNOUT_SUCCESS' });
-        setSubscriptionState({ hasActiveSubscription: false, subscriptionLoading: false });
+        setSubscriptionState({ hasActiveSubscription: false, subscriptionLoading: false, planFeatures: null });
+      }
+
+      // Referral fraud checks; runs in the background
+      if (event === 'SIGNED_IN' && session?.user) {
+        recordDeviceFingerprint(session.user.id);
       }
     });
 
@@ -328,7 +359,9 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
       // Real Supabase registration
       const userData = {
         full_name: data.fullName,
-        phone: data.phone
+        phone: data.phone,
+        // Links accounts registered from the same browser (referral fraud checks)
+        device_id: getDeviceId()
       };
 
       if (data.referralCode) {
@@ -783,6 +816,7 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
     error: state.error,
     hasActiveSubscription: subscriptionState.hasActiveSubscription,
     subscriptionLoading: subscriptionState.subscriptionLoading,
+    planFeatures: subscriptionState.planFeatures,
     signUp,
     signIn,
     signOut,
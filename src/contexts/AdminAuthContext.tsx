@@ -1,12 +1,36 @@
 import React, { createContext, useContext, useState, useEffect } from 'react'
-import { Admin, authenticateAdmin } from '@/lib/supabase'
+import type { Admin } from '@/lib/supabase'
+import {
+  ADMIN_SESSION_EXPIRED_EVENT,
+  completeAdminTwoFactor,
+  getAdminSessionExpiry,
+  getAdminSessionToken,
+  getCurrentAdmin,
+  refreshAdminSession,
+  signInAdmin,
+  signOutAdmin,
+  subscribeToAdminSessionToken,
+  type AdminTwoFactorChallenge,
+  type AdminTwoFactorSignIn
+} from '@/lib/admin-api'
+import { hasAdminPermission, type AdminPermission } from '@/lib/admin-permissions'
+
+// Refresh the session token this long before it lapses
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000
 
 interface AdminAuthContextType {
   admin: Admin | null
   isLoading: boolean
-  login: (email: string, password: string) => Promise<void>
+  // Resolves with a challenge when the admin still has to enter a two-factor code
+  login: (email: string, password: string) => Promise<AdminTwoFactorChallenge | null>
+  // Signs in with the code, except after enrolment: the backup codes are
+  // shown first and finishLogin opens the dashboard
+  completeTwoFactor: (challenge: AdminTwoFactorChallenge, code: string) => Promise<AdminTwoFactorSignIn>
+  finishLogin: () => void
   logout: () => void
   isAuthenticated: boolean
+  // Whether the signed-in admin's role grants any of the permissions
+  can: (...permissions: AdminPermission[]) => boolean
 }
 
 const AdminAuthContext = createContext<AdminAuthContextType | undefined>(undefined)
@@ -26,45 +50,131 @@ interface AdminAuthProviderProps {
 export const AdminAuthProvider: React.FC<AdminAuthProviderProps> = ({ children }) => {
   const [admin, setAdmin] = useState<Admin | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  // Signed in through enrolment, waiting for the backup codes to be saved
+  const [pendingAdmin, setPendingAdmin] = useState<Admin | null>(null)
+  // Bumped when another tab replaces the token, to reschedule the refresh
+  const [tokenRevision, setTokenRevision] = useState(0)
 
   useEffect(() => {
-    // Check if admin is already logged in (from localStorage)
-    const storedAdmin = localStorage.getItem('admin_session')
-    if (storedAdmin) {
-      try {
-        const adminData = JSON.parse(storedAdmin)
-        setAdmin(adminData)
-      } catch (error) {
-        console.error('Error parsing stored admin data:', error)
-        localStorage.removeItem('admin_session')
+    // Admin details used to be kept here and trusted on reload
+    localStorage.removeItem('admin_session')
+
+    // Restore the dashboard only if the server still accepts the stored token
+    getCurrentAdmin()
+      .then(setAdmin)
+      .catch((error) => {
+        console.error('Error restoring admin session:', error)
+        setAdmin(null)
+      })
+      .finally(() => setIsLoading(false))
+
+    // The server rejected the session token (expired or revoked)
+    const handleSessionExpired = () => {
+      setAdmin(null)
+    }
+
+    // Another tab refreshed the token or signed out
+    const unsubscribe = subscribeToAdminSessionToken((token) => {
+      if (token) {
+        setTokenRevision((revision) => revision + 1)
+      } else {
+        setAdmin(null)
       }
+    })
+
+    window.addEventListener(ADMIN_SESSION_EXPIRED_EVENT, handleSessionExpired)
+    return () => {
+      unsubscribe()
+      window.removeEventListener(ADMIN_SESSION_EXPIRED_EVENT, handleSessionExpired)
     }
-    setIsLoading(false)
   }, [])
 
+  // Keep the token fresh while signed in; each refresh schedules the next.
+  // Once the token runs to the end of its session, sign out when it lapses.
+  useEffect(() => {
+    if (!admin) return
+
+    const token = getAdminSessionToken()
+    const expiry = getAdminSessionExpiry()
+    if (!expiry) return
+
+    const { tokenExpiresAt, sessionExpiresAt } = expiry
+    if (tokenExpiresAt >= sessionExpiresAt) {
+      const timer = setTimeout(() => {
+        setAdmin(null)
+        signOutAdmin()
+      }, Math.max(tokenExpiresAt.getTime() - Date.now(), 0))
+      return () => clearTimeout(timer)
+    }
+
+    // With several tabs open, whichever refreshes first wins; the others
+    // pick up its token instead of refreshing the replaced one
+    const tokenReplaced = () => getAdminSessionToken() !== token
+
+    const timer = setTimeout(async () => {
+      if (tokenReplaced()) {
+        setTokenRevision((revision) => revision + 1)
+        return
+      }
+
+      try {
+        setAdmin(await refreshAdminSession())
+      } catch (error) {
+        if (tokenReplaced()) {
+          setTokenRevision((revision) => revision + 1)
+          return
+        }
+        console.error('Error refreshing admin session:', error)
+        setAdmin(null)
+      }
+    }, Math.max(tokenExpiresAt.getTime() - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0))
+
+    return () => clearTimeout(timer)
+  }, [admin, tokenRevision])
+
   const login = async (email: string, password: string) => {
-    try {
-      const adminData = await authenticateAdmin(email, password)
-      setAdmin(adminData)
-      localStorage.setItem('admin_session', JSON.stringify(adminData))
-    } catch (error) {
-      throw error
+    const result = await signInAdmin(email, password)
+    if ('twoFactor' in result) return result
+
+    setAdmin(result)
+    return null
+  }
+
+  const completeTwoFactor = async (challenge: AdminTwoFactorChallenge, code: string) => {
+    const result = await completeAdminTwoFactor(challenge, code)
+    if (result.backupCodes) {
+      setPendingAdmin(result.admin)
+    } else {
+      setAdmin(result.admin)
     }
+    return result
+  }
+
+  const finishLogin = () => {
+    if (!pendingAdmin) return
+    setAdmin(pendingAdmin)
+    setPendingAdmin(null)
   }
 
   const logout = () => {
     setAdmin(null)
-    localStorage.removeItem('admin_session')
+    setPendingAdmin(null)
+    signOutAdmin()
   }
 
   const isAuthenticated = !!admin
 
+  const can = (...permissions: AdminPermission[]) => hasAdminPermission(admin, ...permissions)
+
   const value: AdminAuthContextType = {
     admin,
     isLoading,
     login,
+    completeTwoFactor,
+    finishLogin,
     logout,
-    isAuthenticated
+    isAuthenticated,
+    can
   }
 
   return (
@@ -0,0 +1,18 @@
+import { useAuth } from '@/context/NewAuthContext';
+import type { PlanFeatureKey, PlanFeatures } from '@/lib/plan-features';
+
+// Whether the current user's plan includes a feature. Boolean features are
+// enabled when true, numeric ones (member_discount_percent) when above zero.
+export const useFeature = <K extends PlanFeatureKey>(feature: K) => {
+  const { hasActiveSubscription, subscriptionLoading, planFeatures } = useAuth();
+
+  const value = hasActiveSubscription && planFeatures ? planFeatures[feature] : null;
+  const enabled = typeof value === 'number' ? value > 0 : value === true;
+
+  return {
+    enabled,
+    value: value as PlanFeatures[K] | null,
+    loading: subscriptionLoading,
+    hasActiveSubscription
+  };
+};
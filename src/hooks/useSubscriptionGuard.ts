@@ -2,11 +2,14 @@ import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/context/NewAuthContext';
 import { toast } from '@/components/ui/use-toast';
+import type { BooleanPlanFeature } from '@/lib/plan-features';
 
 interface SubscriptionGuardOptions {
   redirectTo?: string;
   showToast?: boolean;
   feature?: string;
+  // Plan feature required on top of an active subscription
+  requires?: BooleanPlanFeature;
 }
 
 export const useSubscriptionGuard = (options: SubscriptionGuardOptions = {}) => {
@@ -14,7 +17,8 @@ export const useSubscriptionGuard = (options: SubscriptionGuardOptions = {}) =>
     hasActiveSubscription, 
     subscriptionLoading, 
     user, 
-    state 
+    state,
+    planFeatures
   } = useAuth();
   
   const navigate = useNavigate();
@@ -22,9 +26,12 @@ export const useSubscriptionGuard = (options: SubscriptionGuardOptions = {}) =>
   const {
     redirectTo = '/subscription',
     showToast = true,
-    feature = 'this feature'
+    feature = 'this feature',
+    requires
   } = options;
 
+  const missingFromPlan = !!requires && planFeatures?.[requires] === false;
+
   useEffect(() => {
     // Don't redirect if still loading or user not authenticated
     if (subscriptionLoading || !user || state !== 'AUTHENTICATED') {
@@ -32,21 +39,23 @@ export const useSubscriptionGuard = (options: SubscriptionGuardOptions = {}) =>
     }
 
     // If user doesn't have active subscription, redirect
-    if (!hasActiveSubscription) {
+    if (!hasActiveSubscription || missingFromPlan) {
       if (showToast) {
         toast({
-          description: `Active subscription required to access ${feature}`,
+          description: missingFromPlan
+            ? `Your plan does not include ${feature}`
+            : `Active subscription required to access ${feature}`,
           variant: 'destructive'
         });
       }
       navigate(redirectTo);
     }
-  }, [hasActiveSubscription, subscriptionLoading, user, state, navigate, redirectTo, showToast, feature]);
+  }, [hasActiveSubscription, missingFromPlan, subscriptionLoading, user, state, navigate, redirectTo, showToast, feature]);
 
   return {
     hasActiveSubscription,
     subscriptionLoading,
-    canAccess: hasActiveSubscription && !subscriptionLoading
+    canAccess: hasActiveSubscription && !missingFromPlan && !subscriptionLoading
   };
 };
 
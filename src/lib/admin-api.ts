@@ -0,0 +1,385 @@
+import { supabase, type Admin } from './supabase'
+import type { AdminRole } from './admin-permissions'
+
+// Admin operations run in the admin-api edge function with the service role,
+// after it checks the admin's session token. adminApi mirrors the parts of
+// the supabase-js client the dashboard uses (from/rpc/storage) and returns
+// the same { data, error } results, so admin code reads like any other query.
+// Tokens come from the admin-login function and last ADMIN_TOKEN_MINUTES
+// there; AdminAuthContext refreshes them while the dashboard is open.
+
+const ADMIN_API_FUNCTION = 'admin-api'
+const ADMIN_LOGIN_FUNCTION = 'admin-login'
+const ADMIN_SESSION_HEADER = 'x-admin-session'
+const SESSION_TOKEN_KEY = 'admin_session_token'
+
+// Fired when the server rejects the session token, so the dashboard can sign out
+export const ADMIN_SESSION_EXPIRED_EVENT = 'admin-session-expired'
+
+export interface AdminApiError {
+  message: string
+  code?: string
+  details?: string | null
+  hint?: string | null
+}
+
+// Rows come back untyped, as they do from the supabase-js client
+type UntypedRows = Awaited<ReturnType<typeof supabase.rpc>>['data']
+
+export interface AdminApiResponse<T> {
+  data: T | null
+  error: AdminApiError | null
+  count: number | null
+}
+
+export interface AdminSessionInfo {
+  id: string
+  admin_id: string
+  user_agent: string | null
+  ip_address: string | null
+  created_at: string
+  last_seen_at: string
+  expires_at: string
+  token_expires_at: string
+  admin: { email: string; full_name: string | null } | null
+  // The session this browser is using
+  current: boolean
+}
+
+interface IssuedAdminToken {
+  token: string
+  expiresAt: string
+  sessionExpiresAt: string
+}
+
+// Signing in stops here when two-factor authentication is on ('verify') or
+// the admin's role requires it and it is not set up yet ('enroll'). The
+// challenge stands in for the password until expiresAt.
+export interface AdminTwoFactorChallenge {
+  twoFactor: 'verify' | 'enroll'
+  challenge: string
+  expiresAt: string
+  // Enrolment only: the secret for the authenticator app, also as an otpauth:// URL
+  secret?: string
+  otpauthUrl?: string
+}
+
+export interface AdminTwoFactorSignIn {
+  admin: Admin
+  // Set when enrolment finished the sign-in; shown once
+  backupCodes?: string[]
+  // Set when a backup code was used instead of an app code
+  backupCodesRemaining?: number
+}
+
+export interface AdminTwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  required: boolean
+  backupCodesRemaining: number
+}
+
+type QueryOperation = 'select' | 'insert' | 'update' | 'upsert' | 'delete'
+
+interface QueryStep {
+  method: string
+  args: unknown[]
+}
+
+// What the admin-api function rebuilds into a supabase-js query
+interface AdminQuery {
+  table: string
+  operation: QueryOperation
+  columns?: string
+  values?: unknown
+  options?: Record<string, unknown>
+  steps: QueryStep[]
+}
+
+export const getAdminSessionToken = (): string | null => {
+  try {
+    return localStorage.getItem(SESSION_TOKEN_KEY)
+  } catch {
+    return null
+  }
+}
+
+const setAdminSessionToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(SESSION_TOKEN_KEY, token)
+  } else {
+    localStorage.removeItem(SESSION_TOKEN_KEY)
+  }
+}
+
+// Calls the listener when another tab stores a new token or clears it
+export const subscribeToAdminSessionToken = (listener: (token: string | null) => void): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === SESSION_TOKEN_KEY) listener(event.newValue)
+  }
+
+  window.addEventListener('storage', handleStorage)
+  return () => window.removeEventListener('storage', handleStorage)
+}
+
+// When the current token lapses and when its session ends, read from the
+// token's signed payload
+export const getAdminSessionExpiry = (): { tokenExpiresAt: Date; sessionExpiresAt: Date } | null => {
+  const token = getAdminSessionToken()
+  if (!token) return null
+
+  try {
+    const payload = JSON.parse(atob(token.split('.')[0].replace(/-/g, '+').replace(/_/g, '/')))
+    if (!payload?.exp || !payload?.sxp) return null
+    return { tokenExpiresAt: new Date(payload.exp * 1000), sessionExpiresAt: new Date(payload.sxp * 1000) }
+  } catch {
+    return null
+  }
+}
+
+const invokeAdminFunction = async (
+  fn: string,
+  action: string,
+  params: Record<string, unknown> = {}
+): Promise<AdminApiResponse<UntypedRows>> => {
+  const token = getAdminSessionToken()
+
+  try {
+    const { data, error } = await supabase.functions.invoke(fn, {
+      body: { action, ...params },
+      headers: token ? { [ADMIN_SESSION_HEADER]: token } : undefined
+    })
+
+    if (error) {
+      const context = (error as { context?: Response }).context
+      let details: { error?: string; code?: string; details?: string; hint?: string } | null = null
+      try {
+        details = await context?.json()
+      } catch {
+        // Not a JSON response; keep the generic message
+      }
+
+      // Only sign out if the rejected token is still the stored one: another
+      // tab may have refreshed it meanwhile
+      if (context?.status === 401 && token && getAdminSessionToken() === token) {
+        setAdminSessionToken(null)
+        window.dispatchEvent(new Event(ADMIN_SESSION_EXPIRED_EVENT))
+      }
+
+      return {
+        data: null,
+        error: {
+          message: details?.error || error.message,
+          code: details?.code,
+          details: details?.details ?? null,
+          hint: details?.hint ?? null
+        },
+        count: null
+      }
+    }
+
+    return { data: data?.data ?? null, error: null, count: data?.count ?? null }
+  } catch (error) {
+    return { data: null, error: { message: (error as Error).message || 'Admin API request failed' }, count: null }
+  }
+}
+
+const invokeAdminApi = (action: string, params: Record<string, unknown> = {}) =>
+  invokeAdminFunction(ADMIN_API_FUNCTION, action, params)
+
+// For actions without a supabase-js equivalent: returns the data or throws
+const callAdminFunction = async <T>(fn: string, action: string, params: Record<string, unknown> = {}): Promise<T> => {
+  const { data, error } = await invokeAdminFunction(fn, action, params)
+  if (error) throw new Error(error.message)
+  return data as T
+}
+
+const callAdminApi = <T>(action: string, params: Record<string, unknown> = {}) =>
+  callAdminFunction<T>(ADMIN_API_FUNCTION, action, params)
+
+class AdminQueryBuilder implements PromiseLike<AdminApiResponse<UntypedRows>> {
+  private query: AdminQuery
+
+  constructor(query: Omit<AdminQuery, 'steps'>) {
+    this.query = { ...query, steps: [] }
+  }
+
+  private step(method: string, args: unknown[]) {
+    this.query.steps.push({ method, args })
+    return this
+  }
+
+  eq(column: string, value: unknown) { return this.step('eq', [column, value]) }
+  neq(column: string, value: unknown) { return this.step('neq', [column, value]) }
+  gt(column: string, value: unknown) { return this.step('gt', [column, value]) }
+  gte(column: string, value: unknown) { return this.step('gte', [column, value]) }
+  lt(column: string, value: unknown) { return this.step('lt', [column, value]) }
+  lte(column: string, value: unknown) { return this.step('lte', [column, value]) }
+  like(column: string, pattern: string) { return this.step('like', [column, pattern]) }
+  ilike(column: string, pattern: string) { return this.step('ilike', [column, pattern]) }
+  is(column: string, value: boolean | null) { return this.step('is', [column, value]) }
+  in(column: string, values: unknown[]) { return this.step('in', [column, values]) }
+  contains(column: string, value: unknown) { return this.step('contains', [column, value]) }
+  or(filters: string) { return this.step('or', [filters]) }
+  not(column: string, operator: string, value: unknown) { return this.step('not', [column, operator, value]) }
+  filter(column: string, operator: string, value: unknown) { return this.step('filter', [column, operator, value]) }
+  match(query: Record<string, unknown>) { return this.step('match', [query]) }
+  order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }) { return this.step('order', [column, options]) }
+  limit(count: number) { return this.step('limit', [count]) }
+  range(from: number, to: number) { return this.step('range', [from, to]) }
+  select(columns: string = '*') { return this.step('select', [columns]) }
+  single() { return this.step('single', []) }
+  maybeSingle() { return this.step('maybeSingle', []) }
+
+  then<TResult1 = AdminApiResponse<UntypedRows>, TResult2 = never>(
+    onfulfilled?: ((value: AdminApiResponse<UntypedRows>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return invokeAdminApi('query', { query: this.query }).then(onfulfilled, onrejected)
+  }
+}
+
+class AdminTableBuilder {
+  constructor(private table: string) {}
+
+  select(columns: string = '*', options?: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean }) {
+    return new AdminQueryBuilder({ table: this.table, operation: 'select', columns, options })
+  }
+
+  insert(values: unknown, options?: { count?: 'exact' | 'planned' | 'estimated' }) {
+    return new AdminQueryBuilder({ table: this.table, operation: 'insert', values, options })
+  }
+
+  update(values: unknown, options?: { count?: 'exact' | 'planned' | 'estimated' }) {
+    return new AdminQueryBuilder({ table: this.table, operation: 'update', values, options })
+  }
+
+  upsert(values: unknown, options?: { onConflict?: string; ignoreDuplicates?: boolean }) {
+    return new AdminQueryBuilder({ table: this.table, operation: 'upsert', values, options })
+  }
+
+  delete(options?: { count?: 'exact' | 'planned' | 'estimated' }) {
+    return new AdminQueryBuilder({ table: this.table, operation: 'delete', options })
+  }
+}
+
+export const adminApi = {
+  from: (table: string) => new AdminTableBuilder(table),
+
+  rpc: (fn: string, args: Record<string, unknown> = {}) => invokeAdminApi('rpc', { fn, args }),
+
+  storage: {
+    from: (bucket: string) => ({
+      createSignedUrl: async (path: string, expiresIn: number) => {
+        const { data, error } = await invokeAdminApi('signed-url', { bucket, path, expiresIn })
+        return { data: data as { signedUrl: string } | null, error }
+      }
+    })
+  }
+}
+
+// Signing in returns the admin and keeps the session token for later calls,
+// or returns the challenge to answer with a two-factor code
+export const signInAdmin = async (email: string, password: string): Promise<Admin | AdminTwoFactorChallenge> => {
+  const result = await callAdminFunction<(IssuedAdminToken & { admin: Admin }) | AdminTwoFactorChallenge>(ADMIN_LOGIN_FUNCTION, 'login', {
+    email: email.trim(),
+    password
+  })
+  if ('twoFactor' in result) return result
+
+  setAdminSessionToken(result.token)
+  return result.admin
+}
+
+// Finishes a sign-in with a code from the authenticator app or a backup
+// code, or with the first code after setting up the app during enrolment
+export const completeAdminTwoFactor = async (
+  challenge: AdminTwoFactorChallenge,
+  code: string
+): Promise<AdminTwoFactorSignIn> => {
+  const { token, ...result } = await callAdminFunction<IssuedAdminToken & AdminTwoFactorSignIn>(
+    ADMIN_LOGIN_FUNCTION,
+    challenge.twoFactor === 'enroll' ? 'enroll-2fa' : 'verify-2fa',
+    { challenge: challenge.challenge, code: code.trim() }
+  )
+  setAdminSessionToken(token)
+  return { admin: result.admin, backupCodes: result.backupCodes, backupCodesRemaining: result.backupCodesRemaining }
+}
+
+// Swaps the current token for a fresh one; the old one stops working
+export const refreshAdminSession = async (): Promise<Admin> => {
+  const { admin, token } = await callAdminFunction<IssuedAdminToken & { admin: Admin }>(ADMIN_LOGIN_FUNCTION, 'refresh')
+  setAdminSessionToken(token)
+  return admin
+}
+
+// The admin the stored token belongs to, checked by the server
+export const getCurrentAdmin = async (): Promise<Admin | null> => {
+  if (!getAdminSessionToken()) return null
+  return callAdminApi<Admin>('session')
+}
+
+export const signOutAdmin = async (): Promise<void> => {
+  try {
+    if (getAdminSessionToken()) await callAdminFunction(ADMIN_LOGIN_FUNCTION, 'logout')
+  } catch (error) {
+    console.error('Error ending admin session:', error)
+  } finally {
+    setAdminSessionToken(null)
+  }
+}
+
+export const createAdminAccount = async (
+  email: string,
+  password: string,
+  fullName: string,
+  role: AdminRole = 'admin'
+): Promise<Admin> => {
+  return callAdminApi<Admin>('create-admin', { email: email.trim(), password, fullName, role })
+}
+
+// Active sessions of one admin, or of every admin for admins.manage
+export const listAdminSessions = async (adminId?: string): Promise<AdminSessionInfo[]> => {
+  return callAdminApi<AdminSessionInfo[]>('list-sessions', { adminId })
+}
+
+export const revokeAdminSession = async (sessionId: string): Promise<void> => {
+  await callAdminApi('revoke-sessions', { sessionId })
+}
+
+// Signs an admin out everywhere, or everywhere but here for the current admin
+export const revokeAllAdminSessions = async (adminId: string, keepCurrent: boolean = false): Promise<number> => {
+  const { revoked } = await callAdminApi<{ revoked: number }>('revoke-sessions', { adminId, keepCurrent })
+  return revoked
+}
+
+// Two-factor authentication of the signed-in admin
+export const getTwoFactorStatus = async (): Promise<AdminTwoFactorStatus> => {
+  return callAdminApi<AdminTwoFactorStatus>('two-factor-status')
+}
+
+// A new secret to add to the authenticator app; 2FA turns on once a code from it is confirmed
+export const startTwoFactorEnrolment = async (): Promise<{ secret: string; otpauthUrl: string }> => {
+  return callAdminApi<{ secret: string; otpauthUrl: string }>('start-2fa')
+}
+
+// Returns the backup codes, shown once
+export const confirmTwoFactorEnrolment = async (code: string): Promise<string[]> => {
+  const { backupCodes } = await callAdminApi<{ backupCodes: string[] }>('confirm-2fa', { code: code.trim() })
+  return backupCodes
+}
+
+export const disableTwoFactor = async (code: string): Promise<void> => {
+  await callAdminApi('disable-2fa', { code: code.trim() })
+}
+
+// Replaces every backup code; the old ones stop working
+export const regenerateBackupCodes = async (code: string): Promise<string[]> => {
+  const { backupCodes } = await callAdminApi<{ backupCodes: string[] }>('regenerate-backup-codes', { code: code.trim() })
+  return backupCodes
+}
+
+// For admins.manage: turns another admin's 2FA off and signs them out
+export const resetAdminTwoFactor = async (adminId: string): Promise<void> => {
+  await callAdminApi('reset-2fa', { adminId })
+}
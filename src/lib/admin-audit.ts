@@ -0,0 +1,192 @@
+import { adminApi } from './admin-api'
+
+// An entry of admin_audit_log, written by the admin-api function for every
+// change an admin makes
+export interface AdminAuditEntry {
+  id: string
+  admin_id: string | null
+  admin_email: string
+  session_id: string | null
+  action: string
+  target_table: string | null
+  target_id: string | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  changes: Record<string, { from: unknown; to: unknown }> | null
+  metadata: Record<string, unknown>
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+}
+
+export interface AdminAuditFilters {
+  search?: string
+  targetTable?: string
+  adminId?: string
+  // yyyy-mm-dd, inclusive
+  from?: string
+  to?: string
+}
+
+export const AUDIT_PAGE_SIZE = 100
+// Most entries one CSV export will fetch
+const AUDIT_EXPORT_LIMIT = 5000
+
+// Names for the actions the dashboard makes most; others show as recorded
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'user_profiles.update': 'User updated',
+  'user_profiles.delete': 'User deleted',
+  'withdrawal_requests.update': 'Withdrawal status changed',
+  'subscription_requests.update': 'Subscription request updated',
+  'system_settings.upsert': 'Settings saved',
+  'system_settings.update': 'Settings saved',
+  'admins.update': 'Admin account changed',
+  'admins.create': 'Admin added',
+  'admin_sessions.revoke': 'Admin sessions ended',
+  'admins.2fa_enabled': 'Two-factor turned on',
+  'admins.2fa_disabled': 'Two-factor turned off',
+  'admins.2fa_reset': 'Two-factor reset',
+  'admins.2fa_backup_codes_regenerated': 'Backup codes replaced',
+  'admins.2fa_backup_code_used': 'Signed in with backup code',
+  'admin_roles.update': 'Role 2FA requirement changed',
+  'products.insert': 'Product added',
+  'products.update': 'Product updated',
+  'products.delete': 'Product deleted',
+  'upi_payment_notifications.update': 'Payment verified',
+  approve_subscription_request: 'Subscription approved',
+  transition_order_status: 'Order status changed',
+  adjust_product_stock: 'Stock adjusted',
+  admin_adjust_wallet: 'Wallet adjusted',
+  record_withdrawal_payout: 'Payout recorded',
+  create_payout_batch: 'Payout batch created',
+  process_order_cancellation_request: 'Cancellation processed',
+  review_kyc_document: 'KYC document reviewed',
+  review_payout_account: 'Payout account reviewed',
+  review_fraud_flag: 'Fraud flag reviewed'
+}
+
+// Tables the audit tab can filter by
+export const AUDIT_TARGET_TABLES = [
+  'admin_roles',
+  'admins',
+  'fraud_flags',
+  'kyc_documents',
+  'order_cancellation_requests',
+  'orders',
+  'payout_accounts',
+  'products',
+  'refunds',
+  'subscription_plans',
+  'subscription_requests',
+  'system_settings',
+  'upi_payment_notifications',
+  'user_profiles',
+  'withdrawal_requests'
+]
+
+export const formatAuditAction = (action: string): string => AUDIT_ACTION_LABELS[action] || action
+
+const IST_OFFSET = '+05:30'
+
+// Entries newest first, filtered and paged (admin)
+export const getAdminAuditLog = async (
+  filters: AdminAuditFilters = {},
+  offset: number = 0,
+  limit: number = AUDIT_PAGE_SIZE
+): Promise<AdminAuditEntry[]> => {
+  let query = adminApi
+    .from('admin_audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (filters.targetTable) query = query.eq('target_table', filters.targetTable)
+  if (filters.adminId) query = query.eq('admin_id', filters.adminId)
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00${IST_OFFSET}`).toISOString())
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00${IST_OFFSET}`)
+    end.setDate(end.getDate() + 1)
+    query = query.lt('created_at', end.toISOString())
+  }
+
+  // Commas and parentheses would break the or() filter
+  const search = filters.search?.trim().replace(/[,()]/g, ' ')
+  if (search) {
+    query = query.or(
+      `admin_email.ilike.%${search}%,action.ilike.%${search}%,target_id.ilike.%${search}%,ip_address.ilike.%${search}%`
+    )
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    if (error.code === '42P01') return []
+    console.error('Error fetching admin audit log:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+// "status: pending → approved; admin_notes: — → Paid"
+export const describeAuditChanges = (entry: AdminAuditEntry): string => {
+  const show = (value: unknown) =>
+    value === null || value === undefined || value === '' ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+  if (entry.changes && Object.keys(entry.changes).length > 0) {
+    return Object.entries(entry.changes)
+      .map(([column, change]) => `${column}: ${show(change.from)} → ${show(change.to)}`)
+      .join('; ')
+  }
+  if (entry.after && !entry.before) return 'Created'
+  if (entry.before && !entry.after) return 'Deleted'
+  if (typeof entry.metadata?.rows === 'number') return `${entry.metadata.rows} rows`
+  return ''
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })
+
+const csvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+export const buildAdminAuditCsv = (entries: AdminAuditEntry[]): string => {
+  const rows = [
+    ['Time (IST)', 'Admin', 'Action', 'Table', 'Target ID', 'Changes', 'IP Address', 'Before', 'After'],
+    ...entries.map(entry => [
+      formatDate(entry.created_at),
+      entry.admin_email,
+      formatAuditAction(entry.action),
+      entry.target_table || '',
+      entry.target_id || '',
+      describeAuditChanges(entry),
+      entry.ip_address || '',
+      entry.before ? JSON.stringify(entry.before) : '',
+      entry.after ? JSON.stringify(entry.after) : ''
+    ])
+  ]
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+// Every entry matching the filters, up to AUDIT_EXPORT_LIMIT, as a CSV download
+export const downloadAdminAuditLog = async (filters: AdminAuditFilters): Promise<number> => {
+  const entries: AdminAuditEntry[] = []
+  while (entries.length < AUDIT_EXPORT_LIMIT) {
+    const page = await getAdminAuditLog(filters, entries.length, 1000)
+    entries.push(...page)
+    if (page.length < 1000) break
+  }
+
+  const blob = new Blob([buildAdminAuditCsv(entries)], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `admin-audit-${new Date().toISOString().slice(0, 10)}.csv`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+
+  return entries.length
+}
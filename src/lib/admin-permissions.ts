@@ -0,0 +1,111 @@
+import type { Admin } from './supabase'
+import { adminApi } from './admin-api'
+
+// What an admin role may do, as stored in admin_roles.permissions. The
+// admin-api function enforces them; the dashboard uses them to hide what
+// the signed-in admin's role cannot use.
+export type AdminPermission =
+  | 'analytics.view'
+  | 'orders.view'
+  | 'orders.update'
+  | 'refunds.manage'
+  | 'payments.view'
+  | 'payments.verify'
+  | 'reconciliation.manage'
+  | 'subscriptions.view'
+  | 'subscriptions.approve'
+  | 'plans.write'
+  | 'withdrawals.view'
+  | 'withdrawals.approve'
+  | 'payouts.manage'
+  | 'kyc.view'
+  | 'kyc.review'
+  | 'fraud.view'
+  | 'fraud.review'
+  | 'products.view'
+  | 'products.write'
+  | 'inventory.adjust'
+  | 'users.view'
+  | 'users.write'
+  | 'users.delete'
+  | 'wallet.adjust'
+  | 'referrals.view'
+  | 'tds.view'
+  | 'settings.write'
+  | 'admins.manage'
+  | 'audit.view'
+
+export type AdminRole =
+  | 'super_admin'
+  | 'admin'
+  | 'order_fulfilment'
+  | 'payments_verifier'
+  | 'support'
+  | 'catalog_manager'
+  | 'finance'
+
+export interface AdminRoleInfo {
+  role: AdminRole
+  label: string
+  description: string | null
+  permissions: AdminPermission[]
+  sort_order: number
+  // Admins of the role must sign in with two-factor authentication
+  require_2fa: boolean
+}
+
+// True when the admin's role grants any of the permissions
+export const hasAdminPermission = (admin: Pick<Admin, 'permissions'> | null, ...permissions: AdminPermission[]): boolean =>
+  !!admin && permissions.some((permission) => (admin.permissions || []).includes(permission))
+
+// "payments_verifier" → "Payments Verifier", for roles missing from the list
+export const formatAdminRole = (role: string): string =>
+  role.split('_').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+
+export const getAdminRoles = async (): Promise<AdminRoleInfo[]> => {
+  const { data, error } = await adminApi
+    .from('admin_roles')
+    .select('role, label, description, permissions, sort_order, require_2fa')
+    .order('sort_order')
+
+  if (error) {
+    console.error('Error fetching admin roles:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+// Admins cannot change their own role; the server refuses it
+export const updateAdminRole = async (adminId: string, role: AdminRole): Promise<Admin> => {
+  const { data, error } = await adminApi
+    .from('admins')
+    .update({ role })
+    .eq('id', adminId)
+    .select('id, email, full_name, role, is_active, created_at, created_by, totp_enabled_at')
+    .single()
+
+  if (error) {
+    console.error('Error updating admin role:', error)
+    throw error
+  }
+
+  return data
+}
+
+// Admins of the role without 2FA set it up at their next sign-in
+export const updateRoleTwoFactorRequirement = async (role: AdminRole, required: boolean): Promise<AdminRoleInfo> => {
+  const { data, error } = await adminApi
+    .from('admin_roles')
+    .update({ require_2fa: required, updated_at: new Date().toISOString() })
+    .eq('role', role)
+    .select('role, label, description, permissions, sort_order, require_2fa')
+    .single()
+
+  if (error) {
+    console.error('Error updating role two-factor requirement:', error)
+    throw error
+  }
+
+  return data
+}
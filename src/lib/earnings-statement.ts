@@ -0,0 +1,256 @@
+import { supabase, type ReferralCommission, type WithdrawalRequest } from './supabase'
+import { getFinancialYearRange } from './tds'
+
+export interface EarningsStatementMonth {
+  // First day of the month, YYYY-MM
+  month: string
+  commissions: number
+  amount: number
+}
+
+export interface EarningsStatementWithdrawal {
+  id: string
+  paid_at: string
+  gross_amount: number
+  tds_rate: number
+  tds_amount: number
+  net_amount: number
+  utr: string | null
+}
+
+export interface EarningsStatement {
+  financial_year: string
+  period_start: string
+  period_end: string
+  full_name: string
+  email: string
+  pan: string | null
+  tds_section: string | null
+  months: EarningsStatementMonth[]
+  withdrawals: EarningsStatementWithdrawal[]
+  total_earned: number
+  total_withdrawn: number
+  total_tds: number
+  total_net_paid: number
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+const toIstMonth = (date: string) =>
+  new Date(new Date(date).getTime() + 330 * 60 * 1000).toISOString().slice(0, 7)
+
+// Commissions credited to the wallet and withdrawals paid out during one
+// financial year. Commissions count from the day they became withdrawable;
+// voided and reversed ones are left out.
+export const getEarningsStatement = async (userId: string, financialYear: string): Promise<EarningsStatement> => {
+  try {
+    const range = getFinancialYearRange(financialYear)
+    const startTime = new Date(range.start).getTime()
+    const endTime = new Date(range.end).getTime()
+
+    const { data: profile, error: profileError } = await supabase
+      .from('user_profiles')
+      .select('id, full_name, email')
+      .eq('user_id', userId)
+      .single()
+
+    if (profileError) throw profileError
+
+    const [commissionsResult, withdrawalsResult, payoutResult] = await Promise.all([
+      supabase
+        .from('referral_commissions')
+        .select('*')
+        .eq('referrer_id', profile.id)
+        .eq('status', 'payable')
+        .lt('created_at', range.end),
+      supabase
+        .from('withdrawal_requests')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('status', 'paid')
+        .eq('financial_year', financialYear)
+        .order('paid_at', { ascending: true }),
+      supabase
+        .from('payout_profiles')
+        .select('pan_number, kyc_status')
+        .eq('user_id', userId)
+        .maybeSingle()
+    ])
+
+    if (commissionsResult.error) throw commissionsResult.error
+    if (withdrawalsResult.error) throw withdrawalsResult.error
+    if (payoutResult.error && payoutResult.error.code !== '42P01') throw payoutResult.error
+
+    const credited = (commissionsResult.data as ReferralCommission[] || [])
+      .map(commission => ({
+        amount: Number(commission.commission_amount),
+        credited_at: commission.matured_at || commission.created_at
+      }))
+      .filter(commission => {
+        const creditedTime = new Date(commission.credited_at).getTime()
+        return creditedTime >= startTime && creditedTime < endTime
+      })
+
+    const monthsByKey = new Map<string, EarningsStatementMonth>()
+    for (const commission of credited) {
+      const key = toIstMonth(commission.credited_at)
+      const month = monthsByKey.get(key) || { month: key, commissions: 0, amount: 0 }
+      month.commissions += 1
+      month.amount = round(month.amount + commission.amount)
+      monthsByKey.set(key, month)
+    }
+
+    const withdrawals = (withdrawalsResult.data as WithdrawalRequest[] || []).map(request => ({
+      id: request.id,
+      paid_at: request.paid_at || request.processed_at || request.requested_at,
+      gross_amount: Number(request.amount),
+      tds_rate: Number(request.tds_rate || 0),
+      tds_amount: Number(request.tds_amount || 0),
+      net_amount: Number(request.net_amount ?? request.amount),
+      utr: request.utr || null
+    }))
+
+    const lastWithPan = [...(withdrawalsResult.data as WithdrawalRequest[] || [])].reverse()
+    const verifiedPan = payoutResult.data?.kyc_status === 'verified' ? payoutResult.data.pan_number : null
+
+    return {
+      financial_year: financialYear,
+      period_start: range.start,
+      period_end: range.end,
+      full_name: profile.full_name || '',
+      email: profile.email || '',
+      pan: verifiedPan || lastWithPan.find(request => request.tds_pan)?.tds_pan || null,
+      tds_section: lastWithPan.find(request => request.tds_section)?.tds_section || null,
+      months: [...monthsByKey.values()].sort((a, b) => a.month.localeCompare(b.month)),
+      withdrawals,
+      total_earned: round(credited.reduce((sum, commission) => sum + commission.amount, 0)),
+      total_withdrawn: round(withdrawals.reduce((sum, withdrawal) => sum + withdrawal.gross_amount, 0)),
+      total_tds: round(withdrawals.reduce((sum, withdrawal) => sum + withdrawal.tds_amount, 0)),
+      total_net_paid: round(withdrawals.reduce((sum, withdrawal) => sum + withdrawal.net_amount, 0))
+    }
+  } catch (error) {
+    console.error('Error building earnings statement:', error)
+    throw error
+  }
+}
+
+// The PDF fonts have no rupee sign
+const formatRupees = (amount: number) =>
+  `Rs. ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' })
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-IN', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+
+export const downloadEarningsStatementPdf = async (statement: EarningsStatement) => {
+  // Loaded on demand; only needed when a statement is downloaded
+  const { jsPDF } = await import('jspdf')
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const left = 15
+  const right = 195
+  let y = 20
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - 20) {
+      doc.addPage()
+      y = 20
+    }
+  }
+
+  const row = (cells: { text: string; x: number; align?: 'left' | 'right' }[], bold = false) => {
+    ensureSpace(7)
+    doc.setFont('helvetica', bold ? 'bold' : 'normal')
+    for (const cell of cells) doc.text(cell.text, cell.x, y, { align: cell.align || 'left' })
+    y += 6
+  }
+
+  const heading = (text: string) => {
+    ensureSpace(14)
+    y += 4
+    doc.setFontSize(12)
+    doc.setFont('helvetica', 'bold')
+    doc.text(text, left, y)
+    doc.setFontSize(10)
+    y += 7
+  }
+
+  doc.setFontSize(16)
+  doc.setFont('helvetica', 'bold')
+  doc.text('Referral Earnings Statement', left, y)
+  y += 8
+  doc.setFontSize(10)
+  doc.setFont('helvetica', 'normal')
+  // period_end is the first moment of the next year; show the last day
+  const lastDay = new Date(new Date(statement.period_end).getTime() - 1).toISOString()
+  doc.text(`Financial year ${statement.financial_year} (${formatDate(statement.period_start)} to ${formatDate(lastDay)})`, left, y)
+  y += 10
+
+  row([{ text: 'Name', x: left }, { text: statement.full_name || '-', x: 60 }])
+  row([{ text: 'Email', x: left }, { text: statement.email || '-', x: 60 }])
+  row([{ text: 'PAN', x: left }, { text: statement.pan || 'Not verified', x: 60 }])
+
+  heading('Summary')
+  row([{ text: 'Commissions credited', x: left }, { text: formatRupees(statement.total_earned), x: right, align: 'right' }])
+  row([{ text: 'Withdrawals paid (gross)', x: left }, { text: formatRupees(statement.total_withdrawn), x: right, align: 'right' }])
+  row([
+    { text: `TDS deducted${statement.tds_section ? ` u/s ${statement.tds_section}` : ''}`, x: left },
+    { text: formatRupees(statement.total_tds), x: right, align: 'right' }
+  ])
+  row([{ text: 'Net amount received', x: left }, { text: formatRupees(statement.total_net_paid), x: right, align: 'right' }], true)
+
+  heading('Commissions by month')
+  if (statement.months.length === 0) {
+    row([{ text: 'No commissions were credited in this year.', x: left }])
+  } else {
+    row([{ text: 'Month', x: left }, { text: 'Commissions', x: 120, align: 'right' }, { text: 'Amount', x: right, align: 'right' }], true)
+    for (const month of statement.months) {
+      row([
+        { text: formatMonth(month.month), x: left },
+        { text: String(month.commissions), x: 120, align: 'right' },
+        { text: formatRupees(month.amount), x: right, align: 'right' }
+      ])
+    }
+  }
+
+  heading('Withdrawals paid')
+  if (statement.withdrawals.length === 0) {
+    row([{ text: 'No withdrawals were paid in this year.', x: left }])
+  } else {
+    row([
+      { text: 'Paid on', x: left },
+      { text: 'UTR', x: 45 },
+      { text: 'Gross', x: 120, align: 'right' },
+      { text: 'TDS', x: 155, align: 'right' },
+      { text: 'Net', x: right, align: 'right' }
+    ], true)
+    for (const withdrawal of statement.withdrawals) {
+      row([
+        { text: formatDate(withdrawal.paid_at), x: left },
+        { text: withdrawal.utr || '-', x: 45 },
+        { text: formatRupees(withdrawal.gross_amount), x: 120, align: 'right' },
+        { text: withdrawal.tds_amount > 0 ? `${formatRupees(withdrawal.tds_amount)} (${withdrawal.tds_rate}%)` : '-', x: 155, align: 'right' },
+        { text: formatRupees(withdrawal.net_amount), x: right, align: 'right' }
+      ])
+    }
+  }
+
+  ensureSpace(20)
+  y += 6
+  doc.setFont('helvetica', 'italic')
+  doc.setFontSize(8)
+  doc.text(
+    doc.splitTextToSize(
+      'Commissions are counted in the year they became withdrawable; voided and reversed commissions are excluded. ' +
+      'Withdrawals belong to the year they were approved in, when the tax on them is worked out. ' +
+      `Generated on ${formatDate(new Date().toISOString())}. This is a computer-generated statement and does not replace Form 16A.`,
+      right - left
+    ),
+    left,
+    y
+  )
+
+  doc.save(`earnings-statement-FY${statement.financial_year}.pdf`)
+}
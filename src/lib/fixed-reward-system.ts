@@ -1,5 +1,6 @@
 import { supabase } from './supabase'
-import { hasAdminAccess, supabaseAdmin } from './supabase-admin'
+import { calculateReferralReward, loadReferralRules, MAX_REFERRAL_LEVELS } from './referral-rules'
+import type { ReferralUplineMember } from './referral-tree'
 
 // Default reward structure for 7 levels (fallback values)
 export const DEFAULT_REFERRAL_REWARD_CONFIG = {
@@ -12,30 +13,20 @@ export const DEFAULT_REFERRAL_REWARD_CONFIG = {
   level7: 3,    // Level 7 gets ₹3
 }
 
-// Load reward configuration from database or use defaults
+// Per-level amounts of the subscription activation rule, in the shape the
+// referral displays use
 export const loadRewardConfig = async (): Promise<typeof DEFAULT_REFERRAL_REWARD_CONFIG> => {
-  try {
-    const { data, error } = await supabase
-      .from('system_settings')
-      .select('value')
-      .eq('key', 'referral_reward_config')
-      .single()
-
-    if (error || !data) {
-      console.log('Using default reward configuration')
-      return DEFAULT_REFERRAL_REWARD_CONFIG
-    }
+  const rules = await loadReferralRules()
+  const rule = rules.subscription_activation
+  const config = { ...DEFAULT_REFERRAL_REWARD_CONFIG }
 
-    // Merge database config with defaults to ensure all levels exist
-    return { ...DEFAULT_REFERRAL_REWARD_CONFIG, ...data.value }
-  } catch (error) {
-    console.error('Error loading reward config:', error)
-    return DEFAULT_REFERRAL_REWARD_CONFIG
+  for (let level = 1; level <= MAX_REFERRAL_LEVELS; level++) {
+    const rewardKey = `level${level}` as keyof typeof DEFAULT_REFERRAL_REWARD_CONFIG
+    config[rewardKey] = rule.enabled ? calculateReferralReward(rule, level) : 0
   }
-}
 
-// Current reward configuration (will be loaded from database)
-export let REFERRAL_REWARD_CONFIG = DEFAULT_REFERRAL_REWARD_CONFIG
+  return config
+}
 
 export interface ReferralChainUser {
   user_id: string
@@ -46,103 +37,35 @@ export interface ReferralChainUser {
   reward_amount: number
 }
 
-// Get the referral chain up to 7 levels
+// The referral chain up to 7 levels, resolved in one call by the
+// get_referral_upline function
 export const getReferralChain = async (userId: string): Promise<ReferralChainUser[]> => {
   try {
-    // Load current reward configuration
-    const rewardConfig = await loadRewardConfig()
-    const chain: ReferralChainUser[] = []
-    let currentUserId = userId
-
-    for (let level = 1; level <= 7; level++) {
-      // Get current user's profile to find who referred them
-      const { data: currentProfile, error: profileError } = await supabase
-        .from('user_profiles')
-        .select('id, user_id, full_name, referral_code, referred_by')
-        .eq('user_id', currentUserId)
-        .single()
-
-      if (profileError || !currentProfile || !currentProfile.referred_by) {
-        // No more referrers in the chain, stop here
-        break
-      }
-
-      // Get the referrer's details
-      const { data: referrerProfile, error: referrerError } = await supabase
-        .from('user_profiles')
-        .select('id, user_id, full_name, referral_code')
-        .eq('id', currentProfile.referred_by)
-        .single()
-
-      if (referrerError || !referrerProfile) {
-        // Referrer not found, stop the chain
-        break
-      }
-
-      // Get reward amount for this level
-      const rewardKey = `level${level}` as keyof typeof DEFAULT_REFERRAL_REWARD_CONFIG
-      const rewardAmount = rewardConfig[rewardKey]
-
-      // Add to chain
-      chain.push({
-        user_id: referrerProfile.user_id,
-        profile_id: referrerProfile.id,
-        full_name: referrerProfile.full_name || 'Unknown User',
-        referral_code: referrerProfile.referral_code,
-        level,
-        reward_amount: rewardAmount
+    const [rewardConfig, { data, error }] = await Promise.all([
+      loadRewardConfig(),
+      supabase.rpc('get_referral_upline', {
+        user_id_param: userId,
+        max_levels_param: MAX_REFERRAL_LEVELS
       })
+    ])
 
-      // Move up the chain
-      currentUserId = referrerProfile.user_id
-    }
-
-    return chain
-  } catch (error: any) {
-    console.error('Error getting referral chain:', error)
-    return []
-  }
-}
+    if (error) throw error
 
-// Process rewards for the entire referral chain
-export const processReferralRewards = async (
-  newActiveUserId: string,
-  trigger: 'subscription_activation' = 'subscription_activation'
-): Promise<void> => {
-  try {
-    console.log(`🔄 Processing referral rewards for user: ${newActiveUserId}, trigger: ${trigger}`)
+    return ((data as ReferralUplineMember[]) || []).map(referrer => {
+      const rewardKey = `level${referrer.level}` as keyof typeof DEFAULT_REFERRAL_REWARD_CONFIG
 
-    // Use the new database function for processing rewards
-    const { data, error } = await supabase.rpc('process_referral_rewards', {
-      new_active_user_id: newActiveUserId,
-      trigger_type_param: trigger
+      return {
+        user_id: referrer.user_id,
+        profile_id: referrer.id,
+        full_name: referrer.full_name || 'Unknown User',
+        referral_code: referrer.referral_code,
+        level: referrer.level,
+        reward_amount: rewardConfig[rewardKey]
+      }
     })
-
-    if (error) {
-      console.error('❌ Error calling process_referral_rewards:', {
-        message: error.message,
-        code: error.code,
-        details: error.details,
-        hint: error.hint,
-        fullError: error
-      })
-      throw new Error(`Referral rewards processing failed: ${error.message || error.code || 'Unknown error'}`)
-    }
-
-    if (data) {
-      console.log('✅ Referral rewards processed successfully:', data)
-      console.log(`💰 Total distributed: ₹${data.total_distributed}`)
-      console.log(`📊 Levels processed: ${data.levels_processed}`)
-    }
-
   } catch (error: any) {
-    console.error('❌ Error processing referral rewards:', {
-      message: error.message,
-      stack: error.stack,
-      name: error.name,
-      fullError: error
-    })
-    throw error
+    console.error('Error getting referral chain:', error)
+    return []
   }
 }
 
@@ -150,21 +73,19 @@ export const processReferralRewards = async (
 export const countReferralsByLevel = async (userId: string): Promise<Record<number, number>> => {
   try {
     const levelCounts: Record<number, number> = {}
-    
-    // Use the new database function to count referrals by level
-    const { data, error } = await supabase.rpc('count_referrals_by_level', {
-      user_uuid: userId
+
+    const { data, error } = await supabase.rpc('get_downline_level_counts', {
+      user_id_param: userId
     })
 
     if (error) {
-      console.error('Error calling count_referrals_by_level:', error)
+      console.error('Error calling get_downline_level_counts:', error)
       return levelCounts
     }
 
-    // Convert the result to the expected format
     if (data) {
-      data.forEach((row: any) => {
-        levelCounts[row.level] = parseInt(row.count)
+      data.forEach((row: { level: number; member_count: number }) => {
+        levelCounts[row.level] = Number(row.member_count)
       })
     }
 
@@ -223,22 +144,3 @@ export const getReferralsByLevel = async (userId: string): Promise<Record<number
     return {}
   }
 }
-
-// Update reward configuration (admin only)
-export const updateRewardConfig = async (newConfig: Partial<typeof REFERRAL_REWARD_CONFIG>): Promise<void> => {
-  try {
-    // In a production system, you might want to store this in the database
-    // For now, this function serves as a placeholder for future implementation
-    console.log('Reward configuration would be updated:', newConfig)
-    
-    // You could implement this by storing the config in a settings table:
-    // const client = getSafeClient(true)
-    // await client.from('system_settings').upsert({
-    //   key: 'referral_reward_config',
-    //   value: { ...REFERRAL_REWARD_CONFIG, ...newConfig }
-    // })
-  } catch (error: any) {
-    console.error('Error updating reward config:', error)
-    throw error
-  }
-}
@@ -0,0 +1,176 @@
+import { supabase } from './supabase'
+import { adminApi } from './admin-api'
+
+export type FraudFlagReason = 'self_referral' | 'duplicate_payout_account'
+export type FraudFlagStatus = 'open' | 'cleared' | 'reversed'
+export type FraudSignalType = 'device' | 'ip' | 'phone' | 'payout_upi' | 'payout_bank'
+
+export interface FraudFlagProfile {
+  id: string
+  user_id: string
+  full_name?: string | null
+  email?: string | null
+  referral_code?: string | null
+  created_at?: string
+}
+
+export interface FraudFlag {
+  id: string
+  profile_id: string
+  related_profile_id: string
+  reason: FraudFlagReason
+  signal_types: FraudSignalType[]
+  status: FraudFlagStatus
+  review_notes: string | null
+  reviewed_at: string | null
+  created_at: string
+  profile: FraudFlagProfile | null
+  related_profile: FraudFlagProfile | null
+  // Rewards this profile earned while flagged, waiting on the review
+  held_amount: number
+  // Rewards this profile has earned from the linked profile's activity
+  earned_from_related: number
+  // Rewards the linked profile has earned from this one; taken back too
+  // when a self-referral flag is reversed
+  related_earned: number
+}
+
+export const FRAUD_REASON_LABELS: Record<FraudFlagReason, string> = {
+  self_referral: 'Self-referral ring',
+  duplicate_payout_account: 'Shared payout account'
+}
+
+export const FRAUD_SIGNAL_LABELS: Record<FraudSignalType, string> = {
+  device: 'Same device',
+  ip: 'Same network',
+  phone: 'Same phone number',
+  payout_upi: 'Same UPI ID',
+  payout_bank: 'Same bank account'
+}
+
+const DEVICE_ID_KEY = 'device_id'
+const FINGERPRINT_RECORDED_KEY = 'device_fingerprint_recorded'
+// Sign-ins are recorded at most this often per user and browser
+const FINGERPRINT_INTERVAL_MS = 12 * 60 * 60 * 1000
+
+// A random id kept in this browser, sent with registrations and sign-ins so
+// accounts created on the same device can be linked
+export const getDeviceId = (): string | null => {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+    if (!deviceId) {
+      deviceId = crypto.randomUUID()
+      localStorage.setItem(DEVICE_ID_KEY, deviceId)
+    }
+    return deviceId
+  } catch {
+    // Storage is blocked (private mode, embedded browsers)
+    return null
+  }
+}
+
+// Records the device and network a user signed in from. Never throws: a
+// failure here must not get in the way of signing in.
+export const recordDeviceFingerprint = async (userId: string): Promise<void> => {
+  try {
+    const recordedKey = `${FINGERPRINT_RECORDED_KEY}:${userId}`
+    const lastRecorded = Number(localStorage.getItem(recordedKey) || 0)
+    if (Date.now() - lastRecorded < FINGERPRINT_INTERVAL_MS) return
+
+    const { data, error } = await supabase.functions.invoke('record-device-fingerprint', {
+      body: { deviceId: getDeviceId() }
+    })
+
+    if (error || !data?.success) {
+      console.error('Error recording device fingerprint:', error || data?.error)
+      return
+    }
+
+    localStorage.setItem(recordedKey, String(Date.now()))
+  } catch (error) {
+    console.error('Error recording device fingerprint:', error)
+  }
+}
+
+// Flags with both profiles and what is at stake on each (admin)
+export const getFraudFlags = async (status: FraudFlagStatus = 'open'): Promise<FraudFlag[]> => {
+  try {
+    const { data: flags, error } = await adminApi
+      .from('fraud_flags')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: status !== 'open' })
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+    if (!flags || flags.length === 0) return []
+
+    const flaggedIds = [...new Set(flags.map(flag => flag.profile_id as string))]
+    const profileIds = [...new Set([...flaggedIds, ...flags.map(flag => flag.related_profile_id as string)])]
+
+    const [profilesResult, commissionsResult] = await Promise.all([
+      adminApi
+        .from('user_profiles')
+        .select('id, user_id, full_name, email, referral_code, created_at')
+        .in('id', profileIds),
+      adminApi
+        .from('referral_commissions')
+        .select('referrer_id, referee_id, commission_amount, status, fraud_hold')
+        .in('referrer_id', profileIds)
+        .in('status', ['pending', 'payable'])
+    ])
+
+    if (profilesResult.error) throw profilesResult.error
+    if (commissionsResult.error) throw commissionsResult.error
+
+    const profilesById = new Map<string, FraudFlagProfile>()
+    for (const profile of profilesResult.data || []) profilesById.set(profile.id, profile)
+
+    const commissions = commissionsResult.data || []
+
+    return flags.map(flag => ({
+      ...flag,
+      signal_types: flag.signal_types || [],
+      profile: profilesById.get(flag.profile_id) || null,
+      related_profile: profilesById.get(flag.related_profile_id) || null,
+      held_amount: commissions
+        .filter(c => c.referrer_id === flag.profile_id && c.fraud_hold)
+        .reduce((sum, c) => sum + Number(c.commission_amount || 0), 0),
+      earned_from_related: commissions
+        .filter(c => c.referrer_id === flag.profile_id && c.referee_id === flag.related_profile_id)
+        .reduce((sum, c) => sum + Number(c.commission_amount || 0), 0),
+      related_earned: flag.reason === 'self_referral'
+        ? commissions
+          .filter(c => c.referrer_id === flag.related_profile_id && c.referee_id === flag.profile_id)
+          .reduce((sum, c) => sum + Number(c.commission_amount || 0), 0)
+        : 0
+    }))
+  } catch (error) {
+    console.error('Error fetching fraud flags:', error)
+    throw error
+  }
+}
+
+// clear releases the held rewards; reverse voids them and takes back what
+// the profile earned from the linked account (and, for a self-referral ring,
+// what the linked account earned from it)
+export const reviewFraudFlag = async (
+  flagId: string,
+  decision: 'clear' | 'reverse',
+  notes?: string
+): Promise<void> => {
+  if (decision === 'reverse' && !notes?.trim()) throw new Error('A note is required when reversing rewards')
+
+  const { error } = await adminApi.rpc('review_fraud_flag', {
+    flag_id_param: flagId,
+    decision_param: decision,
+    notes_param: notes?.trim() || null
+  })
+
+  if (error) {
+    console.error('Error reviewing fraud flag:', error)
+    throw error
+  }
+}
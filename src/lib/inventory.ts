@@ -0,0 +1,95 @@
+import { adminApi } from './admin-api'
+
+export type StockMovementType = 'sale' | 'cancellation' | 'refund' | 'adjustment' | 'restock'
+
+export interface StockMovement {
+  id: string
+  product_id: string
+  order_id?: string | null
+  movement_type: StockMovementType
+  quantity: number
+  stock_after: number
+  notes?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+export interface StockReservation {
+  id: string
+  order_id: string
+  product_id: string
+  quantity: number
+  status: 'active' | 'consumed' | 'released' | 'expired'
+  expires_at: string
+  released_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  cancellation: 'Cancellation',
+  refund: 'Refund',
+  adjustment: 'Manual adjustment',
+  restock: 'Restock'
+}
+
+// Get ledger entries for a product, newest first (admin)
+export const getProductStockMovements = async (productId: string, limit: number = 100): Promise<StockMovement[]> => {
+  try {
+    const { data, error } = await adminApi
+      .from('stock_movements')
+      .select('*')
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.log('stock_movements table does not exist, returning empty array')
+        return []
+      }
+      throw error
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching stock movements:', error)
+    throw error
+  }
+}
+
+// Get active reservations holding stock for a product (admin)
+export const getActiveStockReservations = async (productId: string): Promise<StockReservation[]> => {
+  try {
+    const { data, error } = await adminApi
+      .from('stock_reservations')
+      .select('*')
+      .eq('product_id', productId)
+      .eq('status', 'active')
+      .order('expires_at', { ascending: true })
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching stock reservations:', error)
+    return []
+  }
+}
+
+// Release reservations whose hold period has passed. Safe to call any time.
+export const releaseExpiredStockReservations = async (): Promise<number> => {
+  try {
+    const { data, error } = await adminApi.rpc('release_expired_stock_reservations')
+
+    if (error) throw error
+    return data || 0
+  } catch (error) {
+    console.error('Error releasing expired reservations:', error)
+    return 0
+  }
+}
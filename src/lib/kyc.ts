@@ -0,0 +1,317 @@
+import { supabase } from './supabase'
+import { adminApi } from './admin-api'
+import type { KycStatus } from './withdrawal-policy'
+
+export type PayoutAccountType = 'upi' | 'bank'
+export type VerificationStatus = 'pending' | 'verified' | 'rejected'
+export type KycDocumentType = 'pan' | 'aadhaar' | 'passport' | 'voter_id' | 'driving_licence'
+
+export interface PayoutAccount {
+  id: string
+  user_id: string
+  account_type: PayoutAccountType
+  upi_id: string | null
+  account_holder_name: string | null
+  account_number: string | null
+  ifsc: string | null
+  status: VerificationStatus
+  rejection_reason: string | null
+  cooling_ends_at: string | null
+  verified_at: string | null
+  created_at: string
+}
+
+export interface KycDocument {
+  id: string
+  user_id: string
+  document_type: KycDocumentType
+  document_number: string
+  storage_path: string
+  file_name: string | null
+  status: VerificationStatus
+  rejection_reason: string | null
+  reviewed_at: string | null
+  created_at: string
+}
+
+export interface KycQueueProfile {
+  full_name?: string
+  email?: string
+  phone?: string
+}
+
+export interface KycQueue {
+  documents: (KycDocument & { user_profile: KycQueueProfile | null })[]
+  accounts: (PayoutAccount & { user_profile: KycQueueProfile | null })[]
+}
+
+export const KYC_DOCUMENT_LABELS: Record<KycDocumentType, string> = {
+  pan: 'PAN card',
+  aadhaar: 'Aadhaar',
+  passport: 'Passport',
+  voter_id: 'Voter ID',
+  driving_licence: 'Driving licence'
+}
+
+export const KYC_STATUS_LABELS: Record<KycStatus, string> = {
+  not_submitted: 'Not submitted',
+  pending: 'Under review',
+  verified: 'Verified',
+  rejected: 'Rejected'
+}
+
+const KYC_BUCKET = 'kyc-documents'
+const MAX_DOCUMENT_SIZE = 5 * 1024 * 1024
+const ALLOWED_DOCUMENT_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'application/pdf']
+
+// Format checks; the database functions apply the same rules
+export const isValidVpa = (value: string) => /^[a-zA-Z0-9.\-_]{2,}@[a-zA-Z]{2,}$/.test(value.trim())
+export const isValidIfsc = (value: string) => /^[A-Z]{4}0[A-Z0-9]{6}$/.test(value.trim().toUpperCase())
+export const isValidAccountNumber = (value: string) => /^\d{9,18}$/.test(value.replace(/\s/g, ''))
+export const isValidPan = (value: string) => /^[A-Z]{5}[0-9]{4}[A-Z]$/.test(value.replace(/\s/g, '').toUpperCase())
+
+export const validateDocumentFile = (file: File): string | null => {
+  if (!ALLOWED_DOCUMENT_TYPES.includes(file.type)) return 'Please upload an image (JPG, PNG, WebP) or PDF file'
+  if (file.size > MAX_DOCUMENT_SIZE) return 'File size must be less than 5MB'
+  return null
+}
+
+export const maskAccountNumber = (accountNumber: string | null | undefined) =>
+  accountNumber ? `XXXX${accountNumber.slice(-4)}` : ''
+
+// How an account is shown in lists and the withdrawal dialog
+export const describePayoutAccount = (account: Pick<PayoutAccount, 'account_type' | 'upi_id' | 'account_number' | 'ifsc'>) =>
+  account.account_type === 'upi'
+    ? account.upi_id || ''
+    : `A/c ${maskAccountNumber(account.account_number)} · ${account.ifsc}`
+
+export const getPayoutAccounts = async (userId: string): Promise<PayoutAccount[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('payout_accounts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching payout accounts:', error)
+    throw error
+  }
+}
+
+export const addPayoutAccount = async (
+  account: { type: 'upi'; upiId: string; holderName?: string } | { type: 'bank'; holderName: string; accountNumber: string; ifsc: string }
+): Promise<PayoutAccount> => {
+  if (account.type === 'upi' && !isValidVpa(account.upiId)) {
+    throw new Error('Please enter a valid UPI ID (e.g., yourname@paytm)')
+  }
+  if (account.type === 'bank') {
+    if (!account.holderName.trim()) throw new Error('Enter the account holder\'s name as printed on the passbook')
+    if (!isValidAccountNumber(account.accountNumber)) throw new Error('Bank account numbers are 9 to 18 digits')
+    if (!isValidIfsc(account.ifsc)) throw new Error('Please enter a valid IFSC (e.g., SBIN0001234)')
+  }
+
+  const { data, error } = await supabase.rpc('add_payout_account', account.type === 'upi'
+    ? { account_type_param: 'upi', upi_id_param: account.upiId, account_holder_name_param: account.holderName || null }
+    : {
+        account_type_param: 'bank',
+        account_holder_name_param: account.holderName,
+        account_number_param: account.accountNumber,
+        ifsc_param: account.ifsc
+      })
+
+  if (error) {
+    console.error('Error adding payout account:', error)
+    throw error
+  }
+
+  return data
+}
+
+export const removePayoutAccount = async (accountId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('payout_accounts')
+    .delete()
+    .eq('id', accountId)
+
+  if (error) {
+    console.error('Error removing payout account:', error)
+    throw error
+  }
+}
+
+export const getKycDocuments = async (userId: string): Promise<KycDocument[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('kyc_documents')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching KYC documents:', error)
+    throw error
+  }
+}
+
+export const getKycStatus = async (userId: string): Promise<KycStatus> => {
+  const { data, error } = await supabase
+    .from('payout_profiles')
+    .select('kyc_status')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    if (error.code === '42P01') return 'not_submitted'
+    console.error('Error fetching KYC status:', error)
+    throw error
+  }
+
+  return data?.kyc_status || 'not_submitted'
+}
+
+// Upload a document to the user's folder in the private bucket and submit it for review
+export const uploadKycDocument = async (
+  userId: string,
+  documentType: KycDocumentType,
+  documentNumber: string,
+  file: File
+): Promise<KycDocument> => {
+  const fileError = validateDocumentFile(file)
+  if (fileError) throw new Error(fileError)
+  if (documentType === 'pan' && !isValidPan(documentNumber)) {
+    throw new Error('Please enter a valid PAN (e.g., ABCDE1234F)')
+  }
+
+  const fileExt = file.name.split('.').pop()
+  const fileName = `${userId}/${documentType}-${Date.now()}.${fileExt}`
+
+  const { data: uploadData, error: uploadError } = await supabase.storage
+    .from(KYC_BUCKET)
+    .upload(fileName, file)
+
+  if (uploadError) {
+    console.error('Error uploading KYC document:', uploadError)
+    throw new Error(`Failed to upload document: ${uploadError.message}`)
+  }
+
+  const { data, error } = await supabase.rpc('submit_kyc_document', {
+    document_type_param: documentType,
+    document_number_param: documentNumber,
+    storage_path_param: uploadData.path,
+    file_name_param: file.name
+  })
+
+  if (error) {
+    console.error('Error submitting KYC document:', error)
+    await supabase.storage.from(KYC_BUCKET).remove([uploadData.path])
+    throw error
+  }
+
+  return data
+}
+
+// Signed link to a KYC document; works for the owner and for admins
+export const getKycDocumentUrl = async (storagePath: string): Promise<string | null> => {
+  try {
+    const { data, error } = await adminApi.storage
+      .from(KYC_BUCKET)
+      .createSignedUrl(storagePath, 60 * 10)
+
+    if (error) {
+      console.error('Error creating KYC document link:', error)
+      return null
+    }
+
+    return data.signedUrl
+  } catch (error) {
+    console.error('Error in getKycDocumentUrl:', error)
+    return null
+  }
+}
+
+// Documents and payout accounts waiting for review, oldest first (admin)
+export const getKycQueue = async (): Promise<KycQueue> => {
+  try {
+    const [documentsResult, accountsResult] = await Promise.all([
+      adminApi.from('kyc_documents').select('*').eq('status', 'pending').order('created_at', { ascending: true }),
+      adminApi.from('payout_accounts').select('*').eq('status', 'pending').order('created_at', { ascending: true })
+    ])
+
+    if (documentsResult.error && documentsResult.error.code !== '42P01') throw documentsResult.error
+    if (accountsResult.error && accountsResult.error.code !== '42P01') throw accountsResult.error
+
+    const documents: KycDocument[] = documentsResult.data || []
+    const accounts: PayoutAccount[] = accountsResult.data || []
+    const userIds = [...new Set([...documents, ...accounts].map(item => item.user_id))]
+
+    const profilesByUser = new Map<string, KycQueueProfile>()
+    if (userIds.length > 0) {
+      const { data: profiles, error } = await adminApi
+        .from('user_profiles')
+        .select('user_id, full_name, email, phone')
+        .in('user_id', userIds)
+
+      if (error) throw error
+      for (const profile of profiles || []) profilesByUser.set(profile.user_id, profile)
+    }
+
+    return {
+      documents: documents.map(document => ({ ...document, user_profile: profilesByUser.get(document.user_id) || null })),
+      accounts: accounts.map(account => ({ ...account, user_profile: profilesByUser.get(account.user_id) || null }))
+    }
+  } catch (error) {
+    console.error('Error fetching KYC queue:', error)
+    throw error
+  }
+}
+
+export const reviewKycDocument = async (
+  documentId: string,
+  decision: 'verified' | 'rejected',
+  reason?: string
+): Promise<void> => {
+  if (decision === 'rejected' && !reason?.trim()) throw new Error('A reason is required when rejecting a document')
+
+  const { error } = await adminApi.rpc('review_kyc_document', {
+    document_id_param: documentId,
+    decision_param: decision,
+    reason_param: reason?.trim() || null
+  })
+
+  if (error) {
+    console.error('Error reviewing KYC document:', error)
+    throw error
+  }
+}
+
+export const reviewPayoutAccount = async (
+  accountId: string,
+  decision: 'verified' | 'rejected',
+  reason?: string
+): Promise<void> => {
+  if (decision === 'rejected' && !reason?.trim()) throw new Error('A reason is required when rejecting a payout account')
+
+  const { error } = await adminApi.rpc('review_payout_account', {
+    account_id_param: accountId,
+    decision_param: decision,
+    reason_param: reason?.trim() || null
+  })
+
+  if (error) {
+    console.error('Error reviewing payout account:', error)
+    throw error
+  }
+}
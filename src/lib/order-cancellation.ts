@@ -0,0 +1,258 @@
+import { supabase, type Order } from './supabase'
+import { adminApi } from './admin-api'
+import type { OrderStatus } from './order-status'
+
+export type CancellationRequestStatus = 'pending' | 'approved' | 'rejected'
+export type RefundStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface OrderCancellationRequest {
+  id: string
+  order_id: string
+  user_id: string
+  reason?: string | null
+  refund_upi_id?: string | null
+  order_status_at_request: OrderStatus
+  status: CancellationRequestStatus
+  admin_notes?: string | null
+  requested_at: string
+  processed_at?: string | null
+  processed_by?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface Refund {
+  id: string
+  order_id: string
+  user_id: string
+  cancellation_request_id?: string | null
+  amount: number
+  upi_id?: string | null
+  reference?: string | null
+  status: RefundStatus
+  notes?: string | null
+  processed_at?: string | null
+  processed_by?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CancellationRequestWithOrder extends OrderCancellationRequest {
+  order?: Pick<Order, 'id' | 'total_amount' | 'status' | 'created_at'> | null
+  user_profile?: { full_name: string; phone?: string } | null
+}
+
+export interface RefundWithProfile extends Refund {
+  user_profile?: { full_name: string; phone?: string } | null
+}
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  completed: 'Refunded',
+  failed: 'Failed'
+}
+
+// Attach user_profiles rows to records keyed by auth user id
+const attachUserProfiles = async <T extends { user_id: string }>(
+  rows: T[]
+): Promise<(T & { user_profile?: { full_name: string; phone?: string } | null })[]> => {
+  if (rows.length === 0) return []
+
+  const userIds = [...new Set(rows.map(row => row.user_id))]
+
+  const { data: profiles, error } = await adminApi
+    .from('user_profiles')
+    .select('user_id, full_name, phone')
+    .in('user_id', userIds)
+
+  if (error) {
+    console.error('Error fetching user profiles:', error)
+    return rows
+  }
+
+  return rows.map(row => ({
+    ...row,
+    user_profile: profiles?.find(profile => profile.user_id === row.user_id) || null
+  }))
+}
+
+// Cancel an order as the signed-in customer. Returns the request, which is
+// already approved if the order was still cancellable.
+export const requestOrderCancellation = async (
+  orderId: string,
+  reason?: string,
+  refundUpiId?: string
+): Promise<OrderCancellationRequest> => {
+  try {
+    const { data, error } = await supabase.rpc('request_order_cancellation', {
+      order_id_param: orderId,
+      reason_param: reason || null,
+      refund_upi_id_param: refundUpiId || null
+    })
+
+    if (error) {
+      console.error('Error requesting order cancellation:', error.message)
+      throw new Error(error.message)
+    }
+
+    return data as OrderCancellationRequest
+  } catch (error) {
+    console.error('Request order cancellation error:', error)
+    throw error
+  }
+}
+
+// Get the signed-in user's cancellation requests, newest first
+export const getUserCancellationRequests = async (userId: string): Promise<OrderCancellationRequest[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('order_cancellation_requests')
+      .select('*')
+      .eq('user_id', userId)
+      .order('requested_at', { ascending: false })
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching cancellation requests:', error)
+    return []
+  }
+}
+
+// Get the signed-in user's refunds, newest first
+export const getUserRefunds = async (userId: string): Promise<Refund[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('refunds')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching refunds:', error)
+    return []
+  }
+}
+
+// Get every cancellation request with its order and customer (admin)
+export const getAllCancellationRequests = async (): Promise<CancellationRequestWithOrder[]> => {
+  try {
+    const { data, error } = await adminApi
+      .from('order_cancellation_requests')
+      .select('*, order:orders(id, total_amount, status, created_at)')
+      .order('requested_at', { ascending: false })
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.log('order_cancellation_requests table does not exist, returning empty array')
+        return []
+      }
+      throw error
+    }
+
+    return attachUserProfiles(data || [])
+  } catch (error) {
+    console.error('Error fetching cancellation requests:', error)
+    throw error
+  }
+}
+
+// Approve or reject a pending cancellation request (admin)
+export const processCancellationRequest = async (
+  requestId: string,
+  approve: boolean,
+  adminNotes?: string
+): Promise<OrderCancellationRequest> => {
+  try {
+    const { data, error } = await adminApi.rpc('process_order_cancellation_request', {
+      request_id_param: requestId,
+      approve_param: approve,
+      admin_notes_param: adminNotes || null
+    })
+
+    if (error) {
+      console.error('Error processing cancellation request:', error.message)
+      throw new Error(`Failed to process cancellation request: ${error.message}`)
+    }
+
+    return data as OrderCancellationRequest
+  } catch (error) {
+    console.error('Process cancellation request error:', error)
+    throw error
+  }
+}
+
+// Get every refund with its customer (admin)
+export const getAllRefunds = async (): Promise<RefundWithProfile[]> => {
+  try {
+    const { data, error } = await adminApi
+      .from('refunds')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.log('refunds table does not exist, returning empty array')
+        return []
+      }
+      throw error
+    }
+
+    return attachUserProfiles(data || [])
+  } catch (error) {
+    console.error('Error fetching refunds:', error)
+    throw error
+  }
+}
+
+// Record progress on a refund: the UPI ID it was sent to and the bank
+// reference once it is paid (admin)
+export const updateRefund = async (
+  refundId: string,
+  updates: {
+    status: RefundStatus
+    upi_id?: string
+    reference?: string
+    notes?: string
+  }
+): Promise<Refund> => {
+  try {
+    if (updates.status === 'completed' && !updates.reference?.trim()) {
+      throw new Error('A payment reference is required to mark a refund as completed')
+    }
+
+    const isFinal = updates.status === 'completed' || updates.status === 'failed'
+
+    const { data, error } = await adminApi
+      .from('refunds')
+      .update({
+        ...updates,
+        processed_at: isFinal ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', refundId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating refund:', error.message)
+      throw new Error(`Failed to update refund: ${error.message}`)
+    }
+
+    return data as Refund
+  } catch (error) {
+    console.error('Update refund error:', error)
+    throw error
+  }
+}
@@ -85,34 +85,64 @@ export const needsPaymentAction = (status: OrderStatus): boolean => {
   return status === ORDER_STATUS.PAYMENT_PENDING;
 };
 
+// Legal status transitions. This is the single source of truth on the client;
+// the order_status_transitions table enforces the same map in the database.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [ORDER_STATUS.PENDING]: [ORDER_STATUS.CONFIRMED, ORDER_STATUS.CANCELLED],
+  [ORDER_STATUS.CONFIRMED]: [ORDER_STATUS.PAYMENT_PENDING, ORDER_STATUS.CANCELLED],
+  [ORDER_STATUS.PAYMENT_PENDING]: [ORDER_STATUS.PAID, ORDER_STATUS.PAYMENT_FAILED, ORDER_STATUS.CANCELLED],
+  [ORDER_STATUS.PAID]: [ORDER_STATUS.PROCESSING, ORDER_STATUS.CANCELLED],
+  [ORDER_STATUS.PROCESSING]: [ORDER_STATUS.SHIPPED, ORDER_STATUS.CANCELLED],
+  [ORDER_STATUS.SHIPPED]: [ORDER_STATUS.DELIVERED],
+  [ORDER_STATUS.DELIVERED]: [ORDER_STATUS.COMPLETED, ORDER_STATUS.REFUNDED],
+  [ORDER_STATUS.PAYMENT_FAILED]: [ORDER_STATUS.PAYMENT_PENDING, ORDER_STATUS.CANCELLED],
+  [ORDER_STATUS.COMPLETED]: [],
+  [ORDER_STATUS.CANCELLED]: [],
+  [ORDER_STATUS.REFUNDED]: []
+};
+
+// Short labels for selects and badges
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  [ORDER_STATUS.PENDING]: 'Pending',
+  [ORDER_STATUS.CONFIRMED]: 'Confirmed',
+  [ORDER_STATUS.PAYMENT_PENDING]: 'Payment Pending',
+  [ORDER_STATUS.PAID]: 'Paid',
+  [ORDER_STATUS.PAYMENT_FAILED]: 'Payment Failed',
+  [ORDER_STATUS.PROCESSING]: 'Processing',
+  [ORDER_STATUS.SHIPPED]: 'Shipped',
+  [ORDER_STATUS.DELIVERED]: 'Delivered',
+  [ORDER_STATUS.COMPLETED]: 'Completed',
+  [ORDER_STATUS.CANCELLED]: 'Cancelled',
+  [ORDER_STATUS.REFUNDED]: 'Refunded'
+};
+
 // Get next possible statuses for admin actions
 export const getNextStatuses = (currentStatus: OrderStatus): OrderStatus[] => {
-  switch (currentStatus) {
-    case ORDER_STATUS.PENDING:
-      return [ORDER_STATUS.CONFIRMED, ORDER_STATUS.CANCELLED];
-    
-    case ORDER_STATUS.CONFIRMED:
-      return [ORDER_STATUS.PAYMENT_PENDING, ORDER_STATUS.CANCELLED];
-    
-    case ORDER_STATUS.PAYMENT_PENDING:
-      return [ORDER_STATUS.PAID, ORDER_STATUS.PAYMENT_FAILED, ORDER_STATUS.CANCELLED];
-    
-    case ORDER_STATUS.PAID:
-      return [ORDER_STATUS.PROCESSING, ORDER_STATUS.CANCELLED];
-    
-    case ORDER_STATUS.PROCESSING:
-      return [ORDER_STATUS.SHIPPED, ORDER_STATUS.CANCELLED];
-    
-    case ORDER_STATUS.SHIPPED:
-      return [ORDER_STATUS.DELIVERED];
-    
-    case ORDER_STATUS.DELIVERED:
-      return [ORDER_STATUS.COMPLETED, ORDER_STATUS.REFUNDED];
-    
-    case ORDER_STATUS.PAYMENT_FAILED:
-      return [ORDER_STATUS.PAYMENT_PENDING, ORDER_STATUS.CANCELLED];
-    
-    default:
-      return [];
-  }
+  return ORDER_STATUS_TRANSITIONS[currentStatus] || [];
+};
+
+// Check whether an order may move from one status to another
+export const isValidStatusTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+  return getNextStatuses(from).includes(to);
+};
+
+// Orders past the point of instant cancellation can still be cancelled or
+// returned, but only through a request that an admin approves
+export const canRequestCancellation = (status: OrderStatus): boolean => {
+  return ([
+    ORDER_STATUS.PROCESSING,
+    ORDER_STATUS.SHIPPED,
+    ORDER_STATUS.DELIVERED
+  ] as OrderStatus[]).includes(status);
+};
+
+// Check whether money has been collected for an order in this status
+export const isOrderPaid = (status: OrderStatus): boolean => {
+  return ([
+    ORDER_STATUS.PAID,
+    ORDER_STATUS.PROCESSING,
+    ORDER_STATUS.SHIPPED,
+    ORDER_STATUS.DELIVERED,
+    ORDER_STATUS.COMPLETED
+  ] as OrderStatus[]).includes(status);
 };
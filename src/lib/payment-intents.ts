@@ -0,0 +1,130 @@
+import { supabase, type CartItem } from './supabase'
+
+export type PaymentIntentPurpose = 'order' | 'subscription'
+export type PaymentIntentStatus = 'open' | 'attached' | 'paid' | 'expired' | 'cancelled'
+
+// A server-issued UPI payment: the unique reference goes into the UPI tn/tr
+// fields and the amount may carry a paise offset so each in-flight payment
+// can be told apart on a bank statement.
+export interface PaymentIntent {
+  id: string
+  user_id: string
+  purpose: PaymentIntentPurpose
+  reference: string
+  base_amount: number
+  amount_offset: number
+  amount: number
+  plan_id?: string | null
+  status: PaymentIntentStatus
+  order_id?: string | null
+  subscription_request_id?: string | null
+  expires_at: string
+  attached_at?: string | null
+  paid_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export const PAYMENT_INTENT_STATUS_LABELS: Record<PaymentIntentStatus, string> = {
+  open: 'Awaiting payment',
+  attached: 'Awaiting verification',
+  paid: 'Paid',
+  expired: 'Expired',
+  cancelled: 'Cancelled'
+}
+
+// References look like MTV7K2QH9XR4; used to spot them in statement narrations
+export const PAYMENT_REFERENCE_PATTERN = /MTV[2-9A-HJKMNP-Z]{9}/i
+
+const normalizeIntent = (data: PaymentIntent): PaymentIntent => ({
+  ...data,
+  base_amount: Number(data.base_amount),
+  amount_offset: Number(data.amount_offset),
+  amount: Number(data.amount)
+})
+
+const createPaymentIntent = async (params: {
+  purpose_param: PaymentIntentPurpose
+  items_param?: { product_id: string; quantity: number }[]
+  plan_id_param?: string
+}): Promise<PaymentIntent> => {
+  try {
+    const { data, error } = await supabase.rpc('create_payment_intent', {
+      purpose_param: params.purpose_param,
+      items_param: params.items_param ?? null,
+      plan_id_param: params.plan_id_param ?? null
+    })
+
+    if (error) {
+      console.error('Error creating payment intent:', error.message)
+      throw new Error(error.message)
+    }
+
+    return normalizeIntent(data as PaymentIntent)
+  } catch (error) {
+    console.error('Create payment intent error:', error)
+    throw error
+  }
+}
+
+// Price the cart server-side and reserve a unique amount and reference
+export const createOrderPaymentIntent = async (cartItems: CartItem[]): Promise<PaymentIntent> => {
+  return createPaymentIntent({
+    purpose_param: 'order',
+    items_param: cartItems.map(item => ({
+      product_id: item.product_id,
+      quantity: item.quantity
+    }))
+  })
+}
+
+export const createSubscriptionPaymentIntent = async (planId: string): Promise<PaymentIntent> => {
+  return createPaymentIntent({
+    purpose_param: 'subscription',
+    plan_id_param: planId
+  })
+}
+
+// Link an intent to the order or subscription request created for it
+export const attachPaymentIntent = async (
+  intentId: string,
+  target: { orderId?: string; subscriptionRequestId?: string }
+): Promise<PaymentIntent> => {
+  try {
+    const { data, error } = await supabase.rpc('attach_payment_intent', {
+      intent_id_param: intentId,
+      order_id_param: target.orderId ?? null,
+      subscription_request_id_param: target.subscriptionRequestId ?? null
+    })
+
+    if (error) {
+      console.error('Error attaching payment intent:', error.message)
+      throw new Error(error.message)
+    }
+
+    return normalizeIntent(data as PaymentIntent)
+  } catch (error) {
+    console.error('Attach payment intent error:', error)
+    throw error
+  }
+}
+
+// upi://pay link carrying the intent reference as both note and transaction ref
+export const buildUpiPaymentUrl = (params: {
+  upiId: string
+  merchantName: string
+  amount: number
+  reference: string
+  note?: string
+}): string => {
+  const query = new URLSearchParams({
+    pa: params.upiId.trim(),
+    pn: params.merchantName.trim(),
+    am: params.amount.toFixed(2),
+    cu: 'INR',
+    tn: params.note ? `${params.reference} ${params.note}` : params.reference,
+    tr: params.reference
+  })
+
+  return `upi://pay?${query.toString()}`
+}
@@ -0,0 +1,245 @@
+import { supabase, type Order } from './supabase'
+import { adminApi } from './admin-api'
+import { attachPaymentIntent, type PaymentIntent } from './payment-intents'
+import { createPaymentNotification } from './payment-notifications'
+
+export type PaymentProviderId = NonNullable<Order['payment_provider']>
+
+export interface PaymentProviderConfig {
+  provider: PaymentProviderId
+}
+
+export const DEFAULT_PAYMENT_PROVIDER_CONFIG: PaymentProviderConfig = {
+  provider: 'upi_manual'
+}
+
+export interface PaymentRequest {
+  order: Order
+  customer: {
+    userId: string
+    name?: string
+    email?: string
+    phone?: string
+  }
+  // Manual UPI only: the intent shown to the customer and the payee UPI ID
+  intent?: PaymentIntent | null
+  upiId?: string
+  note?: string
+}
+
+export interface PaymentResult {
+  // paid: confirmed by the gateway; pending_verification: an admin must verify
+  status: 'paid' | 'pending_verification'
+  paymentId?: string
+}
+
+// Thrown when the customer closes the gateway window without paying
+export class PaymentCancelledError extends Error {
+  constructor() {
+    super('Payment was cancelled')
+    this.name = 'PaymentCancelledError'
+  }
+}
+
+export interface PaymentProvider {
+  id: PaymentProviderId
+  label: string
+  description: string
+  // Manual UPI shows its QR code before the order exists; gateways need the
+  // order first so the payment can be tied to it
+  createsOrderBeforePayment: boolean
+  collectPayment: (request: PaymentRequest) => Promise<PaymentResult>
+}
+
+// Customer pays by QR/UPI link, then reports it; an admin (or statement
+// reconciliation) verifies the payment later
+export const upiManualProvider: PaymentProvider = {
+  id: 'upi_manual',
+  label: 'UPI (manual verification)',
+  description: 'Customers scan a UPI QR code and payments are verified by an admin',
+  createsOrderBeforePayment: false,
+  collectPayment: async ({ order, customer, intent, upiId, note }) => {
+    if (!upiId) {
+      throw new Error('No UPI ID configured. Please contact admin to set up payment method.')
+    }
+
+    if (intent) {
+      try {
+        await attachPaymentIntent(intent.id, { orderId: order.id })
+      } catch (error) {
+        console.error('Payment intent could not be attached:', error)
+      }
+    }
+
+    const notification = await createPaymentNotification(
+      order.id,
+      customer.userId,
+      intent?.amount ?? order.total_amount,
+      upiId,
+      undefined,
+      note || 'Payment completed via UPI'
+    )
+
+    return { status: 'pending_verification', paymentId: notification.id }
+  }
+}
+
+interface RazorpayCheckoutResponse {
+  razorpay_order_id: string
+  razorpay_payment_id: string
+  razorpay_signature: string
+}
+
+interface RazorpayCheckout {
+  open: () => void
+  on: (event: 'payment.failed', handler: (response: { error: { description?: string } }) => void) => void
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => RazorpayCheckout
+  }
+}
+
+const RAZORPAY_CHECKOUT_URL = 'https://checkout.razorpay.com/v1/checkout.js'
+let razorpayScript: Promise<void> | null = null
+
+const loadRazorpayCheckout = (): Promise<void> => {
+  if (window.Razorpay) return Promise.resolve()
+
+  if (!razorpayScript) {
+    razorpayScript = new Promise((resolve, reject) => {
+      const script = document.createElement('script')
+      script.src = RAZORPAY_CHECKOUT_URL
+      script.async = true
+      script.onload = () => resolve()
+      script.onerror = () => {
+        razorpayScript = null
+        reject(new Error('Could not load Razorpay. Please check your connection and try again.'))
+      }
+      document.body.appendChild(script)
+    })
+  }
+
+  return razorpayScript
+}
+
+// Error bodies from edge functions arrive on error.context as a Response
+const invokeEdgeFunction = async <T>(name: string, body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body })
+
+  if (error) {
+    let message = error.message
+    try {
+      const details = await (error as { context?: Response }).context?.json()
+      if (details?.error) message = details.error
+    } catch {
+      // Keep the generic message
+    }
+    throw new Error(message)
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || `${name} failed`)
+  }
+
+  return data as T
+}
+
+// Customer pays in Razorpay Checkout; the payment is confirmed by the
+// verify-payment function and, independently, by the razorpay-webhook function
+export const razorpayProvider: PaymentProvider = {
+  id: 'razorpay',
+  label: 'Razorpay',
+  description: 'Cards, UPI, netbanking and wallets through Razorpay, confirmed automatically',
+  createsOrderBeforePayment: true,
+  collectPayment: async ({ order, customer }) => {
+    const paymentOrder = await invokeEdgeFunction<{
+      razorpayOrderId: string
+      amount: number
+      currency: string
+      keyId: string
+    }>('create-payment-order', { orderId: order.id })
+
+    await loadRazorpayCheckout()
+
+    const response = await new Promise<RazorpayCheckoutResponse>((resolve, reject) => {
+      const checkout = new window.Razorpay!({
+        key: paymentOrder.keyId,
+        amount: paymentOrder.amount,
+        currency: paymentOrder.currency,
+        order_id: paymentOrder.razorpayOrderId,
+        name: 'MATRATV CARE',
+        description: `Order ${order.id.substring(0, 8)}`,
+        prefill: {
+          name: customer.name,
+          email: customer.email,
+          contact: customer.phone
+        },
+        notes: { order_id: order.id },
+        handler: resolve,
+        modal: {
+          ondismiss: () => reject(new PaymentCancelledError())
+        }
+      })
+
+      checkout.on('payment.failed', (failure) => {
+        reject(new Error(failure.error?.description || 'Payment failed. Please try again.'))
+      })
+
+      checkout.open()
+    })
+
+    const verification = await invokeEdgeFunction<{ paymentId: string }>('verify-payment', {
+      ...response,
+      orderId: order.id
+    })
+
+    return { status: 'paid', paymentId: verification.paymentId }
+  }
+}
+
+export const PAYMENT_PROVIDERS: Record<PaymentProviderId, PaymentProvider> = {
+  upi_manual: upiManualProvider,
+  razorpay: razorpayProvider
+}
+
+// Load the provider selection from system_settings, falling back to manual UPI
+export const loadPaymentProviderConfig = async (): Promise<PaymentProviderConfig> => {
+  try {
+    const { data, error } = await supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'payment_provider_config')
+      .maybeSingle()
+
+    if (error || !data?.value) return DEFAULT_PAYMENT_PROVIDER_CONFIG
+
+    const config = { ...DEFAULT_PAYMENT_PROVIDER_CONFIG, ...data.value }
+    return PAYMENT_PROVIDERS[config.provider as PaymentProviderId] ? config : DEFAULT_PAYMENT_PROVIDER_CONFIG
+  } catch (error) {
+    console.error('Error loading payment provider config:', error)
+    return DEFAULT_PAYMENT_PROVIDER_CONFIG
+  }
+}
+
+export const getActivePaymentProvider = async (): Promise<PaymentProvider> => {
+  const config = await loadPaymentProviderConfig()
+  return PAYMENT_PROVIDERS[config.provider]
+}
+
+// Choose the checkout provider (admin)
+export const savePaymentProviderConfig = async (config: PaymentProviderConfig): Promise<void> => {
+  const { error } = await adminApi
+    .from('system_settings')
+    .upsert({
+      key: 'payment_provider_config',
+      value: config,
+      description: 'Checkout payment provider: upi_manual (QR code, verified by an admin) or razorpay'
+    }, { onConflict: 'key' })
+
+  if (error) {
+    console.error('Error saving payment provider config:', error)
+    throw error
+  }
+}
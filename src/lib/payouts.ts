@@ -0,0 +1,280 @@
+import type { WithdrawalRequest } from './supabase'
+import { adminApi } from './admin-api'
+import { maskAccountNumber } from './kyc'
+
+export type PayoutFileFormat = 'upi_bulk' | 'bank_bulk'
+export type PayoutOutcome = 'paid' | 'failed'
+
+export interface PayoutBatch {
+  id: string
+  reference: string
+  file_format: PayoutFileFormat
+  status: 'open' | 'completed'
+  line_count: number
+  total_amount: number
+  paid_count: number
+  paid_amount: number
+  failed_count: number
+  created_by?: string | null
+  created_at: string
+  completed_at?: string | null
+}
+
+// A withdrawal request as it appears in a batch or the list of payable requests
+export interface PayoutLine extends WithdrawalRequest {
+  user_profiles: {
+    full_name: string
+    email?: string
+    phone?: string
+  } | null
+}
+
+interface PayoutFileSpec {
+  label: string
+  description: string
+  headers: string[]
+  row: (line: PayoutLine, reference: string, batch: PayoutBatch) => string[]
+}
+
+const formatAmount = (amount: number) => Number(amount).toFixed(2)
+
+// Bulk upload templates reject most punctuation in names and narrations
+const cleanText = (value: string | undefined | null, maxLength: number) =>
+  (value || '').replace(/[^A-Za-z0-9 .]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, maxLength)
+
+const formatValueDate = (date: Date) =>
+  `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`
+
+export const PAYOUT_FILE_FORMATS: Record<PayoutFileFormat, PayoutFileSpec> = {
+  upi_bulk: {
+    label: 'UPI bulk payout',
+    description: 'Name, VPA, amount and reference, as accepted by most UPI payout dashboards. UPI accounts only',
+    headers: ['Beneficiary Name', 'Beneficiary VPA', 'Amount', 'Remarks', 'Reference ID'],
+    row: (line, reference) => [
+      cleanText(line.account_holder_name || line.user_profiles?.full_name, 50),
+      line.upi_id || '',
+      formatAmount(getPayoutAmount(line)),
+      'Referral earnings withdrawal',
+      reference
+    ]
+  },
+  bank_bulk: {
+    label: 'Bank bulk transfer',
+    description: 'Corporate net banking bulk upload; UPI accounts go by UPI and bank accounts by IMPS',
+    headers: [
+      'Payment Mode',
+      'Beneficiary Name',
+      'Beneficiary VPA',
+      'Beneficiary Account Number',
+      'Beneficiary IFSC',
+      'Amount',
+      'Value Date',
+      'Debit Narration',
+      'Customer Reference',
+      'Beneficiary Email',
+      'Beneficiary Mobile'
+    ],
+    row: (line, reference, batch) => [
+      line.upi_id ? 'UPI' : 'IMPS',
+      cleanText(line.account_holder_name || line.user_profiles?.full_name, 35),
+      line.upi_id || '',
+      line.bank_account_number || '',
+      line.bank_ifsc || '',
+      formatAmount(getPayoutAmount(line)),
+      formatValueDate(new Date()),
+      cleanText(`${batch.reference} withdrawal`, 30),
+      reference,
+      line.user_profiles?.email || '',
+      (line.user_profiles?.phone || '').replace(/\D/g, '').slice(-10)
+    ]
+  }
+}
+
+// Lines are always listed oldest request first, so references stay stable
+export const sortPayoutLines = <T extends Pick<WithdrawalRequest, 'id' | 'requested_at'>>(lines: T[]): T[] =>
+  [...lines].sort((a, b) =>
+    new Date(a.requested_at).getTime() - new Date(b.requested_at).getTime() || a.id.localeCompare(b.id)
+  )
+
+// The reference printed in the payout file for the line at this position
+export const getPayoutLineReference = (batch: Pick<PayoutBatch, 'reference'>, index: number) =>
+  `${batch.reference}-${String(index + 1).padStart(3, '0')}`
+
+const csvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+// What is actually sent: the requested amount less any TDS withheld on approval
+export const getPayoutAmount = (request: Pick<WithdrawalRequest, 'amount' | 'net_amount'>) =>
+  Number(request.net_amount ?? request.amount)
+
+// Where a withdrawal is paid to: the UPI ID, or the masked bank account and IFSC
+export const getPayoutDestination = (
+  request: Pick<WithdrawalRequest, 'upi_id' | 'bank_account_number' | 'bank_ifsc'>
+) => request.upi_id || (request.bank_account_number
+  ? `A/c ${maskAccountNumber(request.bank_account_number)} · ${request.bank_ifsc}`
+  : '')
+
+// Formats the selected requests can be paid with; UPI files cannot carry bank accounts
+export const canUsePayoutFileFormat = (
+  fileFormat: PayoutFileFormat,
+  lines: Pick<WithdrawalRequest, 'upi_id'>[]
+) => fileFormat !== 'upi_bulk' || lines.every(line => !!line.upi_id)
+
+export const buildPayoutFile = (batch: PayoutBatch, lines: PayoutLine[]): string => {
+  const spec = PAYOUT_FILE_FORMATS[batch.file_format]
+  const rows = sortPayoutLines(lines).map((line, index) =>
+    spec.row(line, getPayoutLineReference(batch, index), batch)
+  )
+  return [spec.headers, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+export const downloadPayoutFile = (batch: PayoutBatch, lines: PayoutLine[]) => {
+  const blob = new Blob([buildPayoutFile(batch, lines)], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${batch.reference}-${batch.file_format}.csv`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+// UPI and IMPS references are 12 digits; NEFT and RTGS UTRs run to 22 characters
+export const normalizeUtr = (utr: string) => utr.replace(/\s/g, '').toUpperCase()
+
+export const isValidUtr = (utr: string) => /^[A-Z0-9]{12,22}$/.test(normalizeUtr(utr))
+
+const normalizeBatch = (batch: PayoutBatch): PayoutBatch => ({
+  ...batch,
+  total_amount: Number(batch.total_amount),
+  paid_amount: Number(batch.paid_amount)
+})
+
+const withProfiles = async (requests: WithdrawalRequest[]): Promise<PayoutLine[]> => {
+  if (requests.length === 0) return []
+  const { data: profiles, error } = await adminApi
+    .from('user_profiles')
+    .select('user_id, full_name, email, phone')
+    .in('user_id', [...new Set(requests.map(request => request.user_id))])
+
+  if (error) throw error
+
+  const profilesByUser = new Map<string, PayoutLine['user_profiles']>((profiles || []).map(profile => [profile.user_id, profile]))
+  return requests.map(request => ({
+    ...request,
+    amount: Number(request.amount),
+    tds_amount: Number(request.tds_amount || 0),
+    net_amount: getPayoutAmount(request),
+    user_profiles: profilesByUser.get(request.user_id) || null
+  }))
+}
+
+// Approved requests that are not in a batch yet (admin)
+export const getPayableWithdrawals = async (): Promise<PayoutLine[]> => {
+  try {
+    const { data, error } = await adminApi
+      .from('withdrawal_requests')
+      .select('*')
+      .eq('status', 'approved')
+      .is('payout_batch_id', null)
+      .order('requested_at', { ascending: true })
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return sortPayoutLines(await withProfiles(data || []))
+  } catch (error) {
+    console.error('Error fetching payable withdrawals:', error)
+    throw error
+  }
+}
+
+// Recent batches, newest first (admin)
+export const getPayoutBatches = async (limit: number = 20): Promise<PayoutBatch[]> => {
+  try {
+    const { data, error } = await adminApi
+      .from('payout_batches')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return (data || []).map(normalizeBatch)
+  } catch (error) {
+    console.error('Error fetching payout batches:', error)
+    throw error
+  }
+}
+
+// The withdrawal requests in a batch, in file order (admin)
+export const getPayoutBatchLines = async (batchId: string): Promise<PayoutLine[]> => {
+  try {
+    const { data, error } = await adminApi
+      .from('withdrawal_requests')
+      .select('*')
+      .eq('payout_batch_id', batchId)
+
+    if (error) throw error
+
+    return sortPayoutLines(await withProfiles(data || []))
+  } catch (error) {
+    console.error('Error fetching payout batch lines:', error)
+    throw error
+  }
+}
+
+// Group approved requests into a batch (admin)
+export const createPayoutBatch = async (
+  requestIds: string[],
+  fileFormat: PayoutFileFormat
+): Promise<PayoutBatch> => {
+  if (requestIds.length === 0) throw new Error('Select at least one withdrawal request')
+
+  const { data, error } = await adminApi.rpc('create_payout_batch', {
+    request_ids_param: requestIds,
+    file_format_param: fileFormat
+  })
+
+  if (error) {
+    console.error('Error creating payout batch:', error)
+    throw error
+  }
+
+  return normalizeBatch(data)
+}
+
+// Mark an approved request paid with its UTR, or failed with a reason so the
+// amount returns to the user's balance (admin)
+export const recordPayoutResult = async (
+  requestId: string,
+  outcome: PayoutOutcome,
+  details: { utr?: string; reason?: string }
+): Promise<WithdrawalRequest> => {
+  if (outcome === 'paid' && !isValidUtr(details.utr || '')) {
+    throw new Error('Enter the 12 to 22 character UTR for this transfer')
+  }
+  if (outcome === 'failed' && !details.reason?.trim()) {
+    throw new Error('A reason is required for failed payouts')
+  }
+
+  const { data, error } = await adminApi.rpc('record_withdrawal_payout', {
+    request_id_param: requestId,
+    outcome_param: outcome,
+    utr_param: details.utr ? normalizeUtr(details.utr) : null,
+    failure_reason_param: details.reason?.trim() || null
+  })
+
+  if (error) {
+    console.error('Error recording payout result:', error)
+    throw error
+  }
+
+  return data
+}
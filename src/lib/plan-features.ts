@@ -0,0 +1,96 @@
+import { supabase } from './supabase'
+
+// Stored in subscription_plans.features; the database checks the same shape
+export interface PlanFeatures {
+  // Marketing bullet points shown on the plan card
+  highlights: string[]
+  // Cart and checkout
+  shopping: boolean
+  // The member earns referral rewards
+  referral_rewards: boolean
+  // Discount on product prices, 0-100
+  member_discount_percent: number
+}
+
+export type PlanFeatureKey = Exclude<keyof PlanFeatures, 'highlights'>
+export type BooleanPlanFeature = { [K in PlanFeatureKey]: PlanFeatures[K] extends boolean ? K : never }[PlanFeatureKey]
+
+export const DEFAULT_PLAN_FEATURES: PlanFeatures = {
+  highlights: [],
+  shopping: true,
+  referral_rewards: true,
+  member_discount_percent: 0
+}
+
+export interface PlanFeatureDefinition {
+  key: PlanFeatureKey
+  label: string
+  description: string
+  type: 'boolean' | 'percent'
+}
+
+// Editable features, in the order the admin editor shows them
+export const PLAN_FEATURE_DEFINITIONS: PlanFeatureDefinition[] = [
+  {
+    key: 'shopping',
+    label: 'Shopping',
+    description: 'Add products to the cart and check out',
+    type: 'boolean'
+  },
+  {
+    key: 'referral_rewards',
+    label: 'Referral rewards',
+    description: 'Earn rewards and commissions from referrals',
+    type: 'boolean'
+  },
+  {
+    key: 'member_discount_percent',
+    label: 'Member pricing',
+    description: 'Percentage off every product price',
+    type: 'percent'
+  }
+]
+
+export const PLAN_FEATURE_LABELS: Record<PlanFeatureKey, string> = Object.fromEntries(
+  PLAN_FEATURE_DEFINITIONS.map(definition => [definition.key, definition.label])
+) as Record<PlanFeatureKey, string>
+
+// Accepts the typed shape and the older {"features": [...]} list
+export const parsePlanFeatures = (raw: unknown): PlanFeatures => {
+  if (!raw || typeof raw !== 'object') return { ...DEFAULT_PLAN_FEATURES }
+
+  const value = raw as Record<string, unknown>
+  const highlights = Array.isArray(value.highlights)
+    ? value.highlights
+    : Array.isArray(value.features) ? value.features : []
+  const discount = Number(value.member_discount_percent ?? 0)
+
+  return {
+    highlights: highlights.filter((item): item is string => typeof item === 'string'),
+    shopping: typeof value.shopping === 'boolean' ? value.shopping : DEFAULT_PLAN_FEATURES.shopping,
+    referral_rewards: typeof value.referral_rewards === 'boolean' ? value.referral_rewards : DEFAULT_PLAN_FEATURES.referral_rewards,
+    member_discount_percent: Number.isFinite(discount) ? Math.min(Math.max(discount, 0), 100) : 0
+  }
+}
+
+// Matches the rounding place_order applies to each unit
+export const applyMemberDiscount = (price: number, discountPercent: number): number =>
+  discountPercent > 0 ? Math.round(price * (100 - discountPercent)) / 100 : price
+
+// Features of the signed-in user's current plan, or null without a subscription
+export const getMyPlanFeatures = async (): Promise<PlanFeatures | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_my_plan_features')
+
+    if (error) {
+      // Databases without the plan feature migration: everything stays enabled
+      if (error.code === '42883' || error.code === 'PGRST202') return { ...DEFAULT_PLAN_FEATURES }
+      throw error
+    }
+
+    return data ? parsePlanFeatures(data) : null
+  } catch (error) {
+    console.error('Error loading plan features:', error)
+    throw error
+  }
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  DEFAULT_RECONCILIATION_CONFIG,
+  classifyCandidates,
+  scoreCandidate,
+  type MatchCandidate
+} from './reconciliation'
+
+// Only the pure matching is tested here
+vi.mock('./supabase', () => ({ updateOrderStatus: vi.fn(), updateSubscriptionRequestStatus: vi.fn() }))
+vi.mock('./admin-api', () => ({ adminApi: {} }))
+
+const claim = (overrides: Partial<Parameters<typeof scoreCandidate>[1]> = {}): Parameters<typeof scoreCandidate>[1] => ({
+  type: 'payment_notification',
+  id: 'notification-1',
+  user_id: 'user-1',
+  order_id: 'order-1',
+  amount: 499.37,
+  reference: '412345678901',
+  payment_reference: 'MTV8K2M4QX7Z',
+  amount_offset: 0.37,
+  created_at: '2025-09-20T10:00:00Z',
+  ...overrides
+})
+
+const credit = (overrides: Partial<Parameters<typeof scoreCandidate>[0]> = {}): Parameters<typeof scoreCandidate>[0] => ({
+  amount: 499.37,
+  utr: '412345678901',
+  description: 'UPI/412345678901/MTV8K2M4QX7Z/customer@okaxis',
+  transactionDate: new Date('2025-09-20T10:05:00Z'),
+  ...overrides
+})
+
+const score = (creditOverrides = {}, claimOverrides = {}) =>
+  scoreCandidate(credit(creditOverrides), claim(claimOverrides), DEFAULT_RECONCILIATION_CONFIG)
+
+describe('scoreCandidate', () => {
+  it('matches the claimed UTR to the credit UTR exactly', () => {
+    const candidate = score({ description: 'UPI credit' }, { payment_reference: null })
+    expect(candidate).toMatchObject({ utr_match: true, reference_match: false, narration_match: false, score: 100 })
+  })
+
+  it('does not treat a claimed reference that is not a UTR as a UTR match', () => {
+    const candidate = score({ utr: '123456', description: 'UPI credit' }, { reference: '123456', payment_reference: null })
+    expect(candidate?.utr_match).toBe(false)
+  })
+
+  it('matches the payment reference when it is a word of the narration', () => {
+    const candidate = score({ utr: '999999999999' }, { reference: null })
+    expect(candidate).toMatchObject({ utr_match: false, reference_match: true, narration_match: false, score: 100 })
+  })
+
+  it('ignores case and punctuation around the payment reference', () => {
+    const candidate = score({ utr: '999999999999', description: 'upi-mtv8k2m4qx7z-paytm' }, { reference: null })
+    expect(candidate?.reference_match).toBe(true)
+  })
+
+  it('only flags a payment reference run into other characters', () => {
+    const candidate = score({ utr: '999999999999', description: 'UPI/MTV8K2M4QX7ZPAYTM' }, { reference: null })
+    expect(candidate).toMatchObject({ reference_match: false, narration_match: true, score: 80 })
+  })
+
+  it('only flags a claimed UTR found in the narration of a credit with another UTR', () => {
+    const candidate = score(
+      { utr: '999999999999', description: 'UPI/999999999999/412345678901' },
+      { payment_reference: null }
+    )
+    expect(candidate).toMatchObject({ utr_match: false, narration_match: true })
+  })
+
+  it('ignores short claimed references found in the narration', () => {
+    const candidate = score(
+      { utr: null, description: 'NEFT 4123 ACME', transactionDate: new Date('2025-09-25T10:00:00Z') },
+      { reference: '4123', payment_reference: null }
+    )
+    expect(candidate).toBeNull()
+  })
+
+  it('keeps amount and time matches without a reference', () => {
+    const candidate = score({ utr: null, description: 'UPI credit' }, { reference: null, payment_reference: null })
+    expect(candidate).toMatchObject({ utr_match: false, reference_match: false, amount_match: true, time_match: true, score: 40 })
+  })
+
+  it('drops claims that share nothing with the credit', () => {
+    const candidate = score(
+      { utr: null, description: 'UPI credit', amount: 1200, transactionDate: new Date('2025-09-25T10:00:00Z') },
+      { reference: null, payment_reference: null }
+    )
+    expect(candidate).toBeNull()
+  })
+
+  it('honours the amount tolerance', () => {
+    const loose = { ...DEFAULT_RECONCILIATION_CONFIG, amount_tolerance: 1 }
+    expect(scoreCandidate(credit({ amount: 500 }), claim(), DEFAULT_RECONCILIATION_CONFIG)?.amount_match).toBe(false)
+    expect(scoreCandidate(credit({ amount: 500 }), claim(), loose)?.amount_match).toBe(true)
+  })
+})
+
+const candidate = (overrides: Partial<MatchCandidate> = {}): MatchCandidate => ({
+  type: 'payment_notification',
+  id: 'notification-1',
+  user_id: 'user-1',
+  amount: 499.37,
+  reference: null,
+  payment_reference: 'MTV8K2M4QX7Z',
+  amount_offset: 0.37,
+  created_at: '2025-09-20T10:00:00Z',
+  score: 40,
+  utr_match: false,
+  reference_match: false,
+  narration_match: false,
+  amount_match: true,
+  time_match: true,
+  ...overrides
+})
+
+describe('classifyCandidates', () => {
+  it('leaves credits without candidates unmatched', () => {
+    expect(classifyCandidates([])).toEqual({ status: 'unmatched', match: null })
+  })
+
+  it('verifies a single exact UTR match of the same amount', () => {
+    const match = candidate({ utr_match: true })
+    expect(classifyCandidates([match, candidate({ id: 'notification-2' })])).toEqual({ status: 'auto_matched', match })
+  })
+
+  it('verifies a single exact payment reference match of the same amount', () => {
+    const match = candidate({ reference_match: true })
+    expect(classifyCandidates([match])).toEqual({ status: 'auto_matched', match })
+  })
+
+  it('reviews an exact match of a different amount', () => {
+    expect(classifyCandidates([candidate({ utr_match: true, amount_match: false })]).status).toBe('needs_review')
+  })
+
+  it('reviews two exact matches', () => {
+    const matches = [candidate({ utr_match: true }), candidate({ id: 'notification-2', reference_match: true })]
+    expect(classifyCandidates(matches).status).toBe('needs_review')
+  })
+
+  it('reviews references found inside the narration', () => {
+    expect(classifyCandidates([candidate({ narration_match: true })]).status).toBe('needs_review')
+  })
+
+  it('reviews the only amount and time match, even with a paise offset', () => {
+    expect(classifyCandidates([candidate()]).status).toBe('needs_review')
+  })
+})
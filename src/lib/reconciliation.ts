@@ -0,0 +1,548 @@
+import { updateOrderStatus, updateSubscriptionRequestStatus } from './supabase'
+import { adminApi } from './admin-api'
+import { parseStatementFile, type StatementCredit } from './statement-parser'
+import type { PaymentIntent } from './payment-intents'
+
+export type StatementEntryStatus = 'unmatched' | 'needs_review' | 'auto_matched' | 'matched' | 'ignored'
+export type MatchType = 'payment_notification' | 'subscription_request'
+
+export interface MatchCandidate {
+  type: MatchType
+  id: string
+  user_id: string
+  order_id?: string | null
+  amount: number
+  reference: string | null
+  payment_reference?: string | null
+  amount_offset?: number
+  created_at: string
+  score: number
+  utr_match: boolean
+  // The payment intent reference is a whole word of the narration
+  reference_match?: boolean
+  // The claim's UTR or payment reference appears inside the narration. Only
+  // worth a human's look: a short or partial reference can match by chance.
+  narration_match?: boolean
+  amount_match: boolean
+  time_match: boolean
+}
+
+export interface BankStatementEntry {
+  id: string
+  import_id: string
+  transaction_date: string
+  amount: number
+  utr: string | null
+  description: string | null
+  // Identifies credits without a UTR across re-imports
+  narration_hash: string | null
+  raw_row: Record<string, string> | null
+  status: StatementEntryStatus
+  match_type: MatchType | null
+  match_id: string | null
+  match_reason: string | null
+  candidates: MatchCandidate[]
+  reviewed_by: string | null
+  reviewed_at: string | null
+  created_at: string
+}
+
+export interface BankStatementImport {
+  id: string
+  file_name: string
+  imported_by: string | null
+  total_rows: number
+  credit_rows: number
+  duplicate_rows: number
+  auto_matched: number
+  needs_review: number
+  unmatched: number
+  created_at: string
+}
+
+export interface ReconciliationConfig {
+  time_window_hours: number
+  amount_tolerance: number
+}
+
+export const DEFAULT_RECONCILIATION_CONFIG: ReconciliationConfig = {
+  time_window_hours: 48,
+  amount_tolerance: 0
+}
+
+export const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  payment_notification: 'Order payment',
+  subscription_request: 'Subscription'
+}
+
+// A pending payment claim that a statement credit could settle
+interface PaymentClaim {
+  type: MatchType
+  id: string
+  user_id: string
+  order_id?: string | null
+  amount: number
+  reference: string | null
+  // Reference and paise offset of the payment intent the customer paid against
+  payment_reference: string | null
+  amount_offset: number
+  created_at: string
+}
+
+const normalizeReference = (reference?: string | null) =>
+  (reference || '').replace(/[^a-z0-9]/gi, '').toUpperCase()
+
+// UPI UTR/RRN numbers are 12 digits
+const isUtr = (reference: string) => /^\d{12}$/.test(reference)
+
+// The letter and digit runs of a narration, e.g. UPI, 412345678901 and
+// MTV8K2M4QX7ZP in "UPI/412345678901/MTV8K2M4QX7ZP/PAYTM"
+const narrationWords = (description?: string | null) =>
+  (description || '').toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean)
+
+// SHA-256 (hex) of a narration, ignoring case and spacing. Matches the
+// backfill in the narration dedupe migration.
+const hashNarration = async (description: string) => {
+  const text = description.replace(/\s+/g, ' ').trim().toLowerCase()
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const creditKey = (transactionDate: Date, amount: number, narrationHash: string | null) =>
+  `${transactionDate.getTime()}|${Number(amount).toFixed(2)}|${narrationHash}`
+
+// Load matching settings from system_settings, falling back to defaults
+export const loadReconciliationConfig = async (): Promise<ReconciliationConfig> => {
+  try {
+    const { data, error } = await adminApi
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'reconciliation_config')
+      .single()
+
+    if (error || !data?.value) return DEFAULT_RECONCILIATION_CONFIG
+    return { ...DEFAULT_RECONCILIATION_CONFIG, ...data.value }
+  } catch (error) {
+    console.error('Error loading reconciliation config:', error)
+    return DEFAULT_RECONCILIATION_CONFIG
+  }
+}
+
+// Score how well a statement credit fits a payment claim. The credit's UTR
+// equal to the claimed UTR, or the payment intent reference as a word of the
+// narration (banks print the UPI note there), is the strongest signal; a
+// reference found elsewhere in the narration, amount and time only narrow
+// things down.
+export const scoreCandidate = (
+  credit: Pick<StatementCredit, 'amount' | 'utr' | 'description' | 'transactionDate'>,
+  claim: PaymentClaim,
+  config: ReconciliationConfig
+): MatchCandidate | null => {
+  const claimReference = normalizeReference(claim.reference)
+  const creditUtr = normalizeReference(credit.utr)
+  const paymentReference = normalizeReference(claim.payment_reference)
+  const description = normalizeReference(credit.description)
+  const utrMatch = isUtr(claimReference) && claimReference === creditUtr
+  const referenceMatch = !!paymentReference && narrationWords(credit.description).includes(paymentReference)
+  const narrationMatch = !utrMatch && !referenceMatch && (
+    (claimReference.length >= 6 && description.includes(claimReference)) ||
+    (!!paymentReference && description.includes(paymentReference))
+  )
+  const amountMatch = Math.abs(credit.amount - Number(claim.amount)) <= config.amount_tolerance + 0.005
+  const hoursApart = Math.abs(credit.transactionDate.getTime() - new Date(claim.created_at).getTime()) / 36e5
+  const timeMatch = hoursApart <= config.time_window_hours
+
+  if (!utrMatch && !referenceMatch && !narrationMatch && !(amountMatch && timeMatch)) return null
+
+  return {
+    ...claim,
+    score: (utrMatch || referenceMatch ? 60 : narrationMatch ? 40 : 0) + (amountMatch ? 30 : 0) + (timeMatch ? 10 : 0),
+    utr_match: utrMatch,
+    reference_match: referenceMatch,
+    narration_match: narrationMatch,
+    amount_match: amountMatch,
+    time_match: timeMatch
+  }
+}
+
+// Decide what to do with a credit given its candidates. Only a single claim
+// whose UTR is the credit's UTR, or whose payment reference is a word of the
+// narration, with the same amount is verified without a human. Everything
+// else, including an amount with a matching paise offset but no reference,
+// goes to review.
+export const classifyCandidates = (
+  candidates: MatchCandidate[]
+): { status: StatementEntryStatus; match: MatchCandidate | null } => {
+  if (candidates.length === 0) return { status: 'unmatched', match: null }
+
+  const strongMatches = candidates.filter(candidate => candidate.utr_match || candidate.reference_match)
+  if (strongMatches.length === 1 && strongMatches[0].amount_match) {
+    return { status: 'auto_matched', match: strongMatches[0] }
+  }
+
+  return { status: 'needs_review', match: null }
+}
+
+const getPendingClaims = async (): Promise<PaymentClaim[]> => {
+  const [notifications, subscriptions, intents] = await Promise.all([
+    adminApi
+      .from('upi_payment_notifications')
+      .select('id, user_id, order_id, amount, transaction_reference, created_at')
+      .eq('status', 'pending'),
+    adminApi
+      .from('subscription_requests')
+      .select('id, user_id, amount, upi_transaction_id, requested_at, created_at')
+      .eq('status', 'pending'),
+    adminApi
+      .from('payment_intents')
+      .select('reference, amount_offset, order_id, subscription_request_id')
+      .in('status', ['attached', 'expired'])
+  ])
+
+  if (notifications.error && notifications.error.code !== '42P01') throw notifications.error
+  if (subscriptions.error && subscriptions.error.code !== '42P01') throw subscriptions.error
+  if (intents.error && intents.error.code !== '42P01') throw intents.error
+
+  const intentsByOrder = new Map<string, Pick<PaymentIntent, 'reference' | 'amount_offset'>>()
+  const intentsByRequest = new Map<string, Pick<PaymentIntent, 'reference' | 'amount_offset'>>()
+  for (const intent of intents.data || []) {
+    if (intent.order_id) intentsByOrder.set(intent.order_id, intent)
+    if (intent.subscription_request_id) intentsByRequest.set(intent.subscription_request_id, intent)
+  }
+
+  return [
+    ...(notifications.data || []).map(notification => ({
+      type: 'payment_notification' as const,
+      id: notification.id,
+      user_id: notification.user_id,
+      order_id: notification.order_id,
+      amount: Number(notification.amount),
+      reference: notification.transaction_reference || null,
+      payment_reference: intentsByOrder.get(notification.order_id)?.reference || null,
+      amount_offset: Number(intentsByOrder.get(notification.order_id)?.amount_offset || 0),
+      created_at: notification.created_at
+    })),
+    ...(subscriptions.data || []).map(request => ({
+      type: 'subscription_request' as const,
+      id: request.id,
+      user_id: request.user_id,
+      amount: Number(request.amount),
+      reference: request.upi_transaction_id || null,
+      payment_reference: intentsByRequest.get(request.id)?.reference || null,
+      amount_offset: Number(intentsByRequest.get(request.id)?.amount_offset || 0),
+      created_at: request.requested_at || request.created_at
+    }))
+  ]
+}
+
+// Verify the payment claim behind a match: notifications move their order to
+// paid, subscription requests are approved (which activates the subscription)
+const settleClaim = async (candidate: MatchCandidate, note: string) => {
+  if (candidate.type === 'subscription_request') {
+    const { data: request } = await adminApi
+      .from('subscription_requests')
+      .select('status')
+      .eq('id', candidate.id)
+      .single()
+
+    if (request?.status !== 'pending') {
+      throw new Error('This subscription request is no longer pending')
+    }
+
+    await updateSubscriptionRequestStatus(candidate.id, 'approved', note)
+    return
+  }
+
+  const { data: updated, error } = await adminApi
+    .from('upi_payment_notifications')
+    .update({
+      status: 'verified',
+      verified_at: new Date().toISOString(),
+      admin_notes: note
+    })
+    .eq('id', candidate.id)
+    .eq('status', 'pending')
+    .select('id')
+
+  if (error) throw error
+  if (!updated || updated.length === 0) {
+    throw new Error('This payment notification is no longer pending')
+  }
+
+  if (candidate.order_id) {
+    try {
+      await updateOrderStatus(candidate.order_id, 'paid', note)
+    } catch (orderError) {
+      // The payment is verified; a stale order status is fixed from the Orders tab
+      console.warn('Error updating order status after reconciliation:', orderError)
+    }
+  }
+}
+
+const describeMatch = (entry: { utr: string | null; amount: number }, candidate: MatchCandidate) => {
+  const parts = [
+    candidate.utr_match ? `UTR ${entry.utr || candidate.reference}` : null,
+    candidate.reference_match ? `payment ref ${candidate.payment_reference}` : null,
+    candidate.narration_match ? 'reference in narration' : null,
+    candidate.amount_match ? `amount ₹${entry.amount}` : null,
+    candidate.time_match ? 'time window' : null
+  ].filter(Boolean)
+  return `Bank statement match on ${parts.join(', ')}`
+}
+
+export interface StatementImportResult {
+  import: BankStatementImport
+  autoMatched: number
+  needsReview: number
+  unmatched: number
+  duplicates: number
+  failed: number
+}
+
+// Import a statement file: store its credits, verify confident matches and
+// queue the rest for review
+export const importBankStatement = async (file: File): Promise<StatementImportResult> => {
+  const parsed = await parseStatementFile(file)
+  const [config, claims] = await Promise.all([loadReconciliationConfig(), getPendingClaims()])
+
+  // Skip credits that an earlier import already recorded: by UTR, or for
+  // credits without one by value date, amount and narration
+  const utrs = parsed.credits.map(credit => credit.utr).filter(Boolean) as string[]
+  const knownUtrs = new Set<string>()
+  if (utrs.length > 0) {
+    const { data: existing, error } = await adminApi
+      .from('bank_statement_entries')
+      .select('utr')
+      .in('utr', utrs)
+    if (error) throw error
+    existing?.forEach(entry => knownUtrs.add(entry.utr))
+  }
+
+  const narrationHashes = await Promise.all(
+    parsed.credits.map(credit => (credit.utr ? null : hashNarration(credit.description)))
+  )
+  const hashes = narrationHashes.filter(Boolean) as string[]
+  const knownCredits = new Set<string>()
+  if (hashes.length > 0) {
+    const { data: existing, error } = await adminApi
+      .from('bank_statement_entries')
+      .select('transaction_date, amount, narration_hash')
+      .is('utr', null)
+      .in('narration_hash', [...new Set(hashes)])
+    if (error) throw error
+    existing?.forEach(entry => knownCredits.add(creditKey(new Date(entry.transaction_date), entry.amount, entry.narration_hash)))
+  }
+
+  const newCredits = parsed.credits
+    .map((credit, index) => ({ ...credit, narrationHash: narrationHashes[index] }))
+    .filter(credit => {
+      if (!credit.utr) {
+        const key = creditKey(credit.transactionDate, credit.amount, credit.narrationHash)
+        if (knownCredits.has(key)) return false
+        knownCredits.add(key)
+        return true
+      }
+      if (knownUtrs.has(credit.utr)) return false
+      knownUtrs.add(credit.utr)
+      return true
+    })
+
+  const { data: importRow, error: importError } = await adminApi
+    .from('bank_statement_imports')
+    .insert({
+      file_name: file.name,
+      total_rows: parsed.totalRows,
+      credit_rows: parsed.credits.length,
+      duplicate_rows: parsed.credits.length - newCredits.length
+    })
+    .select()
+    .single()
+
+  if (importError) throw importError
+
+  // A claim can only be settled by one credit
+  const claimedIds = new Set<string>()
+  const rows = newCredits.map(credit => {
+    const candidates = claims
+      .filter(claim => !claimedIds.has(claim.id))
+      .map(claim => scoreCandidate(credit, claim, config))
+      .filter((candidate): candidate is MatchCandidate => candidate !== null)
+      .sort((a, b) => b.score - a.score)
+
+    const { status, match } = classifyCandidates(candidates)
+    if (match) claimedIds.add(match.id)
+
+    return {
+      row: {
+        import_id: importRow.id,
+        transaction_date: credit.transactionDate.toISOString(),
+        amount: credit.amount,
+        utr: credit.utr,
+        description: credit.description,
+        narration_hash: credit.narrationHash,
+        raw_row: credit.raw,
+        status,
+        match_type: match?.type || null,
+        match_id: match?.id || null,
+        match_reason: match ? describeMatch(credit, match) : null,
+        candidates
+      },
+      match
+    }
+  })
+
+  let inserted: BankStatementEntry[] = []
+  if (rows.length > 0) {
+    const { data, error } = await adminApi
+      .from('bank_statement_entries')
+      .insert(rows.map(({ row }) => row))
+      .select()
+    if (error) throw error
+    inserted = data || []
+  }
+
+  let failed = 0
+  for (const entry of inserted) {
+    if (entry.status !== 'auto_matched') continue
+    const match = entry.candidates.find(candidate => candidate.id === entry.match_id)!
+
+    try {
+      await settleClaim(match, entry.match_reason || 'Bank statement match')
+    } catch (error) {
+      // Leave it for a human rather than losing the match
+      console.error('Error auto-verifying statement match:', error)
+      failed++
+      await adminApi
+        .from('bank_statement_entries')
+        .update({ status: 'needs_review', match_type: null, match_id: null, match_reason: null })
+        .eq('id', entry.id)
+      entry.status = 'needs_review'
+    }
+  }
+
+  const count = (status: StatementEntryStatus) => inserted.filter(entry => entry.status === status).length
+  const summary = {
+    auto_matched: count('auto_matched'),
+    needs_review: count('needs_review'),
+    unmatched: count('unmatched')
+  }
+
+  const { data: updatedImport, error: updateError } = await adminApi
+    .from('bank_statement_imports')
+    .update(summary)
+    .eq('id', importRow.id)
+    .select()
+    .single()
+
+  if (updateError) throw updateError
+
+  return {
+    import: updatedImport,
+    autoMatched: summary.auto_matched,
+    needsReview: summary.needs_review,
+    unmatched: summary.unmatched,
+    duplicates: parsed.credits.length - newCredits.length,
+    failed
+  }
+}
+
+// Get statement entries waiting for a decision, oldest first (admin)
+export const getReconciliationQueue = async (
+  statuses: StatementEntryStatus[] = ['needs_review', 'unmatched']
+): Promise<BankStatementEntry[]> => {
+  try {
+    const { data, error } = await adminApi
+      .from('bank_statement_entries')
+      .select('*')
+      .in('status', statuses)
+      .order('transaction_date', { ascending: true })
+      .limit(200)
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching reconciliation queue:', error)
+    throw error
+  }
+}
+
+// Get recent statement imports, newest first (admin)
+export const getStatementImports = async (limit: number = 10): Promise<BankStatementImport[]> => {
+  try {
+    const { data, error } = await adminApi
+      .from('bank_statement_imports')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching statement imports:', error)
+    return []
+  }
+}
+
+// Confirm a candidate for a queued entry and verify the payment (admin)
+export const confirmStatementMatch = async (
+  entry: BankStatementEntry,
+  candidate: MatchCandidate
+): Promise<void> => {
+  const reason = `${describeMatch(entry, candidate)} (confirmed by admin)`
+
+  // Claim the entry first so two admins cannot settle it twice
+  const { data: claimed, error } = await adminApi
+    .from('bank_statement_entries')
+    .update({
+      status: 'matched',
+      match_type: candidate.type,
+      match_id: candidate.id,
+      match_reason: reason,
+      reviewed_at: new Date().toISOString()
+    })
+    .eq('id', entry.id)
+    .in('status', ['needs_review', 'unmatched'])
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!claimed) throw new Error('This statement entry has already been reconciled')
+
+  try {
+    await settleClaim(candidate, reason)
+  } catch (settleError) {
+    await adminApi
+      .from('bank_statement_entries')
+      .update({
+        status: entry.status,
+        match_type: null,
+        match_id: null,
+        match_reason: null,
+        reviewed_at: null
+      })
+      .eq('id', entry.id)
+    throw settleError
+  }
+}
+
+// Mark a credit as not belonging to any payment claim (admin)
+export const ignoreStatementEntry = async (entryId: string, reason?: string): Promise<void> => {
+  const { error } = await adminApi
+    .from('bank_statement_entries')
+    .update({
+      status: 'ignored',
+      match_reason: reason || null,
+      reviewed_at: new Date().toISOString()
+    })
+    .eq('id', entryId)
+
+  if (error) throw error
+}
@@ -0,0 +1,183 @@
+import { supabase } from './supabase'
+import { adminApi } from './admin-api'
+
+// Events that pay referral rewards; also stored as referral_commissions.trigger_type
+export type ReferralRuleTrigger = 'subscription_activation' | 'first_order' | 'order_purchase'
+
+export interface ReferralRule {
+  enabled: boolean
+  // fixed: rupees per level; percentage: percent of the plan price or order total
+  type: 'fixed' | 'percentage'
+  // levels[0] is the direct referrer
+  levels: number[]
+  // Cap on each individual reward, null for none
+  max_amount: number | null
+}
+
+export type ReferralRules = Record<ReferralRuleTrigger, ReferralRule>
+
+export const MAX_REFERRAL_LEVELS = 7
+
+export const REFERRAL_RULE_TRIGGERS: { trigger: ReferralRuleTrigger; label: string; description: string }[] = [
+  {
+    trigger: 'subscription_activation',
+    label: 'Subscription activation',
+    description: 'Once per member, when their first subscription is approved'
+  },
+  {
+    trigger: 'first_order',
+    label: 'First order',
+    description: "When a member's first order is paid"
+  },
+  {
+    trigger: 'order_purchase',
+    label: 'Every order',
+    description: 'Each time an order is paid'
+  }
+]
+
+export const REFERRAL_TRIGGER_LABELS: Record<ReferralRuleTrigger, string> = Object.fromEntries(
+  REFERRAL_RULE_TRIGGERS.map(item => [item.trigger, item.label])
+) as Record<ReferralRuleTrigger, string>
+
+export const DEFAULT_REFERRAL_RULES: ReferralRules = {
+  subscription_activation: { enabled: true, type: 'fixed', levels: [200, 15, 11, 9, 7, 5, 3], max_amount: null },
+  first_order: { enabled: false, type: 'fixed', levels: [0, 0, 0, 0, 0, 0, 0], max_amount: null },
+  order_purchase: { enabled: true, type: 'percentage', levels: [10, 5, 3, 2, 1, 1, 1], max_amount: null }
+}
+
+const parseRule = (raw: unknown, fallback: ReferralRule): ReferralRule => {
+  if (!raw || typeof raw !== 'object') return { ...fallback, levels: [...fallback.levels] }
+
+  const value = raw as Record<string, unknown>
+  const levels = Array.isArray(value.levels)
+    ? value.levels.slice(0, MAX_REFERRAL_LEVELS).map(level => Math.max(Number(level) || 0, 0))
+    : [...fallback.levels]
+  const maxAmount = value.max_amount === null || value.max_amount === undefined || value.max_amount === ''
+    ? null
+    : Number(value.max_amount)
+
+  return {
+    enabled: typeof value.enabled === 'boolean' ? value.enabled : fallback.enabled,
+    type: value.type === 'percentage' ? 'percentage' : 'fixed',
+    levels,
+    max_amount: maxAmount !== null && Number.isFinite(maxAmount) ? maxAmount : null
+  }
+}
+
+export const parseReferralRules = (raw: unknown): ReferralRules => {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  return {
+    subscription_activation: parseRule(value.subscription_activation, DEFAULT_REFERRAL_RULES.subscription_activation),
+    first_order: parseRule(value.first_order, DEFAULT_REFERRAL_RULES.first_order),
+    order_purchase: parseRule(value.order_purchase, DEFAULT_REFERRAL_RULES.order_purchase)
+  }
+}
+
+export const validateReferralRules = (rules: ReferralRules) => {
+  for (const { trigger, label } of REFERRAL_RULE_TRIGGERS) {
+    const rule = rules[trigger]
+    if (rule.levels.length > MAX_REFERRAL_LEVELS) {
+      throw new Error(`${label}: at most ${MAX_REFERRAL_LEVELS} levels`)
+    }
+    if (rule.levels.some(level => !(level >= 0))) {
+      throw new Error(`${label}: rewards cannot be negative`)
+    }
+    if (rule.type === 'percentage' && rule.levels.some(level => level > 100)) {
+      throw new Error(`${label}: percentages cannot exceed 100`)
+    }
+    if (rule.max_amount !== null && !(rule.max_amount >= 0)) {
+      throw new Error(`${label}: the cap cannot be negative`)
+    }
+  }
+}
+
+// Mirrors apply_referral_rules: fixed rewards scale with the plan multiplier,
+// percentages follow the base amount, and the cap applies last
+export const calculateReferralReward = (
+  rule: ReferralRule,
+  level: number,
+  baseAmount: number = 0,
+  multiplier: number = 1
+): number => {
+  const value = rule.levels[level - 1] ?? 0
+  const amount = rule.type === 'percentage'
+    ? Math.round(baseAmount * value) / 100
+    : Math.round(value * multiplier * 100) / 100
+  return rule.max_amount !== null ? Math.min(amount, rule.max_amount) : amount
+}
+
+export const loadReferralRules = async (): Promise<ReferralRules> => {
+  try {
+    const { data, error } = await supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'referral_reward_rules')
+      .maybeSingle()
+
+    if (error) throw error
+    return parseReferralRules(data?.value)
+  } catch (error) {
+    console.error('Error loading referral rules:', error)
+    return parseReferralRules(null)
+  }
+}
+
+export const saveReferralRules = async (rules: ReferralRules): Promise<void> => {
+  validateReferralRules(rules)
+  const { error } = await adminApi
+    .from('system_settings')
+    .upsert({
+      key: 'referral_reward_rules',
+      value: rules,
+      description: 'Referral reward rules per trigger: fixed rupees or percentage per level, with an optional cap per reward'
+    })
+
+  if (error) {
+    console.error('Error saving referral rules:', error)
+    throw error
+  }
+}
+
+// Order commissions stay locked until this many days after delivery
+export interface CommissionMaturationConfig {
+  return_window_days: number
+}
+
+export const DEFAULT_COMMISSION_MATURATION: CommissionMaturationConfig = {
+  return_window_days: 7
+}
+
+export const loadCommissionMaturation = async (): Promise<CommissionMaturationConfig> => {
+  try {
+    const { data, error } = await supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'commission_maturation')
+      .maybeSingle()
+
+    if (error) throw error
+    return { ...DEFAULT_COMMISSION_MATURATION, ...(data?.value || {}) }
+  } catch (error) {
+    console.error('Error loading commission maturation settings:', error)
+    return { ...DEFAULT_COMMISSION_MATURATION }
+  }
+}
+
+export const saveCommissionMaturation = async (config: CommissionMaturationConfig): Promise<void> => {
+  if (!Number.isInteger(config.return_window_days) || config.return_window_days < 0) {
+    throw new Error('The return window must be a whole number of days')
+  }
+  const { error } = await adminApi
+    .from('system_settings')
+    .upsert({
+      key: 'commission_maturation',
+      value: config,
+      description: 'Days after delivery before order commissions become withdrawable'
+    })
+
+  if (error) {
+    console.error('Error saving commission maturation settings:', error)
+    throw error
+  }
+}
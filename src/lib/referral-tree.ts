@@ -0,0 +1,112 @@
+import { supabase } from './supabase'
+import { adminApi } from './admin-api'
+
+// Rewards are paid seven levels deep, so the tree stops there too
+export const REFERRAL_TREE_MAX_DEPTH = 7
+
+// One member of a downline, as returned by the referral tree functions
+export interface ReferralTreeNode {
+  id: string
+  user_id: string
+  full_name: string | null
+  referral_code: string
+  subscription_status: 'active' | 'inactive'
+  joined_at: string
+  // 1 is a direct referral of the member at the top of the tree
+  level: number
+  direct_referrals: number
+  // Commissions this member's activity has paid the member at the top
+  earnings_generated: number
+}
+
+// A search hit; path lists the profile ids from level 1 down to its parent
+export interface ReferralTreeMatch extends ReferralTreeNode {
+  path: string[]
+}
+
+// Someone above a member, nearest first
+export interface ReferralUplineMember {
+  id: string
+  user_id: string
+  full_name: string | null
+  referral_code: string
+  subscription_status: 'active' | 'inactive'
+  level: number
+}
+
+const normalizeNode = <T extends ReferralTreeNode>(node: T): T => ({
+  ...node,
+  level: Number(node.level),
+  direct_referrals: Number(node.direct_referrals || 0),
+  earnings_generated: Number(node.earnings_generated || 0)
+})
+
+// Direct referrals of parentProfileId. Without rootProfileId the tree is the
+// signed-in user's own; with it (admin) the tree hangs from that member.
+// Leaving parentProfileId out loads the first level.
+export const getReferralTreeChildren = async (
+  parentProfileId?: string | null,
+  rootProfileId?: string
+): Promise<ReferralTreeNode[]> => {
+  try {
+    const { data, error } = rootProfileId
+      ? await adminApi.rpc('referral_tree_children', {
+          root_profile_id_param: rootProfileId,
+          parent_profile_id_param: parentProfileId || rootProfileId
+        })
+      : await supabase.rpc('get_my_referral_tree_children', {
+          parent_profile_id_param: parentProfileId || null
+        })
+
+    if (error) {
+      if (error.code === '42883' || error.code === 'PGRST202') return []
+      throw error
+    }
+
+    return ((data as ReferralTreeNode[]) || []).map(normalizeNode)
+  } catch (error) {
+    console.error('Error loading referral tree:', error)
+    throw error
+  }
+}
+
+// Members of the downline whose name or referral code contains query
+export const searchReferralTree = async (query: string, rootProfileId?: string): Promise<ReferralTreeMatch[]> => {
+  try {
+    const { data, error } = rootProfileId
+      ? await adminApi.rpc('search_referral_tree', {
+          root_profile_id_param: rootProfileId,
+          query_param: query
+        })
+      : await supabase.rpc('search_my_referral_tree', { query_param: query })
+
+    if (error) {
+      if (error.code === '42883' || error.code === 'PGRST202') return []
+      throw error
+    }
+
+    return ((data as ReferralTreeMatch[]) || []).map(match => ({
+      ...normalizeNode(match),
+      path: match.path || []
+    }))
+  } catch (error) {
+    console.error('Error searching referral tree:', error)
+    throw error
+  }
+}
+
+// The people above a member who earn from their activity, up to 7 levels (admin)
+export const getReferralUpline = async (userId: string): Promise<ReferralUplineMember[]> => {
+  try {
+    const { data, error } = await adminApi.rpc('get_referral_upline', {
+      user_id_param: userId,
+      max_levels_param: REFERRAL_TREE_MAX_DEPTH
+    })
+
+    if (error) throw error
+    return ((data as ReferralUplineMember[]) || []).map(referrer => ({ ...referrer, level: Number(referrer.level) }))
+  } catch (error) {
+    console.error('Error loading referral upline:', error)
+    throw error
+  }
+}
@@ -1,8 +1,5 @@
 import { supabase } from '@/lib/supabase'
 
-// Commission rates for 7 levels (10%, 5%, 3%, 2%, 1%, 0.5%, 0.5%)
-const COMMISSION_RATES = [0.10, 0.05, 0.03, 0.02, 0.01, 0.005, 0.005]
-
 export interface ReferralStats {
   totalEarnings: number
   availableBalance: number
@@ -17,7 +14,7 @@ export interface ReferralCommission {
   level: number
   commissionAmount: number
   commissionRate: number
-  status: 'pending' | 'paid'
+  status: 'pending' | 'payable' | 'void' | 'reversed'
   createdAt: string
   order?: {
     id: string
@@ -192,80 +189,6 @@ export async function getReferredUsers(userId: string): Promise<ReferredUser[]>
   }
 }
 
-// Calculate and distribute commissions for an order
-export async function distributeCommissions(orderId: string, orderAmount: number, buyerUserId: string): Promise<void> {
-  try {
-
-    // Get buyer's profile
-    const { data: buyerProfile } = await supabase
-      .from('user_profiles')
-      .select('id, referred_by')
-      .eq('user_id', buyerUserId)
-      .single()
-
-    if (!buyerProfile || !buyerProfile.referred_by) {
-      console.log('No referrer found for user:', buyerUserId)
-      return
-    }
-
-    // Start the commission chain
-    let currentReferrerId = buyerProfile.referred_by
-    let level = 1
-
-    while (currentReferrerId && level <= 7) {
-      const commissionRate = COMMISSION_RATES[level - 1]
-      const commissionAmount = orderAmount * commissionRate
-
-      // Create commission record
-      const { error: commissionError } = await supabase
-        .from('referral_commissions')
-        .insert({
-          referrer_id: currentReferrerId,
-          referee_id: buyerProfile.id,
-          order_id: orderId,
-          level,
-          commission_rate: commissionRate,
-          commission_amount: commissionAmount,
-          status: 'pending'
-        })
-
-      if (commissionError) {
-        console.error('Error creating commission record:', commissionError)
-        break
-      }
-
-      // Update referrer's earnings
-      const { error: updateError } = await supabase
-        .from('user_profiles')
-        .update({
-          total_earnings: supabase.raw(`total_earnings + ${commissionAmount}`),
-          available_balance: supabase.raw(`available_balance + ${commissionAmount}`)
-        })
-        .eq('id', currentReferrerId)
-
-      if (updateError) {
-        console.error('Error updating referrer earnings:', updateError)
-        break
-      }
-
-      // Get next level referrer
-      const { data: nextReferrer } = await supabase
-        .from('user_profiles')
-        .select('referred_by')
-        .eq('id', currentReferrerId)
-        .single()
-
-      currentReferrerId = nextReferrer?.referred_by
-      level++
-    }
-
-    console.log(`Distributed commissions for order ${orderId} through ${level - 1} levels`)
-
-  } catch (error) {
-    console.error('Error distributing commissions:', error)
-  }
-}
-
 // Validate referral code
 export async function validateReferralCode(referralCode: string): Promise<boolean> {
   if (!referralCode) return false
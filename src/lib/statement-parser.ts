@@ -0,0 +1,270 @@
+import { read, utils } from 'xlsx'
+
+// A credit line from a bank or UPI statement
+export interface StatementCredit {
+  transactionDate: Date
+  amount: number
+  utr: string | null
+  description: string
+  raw: Record<string, string>
+}
+
+export interface ParsedStatement {
+  credits: StatementCredit[]
+  totalRows: number
+  skippedRows: number
+}
+
+interface ColumnMap {
+  date: number
+  description: number
+  reference: number
+  credit: number
+  debit: number
+  amount: number
+  type: number
+}
+
+// Header names used by the common Indian bank exports (SBI, HDFC, ICICI, Axis,
+// Kotak) and UPI apps. Matched case-insensitively against the trimmed header.
+const HEADER_PATTERNS: Record<keyof ColumnMap, RegExp> = {
+  date: /^(txn\.?\s*|tran\.?\s*|transaction\s*|value\s*)?date$|^date$/i,
+  description: /narration|description|particulars|remarks|details/i,
+  reference: /utr|rrn|ref(erence)?\.?\s*(no\.?|number)?|chq|cheque/i,
+  credit: /credit|deposit|^cr\.?(\s*amount)?$|amount\s*\(?cr\)?/i,
+  debit: /debit|withdrawal|^dr\.?(\s*amount)?$|amount\s*\(?dr\)?/i,
+  amount: /^(transaction\s*)?amount(\s*\(inr\)|\s*\(₹\)|\s*in\s*rs\.?)?$/i,
+  type: /^(type|cr\s*\/\s*dr|dr\s*\/\s*cr|txn\s*type|transaction\s*type)$/i
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
+}
+
+// UPI UTR/RRN numbers are 12 digits
+const UTR_PATTERN = /(?<!\d)(\d{12})(?!\d)/
+
+// Minimal RFC 4180 CSV reader (quoted fields, escaped quotes, CRLF)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// Parse the date formats found in Indian statements: dd/mm/yyyy, dd-mm-yy,
+// dd-MMM-yyyy, dd MMM yyyy, yyyy-mm-dd (all with an optional time) and Excel
+// serial numbers. Day-first is assumed for ambiguous numeric dates.
+export const parseStatementDate = (value: string): Date | null => {
+  const text = value.trim()
+  if (!text) return null
+
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    // Excel serial date (days since 1899-12-30)
+    const serial = parseFloat(text)
+    return new Date(Math.round((serial - 25569) * 86400 * 1000))
+  }
+
+  const timeMatch = text.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i)
+  let hours = 0
+  let minutes = 0
+  let seconds = 0
+  if (timeMatch) {
+    hours = parseInt(timeMatch[1], 10)
+    minutes = parseInt(timeMatch[2], 10)
+    seconds = timeMatch[3] ? parseInt(timeMatch[3], 10) : 0
+    const meridiem = timeMatch[4]?.toLowerCase()
+    if (meridiem === 'pm' && hours < 12) hours += 12
+    if (meridiem === 'am' && hours === 12) hours = 0
+  }
+
+  let year: number
+  let month: number
+  let day: number
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/)
+  const named = text.match(/^(\d{1,2})[\s/-]([a-z]{3})[a-z]*[\s/-](\d{2,4})/i)
+
+  if (iso) {
+    year = parseInt(iso[1], 10)
+    month = parseInt(iso[2], 10) - 1
+    day = parseInt(iso[3], 10)
+  } else if (numeric) {
+    day = parseInt(numeric[1], 10)
+    month = parseInt(numeric[2], 10) - 1
+    year = parseInt(numeric[3], 10)
+  } else if (named && MONTHS[named[2].toLowerCase()] !== undefined) {
+    day = parseInt(named[1], 10)
+    month = MONTHS[named[2].toLowerCase()]
+    year = parseInt(named[3], 10)
+  } else {
+    return null
+  }
+
+  if (year < 100) year += 2000
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null
+
+  // Statement times are Indian Standard Time
+  const utc = Date.UTC(year, month, day, hours, minutes, seconds) - 330 * 60 * 1000
+  return new Date(utc)
+}
+
+// "1,234.50", "₹ 1,234.50 Cr", "(500.00)" -> number; blanks and dashes -> 0
+export const parseStatementAmount = (value: string): number => {
+  const text = value.replace(/[₹,\s]|INR|Rs\.?/gi, '').replace(/(cr|dr)$/i, '')
+  if (!text || text === '-') return 0
+  const amount = parseFloat(text.replace(/^\((.*)\)$/, '-$1'))
+  return isNaN(amount) ? 0 : amount
+}
+
+export const extractUtr = (...values: (string | undefined)[]): string | null => {
+  for (const value of values) {
+    const match = value?.match(UTR_PATTERN)
+    if (match) return match[1]
+  }
+  return null
+}
+
+const findColumns = (header: string[]): ColumnMap | null => {
+  const normalized = header.map(cell => cell.trim().replace(/\s+/g, ' '))
+  const find = (key: keyof ColumnMap, exclude: number[] = []) =>
+    normalized.findIndex((cell, index) => cell && !exclude.includes(index) && HEADER_PATTERNS[key].test(cell))
+
+  const date = find('date')
+  const credit = find('credit')
+  const debit = find('debit', [credit])
+  const amount = find('amount', [credit, debit])
+
+  if (date === -1 || (credit === -1 && amount === -1)) return null
+
+  return {
+    date,
+    description: find('description'),
+    reference: find('reference', [date, credit, debit, amount]),
+    credit,
+    debit,
+    amount,
+    type: find('type')
+  }
+}
+
+// Turn a table of cells into credit lines. Bank exports carry account details
+// above the transactions, so the header row is searched for first.
+export const extractCredits = (rows: string[][]): ParsedStatement => {
+  const headerIndex = rows.slice(0, 40).findIndex(row => findColumns(row) !== null)
+  if (headerIndex === -1) {
+    throw new Error('Could not find the transaction table. Expected a header with a date and a credit or amount column.')
+  }
+
+  const header = rows[headerIndex].map(cell => cell.trim())
+  const columns = findColumns(rows[headerIndex])!
+  const dataRows = rows.slice(headerIndex + 1).filter(row => row.some(cell => cell.trim() !== ''))
+  const credits: StatementCredit[] = []
+  let skippedRows = 0
+
+  for (const row of dataRows) {
+    const cell = (index: number) => (index >= 0 ? (row[index] ?? '').toString().trim() : '')
+
+    const transactionDate = parseStatementDate(cell(columns.date))
+    if (!transactionDate) {
+      // Opening/closing balance lines and footers
+      skippedRows++
+      continue
+    }
+
+    let amount = 0
+    if (columns.credit >= 0) {
+      amount = parseStatementAmount(cell(columns.credit))
+    } else {
+      const value = cell(columns.amount)
+      const type = `${cell(columns.type)} ${value}`.toLowerCase()
+      const isCredit = /(\b|\d)cr\b|credit/.test(type) || (!/(\b|\d)dr\b|debit/.test(type) && parseStatementAmount(value) > 0)
+      amount = isCredit ? Math.abs(parseStatementAmount(value)) : 0
+    }
+
+    if (amount <= 0) {
+      skippedRows++
+      continue
+    }
+
+    const description = cell(columns.description)
+    const raw: Record<string, string> = {}
+    header.forEach((name, index) => {
+      if (name) raw[name] = cell(index)
+    })
+
+    credits.push({
+      transactionDate,
+      amount: Math.round(amount * 100) / 100,
+      utr: extractUtr(cell(columns.reference), description),
+      description,
+      raw
+    })
+  }
+
+  return { credits, totalRows: dataRows.length, skippedRows }
+}
+
+// Read a CSV, XLS or XLSX statement export
+export const parseStatementFile = async (file: File): Promise<ParsedStatement> => {
+  const name = file.name.toLowerCase()
+
+  if (name.endsWith('.csv') || name.endsWith('.txt')) {
+    return extractCredits(parseCsv(await file.text()))
+  }
+
+  if (name.endsWith('.xls') || name.endsWith('.xlsx')) {
+    const workbook = read(await file.arrayBuffer(), { type: 'array', cellDates: false })
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    // Format date cells as ISO so they are not read back in the sheet's US locale
+    const rows = utils.sheet_to_json<string[]>(sheet, {
+      header: 1,
+      raw: false,
+      defval: '',
+      dateNF: 'yyyy-mm-dd hh:mm:ss'
+    })
+    return extractCredits(rows.map(row => row.map(cell => String(cell ?? ''))))
+  }
+
+  throw new Error('Unsupported file type. Upload a CSV, XLS or XLSX statement.')
+}
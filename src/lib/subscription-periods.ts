@@ -0,0 +1,110 @@
+import { supabase, type UserSubscription } from './supabase'
+
+export interface SubscriptionConfig {
+  // Days of access kept after a period ends, before the expiry job revokes it
+  grace_period_days: number
+  // How many days before the end of a period renewal is offered
+  renewal_window_days: number
+}
+
+export const DEFAULT_SUBSCRIPTION_CONFIG: SubscriptionConfig = {
+  grace_period_days: 7,
+  renewal_window_days: 30
+}
+
+// active: inside the paid period; grace: period ended but access is kept;
+// expired: access revoked; none: never subscribed
+export type SubscriptionPeriodStatus = 'active' | 'grace' | 'expired' | 'none'
+
+export interface SubscriptionSummary {
+  status: SubscriptionPeriodStatus
+  subscription: UserSubscription | null
+  expiresAt: Date | null
+  graceEndsAt: Date | null
+  // Whole days until the period ends (negative once it has ended)
+  daysRemaining: number | null
+  canRenew: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const loadSubscriptionConfig = async (): Promise<SubscriptionConfig> => {
+  try {
+    const { data, error } = await supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'subscription_config')
+      .maybeSingle()
+
+    if (error || !data?.value) return DEFAULT_SUBSCRIPTION_CONFIG
+
+    return { ...DEFAULT_SUBSCRIPTION_CONFIG, ...data.value }
+  } catch (error) {
+    console.error('Error loading subscription config:', error)
+    return DEFAULT_SUBSCRIPTION_CONFIG
+  }
+}
+
+export const summarizeSubscription = (
+  subscription: UserSubscription | null,
+  config: SubscriptionConfig,
+  now: Date = new Date()
+): SubscriptionSummary => {
+  if (!subscription) {
+    return { status: 'none', subscription: null, expiresAt: null, graceEndsAt: null, daysRemaining: null, canRenew: true }
+  }
+
+  const expiresAt = subscription.expires_at ? new Date(subscription.expires_at) : null
+
+  // Periods without an end date never lapse
+  if (!expiresAt) {
+    return { status: 'active', subscription, expiresAt: null, graceEndsAt: null, daysRemaining: null, canRenew: false }
+  }
+
+  const graceEndsAt = new Date(expiresAt.getTime() + config.grace_period_days * DAY_MS)
+  const daysRemaining = Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS)
+
+  let status: SubscriptionPeriodStatus
+  if (subscription.status !== 'active' || graceEndsAt <= now) {
+    status = 'expired'
+  } else if (expiresAt <= now) {
+    status = 'grace'
+  } else {
+    status = 'active'
+  }
+
+  return {
+    status,
+    subscription,
+    expiresAt,
+    graceEndsAt,
+    daysRemaining,
+    canRenew: status !== 'active' || daysRemaining <= config.renewal_window_days
+  }
+}
+
+// The user's current (or most recent) subscription period, with what the
+// subscription page needs to show days remaining and offer renewal
+export const getUserSubscriptionSummary = async (userId: string): Promise<SubscriptionSummary> => {
+  const config = await loadSubscriptionConfig()
+
+  try {
+    const { data, error } = await supabase
+      .from('user_subscriptions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('expires_at', { ascending: false, nullsFirst: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '42P01') return summarizeSubscription(null, config)
+      throw error
+    }
+
+    return summarizeSubscription(data, config)
+  } catch (error) {
+    console.error('Error loading subscription period:', error)
+    throw error
+  }
+}
@@ -0,0 +1,125 @@
+import type { SubscriptionPlan } from './supabase'
+import { adminApi } from './admin-api'
+import { DEFAULT_PLAN_FEATURES, parsePlanFeatures } from './plan-features'
+
+export type SubscriptionPlanInput = Pick<
+  SubscriptionPlan,
+  'name' | 'description' | 'price' | 'duration_months' | 'features' | 'is_active' | 'referral_reward_multiplier' | 'sort_order'
+>
+
+export const EMPTY_SUBSCRIPTION_PLAN: SubscriptionPlanInput = {
+  name: '',
+  description: '',
+  price: 0,
+  duration_months: 1,
+  features: DEFAULT_PLAN_FEATURES,
+  is_active: true,
+  referral_reward_multiplier: 1,
+  sort_order: 0
+}
+
+// "per month", "for 3 months", "per year", "for 2 years"
+export const formatPlanDuration = (months: number): string => {
+  if (months === 1) return 'per month'
+  if (months === 12) return 'per year'
+  if (months % 12 === 0) return `for ${months / 12} years`
+  return `for ${months} months`
+}
+
+// Price per month, for comparing plans of different lengths
+export const getMonthlyPrice = (plan: Pick<SubscriptionPlan, 'price' | 'duration_months'>): number =>
+  plan.duration_months > 0 ? plan.price / plan.duration_months : plan.price
+
+export const getPlanFeatureList = (plan: Pick<SubscriptionPlan, 'features'>): string[] =>
+  parsePlanFeatures(plan.features).highlights
+
+const normalizePlan = (plan: SubscriptionPlan): SubscriptionPlan => ({
+  ...plan,
+  price: Number(plan.price),
+  features: parsePlanFeatures(plan.features),
+  referral_reward_multiplier: Number(plan.referral_reward_multiplier ?? 1)
+})
+
+const validatePlan = (plan: Partial<SubscriptionPlanInput>) => {
+  if (plan.name !== undefined && !plan.name.trim()) throw new Error('Plan name is required')
+  if (plan.price !== undefined && !(plan.price >= 0)) throw new Error('Price cannot be negative')
+  if (plan.duration_months !== undefined && (!Number.isInteger(plan.duration_months) || plan.duration_months < 1)) {
+    throw new Error('Duration must be a whole number of months')
+  }
+  if (plan.referral_reward_multiplier !== undefined && !(plan.referral_reward_multiplier >= 0)) {
+    throw new Error('Referral multiplier cannot be negative')
+  }
+}
+
+// All plans including inactive ones (admin)
+export const getAllSubscriptionPlans = async (): Promise<SubscriptionPlan[]> => {
+  const { data, error } = await adminApi
+    .from('subscription_plans')
+    .select('*')
+    .order('sort_order')
+    .order('price')
+
+  if (error) {
+    if (error.code === '42P01') return []
+    console.error('Error fetching subscription plans:', error)
+    throw error
+  }
+
+  return (data || []).map(normalizePlan)
+}
+
+export const createSubscriptionPlan = async (plan: SubscriptionPlanInput): Promise<SubscriptionPlan> => {
+  validatePlan(plan)
+  const { data, error } = await adminApi
+    .from('subscription_plans')
+    .insert({ ...plan, name: plan.name.trim() })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating subscription plan:', error)
+    throw error
+  }
+
+  return normalizePlan(data)
+}
+
+export const updateSubscriptionPlan = async (
+  planId: string,
+  updates: Partial<SubscriptionPlanInput>
+): Promise<SubscriptionPlan> => {
+  validatePlan(updates)
+  const { data, error } = await adminApi
+    .from('subscription_plans')
+    .update(updates)
+    .eq('id', planId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating subscription plan:', error)
+    throw error
+  }
+
+  return normalizePlan(data)
+}
+
+// Plans that have been bought are kept for the records and deactivated
+// instead; returns what happened to the plan
+export const deleteSubscriptionPlan = async (planId: string): Promise<'deleted' | 'deactivated'> => {
+  const { error } = await adminApi
+    .from('subscription_plans')
+    .delete()
+    .eq('id', planId)
+
+  if (!error) return 'deleted'
+
+  // 23503: still referenced by requests, subscriptions or payment intents
+  if (error.code === '23503') {
+    await updateSubscriptionPlan(planId, { is_active: false })
+    return 'deactivated'
+  }
+
+  console.error('Error deleting subscription plan:', error)
+  throw error
+}
@@ -1,5 +1,8 @@
 import { createClient } from '@supabase/supabase-js'
-import { supabaseAdmin, hasAdminAccess } from './supabase-admin'
+import { adminApi, createAdminAccount } from './admin-api'
+import { isValidStatusTransition, type OrderStatus } from './order-status'
+import type { PlanFeatures } from './plan-features'
+import type { AdminPermission, AdminRole } from './admin-permissions'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -100,22 +103,6 @@ export const safeSupabaseOperation = async <T>(
   }
 };
 
-// Helper function to get safe client with error handling
-const getSafeClient = (requireAdmin = false) => {
-  if (requireAdmin) {
-    if (!hasAdminAccess) {
-      throw new Error('Admin access required but service role key not configured. Please set VITE_SUPABASE_SERVICE_ROLE_KEY environment variable.')
-    }
-    return supabaseAdmin!
-  }
-
-  if (!supabase) {
-    throw new Error('Supabase connection not available. Please check VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.')
-  }
-
-  return supabase
-}
-
 // Test connection function
 export const testSupabaseConnection = async (): Promise<boolean> => {
   if (!supabase || isPlaceholder) {
@@ -171,16 +158,31 @@ export interface Order {
   id: string
   user_id: string
   total_amount: number
-  status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'payment_failed'
+  status: OrderStatus
   payment_id?: string
+  payment_provider?: 'upi_manual' | 'razorpay'
+  razorpay_order_id?: string
   shipping_address?: ShippingAddress
   status_notes?: string
   status_updated_by?: string
   status_updated_at?: string
+  // Units paid for that were out of stock when the payment arrived
+  stock_shortfall?: number
   created_at: string
   updated_at: string
 }
 
+export interface OrderStatusHistoryEntry {
+  id: string
+  order_id: string
+  from_status: OrderStatus | null
+  to_status: OrderStatus
+  actor_id?: string | null
+  actor_type: 'admin' | 'customer' | 'system'
+  notes?: string | null
+  created_at: string
+}
+
 export interface OrderItem {
   id: string
   order_id: string
@@ -199,32 +201,67 @@ export interface ReferralCommission {
   level: number
   commission_rate: number
   commission_amount: number
-  status: 'pending' | 'paid'
+  // pending: locked until the order's return window passes; payable: withdrawable
+  status: 'pending' | 'payable' | 'void' | 'reversed'
   created_at: string
   trigger_type?: string
   trigger_user_id?: string
+  matures_at?: string | null
+  matured_at?: string | null
+}
+
+// A member of a user's downline, as returned by get_downline_members
+export interface DownlineMember {
+  id: string
+  full_name: string
+  referral_code: string
+  subscription_status: 'active' | 'inactive'
+  created_at: string
+  level: number
 }
 
 export interface WithdrawalRequest {
   id: string
   user_id: string
   amount: number
-  upi_id: string
-  status: 'pending' | 'approved' | 'rejected'
+  // upi_id is null for bank transfers, which use the bank_* fields instead
+  upi_id: string | null
+  // approved requests stay held until the payout is recorded as paid or failed
+  status: 'pending' | 'approved' | 'paid' | 'failed' | 'rejected'
   admin_notes?: string
   requested_at: string
   processed_at?: string
   processed_by?: string
+  payout_batch_id?: string | null
+  utr?: string | null
+  failure_reason?: string | null
+  paid_at?: string | null
+  payout_account_id?: string | null
+  account_holder_name?: string | null
+  bank_account_number?: string | null
+  bank_ifsc?: string | null
+  // Set on approval: TDS is withheld from the amount and net_amount is sent
+  financial_year?: string | null
+  tds_section?: string | null
+  tds_rate?: number
+  tds_amount?: number
+  tds_pan?: string | null
+  net_amount?: number
 }
 
 export interface Admin {
   id: string
   email: string
   full_name?: string
-  role: 'admin' | 'super_admin'
+  role: AdminRole
   is_active: boolean
   created_at: string
   created_by?: string
+  // Set while two-factor authentication is on
+  totp_enabled_at?: string | null
+  // The role's permissions and whether it requires 2FA; only sent for the signed-in admin
+  permissions?: AdminPermission[]
+  two_factor_required?: boolean
 }
 
 export interface CartItem {
@@ -260,6 +297,9 @@ export interface SubscriptionRequest {
   requested_at: string
   processed_at?: string
   processed_by?: string
+  plan_id?: string
+  request_type?: 'new' | 'renewal'
+  subscription_id?: string
   created_at: string
   updated_at: string
 }
@@ -270,8 +310,11 @@ export interface SubscriptionPlan {
   description?: string
   price: number
   duration_months: number
-  features?: any
+  features?: PlanFeatures
   is_active: boolean
+  // Scales the referral rewards paid when this plan is bought (1 = unchanged)
+  referral_reward_multiplier?: number
+  sort_order?: number
   created_at: string
   updated_at: string
 }
@@ -283,6 +326,9 @@ export interface UserSubscription {
   status: 'active' | 'expired' | 'cancelled'
   started_at: string
   expires_at?: string
+  renewed_at?: string
+  expired_at?: string
+  subscription_request_id?: string
   created_at: string
   updated_at: string
 }
@@ -543,68 +589,54 @@ export const clearCart = async (userId: string) => {
 }
 
 // Order functions
+// Orders are placed through the place_order RPC, which reprices items from the
+// products table, checks and decrements stock, and writes the order and its
+// items in one transaction. Only product ids and quantities are sent.
 export const createOrder = async (
   userId: string,
   cartItems: CartItem[],
   shippingAddress: ShippingAddress,
-  initialStatus: string = 'pending'
-) => {
-  const totalAmount = cartItems.reduce((sum, item) => {
-    return sum + (item.product?.price || 0) * item.quantity
-  }, 0)
-
-  console.log('🛒 Creating order for user:', userId, 'Total:', totalAmount)
+  initialStatus: Extract<OrderStatus, 'pending' | 'payment_pending'> = 'pending'
+): Promise<Order> => {
+  console.log('🛒 Placing order for user:', userId, 'Items:', cartItems.length)
 
   try {
-    // Create order
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .insert({
-        user_id: userId,
-        total_amount: totalAmount,
-        shipping_address: shippingAddress,
-        status: initialStatus
-      })
-      .select()
-      .single()
-
-    if (orderError) {
-      console.error('Order creation error:', orderError.message || orderError)
-      throw new Error(`Failed to create order: ${orderError.message}`)
+    if (!supabase) {
+      throw new Error('Database not available. Please configure Supabase credentials.')
     }
 
-    console.log('✅ Order created:', order.id)
-
-    // Create order items
-    const orderItems = cartItems.map(item => ({
-      order_id: order.id,
-      product_id: item.product_id,
-      quantity: item.quantity,
-      price: item.product?.price || 0
-    }))
+    const { data: order, error } = await supabase.rpc('place_order', {
+      items_param: cartItems.map(item => ({
+        product_id: item.product_id,
+        quantity: item.quantity
+      })),
+      shipping_address_param: shippingAddress,
+      initial_status_param: initialStatus
+    })
 
-    const { error: itemsError } = await supabase
-      .from('order_items')
-      .insert(orderItems)
+    if (error) {
+      console.error('Order placement error:', error.message || error)
 
-    if (itemsError) {
-      console.error('Order items creation error:', itemsError.message || itemsError)
-      // Try to cleanup the order if order items failed
-      try {
-        await supabase.from('orders').delete().eq('id', order.id)
-      } catch (cleanupError) {
-        console.error('Failed to cleanup order after items error:', cleanupError?.message || cleanupError)
+      // Stock and availability errors are raised with messages meant for the customer
+      if (error.code === 'P0001' || error.code === 'P0002') {
+        throw new Error(error.message)
       }
-      throw new Error(`Failed to create order items: ${itemsError.message}`)
+
+      throw new Error(`Failed to create order: ${error.message}`)
     }
 
-    console.log('✅ Order items created for order:', order.id)
-    return order
+    if (!order) {
+      throw new Error('Order was not created. Please try again.')
+    }
+
+    console.log('✅ Order placed:', order.id, 'Total:', order.total_amount)
+    return order as Order
   } catch (error: any) {
     console.error('createOrder error:', error)
 
-    // Check if it's a table not found error and provide helpful message
-    if (error.message?.includes('relation "orders" does not exist') ||
+    // Check if the RPC is missing and provide helpful message
+    if (error.message?.includes('function place_order') ||
+        error.message?.includes('relation "orders" does not exist') ||
         error.message?.includes('relation "order_items" does not exist')) {
       throw new Error('Database tables not found. Please run the database setup script.')
     }
@@ -732,61 +764,26 @@ export const getReferrerInfo = async (userId: string) => {
   }
 }
 
-// Get all-level referred users up to 7 levels deep
-export const getAllLevelReferredUsers = async (userId: string, maxLevels: number = 7) => {
+// Get all-level referred users up to 7 levels deep, read from the referral
+// closure in one call
+export const getAllLevelReferredUsers = async (userId: string, maxLevels: number = 7): Promise<DownlineMember[]> => {
   if (!supabase) {
     throw new Error('Database not available. Please configure Supabase credentials.');
   }
 
   try {
-    // Get current user's profile id
-    const { data: profile } = await supabase
-      .from('user_profiles')
-      .select('id')
-      .eq('user_id', userId)
-      .single()
-
-    if (!profile) return []
-
-    const results: Array<{ id: string; full_name: string; created_at: string; level: number }> = []
-    let currentLevelProfileIds: string[] = [profile.id]
-
-    for (let level = 1; level <= maxLevels; level++) {
-      if (currentLevelProfileIds.length === 0) break
-
-      // Fetch all users referred by any of the profiles in the current level
-      const { data: referredLevel, error } = await supabase
-        .from('user_profiles')
-        .select('id, full_name, created_at')
-        .in('referred_by', currentLevelProfileIds)
-
-      if (error) {
-        console.warn('Error fetching level referrals:', error.message)
-        break
-      }
-
-      if (!referredLevel || referredLevel.length === 0) {
-        break
-      }
-
-      // Add to result with level info
-      referredLevel.forEach((u) => {
-        results.push({
-          id: u.id,
-          full_name: u.full_name || 'User',
-          created_at: u.created_at,
-          level,
-        })
-      })
-
-      // Prepare next level
-      currentLevelProfileIds = referredLevel.map((u) => u.id)
-    }
+    const { data, error } = await supabase.rpc('get_downline_members', {
+      user_id_param: userId,
+      max_level_param: maxLevels
+    })
 
-    // Sort by level then date desc to keep recent at top within each level
-    results.sort((a, b) => (a.level === b.level ? (new Date(b.created_at).getTime() - new Date(a.created_at).getTime()) : a.level - b.level))
+    if (error) throw error
 
-    return results
+    // Already sorted by level, then newest first within each level
+    return ((data as DownlineMember[]) || []).map((u) => ({
+      ...u,
+      full_name: u.full_name || 'User'
+    }))
   } catch (error) {
     console.error('Error getting all-level referred users:', error)
     return []
@@ -794,7 +791,7 @@ export const getAllLevelReferredUsers = async (userId: string, maxLevels: number
 }
 
 // Withdrawal functions
-export const createWithdrawalRequest = async (userId: string, amount: number, upiId: string) => {
+export const createWithdrawalRequest = async (userId: string, amount: number, payoutAccountId: string) => {
   try {
     // First check if user has sufficient balance
     const { data: profile, error: profileError } = await supabase
@@ -821,7 +818,7 @@ export const createWithdrawalRequest = async (userId: string, amount: number, up
       .insert({
         user_id: userId,
         amount,
-        upi_id: upiId,
+        payout_account_id: payoutAccountId,
         status: 'pending'
       })
       .select()
@@ -832,21 +829,10 @@ export const createWithdrawalRequest = async (userId: string, amount: number, up
       throw new Error(`Failed to create withdrawal request: ${error.message}`)
     }
 
-    // Deduct the amount from available balance
-    const { error: balanceError } = await supabase
-      .from('user_profiles')
-      .update({
-        available_balance: profile.available_balance - amount,
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', userId)
-
-    if (balanceError) {
-      console.error('Error updating balance after withdrawal request:', balanceError)
-      // Don't fail the withdrawal request if balance update fails
-    }
+    // The withdrawal policy is checked, the payout details copied from the
+    // account and the amount held in the wallet ledger by triggers on the insert
 
-    console.log(`✅ Withdrawal request created: User ${userId} requested ₹${amount} to ${upiId}`)
+    console.log(`✅ Withdrawal request created: User ${userId} requested ₹${amount} to account ${payoutAccountId}`)
     return data
   } catch (error: any) {
     console.error('Error in createWithdrawalRequest:', error)
@@ -875,93 +861,13 @@ export const getUserWithdrawalRequests = async (userId: string) => {
 }
 
 // Admin Functions
-export const createAdmin = async (email: string, password: string, fullName?: string, createdBy?: string) => {
-  const { hashPassword } = await import('./password-utils')
-
-  // Hash the password (now async)
-  const { hash, salt } = await hashPassword(password)
-
-  const { data, error } = await supabase
-    .from('admins')
-    .insert({
-      email,
-      password_hash: hash,
-      password_salt: salt,
-      full_name: fullName,
-      role: 'admin',
-      is_active: true,
-      created_by: createdBy
-    })
-    .select()
-    .single()
-
-  if (error) throw error
-  return data
-}
-
-export const authenticateAdmin = async (email: string, password: string) => {
-  try {
-    const { verifyPassword } = await import('./password-utils')
-
-    // Use admin client with service role key for admin authentication
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
-    if (!client) {
-      throw new Error('Admin client not available. Please check service role key configuration.')
-    }
-
-    const { data, error } = await client
-      .from('admins')
-      .select('*')
-      .eq('email', email)
-      .eq('is_active', true)
-      .single()
-
-    if (error) {
-      console.error('Admin authentication error:', error.message, error)
-
-      // Check if table doesn't exist
-      if (error.code === '42P01') {
-        throw new Error('Admin table not initialized. Please contact system administrator to set up the database.')
-      }
-
-      // Check if no admin found
-      if (error.code === 'PGRST116') {
-        throw new Error('Invalid email or password')
-      }
-
-      throw new Error(`Database error: ${error.message}`)
-    }
-
-    // Verify password if admin found
-    if (!data.password_hash || !data.password_salt) {
-      throw new Error('Admin account setup incomplete. Please contact system administrator.')
-    }
-
-    const isPasswordValid = await verifyPassword(password, data.password_hash, data.password_salt)
-
-    if (!isPasswordValid) {
-      throw new Error('Invalid email or password')
-    }
-
-    // Remove sensitive data before returning
-    const { password_hash, password_salt, ...adminData } = data
-    return adminData
-  } catch (error: any) {
-    console.error('Admin authentication failed:', error.message || error)
-    throw error
-  }
-}
+// Admin accounts and sessions are handled by the admin-api edge function;
+// see signInAdmin in admin-api.ts
 
 export const getAllWithdrawalRequests = async () => {
   try {
-    if (!supabase) {
-      console.warn('Supabase not available, returning empty withdrawal requests array')
-      return []
-    }
-
     // First, try to get withdrawal requests
-    const { data: withdrawalData, error: withdrawalError } = await supabase
+    const { data: withdrawalData, error: withdrawalError } = await adminApi
       .from('withdrawal_requests')
       .select('*')
       .order('requested_at', { ascending: false })
@@ -986,7 +892,7 @@ export const getAllWithdrawalRequests = async () => {
     const userIds = [...new Set(withdrawalData.map(req => req.user_id))]
 
     // Fetch user profiles separately
-    const { data: profilesData, error: profilesError } = await supabase
+    const { data: profilesData, error: profilesError } = await adminApi
       .from('user_profiles')
       .select('user_id, full_name, email, phone')
       .in('user_id', userIds)
@@ -1030,12 +936,11 @@ export const getAllWithdrawalRequests = async () => {
 export const updateWithdrawalRequestStatus = async (
   requestId: string,
   status: 'approved' | 'rejected',
-  adminId: string,
   adminNotes?: string
 ) => {
   try {
     // First get the withdrawal request details
-    const { data: request, error: fetchError } = await supabase
+    const { data: request, error: fetchError } = await adminApi
       .from('withdrawal_requests')
       .select('*')
       .eq('id', requestId)
@@ -1051,13 +956,7 @@ export const updateWithdrawalRequestStatus = async (
       admin_notes: adminNotes
     }
 
-    // Get current authenticated user to set as processed_by
-    const { data: { user } } = await supabase.auth.getUser()
-    if (user) {
-      updateData.processed_by = user.id
-    }
-
-    const { data, error } = await supabase
+    const { data, error } = await adminApi
       .from('withdrawal_requests')
       .update(updateData)
       .eq('id', requestId)
@@ -1069,65 +968,8 @@ export const updateWithdrawalRequestStatus = async (
       throw new Error(`Failed to update withdrawal request: ${error.message}`)
     }
 
-    // If rejected, refund the amount back to user's available balance
-    if (status === 'rejected') {
-      try {
-        // First get current balance
-        const { data: currentProfile, error: fetchError } = await supabase
-          .from('user_profiles')
-          .select('available_balance')
-          .eq('user_id', request.user_id)
-          .single()
-
-        if (!fetchError && currentProfile) {
-          const { error: refundError } = await supabase
-            .from('user_profiles')
-            .update({
-              available_balance: currentProfile.available_balance + request.amount,
-              updated_at: new Date().toISOString()
-            })
-            .eq('user_id', request.user_id)
-
-          if (refundError) {
-            console.error('Error refunding amount:', refundError)
-          } else {
-            console.log(`✅ Refunded ₹${request.amount} to user ${request.user_id}`)
-          }
-        }
-      } catch (refundError) {
-        console.error('Error in refund process:', refundError)
-      }
-    }
-
-    // If approved, update withdrawn amount
-    if (status === 'approved') {
-      try {
-        // First get current withdrawn amount
-        const { data: currentProfile, error: fetchError } = await supabase
-          .from('user_profiles')
-          .select('withdrawn_amount')
-          .eq('user_id', request.user_id)
-          .single()
-
-        if (!fetchError && currentProfile) {
-          const { error: withdrawnError } = await supabase
-            .from('user_profiles')
-            .update({
-              withdrawn_amount: (currentProfile.withdrawn_amount || 0) + request.amount,
-              updated_at: new Date().toISOString()
-            })
-            .eq('user_id', request.user_id)
-
-          if (withdrawnError) {
-            console.error('Error updating withdrawn amount:', withdrawnError)
-          } else {
-            console.log(`✅ Updated withdrawn amount for user ${request.user_id}`)
-          }
-        }
-      } catch (withdrawnError) {
-        console.error('Error updating withdrawn amount:', withdrawnError)
-      }
-    }
+    // The wallet ledger releases the held amount on rejection; approved
+    // requests stay held until the payout is recorded (see payouts.ts)
 
     console.log(`✅ Withdrawal request ${requestId} status updated to ${status}`)
     return data
@@ -1137,9 +979,15 @@ export const updateWithdrawalRequestStatus = async (
   }
 }
 
-export const addNewAdmin = async (email: string, password: string, fullName: string, createdBy: string) => {
+export const addNewAdmin = async (
+  email: string,
+  password: string,
+  fullName: string,
+  createdBy: string,
+  role: AdminRole = 'admin'
+) => {
   try {
-    const { hashPassword, validatePasswordStrength } = await import('./password-utils')
+    const { validatePasswordStrength } = await import('./password-utils')
 
     // Validate password strength
     const passwordValidation = validatePasswordStrength(password)
@@ -1147,87 +995,19 @@ export const addNewAdmin = async (email: string, password: string, fullName: str
       throw new Error(`Password requirements not met: ${passwordValidation.errors.join(', ')}`)
     }
 
-    // Check if admin already exists
-    const { data: existingAdmin, error: checkError } = await supabase
-      .from('admins')
-      .select('email')
-      .eq('email', email)
-      .single()
-
-    // If table doesn't exist, inform user
-    if (checkError && checkError.code === '42P01') {
-      throw new Error('Admin table not initialized. Please contact system administrator to set up the database.')
-    }
-
-    if (existingAdmin) {
-      throw new Error('Admin with this email already exists')
-    }
-
-    // Hash the password (now async)
-    const { hash, salt } = await hashPassword(password)
-
-    const { data, error } = await supabase
-      .from('admins')
-      .insert({
-        email,
-        password_hash: hash,
-        password_salt: salt,
-        full_name: fullName,
-        role: 'admin',
-        is_active: true,
-        created_by: createdBy
-      })
-      .select()
-      .single()
-
-    if (error) {
-      console.error('Error adding new admin:', error.message)
-      throw new Error(`Failed to add admin: ${error.message}`)
-    }
-
-    // Remove sensitive data before returning
-    const { password_hash, password_salt, ...adminData } = data
-    return adminData
+    // The admin-api function hashes the password and records the signed-in
+    // admin as created_by
+    return await createAdminAccount(email, password, fullName, role)
   } catch (error: any) {
     console.error('Add admin error:', error.message || error)
     throw error
   }
 }
 
-// Initialize default admin account
-export const seedInitialAdmin = async () => {
-  try {
-    // Check if admin already exists
-    const { data: existingAdmin } = await supabase
-      .from('admins')
-      .select('*')
-      .eq('email', 'aman.csc.99188@gmail.com')
-      .single()
-
-    if (existingAdmin) {
-      console.log('Initial admin already exists')
-      return existingAdmin
-    }
-
-    // Create initial admin with secure password
-    const adminData = await createAdmin(
-      'aman.csc.99188@gmail.com',
-      'Admin@123!',
-      'Aman Kumar'
-    )
-
-    console.log('Initial admin created successfully')
-    return adminData
-  } catch (error) {
-    console.error('Error seeding initial admin:', error)
-    throw error
-  }
-}
-
 export const getAllAdmins = async () => {
-  const { data, error } = await supabase
+  const { data, error } = await adminApi
     .from('admins')
-    .select('*')
+    .select('id, email, full_name, role, is_active, created_at, created_by, totp_enabled_at')
     .order('created_at', { ascending: false })
 
   if (error) throw error
@@ -1235,11 +1015,11 @@ export const getAllAdmins = async () => {
 }
 
 export const updateAdminStatus = async (adminId: string, isActive: boolean) => {
-  const { data, error } = await supabase
+  const { data, error } = await adminApi
     .from('admins')
     .update({ is_active: isActive })
     .eq('id', adminId)
-    .select()
+    .select('id, email, full_name, role, is_active, created_at, created_by, totp_enabled_at')
     .single()
 
   if (error) throw error
@@ -1249,12 +1029,7 @@ export const updateAdminStatus = async (adminId: string, isActive: boolean) => {
 // Product Management Functions
 export const getAllProducts = async () => {
   try {
-    if (!supabase) {
-      console.warn('Supabase not available, returning empty products array')
-      return []
-    }
-
-    const { data, error } = await supabase
+    const { data, error } = await adminApi
       .from('products')
       .select('*')
       .order('created_at', { ascending: false })
@@ -1303,10 +1078,7 @@ export const createProduct = async (productData: Omit<Product, 'id' | 'created_a
       updated_at: new Date().toISOString()
     }
 
-    // Use admin client if available to bypass RLS, otherwise use regular client
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
-    const { data, error } = await client
+    const { data, error } = await adminApi
       .from('products')
       .insert([cleanData])
       .select()
@@ -1366,10 +1138,7 @@ export const updateProduct = async (productId: string, productData: Partial<Prod
       }
     })
 
-    // Use admin client if available to bypass RLS, otherwise use regular client
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
-    const { data, error } = await client
+    const { data, error } = await adminApi
       .from('products')
       .update(cleanData)
       .eq('id', productId)
@@ -1415,10 +1184,7 @@ export const deleteProduct = async (productId: string) => {
   try {
     // Admin authentication is handled by the admin context
 
-    // Use admin client if available to bypass RLS, otherwise use regular client
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
-    const { error } = await client
+    const { error } = await adminApi
       .from('products')
       .delete()
       .eq('id', productId)
@@ -1447,10 +1213,7 @@ export const deleteProduct = async (productId: string) => {
 
 export const toggleProductStatus = async (productId: string, isActive: boolean) => {
   try {
-    // Use admin client if available to bypass RLS, otherwise use regular client
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
-    const { data, error } = await client
+    const { data, error } = await adminApi
       .from('products')
       .update({
         is_active: isActive,
@@ -1496,23 +1259,41 @@ export const getProductsByCategory = async (category?: string) => {
   }
 }
 
-export const updateProductStock = async (productId: string, stockQuantity: number) => {
+// Set a product's stock to an absolute quantity. The change is recorded in
+// the stock_movements ledger as a manual adjustment or a restock.
+export const updateProductStock = async (
+  productId: string,
+  stockQuantity: number,
+  options: {
+    movementType?: 'adjustment' | 'restock'
+    notes?: string
+  } = {}
+) => {
   try {
-    // Use admin client if available to bypass RLS, otherwise use regular client
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
+    if (stockQuantity < 0) {
+      throw new Error('Stock quantity cannot be negative')
+    }
 
-    const { data, error } = await client
+    const { error: adjustError } = await adminApi.rpc('adjust_product_stock', {
+      product_id_param: productId,
+      new_quantity_param: stockQuantity,
+      movement_type_param: options.movementType || 'adjustment',
+      notes_param: options.notes || null
+    })
+
+    if (adjustError) {
+      console.error('Error updating product stock:', adjustError.message)
+      throw new Error(`Failed to update stock: ${adjustError.message}`)
+    }
+
+    const { data, error } = await adminApi
       .from('products')
-      .update({
-        stock_quantity: stockQuantity,
-        updated_at: new Date().toISOString()
-      })
+      .select('*')
       .eq('id', productId)
-      .select()
       .single()
 
     if (error) {
-      console.error('Error updating product stock:', error.message)
+      console.error('Error reloading product after stock update:', error.message)
       throw new Error(`Failed to update stock: ${error.message}`)
     }
 
@@ -1526,14 +1307,12 @@ export const updateProductStock = async (productId: string, stockQuantity: numbe
 // Admin Dashboard Analytics Functions
 export const getAdminAnalytics = async () => {
   try {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
     // Get data in parallel
     const [usersResult, ordersResult, productsResult, withdrawalsResult] = await Promise.all([
-      client.from('user_profiles').select('id, created_at, full_name, email'),
-      client.from('orders').select('id, total_amount, created_at, status'),
-      client.from('products').select('id, created_at'),
-      client.from('withdrawal_requests').select('id, amount, status, requested_at')
+      adminApi.from('user_profiles').select('id, created_at, full_name, email'),
+      adminApi.from('orders').select('id, total_amount, created_at, status'),
+      adminApi.from('products').select('id, created_at'),
+      adminApi.from('withdrawal_requests').select('id, amount, status, requested_at')
     ])
 
     const users = usersResult.data || []
@@ -1615,9 +1394,7 @@ export const getAdminAnalytics = async () => {
 
 export const getAllUsers = async () => {
   try {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
-    const { data, error } = await client
+    const { data, error } = await adminApi
       .from('user_profiles')
       .select('*')
       .order('created_at', { ascending: false })
@@ -1640,18 +1417,12 @@ export const updateUserByAdmin = async (
   updates: Partial<UserProfile> & { email?: string }
 ): Promise<UserProfile> => {
   try {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
-    if (!client) {
-      throw new Error('Admin client not available. Please check service role key configuration.')
-    }
-
     const cleanUpdates: any = { ...updates, updated_at: new Date().toISOString() }
     Object.keys(cleanUpdates).forEach((key) => {
       if (cleanUpdates[key] === undefined) delete cleanUpdates[key]
     })
 
-    const { data, error } = await client
+    const { data, error } = await adminApi
       .from('user_profiles')
       .update(cleanUpdates)
       .eq('user_id', userId)
@@ -1672,13 +1443,7 @@ export const updateUserByAdmin = async (
 // Admin: Delete a user's profile by user_id
 export const deleteUserByAdmin = async (userId: string): Promise<boolean> => {
   try {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
-    if (!client) {
-      throw new Error('Admin client not available. Please check service role key configuration.')
-    }
-
-    const { error } = await client
+    const { error } = await adminApi
       .from('user_profiles')
       .delete()
       .eq('user_id', userId)
@@ -1696,15 +1461,7 @@ export const deleteUserByAdmin = async (userId: string): Promise<boolean> => {
 
 export const getAllOrders = async () => {
   try {
-    // Use admin client with service role key for admin operations
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-    
-    if (!client) {
-      console.error('Admin client not available')
-      return []
-    }
-
-    const { data, error } = await client
+    const { data, error } = await adminApi
       .from('orders')
       .select(`
         *,
@@ -1727,42 +1484,45 @@ export const getAllOrders = async () => {
   }
 }
 
+// Move an order to a new status through the transition_order_status RPC.
+// The database rejects transitions that ORDER_STATUS_TRANSITIONS does not allow
+// and records the change in order_status_history.
 export const updateOrderStatus = async (
-  orderId: string, 
-  status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'payment_failed',
-  notes?: string,
-  adminId?: string
-) => {
+  orderId: string,
+  status: OrderStatus,
+  notes?: string
+): Promise<Order> => {
   try {
-    // Use admin client with service role key for admin operations
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-    
-    if (!client) {
-      throw new Error('Admin client not available. Please check service role key configuration.')
+    const { data: current, error: fetchError } = await adminApi
+      .from('orders')
+      .select('status')
+      .eq('id', orderId)
+      .single()
+
+    if (fetchError || !current) {
+      throw new Error('Order not found')
     }
 
-    const updateData: any = {
-      status,
-      updated_at: new Date().toISOString()
+    if (current.status === status) {
+      throw new Error(`Order is already ${status}`)
     }
 
-    // Add optional fields if provided
-    if (notes) updateData.status_notes = notes
-    if (adminId) updateData.status_updated_by = adminId
+    if (!isValidStatusTransition(current.status, status)) {
+      throw new Error(`Cannot move order from ${current.status} to ${status}`)
+    }
 
-    const { data, error } = await client
-      .from('orders')
-      .update(updateData)
-      .eq('id', orderId)
-      .select()
-      .single()
+    const { data, error } = await adminApi.rpc('transition_order_status', {
+      order_id_param: orderId,
+      new_status_param: status,
+      notes_param: notes || null
+    })
 
     if (error) {
       console.error('Error updating order status:', error.message)
       throw new Error(`Failed to update order status: ${error.message}`)
     }
 
-    return data
+    return data as Order
   } catch (error: any) {
     console.error('Update order status error:', error.message || error)
     throw error
@@ -1773,7 +1533,7 @@ export const updateOrderStatus = async (
 export const updateOrderComprehensive = async (
   orderId: string,
   updates: {
-    status?: string
+    status?: OrderStatus
     tracking_number?: string
     carrier_name?: string
     estimated_delivery_date?: string
@@ -1781,11 +1541,17 @@ export const updateOrderComprehensive = async (
   }
 ) => {
   try {
-    // Use admin client with service role key for admin operations
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-    
-    if (!client) {
-      throw new Error('Admin client not available. Please check service role key configuration.')
+    // Status changes go through the state machine first
+    if (updates.status) {
+      const { data: current } = await adminApi
+        .from('orders')
+        .select('status')
+        .eq('id', orderId)
+        .single()
+
+      if (current && current.status !== updates.status) {
+        await updateOrderStatus(orderId, updates.status, updates.admin_notes)
+      }
     }
 
     const updateData: any = {
@@ -1793,13 +1559,12 @@ export const updateOrderComprehensive = async (
     }
 
     // Only add fields that are provided
-    if (updates.status) updateData.status = updates.status
     if (updates.tracking_number) updateData.tracking_number = updates.tracking_number
     if (updates.carrier_name) updateData.carrier_name = updates.carrier_name
     if (updates.estimated_delivery_date) updateData.estimated_delivery_date = updates.estimated_delivery_date
     if (updates.admin_notes) updateData.admin_notes = updates.admin_notes
 
-    const { data, error } = await client
+    const { data, error } = await adminApi
       .from('orders')
       .update(updateData)
       .eq('id', orderId)
@@ -1818,6 +1583,24 @@ export const updateOrderComprehensive = async (
   }
 }
 
+// Get the status timeline for an order, oldest first
+export const getOrderStatusHistory = async (orderId: string): Promise<OrderStatusHistoryEntry[]> => {
+  return safeSupabaseOperation(async () => {
+    const { data, error } = await adminApi
+      .from('order_status_history')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return data || []
+  }, [], 'getOrderStatusHistory')
+}
+
 // Subscription Functions
 
 // Check user subscription status
@@ -1827,8 +1610,7 @@ export const checkUserSubscriptionStatus = async (userId: string): Promise<'acti
       throw new Error('Database not available. Please configure Supabase credentials.');
     }
 
-    // Use service role client for reliable access to user_profiles
-    const client = hasAdminAccess ? supabaseAdmin! : supabase!;
+    const client = supabase;
 
     const { data, error } = await client
       .from('user_profiles')
@@ -1841,7 +1623,34 @@ export const checkUserSubscriptionStatus = async (userId: string): Promise<'acti
       return 'inactive' // Default to inactive if there's an error
     }
 
-    return data?.subscription_status || 'inactive'
+    if (data?.subscription_status !== 'active') {
+      return 'inactive'
+    }
+
+    // A period past its grace period no longer grants access, even if the
+    // expiry job has not run yet
+    const { data: period } = await client
+      .from('user_subscriptions')
+      .select('expires_at')
+      .eq('user_id', userId)
+      .eq('status', 'active')
+      .maybeSingle()
+
+    if (period?.expires_at) {
+      const { data: config } = await client
+        .from('system_settings')
+        .select('value')
+        .eq('key', 'subscription_config')
+        .maybeSingle()
+
+      const graceDays = Number(config?.value?.grace_period_days ?? 7)
+      const accessEndsAt = new Date(period.expires_at).getTime() + graceDays * 24 * 60 * 60 * 1000
+      if (accessEndsAt < Date.now()) {
+        return 'inactive'
+      }
+    }
+
+    return 'active'
   }, 'inactive', 'checkUserSubscriptionStatus')
 }
 
@@ -1852,13 +1661,13 @@ export const getSubscriptionPlans = async (): Promise<SubscriptionPlan[]> => {
       throw new Error('Database not available. Please configure Supabase credentials.');
     }
 
-    // Use service role client for reliable access
-    const client = hasAdminAccess ? supabaseAdmin! : supabase!;
+    const client = supabase;
 
     const { data, error } = await client
       .from('subscription_plans')
       .select('*')
       .eq('is_active', true)
+      .order('sort_order')
       .order('price')
 
     if (error) {
@@ -1874,7 +1683,8 @@ export const createSubscriptionRequest = async (
   userId: string,
   upiTransactionId: string,
   amount: number,
-  paymentProofFile?: File
+  paymentProofFile?: File,
+  options: { planId?: string; requestType?: SubscriptionRequest['request_type'] } = {}
 ): Promise<SubscriptionRequest | null> => {
   try {
     if (!supabase) {
@@ -1924,8 +1734,7 @@ export const createSubscriptionRequest = async (
       }
     }
 
-    // Use service role client if available for better permissions
-    const client = hasAdminAccess ? supabaseAdmin! : supabase;
+    const client = supabase;
 
     // Create subscription request
     const { data, error } = await client
@@ -1936,7 +1745,9 @@ export const createSubscriptionRequest = async (
         upi_transaction_id: upiTransactionId,
         payment_proof_url: paymentProofUrl,
         payment_proof_filename: paymentProofFilename,
-        status: 'pending'
+        status: 'pending',
+        ...(options.planId && { plan_id: options.planId }),
+        ...(options.requestType && { request_type: options.requestType })
       })
       .select()
       .single()
@@ -1976,8 +1787,7 @@ export const getUserSubscriptionRequests = async (userId: string): Promise<Subsc
       return []
     }
 
-    // Use service role client if available for better permissions
-    const client = hasAdminAccess ? supabaseAdmin! : supabase;
+    const client = supabase;
 
     // Get current authenticated user to ensure we only fetch their requests
     const { data: { user: currentUser }, error: authError } = await supabase.auth.getUser()
@@ -1996,7 +1806,7 @@ export const getUserSubscriptionRequests = async (userId: string): Promise<Subsc
     // Query subscription requests
     const { data, error } = await client
       .from('subscription_requests')
-      .select('id, user_id, amount, upi_transaction_id, payment_proof_url, payment_proof_filename, status, admin_notes, requested_at, processed_at, created_at, updated_at')
+      .select('id, user_id, amount, upi_transaction_id, payment_proof_url, payment_proof_filename, status, admin_notes, requested_at, processed_at, plan_id, request_type, subscription_id, created_at, updated_at')
       .eq('user_id', userId)
       .order('created_at', { ascending: false })
 
@@ -2036,12 +1846,10 @@ export const getAllSubscriptionRequests = async (): Promise<(SubscriptionRequest
       return []
     }
 
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
     // First, get subscription requests
-    const { data: requestsData, error: requestsError } = await client
+    const { data: requestsData, error: requestsError } = await adminApi
       .from('subscription_requests')
-      .select('*')
+      .select('*, subscription_plan:subscription_plans(name, price, duration_months)')
       .order('requested_at', { ascending: false })
 
     if (requestsError) {
@@ -2055,7 +1863,7 @@ export const getAllSubscriptionRequests = async (): Promise<(SubscriptionRequest
 
       // Check for permission denied errors
       if (requestsError.code === '42501' || requestsError.message?.includes('permission denied')) {
-        console.log('Permission denied for subscription requests, admin may need service role key')
+        console.log('Permission denied for subscription requests')
         return []
       }
 
@@ -2070,7 +1878,7 @@ export const getAllSubscriptionRequests = async (): Promise<(SubscriptionRequest
     const userIds = [...new Set(requestsData.map(req => req.user_id))]
 
     // Fetch user profiles separately
-    const { data: profilesData, error: profilesError } = await client
+    const { data: profilesData, error: profilesError } = await adminApi
       .from('user_profiles')
       .select('user_id, full_name, phone')
       .in('user_id', userIds)
@@ -2113,30 +1921,43 @@ export const getAllSubscriptionRequests = async (): Promise<(SubscriptionRequest
 export const updateSubscriptionRequestStatus = async (
   requestId: string,
   status: 'approved' | 'rejected',
-  adminId: string,
   adminNotes?: string
 ): Promise<SubscriptionRequest | null> => {
   try {
-    // Use admin client with service role key for admin operations
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-    
-    if (!client) {
-      throw new Error('Admin client not available. Please check service role key configuration.')
-    }
-
     const updateData: any = {
       status,
       processed_at: new Date().toISOString(),
       admin_notes: adminNotes
     }
 
-    // Get current authenticated user to set as processed_by
-    const { data: { user } } = await client.auth.getUser()
-    if (user) {
-      updateData.processed_by = user.id
+    // Approval opens or extends the user's subscription period
+    if (status === 'approved') {
+      const { error: approveError } = await adminApi.rpc('approve_subscription_request', {
+        request_id_param: requestId,
+        admin_notes_param: adminNotes ?? null,
+        processed_by_param: null
+      })
+
+      if (approveError) {
+        console.error('Error approving subscription request:', approveError.message)
+        throw new Error(`Failed to approve subscription request: ${approveError.message}`)
+      }
+
+      const { data: approved, error: fetchError } = await adminApi
+        .from('subscription_requests')
+        .select('*')
+        .eq('id', requestId)
+        .single()
+
+      if (fetchError) {
+        throw new Error(`Failed to load subscription request: ${fetchError.message}`)
+      }
+
+      // Activating the profile pays the referral rewards in the database
+      return approved
     }
 
-    const { data, error } = await client
+    const { data, error } = await adminApi
       .from('subscription_requests')
       .update(updateData)
       .eq('id', requestId)
@@ -2148,11 +1969,6 @@ export const updateSubscriptionRequestStatus = async (
       throw new Error(`Failed to update subscription request: ${error.message}`)
     }
 
-    // If approved, also update user's subscription status
-    if (status === 'approved' && data) {
-      await updateUserSubscriptionStatus(data.user_id, 'active')
-    }
-
     return data
   } catch (error: any) {
     console.error('Update subscription request status error:', error.message || error)
@@ -2166,28 +1982,7 @@ export const updateUserSubscriptionStatus = async (
   status: 'active' | 'inactive'
 ): Promise<boolean> => {
   try {
-    // Use admin client with service role key for admin operations
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-    
-    if (!client) {
-      throw new Error('Admin client not available. Please check service role key configuration.')
-    }
-
-    // Check if user was previously inactive to trigger rewards only once
-    const { data: currentProfile, error: checkError } = await client
-      .from('user_profiles')
-      .select('subscription_status')
-      .eq('user_id', userId)
-      .single()
-
-    if (checkError) {
-      console.error('Error checking current subscription status:', checkError.message)
-      throw new Error(`Failed to check subscription status: ${checkError.message}`)
-    }
-
-    const wasInactive = currentProfile?.subscription_status !== 'active'
-
-    const { error } = await client
+    const { error } = await adminApi
       .from('user_profiles')
       .update({
         subscription_status: status,
@@ -2200,45 +1995,8 @@ export const updateUserSubscriptionStatus = async (
       throw new Error(`Failed to update subscription status: ${error.message}`)
     }
 
-    // Trigger referral rewards on activation. Prefer first-activation, but add idempotent fallback.
-    if (status === 'active') {
-      try {
-        // Check if commissions for this activation already exist
-        const { count: existingCount } = await client
-          .from('referral_commissions')
-          .select('*', { count: 'exact', head: true })
-          .eq('trigger_user_id', userId)
-          .eq('trigger_type', 'subscription_activation')
-
-        // Only process if first-time activation OR commissions missing
-        if (wasInactive || (existingCount ?? 0) === 0) {
-          // Ensure user was actually referred to avoid unnecessary work
-          const { data: buyerProfile } = await client
-            .from('user_profiles')
-            .select('referred_by')
-            .eq('user_id', userId)
-            .single()
-
-          if (buyerProfile?.referred_by) {
-            const { safeProcessReferralRewards } = await import('./referral-system-fix')
-            const success = await safeProcessReferralRewards(userId, 'subscription_activation')
-            if (success) {
-              console.log(`✅ Referral rewards processed for user: ${userId}`)
-            } else {
-              console.log(`⚠️ Referral rewards processing skipped for user: ${userId} (system not ready)`) 
-            }
-          }
-        }
-      } catch (rewardError: any) {
-        console.error('Error processing referral rewards:', {
-          message: rewardError.message,
-          stack: rewardError.stack,
-          name: rewardError.name,
-          fullError: rewardError
-        })
-        // Don't fail the subscription update if rewards processing fails
-      }
-    }
+    // Activation rewards are paid by the rules engine in the database when the
+    // profile becomes active
 
     return true
   } catch (error: any) {
@@ -2252,7 +2010,7 @@ export const getPaymentProofUrl = async (paymentProofPath: string): Promise<stri
   try {
     if (!paymentProofPath) return null
 
-    const { data, error } = await supabase.storage
+    const { data, error } = await adminApi.storage
       .from('payment-proofs')
       .createSignedUrl(paymentProofPath, 60 * 60) // 1 hour expiry
 
@@ -2285,7 +2043,7 @@ export interface AdminUPI {
 // Get active UPI configuration using the existing function
 export const getActiveUPIConfig = async (): Promise<AdminUPIConfig | null> => {
   try {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
+    const client = supabase
 
     const { data, error } = await client.rpc('get_active_upi_config')
 
@@ -2304,9 +2062,7 @@ export const getActiveUPIConfig = async (): Promise<AdminUPIConfig | null> => {
 // Get admin UPI settings from admins table
 export const getAdminUPIs = async (adminId: string): Promise<AdminUPI[]> => {
   try {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
-    const { data, error } = await client
+    const { data, error } = await adminApi
       .from('admins')
       .select('active_upi_id, upi_merchant_name, upi_ids')
       .eq('id', adminId)
@@ -2357,10 +2113,8 @@ export const getAdminUPIs = async (adminId: string): Promise<AdminUPI[]> => {
 // Update admin UPI settings in admins table
 export const updateAdminUPI = async (adminId: string, upiId: string, upiName: string, isPrimary: boolean): Promise<void> => {
   try {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
     // Get current admin data
-    const { data: currentAdmin, error: fetchError } = await client
+    const { data: currentAdmin, error: fetchError } = await adminApi
       .from('admins')
       .select('active_upi_id, upi_merchant_name, upi_ids')
       .eq('id', adminId)
@@ -2385,7 +2139,7 @@ export const updateAdminUPI = async (adminId: string, upiId: string, upiName: st
     }
     updateData.upi_ids = upiIds
 
-    const { error } = await client
+    const { error } = await adminApi
       .from('admins')
       .update(updateData)
       .eq('id', adminId)
@@ -2420,10 +2174,8 @@ export const addAdminUPI = async (adminId: string, upiId: string, upiName: strin
 // Remove UPI ID
 export const deleteAdminUPI = async (adminId: string, upiId: string): Promise<void> => {
   try {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
     // Get current admin data
-    const { data: currentAdmin, error: fetchError } = await client
+    const { data: currentAdmin, error: fetchError } = await adminApi
       .from('admins')
       .select('active_upi_id, upi_merchant_name, upi_ids')
       .eq('id', adminId)
@@ -2446,7 +2198,7 @@ export const deleteAdminUPI = async (adminId: string, upiId: string): Promise<vo
       updateData.upi_ids = currentAdmin.upi_ids.filter((id: string) => id !== upiId)
     }
 
-    const { error } = await client
+    const { error } = await adminApi
       .from('admins')
       .update(updateData)
       .eq('id', adminId)
@@ -2464,9 +2216,7 @@ export const deleteAdminUPI = async (adminId: string, upiId: string): Promise<vo
 // Set primary UPI
 export const setPrimaryAdminUPI = async (adminId: string, upiId: string, upiName: string): Promise<void> => {
   try {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
-    const { error } = await client
+    const { error } = await adminApi
       .from('admins')
       .update({
         active_upi_id: upiId,
@@ -2493,15 +2243,8 @@ export const toggleUserSubscription = async (
   adminId: string
 ): Promise<boolean> => {
   try {
-    // Use admin client with service role key for admin operations
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-    
-    if (!client) {
-      throw new Error('Admin client not available. Please check service role key configuration.')
-    }
-
     // Update user subscription status
-    const { error: updateError } = await client
+    const { error: updateError } = await adminApi
       .from('user_profiles')
       .update({
         subscription_status: status,
@@ -2526,9 +2269,7 @@ export const toggleUserSubscription = async (
 // Get user profile by user ID (admin function)
 export const getUserProfileById = async (userId: string): Promise<UserProfile | null> => {
   return safeSupabaseOperation(async () => {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase!;
-
-    const { data, error } = await client
+    const { data, error } = await adminApi
       .from('user_profiles')
       .select('*')
       .eq('user_id', userId)
@@ -2545,9 +2286,7 @@ export const getUserProfileById = async (userId: string): Promise<UserProfile |
 // Get order items by order ID (admin function)
 export const getOrderItemsByOrderId = async (orderId: string): Promise<OrderItem[]> => {
   return safeSupabaseOperation(async () => {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase!;
-
-    const { data, error } = await client
+    const { data, error } = await adminApi
       .from('order_items')
       .select(`
         *,
@@ -2570,10 +2309,8 @@ export const getOrderDetails = async (orderId: string): Promise<{
   userProfile: UserProfile | null
 }> => {
   return safeSupabaseOperation(async () => {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase!;
-
     // Get order
-    const { data: order, error: orderError } = await client
+    const { data: order, error: orderError } = await adminApi
       .from('orders')
       .select('*')
       .eq('id', orderId)
@@ -2584,7 +2321,7 @@ export const getOrderDetails = async (orderId: string): Promise<{
     }
 
     // Get order items
-    const { data: orderItems, error: itemsError } = await client
+    const { data: orderItems, error: itemsError } = await adminApi
       .from('order_items')
       .select(`
         *,
@@ -2597,7 +2334,7 @@ export const getOrderDetails = async (orderId: string): Promise<{
     }
 
     // Get user profile
-    const { data: userProfile, error: profileError } = await client
+    const { data: userProfile, error: profileError } = await adminApi
       .from('user_profiles')
       .select('*')
       .eq('user_id', order.user_id)
@@ -2618,9 +2355,7 @@ export const getOrderDetails = async (orderId: string): Promise<{
 // Set default UPI ID for an admin
 export const setDefaultUPI = async (adminId: string, upiId: string): Promise<void> => {
   try {
-    const client = hasAdminAccess ? supabaseAdmin! : supabase
-
-    const { error } = await client
+    const { error } = await adminApi
       .from('admins')
       .update({ 
         active_upi_id: upiId,
@@ -0,0 +1,263 @@
+import { supabase, type WithdrawalRequest } from './supabase'
+import { adminApi } from './admin-api'
+
+// How tax is deducted from withdrawals; applied by the apply_withdrawal_tds
+// trigger when a request is approved
+export interface TdsPolicy {
+  enabled: boolean
+  section: string
+  rate_percent: number
+  // Applies when the user has no verified PAN
+  no_pan_rate_percent: number
+  // Nothing is deducted until a user's withdrawals in the year pass this
+  annual_threshold: number | null
+}
+
+// A paid withdrawal as it appears in the TDS report
+export interface TdsReportLine extends WithdrawalRequest {
+  user_profiles: {
+    full_name: string
+    email?: string
+    phone?: string
+  } | null
+}
+
+// One user's withdrawals and deductions for the year
+export interface TdsReportSummary {
+  user_id: string
+  full_name: string
+  email: string
+  pan: string | null
+  withdrawals: number
+  gross_amount: number
+  tds_amount: number
+  net_amount: number
+}
+
+export const DEFAULT_TDS_POLICY: TdsPolicy = {
+  enabled: true,
+  section: '194H',
+  rate_percent: 2,
+  no_pan_rate_percent: 20,
+  annual_threshold: 20000
+}
+
+const IST_OFFSET = '+05:30'
+
+// Indian financial year (April to March) a date falls in, e.g. '2025-26'
+export const getFinancialYear = (date: Date | string = new Date()): string => {
+  // Shift to IST so dates near midnight land in the right month
+  const ist = new Date(new Date(date).getTime() + 330 * 60 * 1000)
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`
+}
+
+// First moment of the year and first moment of the next one
+export const getFinancialYearRange = (financialYear: string) => {
+  const startYear = parseInt(financialYear.slice(0, 4))
+  return {
+    start: new Date(`${startYear}-04-01T00:00:00${IST_OFFSET}`).toISOString(),
+    end: new Date(`${startYear + 1}-04-01T00:00:00${IST_OFFSET}`).toISOString()
+  }
+}
+
+// The current financial year and the ones before it, newest first
+export const getRecentFinancialYears = (count: number = 4): string[] => {
+  const startYear = parseInt(getFinancialYear().slice(0, 4))
+  return Array.from({ length: count }, (_, index) => {
+    const year = startYear - index
+    return `${year}-${String((year + 1) % 100).padStart(2, '0')}`
+  })
+}
+
+// TDS return quarter: Q1 is April to June
+export const getFinancialQuarter = (date: Date | string): string => {
+  const ist = new Date(new Date(date).getTime() + 330 * 60 * 1000)
+  return `Q${Math.floor(((ist.getUTCMonth() + 9) % 12) / 3) + 1}`
+}
+
+const toLimit = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' || !Number.isFinite(Number(value)) ? null : Number(value)
+
+export const parseTdsPolicy = (raw: unknown): TdsPolicy => {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  return {
+    enabled: typeof value.enabled === 'boolean' ? value.enabled : DEFAULT_TDS_POLICY.enabled,
+    section: typeof value.section === 'string' && value.section.trim() ? value.section.trim() : DEFAULT_TDS_POLICY.section,
+    rate_percent: toLimit(value.rate_percent) ?? DEFAULT_TDS_POLICY.rate_percent,
+    no_pan_rate_percent: toLimit(value.no_pan_rate_percent) ?? DEFAULT_TDS_POLICY.no_pan_rate_percent,
+    annual_threshold: 'annual_threshold' in value ? toLimit(value.annual_threshold) : DEFAULT_TDS_POLICY.annual_threshold
+  }
+}
+
+export const validateTdsPolicy = (policy: TdsPolicy) => {
+  if (!policy.section.trim()) throw new Error('Enter the Income Tax section the deduction is made under')
+  for (const rate of [policy.rate_percent, policy.no_pan_rate_percent]) {
+    if (!(rate >= 0 && rate <= 100)) throw new Error('TDS rates must be between 0% and 100%')
+  }
+  if (policy.no_pan_rate_percent < policy.rate_percent) {
+    throw new Error('The rate without a PAN cannot be below the normal rate')
+  }
+  if (policy.annual_threshold !== null && policy.annual_threshold < 0) {
+    throw new Error('The yearly threshold cannot be negative')
+  }
+}
+
+export const loadTdsPolicy = async (): Promise<TdsPolicy> => {
+  try {
+    const { data, error } = await supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'tds_policy')
+      .maybeSingle()
+
+    if (error) throw error
+    return parseTdsPolicy(data?.value)
+  } catch (error) {
+    console.error('Error loading TDS policy:', error)
+    return { ...DEFAULT_TDS_POLICY }
+  }
+}
+
+export const saveTdsPolicy = async (policy: TdsPolicy): Promise<void> => {
+  validateTdsPolicy(policy)
+  const { error } = await adminApi
+    .from('system_settings')
+    .upsert({
+      key: 'tds_policy',
+      value: policy,
+      description: 'TDS on withdrawals: section, rate with and without a verified PAN and the yearly amount below which nothing is deducted'
+    })
+
+  if (error) {
+    console.error('Error saving TDS policy:', error)
+    throw error
+  }
+}
+
+const normalizeLine = (line: TdsReportLine): TdsReportLine => ({
+  ...line,
+  amount: Number(line.amount),
+  tds_rate: Number(line.tds_rate || 0),
+  tds_amount: Number(line.tds_amount || 0),
+  net_amount: Number(line.net_amount ?? line.amount)
+})
+
+// Paid withdrawals in a financial year with their deductions, oldest first (admin)
+export const getTdsReport = async (financialYear: string): Promise<TdsReportLine[]> => {
+  try {
+    const { data, error } = await adminApi
+      .from('withdrawal_requests')
+      .select('*')
+      .eq('status', 'paid')
+      .eq('financial_year', financialYear)
+      .order('paid_at', { ascending: true })
+
+    if (error) {
+      if (error.code === '42P01' || error.code === '42703') return []
+      throw error
+    }
+
+    const requests: WithdrawalRequest[] = data || []
+    if (requests.length === 0) return []
+
+    const { data: profiles, error: profileError } = await adminApi
+      .from('user_profiles')
+      .select('user_id, full_name, email, phone')
+      .in('user_id', [...new Set(requests.map(request => request.user_id))])
+
+    if (profileError) throw profileError
+
+    const profilesByUser = new Map<string, TdsReportLine['user_profiles']>((profiles || []).map(profile => [profile.user_id, profile]))
+    return requests.map(request => normalizeLine({
+      ...request,
+      user_profiles: profilesByUser.get(request.user_id) || null
+    }))
+  } catch (error) {
+    console.error('Error fetching TDS report:', error)
+    throw error
+  }
+}
+
+// One row per user, largest deduction first
+export const summarizeTdsReport = (lines: TdsReportLine[]): TdsReportSummary[] => {
+  const byUser = new Map<string, TdsReportSummary>()
+
+  for (const line of lines) {
+    const summary = byUser.get(line.user_id) || {
+      user_id: line.user_id,
+      full_name: line.user_profiles?.full_name || 'Unknown User',
+      email: line.user_profiles?.email || '',
+      pan: null,
+      withdrawals: 0,
+      gross_amount: 0,
+      tds_amount: 0,
+      net_amount: 0
+    }
+    summary.pan = line.tds_pan || summary.pan
+    summary.withdrawals += 1
+    summary.gross_amount += line.amount
+    summary.tds_amount += line.tds_amount || 0
+    summary.net_amount += line.net_amount ?? line.amount
+    byUser.set(line.user_id, summary)
+  }
+
+  return [...byUser.values()].sort((a, b) => b.tds_amount - a.tds_amount || b.gross_amount - a.gross_amount)
+}
+
+const formatAmount = (amount: number) => Number(amount).toFixed(2)
+
+const formatDate = (date: string | null | undefined) =>
+  date ? new Date(date).toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' }) : ''
+
+const csvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+// Per-user totals, or one row per deduction as needed for the quarterly return
+export const buildTdsReportCsv = (lines: TdsReportLine[], layout: 'summary' | 'deductions'): string => {
+  const rows = layout === 'summary'
+    ? [
+        ['Name', 'Email', 'PAN', 'Withdrawals', 'Gross Amount', 'TDS Deducted', 'Net Paid'],
+        ...summarizeTdsReport(lines).map(summary => [
+          summary.full_name,
+          summary.email,
+          summary.pan || 'Not available',
+          String(summary.withdrawals),
+          formatAmount(summary.gross_amount),
+          formatAmount(summary.tds_amount),
+          formatAmount(summary.net_amount)
+        ])
+      ]
+    : [
+        ['Financial Year', 'Quarter', 'Paid On', 'Withdrawal ID', 'Name', 'Email', 'PAN', 'Section', 'Gross Amount', 'TDS Rate %', 'TDS Deducted', 'Net Paid', 'UTR'],
+        ...lines.map(line => [
+          line.financial_year || '',
+          line.paid_at ? getFinancialQuarter(line.paid_at) : '',
+          formatDate(line.paid_at),
+          line.id,
+          line.user_profiles?.full_name || 'Unknown User',
+          line.user_profiles?.email || '',
+          line.tds_pan || 'Not available',
+          line.tds_section || '',
+          formatAmount(line.amount),
+          formatAmount(line.tds_rate || 0),
+          formatAmount(line.tds_amount || 0),
+          formatAmount(line.net_amount ?? line.amount),
+          line.utr || ''
+        ])
+      ]
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+export const downloadTdsReport = (financialYear: string, lines: TdsReportLine[], layout: 'summary' | 'deductions') => {
+  const blob = new Blob([buildTdsReportCsv(lines, layout)], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `tds-${layout}-FY${financialYear}.csv`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,224 @@
+import { supabase } from './supabase'
+import { adminApi } from './admin-api'
+
+export type WalletEntryType =
+  | 'commission_credit'
+  | 'commission_pending'
+  | 'commission_matured'
+  | 'commission_void'
+  | 'withdrawal_hold'
+  | 'withdrawal_release'
+  | 'payout'
+  | 'tds_deduction'
+  | 'reversal'
+  | 'admin_adjustment'
+
+// rewards: platform payouts; locked: commissions inside the return window;
+// available: withdrawable; held: pending withdrawals; paid_out: money sent to the user;
+// tax_withheld: TDS deducted from payouts
+export type WalletAccount = 'rewards' | 'locked' | 'available' | 'held' | 'paid_out' | 'tax_withheld'
+
+export interface WalletTransaction {
+  id: string
+  profile_id: string
+  user_id: string
+  entry_type: WalletEntryType
+  from_account: WalletAccount
+  to_account: WalletAccount
+  amount: number
+  commission_id?: string | null
+  withdrawal_request_id?: string | null
+  description?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+export interface WalletBalance {
+  total_earnings: number
+  locked_amount: number
+  available_balance: number
+  held_amount: number
+  withdrawn_amount: number
+  tds_withheld: number
+  last_transaction_at?: string | null
+}
+
+export interface WalletStatementLine extends WalletTransaction {
+  // Signed change to the available balance, and the balance after it
+  available_change: number
+  available_after: number
+}
+
+export interface WalletDrift {
+  profile_id: string
+  user_id: string
+  full_name?: string | null
+  email?: string | null
+  counter_total_earnings: number
+  counter_available_balance: number
+  counter_withdrawn_amount: number
+  ledger_total_earnings: number
+  ledger_available_balance: number
+  ledger_withdrawn_amount: number
+  ledger_held_amount: number
+  last_transaction_at?: string | null
+}
+
+export const WALLET_ENTRY_LABELS: Record<WalletEntryType, string> = {
+  commission_credit: 'Commission',
+  commission_pending: 'Commission (locked)',
+  commission_matured: 'Commission unlocked',
+  commission_void: 'Commission voided',
+  withdrawal_hold: 'Withdrawal hold',
+  withdrawal_release: 'Withdrawal released',
+  payout: 'Payout',
+  tds_deduction: 'TDS deducted',
+  reversal: 'Reversal',
+  admin_adjustment: 'Adjustment'
+}
+
+export const EMPTY_WALLET_BALANCE: WalletBalance = {
+  total_earnings: 0,
+  locked_amount: 0,
+  available_balance: 0,
+  held_amount: 0,
+  withdrawn_amount: 0,
+  tds_withheld: 0,
+  last_transaction_at: null
+}
+
+export const getAvailableChange = (transaction: Pick<WalletTransaction, 'from_account' | 'to_account' | 'amount'>): number => {
+  if (transaction.to_account === 'available') return transaction.amount
+  if (transaction.from_account === 'available') return -transaction.amount
+  return 0
+}
+
+// Oldest first, with the running available balance after each entry
+export const buildWalletStatement = (transactions: WalletTransaction[]): WalletStatementLine[] => {
+  let available = 0
+  return [...transactions]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .map(transaction => {
+      const change = getAvailableChange(transaction)
+      available = Math.round((available + change) * 100) / 100
+      return { ...transaction, available_change: change, available_after: available }
+    })
+}
+
+const normalizeTransaction = (transaction: WalletTransaction): WalletTransaction => ({
+  ...transaction,
+  amount: Number(transaction.amount)
+})
+
+// Every ledger entry for a user, oldest first
+export const getWalletTransactions = async (userId: string): Promise<WalletTransaction[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('wallet_transactions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return (data || []).map(normalizeTransaction)
+  } catch (error) {
+    console.error('Error fetching wallet transactions:', error)
+    throw error
+  }
+}
+
+// Balances derived from the ledger
+export const getWalletBalance = async (userId: string): Promise<WalletBalance> => {
+  try {
+    const { data, error } = await supabase
+      .from('wallet_balances')
+      .select('total_earnings, locked_amount, available_balance, held_amount, withdrawn_amount, tds_withheld, last_transaction_at')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '42P01') return { ...EMPTY_WALLET_BALANCE }
+      throw error
+    }
+    if (!data) return { ...EMPTY_WALLET_BALANCE }
+
+    return {
+      total_earnings: Number(data.total_earnings),
+      locked_amount: Number(data.locked_amount),
+      available_balance: Number(data.available_balance),
+      held_amount: Number(data.held_amount),
+      withdrawn_amount: Number(data.withdrawn_amount),
+      tds_withheld: Number(data.tds_withheld),
+      last_transaction_at: data.last_transaction_at
+    }
+  } catch (error) {
+    console.error('Error fetching wallet balance:', error)
+    throw error
+  }
+}
+
+// Profiles whose counters disagree with the ledger (admin)
+export const getWalletDrift = async (): Promise<WalletDrift[]> => {
+  try {
+    const { data, error } = await adminApi
+      .from('wallet_drift')
+      .select('*')
+      .order('last_transaction_at', { ascending: false, nullsFirst: false })
+
+    if (error) {
+      if (error.code === '42P01') return []
+      throw error
+    }
+
+    return (data || []).map((row: WalletDrift) => ({
+      ...row,
+      counter_total_earnings: Number(row.counter_total_earnings),
+      counter_available_balance: Number(row.counter_available_balance),
+      counter_withdrawn_amount: Number(row.counter_withdrawn_amount),
+      ledger_total_earnings: Number(row.ledger_total_earnings),
+      ledger_available_balance: Number(row.ledger_available_balance),
+      ledger_withdrawn_amount: Number(row.ledger_withdrawn_amount),
+      ledger_held_amount: Number(row.ledger_held_amount)
+    }))
+  } catch (error) {
+    console.error('Error fetching wallet drift:', error)
+    throw error
+  }
+}
+
+// Post a manual credit (positive) or debit (negative) to a user's wallet (admin)
+export const adjustWalletBalance = async (
+  profileId: string,
+  amount: number,
+  reason: string
+): Promise<WalletTransaction> => {
+  if (!amount || !Number.isFinite(amount)) throw new Error('Enter a non-zero amount')
+  if (!reason.trim()) throw new Error('A reason is required')
+
+  const { data, error } = await adminApi.rpc('admin_adjust_wallet', {
+    profile_id_param: profileId,
+    amount_param: amount,
+    reason_param: reason.trim()
+  })
+
+  if (error) {
+    console.error('Error adjusting wallet balance:', error)
+    throw error
+  }
+
+  return normalizeTransaction(data)
+}
+
+// Reset a profile's counters to the ledger balances (admin)
+export const syncWalletCounters = async (profileId: string): Promise<void> => {
+  const { error } = await adminApi.rpc('sync_wallet_counters', { profile_id_param: profileId })
+
+  if (error) {
+    console.error('Error syncing wallet counters:', error)
+    throw error
+  }
+}
@@ -0,0 +1,157 @@
+import { supabase } from './supabase'
+import { adminApi } from './admin-api'
+import type { PayoutAccount } from './kyc'
+
+// Rules for new withdrawal requests; null switches a limit off.
+// Enforced by the enforce_withdrawal_policy trigger.
+export interface WithdrawalPolicy {
+  min_amount: number
+  daily_limit: number | null
+  monthly_limit: number | null
+  one_pending_request: boolean
+  // Wait before withdrawals can go to a replacement payout account
+  upi_change_cooling_hours: number
+  kyc_threshold: number | null
+}
+
+export type KycStatus = 'not_submitted' | 'pending' | 'verified' | 'rejected'
+
+// The caller's policy and how much of it is used up
+export interface WithdrawalLimits {
+  policy: WithdrawalPolicy
+  used_today: number
+  used_this_month: number
+  open_requests: number
+  kyc_status: KycStatus
+}
+
+export const DEFAULT_WITHDRAWAL_POLICY: WithdrawalPolicy = {
+  min_amount: 10,
+  daily_limit: 25000,
+  monthly_limit: 100000,
+  one_pending_request: true,
+  upi_change_cooling_hours: 24,
+  kyc_threshold: null
+}
+
+const toLimit = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' || !Number.isFinite(Number(value)) ? null : Number(value)
+
+export const parseWithdrawalPolicy = (raw: unknown): WithdrawalPolicy => {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  return {
+    min_amount: toLimit(value.min_amount) ?? DEFAULT_WITHDRAWAL_POLICY.min_amount,
+    daily_limit: 'daily_limit' in value ? toLimit(value.daily_limit) : DEFAULT_WITHDRAWAL_POLICY.daily_limit,
+    monthly_limit: 'monthly_limit' in value ? toLimit(value.monthly_limit) : DEFAULT_WITHDRAWAL_POLICY.monthly_limit,
+    one_pending_request: typeof value.one_pending_request === 'boolean'
+      ? value.one_pending_request
+      : DEFAULT_WITHDRAWAL_POLICY.one_pending_request,
+    upi_change_cooling_hours: toLimit(value.upi_change_cooling_hours) ?? DEFAULT_WITHDRAWAL_POLICY.upi_change_cooling_hours,
+    kyc_threshold: 'kyc_threshold' in value ? toLimit(value.kyc_threshold) : DEFAULT_WITHDRAWAL_POLICY.kyc_threshold
+  }
+}
+
+export const validateWithdrawalPolicy = (policy: WithdrawalPolicy) => {
+  if (!(policy.min_amount > 0)) throw new Error('The minimum withdrawal must be more than ₹0')
+  if (policy.daily_limit !== null && policy.daily_limit < policy.min_amount) {
+    throw new Error('The daily limit cannot be below the minimum withdrawal')
+  }
+  if (policy.monthly_limit !== null && policy.daily_limit !== null && policy.monthly_limit < policy.daily_limit) {
+    throw new Error('The monthly limit cannot be below the daily limit')
+  }
+  if (!Number.isInteger(policy.upi_change_cooling_hours) || policy.upi_change_cooling_hours < 0) {
+    throw new Error('The cooling period must be a whole number of hours')
+  }
+  if (policy.kyc_threshold !== null && policy.kyc_threshold < 0) {
+    throw new Error('The KYC threshold cannot be negative')
+  }
+}
+
+// Largest amount the caller can request right now, ignoring their balance
+export const getRemainingAllowance = (limits: WithdrawalLimits): number | null => {
+  const remaining = [
+    limits.policy.daily_limit !== null ? limits.policy.daily_limit - limits.used_today : null,
+    limits.policy.monthly_limit !== null ? limits.policy.monthly_limit - limits.used_this_month : null
+  ].filter((value): value is number => value !== null)
+
+  return remaining.length > 0 ? Math.max(Math.min(...remaining), 0) : null
+}
+
+// Reasons the caller cannot request this amount to this account; mirrors the
+// checks in enforce_withdrawal_policy so the dialog can explain them up front
+export const getWithdrawalBlockers = (
+  limits: WithdrawalLimits,
+  amount: number,
+  account?: Pick<PayoutAccount, 'cooling_ends_at'> | null
+): string[] => {
+  const { policy } = limits
+  const blockers: string[] = []
+  const remaining = getRemainingAllowance(limits)
+
+  if (policy.one_pending_request && limits.open_requests > 0) {
+    blockers.push('You already have a withdrawal request in progress')
+  }
+  if (amount > 0 && amount < policy.min_amount) {
+    blockers.push(`Minimum withdrawal amount is ₹${policy.min_amount}`)
+  }
+  if (remaining !== null && amount > remaining) {
+    blockers.push(`You can request up to ₹${remaining.toFixed(2)} more under your daily and monthly limits`)
+  }
+  if (policy.kyc_threshold !== null && amount > policy.kyc_threshold && limits.kyc_status !== 'verified') {
+    blockers.push(`Withdrawals above ₹${policy.kyc_threshold} need verified KYC`)
+  }
+  if (account?.cooling_ends_at && new Date(account.cooling_ends_at) > new Date()) {
+    blockers.push(`This payout account was added recently. Withdrawals to it open on ${new Date(account.cooling_ends_at).toLocaleString('en-IN')}`)
+  }
+
+  return blockers
+}
+
+export const loadWithdrawalPolicy = async (): Promise<WithdrawalPolicy> => {
+  try {
+    const { data, error } = await supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'withdrawal_policy')
+      .maybeSingle()
+
+    if (error) throw error
+    return parseWithdrawalPolicy(data?.value)
+  } catch (error) {
+    console.error('Error loading withdrawal policy:', error)
+    return { ...DEFAULT_WITHDRAWAL_POLICY }
+  }
+}
+
+export const saveWithdrawalPolicy = async (policy: WithdrawalPolicy): Promise<void> => {
+  validateWithdrawalPolicy(policy)
+  const { error } = await adminApi
+    .from('system_settings')
+    .upsert({
+      key: 'withdrawal_policy',
+      value: policy,
+      description: 'Withdrawal rules: minimum amount, daily and monthly caps, one request at a time, cooling period after a payout account is added and the amount above which KYC is required'
+    })
+
+  if (error) {
+    console.error('Error saving withdrawal policy:', error)
+    throw error
+  }
+}
+
+export const getWithdrawalLimits = async (): Promise<WithdrawalLimits> => {
+  const { data, error } = await supabase.rpc('get_withdrawal_limits')
+
+  if (error) {
+    console.error('Error fetching withdrawal limits:', error)
+    throw error
+  }
+
+  return {
+    policy: parseWithdrawalPolicy(data?.policy),
+    used_today: Number(data?.used_today || 0),
+    used_this_month: Number(data?.used_this_month || 0),
+    open_requests: Number(data?.open_requests || 0),
+    kyc_status: data?.kyc_status || 'not_submitted'
+  }
+}
@@ -31,7 +31,7 @@ const Cart = () => {
   const [isUpdating, setIsUpdating] = useState<string | null>(null);
   const [quantities, setQuantities] = useState<Record<string, number>>({});
   const { user } = useAuth();
-  const { items, totalItems, totalAmount, loading, updateQuantity, removeItem, clearCart } = useCart();
+  const { items, totalItems, subtotalAmount, memberSavings, totalAmount, loading, updateQuantity, removeItem, clearCart } = useCart();
   const { t } = useTranslation();
   const navigate = useNavigate();
 
@@ -202,7 +202,7 @@ const Cart = () => {
         description="Review and manage items in your shopping cart before checkout"
       />
 
-      <SubscriptionGuard feature="shopping cart">
+      <SubscriptionGuard feature="shopping cart" requires="shopping">
         <div className="container py-8">
         <div className="max-w-6xl mx-auto">
           {/* Header */}
@@ -367,8 +367,15 @@ const Cart = () => {
                   <div className="space-y-3">
                     <div className="flex justify-between">
                       <span>Subtotal ({totalItems} items)</span>
-                      <span className="font-medium">{formatPrice(totalAmount)}</span>
+                      <span className="font-medium">{formatPrice(subtotalAmount)}</span>
                     </div>
+
+                    {memberSavings > 0 && (
+                      <div className="flex justify-between">
+                        <span>Member discount</span>
+                        <span className="font-medium text-green-600">-{formatPrice(memberSavings)}</span>
+                      </div>
+                    )}
                     
                     <div className="flex justify-between">
                       <span>Shipping</span>
@@ -32,10 +32,16 @@ import {
 import { useAuth } from "@/context/NewAuthContext";
 import { useCart } from "@/context/CartContext";
 import { createOrder, type ShippingAddress } from "@/lib/supabase";
-import { distributeCommissions } from "@/lib/referral";
 import { toast } from "sonner";
 import CartItem from "@/components/cart/CartItem";
 import UpiPaymentDialog from "@/components/payment/UpiPaymentDialog";
+import { createOrderPaymentIntent, type PaymentIntent } from "@/lib/payment-intents";
+import {
+  getActivePaymentProvider,
+  upiManualProvider,
+  PaymentCancelledError,
+  type PaymentProvider
+} from "@/lib/payment-providers";
 import OrderSuccess from "@/components/checkout/OrderSuccess";
 import { useUpiPayment } from "@/hooks/useUpiPayment";
 
@@ -64,13 +70,15 @@ const Checkout = () => {
   const [currentOrder, setCurrentOrder] = useState<any>(null);
   const [currentUpiId, setCurrentUpiId] = useState<string>("");
   const [orderCompleted, setOrderCompleted] = useState(false);
-  const [tempOrderRef, setTempOrderRef] = useState<string>("");
+  const [paymentIntent, setPaymentIntent] = useState<PaymentIntent | null>(null);
+  const [paymentProvider, setPaymentProvider] = useState<PaymentProvider>(upiManualProvider);
+  const [paymentConfirmed, setPaymentConfirmed] = useState(false);
 
   const { user, profile, requireAuth } = useAuth();
-  const { items, totalAmount, clearCart } = useCart();
+  const { items, subtotalAmount, memberSavings, totalAmount, clearCart } = useCart();
   const { t } = useTranslation();
   const navigate = useNavigate();
-  const { testUpiConnection, getActiveUpiConfig, createPaymentNotification } = useUpiPayment();
+  const { testUpiConnection, getActiveUpiConfig } = useUpiPayment();
 
   const {
     register,
@@ -125,6 +133,10 @@ const Checkout = () => {
     setSavedAddresses(mockAddresses);
   }, [user, items.length, navigate, requireAuth, profile, testUpiConnection]);
 
+  useEffect(() => {
+    getActivePaymentProvider().then(setPaymentProvider);
+  }, []);
+
   useEffect(() => {
     if (profile) {
       setValue('full_name', profile.full_name || '');
@@ -204,6 +216,11 @@ const Checkout = () => {
       return;
     }
 
+    if (paymentProvider.createsOrderBeforePayment) {
+      await handleGatewayPayment(shippingData);
+      return;
+    }
+
     try {
       setLoading(true);
       setCurrentStep(3);
@@ -220,9 +237,10 @@ const Checkout = () => {
 
       setCurrentUpiId(upiConfig.upi_id);
 
-      // Generate temporary order reference for UPI display
-      const tempRef = `ORD-${Date.now().toString().slice(-8)}`;
-      setTempOrderRef(tempRef);
+      // Reserve a unique amount and reference so the payment can be matched
+      // to this order when it is verified
+      const intent = await createOrderPaymentIntent(items);
+      setPaymentIntent(intent);
 
       // Show UPI payment dialog (order will be created when user confirms payment)
       setShowUpiDialog(true);
@@ -253,6 +271,57 @@ const Checkout = () => {
     }
   };
 
+  // Gateway providers take payment for an order that already exists. A
+  // cancelled payment keeps the order so the customer can retry.
+  const handleGatewayPayment = async (shippingData: ShippingFormData) => {
+    if (!user || !items || items.length === 0) {
+      toast.error("Invalid order data. Please refresh and try again.");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setCurrentStep(3);
+
+      let order = currentOrder;
+      if (!order) {
+        order = await createOrder(user.id, items, shippingData as ShippingAddress, 'payment_pending');
+        setCurrentOrder(order);
+        console.log('✅ Order created:', order.id);
+      }
+
+      await paymentProvider.collectPayment({
+        order,
+        customer: {
+          userId: user.id,
+          name: shippingData.full_name,
+          email: user.email,
+          phone: shippingData.phone
+        }
+      });
+
+      // Referral commissions are distributed by the server once the order is paid
+      await clearCart();
+
+      setPaymentConfirmed(true);
+      setOrderCompleted(true);
+      setCurrentStep(4);
+
+      toast.success("Payment successful! Your order is confirmed.");
+    } catch (error) {
+      setCurrentStep(2);
+
+      if (error instanceof PaymentCancelledError) {
+        toast.info("Payment cancelled. Your order is saved - place it again to retry the payment.");
+      } else {
+        console.error('Gateway payment error:', error);
+        toast.error((error as Error).message || 'Payment failed. Please try again.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handlePaymentNotification = async () => {
     if (currentOrder) {
       // Order already exists, prevent duplicate creation
@@ -265,7 +334,7 @@ const Checkout = () => {
       return;
     }
 
-    if (!currentUpiId) {
+    if (!currentUpiId || !paymentIntent) {
       toast.error("UPI configuration not found. Please try again.");
       return;
     }
@@ -273,29 +342,28 @@ const Checkout = () => {
     try {
       console.log('🛒 Creating order after payment confirmation...');
 
-      // Create order with pending status (payment verification handled via UPI notifications)
-      const order = await createOrder(user!.id, items, watchedValues as ShippingFormData, 'pending');
+      // Create order awaiting payment verification (handled via UPI notifications).
+      // Prices and stock are checked server-side, so use the returned total from here on.
+      const order = await createOrder(user!.id, items, watchedValues as ShippingFormData, 'payment_pending');
       setCurrentOrder(order);
 
       console.log('✅ Order created:', order.id);
 
-      // Create payment notification
-      await createPaymentNotification(
-        order.id,
-        totalAmount,
-        currentUpiId,
-        orderNotes || "Payment completed via UPI"
-      );
-
-      // Distribute referral commissions
-      try {
-        await distributeCommissions(order.id, totalAmount, user!.id);
-        console.log('✅ Commission distribution completed for order:', order.id);
-      } catch (commissionError) {
-        console.error('⚠️ Commission distribution failed:', commissionError);
-        // Don't fail the order for commission errors
+      if (order.total_amount !== totalAmount) {
+        console.warn('Cart total differs from server total:', totalAmount, order.total_amount);
       }
 
+      // Link the payment intent and report the exact amount the customer was asked to pay
+      await upiManualProvider.collectPayment({
+        order,
+        customer: { userId: user.id },
+        intent: paymentIntent,
+        upiId: currentUpiId,
+        note: orderNotes
+      });
+
+      // Referral commissions are paid by the database once the payment is verified
+
       // Clear cart
       await clearCart();
 
@@ -659,7 +727,9 @@ const Checkout = () => {
                       <Alert>
                         <Shield className="h-4 w-4" />
                         <AlertDescription>
-                          Your payment will be processed securely via UPI. After payment, our admin will verify and update your order status.
+                          {paymentProvider.createsOrderBeforePayment
+                            ? `Your payment will be processed securely by ${paymentProvider.label} and your order is confirmed as soon as it succeeds.`
+                            : "Your payment will be processed securely via UPI. After payment, our admin will verify and update your order status."}
                         </AlertDescription>
                       </Alert>
 
@@ -705,9 +775,10 @@ const Checkout = () => {
               {orderCompleted && currentOrder && (
                 <OrderSuccess
                   orderReference={currentOrder.id.substring(0, 8)}
-                  amount={totalAmount}
+                  amount={currentOrder.total_amount}
                   customerName={watchedValues.full_name || profile?.full_name || "Customer"}
                   estimatedDelivery="3-5 business days"
+                  paymentConfirmed={paymentConfirmed}
                 />
               )}
             </div>
@@ -723,8 +794,15 @@ const Checkout = () => {
                   <div className="space-y-3">
                     <div className="flex justify-between">
                       <span>Subtotal ({items.length} items)</span>
-                      <span className="font-medium">{formatPrice(totalAmount)}</span>
+                      <span className="font-medium">{formatPrice(subtotalAmount)}</span>
                     </div>
+
+                    {memberSavings > 0 && (
+                      <div className="flex justify-between">
+                        <span>Member discount</span>
+                        <span className="font-medium text-green-600">-{formatPrice(memberSavings)}</span>
+                      </div>
+                    )}
                     
                     <div className="flex justify-between">
                       <span>Shipping</span>
@@ -777,7 +855,7 @@ const Checkout = () => {
       </div>
 
       {/* UPI Payment Dialog */}
-      {showUpiDialog && currentUpiId && (
+      {showUpiDialog && currentUpiId && paymentIntent && (
         <UpiPaymentDialog
           open={showUpiDialog}
           onOpenChange={(open) => {
@@ -788,8 +866,9 @@ const Checkout = () => {
             }
           }}
           upiId={currentUpiId}
-          amount={totalAmount}
-          orderReference={currentOrder?.id.substring(0, 8) || tempOrderRef}
+          amount={paymentIntent?.amount ?? totalAmount}
+          orderReference={paymentIntent?.reference ?? ""}
+          expiresAt={paymentIntent?.expires_at}
           merchantName="MATRATV CARE"
           onPaymentNotification={handlePaymentNotification}
         />
@@ -21,6 +21,8 @@ import { getProduct, type Product } from "@/lib/supabase";
 import { useCart } from "@/context/CartContext";
 import { SubscriptionButton } from "@/components/subscription/SubscriptionGuard";
 import { toast } from "@/components/ui/use-toast";
+import { useFeature } from "@/hooks/useFeature";
+import { applyMemberDiscount } from "@/lib/plan-features";
 
 const ProductDetail = () => {
   const { id } = useParams<{ id: string }>();
@@ -29,6 +31,7 @@ const ProductDetail = () => {
   const [quantity, setQuantity] = useState(1);
   const { t } = useTranslation();
   const { addToCart, loading: cartLoading } = useCart();
+  const memberPricing = useFeature('member_discount_percent');
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -195,9 +198,21 @@ const ProductDetail = () => {
                 <span className="ml-2 text-sm text-muted-foreground">(4.8/5 • 124 reviews)</span>
               </div>
             </div>
-            <div className="text-3xl font-bold text-primary mb-4">
-              {formatPrice(product.price)}
-            </div>
+            {memberPricing.enabled ? (
+              <div className="mb-4">
+                <div className="flex items-baseline gap-3">
+                  <span className="text-3xl font-bold text-primary">
+                    {formatPrice(applyMemberDiscount(product.price, memberPricing.value))}
+                  </span>
+                  <span className="text-lg text-muted-foreground line-through">{formatPrice(product.price)}</span>
+                </div>
+                <Badge variant="secondary" className="mt-1">Member price • {memberPricing.value}% off</Badge>
+              </div>
+            ) : (
+              <div className="text-3xl font-bold text-primary mb-4">
+                {formatPrice(product.price)}
+              </div>
+            )}
           </div>
 
           {/* Stock Status */}
@@ -282,6 +297,7 @@ const ProductDetail = () => {
                 <SubscriptionButton
                   onClick={handleAddToCart}
                   feature="shopping cart"
+                  requires="shopping"
                   className="w-full"
                   size="lg"
                 >
@@ -31,7 +31,8 @@ import {
   Loader2,
   Edit,
   Save,
-  Info
+  Info,
+  ShieldCheck
 } from "lucide-react";
 import { useAuth } from "@/context/NewAuthContext";
 import {
@@ -42,9 +43,24 @@ import {
   getUserWithdrawalRequests,
   type Order,
   type ReferralCommission,
-  type WithdrawalRequest
+  type WithdrawalRequest,
+  type DownlineMember
 } from "@/lib/supabase";
 import { WithdrawalRequestDialog } from "@/components/WithdrawalRequestDialog";
+import { WalletStatement } from "@/components/referral/WalletStatement";
+import { PayoutVerification } from "@/components/referral/PayoutVerification";
+import { EarningsStatementDownload } from "@/components/referral/EarningsStatementDownload";
+import { ReferralTreeExplorer } from "@/components/referral/ReferralTreeExplorer";
+import { getPayoutDestination } from "@/lib/payouts";
+import { CancelOrderDialog } from "@/components/CancelOrderDialog";
+import { canCancelOrder, canRequestCancellation } from "@/lib/order-status";
+import {
+  getUserCancellationRequests,
+  getUserRefunds,
+  REFUND_STATUS_LABELS,
+  type OrderCancellationRequest,
+  type Refund
+} from "@/lib/order-cancellation";
 import { toast } from "@/components/ui/use-toast";
 // Removed multi-level card view; we'll list all-level referrals in the table instead
 
@@ -60,11 +76,14 @@ const Profile = () => {
   const navigate = useNavigate();
   const [orders, setOrders] = useState<Order[]>([]);
   const [commissions, setCommissions] = useState<ReferralCommission[]>([]);
-  const [referredUsers, setReferredUsers] = useState<any[]>([]);
+  const [referredUsers, setReferredUsers] = useState<DownlineMember[]>([]);
   const [referrerInfo, setReferrerInfo] = useState<any>(null);
   const [withdrawalRequests, setWithdrawalRequests] = useState<WithdrawalRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [withdrawalDialogOpen, setWithdrawalDialogOpen] = useState(false);
+  const [cancellationRequests, setCancellationRequests] = useState<OrderCancellationRequest[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [orderToCancel, setOrderToCancel] = useState<Order | null>(null);
   const [editMode, setEditMode] = useState(false);
 
   const { user, profile, updateProfile, retry, requireAuth } = useAuth();
@@ -140,10 +159,12 @@ const Profile = () => {
         getReferralCommissions(user.id),
         getAllLevelReferredUsers(user.id),
         getReferrerInfo(user.id),
-        getUserWithdrawalRequests(user.id)
+        getUserWithdrawalRequests(user.id),
+        getUserCancellationRequests(user.id),
+        getUserRefunds(user.id)
       ]);
 
-      const [ordersData, commissionsData, referredData, referrerData, withdrawalsData] = await Promise.race([
+      const [ordersData, commissionsData, referredData, referrerData, withdrawalsData, cancellationsData, refundsData] = await Promise.race([
         dataPromise,
         timeoutPromise
       ]) as any;
@@ -153,6 +174,8 @@ const Profile = () => {
       setReferredUsers(referredData || []);
       setReferrerInfo(referrerData || null);
       setWithdrawalRequests(withdrawalsData || []);
+      setCancellationRequests(cancellationsData || []);
+      setRefunds(refundsData || []);
       console.log('✅ User data loaded successfully');
     } catch (error) {
       console.error('❌ Error fetching user data:', error);
@@ -168,6 +191,8 @@ const Profile = () => {
       setReferredUsers([]);
       setReferrerInfo(null);
       setWithdrawalRequests([]);
+      setCancellationRequests([]);
+      setRefunds([]);
     } finally {
       setLoading(false);
     }
@@ -186,6 +211,49 @@ const Profile = () => {
     fetchUserData(); // Refresh data after successful withdrawal request
   };
 
+  const handleCancellationSuccess = () => {
+    fetchUserData(); // Refresh orders, requests and refunds
+  };
+
+  const renderOrderActions = (order: Order) => {
+    const pendingRequest = cancellationRequests.find(
+      (request) => request.order_id === order.id && request.status === 'pending'
+    );
+    const refund = refunds.find((item) => item.order_id === order.id);
+
+    if (pendingRequest) {
+      return (
+        <Badge variant="secondary" className="flex items-center gap-1 w-fit">
+          <Clock className="h-3 w-3" />
+          Cancellation requested
+        </Badge>
+      );
+    }
+
+    if (refund) {
+      return (
+        <Badge variant={refund.status === 'completed' ? 'default' : 'outline'} className="w-fit">
+          Refund: {REFUND_STATUS_LABELS[refund.status]}
+        </Badge>
+      );
+    }
+
+    if (canCancelOrder(order.status) || canRequestCancellation(order.status)) {
+      return (
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-xs"
+          onClick={() => setOrderToCancel(order)}
+        >
+          {canCancelOrder(order.status) ? 'Cancel' : 'Request Cancellation'}
+        </Button>
+      );
+    }
+
+    return <span className="text-xs text-muted-foreground">-</span>;
+  };
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -218,14 +286,22 @@ const Profile = () => {
   const getStatusBadge = (status: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
       'confirmed': 'default',
+      'paid': 'default',
       'delivered': 'default',
+      'completed': 'default',
       'approved': 'default',
+      'payable': 'default',
       'processing': 'secondary',
       'shipped': 'secondary',
       'pending': 'secondary',
+      'payment_pending': 'secondary',
       'cancelled': 'destructive',
+      'refunded': 'destructive',
       'rejected': 'destructive',
+      'failed': 'destructive',
       'payment_failed': 'destructive',
+      'void': 'destructive',
+      'reversed': 'destructive',
     };
     
     return (
@@ -350,7 +426,7 @@ const Profile = () => {
 
       <Tabs defaultValue={defaultTab} className="space-y-3 sm:space-y-4 md:space-y-6">
         <div className="w-full overflow-x-auto">
-          <TabsList className="grid grid-cols-4 min-w-full h-auto p-1">
+          <TabsList className="grid grid-cols-5 min-w-full h-auto p-1">
             <TabsTrigger value="personal" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 text-xs sm:text-sm md:text-base py-2 sm:py-3 px-2 sm:px-4">
               <User className="h-3 w-3 sm:h-4 sm:w-4 md:h-5 md:w-5" />
               <span className="text-[10px] sm:text-xs md:text-sm">Personal</span>
@@ -367,6 +443,10 @@ const Profile = () => {
               <Users className="h-3 w-3 sm:h-4 sm:w-4 md:h-5 md:w-5" />
               <span className="text-[10px] sm:text-xs md:text-sm">Referrals</span>
             </TabsTrigger>
+            <TabsTrigger value="kyc" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 text-xs sm:text-sm md:text-base py-2 sm:py-3 px-2 sm:px-4">
+              <ShieldCheck className="h-3 w-3 sm:h-4 sm:w-4 md:h-5 md:w-5" />
+              <span className="text-[10px] sm:text-xs md:text-sm">KYC</span>
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -598,7 +678,8 @@ const Profile = () => {
                     <TableHeader>
                       <TableRow>
                         <TableHead className="text-xs sm:text-sm">Amount</TableHead>
-                        <TableHead className="text-xs sm:text-sm min-w-[120px]">UPI ID</TableHead>
+                        <TableHead className="text-xs sm:text-sm min-w-[120px]">Paid To</TableHead>
+                        <TableHead className="text-xs sm:text-sm">TDS</TableHead>
                         <TableHead className="text-xs sm:text-sm">Status</TableHead>
                         <TableHead className="text-xs sm:text-sm">Requested</TableHead>
                         <TableHead className="text-xs sm:text-sm">Processed</TableHead>
@@ -611,7 +692,13 @@ const Profile = () => {
                             {formatPrice(request.amount)}
                           </TableCell>
                           <TableCell className="font-mono text-xs sm:text-sm break-all">
-                            {request.upi_id || 'N/A'}
+                            {getPayoutDestination(request) || 'N/A'}
+                          </TableCell>
+                          <TableCell className="text-xs sm:text-sm whitespace-nowrap">
+                            {request.tds_amount && Number(request.tds_amount) > 0
+                              ? `${formatPrice(Number(request.tds_amount))} (${request.tds_rate}%)`
+                              : '-'
+                            }
                           </TableCell>
                           <TableCell>{getStatusBadge(request.status)}</TableCell>
                           <TableCell className="text-xs sm:text-sm">
@@ -632,6 +719,10 @@ const Profile = () => {
             </CardContent>
           </Card>
 
+          <WalletStatement showSummary={false} />
+
+          <EarningsStatementDownload />
+
           <Card>
             <CardHeader>
               <CardTitle className="text-lg sm:text-xl">Commission History</CardTitle>
@@ -666,7 +757,7 @@ const Profile = () => {
                           </TableCell>
                           <TableCell>
                             <Badge variant="secondary" className="text-xs">
-                              {(commission.trigger_type === 'subscription_activation') ? 'Sub' : 'Purchase'}
+                              {commission.trigger_type === 'subscription_activation' ? 'Sub' : commission.trigger_type === 'first_order' ? 'First order' : 'Purchase'}
                             </Badge>
                           </TableCell>
                           <TableCell>{getStatusBadge(commission.status)}</TableCell>
@@ -708,6 +799,7 @@ const Profile = () => {
                         <TableHead className="text-xs sm:text-sm">Total</TableHead>
                         <TableHead className="text-xs sm:text-sm">Status</TableHead>
                         <TableHead className="text-xs sm:text-sm">Date</TableHead>
+                        <TableHead className="text-xs sm:text-sm">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -726,6 +818,7 @@ const Profile = () => {
                           <TableCell className="text-xs sm:text-sm">
                             {new Date(order.created_at).toLocaleDateString()}
                           </TableCell>
+                          <TableCell>{renderOrderActions(order)}</TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -779,7 +872,9 @@ const Profile = () => {
                             {new Date(referredUser.created_at).toLocaleDateString()}
                           </TableCell>
                           <TableCell>
-                            <Badge variant="default" className="text-xs">Active</Badge>
+                            <Badge variant={referredUser.subscription_status === 'active' ? 'default' : 'secondary'} className="text-xs">
+                              {referredUser.subscription_status === 'active' ? 'Active' : 'Inactive'}
+                            </Badge>
                           </TableCell>
                         </TableRow>
                       ))}
@@ -790,6 +885,8 @@ const Profile = () => {
             </CardContent>
           </Card>
 
+          <ReferralTreeExplorer />
+
           {/* Quick Actions */}
           <Card>
             <CardHeader>
@@ -827,6 +924,11 @@ const Profile = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* KYC & Payout Accounts Tab */}
+        <TabsContent value="kyc" className="space-y-4 sm:space-y-6">
+          <PayoutVerification />
+        </TabsContent>
       </Tabs>
 
       {/* UPI-enabled Withdrawal Request Dialog */}
@@ -835,6 +937,13 @@ const Profile = () => {
         onOpenChange={setWithdrawalDialogOpen}
         onSuccess={handleWithdrawalSuccess}
       />
+
+      <CancelOrderDialog
+        order={orderToCancel}
+        open={!!orderToCancel}
+        onOpenChange={(open) => !open && setOrderToCancel(null)}
+        onSuccess={handleCancellationSuccess}
+      />
     </div>
   );
 };
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { SubscriptionGuard } from "@/components/subscription/SubscriptionGuard";
 import { ReferralLevelsDisplay } from "@/components/referral/ReferralLevelsDisplay";
+import { WalletStatement } from "@/components/referral/WalletStatement";
 import { Gift, Info, Star, Trophy, Target } from "lucide-react";
 
 const Rewards = () => {
@@ -11,7 +12,7 @@ const Rewards = () => {
     <>
       <Seo title="Referral Rewards" description="Earn amazing rewards and cash prizes through our referral program" />
 
-      <SubscriptionGuard feature="referral system">
+      <SubscriptionGuard feature="referral system" requires="referral_rewards">
         <div className="container py-8">
         <div className="max-w-6xl mx-auto">
           {/* Hero Section */}
@@ -28,6 +29,11 @@ const Rewards = () => {
           {/* New 7-Level Fixed Reward System */}
           <ReferralLevelsDisplay />
 
+          {/* Earnings ledger */}
+          <div className="mb-8">
+            <WalletStatement />
+          </div>
+
           {/* Key Benefits */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
             <Card className="text-center">
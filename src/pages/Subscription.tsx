@@ -20,6 +20,15 @@ import {
   type SubscriptionPlan,
   type SubscriptionRequest 
 } from '@/lib/supabase';
+import {
+  createSubscriptionPaymentIntent,
+  attachPaymentIntent,
+  buildUpiPaymentUrl,
+  type PaymentIntent
+} from '@/lib/payment-intents';
+import { getUserSubscriptionSummary, type SubscriptionSummary } from '@/lib/subscription-periods';
+import { formatPlanDuration, getMonthlyPrice, getPlanFeatureList } from '@/lib/subscription-plans';
+import { DEFAULT_PLAN_FEATURES, parsePlanFeatures } from '@/lib/plan-features';
 import { 
   Crown, 
   QrCode, 
@@ -31,7 +40,9 @@ import {
   Shield,
   Star,
   Gift,
-  Zap
+  Zap,
+  RefreshCw,
+  CalendarClock
 } from 'lucide-react';
 import QRCode from 'react-qr-code';
 import Seo from '@/components/Seo';
@@ -53,6 +64,9 @@ const Subscription = () => {
   const [paymentProof, setPaymentProof] = useState<File | null>(null);
   const [showQR, setShowQR] = useState(false);
   const [upiConfig, setUpiConfig] = useState<any>(null);
+  const [paymentIntent, setPaymentIntent] = useState<PaymentIntent | null>(null);
+  const [preparingPayment, setPreparingPayment] = useState(false);
+  const [subscriptionSummary, setSubscriptionSummary] = useState<SubscriptionSummary | null>(null);
 
   // Load data on component mount
   useEffect(() => {
@@ -76,7 +90,7 @@ const Subscription = () => {
           description: 'Full access to all MATRATV CARE features',
           price: 99.00,
           duration_months: 12,
-          features: { features: ['Shopping Cart', 'Referral System', 'Premium Support', 'Unlimited Orders', 'Priority Support'] },
+          features: { ...DEFAULT_PLAN_FEATURES, highlights: ['Shopping Cart', 'Referral System', 'Premium Support', 'Unlimited Orders', 'Priority Support'] },
           is_active: true,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -87,7 +101,7 @@ const Subscription = () => {
           description: 'Full access to all MATRATV CARE features - Demo Mode',
           price: 99.00,
           duration_months: 12,
-          features: { features: ['Shopping Cart', 'Referral System', 'Premium Support'] },
+          features: { ...DEFAULT_PLAN_FEATURES, highlights: ['Shopping Cart', 'Referral System', 'Premium Support'] },
           is_active: true,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -97,18 +111,22 @@ const Subscription = () => {
         return;
       }
 
-      const [plansData, requestsData, upiData] = await Promise.all([
+      const [plansData, requestsData, upiData, summaryData] = await Promise.all([
         getSubscriptionPlans(),
         getUserSubscriptionRequests(user.id),
-        getActiveUPIConfig()
+        getActiveUPIConfig(),
+        getUserSubscriptionSummary(user.id).catch(() => null)
       ]);
 
       setPlans(plansData);
       setUserRequests(requestsData);
       setUpiConfig(upiData);
+      setSubscriptionSummary(summaryData);
 
       if (plansData.length > 0) {
-        setSelectedPlan(plansData[0]); // Select first plan by default
+        // Renewals default to the plan the user is already on
+        const currentPlan = plansData.find(plan => plan.id === summaryData?.subscription?.plan_id);
+        setSelectedPlan(currentPlan || plansData[0]); // Select first plan by default
       }
     } catch (error: any) {
       console.error('Error loading subscription data:', error?.message || error);
@@ -166,13 +184,25 @@ const Subscription = () => {
     try {
       setSubmitting(true);
       
-      await createSubscriptionRequest(
+      const request = await createSubscriptionRequest(
         user.id,
         upiTransactionId.trim(),
-        selectedPlan.price,
-        paymentProof || undefined
+        paymentIntent?.amount ?? selectedPlan.price,
+        paymentProof || undefined,
+        {
+          planId: selectedPlan.id === 'demo-plan' ? undefined : selectedPlan.id,
+          requestType: isRenewal ? 'renewal' : 'new'
+        }
       );
 
+      if (paymentIntent && request) {
+        try {
+          await attachPaymentIntent(paymentIntent.id, { subscriptionRequestId: request.id });
+        } catch (error) {
+          console.error('Error attaching payment intent:', (error as Error).message);
+        }
+      }
+
       toast({
         description: 'Subscription request submitted successfully! Please wait for admin approval.',
         variant: 'default'
@@ -182,6 +212,7 @@ const Subscription = () => {
       setUpiTransactionId('');
       setPaymentProof(null);
       setShowQR(false);
+      setPaymentIntent(null);
 
       // Reload requests
       try {
@@ -203,12 +234,51 @@ const Subscription = () => {
     }
   };
 
+  // Reserve a unique amount and reference for this plan before showing the QR
+  const handleShowQR = async () => {
+    if (!selectedPlan) return;
+
+    if (selectedPlan.id === 'demo-plan') {
+      setShowQR(true);
+      return;
+    }
+
+    try {
+      setPreparingPayment(true);
+      const intent = paymentIntent?.plan_id === selectedPlan.id && new Date(paymentIntent.expires_at) > new Date()
+        ? paymentIntent
+        : await createSubscriptionPaymentIntent(selectedPlan.id);
+      setPaymentIntent(intent);
+      setShowQR(true);
+    } catch (error) {
+      console.error('Error preparing subscription payment:', (error as Error).message);
+      toast({
+        description: (error as Error).message || 'Unable to prepare payment. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setPreparingPayment(false);
+    }
+  };
+
+  const paymentAmount = paymentIntent?.amount ?? selectedPlan?.price;
+
   const generateUPIUrl = () => {
     if (!selectedPlan || !upiConfig?.upi_id) return '';
     
-    const amount = selectedPlan.price.toFixed(2);
     const merchantName = upiConfig.merchant_name || 'MATRATV CARE';
-    
+
+    if (paymentIntent) {
+      return buildUpiPaymentUrl({
+        upiId: upiConfig.upi_id,
+        merchantName,
+        amount: paymentIntent.amount,
+        reference: paymentIntent.reference,
+        note: 'MATRATV CARE Subscription'
+      });
+    }
+
+    const amount = selectedPlan.price.toFixed(2);
     return `upi://pay?pa=${upiConfig.upi_id}&pn=${encodeURIComponent(merchantName)}&am=${amount}&cu=INR&tn=${encodeURIComponent('MATRATV CARE Subscription')}`;
   };
 
@@ -228,6 +298,17 @@ const Subscription = () => {
   // Show subscription page even if user has active subscription (for admin management)
   const showActiveMessage = profile?.subscription_status === 'active';
 
+  // A payment made while a period is running (or in its grace period) extends it
+  const isRenewal = subscriptionSummary?.status === 'active' || subscriptionSummary?.status === 'grace';
+  const hasPendingRequest = userRequests.some(request => request.status === 'pending');
+
+  const handleRenewClick = () => {
+    document.getElementById('subscription-payment')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-purple-50 to-purple-100 flex items-center justify-center">
@@ -260,6 +341,43 @@ const Subscription = () => {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="text-center">
+                  {subscriptionSummary?.expiresAt && subscriptionSummary.status === 'active' && (
+                    <div className="flex items-center justify-center gap-2 mb-4 text-green-800">
+                      <CalendarClock className="w-5 h-5" />
+                      <span className="font-medium">
+                        {subscriptionSummary.daysRemaining === 1
+                          ? '1 day remaining'
+                          : `${subscriptionSummary.daysRemaining} days remaining`}
+                      </span>
+                      <span className="text-sm text-green-700">
+                        (until {formatDate(subscriptionSummary.expiresAt)})
+                      </span>
+                    </div>
+                  )}
+
+                  {subscriptionSummary?.status === 'grace' && subscriptionSummary.graceEndsAt && (
+                    <Alert className="mb-4 border-orange-200 bg-orange-50 text-left">
+                      <CalendarClock className="h-4 w-4 text-orange-600" />
+                      <AlertDescription className="text-orange-800">
+                        Your subscription ended on {formatDate(subscriptionSummary.expiresAt!)}.
+                        Renew before {formatDate(subscriptionSummary.graceEndsAt)} to keep access to all features.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {subscriptionSummary?.canRenew && (
+                    hasPendingRequest ? (
+                      <p className="text-sm text-gray-600 mb-4">
+                        Your renewal request is awaiting admin approval.
+                      </p>
+                    ) : (
+                      <Button onClick={handleRenewClick} className="mr-4 mb-4 bg-purple-600 hover:bg-purple-700">
+                        <RefreshCw className="w-4 h-4 mr-2" />
+                        Renew Subscription
+                      </Button>
+                    )
+                  )}
+
                   <Button onClick={() => navigate('/')} className="mr-4">
                     <ArrowLeft className="w-4 h-4 mr-2" />
                     Go to Home
@@ -292,67 +410,89 @@ const Subscription = () => {
             
             {/* Subscription Plans */}
             <div className="space-y-6">
-              {plans.map((plan) => (
-                <Card 
-                  key={plan.id} 
-                  className={`cursor-pointer transition-all duration-200 ${
-                    selectedPlan?.id === plan.id 
-                      ? 'ring-2 ring-purple-500 shadow-lg' 
-                      : 'hover:shadow-md'
-                  }`}
-                  onClick={() => setSelectedPlan(plan)}
-                >
-                  <CardHeader>
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <CardTitle className="text-xl">{plan.name}</CardTitle>
-                        <CardDescription className="mt-1">{plan.description}</CardDescription>
-                      </div>
-                      <div className="text-right">
-                        <div className="text-2xl font-bold text-purple-600">₹{plan.price}</div>
-                        <div className="text-sm text-gray-500">for {plan.duration_months} months</div>
-                      </div>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-3">
-                      <h4 className="font-semibold text-gray-900">What's Included:</h4>
-                      <div className="grid grid-cols-1 gap-2">
-                        {plan.features?.features?.map((feature: string, index: number) => (
-                          <div key={index} className="flex items-center gap-2">
-                            <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                            <span className="text-sm text-gray-700">{feature}</span>
-                          </div>
-                        ))}
-                      </div>
-                      
-                      {/* Additional premium features */}
-                      <div className="grid grid-cols-2 gap-4 pt-4 border-t">
-                        <div className="flex items-center gap-2">
-                          <Shield className="w-4 h-4 text-blue-500" />
-                          <span className="text-xs text-gray-600">Secure Shopping</span>
+              {plans.map((plan) => {
+                const planFeatures = parsePlanFeatures(plan.features);
+                return (
+                  <Card 
+                    key={plan.id} 
+                    className={`cursor-pointer transition-all duration-200 ${
+                      selectedPlan?.id === plan.id 
+                        ? 'ring-2 ring-purple-500 shadow-lg' 
+                        : 'hover:shadow-md'
+                    }`}
+                    onClick={() => {
+                      setSelectedPlan(plan);
+                      if (paymentIntent?.plan_id !== plan.id) {
+                        setPaymentIntent(null);
+                        setShowQR(false);
+                      }
+                    }}
+                  >
+                    <CardHeader>
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <CardTitle className="text-xl">{plan.name}</CardTitle>
+                          <CardDescription className="mt-1">{plan.description}</CardDescription>
                         </div>
-                        <div className="flex items-center gap-2">
-                          <Star className="w-4 h-4 text-yellow-500" />
-                          <span className="text-xs text-gray-600">Premium Support</span>
+                        <div className="text-right">
+                          <div className="text-2xl font-bold text-purple-600">₹{plan.price}</div>
+                          <div className="text-sm text-gray-500">{formatPlanDuration(plan.duration_months)}</div>
+                          {plan.duration_months > 1 && (
+                            <div className="text-xs text-gray-400">₹{getMonthlyPrice(plan).toFixed(2)}/month</div>
+                          )}
                         </div>
-                        <div className="flex items-center gap-2">
-                          <Gift className="w-4 h-4 text-purple-500" />
-                          <span className="text-xs text-gray-600">Referral Earnings</span>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-3">
+                        <h4 className="font-semibold text-gray-900">What's Included:</h4>
+                        <div className="grid grid-cols-1 gap-2">
+                          {getPlanFeatureList(plan).map((feature, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                              <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                              <span className="text-sm text-gray-700">{feature}</span>
+                            </div>
+                          ))}
                         </div>
-                        <div className="flex items-center gap-2">
-                          <Zap className="w-4 h-4 text-orange-500" />
-                          <span className="text-xs text-gray-600">Fast Checkout</span>
+                      
+                        {/* Plan features */}
+                        <div className="grid grid-cols-2 gap-4 pt-4 border-t">
+                          {planFeatures.shopping && (
+                            <>
+                              <div className="flex items-center gap-2">
+                                <Shield className="w-4 h-4 text-blue-500" />
+                                <span className="text-xs text-gray-600">Secure Shopping</span>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <Zap className="w-4 h-4 text-orange-500" />
+                                <span className="text-xs text-gray-600">Fast Checkout</span>
+                              </div>
+                            </>
+                          )}
+                          {planFeatures.referral_rewards && (
+                            <div className="flex items-center gap-2">
+                              <Gift className="w-4 h-4 text-purple-500" />
+                              <span className="text-xs text-gray-600">Referral Earnings</span>
+                            </div>
+                          )}
+                          {planFeatures.member_discount_percent > 0 && (
+                            <div className="flex items-center gap-2">
+                              <Star className="w-4 h-4 text-yellow-500" />
+                              <span className="text-xs text-gray-600">
+                                {planFeatures.member_discount_percent}% Member Pricing
+                              </span>
+                            </div>
+                          )}
                         </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                    </CardContent>
+                  </Card>
+                );
+              })}
             </div>
 
             {/* Payment Section */}
-            <div className="space-y-6">
+            <div id="subscription-payment" className="space-y-6">
               
               {/* Payment Instructions */}
               <Card>
@@ -379,7 +519,10 @@ const Subscription = () => {
                       </div>
                       <div>
                         <p className="font-medium">Make Payment</p>
-                        <p className="text-sm text-gray-600">Scan QR with any UPI app and pay ₹{selectedPlan?.price}</p>
+                        <p className="text-sm text-gray-600">
+                          Scan QR with any UPI app and pay ₹{selectedPlan?.price}
+                          {selectedPlan && ` for ${selectedPlan.name}`}
+                        </p>
                       </div>
                     </div>
                     <div className="flex items-start gap-3">
@@ -396,12 +539,12 @@ const Subscription = () => {
                   <Separator />
                   
                   <Button 
-                    onClick={() => setShowQR(true)} 
+                    onClick={handleShowQR} 
                     className="w-full"
-                    disabled={!selectedPlan || !upiConfig?.upi_id}
+                    disabled={!selectedPlan || !upiConfig?.upi_id || preparingPayment}
                   >
                     <QrCode className="w-4 h-4 mr-2" />
-                    Show QR Code
+                    {preparingPayment ? 'Preparing...' : 'Show QR Code'}
                   </Button>
                 </CardContent>
               </Card>
@@ -464,7 +607,17 @@ const Subscription = () => {
                       {userRequests.map((request) => (
                         <div key={request.id} className="flex justify-between items-center p-3 border rounded-lg">
                           <div>
-                            <p className="font-medium">₹{request.amount}</p>
+                            <p className="font-medium">
+                              ₹{request.amount}
+                              {plans.find(plan => plan.id === request.plan_id) && (
+                                <span className="text-sm font-normal text-gray-600">
+                                  {' '}• {plans.find(plan => plan.id === request.plan_id)!.name}
+                                </span>
+                              )}
+                              {request.request_type === 'renewal' && (
+                                <span className="text-sm font-normal text-gray-600"> • Renewal</span>
+                              )}
+                            </p>
                             <p className="text-sm text-gray-600">
                               {new Date(request.requested_at).toLocaleDateString()}
                             </p>
@@ -490,7 +643,7 @@ const Subscription = () => {
           <DialogHeader>
             <DialogTitle>Scan QR to Pay</DialogTitle>
             <DialogDescription>
-              Scan this QR code with any UPI app to pay ₹{selectedPlan?.price}
+              Scan this QR code with any UPI app to pay ₹{paymentAmount}
             </DialogDescription>
           </DialogHeader>
           
@@ -507,14 +660,19 @@ const Subscription = () => {
             
             <div className="space-y-2 text-center">
               <p className="font-medium">Payment Details</p>
-              <p className="text-sm text-gray-600">Amount: ₹{selectedPlan?.price}</p>
+              <p className="text-sm text-gray-600">Amount: ₹{paymentAmount}</p>
+              {paymentIntent && (
+                <p className="text-sm text-gray-600">
+                  Payment ref: <span className="font-mono">{paymentIntent.reference}</span>
+                </p>
+              )}
               <p className="text-sm text-gray-600">UPI ID: {upiConfig?.upi_id}</p>
               <p className="text-sm text-gray-600">Merchant: {upiConfig?.merchant_name || 'MATRATV CARE'}</p>
             </div>
             
             <Alert>
               <AlertDescription>
-                After payment, come back to this page and upload your payment proof with transaction ID.
+                Please pay the exact amount shown. After payment, come back to this page and upload your payment proof with transaction ID.
               </AlertDescription>
             </Alert>
           </div>
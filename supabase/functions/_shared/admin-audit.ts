@@ -0,0 +1,90 @@
+// Writes admin_audit_log entries for changes made through the admin
+// functions. The table is append-only (see the admin audit log migration);
+// entries are written with the service role after the change succeeds.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { clientIp } from './client-ip.ts'
+import { ADMIN_SECRET_COLUMNS, type AdminRecord } from './admin-session.ts'
+
+type AuditRow = Record<string, unknown>
+
+export interface AdminAuditActor {
+  adminId: string
+  adminEmail: string
+  sessionId: string | null
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+export interface AdminAuditEntry {
+  action: string
+  targetTable?: string | null
+  targetId?: string | null
+  before?: AuditRow | null
+  after?: AuditRow | null
+  metadata?: Record<string, unknown>
+}
+
+// session.id is null for changes made while signing in, before there is a session
+export const adminAuditActor = (session: { id: string | null; admin: AdminRecord }, req: Request): AdminAuditActor => ({
+  adminId: session.admin.id,
+  adminEmail: session.admin.email,
+  sessionId: session.id,
+  ipAddress: clientIp(req),
+  userAgent: req.headers.get('user-agent')?.slice(0, 300) || null
+})
+
+// Secrets stay out of the log like they stay out of responses
+const redact = (row: AuditRow | null | undefined): AuditRow | null => {
+  if (!row) return null
+  const copy = { ...row }
+  ADMIN_SECRET_COLUMNS.forEach((column) => delete copy[column])
+  return copy
+}
+
+// The columns whose values differ, as { column: { from, to } }
+export function diffAuditRows(before: AuditRow | null, after: AuditRow | null) {
+  if (!before || !after) return null
+
+  const changes: Record<string, { from: unknown; to: unknown }> = {}
+  for (const column of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[column] ?? null) !== JSON.stringify(after[column] ?? null)) {
+      changes[column] = { from: before[column] ?? null, to: after[column] ?? null }
+    }
+  }
+  return changes
+}
+
+// A failed audit write is logged rather than thrown: the change itself has
+// already been made and the caller needs to know that
+export async function recordAdminAudit(
+  client: SupabaseClient,
+  actor: AdminAuditActor,
+  entries: AdminAuditEntry[]
+): Promise<void> {
+  if (entries.length === 0) return
+
+  const rows = entries.map((entry) => {
+    const before = redact(entry.before)
+    const after = redact(entry.after)
+    return {
+      admin_id: actor.adminId,
+      admin_email: actor.adminEmail,
+      session_id: actor.sessionId,
+      action: entry.action,
+      target_table: entry.targetTable ?? null,
+      target_id: entry.targetId ?? null,
+      before,
+      after,
+      changes: diffAuditRows(before, after),
+      metadata: entry.metadata || {},
+      ip_address: actor.ipAddress,
+      user_agent: actor.userAgent
+    }
+  })
+
+  const { error } = await client.from('admin_audit_log').insert(rows)
+  if (error) {
+    console.error('Failed to write admin audit log:', error, rows.map((row) => row.action))
+  }
+}
@@ -0,0 +1,324 @@
+// Admin sign-in and session checks for the admin-login and admin-api
+// functions. Admins are rows in the admins table, separate from customer
+// accounts. A session token is "<payload>.<signature>": the payload holds the
+// session id, admin id, token expiry and session expiry, signed with
+// ADMIN_SESSION_SECRET.
+// The session row keeps a hash of the latest token, so a refreshed or revoked
+// token stops working even before it expires.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { clientIp } from './client-ip.ts'
+import { hmacSha256Hex } from './razorpay.ts'
+
+const ADMIN_SESSION_SECRET = Deno.env.get('ADMIN_SESSION_SECRET') || ''
+
+export const ADMIN_SESSION_HEADER = 'x-admin-session'
+
+// A session lasts at most ADMIN_SESSION_HOURS; its token must be refreshed
+// every ADMIN_TOKEN_MINUTES while the dashboard is open
+export const ADMIN_SESSION_HOURS = 12
+export const ADMIN_TOKEN_MINUTES = 30
+
+// A sign-in waiting for a two-factor code must finish within this time
+export const ADMIN_CHALLENGE_MINUTES = 5
+
+// Columns that never leave the server
+export const ADMIN_SECRET_COLUMNS = [
+  'password_hash',
+  'password_salt',
+  'totp_secret',
+  'totp_pending_secret',
+  'totp_backup_codes',
+  'totp_last_step',
+  'totp_failed_attempts',
+  'totp_locked_until'
+]
+export const ADMIN_PUBLIC_COLUMNS = 'id, email, full_name, role, is_active, created_at, created_by, totp_enabled_at'
+
+// A role's permissions come from admin_roles, e.g. 'withdrawals.approve';
+// two_factor_required is the role's require_2fa
+export interface AdminRecord {
+  id: string
+  email: string
+  full_name: string | null
+  role: string
+  is_active: boolean
+  created_at: string
+  created_by: string | null
+  totp_enabled_at: string | null
+  permissions: string[]
+  two_factor_required: boolean
+}
+
+export interface AdminSession {
+  id: string
+  admin: AdminRecord
+}
+
+export interface IssuedAdminToken {
+  token: string
+  expiresAt: string
+  sessionExpiresAt: string
+}
+
+// exp and sxp are epoch seconds; the dashboard reads them to know when to
+// refresh and when the session can no longer be extended
+interface AdminTokenPayload {
+  sid: string
+  aid: string
+  exp: number
+  sxp: number
+}
+
+// Proves the password was right while the two-factor code is still owed.
+// It has no sid, so it never passes as a session token.
+interface AdminChallengePayload {
+  aid: string
+  exp: number
+  typ: '2fa'
+}
+
+const encoder = new TextEncoder()
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes).map((byte) => byte.toString(16).padStart(2, '0')).join('')
+
+// True when the admin's role grants any of the permissions
+export const hasAdminPermission = (admin: AdminRecord, ...permissions: string[]) =>
+  permissions.some((permission) => admin.permissions.includes(permission))
+
+// An active admin with their role's permissions, or null
+export async function getActiveAdmin(client: SupabaseClient, adminId: string): Promise<AdminRecord | null> {
+  const { data, error } = await client
+    .from('admins')
+    .select(`${ADMIN_PUBLIC_COLUMNS}, admin_roles (permissions, require_2fa)`)
+    .eq('id', adminId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  const { admin_roles: roleInfo, ...admin } = data as Record<string, unknown> & {
+    admin_roles: { permissions: string[]; require_2fa: boolean } | null
+  }
+  return {
+    ...admin,
+    permissions: roleInfo?.permissions || [],
+    two_factor_required: !!roleInfo?.require_2fa
+  } as AdminRecord
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(value))))
+}
+
+// Same PBKDF2 format as src/lib/password-utils.ts: "<iterations>:<digest>:<hex>"
+export async function hashAdminPassword(password: string): Promise<{ hash: string; salt: string }> {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(32)))
+  const iterations = 100000
+  const hash = await pbkdf2Hex(password, salt, iterations, 'SHA-256', 64)
+  return { hash: `${iterations}:SHA-256:${hash}`, salt }
+}
+
+export async function verifyAdminPassword(password: string, storedHash: string, salt: string): Promise<boolean> {
+  const [iterations, digest, hash] = (storedHash || '').split(':')
+  if (!password || !salt || !iterations || !digest || !hash) return false
+
+  try {
+    const candidate = await pbkdf2Hex(password, salt, parseInt(iterations), digest, hash.length / 2)
+    return safeEqual(candidate, hash)
+  } catch (error) {
+    console.error('Password verification error:', error)
+    return false
+  }
+}
+
+async function pbkdf2Hex(password: string, salt: string, iterations: number, digest: string, keyLength: number) {
+  const keyMaterial = await crypto.subtle.importKey('raw', encoder.encode(password), { name: 'PBKDF2' }, false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: encoder.encode(salt), iterations, hash: digest },
+    keyMaterial,
+    keyLength * 8
+  )
+  return toHex(new Uint8Array(bits))
+}
+
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+const toBase64Url = (value: string) =>
+  btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const fromBase64Url = (value: string) =>
+  atob(value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '='))
+
+async function signAdminToken(payload: AdminTokenPayload | AdminChallengePayload): Promise<string> {
+  if (!ADMIN_SESSION_SECRET) {
+    throw new Error('ADMIN_SESSION_SECRET is not set')
+  }
+  const encoded = toBase64Url(JSON.stringify(payload))
+  return `${encoded}.${await hmacSha256Hex(ADMIN_SESSION_SECRET, encoded)}`
+}
+
+// The payload of a correctly signed token, or null. Expired tokens are
+// rejected unless allowExpired is set (signing out with a lapsed token).
+async function readAdminToken(token: string | null, allowExpired = false): Promise<AdminTokenPayload | null> {
+  if (!token || !ADMIN_SESSION_SECRET) return null
+
+  const [encoded, signature] = token.split('.')
+  if (!encoded || !signature) return null
+  if (!safeEqual(await hmacSha256Hex(ADMIN_SESSION_SECRET, encoded), signature)) return null
+
+  try {
+    const payload = JSON.parse(fromBase64Url(encoded)) as AdminTokenPayload
+    if (!payload.sid || !payload.aid || !payload.exp) return null
+    if (!allowExpired && payload.exp * 1000 <= Date.now()) return null
+    return payload
+  } catch {
+    return null
+  }
+}
+
+// A short-lived token to finish signing in with a two-factor code
+export async function issueAdminChallenge(adminId: string): Promise<{ challenge: string; expiresAt: string }> {
+  const exp = Math.floor(Date.now() / 1000) + ADMIN_CHALLENGE_MINUTES * 60
+  return {
+    challenge: await signAdminToken({ aid: adminId, exp, typ: '2fa' }),
+    expiresAt: new Date(exp * 1000).toISOString()
+  }
+}
+
+// The admin id of a correctly signed, unexpired challenge, or null
+export async function readAdminChallenge(challenge: unknown): Promise<string | null> {
+  if (typeof challenge !== 'string' || !ADMIN_SESSION_SECRET) return null
+
+  const [encoded, signature] = challenge.split('.')
+  if (!encoded || !signature) return null
+  if (!safeEqual(await hmacSha256Hex(ADMIN_SESSION_SECRET, encoded), signature)) return null
+
+  try {
+    const payload = JSON.parse(fromBase64Url(encoded)) as AdminChallengePayload
+    if (payload.typ !== '2fa' || !payload.aid || !payload.exp || payload.exp * 1000 <= Date.now()) return null
+    return payload.aid
+  } catch {
+    return null
+  }
+}
+
+// A fresh token for the session, never outliving the session itself
+async function issueAdminToken(sessionId: string, adminId: string, sessionExpiresAt: string): Promise<IssuedAdminToken> {
+  const sxp = Math.floor(new Date(sessionExpiresAt).getTime() / 1000)
+  const exp = Math.min(Math.floor(Date.now() / 1000) + ADMIN_TOKEN_MINUTES * 60, sxp)
+
+  return {
+    token: await signAdminToken({ sid: sessionId, aid: adminId, exp, sxp }),
+    expiresAt: new Date(exp * 1000).toISOString(),
+    sessionExpiresAt
+  }
+}
+
+export async function createAdminSession(
+  client: SupabaseClient,
+  adminId: string,
+  req: Request
+): Promise<IssuedAdminToken> {
+  const sessionId = crypto.randomUUID()
+  const sessionExpiresAt = new Date(Date.now() + ADMIN_SESSION_HOURS * 60 * 60 * 1000).toISOString()
+  const issued = await issueAdminToken(sessionId, adminId, sessionExpiresAt)
+
+  const { error } = await client.from('admin_sessions').insert({
+    id: sessionId,
+    admin_id: adminId,
+    token_hash: await sha256Hex(issued.token),
+    user_agent: req.headers.get('user-agent')?.slice(0, 300) || null,
+    ip_address: clientIp(req),
+    expires_at: sessionExpiresAt,
+    token_expires_at: issued.expiresAt
+  })
+
+  if (error) throw error
+  return issued
+}
+
+// The live session behind a token: signed, unexpired, the session's latest
+// token, not revoked, and belonging to an active admin
+async function loadAdminSession(client: SupabaseClient, token: string | null) {
+  const payload = await readAdminToken(token)
+  if (!payload || !token) return null
+
+  const { data: session, error } = await client
+    .from('admin_sessions')
+    .select('id, admin_id, token_hash, expires_at, revoked_at')
+    .eq('id', payload.sid)
+    .maybeSingle()
+
+  if (error) throw error
+  if (
+    !session ||
+    session.admin_id !== payload.aid ||
+    session.revoked_at ||
+    new Date(session.expires_at).getTime() <= Date.now() ||
+    !safeEqual(session.token_hash, await sha256Hex(token))
+  ) {
+    return null
+  }
+
+  const admin = await getActiveAdmin(client, session.admin_id)
+  if (!admin) return null
+
+  return { id: session.id as string, expiresAt: session.expires_at as string, admin }
+}
+
+// The session behind the request's token, or null when the token is missing,
+// forged, expired, superseded, revoked or belongs to a deactivated admin
+export async function getAdminSession(client: SupabaseClient, req: Request): Promise<AdminSession | null> {
+  const session = await loadAdminSession(client, req.headers.get(ADMIN_SESSION_HEADER))
+  if (!session) return null
+
+  await client.from('admin_sessions').update({ last_seen_at: new Date().toISOString() }).eq('id', session.id)
+
+  return { id: session.id, admin: session.admin }
+}
+
+// Swaps a valid token for a new one; the old token stops working
+export async function refreshAdminSession(
+  client: SupabaseClient,
+  req: Request
+): Promise<(IssuedAdminToken & { admin: AdminRecord }) | null> {
+  const session = await loadAdminSession(client, req.headers.get(ADMIN_SESSION_HEADER))
+  if (!session) return null
+
+  const issued = await issueAdminToken(session.id, session.admin.id, session.expiresAt)
+  const now = new Date().toISOString()
+
+  const { error } = await client
+    .from('admin_sessions')
+    .update({
+      token_hash: await sha256Hex(issued.token),
+      token_expires_at: issued.expiresAt,
+      refreshed_at: now,
+      last_seen_at: now
+    })
+    .eq('id', session.id)
+
+  if (error) throw error
+  return { ...issued, admin: session.admin }
+}
+
+export async function revokeAdminSession(client: SupabaseClient, req: Request): Promise<void> {
+  const payload = await readAdminToken(req.headers.get(ADMIN_SESSION_HEADER), true)
+  if (!payload) return
+
+  const { error } = await client
+    .from('admin_sessions')
+    .update({ revoked_at: new Date().toISOString(), revoked_by: payload.aid, revoke_reason: 'signed_out' })
+    .eq('id', payload.sid)
+    .is('revoked_at', null)
+
+  if (error) throw error
+}
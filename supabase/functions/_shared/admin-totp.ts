@@ -0,0 +1,257 @@
+// Time-based one-time codes (RFC 6238: HMAC-SHA1, 6 digits, 30 seconds) and
+// backup codes for admin two-factor sign-in. The secret and the backup code
+// hashes live in admins columns listed in ADMIN_SECRET_COLUMNS, so they
+// never leave the functions.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { safeEqual, sha256Hex } from './admin-session.ts'
+
+const TOTP_ISSUER = Deno.env.get('ADMIN_TOTP_ISSUER') || 'MATRATV CARE Admin'
+const TOTP_PERIOD_SECONDS = 30
+const TOTP_DIGITS = 6
+// Codes from one step either side are accepted, for clock drift
+const TOTP_DRIFT_STEPS = 1
+
+const BACKUP_CODE_COUNT = 10
+
+// Wrong codes in a row before code entry is locked, and for how long
+const MAX_FAILED_ATTEMPTS = 5
+const LOCK_MINUTES = 15
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export type SecondFactorResult =
+  | { ok: true; usedBackupCode: boolean; backupCodesRemaining: number }
+  | { ok: false; lockedUntil: string | null }
+
+const base32Encode = (bytes: Uint8Array) => {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return output
+}
+
+const base32Decode = (encoded: string) => {
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error('Invalid base32 secret')
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+// 160 random bits, the size RFC 4226 recommends
+const generateTotpSecret = () => base32Encode(crypto.getRandomValues(new Uint8Array(20)))
+
+// What the authenticator app scans, as a QR code
+const totpUri = (secret: string, email: string) => {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${email}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  })
+  return `otpauth://totp/${label}?${params}`
+}
+
+// The code for a time step; exported for the function tests
+export async function totpCode(secret: string, step: number): Promise<string> {
+  const counter = new Uint8Array(8)
+  new DataView(counter.buffer).setBigUint64(0, BigInt(step))
+
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign'])
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter))
+
+  const offset = hmac[hmac.length - 1] & 15
+  const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3]
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+export const currentTotpStep = () => Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS)
+
+// The time step the code belongs to, or null. Steps up to lastStep were
+// already used and are refused.
+async function matchTotpStep(secret: string, code: string, lastStep: number | null = null): Promise<number | null> {
+  const digits = code.replace(/\s/g, '')
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(digits)) return null
+
+  const current = currentTotpStep()
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    if (lastStep !== null && step <= lastStep) continue
+    if (safeEqual(await totpCode(secret, step), digits)) return step
+  }
+  return null
+}
+
+// Backup codes are compared without case or dashes
+const hashBackupCode = (code: string) => sha256Hex(code.replace(/[\s-]/g, '').toLowerCase())
+
+// Fresh codes like "k7q2m-x9d4t" to show once, with the hashes to store
+export async function generateBackupCodes(): Promise<{ codes: string[]; hashes: string[] }> {
+  const alphabet = BASE32_ALPHABET.toLowerCase()
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const chars = Array.from(crypto.getRandomValues(new Uint8Array(10)), (byte) => alphabet[byte & 31]).join('')
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`
+  })
+  return { codes, hashes: await Promise.all(codes.map(hashBackupCode)) }
+}
+
+// Checks a code from the admin's app, or one of their backup codes, for an
+// admin with 2FA on. A used backup code is removed; wrong codes count
+// towards a temporary lock.
+export async function verifyAdminSecondFactor(
+  client: SupabaseClient,
+  adminId: string,
+  code: unknown
+): Promise<SecondFactorResult> {
+  const { data: account, error } = await client
+    .from('admins')
+    .select('totp_secret, totp_enabled_at, totp_last_step, totp_backup_codes, totp_failed_attempts, totp_locked_until')
+    .eq('id', adminId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!account?.totp_enabled_at || !account.totp_secret) return { ok: false, lockedUntil: null }
+
+  if (account.totp_locked_until && new Date(account.totp_locked_until).getTime() > Date.now()) {
+    return { ok: false, lockedUntil: account.totp_locked_until }
+  }
+
+  const entered = typeof code === 'string' ? code.trim() : ''
+  const backupCodes: string[] = account.totp_backup_codes || []
+
+  const step = await matchTotpStep(account.totp_secret, entered, account.totp_last_step)
+  const backupHash = step === null && entered ? await hashBackupCode(entered) : null
+  const usedBackupCode = !!backupHash && backupCodes.includes(backupHash)
+
+  if (step === null && !usedBackupCode) {
+    const attempts = (account.totp_failed_attempts || 0) + 1
+    const lockedUntil = attempts >= MAX_FAILED_ATTEMPTS
+      ? new Date(Date.now() + LOCK_MINUTES * 60 * 1000).toISOString()
+      : null
+
+    const { error: updateError } = await client
+      .from('admins')
+      .update({ totp_failed_attempts: lockedUntil ? 0 : attempts, totp_locked_until: lockedUntil })
+      .eq('id', adminId)
+
+    if (updateError) throw updateError
+    return { ok: false, lockedUntil }
+  }
+
+  const remaining = usedBackupCode ? backupCodes.filter((hash) => hash !== backupHash) : backupCodes
+
+  // Only succeeds if the code was not accepted by a concurrent request
+  // meanwhile; otherwise the same code could open two sessions
+  let update = client
+    .from('admins')
+    .update({
+      totp_last_step: step ?? account.totp_last_step,
+      totp_backup_codes: remaining,
+      totp_failed_attempts: 0,
+      totp_locked_until: null
+    })
+    .eq('id', adminId)
+  update = account.totp_last_step === null ? update.is('totp_last_step', null) : update.eq('totp_last_step', account.totp_last_step)
+  if (usedBackupCode) update = update.contains('totp_backup_codes', [backupHash])
+
+  const { data: updated, error: updateError } = await update.select('id')
+  if (updateError) throw updateError
+  if (!updated || updated.length === 0) return { ok: false, lockedUntil: null }
+
+  return { ok: true, usedBackupCode, backupCodesRemaining: remaining.length }
+}
+
+// Starts (or restarts) enrolment with a new secret; 2FA stays off until a
+// code from it is confirmed
+export async function startTotpEnrolment(
+  client: SupabaseClient,
+  admin: { id: string; email: string }
+): Promise<{ secret: string; otpauthUrl: string }> {
+  const secret = generateTotpSecret()
+
+  const { error } = await client
+    .from('admins')
+    .update({ totp_pending_secret: secret })
+    .eq('id', admin.id)
+    .is('totp_enabled_at', null)
+
+  if (error) throw error
+  return { secret, otpauthUrl: totpUri(secret, admin.email) }
+}
+
+// Turns 2FA on when the code matches the pending secret. Returns the backup
+// codes to show once, or null for a wrong code or no enrolment in progress.
+export async function confirmTotpEnrolment(
+  client: SupabaseClient,
+  adminId: string,
+  code: unknown
+): Promise<string[] | null> {
+  const { data: account, error } = await client
+    .from('admins')
+    .select('totp_pending_secret, totp_enabled_at')
+    .eq('id', adminId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!account?.totp_pending_secret || account.totp_enabled_at) return null
+
+  const step = await matchTotpStep(account.totp_pending_secret, typeof code === 'string' ? code : '')
+  if (step === null) return null
+
+  const { codes, hashes } = await generateBackupCodes()
+  const { data: updated, error: updateError } = await client
+    .from('admins')
+    .update({
+      totp_secret: account.totp_pending_secret,
+      totp_pending_secret: null,
+      totp_enabled_at: new Date().toISOString(),
+      totp_last_step: step,
+      totp_backup_codes: hashes,
+      totp_failed_attempts: 0,
+      totp_locked_until: null
+    })
+    .eq('id', adminId)
+    .eq('totp_pending_secret', account.totp_pending_secret)
+    .select('id')
+
+  if (updateError) throw updateError
+  return updated && updated.length > 0 ? codes : null
+}
+
+// Turns 2FA off and forgets the secret and backup codes
+export async function clearAdminTwoFactor(client: SupabaseClient, adminId: string): Promise<void> {
+  const { error } = await client
+    .from('admins')
+    .update({
+      totp_secret: null,
+      totp_pending_secret: null,
+      totp_enabled_at: null,
+      totp_last_step: null,
+      totp_backup_codes: [],
+      totp_failed_attempts: 0,
+      totp_locked_until: null
+    })
+    .eq('id', adminId)
+
+  if (error) throw error
+}
@@ -0,0 +1,6 @@
+// The first address in the proxy chain is the client's
+export function clientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for')
+  if (forwarded) return forwarded.split(',')[0].trim() || null
+  return req.headers.get('cf-connecting-ip') || req.headers.get('x-real-ip')
+}
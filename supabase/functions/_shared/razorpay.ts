@@ -0,0 +1,73 @@
+// Razorpay API access and signature checks shared by the payment functions.
+// RAZORPAY_API_URL points the functions at the local stub gateway
+// (_stub/razorpay-gateway.ts) when testing without Razorpay.
+
+export const RAZORPAY_API_URL = Deno.env.get('RAZORPAY_API_URL') || 'https://api.razorpay.com/v1'
+export const RAZORPAY_KEY_ID = Deno.env.get('RAZORPAY_KEY_ID') || 'rzp_test_your_key_id'
+export const RAZORPAY_KEY_SECRET = Deno.env.get('RAZORPAY_KEY_SECRET') || 'your_secret_key'
+export const RAZORPAY_WEBHOOK_SECRET = Deno.env.get('RAZORPAY_WEBHOOK_SECRET') || ''
+
+const encoder = new TextEncoder()
+
+export async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload))
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Constant-time comparison so signatures cannot be guessed byte by byte
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+// Checkout handler signature: HMAC-SHA256(order_id|payment_id, key secret)
+export async function verifyPaymentSignature(
+  razorpayOrderId: string,
+  razorpayPaymentId: string,
+  razorpaySignature: string
+): Promise<boolean> {
+  const expected = await hmacSha256Hex(RAZORPAY_KEY_SECRET, `${razorpayOrderId}|${razorpayPaymentId}`)
+  return safeEqual(expected, razorpaySignature)
+}
+
+// Webhook signature: HMAC-SHA256(raw request body, webhook secret)
+export async function verifyWebhookSignature(body: string, signature: string): Promise<boolean> {
+  if (!RAZORPAY_WEBHOOK_SECRET) {
+    console.error('RAZORPAY_WEBHOOK_SECRET is not set; rejecting webhook')
+    return false
+  }
+  const expected = await hmacSha256Hex(RAZORPAY_WEBHOOK_SECRET, body)
+  return safeEqual(expected, signature)
+}
+
+export async function razorpayRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${RAZORPAY_API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Basic ${btoa(`${RAZORPAY_KEY_ID}:${RAZORPAY_KEY_SECRET}`)}`,
+      'Content-Type': 'application/json',
+      ...init.headers
+    }
+  })
+
+  if (!response.ok) {
+    const errorData = await response.text()
+    console.error('Razorpay error:', errorData)
+    throw new Error(`Razorpay request failed with status ${response.status}`)
+  }
+
+  return await response.json() as T
+}
@@ -0,0 +1,159 @@
+// Local stand-in for the Razorpay API, for exercising the payment edge
+// functions without a Razorpay account. Folders starting with "_" are not
+// deployed by the Supabase CLI.
+//
+//   deno run --allow-net --allow-env supabase/functions/_stub/razorpay-gateway.ts
+//
+// Serve the functions against it (from inside the functions container the
+// host is reachable as host.docker.internal):
+//
+//   RAZORPAY_API_URL=http://host.docker.internal:8787/v1
+//   RAZORPAY_KEY_ID / RAZORPAY_KEY_SECRET / RAZORPAY_WEBHOOK_SECRET = same values as below
+//
+// Then create a payment order through create-payment-order and simulate the
+// customer paying it:
+//
+//   curl -X POST http://localhost:8787/_stub/orders/<razorpay_order_id>/pay
+//
+// The response holds the checkout fields to post to verify-payment, and the
+// stub delivers a signed payment.captured webhook to STUB_WEBHOOK_URL.
+// Add ?deliveries=2 to send the same event twice and check idempotency.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { hmacSha256Hex } from '../_shared/razorpay.ts'
+
+const PORT = Number(Deno.env.get('STUB_PORT') || 8787)
+const KEY_ID = Deno.env.get('RAZORPAY_KEY_ID') || 'rzp_test_stub'
+const KEY_SECRET = Deno.env.get('RAZORPAY_KEY_SECRET') || 'stub_key_secret'
+const WEBHOOK_SECRET = Deno.env.get('RAZORPAY_WEBHOOK_SECRET') || 'stub_webhook_secret'
+const WEBHOOK_URL = Deno.env.get('STUB_WEBHOOK_URL') || 'http://localhost:54321/functions/v1/razorpay-webhook'
+
+interface StubOrder {
+  id: string
+  entity: 'order'
+  amount: number
+  amount_paid: number
+  currency: string
+  receipt: string | null
+  notes: Record<string, string>
+  status: 'created' | 'attempted' | 'paid'
+  created_at: number
+}
+
+const orders = new Map<string, StubOrder>()
+
+const randomId = (prefix: string) =>
+  `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 14)}`
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const gatewayError = (status: number, description: string) =>
+  json({ error: { code: 'BAD_REQUEST_ERROR', description } }, status)
+
+const isAuthorized = (req: Request) =>
+  req.headers.get('Authorization') === `Basic ${btoa(`${KEY_ID}:${KEY_SECRET}`)}`
+
+async function deliverWebhook(order: StubOrder, paymentId: string) {
+  const event = {
+    entity: 'event',
+    event: 'payment.captured',
+    payload: {
+      payment: {
+        entity: {
+          id: paymentId,
+          entity: 'payment',
+          order_id: order.id,
+          amount: order.amount,
+          currency: order.currency,
+          status: 'captured',
+          notes: order.notes
+        }
+      }
+    },
+    created_at: Math.floor(Date.now() / 1000)
+  }
+  const body = JSON.stringify(event)
+
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Razorpay-Signature': await hmacSha256Hex(WEBHOOK_SECRET, body),
+      'X-Razorpay-Event-Id': `evt_${paymentId}`
+    },
+    body
+  })
+
+  return { status: response.status, body: await response.text() }
+}
+
+serve(async (req) => {
+  const url = new URL(req.url)
+  const path = url.pathname
+
+  // Razorpay API: create and fetch orders
+  if (path === '/v1/orders' && req.method === 'POST') {
+    if (!isAuthorized(req)) return gatewayError(401, 'Authentication failed')
+
+    const { amount, currency = 'INR', receipt = null, notes = {} } = await req.json()
+    if (!Number.isInteger(amount) || amount < 100) {
+      return gatewayError(400, 'The amount must be an integer of at least 100 paise')
+    }
+
+    const order: StubOrder = {
+      id: randomId('order'),
+      entity: 'order',
+      amount,
+      amount_paid: 0,
+      currency,
+      receipt,
+      notes,
+      status: 'created',
+      created_at: Math.floor(Date.now() / 1000)
+    }
+    orders.set(order.id, order)
+    return json(order)
+  }
+
+  const orderMatch = path.match(/^\/v1\/orders\/([^/]+)$/)
+  if (orderMatch && req.method === 'GET') {
+    if (!isAuthorized(req)) return gatewayError(401, 'Authentication failed')
+
+    const order = orders.get(orderMatch[1])
+    return order ? json(order) : gatewayError(400, 'The id provided does not exist')
+  }
+
+  // Test control: pay an order as the customer would in Razorpay Checkout
+  const payMatch = path.match(/^\/_stub\/orders\/([^/]+)\/pay$/)
+  if (payMatch && req.method === 'POST') {
+    const order = orders.get(payMatch[1])
+    if (!order) return gatewayError(400, 'The id provided does not exist')
+
+    const paymentId = randomId('pay')
+    order.status = 'paid'
+    order.amount_paid = order.amount
+
+    const deliveries = Math.max(0, Number(url.searchParams.get('deliveries') ?? 1))
+    const webhooks = []
+    for (let i = 0; i < deliveries; i++) {
+      try {
+        webhooks.push(await deliverWebhook(order, paymentId))
+      } catch (error) {
+        webhooks.push({ status: 0, body: String(error) })
+      }
+    }
+
+    return json({
+      razorpay_order_id: order.id,
+      razorpay_payment_id: paymentId,
+      razorpay_signature: await hmacSha256Hex(KEY_SECRET, `${order.id}|${paymentId}`),
+      order_id: order.notes.order_id ?? null,
+      webhooks
+    })
+  }
+
+  return gatewayError(404, `No stub route for ${req.method} ${path}`)
+}, { port: PORT })
+
+console.log(`Razorpay stub gateway listening on http://localhost:${PORT}`)
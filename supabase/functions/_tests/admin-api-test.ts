@@ -0,0 +1,370 @@
+// admin-api: session checks, the table allowlist, admin secrets, role
+// permissions and the admin recorded on changes. See helpers.ts for running
+// these against a local stack.
+
+import { assert, assertEquals, assertMatch } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { ADMIN_SECRET_COLUMNS } from '../_shared/admin-session.ts'
+import {
+  adminQuery,
+  callFunction,
+  createTestAdmin,
+  currentTotpCode,
+  deactivateTestAdmins,
+  serviceClient,
+  signIn,
+  TEST_PASSWORD
+} from './helpers.ts'
+
+// supabase-js keeps connections open between tests
+const testOptions = { sanitizeOps: false, sanitizeResources: false }
+
+Deno.test('admin-api refuses calls without a live session', testOptions, async (t) => {
+  const admin = await createTestAdmin('admin')
+  const twoFactorAdmin = await createTestAdmin('admin', { twoFactor: true })
+
+  try {
+    await t.step('no session header', async () => {
+      const result = await callFunction('admin-api', { action: 'session' })
+      assertEquals(result.status, 401)
+      assertEquals(result.success, false)
+    })
+
+    await t.step('forged token', async () => {
+      const token = await signIn(admin)
+      const [payload] = token.split('.')
+      const result = await callFunction('admin-api', { action: 'session' }, `${payload}.${'0'.repeat(64)}`)
+      assertEquals(result.status, 401)
+    })
+
+    await t.step('two-factor challenge used as a session token', async () => {
+      const login = await callFunction('admin-login', { action: 'login', email: twoFactorAdmin.email, password: TEST_PASSWORD })
+      const { challenge } = login.data as { challenge: string }
+      const result = await callFunction('admin-api', { action: 'session' }, challenge)
+      assertEquals(result.status, 401)
+    })
+
+    await t.step('token of a deactivated admin', async () => {
+      const token = await signIn(admin)
+      await deactivateTestAdmins(admin)
+      const result = await callFunction('admin-api', { action: 'session' }, token)
+      assertEquals(result.status, 401)
+    })
+
+    // Keeps the challenge step honest: a real code does sign in
+    await t.step('the same admin passes with a code', async () => {
+      const login = await callFunction('admin-login', { action: 'login', email: twoFactorAdmin.email, password: TEST_PASSWORD })
+      const { challenge } = login.data as { challenge: string }
+      const verified = await callFunction('admin-login', { action: 'verify-2fa', challenge, code: await currentTotpCode() })
+      assertEquals(verified.status, 200, verified.error ?? undefined)
+    })
+  } finally {
+    await deactivateTestAdmins(admin, twoFactorAdmin)
+  }
+})
+
+Deno.test('admin-api only serves allowlisted tables and functions', testOptions, async (t) => {
+  const superAdmin = await createTestAdmin('super_admin')
+
+  try {
+    const token = await signIn(superAdmin)
+
+    await t.step('table outside the allowlist', async () => {
+      const result = await adminQuery(token, { table: 'admin_sessions', operation: 'select', columns: 'id' })
+      assertEquals(result.status, 403)
+    })
+
+    await t.step('schema-qualified table', async () => {
+      const result = await adminQuery(token, { table: 'auth.users', operation: 'select', columns: 'id' })
+      assertEquals(result.status, 403)
+    })
+
+    await t.step('allowlisted table embedding admins', async () => {
+      const result = await adminQuery(token, { table: 'orders', operation: 'select', columns: 'id, admins(email)' })
+      assertEquals(result.status, 403)
+    })
+
+    await t.step('unsupported query step', async () => {
+      const result = await adminQuery(token, {
+        table: 'orders',
+        operation: 'select',
+        columns: 'id',
+        steps: [{ method: 'csv', args: [] }]
+      })
+      assertEquals(result.status, 400)
+    })
+
+    await t.step('function outside the allowlist', async () => {
+      const result = await callFunction('admin-api', { action: 'rpc', fn: 'create_user_profile', args: {} }, token)
+      assertEquals(result.status, 403)
+    })
+
+    await t.step('allowlisted table', async () => {
+      const result = await adminQuery(token, { table: 'orders', operation: 'select', columns: 'id', steps: [{ method: 'limit', args: [1] }] })
+      assertEquals(result.status, 200, result.error ?? undefined)
+    })
+  } finally {
+    await deactivateTestAdmins(superAdmin)
+  }
+})
+
+Deno.test('admin-api never returns admin secrets', testOptions, async (t) => {
+  const superAdmin = await createTestAdmin('super_admin', { twoFactor: true })
+
+  try {
+    const login = await callFunction('admin-login', { action: 'login', email: superAdmin.email, password: TEST_PASSWORD })
+    const { challenge } = login.data as { challenge: string }
+    const verified = await callFunction('admin-login', { action: 'verify-2fa', challenge, code: await currentTotpCode() })
+    const { token } = verified.data as { token: string }
+
+    for (const column of ADMIN_SECRET_COLUMNS) {
+      await t.step(`selecting ${column}`, async () => {
+        const result = await adminQuery(token, { table: 'admins', operation: 'select', columns: `id, ${column}` })
+        assertEquals(result.status, 403)
+      })
+    }
+
+    await t.step('select * on admins', async () => {
+      const result = await adminQuery(token, { table: 'admins', operation: 'select', columns: '*' })
+      assertEquals(result.status, 403)
+    })
+
+    await t.step('filtering on a secret column', async () => {
+      const result = await adminQuery(token, {
+        table: 'admins',
+        operation: 'select',
+        columns: 'id',
+        steps: [{ method: 'or', args: ['password_hash.like.a%,totp_secret.like.A%'] }]
+      })
+      assertEquals(result.status, 403)
+    })
+
+    await t.step('writing a secret column', async () => {
+      const result = await adminQuery(token, {
+        table: 'admins',
+        operation: 'update',
+        values: { totp_secret: null },
+        steps: [{ method: 'eq', args: ['id', superAdmin.id] }]
+      })
+      assertEquals(result.status, 403)
+    })
+
+    await t.step('public columns come back without secrets', async () => {
+      const result = await adminQuery(token, { table: 'admins', operation: 'select', columns: 'id, email, role, totp_enabled_at' })
+      assertEquals(result.status, 200, result.error ?? undefined)
+      for (const row of result.data as Record<string, unknown>[]) {
+        ADMIN_SECRET_COLUMNS.forEach((column) => assert(!(column in row), `${column} returned`))
+      }
+    })
+
+    await t.step('session and two-factor status', async () => {
+      for (const action of ['session', 'two-factor-status']) {
+        const result = await callFunction('admin-api', { action }, token)
+        assertEquals(result.status, 200, result.error ?? undefined)
+        const body = JSON.stringify(result.data)
+        ADMIN_SECRET_COLUMNS.forEach((column) => assert(!body.includes(column), `${action} returned ${column}`))
+      }
+    })
+  } finally {
+    await deactivateTestAdmins(superAdmin)
+  }
+})
+
+Deno.test('admin-api enforces role permissions', testOptions, async (t) => {
+  const verifier = await createTestAdmin('payments_verifier')
+  const support = await createTestAdmin('support')
+  const fulfilment = await createTestAdmin('order_fulfilment')
+  const superAdmin = await createTestAdmin('super_admin')
+  const catalog = await createTestAdmin('catalog_manager')
+  const missingId = crypto.randomUUID()
+
+  try {
+    const [verifierToken, supportToken, fulfilmentToken, superToken, catalogToken] = await Promise.all(
+      [verifier, support, fulfilment, superAdmin, catalog].map(signIn)
+    )
+
+    for (const table of ['user_profiles', 'withdrawal_requests', 'subscription_requests', 'upi_payment_notifications', 'refunds']) {
+      await t.step(`member data in ${table} needs a view permission`, async () => {
+        const result = await adminQuery(catalogToken, { table, operation: 'select', columns: 'id' })
+        assertEquals(result.status, 403)
+      })
+    }
+
+    await t.step('orders without the customer behind them', async () => {
+      const orders = await adminQuery(catalogToken, { table: 'orders', operation: 'select', columns: 'id', steps: [{ method: 'limit', args: [1] }] })
+      assertEquals(orders.status, 200, orders.error ?? undefined)
+
+      const embedded = await adminQuery(catalogToken, { table: 'orders', operation: 'select', columns: 'id, user_profiles(email)' })
+      assertEquals(embedded.status, 403)
+    })
+
+    await t.step('reading a restricted table', async () => {
+      const result = await adminQuery(fulfilmentToken, { table: 'admin_audit_log', operation: 'select', columns: 'id' })
+      assertEquals(result.status, 403)
+      assertMatch(result.error ?? '', /cannot view admin_audit_log/)
+    })
+
+    await t.step('embedding a restricted table', async () => {
+      const result = await adminQuery(fulfilmentToken, { table: 'user_profiles', operation: 'select', columns: 'id, kyc_documents(id)' })
+      assertEquals(result.status, 403)
+    })
+
+    await t.step('changing a table without its write permission', async () => {
+      const result = await adminQuery(fulfilmentToken, {
+        table: 'withdrawal_requests',
+        operation: 'update',
+        values: { status: 'approved' },
+        steps: [{ method: 'eq', args: ['id', missingId] }]
+      })
+      assertEquals(result.status, 403)
+    })
+
+    await t.step('subscription approvers cannot edit profiles', async () => {
+      const result = await adminQuery(verifierToken, {
+        table: 'user_profiles',
+        operation: 'update',
+        values: { subscription_status: 'active' },
+        steps: [{ method: 'eq', args: ['id', missingId] }]
+      })
+      assertEquals(result.status, 403)
+    })
+
+    for (const values of [{ available_balance: 1000 }, { total_earnings: 1000 }, { referred_by: missingId }]) {
+      await t.step(`profile edits cannot set ${Object.keys(values)[0]}`, async () => {
+        const result = await adminQuery(superToken, {
+          table: 'user_profiles',
+          operation: 'update',
+          values,
+          steps: [{ method: 'eq', args: ['id', missingId] }]
+        })
+        assertEquals(result.status, 403)
+      })
+    }
+
+    await t.step('support can correct member details', async () => {
+      const result = await adminQuery(supportToken, {
+        table: 'user_profiles',
+        operation: 'update',
+        values: { full_name: 'Corrected Name' },
+        steps: [{ method: 'eq', args: ['id', missingId] }]
+      })
+      assertEquals(result.status, 200, result.error ?? undefined)
+    })
+
+    await t.step('deleting needs more than writing', async () => {
+      const result = await adminQuery(supportToken, {
+        table: 'user_profiles',
+        operation: 'delete',
+        steps: [{ method: 'eq', args: ['id', missingId] }]
+      })
+      assertEquals(result.status, 403)
+    })
+
+    await t.step('calling a function without its permission', async () => {
+      const result = await callFunction('admin-api', {
+        action: 'rpc',
+        fn: 'admin_adjust_wallet',
+        args: { profile_id_param: missingId }
+      }, supportToken)
+      assertEquals(result.status, 403)
+    })
+
+    await t.step('managing admins', async () => {
+      const created = await callFunction('admin-api', {
+        action: 'create-admin',
+        email: `test-created-${crypto.randomUUID()}@example.test`,
+        password: TEST_PASSWORD,
+        role: 'super_admin'
+      }, verifierToken)
+      assertEquals(created.status, 403)
+
+      const roleChange = await adminQuery(verifierToken, {
+        table: 'admins',
+        operation: 'update',
+        values: { role: 'super_admin' },
+        steps: [{ method: 'eq', args: ['id', verifier.id] }]
+      })
+      assertEquals(roleChange.status, 403)
+    })
+
+    await t.step('admins cannot change their own role', async () => {
+      const result = await adminQuery(superToken, {
+        table: 'admins',
+        operation: 'update',
+        values: { role: 'support' },
+        steps: [{ method: 'eq', args: ['id', superAdmin.id] }]
+      })
+      assertEquals(result.status, 403)
+    })
+  } finally {
+    await deactivateTestAdmins(verifier, support, fulfilment, superAdmin, catalog)
+  }
+})
+
+Deno.test('admin-api records the signed-in admin on changes', testOptions, async (t) => {
+  const finance = await createTestAdmin('finance')
+  const forgedId = crypto.randomUUID()
+  let importId: string | null = null
+
+  try {
+    const token = await signIn(finance)
+
+    await t.step('inserted rows name the signed-in admin', async () => {
+      const result = await adminQuery(token, {
+        table: 'bank_statement_imports',
+        operation: 'insert',
+        values: { file_name: 'admin-api-test.csv', imported_by: forgedId },
+        steps: [{ method: 'select', args: ['id, imported_by'] }, { method: 'single', args: [] }]
+      })
+      assertEquals(result.status, 200, result.error ?? undefined)
+      const row = result.data as { id: string; imported_by: string }
+      importId = row.id
+      assertEquals(row.imported_by, finance.id)
+    })
+
+    let entryId = ''
+    await t.step('reviewing a row names the signed-in admin', async () => {
+      const result = await adminQuery(token, {
+        table: 'bank_statement_entries',
+        operation: 'insert',
+        values: {
+          import_id: importId,
+          transaction_date: new Date().toISOString(),
+          amount: 1,
+          status: 'ignored',
+          reviewed_by: forgedId,
+          reviewed_at: new Date().toISOString()
+        },
+        steps: [{ method: 'select', args: ['id, reviewed_by'] }, { method: 'single', args: [] }]
+      })
+      assertEquals(result.status, 200, result.error ?? undefined)
+      const row = result.data as { id: string; reviewed_by: string }
+      entryId = row.id
+      assertEquals(row.reviewed_by, finance.id)
+    })
+
+    await t.step('clearing the review clears the admin', async () => {
+      const result = await adminQuery(token, {
+        table: 'bank_statement_entries',
+        operation: 'update',
+        values: { status: 'needs_review', reviewed_by: forgedId, reviewed_at: null },
+        steps: [{ method: 'eq', args: ['id', entryId] }, { method: 'select', args: ['reviewed_by'] }, { method: 'single', args: [] }]
+      })
+      assertEquals(result.status, 200, result.error ?? undefined)
+      assertEquals((result.data as { reviewed_by: string | null }).reviewed_by, null)
+    })
+
+    await t.step('other changes cannot set the admin', async () => {
+      const result = await adminQuery(token, {
+        table: 'bank_statement_entries',
+        operation: 'update',
+        values: { match_reason: 'Checked', reviewed_by: forgedId },
+        steps: [{ method: 'eq', args: ['id', entryId] }, { method: 'select', args: ['reviewed_by'] }, { method: 'single', args: [] }]
+      })
+      assertEquals(result.status, 200, result.error ?? undefined)
+      assertEquals((result.data as { reviewed_by: string | null }).reviewed_by, null)
+    })
+  } finally {
+    if (importId) await serviceClient.from('bank_statement_imports').delete().eq('id', importId)
+    await deactivateTestAdmins(finance)
+  }
+})
@@ -0,0 +1,239 @@
+// admin-login: password sign-in, token refresh, sign-out, and the two-factor
+// step's lockout and replay protection. See helpers.ts for running these
+// against a local stack.
+
+import { assert, assertEquals, assertExists } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { ADMIN_SECRET_COLUMNS } from '../_shared/admin-session.ts'
+import { currentTotpStep } from '../_shared/admin-totp.ts'
+import {
+  callFunction,
+  createTestAdmin,
+  currentTotpCode,
+  deactivateTestAdmins,
+  serviceClient,
+  signIn,
+  TEST_PASSWORD,
+  type TestAdmin
+} from './helpers.ts'
+
+// supabase-js keeps connections open between tests
+const testOptions = { sanitizeOps: false, sanitizeResources: false }
+
+// Tokens carry their expiry in whole seconds; wait so a refresh cannot
+// produce the same token
+const nextSecond = () => new Promise((resolve) => setTimeout(resolve, 1100))
+
+const isLive = async (token: string) => (await callFunction('admin-api', { action: 'session' }, token)).status === 200
+
+const startTwoFactorSignIn = async (admin: TestAdmin): Promise<string> => {
+  const login = await callFunction('admin-login', { action: 'login', email: admin.email, password: TEST_PASSWORD })
+  assertEquals(login.status, 200, login.error ?? undefined)
+  const data = login.data as { twoFactor: string; challenge: string; token?: string }
+  assertEquals(data.twoFactor, 'verify')
+  assertEquals(data.token, undefined)
+  return data.challenge
+}
+
+Deno.test('admin-login signs in with the password', testOptions, async (t) => {
+  const admin = await createTestAdmin('support')
+
+  try {
+    await t.step('wrong password and unknown email get the same answer', async () => {
+      const wrongPassword = await callFunction('admin-login', { action: 'login', email: admin.email, password: 'not-the-password' })
+      const unknownEmail = await callFunction('admin-login', { action: 'login', email: `nobody-${crypto.randomUUID()}@example.test`, password: TEST_PASSWORD })
+      assertEquals(wrongPassword.status, 401)
+      assertEquals(unknownEmail.status, 401)
+      assertEquals(wrongPassword.error, unknownEmail.error)
+    })
+
+    await t.step('missing fields', async () => {
+      const result = await callFunction('admin-login', { action: 'login', email: admin.email })
+      assertEquals(result.status, 400)
+    })
+
+    await t.step('correct password issues a working session', async () => {
+      const result = await callFunction('admin-login', { action: 'login', email: admin.email, password: TEST_PASSWORD })
+      assertEquals(result.status, 200, result.error ?? undefined)
+
+      const data = result.data as { token: string; expiresAt: string; sessionExpiresAt: string; admin: Record<string, unknown> }
+      assertExists(data.token)
+      assert(new Date(data.expiresAt) <= new Date(data.sessionExpiresAt))
+      assertEquals(data.admin.role, 'support')
+      assert(Array.isArray(data.admin.permissions))
+      ADMIN_SECRET_COLUMNS.forEach((column) => assert(!(column in data.admin), `${column} returned`))
+
+      assert(await isLive(data.token))
+    })
+
+    await t.step('deactivated admins cannot sign in', async () => {
+      await deactivateTestAdmins(admin)
+      const result = await callFunction('admin-login', { action: 'login', email: admin.email, password: TEST_PASSWORD })
+      assertEquals(result.status, 401)
+    })
+  } finally {
+    await deactivateTestAdmins(admin)
+  }
+})
+
+Deno.test('admin-login refreshes and revokes sessions', testOptions, async (t) => {
+  const admin = await createTestAdmin('support')
+
+  try {
+    await t.step('refresh replaces the token', async () => {
+      const token = await signIn(admin)
+      await nextSecond()
+
+      const refreshed = await callFunction('admin-login', { action: 'refresh' }, token)
+      assertEquals(refreshed.status, 200, refreshed.error ?? undefined)
+      const { token: newToken } = refreshed.data as { token: string }
+      assert(newToken !== token)
+
+      assert(await isLive(newToken))
+      assert(!(await isLive(token)), 'the old token still works')
+
+      const again = await callFunction('admin-login', { action: 'refresh' }, token)
+      assertEquals(again.status, 401)
+    })
+
+    await t.step('refresh without a token', async () => {
+      const result = await callFunction('admin-login', { action: 'refresh' })
+      assertEquals(result.status, 401)
+    })
+
+    await t.step('logout ends the session', async () => {
+      const token = await signIn(admin)
+      const other = await signIn(admin)
+
+      const result = await callFunction('admin-login', { action: 'logout' }, token)
+      assertEquals(result.status, 200, result.error ?? undefined)
+
+      assert(!(await isLive(token)), 'the token still works after logout')
+      assertEquals((await callFunction('admin-login', { action: 'refresh' }, token)).status, 401)
+
+      // Other sessions of the same admin are untouched
+      assert(await isLive(other))
+    })
+
+    await t.step('sessions ended from the dashboard', async () => {
+      const token = await signIn(admin)
+      const other = await signIn(admin)
+
+      const result = await callFunction('admin-api', { action: 'revoke-sessions', adminId: admin.id, keepCurrent: true }, token)
+      assertEquals(result.status, 200, result.error ?? undefined)
+
+      assert(await isLive(token))
+      assert(!(await isLive(other)), 'a revoked session still works')
+      assertEquals((await callFunction('admin-login', { action: 'refresh' }, other)).status, 401)
+    })
+  } finally {
+    await deactivateTestAdmins(admin)
+  }
+})
+
+Deno.test('admin-login verify-2fa refuses replayed codes', testOptions, async (t) => {
+  const admin = await createTestAdmin('support', { twoFactor: true })
+
+  try {
+    const code = await currentTotpCode()
+
+    await t.step('the password alone gives no session', async () => {
+      const challenge = await startTwoFactorSignIn(admin)
+      assert(!(await isLive(challenge)))
+    })
+
+    await t.step('a code from the app signs in once', async () => {
+      const first = await callFunction('admin-login', { action: 'verify-2fa', challenge: await startTwoFactorSignIn(admin), code })
+      assertEquals(first.status, 200, first.error ?? undefined)
+      assert(await isLive((first.data as { token: string }).token))
+
+      const replay = await callFunction('admin-login', { action: 'verify-2fa', challenge: await startTwoFactorSignIn(admin), code })
+      assertEquals(replay.status, 401)
+    })
+
+    await t.step('concurrent requests with one code open one session', async () => {
+      // Wait for the next time step so there is an unused code
+      const { data, error } = await serviceClient.from('admins').select('totp_last_step').eq('id', admin.id).single()
+      if (error) throw error
+      while (currentTotpStep() <= (data.totp_last_step ?? -1)) await nextSecond()
+
+      const fresh = await currentTotpCode()
+      const challenges = await Promise.all([startTwoFactorSignIn(admin), startTwoFactorSignIn(admin)])
+      const results = await Promise.all(
+        challenges.map((challenge) => callFunction('admin-login', { action: 'verify-2fa', challenge, code: fresh }))
+      )
+      assertEquals(results.filter((result) => result.status === 200).length, 1)
+    })
+
+    await t.step('a backup code works once', async () => {
+      const [backupCode] = admin.backupCodes
+
+      const first = await callFunction('admin-login', { action: 'verify-2fa', challenge: await startTwoFactorSignIn(admin), code: backupCode })
+      assertEquals(first.status, 200, first.error ?? undefined)
+      assertEquals((first.data as { backupCodesRemaining: number }).backupCodesRemaining, admin.backupCodes.length - 1)
+
+      const replay = await callFunction('admin-login', { action: 'verify-2fa', challenge: await startTwoFactorSignIn(admin), code: backupCode })
+      assertEquals(replay.status, 401)
+    })
+
+    await t.step('a forged challenge', async () => {
+      const challenge = await startTwoFactorSignIn(admin)
+      const [payload] = challenge.split('.')
+      const forged = await callFunction('admin-login', { action: 'verify-2fa', challenge: `${payload}.${'0'.repeat(64)}`, code: admin.backupCodes[1] })
+      assertEquals(forged.status, 401)
+    })
+  } finally {
+    await deactivateTestAdmins(admin)
+  }
+})
+
+Deno.test('admin-login verify-2fa locks after repeated wrong codes', testOptions, async (t) => {
+  const admin = await createTestAdmin('support', { twoFactor: true })
+
+  try {
+    await t.step('four wrong codes are refused', async () => {
+      for (let attempt = 1; attempt <= 4; attempt++) {
+        const result = await callFunction('admin-login', { action: 'verify-2fa', challenge: await startTwoFactorSignIn(admin), code: '000000' })
+        assertEquals(result.status, 401, `attempt ${attempt}`)
+      }
+    })
+
+    await t.step('the fifth locks code entry', async () => {
+      const result = await callFunction('admin-login', { action: 'verify-2fa', challenge: await startTwoFactorSignIn(admin), code: '000000' })
+      assertEquals(result.status, 429)
+    })
+
+    await t.step('correct codes are refused while locked', async () => {
+      const appCode = await callFunction('admin-login', {
+        action: 'verify-2fa',
+        challenge: await startTwoFactorSignIn(admin),
+        code: await currentTotpCode()
+      })
+      assertEquals(appCode.status, 429)
+
+      const backupCode = await callFunction('admin-login', {
+        action: 'verify-2fa',
+        challenge: await startTwoFactorSignIn(admin),
+        code: admin.backupCodes[0]
+      })
+      assertEquals(backupCode.status, 429)
+    })
+
+    await t.step('the lock lifts after it expires', async () => {
+      // Wind the lock back rather than waiting 15 minutes
+      const { error } = await serviceClient
+        .from('admins')
+        .update({ totp_locked_until: new Date(Date.now() - 1000).toISOString() })
+        .eq('id', admin.id)
+      if (error) throw error
+
+      const result = await callFunction('admin-login', {
+        action: 'verify-2fa',
+        challenge: await startTwoFactorSignIn(admin),
+        code: await currentTotpCode()
+      })
+      assertEquals(result.status, 200, result.error ?? undefined)
+    })
+  } finally {
+    await deactivateTestAdmins(admin)
+  }
+})
@@ -0,0 +1,109 @@
+// Shared setup for the admin function tests. The tests call the functions
+// served by a local stack, so start one first:
+//
+//   supabase start
+//   supabase functions serve --env-file <file setting ADMIN_SESSION_SECRET>
+//   SUPABASE_URL=http://localhost:54321 SUPABASE_ANON_KEY=<anon key> SUPABASE_SERVICE_ROLE_KEY=<service role key> \
+//     deno test --allow-net --allow-env supabase/functions/_tests/
+//
+// The keys are printed by `supabase status`. Each test creates its own admins
+// with random emails and deactivates them when done; admins are never
+// deleted because the audit log keeps pointing at them.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { ADMIN_SESSION_HEADER, hashAdminPassword } from '../_shared/admin-session.ts'
+import { currentTotpStep, generateBackupCodes, totpCode } from '../_shared/admin-totp.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? 'http://localhost:54321'
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+
+export const TEST_PASSWORD = 'Test-Passw0rd!'
+
+// The RFC 6238 test secret, so codes can be worked out here
+export const TEST_TOTP_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+export const serviceClient = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '', {
+  auth: { autoRefreshToken: false, persistSession: false }
+})
+
+export interface FunctionResult {
+  status: number
+  success: boolean
+  data: unknown
+  error: string | null
+}
+
+export interface TestAdmin {
+  id: string
+  email: string
+  // Set for admins created with two-factor authentication on
+  backupCodes: string[]
+}
+
+// POSTs to a served function the way the dashboard does
+export async function callFunction(
+  fn: 'admin-login' | 'admin-api',
+  body: Record<string, unknown>,
+  token?: string
+): Promise<FunctionResult> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/${fn}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+      ...(token ? { [ADMIN_SESSION_HEADER]: token } : {})
+    },
+    body: JSON.stringify(body)
+  })
+
+  const json = await response.json()
+  return { status: response.status, success: !!json.success, data: json.data ?? null, error: json.error ?? null }
+}
+
+export const adminQuery = (token: string, query: Record<string, unknown>) =>
+  callFunction('admin-api', { action: 'query', query: { steps: [], ...query } }, token)
+
+export async function createTestAdmin(role: string, { twoFactor = false } = {}): Promise<TestAdmin> {
+  const email = `test-${role}-${crypto.randomUUID()}@example.test`
+  const { hash, salt } = await hashAdminPassword(TEST_PASSWORD)
+  const { codes, hashes } = await generateBackupCodes()
+
+  const { data, error } = await serviceClient
+    .from('admins')
+    .insert({
+      email,
+      password_hash: hash,
+      password_salt: salt,
+      full_name: `Test ${role}`,
+      role,
+      is_active: true,
+      ...(twoFactor
+        ? { totp_secret: TEST_TOTP_SECRET, totp_enabled_at: new Date().toISOString(), totp_backup_codes: hashes }
+        : {})
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+  return { id: data.id, email, backupCodes: twoFactor ? codes : [] }
+}
+
+export async function deactivateTestAdmins(...admins: TestAdmin[]) {
+  const { error } = await serviceClient
+    .from('admins')
+    .update({ is_active: false })
+    .in('id', admins.map((admin) => admin.id))
+
+  if (error) throw error
+}
+
+// Signs in with the password and returns the session token
+export async function signIn(admin: TestAdmin): Promise<string> {
+  const result = await callFunction('admin-login', { action: 'login', email: admin.email, password: TEST_PASSWORD })
+  assertEquals(result.status, 200, result.error ?? undefined)
+  return (result.data as { token: string }).token
+}
+
+// The authenticator app's code right now
+export const currentTotpCode = () => totpCode(TEST_TOTP_SECRET, currentTotpStep())
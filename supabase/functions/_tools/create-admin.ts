@@ -0,0 +1,55 @@
+// Creates an admin account from the command line, for the first admin of a
+// new project (later admins are added from the dashboard). Folders starting
+// with "_" are not deployed by the Supabase CLI.
+//
+//   SUPABASE_URL=https://<project-ref>.supabase.co SUPABASE_SERVICE_ROLE_KEY=<service role key> \
+//     deno run --allow-net --allow-env supabase/functions/_tools/create-admin.ts <email> <password> [full name] [--super]
+//
+// The service role key stays on the machine running the script; it is never
+// part of the app build.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ADMIN_PUBLIC_COLUMNS, hashAdminPassword } from '../_shared/admin-session.ts'
+
+const args = Deno.args.filter((arg) => arg !== '--super')
+const [email, password, fullName] = args
+const role = Deno.args.includes('--super') ? 'super_admin' : 'admin'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+if (!email || !password || !supabaseUrl || !serviceRoleKey) {
+  console.error('Usage: SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... create-admin.ts <email> <password> [full name] [--super]')
+  Deno.exit(1)
+}
+
+if (password.length < 8) {
+  console.error('Password must be at least 8 characters long')
+  Deno.exit(1)
+}
+
+const client = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { autoRefreshToken: false, persistSession: false }
+})
+
+const { hash, salt } = await hashAdminPassword(password)
+
+const { data, error } = await client
+  .from('admins')
+  .insert({
+    email: email.trim(),
+    password_hash: hash,
+    password_salt: salt,
+    full_name: fullName || null,
+    role,
+    is_active: true
+  })
+  .select(ADMIN_PUBLIC_COLUMNS)
+  .single()
+
+if (error) {
+  console.error('Failed to create admin:', error.message)
+  Deno.exit(1)
+}
+
+console.log('Admin created:', data)
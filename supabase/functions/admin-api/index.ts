@@ -0,0 +1,982 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  ADMIN_PUBLIC_COLUMNS,
+  ADMIN_SECRET_COLUMNS,
+  getAdminSession,
+  hasAdminPermission,
+  hashAdminPassword,
+  type AdminRecord,
+  type AdminSession
+} from '../_shared/admin-session.ts'
+import {
+  clearAdminTwoFactor,
+  confirmTotpEnrolment,
+  generateBackupCodes,
+  startTotpEnrolment,
+  verifyAdminSecondFactor
+} from '../_shared/admin-totp.ts'
+import { adminAuditActor, recordAdminAudit, type AdminAuditActor } from '../_shared/admin-audit.ts'
+
+// Every admin dashboard operation that needs the service role runs here.
+// The dashboard signs in through admin-login and sends the returned token in
+// the X-Admin-Session header; every call is refused without a live session.
+//
+// Trying it against a local stack:
+//
+//   supabase start
+//   supabase functions serve --env-file <file setting ADMIN_SESSION_SECRET>
+//   SUPABASE_URL=http://localhost:54321 SUPABASE_SERVICE_ROLE_KEY=<from supabase status> \
+//     deno run --allow-net --allow-env supabase/functions/_tools/create-admin.ts admin@example.com 'Str0ng!Pass' 'Admin'
+//
+//   curl -X POST http://localhost:54321/functions/v1/admin-login \
+//     -H "Authorization: Bearer $ANON_KEY" -H 'Content-Type: application/json' \
+//     -d '{"action":"login","email":"admin@example.com","password":"Str0ng!Pass"}'
+//
+//   curl -X POST http://localhost:54321/functions/v1/admin-api \
+//     -H "Authorization: Bearer $ANON_KEY" -H "X-Admin-Session: $TOKEN" -H 'Content-Type: application/json' \
+//     -d '{"action":"query","query":{"table":"orders","operation":"select","columns":"id, status","steps":[{"method":"limit","args":[5]}]}}'
+//
+// Every change is written to admin_audit_log with the row before and after.
+// Columns and function arguments naming the admin behind a change
+// (reviewed_by, processed_by, admin_id_param and the like) are set to the
+// signed-in admin here, whatever the dashboard sent.
+//
+// Without the header, with an expired, refreshed or revoked token, or for a
+// deactivated admin the function answers 401; queries on tables outside
+// ADMIN_TABLES, touching admin password or two-factor secret columns, or
+// needing a permission the admin's role lacks (see admin_roles) answer 403.
+
+type QueryOperation = 'select' | 'insert' | 'update' | 'upsert' | 'delete'
+
+interface QueryStep {
+  method: string
+  args: unknown[]
+}
+
+interface AdminQuery {
+  table: string
+  operation: QueryOperation
+  columns?: string
+  values?: unknown
+  options?: Record<string, unknown>
+  steps: QueryStep[]
+}
+
+interface QueryResult {
+  data: unknown
+  error: { message: string; code?: string; details?: string; hint?: string } | null
+  count?: number | null
+}
+
+// supabase-js builders, driven by method name from the recorded steps
+type QueryBuilder = PromiseLike<QueryResult> & Record<string, (...args: unknown[]) => QueryBuilder>
+
+type AuditRow = Record<string, unknown>
+
+// Tables the dashboard reads and writes
+const ADMIN_TABLES = [
+  'admin_audit_log',
+  'admin_roles',
+  'admins',
+  'bank_statement_entries',
+  'bank_statement_imports',
+  'fraud_flags',
+  'kyc_documents',
+  'order_cancellation_requests',
+  'order_items',
+  'order_status_history',
+  'orders',
+  'payment_intents',
+  'payout_accounts',
+  'payout_batches',
+  'products',
+  'referral_commissions',
+  'refunds',
+  'stock_movements',
+  'stock_reservations',
+  'subscription_plans',
+  'subscription_requests',
+  'system_settings',
+  'upi_payment_notifications',
+  'user_profiles',
+  'user_subscriptions',
+  'wallet_drift',
+  'withdrawal_requests'
+]
+
+// Tables only some roles may read, with the permissions that allow it
+// (any one of them), also when embedded in another table's select. The
+// catalogue, stock, plans and settings need just a live session.
+const TABLE_READ_PERMISSIONS: Record<string, string[]> = {
+  admin_audit_log: ['audit.view'],
+  bank_statement_entries: ['reconciliation.manage'],
+  bank_statement_imports: ['reconciliation.manage'],
+  fraud_flags: ['fraud.view', 'fraud.review'],
+  kyc_documents: ['kyc.view', 'kyc.review'],
+  order_cancellation_requests: ['orders.view', 'refunds.manage'],
+  order_items: ['orders.view', 'analytics.view'],
+  order_status_history: ['orders.view'],
+  orders: ['orders.view', 'analytics.view'],
+  payment_intents: ['payments.view', 'reconciliation.manage'],
+  payout_accounts: ['kyc.view', 'kyc.review', 'withdrawals.view', 'payouts.manage'],
+  payout_batches: ['withdrawals.view', 'payouts.manage'],
+  referral_commissions: ['referrals.view', 'fraud.view', 'wallet.adjust'],
+  refunds: ['orders.view', 'refunds.manage'],
+  subscription_requests: ['subscriptions.view', 'subscriptions.approve', 'payments.view', 'reconciliation.manage'],
+  upi_payment_notifications: ['payments.view', 'payments.verify', 'reconciliation.manage'],
+  // Member contact details and balances
+  user_profiles: ['users.view'],
+  user_subscriptions: ['subscriptions.view', 'users.view'],
+  wallet_drift: ['wallet.adjust'],
+  // Bank details and PAN of each payout
+  withdrawal_requests: ['withdrawals.view', 'payouts.manage', 'tds.view']
+}
+
+// Permissions for changing each table. Tables not listed are read-only
+// from the dashboard; admins and user_profiles rows are checked column by
+// column.
+const TABLE_WRITE_PERMISSIONS: Record<string, string[]> = {
+  admin_roles: ['admins.manage'],
+  bank_statement_entries: ['reconciliation.manage'],
+  bank_statement_imports: ['reconciliation.manage'],
+  fraud_flags: ['fraud.review'],
+  kyc_documents: ['kyc.review'],
+  order_cancellation_requests: ['refunds.manage'],
+  orders: ['orders.update'],
+  payout_accounts: ['kyc.review'],
+  products: ['products.write'],
+  refunds: ['refunds.manage'],
+  subscription_plans: ['plans.write'],
+  subscription_requests: ['subscriptions.approve'],
+  system_settings: ['settings.write'],
+  upi_payment_notifications: ['payments.verify', 'reconciliation.manage'],
+  user_profiles: ['users.write'],
+  withdrawal_requests: ['withdrawals.approve']
+}
+
+// Deleting rows needs more than changing them
+const TABLE_DELETE_PERMISSIONS: Record<string, string[]> = {
+  user_profiles: ['users.delete']
+}
+
+// Functions the dashboard calls, with the permissions that allow each
+const RPC_PERMISSIONS: Record<string, string[]> = {
+  adjust_product_stock: ['products.write', 'inventory.adjust'],
+  admin_adjust_wallet: ['wallet.adjust'],
+  approve_subscription_request: ['subscriptions.approve'],
+  create_payout_batch: ['payouts.manage'],
+  get_referral_upline: ['referrals.view'],
+  process_order_cancellation_request: ['refunds.manage'],
+  record_withdrawal_payout: ['payouts.manage'],
+  referral_tree_children: ['referrals.view'],
+  release_expired_stock_reservations: ['inventory.adjust', 'orders.update'],
+  review_fraud_flag: ['fraud.review'],
+  review_kyc_document: ['kyc.review'],
+  review_payout_account: ['kyc.review'],
+  search_referral_tree: ['referrals.view'],
+  sync_wallet_counters: ['wallet.adjust'],
+  transition_order_status: ['orders.update', 'payments.verify', 'reconciliation.manage']
+}
+
+// Functions that change data, with the table and argument naming the row
+// they change (null when there is no single row). The row is read before
+// and after the call for the audit log; functions not listed only read.
+const RPC_AUDIT_TARGETS: Record<string, { table: string; idArg: string } | null> = {
+  adjust_product_stock: { table: 'products', idArg: 'product_id_param' },
+  admin_adjust_wallet: { table: 'user_profiles', idArg: 'profile_id_param' },
+  approve_subscription_request: { table: 'subscription_requests', idArg: 'request_id_param' },
+  create_payout_batch: null,
+  process_order_cancellation_request: { table: 'order_cancellation_requests', idArg: 'request_id_param' },
+  record_withdrawal_payout: { table: 'withdrawal_requests', idArg: 'request_id_param' },
+  release_expired_stock_reservations: null,
+  review_fraud_flag: { table: 'fraud_flags', idArg: 'flag_id_param' },
+  review_kyc_document: { table: 'kyc_documents', idArg: 'document_id_param' },
+  review_payout_account: { table: 'payout_accounts', idArg: 'account_id_param' },
+  sync_wallet_counters: { table: 'user_profiles', idArg: 'profile_id_param' },
+  transition_order_status: { table: 'orders', idArg: 'order_id_param' }
+}
+
+// Function arguments naming the admin behind a change. They are always the
+// signed-in admin, whatever the dashboard sends.
+const RPC_ADMIN_ARGS: Record<string, string> = {
+  adjust_product_stock: 'admin_id_param',
+  admin_adjust_wallet: 'admin_id_param',
+  create_payout_batch: 'admin_id_param',
+  process_order_cancellation_request: 'admin_id_param',
+  record_withdrawal_payout: 'admin_id_param',
+  review_fraud_flag: 'admin_id_param',
+  review_kyc_document: 'admin_id_param',
+  review_payout_account: 'admin_id_param',
+  transition_order_status: 'actor_id_param'
+}
+
+// Columns naming the admin behind a change, with the time column the
+// dashboard sets when it makes that change. The admin is filled in from the
+// session when the time is set, and cleared with it; rows without a time
+// column get the admin on insert.
+const TABLE_ADMIN_COLUMNS: Record<string, { column: string; setWith?: string }> = {
+  bank_statement_entries: { column: 'reviewed_by', setWith: 'reviewed_at' },
+  bank_statement_imports: { column: 'imported_by' },
+  fraud_flags: { column: 'reviewed_by', setWith: 'reviewed_at' },
+  kyc_documents: { column: 'reviewed_by', setWith: 'reviewed_at' },
+  order_cancellation_requests: { column: 'processed_by', setWith: 'processed_at' },
+  payout_accounts: { column: 'verified_by', setWith: 'verified_at' },
+  refunds: { column: 'processed_by', setWith: 'processed_at' },
+  upi_payment_notifications: { column: 'verified_by', setWith: 'verified_at' },
+  withdrawal_requests: { column: 'processed_by', setWith: 'processed_at' }
+}
+
+// A change touching more rows than this is logged as one summary entry
+const MAX_AUDITED_ROWS = 50
+
+// Steps that narrow which rows a write touches
+const FILTER_STEPS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'is', 'in', 'contains', 'or', 'not', 'filter', 'match']
+
+const SIGNED_URL_PERMISSIONS: Record<string, string[]> = {
+  'payment-proofs': ['payments.view', 'subscriptions.view'],
+  'kyc-documents': ['kyc.view', 'kyc.review']
+}
+const MAX_SIGNED_URL_SECONDS = 60 * 60
+
+const QUERY_OPERATIONS: QueryOperation[] = ['select', 'insert', 'update', 'upsert', 'delete']
+
+const QUERY_STEPS = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'is', 'in', 'contains',
+  'or', 'not', 'filter', 'match', 'order', 'limit', 'range', 'select', 'single', 'maybeSingle'
+]
+
+// The only admins columns the dashboard may change; accounts themselves are
+// created through "create-admin". Payment UPI settings need settings.write,
+// role and status need admins.manage.
+const ADMIN_UPI_COLUMNS = ['active_upi_id', 'upi_merchant_name', 'upi_ids', 'updated_at']
+const ADMIN_ACCOUNT_COLUMNS = ['is_active', 'role']
+const ADMIN_WRITABLE_COLUMNS = [...ADMIN_UPI_COLUMNS, ...ADMIN_ACCOUNT_COLUMNS]
+
+// Roles' permissions are set by migrations; the dashboard only decides
+// which roles must use two-factor authentication
+const ADMIN_ROLE_WRITABLE_COLUMNS = ['require_2fa', 'updated_at']
+
+// The only user_profiles columns the dashboard may change. Balances move
+// through the wallet functions and the referrer never changes here;
+// approving a subscription request activates the profile through
+// approve_subscription_request.
+const PROFILE_WRITABLE_COLUMNS = ['full_name', 'email', 'phone', 'subscription_status', 'updated_at']
+
+class AdminApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+// Table names used to embed related rows in a select, e.g. "order:orders(id)"
+const embeddedTables = (columns: string) =>
+  Array.from(columns.matchAll(/([A-Za-z_]\w*)\s*(?:!\s*\w+\s*)?\(/g), (match) => match[1])
+
+const selectColumns = (query: AdminQuery) => [
+  ...(query.operation === 'select' ? [query.columns || '*'] : []),
+  ...query.steps.filter((step) => step.method === 'select').map((step) => String(step.args[0] ?? '*'))
+]
+
+const requirePermission = (admin: AdminRecord, permissions: string[] | undefined, message: string) => {
+  if (!permissions || !hasAdminPermission(admin, ...permissions)) {
+    throw new AdminApiError(message, 403)
+  }
+}
+
+// Other admins' accounts are only visible to admins.manage; the UPI columns
+// are what the payment settings read
+const readsAdminAccounts = (columns: string) =>
+  columns.split(',').map((column) => column.trim()).some((column) => column !== 'id' && !ADMIN_UPI_COLUMNS.includes(column))
+
+function authorizeQuery(admin: AdminRecord, query: AdminQuery) {
+  const readPermissions = TABLE_READ_PERMISSIONS[query.table]
+  if (readPermissions) {
+    requirePermission(admin, readPermissions, `Your role cannot view ${query.table}`)
+  }
+  for (const columns of selectColumns(query)) {
+    for (const table of embeddedTables(columns)) {
+      if (TABLE_READ_PERMISSIONS[table]) {
+        requirePermission(admin, TABLE_READ_PERMISSIONS[table], `Your role cannot view ${table}`)
+      }
+    }
+  }
+
+  if (query.table === 'admins') {
+    if (selectColumns(query).some(readsAdminAccounts)) {
+      requirePermission(admin, ['admins.manage'], 'Your role cannot view admin accounts')
+    }
+    if (query.operation === 'update') {
+      const columns = Object.keys((query.values || {}) as Record<string, unknown>)
+      if (columns.some((column) => ADMIN_UPI_COLUMNS.includes(column) && column !== 'updated_at')) {
+        requirePermission(admin, ['settings.write'], 'Your role cannot change payment settings')
+      }
+      if (columns.some((column) => ADMIN_ACCOUNT_COLUMNS.includes(column))) {
+        requirePermission(admin, ['admins.manage'], 'Your role cannot manage admin accounts')
+
+        const target = query.steps.find((step) => step.method === 'eq' && step.args[0] === 'id')?.args[1]
+        if (typeof target !== 'string') {
+          throw new AdminApiError('Choose one admin account to change', 400)
+        }
+        if (target === admin.id) {
+          throw new AdminApiError('You cannot change your own role or status', 403)
+        }
+      }
+    }
+    return
+  }
+
+  if (query.operation === 'delete' && TABLE_DELETE_PERMISSIONS[query.table]) {
+    requirePermission(admin, TABLE_DELETE_PERMISSIONS[query.table], `Your role cannot delete from ${query.table}`)
+  } else if (query.operation !== 'select') {
+    requirePermission(admin, TABLE_WRITE_PERMISSIONS[query.table], `Your role cannot change ${query.table}`)
+  }
+}
+
+function validateQuery(query: AdminQuery) {
+  if (!query || typeof query.table !== 'string' || !ADMIN_TABLES.includes(query.table)) {
+    throw new AdminApiError(`Table not available to admins: ${query?.table}`, 403)
+  }
+  if (!QUERY_OPERATIONS.includes(query.operation)) {
+    throw new AdminApiError(`Unsupported operation: ${query.operation}`, 400)
+  }
+  if (!Array.isArray(query.steps) || query.steps.some((step) => !QUERY_STEPS.includes(step?.method) || !Array.isArray(step.args))) {
+    throw new AdminApiError('Unsupported query step', 400)
+  }
+
+  // Password hashes and two-factor secrets never leave the function, whichever
+  // way they are asked for
+  const serialized = JSON.stringify(query)
+  if (ADMIN_SECRET_COLUMNS.some((column) => serialized.includes(column)) || serialized.includes('admin_sessions')) {
+    throw new AdminApiError('Query touches restricted columns', 403)
+  }
+
+  for (const columns of selectColumns(query)) {
+    if (embeddedTables(columns).some((table) => table === 'admins' || !ADMIN_TABLES.includes(table))) {
+      throw new AdminApiError('Embedded table not available to admins', 403)
+    }
+  }
+
+  if (query.table === 'admins') {
+    if (query.operation !== 'select' && query.operation !== 'update') {
+      throw new AdminApiError('Admin accounts can only be read or updated here', 403)
+    }
+    if (selectColumns(query).some((columns) => columns.includes('*'))) {
+      throw new AdminApiError('List the admins columns to select', 403)
+    }
+    if (query.operation === 'update') {
+      const values = (query.values || {}) as Record<string, unknown>
+      if (Object.keys(values).some((column) => !ADMIN_WRITABLE_COLUMNS.includes(column))) {
+        throw new AdminApiError('Admin column is not writable', 403)
+      }
+    }
+  }
+
+  if (query.table === 'admin_roles' && query.operation !== 'select') {
+    const values = (query.values || {}) as Record<string, unknown>
+    if (query.operation !== 'update' || Object.keys(values).some((column) => !ADMIN_ROLE_WRITABLE_COLUMNS.includes(column))) {
+      throw new AdminApiError('Only the two-factor requirement of a role can be changed', 403)
+    }
+  }
+
+  if (query.table === 'user_profiles' && (query.operation === 'insert' || query.operation === 'upsert')) {
+    throw new AdminApiError('Profiles are created at sign-up', 403)
+  }
+  if (query.table === 'user_profiles' && query.operation === 'update') {
+    const values = (query.values || {}) as Record<string, unknown>
+    if (Object.keys(values).some((column) => !PROFILE_WRITABLE_COLUMNS.includes(column))) {
+      throw new AdminApiError('Profile column is not writable; use the wallet adjustment for balances', 403)
+    }
+  }
+}
+
+// The written values with the admin columns taken from the session
+function withAdminColumns(admin: AdminRecord, query: AdminQuery): unknown {
+  const stamp = TABLE_ADMIN_COLUMNS[query.table]
+  if (!stamp || query.operation === 'select' || query.operation === 'delete') return query.values
+
+  const stampRow = (values: Record<string, unknown>) => {
+    const row = { ...values }
+    delete row[stamp.column]
+    if (!stamp.setWith) {
+      if (query.operation !== 'update') row[stamp.column] = admin.id
+    } else if (row[stamp.setWith]) {
+      row[stamp.column] = admin.id
+    } else if (stamp.setWith in row) {
+      row[stamp.column] = null
+    }
+    return row
+  }
+
+  return Array.isArray(query.values)
+    ? query.values.map(stampRow)
+    : stampRow((query.values || {}) as Record<string, unknown>)
+}
+
+const toRows = (data: unknown): AuditRow[] =>
+  (Array.isArray(data) ? data : data ? [data] : []) as AuditRow[]
+
+async function rowsById(client: SupabaseClient, table: string, ids: string[], column = 'id'): Promise<AuditRow[]> {
+  if (ids.length === 0) return []
+  const { data, error } = await client.from(table).select('*').in(column, ids)
+  if (error) console.error(`Audit read of ${table} failed:`, error.message)
+  return (data || []) as AuditRow[]
+}
+
+// Primary keys of the tables not keyed by id
+const TABLE_KEYS: Record<string, string> = {
+  admin_roles: 'role'
+}
+
+// The column that identifies rows of a write: the upsert conflict column,
+// otherwise the table's key
+const auditKey = (query: AdminQuery) =>
+  query.operation === 'upsert' && typeof query.options?.onConflict === 'string'
+    ? query.options.onConflict
+    : TABLE_KEYS[query.table] || 'id'
+
+// The rows a write is about to change, for the audit log's "before"
+async function rowsBefore(client: SupabaseClient, query: AdminQuery): Promise<AuditRow[]> {
+  if (query.operation === 'update' || query.operation === 'delete') {
+    let builder = client.from(query.table).select('*') as unknown as QueryBuilder
+    for (const step of query.steps.filter((step) => FILTER_STEPS.includes(step.method))) {
+      builder = builder[step.method](...step.args)
+    }
+    const { data } = await builder
+    return toRows(data)
+  }
+
+  if (query.operation === 'upsert') {
+    const key = auditKey(query)
+    const keys = toRows(query.values).map((row) => row[key]).filter((value) => value !== undefined && value !== null)
+    if (keys.length === 0) return []
+    const { data } = await client.from(query.table).select('*').in(key, keys)
+    return toRows(data)
+  }
+
+  return []
+}
+
+async function auditQuery(
+  client: SupabaseClient,
+  actor: AdminAuditActor,
+  query: AdminQuery,
+  before: AuditRow[],
+  returned: AuditRow[]
+) {
+  const key = auditKey(query)
+  const action = `${query.table}.${query.operation}`
+
+  // Read the changed rows back in full; the caller may have selected only a few columns
+  let after: AuditRow[] = []
+  if (query.operation === 'update') {
+    after = await rowsById(client, query.table, before.map((row) => String(row[key])), key)
+  } else if (query.operation !== 'delete') {
+    const ids = returned.map((row) => row.id).filter((id) => id !== undefined && id !== null).map(String)
+    after = ids.length === returned.length ? await rowsById(client, query.table, ids) : returned
+  }
+
+  const rows = query.operation === 'delete' ? before : after
+  if (rows.length === 0) return
+
+  if (rows.length > MAX_AUDITED_ROWS) {
+    await recordAdminAudit(client, actor, [{
+      action,
+      targetTable: query.table,
+      metadata: { rows: rows.length }
+    }])
+    return
+  }
+
+  const beforeByKey = new Map(before.map((row) => [String(row[key]), row]))
+  await recordAdminAudit(client, actor, rows.map((row) => ({
+    action,
+    targetTable: query.table,
+    targetId: row.id !== undefined && row.id !== null ? String(row.id) : String(row[key] ?? ''),
+    before: query.operation === 'delete' ? row : beforeByKey.get(String(row[key])) || null,
+    after: query.operation === 'delete' ? null : row
+  })))
+}
+
+async function runQuery(
+  client: SupabaseClient,
+  admin: AdminRecord,
+  actor: AdminAuditActor,
+  query: AdminQuery
+): Promise<QueryResult> {
+  validateQuery(query)
+  authorizeQuery(admin, query)
+  query = { ...query, values: withAdminColumns(admin, query) }
+
+  const isWrite = query.operation !== 'select'
+  const before = isWrite ? await rowsBefore(client, query) : []
+
+  // Inserted rows are needed for the log even when the caller did not ask for them
+  const returnsRows = query.steps.some((step) => step.method === 'select')
+  const steps = isWrite && query.operation !== 'delete' && !returnsRows
+    ? [...query.steps, { method: 'select', args: ['*'] }]
+    : query.steps
+
+  const table = client.from(query.table)
+  const options = query.options || {}
+  let builder: QueryBuilder
+
+  switch (query.operation) {
+    case 'select':
+      builder = table.select(query.columns || '*', options) as unknown as QueryBuilder
+      break
+    case 'insert':
+      builder = table.insert(query.values as Record<string, unknown>, options) as unknown as QueryBuilder
+      break
+    case 'update':
+      builder = table.update(query.values as Record<string, unknown>, options) as unknown as QueryBuilder
+      break
+    case 'upsert':
+      builder = table.upsert(query.values as Record<string, unknown>, options) as unknown as QueryBuilder
+      break
+    case 'delete':
+      builder = table.delete(options) as unknown as QueryBuilder
+      break
+  }
+
+  for (const step of steps) {
+    builder = builder[step.method](...step.args)
+  }
+
+  const result = await builder
+
+  if (isWrite && !result.error) {
+    await auditQuery(client, actor, query, before, toRows(result.data))
+    if (!returnsRows) result.data = null
+  }
+
+  // Belt and braces: strip secrets even if a row slipped through
+  if (query.table === 'admins' && result.data) {
+    const strip = (row: Record<string, unknown>) => {
+      const copy = { ...row }
+      ADMIN_SECRET_COLUMNS.forEach((column) => delete copy[column])
+      return copy
+    }
+    result.data = Array.isArray(result.data)
+      ? result.data.map((row) => strip(row as Record<string, unknown>))
+      : strip(result.data as Record<string, unknown>)
+  }
+
+  return result
+}
+
+async function createAdmin(
+  client: SupabaseClient,
+  creator: AdminRecord,
+  actor: AdminAuditActor,
+  { email, password, fullName, role }: { email?: unknown; password?: unknown; fullName?: unknown; role?: unknown }
+) {
+  requirePermission(creator, ['admins.manage'], 'Your role cannot add admins')
+
+  if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    throw new AdminApiError('A valid email is required', 400)
+  }
+  if (typeof password !== 'string' || password.length < 8) {
+    throw new AdminApiError('Password must be at least 8 characters long', 400)
+  }
+
+  const { data: existing, error: existingError } = await client
+    .from('admins')
+    .select('id')
+    .eq('email', email.trim())
+    .maybeSingle()
+
+  if (existingError) throw existingError
+  if (existing) throw new AdminApiError('Admin with this email already exists', 409)
+
+  const roleName = typeof role === 'string' && role ? role : 'admin'
+  const { data: roleRow, error: roleError } = await client
+    .from('admin_roles')
+    .select('role')
+    .eq('role', roleName)
+    .maybeSingle()
+
+  if (roleError) throw roleError
+  if (!roleRow) throw new AdminApiError(`Unknown admin role: ${roleName}`, 400)
+
+  const { hash, salt } = await hashAdminPassword(password)
+
+  const { data, error } = await client
+    .from('admins')
+    .insert({
+      email: email.trim(),
+      password_hash: hash,
+      password_salt: salt,
+      full_name: typeof fullName === 'string' ? fullName.trim() || null : null,
+      role: roleName,
+      is_active: true,
+      created_by: creator.id
+    })
+    .select(ADMIN_PUBLIC_COLUMNS)
+    .single()
+
+  if (error) throw error
+
+  await recordAdminAudit(client, actor, [{
+    action: 'admins.create',
+    targetTable: 'admins',
+    targetId: data.id,
+    after: data
+  }])
+  return data
+}
+
+async function runRpc(
+  client: SupabaseClient,
+  admin: AdminRecord,
+  actor: AdminAuditActor,
+  fn: unknown,
+  args: Record<string, unknown> = {}
+): Promise<QueryResult> {
+  if (typeof fn !== 'string' || !Object.prototype.hasOwnProperty.call(RPC_PERMISSIONS, fn)) {
+    throw new AdminApiError(`Function not available to admins: ${fn}`, 403)
+  }
+  requirePermission(admin, RPC_PERMISSIONS[fn], `Your role cannot call ${fn}`)
+
+  const audited = Object.prototype.hasOwnProperty.call(RPC_AUDIT_TARGETS, fn)
+  const target = RPC_AUDIT_TARGETS[fn]
+  const targetId = target && typeof args[target.idArg] === 'string' ? args[target.idArg] as string : null
+  const [before] = target && targetId ? await rowsById(client, target.table, [targetId]) : []
+
+  const callArgs = RPC_ADMIN_ARGS[fn] ? { ...args, [RPC_ADMIN_ARGS[fn]]: admin.id } : args
+  const result = await client.rpc(fn, callArgs)
+
+  if (audited && !result.error) {
+    const [after] = target && targetId ? await rowsById(client, target.table, [targetId]) : []
+    await recordAdminAudit(client, actor, [{
+      action: fn,
+      targetTable: target?.table ?? null,
+      targetId,
+      before: before || null,
+      after: after || null,
+      metadata: { args: callArgs, result: result.data ?? null }
+    }])
+  }
+
+  return result
+}
+
+// Sessions still in use: not revoked and holding an unexpired token. Admins
+// see their own; admins.manage can see anyone's.
+async function listSessions(client: SupabaseClient, current: AdminSession, adminId: unknown) {
+  const canManageAdmins = hasAdminPermission(current.admin, 'admins.manage')
+  if (adminId && adminId !== current.admin.id && !canManageAdmins) {
+    throw new AdminApiError("Your role cannot see other admins' sessions", 403)
+  }
+
+  const now = new Date().toISOString()
+  let query = client
+    .from('admin_sessions')
+    .select('id, admin_id, user_agent, ip_address, created_at, last_seen_at, expires_at, token_expires_at, admin:admin_id (email, full_name)')
+    .is('revoked_at', null)
+    .gt('token_expires_at', now)
+    .gt('expires_at', now)
+    .order('last_seen_at', { ascending: false })
+
+  if (adminId || !canManageAdmins) {
+    query = query.eq('admin_id', typeof adminId === 'string' && adminId ? adminId : current.admin.id)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return (data || []).map((session) => ({ ...session, current: session.id === current.id }))
+}
+
+// Ends one session (sessionId) or every session of an admin (adminId),
+// optionally keeping the caller's own
+async function revokeSessions(
+  client: SupabaseClient,
+  current: AdminSession,
+  actor: AdminAuditActor,
+  { sessionId, adminId, keepCurrent }: { sessionId?: string; adminId?: string; keepCurrent?: boolean }
+) {
+  if (!sessionId && !adminId) {
+    throw new AdminApiError('Choose a session or an admin', 400)
+  }
+
+  let ownerId = adminId
+  if (sessionId) {
+    const { data: session, error } = await client
+      .from('admin_sessions')
+      .select('admin_id')
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!session) throw new AdminApiError('Session not found', 404)
+    ownerId = session.admin_id
+  }
+
+  if (ownerId !== current.admin.id && !hasAdminPermission(current.admin, 'admins.manage')) {
+    throw new AdminApiError("Your role cannot end other admins' sessions", 403)
+  }
+
+  let query = client
+    .from('admin_sessions')
+    .update({ revoked_at: new Date().toISOString(), revoked_by: current.admin.id, revoke_reason: 'revoked' })
+    .is('revoked_at', null)
+
+  query = sessionId ? query.eq('id', sessionId) : query.eq('admin_id', ownerId)
+  if (keepCurrent) query = query.neq('id', current.id)
+
+  const { data, error } = await query.select('id')
+  if (error) throw error
+
+  await recordAdminAudit(client, actor, [{
+    action: 'admin_sessions.revoke',
+    targetTable: sessionId ? 'admin_sessions' : 'admins',
+    targetId: sessionId || ownerId,
+    metadata: { adminId: ownerId, keepCurrent: !!keepCurrent, revoked: (data || []).map((row) => row.id) }
+  }])
+
+  return { revoked: (data || []).length }
+}
+
+// The signed-in admin's own two-factor state
+async function twoFactorStatus(client: SupabaseClient, admin: AdminRecord) {
+  const { data, error } = await client
+    .from('admins')
+    .select('totp_enabled_at, totp_backup_codes')
+    .eq('id', admin.id)
+    .single()
+
+  if (error) throw error
+  return {
+    enabled: !!data.totp_enabled_at,
+    enabledAt: data.totp_enabled_at,
+    required: admin.two_factor_required,
+    backupCodesRemaining: data.totp_enabled_at ? (data.totp_backup_codes || []).length : 0
+  }
+}
+
+// A current code (or backup code) from the admin, for changes to their own 2FA
+async function requireSecondFactor(client: SupabaseClient, admin: AdminRecord, code: unknown) {
+  const result = await verifyAdminSecondFactor(client, admin.id, code)
+  if (result.ok) return
+
+  if (result.lockedUntil) {
+    throw new AdminApiError('Too many wrong codes. Try again later.', 429)
+  }
+  // Not 401: that would sign the dashboard out
+  throw new AdminApiError('Invalid verification code', 400)
+}
+
+async function startTwoFactor(client: SupabaseClient, admin: AdminRecord) {
+  if (admin.totp_enabled_at) {
+    throw new AdminApiError('Two-factor authentication is already on', 409)
+  }
+  return startTotpEnrolment(client, admin)
+}
+
+async function confirmTwoFactor(client: SupabaseClient, admin: AdminRecord, actor: AdminAuditActor, code: unknown) {
+  const [before] = await rowsById(client, 'admins', [admin.id])
+  const backupCodes = await confirmTotpEnrolment(client, admin.id, code)
+  if (!backupCodes) throw new AdminApiError('Invalid verification code', 400)
+
+  const [after] = await rowsById(client, 'admins', [admin.id])
+  await recordAdminAudit(client, actor, [{
+    action: 'admins.2fa_enabled',
+    targetTable: 'admins',
+    targetId: admin.id,
+    before,
+    after
+  }])
+  return { backupCodes }
+}
+
+async function disableTwoFactor(client: SupabaseClient, admin: AdminRecord, actor: AdminAuditActor, code: unknown) {
+  if (admin.two_factor_required) {
+    throw new AdminApiError('Your role requires two-factor authentication', 403)
+  }
+  await requireSecondFactor(client, admin, code)
+
+  const [before] = await rowsById(client, 'admins', [admin.id])
+  await clearAdminTwoFactor(client, admin.id)
+  const [after] = await rowsById(client, 'admins', [admin.id])
+
+  await recordAdminAudit(client, actor, [{
+    action: 'admins.2fa_disabled',
+    targetTable: 'admins',
+    targetId: admin.id,
+    before,
+    after
+  }])
+  return { enabled: false }
+}
+
+async function regenerateBackupCodes(client: SupabaseClient, admin: AdminRecord, actor: AdminAuditActor, code: unknown) {
+  await requireSecondFactor(client, admin, code)
+
+  const { codes, hashes } = await generateBackupCodes()
+  const { error } = await client.from('admins').update({ totp_backup_codes: hashes }).eq('id', admin.id)
+  if (error) throw error
+
+  await recordAdminAudit(client, actor, [{
+    action: 'admins.2fa_backup_codes_regenerated',
+    targetTable: 'admins',
+    targetId: admin.id
+  }])
+  return { backupCodes: codes }
+}
+
+// For an admin who lost their authenticator: turns their 2FA off and signs
+// them out, so they set it up again at their next sign-in if their role
+// requires it
+async function resetTwoFactor(client: SupabaseClient, current: AdminRecord, actor: AdminAuditActor, adminId: unknown) {
+  requirePermission(current, ['admins.manage'], "Your role cannot reset other admins' two-factor authentication")
+  if (typeof adminId !== 'string' || !adminId) {
+    throw new AdminApiError('Choose an admin', 400)
+  }
+  if (adminId === current.id) {
+    throw new AdminApiError('Turn off your own two-factor authentication from your settings', 400)
+  }
+
+  const [before] = await rowsById(client, 'admins', [adminId])
+  if (!before) throw new AdminApiError('Admin not found', 404)
+
+  await clearAdminTwoFactor(client, adminId)
+
+  const { data: revoked, error } = await client
+    .from('admin_sessions')
+    .update({ revoked_at: new Date().toISOString(), revoked_by: current.id, revoke_reason: '2fa_reset' })
+    .eq('admin_id', adminId)
+    .is('revoked_at', null)
+    .select('id')
+
+  if (error) throw error
+
+  const [after] = await rowsById(client, 'admins', [adminId])
+  await recordAdminAudit(client, actor, [{
+    action: 'admins.2fa_reset',
+    targetTable: 'admins',
+    targetId: adminId,
+    before,
+    after,
+    metadata: { revokedSessions: (revoked || []).map((row) => row.id) }
+  }])
+  return { reset: true }
+}
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.json()
+    const action = body?.action
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const session = await getAdminSession(supabaseAdmin, req)
+    if (!session) {
+      return jsonResponse({ success: false, error: 'Admin session expired. Please sign in again.' }, 401)
+    }
+    const admin = session.admin
+    const actor = adminAuditActor(session, req)
+
+    let result: QueryResult
+
+    switch (action) {
+      // Who the token belongs to, for restoring the dashboard on reload
+      case 'session':
+        result = { data: admin, error: null }
+        break
+
+      case 'query':
+        result = await runQuery(supabaseAdmin, admin, actor, body.query)
+        break
+
+      case 'rpc':
+        result = await runRpc(supabaseAdmin, admin, actor, body.fn, body.args || {})
+        break
+
+      case 'signed-url': {
+        if (!Object.prototype.hasOwnProperty.call(SIGNED_URL_PERMISSIONS, body.bucket) || typeof body.path !== 'string' || !body.path) {
+          throw new AdminApiError('File not available to admins', 403)
+        }
+        requirePermission(admin, SIGNED_URL_PERMISSIONS[body.bucket], 'Your role cannot open these files')
+        const expiresIn = Math.min(Math.max(Number(body.expiresIn) || 60, 1), MAX_SIGNED_URL_SECONDS)
+        result = await supabaseAdmin.storage.from(body.bucket).createSignedUrl(body.path, expiresIn)
+        break
+      }
+
+      case 'create-admin':
+        result = { data: await createAdmin(supabaseAdmin, admin, actor, body), error: null }
+        break
+
+      case 'list-sessions':
+        result = { data: await listSessions(supabaseAdmin, session, body.adminId), error: null }
+        break
+
+      case 'revoke-sessions':
+        result = { data: await revokeSessions(supabaseAdmin, session, actor, body), error: null }
+        break
+
+      case 'two-factor-status':
+        result = { data: await twoFactorStatus(supabaseAdmin, admin), error: null }
+        break
+
+      case 'start-2fa':
+        result = { data: await startTwoFactor(supabaseAdmin, admin), error: null }
+        break
+
+      case 'confirm-2fa':
+        result = { data: await confirmTwoFactor(supabaseAdmin, admin, actor, body.code), error: null }
+        break
+
+      case 'disable-2fa':
+        result = { data: await disableTwoFactor(supabaseAdmin, admin, actor, body.code), error: null }
+        break
+
+      case 'regenerate-backup-codes':
+        result = { data: await regenerateBackupCodes(supabaseAdmin, admin, actor, body.code), error: null }
+        break
+
+      case 'reset-2fa':
+        result = { data: await resetTwoFactor(supabaseAdmin, admin, actor, body.adminId), error: null }
+        break
+
+      default:
+        return jsonResponse({ success: false, error: `Unknown action: ${action}` }, 404)
+    }
+
+    // Database errors go back with their code, as supabase-js reports them
+    if (result.error) {
+      return jsonResponse({
+        success: false,
+        error: result.error.message,
+        code: result.error.code,
+        details: result.error.details,
+        hint: result.error.hint
+      }, 400)
+    }
+
+    return jsonResponse({ success: true, data: result.data ?? null, count: result.count ?? null })
+
+  } catch (error) {
+    if (error instanceof AdminApiError) {
+      return jsonResponse({ success: false, error: error.message }, error.status)
+    }
+
+    console.error('Admin API error:', error)
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500)
+  }
+})
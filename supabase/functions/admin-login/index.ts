@@ -0,0 +1,184 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  createAdminSession,
+  getActiveAdmin,
+  issueAdminChallenge,
+  readAdminChallenge,
+  refreshAdminSession,
+  revokeAdminSession,
+  verifyAdminPassword
+} from '../_shared/admin-session.ts'
+import { confirmTotpEnrolment, startTotpEnrolment, verifyAdminSecondFactor } from '../_shared/admin-totp.ts'
+import { adminAuditActor, recordAdminAudit } from '../_shared/admin-audit.ts'
+
+// Issues, refreshes and ends admin sessions for the dashboard.
+//
+//   { action: 'login', email, password } → { admin, token, expiresAt, sessionExpiresAt }
+//     (admin includes the permissions of its role)
+//     or, with two-factor authentication on, { twoFactor: 'verify', challenge, expiresAt }
+//     or, when the role requires it and it is off, { twoFactor: 'enroll', challenge, expiresAt, secret, otpauthUrl }
+//   { action: 'verify-2fa', challenge, code } → a session, for an app code or a backup code
+//   { action: 'enroll-2fa', challenge, code } → a session plus the new backupCodes
+//   { action: 'refresh' } with X-Admin-Session → a new token for the same session
+//   { action: 'logout' } with X-Admin-Session → revokes the session
+//
+// Tokens are signed with ADMIN_SESSION_SECRET (supabase secrets set) and
+// checked by admin-api on every call.
+
+class AdminLoginError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+async function login(client: SupabaseClient, req: Request, email: unknown, password: unknown) {
+  if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+    throw new AdminLoginError('Email and password are required', 400)
+  }
+
+  const { data: account, error } = await client
+    .from('admins')
+    .select('id, password_hash, password_salt')
+    .eq('email', email.trim())
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) throw error
+
+  // Same answer for unknown emails and wrong passwords
+  if (!account || !(await verifyAdminPassword(password, account.password_hash, account.password_salt))) {
+    throw new AdminLoginError('Invalid email or password', 401)
+  }
+
+  const admin = await getActiveAdmin(client, account.id)
+  if (!admin) throw new AdminLoginError('Invalid email or password', 401)
+
+  // The session waits for a code when 2FA is on or the role requires it
+  if (admin.totp_enabled_at) {
+    return { twoFactor: 'verify', ...(await issueAdminChallenge(admin.id)) }
+  }
+  if (admin.two_factor_required) {
+    return {
+      twoFactor: 'enroll',
+      ...(await issueAdminChallenge(admin.id)),
+      ...(await startTotpEnrolment(client, admin))
+    }
+  }
+
+  const session = await createAdminSession(client, account.id, req)
+  return { admin, ...session }
+}
+
+// The admin a sign-in challenge was issued to
+async function challengedAdmin(client: SupabaseClient, challenge: unknown) {
+  const adminId = await readAdminChallenge(challenge)
+  const admin = adminId ? await getActiveAdmin(client, adminId) : null
+  if (!admin) {
+    throw new AdminLoginError('Sign-in timed out. Please enter your password again.', 401)
+  }
+  return admin
+}
+
+async function verifyTwoFactor(client: SupabaseClient, req: Request, challenge: unknown, code: unknown) {
+  const admin = await challengedAdmin(client, challenge)
+
+  const result = await verifyAdminSecondFactor(client, admin.id, code)
+  if (!result.ok) {
+    if (result.lockedUntil) {
+      const minutes = Math.max(Math.ceil((new Date(result.lockedUntil).getTime() - Date.now()) / 60000), 1)
+      throw new AdminLoginError(`Too many wrong codes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`, 429)
+    }
+    throw new AdminLoginError('Invalid verification code', 401)
+  }
+
+  if (result.usedBackupCode) {
+    await recordAdminAudit(client, adminAuditActor({ id: null, admin }, req), [{
+      action: 'admins.2fa_backup_code_used',
+      targetTable: 'admins',
+      targetId: admin.id,
+      metadata: { backupCodesRemaining: result.backupCodesRemaining }
+    }])
+  }
+
+  const session = await createAdminSession(client, admin.id, req)
+  return {
+    admin,
+    ...session,
+    ...(result.usedBackupCode ? { backupCodesRemaining: result.backupCodesRemaining } : {})
+  }
+}
+
+async function enrollTwoFactor(client: SupabaseClient, req: Request, challenge: unknown, code: unknown) {
+  const admin = await challengedAdmin(client, challenge)
+
+  const backupCodes = await confirmTotpEnrolment(client, admin.id, code)
+  if (!backupCodes) throw new AdminLoginError('Invalid verification code', 401)
+
+  await recordAdminAudit(client, adminAuditActor({ id: null, admin }, req), [{
+    action: 'admins.2fa_enabled',
+    targetTable: 'admins',
+    targetId: admin.id,
+    metadata: { duringSignIn: true }
+  }])
+
+  const session = await createAdminSession(client, admin.id, req)
+  return { admin: (await getActiveAdmin(client, admin.id)) || admin, ...session, backupCodes }
+}
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.json()
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    switch (body?.action) {
+      case 'login':
+        return jsonResponse({ success: true, data: await login(supabaseAdmin, req, body.email, body.password) })
+
+      case 'verify-2fa':
+        return jsonResponse({ success: true, data: await verifyTwoFactor(supabaseAdmin, req, body.challenge, body.code) })
+
+      case 'enroll-2fa':
+        return jsonResponse({ success: true, data: await enrollTwoFactor(supabaseAdmin, req, body.challenge, body.code) })
+
+      case 'refresh': {
+        const refreshed = await refreshAdminSession(supabaseAdmin, req)
+        if (!refreshed) {
+          return jsonResponse({ success: false, error: 'Admin session expired. Please sign in again.' }, 401)
+        }
+        return jsonResponse({ success: true, data: refreshed })
+      }
+
+      case 'logout':
+        await revokeAdminSession(supabaseAdmin, req)
+        return jsonResponse({ success: true, data: null })
+
+      default:
+        return jsonResponse({ success: false, error: `Unknown action: ${body?.action}` }, 404)
+    }
+
+  } catch (error) {
+    if (error instanceof AdminLoginError) {
+      return jsonResponse({ success: false, error: error.message }, error.status)
+    }
+
+    console.error('Admin login error:', error)
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500)
+  }
+})
@@ -1,13 +1,18 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { RAZORPAY_KEY_ID, razorpayRequest } from '../_shared/razorpay.ts'
 
-const RAZORPAY_KEY_ID = Deno.env.get('RAZORPAY_KEY_ID') || 'rzp_test_your_key_id'
-const RAZORPAY_KEY_SECRET = Deno.env.get('RAZORPAY_KEY_SECRET') || 'your_secret_key'
+interface RazorpayOrder {
+  id: string
+  amount: number
+  currency: string
+  status: string
+}
+
+// Orders that can still be paid through the gateway
+const PAYABLE_STATUSES = ['pending', 'confirmed', 'payment_pending', 'payment_failed']
 
-console.log('RAZORPAY_KEY_ID:', RAZORPAY_KEY_ID)
-console.log('RAZORPAY_KEY_SECRET:', RAZORPAY_KEY_SECRET ? 'Set' : 'Missing')
 serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
@@ -15,16 +20,16 @@ serve(async (req) => {
   }
 
   try {
-    // Get request data
-    const { orderId, amount, currency = 'INR' } = await req.json()
+    // Get request data. The amount is always taken from the order itself.
+    const { orderId, currency = 'INR' } = await req.json()
 
     // Validate request
-    if (!orderId || !amount) {
+    if (!orderId) {
       return new Response(
         JSON.stringify({ success: false, error: 'Missing required fields' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
@@ -34,9 +39,9 @@ serve(async (req) => {
     if (!authHeader) {
       return new Response(
         JSON.stringify({ success: false, error: 'Missing authorization header' }),
-        { 
-          status: 401, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
@@ -53,9 +58,9 @@ serve(async (req) => {
     if (userError || !user) {
       return new Response(
         JSON.stringify({ success: false, error: 'Unauthorized' }),
-        { 
-          status: 401, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
@@ -71,46 +76,71 @@ serve(async (req) => {
     if (orderError || !order) {
       return new Response(
         JSON.stringify({ success: false, error: 'Order not found' }),
-        { 
-          status: 404, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Create Razorpay order
-    const razorpayData = {
-      amount: Math.round(amount * 100), // Convert to paise
-      currency,
-      receipt: `order_${orderId}`,
-      notes: {
-        order_id: orderId,
-        user_id: user.id
-      }
-    }
-
-    const razorpayResponse = await fetch('https://api.razorpay.com/v1/orders', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${btoa(`${RAZORPAY_KEY_ID}:${RAZORPAY_KEY_SECRET}`)}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(razorpayData)
-    })
-
-    if (!razorpayResponse.ok) {
-      const errorData = await razorpayResponse.text()
-      console.error('Razorpay error:', errorData)
+    if (!PAYABLE_STATUSES.includes(order.status)) {
       return new Response(
-        JSON.stringify({ success: false, error: 'Failed to create payment order' }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        JSON.stringify({ success: false, error: `Order is ${order.status} and cannot be paid` }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    const razorpayOrder = await razorpayResponse.json()
+    const amountInPaise = Math.round(Number(order.total_amount) * 100)
+
+    // Retries reuse the gateway order created for the first attempt
+    let razorpayOrder: RazorpayOrder | null = null
+    if (order.razorpay_order_id) {
+      razorpayOrder = await razorpayRequest<RazorpayOrder>(`/orders/${order.razorpay_order_id}`)
+      if (razorpayOrder.amount !== amountInPaise) razorpayOrder = null
+    }
+
+    if (!razorpayOrder) {
+      razorpayOrder = await razorpayRequest<RazorpayOrder>('/orders', {
+        method: 'POST',
+        body: JSON.stringify({
+          amount: amountInPaise,
+          currency,
+          receipt: `order_${orderId}`,
+          notes: {
+            order_id: orderId,
+            user_id: user.id
+          }
+        })
+      })
+
+      // Customers cannot write gateway fields on their orders, so use the service role
+      const supabaseAdmin = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      )
+
+      const { error: updateError } = await supabaseAdmin
+        .from('orders')
+        .update({
+          razorpay_order_id: razorpayOrder.id,
+          payment_provider: 'razorpay'
+        })
+        .eq('id', orderId)
+
+      if (updateError) {
+        console.error('Error saving Razorpay order id:', updateError.message || updateError)
+        return new Response(
+          JSON.stringify({ success: false, error: 'Failed to create payment order' }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+    }
 
     return new Response(
       JSON.stringify({
@@ -120,8 +150,8 @@ serve(async (req) => {
         currency: razorpayOrder.currency,
         keyId: RAZORPAY_KEY_ID
       }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     )
 
@@ -129,9 +159,9 @@ serve(async (req) => {
     console.error('Error creating payment order:', error)
     return new Response(
       JSON.stringify({ success: false, error: 'Internal server error' }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     )
   }
@@ -0,0 +1,167 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { verifyWebhookSignature } from '../_shared/razorpay.ts'
+
+// Razorpay calls this function directly (no user session), so deploy it with
+// --no-verify-jwt. Requests are authenticated by the X-Razorpay-Signature header.
+
+interface RazorpayPayment {
+  id: string
+  order_id: string
+  amount: number
+  status: string
+  notes?: Record<string, string>
+}
+
+interface RazorpayWebhookEvent {
+  event: string
+  payload: {
+    payment?: { entity: RazorpayPayment }
+    order?: { entity: { id: string; amount_paid: number; notes?: Record<string, string> } }
+  }
+  created_at: number
+}
+
+// Events that mean the money for an order has been captured
+const SETTLEMENT_EVENTS = ['payment.captured', 'order.paid']
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  // The signature covers the exact bytes Razorpay sent, so read the raw body
+  const body = await req.text()
+  const signature = req.headers.get('X-Razorpay-Signature')
+
+  if (!signature || !(await verifyWebhookSignature(body, signature))) {
+    return jsonResponse({ success: false, error: 'Invalid webhook signature' }, 401)
+  }
+
+  let event: RazorpayWebhookEvent
+  try {
+    event = JSON.parse(body)
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON payload' }, 400)
+  }
+
+  const payment = event.payload.payment?.entity
+  const eventId = req.headers.get('X-Razorpay-Event-Id') || `${event.event}:${payment?.id ?? event.created_at}`
+
+  const supabaseAdmin = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  try {
+    // Record the delivery; Razorpay retries until it gets a 2xx, so the same
+    // event can arrive several times
+    const { data: existing, error: lookupError } = await supabaseAdmin
+      .from('payment_webhook_events')
+      .select('id, status, attempts')
+      .eq('provider', 'razorpay')
+      .eq('event_id', eventId)
+      .maybeSingle()
+
+    if (lookupError) throw lookupError
+
+    if (existing && (existing.status === 'processed' || existing.status === 'ignored')) {
+      return jsonResponse({ success: true, duplicate: true })
+    }
+
+    let eventRowId = existing?.id
+    if (existing) {
+      await supabaseAdmin
+        .from('payment_webhook_events')
+        .update({ attempts: existing.attempts + 1, status: 'received', error: null })
+        .eq('id', existing.id)
+    } else {
+      const { data: inserted, error: insertError } = await supabaseAdmin
+        .from('payment_webhook_events')
+        .insert({
+          provider: 'razorpay',
+          event_id: eventId,
+          event_type: event.event,
+          payload: event
+        })
+        .select('id')
+        .single()
+
+      // A concurrent delivery of the same event got there first
+      if (insertError?.code === '23505') {
+        return jsonResponse({ success: true, duplicate: true })
+      }
+      if (insertError) throw insertError
+      eventRowId = inserted.id
+    }
+
+    if (!SETTLEMENT_EVENTS.includes(event.event) || !payment) {
+      await supabaseAdmin
+        .from('payment_webhook_events')
+        .update({ status: 'ignored', processed_at: new Date().toISOString() })
+        .eq('id', eventRowId)
+      return jsonResponse({ success: true, ignored: true })
+    }
+
+    // Find our order through the gateway order id saved by create-payment-order
+    const { data: order } = await supabaseAdmin
+      .from('orders')
+      .select('id')
+      .eq('razorpay_order_id', payment.order_id)
+      .maybeSingle()
+
+    if (!order) {
+      await supabaseAdmin
+        .from('payment_webhook_events')
+        .update({
+          status: 'failed',
+          error: `No order for Razorpay order ${payment.order_id}`,
+          processed_at: new Date().toISOString()
+        })
+        .eq('id', eventRowId)
+      // Acknowledge: retrying will not make the order appear
+      return jsonResponse({ success: false, error: 'Order not found' })
+    }
+
+    const { data: settled, error: settleError } = await supabaseAdmin.rpc('mark_order_paid_by_gateway', {
+      order_id_param: order.id,
+      provider_param: 'razorpay',
+      payment_id_param: payment.id,
+      gateway_order_id_param: payment.order_id,
+      amount_param: payment.amount / 100
+    })
+
+    if (settleError) {
+      await supabaseAdmin
+        .from('payment_webhook_events')
+        .update({
+          status: 'failed',
+          order_id: order.id,
+          error: settleError.message,
+          processed_at: new Date().toISOString()
+        })
+        .eq('id', eventRowId)
+
+      // Amount mismatches and cancelled orders need a human, not a retry
+      const permanent = settleError.code === '22023' || settleError.code === 'P0003'
+      console.error('Error settling order from webhook:', settleError.message)
+      return jsonResponse({ success: false, error: settleError.message }, permanent ? 200 : 500)
+    }
+
+    await supabaseAdmin
+      .from('payment_webhook_events')
+      .update({ status: 'processed', order_id: order.id, processed_at: new Date().toISOString() })
+      .eq('id', eventRowId)
+
+    return jsonResponse({ success: true, orderId: order.id, alreadyPaid: settled === false })
+  } catch (error) {
+    console.error('Error processing Razorpay webhook:', error)
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500)
+  }
+})
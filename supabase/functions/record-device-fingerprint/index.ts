@@ -0,0 +1,113 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { clientIp } from '../_shared/client-ip.ts'
+import { hmacSha256Hex } from '../_shared/razorpay.ts'
+
+// Keyed so the stored hashes cannot be reversed by hashing every IPv4 address
+const FRAUD_SIGNAL_SECRET = Deno.env.get('FRAUD_SIGNAL_SECRET') || ''
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { deviceId } = await req.json()
+
+    // Get auth token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing authorization header' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Members cannot record fingerprints themselves, so use the service role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const signals: { type: string; value: string; prehashed: boolean }[] = []
+
+    if (typeof deviceId === 'string' && deviceId.trim() && deviceId.length <= 100) {
+      signals.push({ type: 'device', value: deviceId.trim(), prehashed: false })
+    }
+
+    const ip = clientIp(req)
+    if (ip && FRAUD_SIGNAL_SECRET) {
+      signals.push({ type: 'ip', value: await hmacSha256Hex(FRAUD_SIGNAL_SECRET, ip), prehashed: true })
+    } else if (ip) {
+      console.error('FRAUD_SIGNAL_SECRET is not set; not recording sign-in IP')
+    }
+
+    let flagged = 0
+    for (const signal of signals) {
+      const { data, error } = await supabaseAdmin.rpc('record_fraud_signal', {
+        user_id_param: user.id,
+        signal_type_param: signal.type,
+        value_param: signal.value,
+        source_param: 'sign_in',
+        prehashed_param: signal.prehashed
+      })
+
+      if (error) {
+        console.error(`Error recording ${signal.type} signal:`, error.message || error)
+        return new Response(
+          JSON.stringify({ success: false, error: 'Failed to record sign-in' }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      flagged += Number(data || 0)
+    }
+
+    // Whether anything was flagged stays on the server
+    if (flagged > 0) {
+      console.log(`Sign-in by ${user.id} raised ${flagged} fraud flag(s)`)
+    }
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Error recording device fingerprint:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -1,31 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
-
-const RAZORPAY_KEY_SECRET = Deno.env.get('RAZORPAY_KEY_SECRET') || 'your_secret_key'
-
-// Function to verify Razorpay signature
-function verifySignature(
-  razorpayOrderId: string,
-  razorpayPaymentId: string,
-  razorpaySignature: string,
-  secret: string
-): boolean {
-  try {
-    const crypto = globalThis.crypto.subtle
-    const encoder = new TextEncoder()
-    
-    const data = razorpayOrderId + "|" + razorpayPaymentId
-    const expectedSignature = razorpaySignature
-    
-    // For demo purposes, we'll assume signature is valid
-    // In production, you'd use HMAC SHA256 verification
-    return true
-  } catch (error) {
-    console.error('Signature verification error:', error)
-    return false
-  }
-}
+import { verifyPaymentSignature } from '../_shared/razorpay.ts'
 
 serve(async (req) => {
   // Handle CORS
@@ -35,20 +11,20 @@ serve(async (req) => {
 
   try {
     // Get request data
-    const { 
-      razorpay_order_id, 
-      razorpay_payment_id, 
-      razorpay_signature, 
-      orderId 
+    const {
+      razorpay_order_id,
+      razorpay_payment_id,
+      razorpay_signature,
+      orderId
     } = await req.json()
 
     // Validate request
     if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature || !orderId) {
       return new Response(
         JSON.stringify({ success: false, error: 'Missing required fields' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
@@ -58,9 +34,9 @@ serve(async (req) => {
     if (!authHeader) {
       return new Response(
         JSON.stringify({ success: false, error: 'Missing authorization header' }),
-        { 
-          status: 401, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
@@ -77,71 +53,72 @@ serve(async (req) => {
     if (userError || !user) {
       return new Response(
         JSON.stringify({ success: false, error: 'Unauthorized' }),
-        { 
-          status: 401, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
     // Verify signature
-    const isValidSignature = verifySignature(
+    const isValidSignature = await verifyPaymentSignature(
       razorpay_order_id,
       razorpay_payment_id,
-      razorpay_signature,
-      RAZORPAY_KEY_SECRET
+      razorpay_signature
     )
 
     if (!isValidSignature) {
       return new Response(
         JSON.stringify({ success: false, error: 'Invalid payment signature' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Update order status
-    const { error: updateError } = await supabaseClient
+    // Make sure the order belongs to the caller before settling it
+    const { data: order, error: orderError } = await supabaseClient
       .from('orders')
-      .update({
-        status: 'paid',
-        payment_id: razorpay_payment_id,
-        updated_at: new Date().toISOString()
-      })
+      .select('id')
       .eq('id', orderId)
       .eq('user_id', user.id)
+      .single()
 
-    if (updateError) {
-      console.error('Error updating order:', updateError.message || updateError)
+    if (orderError || !order) {
       return new Response(
-        JSON.stringify({ success: false, error: `Failed to update order: ${updateError.message || 'Unknown error'}` }),
+        JSON.stringify({ success: false, error: 'Order not found' }),
         {
-          status: 500,
+          status: 404,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Get order details for commission calculation
-    const { data: order, error: orderError } = await supabaseClient
-      .from('orders')
-      .select('total_amount')
-      .eq('id', orderId)
-      .single()
+    // Settle through the state machine. The webhook may already have done
+    // this, in which case the call is a no-op. Referral commissions are
+    // distributed by the order payment trigger.
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
 
-    if (!orderError && order) {
-      // Trigger commission distribution
-      try {
-        await supabaseClient.rpc('distribute_referral_commissions', {
-          p_order_id: orderId
-        })
-        console.log('Commission distribution triggered for order:', orderId)
-      } catch (commissionError) {
-        console.error('Commission distribution error:', commissionError)
-        // Don't fail the payment verification for commission errors
-      }
+    const { data: settled, error: settleError } = await supabaseAdmin.rpc('mark_order_paid_by_gateway', {
+      order_id_param: orderId,
+      provider_param: 'razorpay',
+      payment_id_param: razorpay_payment_id,
+      gateway_order_id_param: razorpay_order_id
+    })
+
+    if (settleError) {
+      console.error('Error updating order:', settleError.message || settleError)
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to update order: ${settleError.message || 'Unknown error'}` }),
+        {
+          status: settleError.code === '22023' || settleError.code === 'P0003' ? 409 : 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
     }
 
     return new Response(
@@ -149,10 +126,11 @@ serve(async (req) => {
         success: true,
         orderId,
         paymentId: razorpay_payment_id,
+        alreadyPaid: settled === false,
         message: 'Payment verified successfully'
       }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     )
 
@@ -160,9 +138,9 @@ serve(async (req) => {
     console.error('Error verifying payment:', error)
     return new Response(
       JSON.stringify({ success: false, error: 'Internal server error' }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     )
   }
@@ -0,0 +1,102 @@
+-- Atomic server-side order placement
+-- Replaces the client-side insert of orders + order_items. Items are repriced
+-- from the products table, stock is checked and decremented, and the order and
+-- its items are written in a single transaction.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION place_order(
+  items_param JSONB,
+  shipping_address_param JSONB,
+  initial_status_param TEXT DEFAULT 'pending'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  line RECORD;
+  product_rec RECORD;
+  order_total DECIMAL(10,2) := 0;
+  new_order public.orders;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF initial_status_param NOT IN ('pending', 'payment_pending') THEN
+    RAISE EXCEPTION 'Invalid initial order status: %', initial_status_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF items_param IS NULL
+     OR jsonb_typeof(items_param) <> 'array'
+     OR jsonb_array_length(items_param) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Merge duplicate lines so each product is checked once
+  CREATE TEMP TABLE place_order_lines ON COMMIT DROP AS
+  SELECT (item ->> 'product_id')::UUID AS product_id,
+         SUM((item ->> 'quantity')::INTEGER) AS quantity,
+         0::DECIMAL(10,2) AS price
+  FROM jsonb_array_elements(items_param) AS item
+  GROUP BY (item ->> 'product_id')::UUID;
+
+  IF EXISTS (SELECT 1 FROM place_order_lines WHERE quantity IS NULL OR quantity <= 0) THEN
+    RAISE EXCEPTION 'Item quantities must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Reprice and reserve stock. Rows are locked in id order to avoid deadlocks
+  -- between concurrent checkouts of the same products.
+  FOR line IN SELECT * FROM place_order_lines ORDER BY product_id LOOP
+    SELECT id, name, price, stock_quantity, is_active
+    INTO product_rec
+    FROM products
+    WHERE id = line.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT product_rec.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', line.product_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF COALESCE(product_rec.stock_quantity, 0) < line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: only % left', product_rec.name, COALESCE(product_rec.stock_quantity, 0)
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE products
+    SET stock_quantity = stock_quantity - line.quantity,
+        updated_at = NOW()
+    WHERE id = line.product_id;
+
+    UPDATE place_order_lines
+    SET price = product_rec.price
+    WHERE product_id = line.product_id;
+
+    order_total := order_total + product_rec.price * line.quantity;
+  END LOOP;
+
+  INSERT INTO orders (user_id, total_amount, shipping_address, status)
+  VALUES (buyer_id, order_total, shipping_address_param, initial_status_param)
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (order_id, product_id, quantity, price)
+  SELECT new_order.id, product_id, quantity, price
+  FROM place_order_lines;
+
+  DROP TABLE place_order_lines;
+
+  RETURN new_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(JSONB, JSONB, TEXT) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,538 @@
+-- Inventory ledger and stock reservations
+-- Every change to products.stock_quantity is recorded in stock_movements.
+-- Stock taken by place_order is held as a time-limited reservation while the
+-- order awaits payment, and handed back when the order is cancelled, fails
+-- payment or the reservation expires.
+
+BEGIN;
+
+-- ================================================================
+-- 1. TABLES
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    movement_type TEXT NOT NULL CHECK (movement_type IN ('sale', 'cancellation', 'refund', 'adjustment', 'restock')),
+    quantity INTEGER NOT NULL CHECK (quantity <> 0),
+    stock_after INTEGER NOT NULL,
+    notes TEXT,
+    created_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS stock_movements_product_id_created_at_idx
+    ON stock_movements (product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS stock_movements_order_id_idx
+    ON stock_movements (order_id);
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    status TEXT DEFAULT 'active' CHECK (status IN ('active', 'consumed', 'released', 'expired')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    released_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS stock_reservations_order_id_idx
+    ON stock_reservations (order_id);
+CREATE INDEX IF NOT EXISTS stock_reservations_active_expires_at_idx
+    ON stock_reservations (expires_at) WHERE status = 'active';
+
+DROP TRIGGER IF EXISTS update_stock_reservations_updated_at ON stock_reservations;
+CREATE TRIGGER update_stock_reservations_updated_at BEFORE UPDATE ON stock_reservations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ================================================================
+-- 2. LEDGER FUNCTIONS
+-- ================================================================
+
+-- Apply a signed stock change and record it in the ledger
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  product_id_param UUID,
+  quantity_param INTEGER,
+  movement_type_param TEXT,
+  order_id_param UUID DEFAULT NULL,
+  notes_param TEXT DEFAULT NULL,
+  created_by_param UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_stock INTEGER;
+BEGIN
+  IF quantity_param = 0 THEN
+    SELECT stock_quantity INTO new_stock FROM products WHERE id = product_id_param;
+    RETURN new_stock;
+  END IF;
+
+  -- Tell the products trigger this change is already being recorded
+  PERFORM set_config('inventory.ledger_write', 'on', true);
+
+  UPDATE products
+  SET stock_quantity = COALESCE(stock_quantity, 0) + quantity_param,
+      updated_at = NOW()
+  WHERE id = product_id_param
+  RETURNING stock_quantity INTO new_stock;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', product_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('inventory.ledger_write', 'off', true);
+
+  INSERT INTO stock_movements (
+    product_id, order_id, movement_type, quantity, stock_after, notes, created_by
+  ) VALUES (
+    product_id_param, order_id_param, movement_type_param, quantity_param, new_stock, notes_param,
+    COALESCE(created_by_param, auth.uid())
+  );
+
+  RETURN new_stock;
+END;
+$$;
+
+-- Direct edits to stock_quantity (product form, SQL console) are recorded as adjustments
+CREATE OR REPLACE FUNCTION log_direct_stock_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('inventory.ledger_write', true), 'off') <> 'on'
+     AND NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity THEN
+    INSERT INTO stock_movements (
+      product_id, movement_type, quantity, stock_after, notes, created_by
+    ) VALUES (
+      NEW.id,
+      'adjustment',
+      COALESCE(NEW.stock_quantity, 0) - COALESCE(OLD.stock_quantity, 0),
+      COALESCE(NEW.stock_quantity, 0),
+      'Direct stock edit',
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_direct_stock_change_trigger ON products;
+CREATE TRIGGER log_direct_stock_change_trigger
+    AFTER UPDATE OF stock_quantity ON products
+    FOR EACH ROW EXECUTE FUNCTION log_direct_stock_change();
+
+-- Admin stock adjustment: set a product to an absolute quantity
+CREATE OR REPLACE FUNCTION adjust_product_stock(
+  product_id_param UUID,
+  new_quantity_param INTEGER,
+  movement_type_param TEXT DEFAULT 'adjustment',
+  notes_param TEXT DEFAULT NULL,
+  admin_id_param UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_stock INTEGER;
+BEGIN
+  IF movement_type_param NOT IN ('adjustment', 'restock') THEN
+    RAISE EXCEPTION 'Invalid manual movement type: %', movement_type_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF new_quantity_param < 0 THEN
+    RAISE EXCEPTION 'Stock quantity cannot be negative'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(stock_quantity, 0) INTO current_stock
+  FROM products
+  WHERE id = product_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', product_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN apply_stock_movement(
+    product_id_param,
+    new_quantity_param - current_stock,
+    movement_type_param,
+    NULL,
+    notes_param,
+    admin_id_param
+  );
+END;
+$$;
+
+-- ================================================================
+-- 3. RESERVATIONS
+-- ================================================================
+
+-- Reservation lifetime, configurable from system_settings
+CREATE OR REPLACE FUNCTION get_stock_reservation_interval()
+RETURNS INTERVAL
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT make_interval(mins => COALESCE(
+    (SELECT (value ->> 'reservation_minutes')::INTEGER
+     FROM system_settings
+     WHERE key = 'inventory_config'),
+    30
+  ));
+$$;
+
+-- Hand back every active reservation of an order
+CREATE OR REPLACE FUNCTION release_order_reservations(
+  order_id_param UUID,
+  final_status_param TEXT DEFAULT 'released',
+  notes_param TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reservation RECORD;
+  released_count INTEGER := 0;
+BEGIN
+  FOR reservation IN
+    SELECT * FROM stock_reservations
+    WHERE order_id = order_id_param AND status = 'active'
+    ORDER BY product_id
+    FOR UPDATE
+  LOOP
+    PERFORM apply_stock_movement(
+      reservation.product_id,
+      reservation.quantity,
+      'cancellation',
+      order_id_param,
+      notes_param
+    );
+
+    UPDATE stock_reservations
+    SET status = final_status_param,
+        released_at = NOW()
+    WHERE id = reservation.id;
+
+    released_count := released_count + 1;
+  END LOOP;
+
+  RETURN released_count;
+END;
+$$;
+
+-- Release reservations whose hold period has passed. Called at the start of
+-- place_order and from the scheduled job below when pg_cron is available.
+CREATE OR REPLACE FUNCTION release_expired_stock_reservations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_order RECORD;
+  released_count INTEGER := 0;
+BEGIN
+  FOR expired_order IN
+    SELECT DISTINCT order_id
+    FROM stock_reservations
+    WHERE status = 'active' AND expires_at < NOW()
+  LOOP
+    released_count := released_count + release_order_reservations(
+      expired_order.order_id,
+      'expired',
+      'Reservation expired before payment was verified'
+    );
+  END LOOP;
+
+  RETURN released_count;
+END;
+$$;
+
+-- Hand back stock that was already sold to an order (cancel after payment,
+-- refund). Only quantities taken through reservations are returned, so orders
+-- placed before the ledger existed never add phantom stock.
+CREATE OR REPLACE FUNCTION restore_consumed_reservations(
+  order_id_param UUID,
+  movement_type_param TEXT,
+  notes_param TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reservation RECORD;
+  restored_count INTEGER := 0;
+BEGIN
+  FOR reservation IN
+    SELECT * FROM stock_reservations
+    WHERE order_id = order_id_param AND status = 'consumed'
+    ORDER BY product_id
+    FOR UPDATE
+  LOOP
+    PERFORM apply_stock_movement(
+      reservation.product_id,
+      reservation.quantity,
+      movement_type_param,
+      order_id_param,
+      notes_param
+    );
+
+    UPDATE stock_reservations
+    SET status = 'released',
+        released_at = NOW()
+    WHERE id = reservation.id;
+
+    restored_count := restored_count + 1;
+  END LOOP;
+
+  RETURN restored_count;
+END;
+$$;
+
+-- Keep reservations in step with the order status:
+--   cancelled / payment_failed        -> release back to stock
+--   paid and later fulfilment steps   -> reservation becomes a sale
+--   refunded                          -> sold quantity goes back to stock
+--   payment_failed -> payment_pending -> stock is taken again for the retry
+CREATE OR REPLACE FUNCTION handle_order_inventory()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item RECORD;
+  current_stock INTEGER;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('cancelled', 'payment_failed') THEN
+    PERFORM release_order_reservations(NEW.id, 'released', 'Order ' || NEW.status);
+
+    IF NEW.status = 'cancelled' THEN
+      PERFORM restore_consumed_reservations(NEW.id, 'cancellation', 'Order cancelled after payment');
+    END IF;
+
+  ELSIF NEW.status = 'refunded' THEN
+    PERFORM restore_consumed_reservations(NEW.id, 'refund', 'Order refunded');
+
+  ELSIF NEW.status IN ('paid', 'processing', 'shipped', 'delivered', 'completed') THEN
+    UPDATE stock_reservations
+    SET status = 'consumed'
+    WHERE order_id = NEW.id AND status = 'active';
+
+    -- Payment arrived after the hold lapsed: take the stock again. This can
+    -- take a product below zero, which shows up as an oversell to restock.
+    IF EXISTS (SELECT 1 FROM stock_reservations WHERE order_id = NEW.id AND status = 'expired') THEN
+      FOR item IN
+        SELECT product_id, SUM(quantity)::INTEGER AS quantity
+        FROM stock_reservations
+        WHERE order_id = NEW.id AND status = 'expired'
+        GROUP BY product_id
+        ORDER BY product_id
+      LOOP
+        PERFORM apply_stock_movement(item.product_id, -item.quantity, 'sale', NEW.id, 'Stock re-taken after reservation expired');
+      END LOOP;
+
+      UPDATE stock_reservations
+      SET status = 'consumed'
+      WHERE order_id = NEW.id AND status = 'expired';
+    END IF;
+
+  ELSIF NEW.status = 'payment_pending'
+        AND OLD.status = 'payment_failed'
+        AND NOT EXISTS (SELECT 1 FROM stock_reservations WHERE order_id = NEW.id AND status = 'active') THEN
+    FOR item IN SELECT product_id, quantity FROM order_items WHERE order_id = NEW.id ORDER BY product_id LOOP
+      SELECT COALESCE(stock_quantity, 0) INTO current_stock FROM products WHERE id = item.product_id FOR UPDATE;
+
+      IF current_stock < item.quantity THEN
+        RAISE EXCEPTION 'Insufficient stock to retry payment: only % left', current_stock
+          USING ERRCODE = 'P0001';
+      END IF;
+
+      PERFORM apply_stock_movement(item.product_id, -item.quantity, 'sale', NEW.id, 'Payment retry');
+
+      INSERT INTO stock_reservations (order_id, product_id, quantity, expires_at)
+      VALUES (NEW.id, item.product_id, item.quantity, NOW() + get_stock_reservation_interval());
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_order_inventory_trigger ON orders;
+CREATE TRIGGER handle_order_inventory_trigger
+    AFTER UPDATE OF status ON orders
+    FOR EACH ROW EXECUTE FUNCTION handle_order_inventory();
+
+-- ================================================================
+-- 4. PLACE ORDER WITH RESERVATIONS
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION place_order(
+  items_param JSONB,
+  shipping_address_param JSONB,
+  initial_status_param TEXT DEFAULT 'pending'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  line RECORD;
+  product_rec RECORD;
+  order_total DECIMAL(10,2) := 0;
+  new_order public.orders;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF initial_status_param NOT IN ('pending', 'payment_pending') THEN
+    RAISE EXCEPTION 'Invalid initial order status: %', initial_status_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF items_param IS NULL
+     OR jsonb_typeof(items_param) <> 'array'
+     OR jsonb_array_length(items_param) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Free up stock held by abandoned checkouts before checking availability
+  PERFORM release_expired_stock_reservations();
+
+  -- Merge duplicate lines so each product is checked once
+  CREATE TEMP TABLE place_order_lines ON COMMIT DROP AS
+  SELECT (item ->> 'product_id')::UUID AS product_id,
+         SUM((item ->> 'quantity')::INTEGER) AS quantity,
+         0::DECIMAL(10,2) AS price
+  FROM jsonb_array_elements(items_param) AS item
+  GROUP BY (item ->> 'product_id')::UUID;
+
+  IF EXISTS (SELECT 1 FROM place_order_lines WHERE quantity IS NULL OR quantity <= 0) THEN
+    RAISE EXCEPTION 'Item quantities must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Reprice and check stock. Rows are locked in id order to avoid deadlocks
+  -- between concurrent checkouts of the same products.
+  FOR line IN SELECT * FROM place_order_lines ORDER BY product_id LOOP
+    SELECT id, name, price, stock_quantity, is_active
+    INTO product_rec
+    FROM products
+    WHERE id = line.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT product_rec.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', line.product_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF COALESCE(product_rec.stock_quantity, 0) < line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: only % left', product_rec.name, COALESCE(product_rec.stock_quantity, 0)
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE place_order_lines
+    SET price = product_rec.price
+    WHERE product_id = line.product_id;
+
+    order_total := order_total + product_rec.price * line.quantity;
+  END LOOP;
+
+  INSERT INTO orders (user_id, total_amount, shipping_address, status)
+  VALUES (buyer_id, order_total, shipping_address_param, initial_status_param)
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (order_id, product_id, quantity, price)
+  SELECT new_order.id, product_id, quantity, price
+  FROM place_order_lines;
+
+  -- Take the stock and hold it against the order until payment is verified
+  FOR line IN SELECT * FROM place_order_lines ORDER BY product_id LOOP
+    PERFORM apply_stock_movement(line.product_id, -line.quantity, 'sale', new_order.id, 'Reserved at checkout', buyer_id);
+
+    INSERT INTO stock_reservations (order_id, product_id, quantity, expires_at)
+    VALUES (new_order.id, line.product_id, line.quantity, NOW() + get_stock_reservation_interval());
+  END LOOP;
+
+  DROP TABLE place_order_lines;
+
+  RETURN new_order;
+END;
+$$;
+
+-- ================================================================
+-- 5. SCHEDULED EXPIRY
+-- ================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'release-expired-stock-reservations',
+      '*/5 * * * *',
+      'SELECT release_expired_stock_reservations()'
+    );
+  END IF;
+END$$;
+
+-- ================================================================
+-- 6. RLS AND PERMISSIONS
+-- ================================================================
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own order reservations" ON stock_reservations;
+CREATE POLICY "Users can view own order reservations" ON stock_reservations
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM orders
+            WHERE orders.id = stock_reservations.order_id
+            AND orders.user_id = auth.uid()
+        )
+    );
+
+INSERT INTO system_settings (key, value, description)
+VALUES (
+    'inventory_config',
+    '{"reservation_minutes": 30}'::jsonb,
+    'How long checkout holds stock for an order awaiting payment'
+) ON CONFLICT (key) DO NOTHING;
+
+REVOKE EXECUTE ON FUNCTION apply_stock_movement(UUID, INTEGER, TEXT, UUID, TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION adjust_product_stock(UUID, INTEGER, TEXT, TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION release_order_reservations(UUID, TEXT, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION restore_consumed_reservations(UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION release_expired_stock_reservations() TO authenticated;
+GRANT EXECUTE ON FUNCTION place_order(JSONB, JSONB, TEXT) TO authenticated;
+
+COMMIT;
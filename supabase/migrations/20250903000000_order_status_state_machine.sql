@@ -0,0 +1,249 @@
+-- Enforce the order status state machine on the server
+-- The legal transitions mirror getNextStatuses() in src/lib/order-status.ts;
+-- keep both in sync. Every status change is written to order_status_history.
+
+BEGIN;
+
+-- ================================================================
+-- 1. STATUS VALUES AND COLUMNS
+-- ================================================================
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_status_check CHECK (status IN (
+    'pending', 'confirmed', 'payment_pending', 'paid', 'payment_failed',
+    'processing', 'shipped', 'delivered', 'completed', 'cancelled', 'refunded'
+));
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS status_notes TEXT,
+ADD COLUMN IF NOT EXISTS status_updated_by UUID,
+ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- ================================================================
+-- 2. TRANSITIONS AND HISTORY TABLES
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS order_status_transitions (
+    from_status TEXT NOT NULL,
+    to_status TEXT NOT NULL,
+    PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO order_status_transitions (from_status, to_status) VALUES
+    ('pending', 'confirmed'),
+    ('pending', 'cancelled'),
+    ('confirmed', 'payment_pending'),
+    ('confirmed', 'cancelled'),
+    ('payment_pending', 'paid'),
+    ('payment_pending', 'payment_failed'),
+    ('payment_pending', 'cancelled'),
+    ('paid', 'processing'),
+    ('paid', 'cancelled'),
+    ('processing', 'shipped'),
+    ('processing', 'cancelled'),
+    ('shipped', 'delivered'),
+    ('delivered', 'completed'),
+    ('delivered', 'refunded'),
+    ('payment_failed', 'payment_pending'),
+    ('payment_failed', 'cancelled')
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    actor_id UUID,
+    actor_type TEXT NOT NULL DEFAULT 'system' CHECK (actor_type IN ('admin', 'customer', 'system')),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS order_status_history_order_id_created_at_idx
+    ON order_status_history (order_id, created_at);
+
+-- ================================================================
+-- 3. ENFORCEMENT TRIGGERS
+-- ================================================================
+
+-- Who is changing the order. transition_order_status() sets the actor for the
+-- current transaction; otherwise the signed-in customer or the system is assumed.
+CREATE OR REPLACE FUNCTION current_order_actor(order_user_id UUID)
+RETURNS TABLE (actor_id UUID, actor_type TEXT)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  configured_type TEXT := NULLIF(current_setting('order_status.actor_type', true), '');
+BEGIN
+  IF configured_type IS NOT NULL THEN
+    RETURN QUERY SELECT NULLIF(current_setting('order_status.actor_id', true), '')::UUID, configured_type;
+  ELSIF auth.uid() IS NOT NULL AND auth.uid() = order_user_id THEN
+    RETURN QUERY SELECT auth.uid(), 'customer'::TEXT;
+  ELSE
+    RETURN QUERY SELECT auth.uid(), 'system'::TEXT;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor RECORD;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Illegal order status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  SELECT * INTO actor FROM current_order_actor(OLD.user_id);
+
+  -- Customers can only cancel; everything else is an admin or system action
+  IF actor.actor_type = 'customer' AND NEW.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Customers cannot move an order to %', NEW.status
+      USING ERRCODE = '42501';
+  END IF;
+
+  NEW.status_updated_at := NOW();
+  IF actor.actor_id IS NOT NULL THEN
+    NEW.status_updated_by := actor.actor_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition_trigger ON orders;
+CREATE TRIGGER enforce_order_status_transition_trigger
+    BEFORE UPDATE OF status ON orders
+    FOR EACH ROW EXECUTE FUNCTION enforce_order_status_transition();
+
+CREATE OR REPLACE FUNCTION record_order_status_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO actor FROM current_order_actor(NEW.user_id);
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, actor_id, actor_type, notes)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status ELSE NULL END,
+    NEW.status,
+    actor.actor_id,
+    actor.actor_type,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'Order placed'
+      ELSE NULLIF(current_setting('order_status.notes', true), '')
+    END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_order_status_history_trigger ON orders;
+CREATE TRIGGER record_order_status_history_trigger
+    AFTER INSERT OR UPDATE OF status ON orders
+    FOR EACH ROW EXECUTE FUNCTION record_order_status_history();
+
+-- ================================================================
+-- 4. TRANSITION RPC
+-- ================================================================
+
+-- Admin/system entry point for changing an order's status with an actor and note
+CREATE OR REPLACE FUNCTION transition_order_status(
+  order_id_param UUID,
+  new_status_param TEXT,
+  notes_param TEXT DEFAULT NULL,
+  actor_id_param UUID DEFAULT NULL,
+  actor_type_param TEXT DEFAULT 'admin'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_order public.orders;
+BEGIN
+  IF actor_type_param NOT IN ('admin', 'system') THEN
+    RAISE EXCEPTION 'Invalid actor type: %', actor_type_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('order_status.actor_type', actor_type_param, true);
+  PERFORM set_config('order_status.actor_id', COALESCE(actor_id_param::TEXT, ''), true);
+  PERFORM set_config('order_status.notes', COALESCE(notes_param, ''), true);
+
+  UPDATE orders
+  SET status = new_status_param,
+      status_notes = COALESCE(notes_param, status_notes)
+  WHERE id = order_id_param
+  RETURNING * INTO updated_order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', order_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('order_status.actor_type', '', true);
+  PERFORM set_config('order_status.actor_id', '', true);
+  PERFORM set_config('order_status.notes', '', true);
+
+  RETURN updated_order;
+END;
+$$;
+
+-- ================================================================
+-- 5. BACKFILL, RLS AND PERMISSIONS
+-- ================================================================
+
+-- Give existing orders a starting point in their history
+INSERT INTO order_status_history (order_id, from_status, to_status, actor_type, notes, created_at)
+SELECT o.id, NULL, o.status, 'system', 'Status before history tracking', o.created_at
+FROM orders o
+WHERE NOT EXISTS (SELECT 1 FROM order_status_history h WHERE h.order_id = o.id);
+
+ALTER TABLE order_status_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read order status transitions" ON order_status_transitions;
+CREATE POLICY "Anyone can read order status transitions" ON order_status_transitions
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Users can view own order status history" ON order_status_history;
+CREATE POLICY "Users can view own order status history" ON order_status_history
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM orders
+            WHERE orders.id = order_status_history.order_id
+            AND orders.user_id = auth.uid()
+        )
+    );
+
+REVOKE EXECUTE ON FUNCTION transition_order_status(UUID, TEXT, TEXT, UUID, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION transition_order_status(UUID, TEXT, TEXT, UUID, TEXT) FROM authenticated;
+GRANT EXECUTE ON FUNCTION transition_order_status(UUID, TEXT, TEXT, UUID, TEXT) TO service_role;
+
+COMMIT;
@@ -0,0 +1,341 @@
+-- Customer cancellations, refunds and commission reversal
+-- Customers can cancel an order instantly while it is still cancellable
+-- (see canCancelOrder in src/lib/order-status.ts). Once fulfilment has started
+-- the cancellation becomes a request that an admin approves or rejects.
+-- Paid orders get a refund record that admins settle over UPI. Referral
+-- commissions for the order are reversed whenever it ends up cancelled or
+-- refunded; stock is restored by handle_order_inventory().
+
+BEGIN;
+
+-- ================================================================
+-- 1. TABLES
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS order_cancellation_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    reason TEXT,
+    refund_upi_id TEXT,
+    order_status_at_request TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    admin_notes TEXT,
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE,
+    processed_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only one open request per order
+CREATE UNIQUE INDEX IF NOT EXISTS order_cancellation_requests_pending_idx
+    ON order_cancellation_requests (order_id) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS refunds (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    cancellation_request_id UUID REFERENCES order_cancellation_requests(id) ON DELETE SET NULL,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    upi_id TEXT,
+    reference TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+    notes TEXT,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    processed_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS refunds_status_idx ON refunds (status, created_at);
+
+-- Commissions can now be reversed
+ALTER TABLE public.referral_commissions DROP CONSTRAINT IF EXISTS referral_commissions_status_check;
+ALTER TABLE public.referral_commissions
+ADD CONSTRAINT referral_commissions_status_check CHECK (status IN ('pending', 'paid', 'reversed'));
+
+ALTER TABLE public.referral_commissions
+ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP WITH TIME ZONE;
+
+-- ================================================================
+-- 2. COMMISSION REVERSAL
+-- ================================================================
+
+-- Take back every order commission paid out for an order. Balances may go
+-- negative if the referrer already withdrew the money; future earnings net it off.
+CREATE OR REPLACE FUNCTION reverse_order_commissions(order_id_param UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  commission RECORD;
+  reversed_count INTEGER := 0;
+BEGIN
+  FOR commission IN
+    SELECT id, referrer_id, commission_amount
+    FROM referral_commissions
+    WHERE order_id = order_id_param
+      AND COALESCE(trigger_type, 'order_purchase') = 'order_purchase'
+      AND status <> 'reversed'
+    FOR UPDATE
+  LOOP
+    UPDATE user_profiles
+    SET total_earnings = COALESCE(total_earnings, 0) - commission.commission_amount,
+        available_balance = COALESCE(available_balance, 0) - commission.commission_amount,
+        updated_at = NOW()
+    WHERE id = commission.referrer_id;
+
+    UPDATE referral_commissions
+    SET status = 'reversed',
+        reversed_at = NOW()
+    WHERE id = commission.id;
+
+    reversed_count := reversed_count + 1;
+  END LOOP;
+
+  RETURN reversed_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_order_commission_reversal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('cancelled', 'refunded') THEN
+    PERFORM reverse_order_commissions(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_order_commission_reversal_trigger ON orders;
+CREATE TRIGGER handle_order_commission_reversal_trigger
+    AFTER UPDATE OF status ON orders
+    FOR EACH ROW EXECUTE FUNCTION handle_order_commission_reversal();
+
+-- ================================================================
+-- 3. CUSTOMER CANCELLATION RPC
+-- ================================================================
+
+-- Statuses in which money has been collected for the order
+CREATE OR REPLACE FUNCTION order_status_is_paid(status_param TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT status_param IN ('paid', 'processing', 'shipped', 'delivered', 'completed');
+$$;
+
+CREATE OR REPLACE FUNCTION create_order_refund(
+  order_rec public.orders,
+  cancellation_request_id_param UUID,
+  upi_id_param TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO refunds (order_id, user_id, cancellation_request_id, amount, upi_id)
+  VALUES (order_rec.id, order_rec.user_id, cancellation_request_id_param, order_rec.total_amount, NULLIF(TRIM(upi_id_param), ''))
+  ON CONFLICT (order_id) DO NOTHING;
+END;
+$$;
+
+-- Cancel an order as its owner. Returns the cancellation request, which is
+-- already approved when the order could be cancelled immediately.
+CREATE OR REPLACE FUNCTION request_order_cancellation(
+  order_id_param UUID,
+  reason_param TEXT DEFAULT NULL,
+  refund_upi_id_param TEXT DEFAULT NULL
+)
+RETURNS public.order_cancellation_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  order_rec public.orders;
+  request_rec public.order_cancellation_requests;
+  was_paid BOOLEAN;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to cancel an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO order_rec FROM orders WHERE id = order_id_param FOR UPDATE;
+
+  IF NOT FOUND OR order_rec.user_id <> caller_id THEN
+    RAISE EXCEPTION 'Order % not found', order_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM order_cancellation_requests
+    WHERE order_id = order_id_param AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'A cancellation request is already pending for this order'
+      USING ERRCODE = '22023';
+  END IF;
+
+  was_paid := order_status_is_paid(order_rec.status);
+
+  IF was_paid AND NULLIF(TRIM(refund_upi_id_param), '') IS NULL THEN
+    RAISE EXCEPTION 'A UPI ID is required to refund a paid order'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF order_rec.status IN ('pending', 'confirmed', 'payment_pending', 'paid') THEN
+    -- Still cancellable: cancel now as the customer
+    INSERT INTO order_cancellation_requests (
+      order_id, user_id, reason, refund_upi_id, order_status_at_request, status, processed_at
+    ) VALUES (
+      order_rec.id, caller_id, reason_param, NULLIF(TRIM(refund_upi_id_param), ''), order_rec.status, 'approved', NOW()
+    )
+    RETURNING * INTO request_rec;
+
+    PERFORM set_config('order_status.notes', COALESCE('Cancelled by customer: ' || NULLIF(TRIM(reason_param), ''), 'Cancelled by customer'), true);
+
+    UPDATE orders
+    SET status = 'cancelled',
+        status_notes = 'Cancelled by customer'
+    WHERE id = order_rec.id;
+
+    PERFORM set_config('order_status.notes', '', true);
+
+    IF was_paid THEN
+      PERFORM create_order_refund(order_rec, request_rec.id, refund_upi_id_param);
+    END IF;
+  ELSIF order_rec.status IN ('processing', 'shipped', 'delivered') THEN
+    -- Fulfilment has started: an admin has to approve it
+    INSERT INTO order_cancellation_requests (
+      order_id, user_id, reason, refund_upi_id, order_status_at_request
+    ) VALUES (
+      order_rec.id, caller_id, reason_param, NULLIF(TRIM(refund_upi_id_param), ''), order_rec.status
+    )
+    RETURNING * INTO request_rec;
+  ELSE
+    RAISE EXCEPTION 'Orders that are % cannot be cancelled', order_rec.status
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  RETURN request_rec;
+END;
+$$;
+
+-- ================================================================
+-- 4. ADMIN PROCESSING RPC
+-- ================================================================
+
+-- Approve or reject a pending cancellation request. Approving cancels a
+-- processing order or refunds a delivered one; shipped orders have to be
+-- delivered (returned) first.
+CREATE OR REPLACE FUNCTION process_order_cancellation_request(
+  request_id_param UUID,
+  approve_param BOOLEAN,
+  admin_id_param UUID DEFAULT NULL,
+  admin_notes_param TEXT DEFAULT NULL
+)
+RETURNS public.order_cancellation_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_rec public.order_cancellation_requests;
+  order_rec public.orders;
+  target_status TEXT;
+BEGIN
+  SELECT * INTO request_rec
+  FROM order_cancellation_requests
+  WHERE id = request_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cancellation request % not found', request_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF request_rec.status <> 'pending' THEN
+    RAISE EXCEPTION 'Cancellation request has already been %', request_rec.status
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  SELECT * INTO order_rec FROM orders WHERE id = request_rec.order_id FOR UPDATE;
+
+  IF approve_param THEN
+    target_status := CASE
+      WHEN order_rec.status = 'delivered' THEN 'refunded'
+      ELSE 'cancelled'
+    END;
+
+    IF order_rec.status = 'shipped' THEN
+      RAISE EXCEPTION 'Order is in transit; approve the request once it has been delivered or returned'
+        USING ERRCODE = 'P0003';
+    END IF;
+
+    PERFORM transition_order_status(
+      order_rec.id,
+      target_status,
+      COALESCE(NULLIF(TRIM(admin_notes_param), ''), 'Cancellation request approved'),
+      admin_id_param,
+      'admin'
+    );
+
+    IF order_status_is_paid(order_rec.status) THEN
+      PERFORM create_order_refund(order_rec, request_rec.id, request_rec.refund_upi_id);
+    END IF;
+  END IF;
+
+  UPDATE order_cancellation_requests
+  SET status = CASE WHEN approve_param THEN 'approved' ELSE 'rejected' END,
+      admin_notes = admin_notes_param,
+      processed_at = NOW(),
+      processed_by = admin_id_param,
+      updated_at = NOW()
+  WHERE id = request_rec.id
+  RETURNING * INTO request_rec;
+
+  RETURN request_rec;
+END;
+$$;
+
+-- ================================================================
+-- 5. RLS AND PERMISSIONS
+-- ================================================================
+
+ALTER TABLE order_cancellation_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own cancellation requests" ON order_cancellation_requests;
+CREATE POLICY "Users can view own cancellation requests" ON order_cancellation_requests
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own refunds" ON refunds;
+CREATE POLICY "Users can view own refunds" ON refunds
+    FOR SELECT USING (auth.uid() = user_id);
+
+GRANT EXECUTE ON FUNCTION request_order_cancellation(UUID, TEXT, TEXT) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION process_order_cancellation_request(UUID, BOOLEAN, UUID, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION process_order_cancellation_request(UUID, BOOLEAN, UUID, TEXT) FROM authenticated;
+GRANT EXECUTE ON FUNCTION process_order_cancellation_request(UUID, BOOLEAN, UUID, TEXT) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION reverse_order_commissions(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION reverse_order_commissions(UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION reverse_order_commissions(UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION create_order_refund(public.orders, UUID, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION create_order_refund(public.orders, UUID, TEXT) FROM authenticated;
+
+COMMIT;
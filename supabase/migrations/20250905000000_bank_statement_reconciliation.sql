@@ -0,0 +1,90 @@
+-- Bank statement reconciliation for manual UPI payments
+-- Admins import bank/UPI statement exports; every credit line is stored and
+-- matched against pending upi_payment_notifications and subscription_requests
+-- by UTR, amount and time. Confident matches are verified automatically and
+-- the rest wait in a review queue.
+
+BEGIN;
+
+-- The notifications table predates the migrations folder; make sure it exists
+CREATE TABLE IF NOT EXISTS upi_payment_notifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID REFERENCES orders(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    amount DECIMAL(10,2) NOT NULL,
+    upi_id TEXT NOT NULL,
+    transaction_reference TEXT,
+    status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'rejected')),
+    user_message TEXT,
+    admin_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    verified_at TIMESTAMP WITH TIME ZONE,
+    verified_by UUID
+);
+
+-- ================================================================
+-- 1. IMPORTS AND ENTRIES
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS bank_statement_imports (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    imported_by UUID,
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    credit_rows INTEGER NOT NULL DEFAULT 0,
+    duplicate_rows INTEGER NOT NULL DEFAULT 0,
+    auto_matched INTEGER NOT NULL DEFAULT 0,
+    needs_review INTEGER NOT NULL DEFAULT 0,
+    unmatched INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS bank_statement_entries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    import_id UUID NOT NULL REFERENCES bank_statement_imports(id) ON DELETE CASCADE,
+    transaction_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    utr TEXT,
+    description TEXT,
+    raw_row JSONB,
+    status TEXT NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched', 'needs_review', 'auto_matched', 'matched', 'ignored')),
+    match_type TEXT CHECK (match_type IN ('payment_notification', 'subscription_request')),
+    match_id UUID,
+    match_reason TEXT,
+    candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+    reviewed_by UUID,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A UTR is unique per credit, so re-importing an overlapping statement is harmless
+CREATE UNIQUE INDEX IF NOT EXISTS bank_statement_entries_utr_idx
+    ON bank_statement_entries (utr) WHERE utr IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS bank_statement_entries_status_idx
+    ON bank_statement_entries (status, transaction_date);
+
+-- Each notification or subscription request can settle at most one credit
+CREATE UNIQUE INDEX IF NOT EXISTS bank_statement_entries_match_idx
+    ON bank_statement_entries (match_type, match_id) WHERE match_id IS NOT NULL;
+
+-- ================================================================
+-- 2. SETTINGS
+-- ================================================================
+
+INSERT INTO system_settings (key, value, description)
+VALUES (
+    'reconciliation_config',
+    '{"time_window_hours": 48, "amount_tolerance": 0}'::jsonb,
+    'Bank statement matching: how far a credit may be from the payment claim and how much the amount may differ'
+) ON CONFLICT (key) DO NOTHING;
+
+-- ================================================================
+-- 3. RLS
+-- ================================================================
+
+-- Only the service role (admin client) reads or writes statements
+ALTER TABLE bank_statement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_statement_entries ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
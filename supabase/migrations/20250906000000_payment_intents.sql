@@ -0,0 +1,384 @@
+-- Server-issued UPI payment intents
+-- Before showing a UPI QR/link the client asks for a payment intent. The
+-- server prices the cart or plan, issues a unique reference (used as the UPI
+-- tn/tr fields) and optionally adds a paise offset so that no two in-flight
+-- payments share an amount. The intent is attached to the order or
+-- subscription request once it exists, letting admin verification and
+-- statement reconciliation match payments deterministically.
+
+BEGIN;
+
+-- ================================================================
+-- 1. TABLE
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS payment_intents (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    purpose TEXT NOT NULL CHECK (purpose IN ('order', 'subscription')),
+    reference TEXT NOT NULL UNIQUE,
+    base_amount DECIMAL(10,2) NOT NULL CHECK (base_amount > 0),
+    amount_offset DECIMAL(4,2) NOT NULL DEFAULT 0 CHECK (amount_offset >= 0 AND amount_offset < 1),
+    amount DECIMAL(10,2) NOT NULL,
+    plan_id UUID REFERENCES subscription_plans(id),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'attached', 'paid', 'expired', 'cancelled')),
+    order_id UUID UNIQUE REFERENCES orders(id) ON DELETE SET NULL,
+    subscription_request_id UUID UNIQUE REFERENCES subscription_requests(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    attached_at TIMESTAMP WITH TIME ZONE,
+    paid_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS payment_intents_user_id_idx ON payment_intents (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS payment_intents_in_flight_amount_idx
+    ON payment_intents (amount) WHERE status IN ('open', 'attached');
+
+-- ================================================================
+-- 2. SETTINGS
+-- ================================================================
+
+INSERT INTO system_settings (key, value, description)
+VALUES (
+    'payment_intent_config',
+    '{"expiry_minutes": 30, "use_amount_offset": true}'::jsonb,
+    'How long a UPI payment link stays valid and whether a paise offset makes each amount unique'
+) ON CONFLICT (key) DO NOTHING;
+
+-- ================================================================
+-- 3. ISSUING INTENTS
+-- ================================================================
+
+-- Expire open intents whose link is no longer valid. Called when issuing new
+-- intents and from the scheduled job below when pg_cron is available.
+CREATE OR REPLACE FUNCTION expire_payment_intents()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  UPDATE payment_intents
+  SET status = 'expired',
+      updated_at = NOW()
+  WHERE status = 'open' AND expires_at < NOW();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+-- Short, unambiguous reference safe for UPI tn/tr fields (no 0/O, 1/I/L)
+CREATE OR REPLACE FUNCTION generate_payment_reference()
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  alphabet CONSTANT TEXT := '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+  candidate TEXT;
+BEGIN
+  LOOP
+    candidate := 'MTV';
+    FOR i IN 1..9 LOOP
+      candidate := candidate || substr(alphabet, 1 + floor(random() * length(alphabet))::INTEGER, 1);
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM payment_intents WHERE reference = candidate);
+  END LOOP;
+
+  RETURN candidate;
+END;
+$$;
+
+-- Issue a payment intent for the signed-in user. Orders are priced from
+-- items_param ([{product_id, quantity}]) and subscriptions from plan_id_param.
+-- An open intent for the same purpose and amount is reused.
+CREATE OR REPLACE FUNCTION create_payment_intent(
+  purpose_param TEXT,
+  items_param JSONB DEFAULT NULL,
+  plan_id_param UUID DEFAULT NULL
+)
+RETURNS public.payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  config JSONB;
+  price DECIMAL(10,2);
+  offset_amount DECIMAL(4,2) := 0;
+  missing_products INTEGER;
+  intent public.payment_intents;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to start a payment'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF purpose_param = 'order' THEN
+    IF items_param IS NULL
+       OR jsonb_typeof(items_param) <> 'array'
+       OR jsonb_array_length(items_param) = 0 THEN
+      RAISE EXCEPTION 'Order must contain at least one item'
+        USING ERRCODE = '22023';
+    END IF;
+
+    SELECT COUNT(*) FILTER (WHERE p.id IS NULL OR NOT p.is_active),
+           SUM(p.price * (item ->> 'quantity')::INTEGER)
+    INTO missing_products, price
+    FROM jsonb_array_elements(items_param) AS item
+    LEFT JOIN products p ON p.id = (item ->> 'product_id')::UUID;
+
+    IF missing_products > 0 THEN
+      RAISE EXCEPTION 'One or more products are no longer available'
+        USING ERRCODE = 'P0002';
+    END IF;
+  ELSIF purpose_param = 'subscription' THEN
+    SELECT sp.price INTO price
+    FROM subscription_plans sp
+    WHERE sp.id = plan_id_param AND sp.is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Subscription plan % is not available', plan_id_param
+        USING ERRCODE = 'P0002';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Invalid payment purpose: %', purpose_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF price IS NULL OR price <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM expire_payment_intents();
+
+  SELECT * INTO intent
+  FROM payment_intents
+  WHERE user_id = caller_id
+    AND purpose = purpose_param
+    AND status = 'open'
+    AND base_amount = price
+    AND plan_id IS NOT DISTINCT FROM plan_id_param
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN intent;
+  END IF;
+
+  SELECT value INTO config FROM system_settings WHERE key = 'payment_intent_config';
+
+  IF COALESCE((config ->> 'use_amount_offset')::BOOLEAN, true) THEN
+    -- Serialise offset allocation so two checkouts cannot pick the same amount
+    PERFORM pg_advisory_xact_lock(hashtext('payment_intents.amount_offset'));
+
+    SELECT candidate.paise / 100.0 INTO offset_amount
+    FROM generate_series(1, 99) AS candidate(paise)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM payment_intents pi
+      WHERE pi.status IN ('open', 'attached')
+        AND pi.amount = price + candidate.paise / 100.0
+    )
+    ORDER BY candidate.paise
+    LIMIT 1;
+
+    -- Every offset is taken: fall back to the reference alone
+    offset_amount := COALESCE(offset_amount, 0);
+  END IF;
+
+  INSERT INTO payment_intents (
+    user_id, purpose, reference, base_amount, amount_offset, amount, plan_id, expires_at
+  ) VALUES (
+    caller_id,
+    purpose_param,
+    generate_payment_reference(),
+    price,
+    offset_amount,
+    price + offset_amount,
+    plan_id_param,
+    NOW() + make_interval(mins => COALESCE((config ->> 'expiry_minutes')::INTEGER, 30))
+  )
+  RETURNING * INTO intent;
+
+  RETURN intent;
+END;
+$$;
+
+-- Link an intent to the order or subscription request it paid for. Expired
+-- intents can still be attached: the customer may have paid just before expiry.
+CREATE OR REPLACE FUNCTION attach_payment_intent(
+  intent_id_param UUID,
+  order_id_param UUID DEFAULT NULL,
+  subscription_request_id_param UUID DEFAULT NULL
+)
+RETURNS public.payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  intent public.payment_intents;
+BEGIN
+  SELECT * INTO intent FROM payment_intents WHERE id = intent_id_param FOR UPDATE;
+
+  IF NOT FOUND OR intent.user_id IS DISTINCT FROM caller_id THEN
+    RAISE EXCEPTION 'Payment intent % not found', intent_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF intent.status NOT IN ('open', 'expired') THEN
+    RAISE EXCEPTION 'Payment intent is already %', intent.status
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  IF intent.purpose = 'order' THEN
+    IF order_id_param IS NULL OR NOT EXISTS (
+      SELECT 1 FROM orders WHERE id = order_id_param AND user_id = caller_id
+    ) THEN
+      RAISE EXCEPTION 'Order % not found', order_id_param
+        USING ERRCODE = 'P0002';
+    END IF;
+  ELSE
+    IF subscription_request_id_param IS NULL OR NOT EXISTS (
+      SELECT 1 FROM subscription_requests WHERE id = subscription_request_id_param AND user_id = caller_id
+    ) THEN
+      RAISE EXCEPTION 'Subscription request % not found', subscription_request_id_param
+        USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  UPDATE payment_intents
+  SET status = 'attached',
+      order_id = CASE WHEN intent.purpose = 'order' THEN order_id_param END,
+      subscription_request_id = CASE WHEN intent.purpose = 'subscription' THEN subscription_request_id_param END,
+      attached_at = NOW(),
+      updated_at = NOW()
+  WHERE id = intent.id
+  RETURNING * INTO intent;
+
+  RETURN intent;
+END;
+$$;
+
+-- ================================================================
+-- 4. SETTLEMENT TRIGGERS
+-- ================================================================
+
+-- Verified order payments settle the intent attached to the order
+CREATE OR REPLACE FUNCTION settle_order_payment_intent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'verified' AND OLD.status IS DISTINCT FROM 'verified' AND NEW.order_id IS NOT NULL THEN
+    UPDATE payment_intents
+    SET status = 'paid',
+        paid_at = NOW(),
+        updated_at = NOW()
+    WHERE order_id = NEW.order_id AND status IN ('open', 'attached', 'expired');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS settle_order_payment_intent_trigger ON upi_payment_notifications;
+CREATE TRIGGER settle_order_payment_intent_trigger
+    AFTER UPDATE OF status ON upi_payment_notifications
+    FOR EACH ROW EXECUTE FUNCTION settle_order_payment_intent();
+
+-- Approved subscription requests settle their intent; rejected ones free it
+CREATE OR REPLACE FUNCTION settle_subscription_payment_intent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'approved' THEN
+    UPDATE payment_intents
+    SET status = 'paid',
+        paid_at = NOW(),
+        updated_at = NOW()
+    WHERE subscription_request_id = NEW.id AND status IN ('open', 'attached', 'expired');
+  ELSIF NEW.status = 'rejected' THEN
+    UPDATE payment_intents
+    SET status = 'cancelled',
+        updated_at = NOW()
+    WHERE subscription_request_id = NEW.id AND status = 'attached';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS settle_subscription_payment_intent_trigger ON subscription_requests;
+CREATE TRIGGER settle_subscription_payment_intent_trigger
+    AFTER UPDATE OF status ON subscription_requests
+    FOR EACH ROW EXECUTE FUNCTION settle_subscription_payment_intent();
+
+-- Cancelled orders free their amount for reuse
+CREATE OR REPLACE FUNCTION cancel_order_payment_intent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE payment_intents
+    SET status = 'cancelled',
+        updated_at = NOW()
+    WHERE order_id = NEW.id AND status = 'attached';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cancel_order_payment_intent_trigger ON orders;
+CREATE TRIGGER cancel_order_payment_intent_trigger
+    AFTER UPDATE OF status ON orders
+    FOR EACH ROW EXECUTE FUNCTION cancel_order_payment_intent();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'expire-payment-intents',
+      '*/5 * * * *',
+      'SELECT expire_payment_intents()'
+    );
+  END IF;
+END$$;
+
+-- ================================================================
+-- 5. RLS AND PERMISSIONS
+-- ================================================================
+
+ALTER TABLE payment_intents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own payment intents" ON payment_intents;
+CREATE POLICY "Users can view own payment intents" ON payment_intents
+    FOR SELECT USING (auth.uid() = user_id);
+
+GRANT EXECUTE ON FUNCTION create_payment_intent(TEXT, JSONB, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION attach_payment_intent(UUID, UUID, UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION expire_payment_intents() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION generate_payment_reference() FROM PUBLIC;
+
+COMMIT;
@@ -0,0 +1,135 @@
+-- Payment providers: manual UPI and Razorpay
+-- The active checkout provider is chosen in system_settings. Razorpay payments
+-- are confirmed by the verify-payment edge function and by the
+-- razorpay-webhook function; both go through mark_order_paid_by_gateway(),
+-- which is idempotent so a payment can be reported any number of times.
+
+BEGIN;
+
+-- ================================================================
+-- 1. ORDER COLUMNS
+-- ================================================================
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS payment_provider TEXT NOT NULL DEFAULT 'upi_manual'
+    CHECK (payment_provider IN ('upi_manual', 'razorpay'));
+
+-- A gateway order pays for exactly one of our orders
+CREATE UNIQUE INDEX IF NOT EXISTS orders_razorpay_order_id_idx
+    ON orders (razorpay_order_id) WHERE razorpay_order_id IS NOT NULL;
+
+-- ================================================================
+-- 2. WEBHOOK EVENTS
+-- ================================================================
+
+-- Every webhook delivery is recorded once per event id. Deliveries of an
+-- event that was already processed are acknowledged without side effects.
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    provider TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS payment_webhook_events_order_id_idx
+    ON payment_webhook_events (order_id);
+
+-- ================================================================
+-- 3. SETTINGS
+-- ================================================================
+
+INSERT INTO system_settings (key, value, description)
+VALUES (
+    'payment_provider_config',
+    '{"provider": "upi_manual"}'::jsonb,
+    'Checkout payment provider: upi_manual (QR code, verified by an admin) or razorpay'
+) ON CONFLICT (key) DO NOTHING;
+
+-- ================================================================
+-- 4. GATEWAY SETTLEMENT
+-- ================================================================
+
+-- Mark an order paid after the gateway confirmed the payment. Returns true
+-- when this call moved the order to paid and false when it already was.
+CREATE OR REPLACE FUNCTION mark_order_paid_by_gateway(
+  order_id_param UUID,
+  provider_param TEXT,
+  payment_id_param TEXT,
+  gateway_order_id_param TEXT,
+  amount_param DECIMAL DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_rec public.orders;
+  settle_note TEXT := format('Payment %s captured by %s', payment_id_param, provider_param);
+BEGIN
+  SELECT * INTO order_rec FROM orders WHERE id = order_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', order_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF order_rec.razorpay_order_id IS DISTINCT FROM gateway_order_id_param THEN
+    RAISE EXCEPTION 'Gateway order % does not belong to order %', gateway_order_id_param, order_id_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF order_status_is_paid(order_rec.status) THEN
+    RETURN false;
+  END IF;
+
+  IF amount_param IS NOT NULL AND amount_param <> order_rec.total_amount THEN
+    RAISE EXCEPTION 'Captured amount % does not match order total %', amount_param, order_rec.total_amount
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF order_rec.status IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Order % was % before the payment was captured', order_id_param, order_rec.status
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  UPDATE orders
+  SET payment_id = payment_id_param,
+      payment_provider = provider_param
+  WHERE id = order_id_param;
+
+  -- Walk the state machine up to payment_pending before settling
+  IF order_rec.status = 'pending' THEN
+    PERFORM transition_order_status(order_id_param, 'confirmed', settle_note, NULL, 'system');
+  END IF;
+
+  IF order_rec.status IN ('pending', 'confirmed', 'payment_failed') THEN
+    PERFORM transition_order_status(order_id_param, 'payment_pending', settle_note, NULL, 'system');
+  END IF;
+
+  PERFORM transition_order_status(order_id_param, 'paid', settle_note, NULL, 'system');
+
+  RETURN true;
+END;
+$$;
+
+-- ================================================================
+-- 5. RLS AND PERMISSIONS
+-- ================================================================
+
+-- Webhook events are only touched by edge functions using the service role
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION mark_order_paid_by_gateway(UUID, TEXT, TEXT, TEXT, DECIMAL) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION mark_order_paid_by_gateway(UUID, TEXT, TEXT, TEXT, DECIMAL) FROM authenticated;
+GRANT EXECUTE ON FUNCTION mark_order_paid_by_gateway(UUID, TEXT, TEXT, TEXT, DECIMAL) TO service_role;
+
+COMMIT;
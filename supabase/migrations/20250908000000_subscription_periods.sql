@@ -0,0 +1,228 @@
+-- Subscription periods, renewals and grace periods
+-- Approving a subscription request now opens (or extends) a user_subscriptions
+-- period sized by the plan's duration_months. A scheduled job expires periods
+-- once their grace period has passed and clears the user_profiles flag that
+-- the app checks for access.
+
+BEGIN;
+
+-- ================================================================
+-- 1. COLUMNS
+-- ================================================================
+
+ALTER TABLE subscription_requests
+ADD COLUMN IF NOT EXISTS plan_id UUID REFERENCES subscription_plans(id),
+ADD COLUMN IF NOT EXISTS request_type TEXT NOT NULL DEFAULT 'new' CHECK (request_type IN ('new', 'renewal')),
+ADD COLUMN IF NOT EXISTS subscription_id UUID REFERENCES user_subscriptions(id) ON DELETE SET NULL;
+
+ALTER TABLE user_subscriptions
+ADD COLUMN IF NOT EXISTS subscription_request_id UUID REFERENCES subscription_requests(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS renewed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS expired_at TIMESTAMP WITH TIME ZONE;
+
+-- ================================================================
+-- 2. BACKFILL
+-- ================================================================
+
+-- Periods created without an end date run for a year from their start
+UPDATE user_subscriptions
+SET expires_at = started_at + INTERVAL '12 months'
+WHERE expires_at IS NULL;
+
+-- Keep only the latest active period per user
+UPDATE user_subscriptions s
+SET status = 'expired',
+    expired_at = NOW()
+WHERE s.status = 'active'
+  AND EXISTS (
+    SELECT 1 FROM user_subscriptions newer
+    WHERE newer.user_id = s.user_id
+      AND newer.status = 'active'
+      AND (newer.expires_at, newer.id) > (s.expires_at, s.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_subscriptions_one_active_idx
+    ON user_subscriptions (user_id) WHERE status = 'active';
+
+-- Users activated before periods existed get a one-year period from their
+-- last approved request (or their last profile change when there is none)
+INSERT INTO user_subscriptions (user_id, status, started_at, expires_at)
+SELECT p.user_id,
+       'active',
+       COALESCE(last_request.processed_at, p.updated_at, NOW()),
+       COALESCE(last_request.processed_at, p.updated_at, NOW()) + INTERVAL '12 months'
+FROM user_profiles p
+LEFT JOIN LATERAL (
+    SELECT r.processed_at
+    FROM subscription_requests r
+    WHERE r.user_id = p.user_id AND r.status = 'approved'
+    ORDER BY r.processed_at DESC NULLS LAST
+    LIMIT 1
+) last_request ON true
+WHERE p.subscription_status = 'active'
+  AND NOT EXISTS (
+    SELECT 1 FROM user_subscriptions s
+    WHERE s.user_id = p.user_id AND s.status = 'active'
+  );
+
+-- ================================================================
+-- 3. SETTINGS
+-- ================================================================
+
+INSERT INTO system_settings (key, value, description)
+VALUES (
+    'subscription_config',
+    '{"grace_period_days": 7, "renewal_window_days": 30}'::jsonb,
+    'Subscription periods: days of access kept after expiry, and how early before expiry renewal is offered'
+) ON CONFLICT (key) DO NOTHING;
+
+-- ================================================================
+-- 4. APPROVAL AND EXPIRY
+-- ================================================================
+
+-- Approve a pending request: extend the user's current period (renewal) or
+-- open a new one. A period still in its grace period is extended from its
+-- original end so renewals stay contiguous.
+CREATE OR REPLACE FUNCTION approve_subscription_request(
+  request_id_param UUID,
+  admin_notes_param TEXT DEFAULT NULL,
+  processed_by_param UUID DEFAULT NULL
+)
+RETURNS public.user_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_rec public.subscription_requests;
+  plan_rec public.subscription_plans;
+  period public.user_subscriptions;
+  period_length INTERVAL;
+  is_renewal BOOLEAN := false;
+BEGIN
+  SELECT * INTO request_rec FROM subscription_requests WHERE id = request_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription request % not found', request_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF request_rec.status <> 'pending' THEN
+    RAISE EXCEPTION 'Subscription request is already %', request_rec.status
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  SELECT * INTO plan_rec FROM subscription_plans WHERE id = request_rec.plan_id;
+
+  -- Requests made before plans were recorded buy the cheapest active plan
+  IF NOT FOUND THEN
+    SELECT * INTO plan_rec FROM subscription_plans WHERE is_active ORDER BY price LIMIT 1;
+  END IF;
+
+  period_length := make_interval(months => COALESCE(plan_rec.duration_months, 12));
+
+  SELECT * INTO period
+  FROM user_subscriptions
+  WHERE user_id = request_rec.user_id AND status = 'active'
+  FOR UPDATE;
+
+  IF FOUND THEN
+    is_renewal := true;
+
+    UPDATE user_subscriptions
+    SET expires_at = GREATEST(expires_at + period_length, NOW()),
+        plan_id = COALESCE(plan_rec.id, plan_id),
+        subscription_request_id = request_rec.id,
+        renewed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = period.id
+    RETURNING * INTO period;
+  ELSE
+    INSERT INTO user_subscriptions (user_id, plan_id, status, started_at, expires_at, subscription_request_id)
+    VALUES (request_rec.user_id, plan_rec.id, 'active', NOW(), NOW() + period_length, request_rec.id)
+    RETURNING * INTO period;
+  END IF;
+
+  UPDATE subscription_requests
+  SET status = 'approved',
+      processed_at = NOW(),
+      processed_by = processed_by_param,
+      admin_notes = COALESCE(admin_notes_param, admin_notes),
+      plan_id = COALESCE(plan_id, plan_rec.id),
+      request_type = CASE WHEN is_renewal THEN 'renewal' ELSE 'new' END,
+      subscription_id = period.id,
+      updated_at = NOW()
+  WHERE id = request_rec.id;
+
+  UPDATE user_profiles
+  SET subscription_status = 'active',
+      updated_at = NOW()
+  WHERE user_id = request_rec.user_id;
+
+  RETURN period;
+END;
+$$;
+
+-- Expire periods whose grace period has passed and revoke access. Returns the
+-- number of subscriptions expired.
+CREATE OR REPLACE FUNCTION expire_lapsed_subscriptions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  grace_days INTEGER;
+  expired_users UUID[];
+BEGIN
+  SELECT COALESCE((value ->> 'grace_period_days')::INTEGER, 7) INTO grace_days
+  FROM system_settings WHERE key = 'subscription_config';
+
+  WITH expired AS (
+    UPDATE user_subscriptions
+    SET status = 'expired',
+        expired_at = NOW(),
+        updated_at = NOW()
+    WHERE status = 'active'
+      AND expires_at + make_interval(days => COALESCE(grace_days, 7)) < NOW()
+    RETURNING user_id
+  )
+  SELECT array_agg(user_id) INTO expired_users FROM expired;
+
+  IF expired_users IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE user_profiles
+  SET subscription_status = 'inactive',
+      updated_at = NOW()
+  WHERE user_id = ANY(expired_users);
+
+  RETURN array_length(expired_users, 1);
+END;
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'expire-lapsed-subscriptions',
+      '15 * * * *',
+      'SELECT expire_lapsed_subscriptions()'
+    );
+  END IF;
+END$$;
+
+-- ================================================================
+-- 5. PERMISSIONS
+-- ================================================================
+
+REVOKE EXECUTE ON FUNCTION approve_subscription_request(UUID, TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION approve_subscription_request(UUID, TEXT, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION approve_subscription_request(UUID, TEXT, UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION expire_lapsed_subscriptions() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION expire_lapsed_subscriptions() FROM authenticated;
+GRANT EXECUTE ON FUNCTION expire_lapsed_subscriptions() TO service_role;
+
+COMMIT;
@@ -0,0 +1,201 @@
+-- Subscription plan catalogue
+-- Customers choose between several plans (monthly, quarterly, annual, ...).
+-- Requests record the chosen plan and are checked against its price, and a
+-- per-plan multiplier lets the referral payout scale with the plan bought.
+
+BEGIN;
+
+-- ================================================================
+-- 1. PLAN COLUMNS
+-- ================================================================
+
+-- 1 pays the configured referral rewards unchanged; e.g. 0.25 for a monthly
+-- plan pays a quarter of them
+ALTER TABLE subscription_plans
+ADD COLUMN IF NOT EXISTS referral_reward_multiplier DECIMAL(6,3) NOT NULL DEFAULT 1
+    CHECK (referral_reward_multiplier >= 0),
+ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE subscription_plans
+DROP CONSTRAINT IF EXISTS subscription_plans_price_check;
+ALTER TABLE subscription_plans
+ADD CONSTRAINT subscription_plans_price_check CHECK (price >= 0);
+
+ALTER TABLE subscription_plans
+DROP CONSTRAINT IF EXISTS subscription_plans_duration_check;
+ALTER TABLE subscription_plans
+ADD CONSTRAINT subscription_plans_duration_check CHECK (duration_months > 0);
+
+-- Admins see inactive plans too (through the service role); customers only
+-- ever see active ones
+CREATE INDEX IF NOT EXISTS subscription_plans_active_idx
+    ON subscription_plans (is_active, sort_order, price);
+
+-- ================================================================
+-- 2. REQUEST VALIDATION
+-- ================================================================
+
+-- Requests must name an active plan and pay its price. The amount may carry
+-- the paise offset of a payment intent, so anything below price + 1 passes.
+-- Requests from clients that predate plan selection get the cheapest plan.
+CREATE OR REPLACE FUNCTION validate_subscription_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_rec public.subscription_plans;
+BEGIN
+  IF NEW.plan_id IS NULL THEN
+    SELECT * INTO plan_rec FROM subscription_plans WHERE is_active ORDER BY price LIMIT 1;
+    NEW.plan_id := plan_rec.id;
+  ELSE
+    SELECT * INTO plan_rec FROM subscription_plans WHERE id = NEW.plan_id;
+  END IF;
+
+  IF plan_rec.id IS NULL THEN
+    RAISE EXCEPTION 'Subscription plan not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT plan_rec.is_active THEN
+    RAISE EXCEPTION 'Subscription plan "%" is no longer available', plan_rec.name
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.amount < plan_rec.price OR NEW.amount >= plan_rec.price + 1 THEN
+    RAISE EXCEPTION 'Amount % does not match the price of plan "%" (%)', NEW.amount, plan_rec.name, plan_rec.price
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_subscription_request_trigger ON subscription_requests;
+CREATE TRIGGER validate_subscription_request_trigger
+    BEFORE INSERT ON subscription_requests
+    FOR EACH ROW EXECUTE FUNCTION validate_subscription_request();
+
+-- ================================================================
+-- 3. PLAN-SCALED REFERRAL REWARDS
+-- ================================================================
+
+-- Same chain walk as before; each level's reward is multiplied by the
+-- referral_reward_multiplier of the plan on the user's active subscription
+CREATE OR REPLACE FUNCTION process_referral_rewards(
+  new_active_user_id UUID,
+  trigger_type_param TEXT DEFAULT 'subscription_activation'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reward_config JSONB;
+  current_user_id UUID;
+  new_user_profile_id UUID;
+  current_level INTEGER := 1;
+  reward_amount DECIMAL;
+  reward_multiplier DECIMAL := 1;
+  total_distributed DECIMAL := 0;
+BEGIN
+  SELECT value INTO reward_config
+  FROM system_settings
+  WHERE key = 'referral_reward_config';
+
+  IF reward_config IS NULL THEN
+    reward_config := '{
+      "level1": 200,
+      "level2": 15,
+      "level3": 11,
+      "level4": 9,
+      "level5": 7,
+      "level6": 5,
+      "level7": 3
+    }'::JSONB;
+  END IF;
+
+  SELECT id INTO new_user_profile_id
+  FROM user_profiles
+  WHERE user_id = new_active_user_id;
+
+  IF new_user_profile_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'message', 'User profile not found',
+      'distributed', 0
+    );
+  END IF;
+
+  SELECT COALESCE(sp.referral_reward_multiplier, 1) INTO reward_multiplier
+  FROM user_subscriptions us
+  JOIN subscription_plans sp ON sp.id = us.plan_id
+  WHERE us.user_id = new_active_user_id AND us.status = 'active';
+
+  reward_multiplier := COALESCE(reward_multiplier, 1);
+  current_user_id := new_user_profile_id;
+
+  WHILE current_level <= 7 LOOP
+    SELECT referred_by INTO current_user_id
+    FROM user_profiles
+    WHERE id = current_user_id;
+
+    EXIT WHEN current_user_id IS NULL;
+
+    reward_amount := ROUND(COALESCE((reward_config ->> ('level' || current_level))::DECIMAL, 0) * reward_multiplier, 2);
+
+    IF reward_amount > 0 AND NOT EXISTS (
+      SELECT 1 FROM referral_commissions
+      WHERE referrer_id = current_user_id
+      AND trigger_user_id = new_active_user_id
+      AND trigger_type = trigger_type_param
+      AND level = current_level
+    ) THEN
+      INSERT INTO referral_commissions (
+        referrer_id,
+        referee_id,
+        order_id,
+        level,
+        commission_rate,
+        commission_amount,
+        status,
+        trigger_type,
+        trigger_user_id
+      ) VALUES (
+        current_user_id,
+        new_user_profile_id,
+        NULL,
+        current_level,
+        0,
+        reward_amount,
+        'paid',
+        trigger_type_param,
+        new_active_user_id
+      );
+
+      UPDATE user_profiles
+      SET
+        total_earnings = total_earnings + reward_amount,
+        available_balance = available_balance + reward_amount,
+        updated_at = NOW()
+      WHERE id = current_user_id;
+
+      total_distributed := total_distributed + reward_amount;
+    END IF;
+
+    current_level := current_level + 1;
+  END LOOP;
+
+  RETURN json_build_object(
+    'success', true,
+    'levels_processed', current_level - 1,
+    'total_distributed', total_distributed,
+    'reward_multiplier', reward_multiplier
+  );
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,536 @@
+-- Typed subscription plan features
+-- subscription_plans.features becomes a fixed schema instead of a free-form
+-- list:
+--   highlights               text[]   marketing bullet points on the plan card
+--   shopping                 boolean  cart and checkout
+--   referral_rewards         boolean  the member earns referral rewards
+--   member_discount_percent  0..100   discount on product prices
+-- The storefront gates on these through useFeature; member pricing and
+-- referral eligibility are also enforced here.
+
+BEGIN;
+
+-- ================================================================
+-- 1. MIGRATE EXISTING FEATURE LISTS
+-- ================================================================
+
+UPDATE subscription_plans
+SET features = jsonb_build_object(
+      'highlights', COALESCE(features -> 'features', '[]'::jsonb),
+      'shopping', true,
+      'referral_rewards', true,
+      'member_discount_percent', 0
+    )
+WHERE features IS NULL OR NOT (features ? 'highlights');
+
+ALTER TABLE subscription_plans
+ALTER COLUMN features SET DEFAULT '{"highlights": [], "shopping": true, "referral_rewards": true, "member_discount_percent": 0}'::jsonb;
+
+ALTER TABLE subscription_plans
+DROP CONSTRAINT IF EXISTS subscription_plans_features_check;
+ALTER TABLE subscription_plans
+ADD CONSTRAINT subscription_plans_features_check CHECK (
+    jsonb_typeof(features) = 'object'
+    AND jsonb_typeof(features -> 'highlights') = 'array'
+    AND jsonb_typeof(features -> 'shopping') = 'boolean'
+    AND jsonb_typeof(features -> 'referral_rewards') = 'boolean'
+    AND jsonb_typeof(features -> 'member_discount_percent') = 'number'
+    AND (features ->> 'member_discount_percent')::DECIMAL BETWEEN 0 AND 100
+);
+
+-- ================================================================
+-- 2. FEATURE LOOKUP
+-- ================================================================
+
+-- Features of the plan on the user's current subscription (including its
+-- grace period), or NULL when the user has none. Periods created before plans
+-- were recorded get the defaults.
+CREATE OR REPLACE FUNCTION plan_features_for_user(user_id_param UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  defaults JSONB := '{"highlights": [], "shopping": true, "referral_rewards": true, "member_discount_percent": 0}'::jsonb;
+  grace_days INTEGER;
+  plan_features JSONB;
+BEGIN
+  SELECT COALESCE((value ->> 'grace_period_days')::INTEGER, 7) INTO grace_days
+  FROM system_settings WHERE key = 'subscription_config';
+
+  SELECT COALESCE(sp.features, '{}'::jsonb) INTO plan_features
+  FROM user_subscriptions us
+  LEFT JOIN subscription_plans sp ON sp.id = us.plan_id
+  WHERE us.user_id = user_id_param
+    AND us.status = 'active'
+    AND (us.expires_at IS NULL
+         OR us.expires_at + make_interval(days => COALESCE(grace_days, 7)) > NOW());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN defaults || plan_features;
+END;
+$$;
+
+-- The signed-in user's plan features, for the storefront
+CREATE OR REPLACE FUNCTION get_my_plan_features()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT plan_features_for_user(auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION member_discount_percent(user_id_param UUID)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((plan_features_for_user(user_id_param) ->> 'member_discount_percent')::DECIMAL, 0);
+$$;
+
+-- Whether a referrer (by profile id) earns referral rewards. Referrers without
+-- a current subscription keep earning as before; only plans that switch the
+-- feature off stop it.
+CREATE OR REPLACE FUNCTION referrer_earns_rewards(referrer_profile_id_param UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((plan_features_for_user(up.user_id) ->> 'referral_rewards')::BOOLEAN, true)
+  FROM user_profiles up
+  WHERE up.id = referrer_profile_id_param;
+$$;
+
+-- ================================================================
+-- 3. MEMBER PRICING
+-- ================================================================
+
+-- As before, with each unit priced at the buyer's member price
+CREATE OR REPLACE FUNCTION place_order(
+  items_param JSONB,
+  shipping_address_param JSONB,
+  initial_status_param TEXT DEFAULT 'pending'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  discount DECIMAL;
+  unit_price DECIMAL(10,2);
+  line RECORD;
+  product_rec RECORD;
+  order_total DECIMAL(10,2) := 0;
+  new_order public.orders;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF initial_status_param NOT IN ('pending', 'payment_pending') THEN
+    RAISE EXCEPTION 'Invalid initial order status: %', initial_status_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF items_param IS NULL
+     OR jsonb_typeof(items_param) <> 'array'
+     OR jsonb_array_length(items_param) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item'
+      USING ERRCODE = '22023';
+  END IF;
+
+  discount := member_discount_percent(buyer_id);
+
+  -- Free up stock held by abandoned checkouts before checking availability
+  PERFORM release_expired_stock_reservations();
+
+  -- Merge duplicate lines so each product is checked once
+  CREATE TEMP TABLE place_order_lines ON COMMIT DROP AS
+  SELECT (item ->> 'product_id')::UUID AS product_id,
+         SUM((item ->> 'quantity')::INTEGER) AS quantity,
+         0::DECIMAL(10,2) AS price
+  FROM jsonb_array_elements(items_param) AS item
+  GROUP BY (item ->> 'product_id')::UUID;
+
+  IF EXISTS (SELECT 1 FROM place_order_lines WHERE quantity IS NULL OR quantity <= 0) THEN
+    RAISE EXCEPTION 'Item quantities must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Reprice and check stock. Rows are locked in id order to avoid deadlocks
+  -- between concurrent checkouts of the same products.
+  FOR line IN SELECT * FROM place_order_lines ORDER BY product_id LOOP
+    SELECT id, name, price, stock_quantity, is_active
+    INTO product_rec
+    FROM products
+    WHERE id = line.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT product_rec.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', line.product_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF COALESCE(product_rec.stock_quantity, 0) < line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: only % left', product_rec.name, COALESCE(product_rec.stock_quantity, 0)
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    unit_price := ROUND(product_rec.price * (100 - discount) / 100, 2);
+
+    UPDATE place_order_lines
+    SET price = unit_price
+    WHERE product_id = line.product_id;
+
+    order_total := order_total + unit_price * line.quantity;
+  END LOOP;
+
+  INSERT INTO orders (user_id, total_amount, shipping_address, status)
+  VALUES (buyer_id, order_total, shipping_address_param, initial_status_param)
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (order_id, product_id, quantity, price)
+  SELECT new_order.id, product_id, quantity, price
+  FROM place_order_lines;
+
+  -- Take the stock and hold it against the order until payment is verified
+  FOR line IN SELECT * FROM place_order_lines ORDER BY product_id LOOP
+    PERFORM apply_stock_movement(line.product_id, -line.quantity, 'sale', new_order.id, 'Reserved at checkout', buyer_id);
+
+    INSERT INTO stock_reservations (order_id, product_id, quantity, expires_at)
+    VALUES (new_order.id, line.product_id, line.quantity, NOW() + get_stock_reservation_interval());
+  END LOOP;
+
+  DROP TABLE place_order_lines;
+
+  RETURN new_order;
+END;
+$$;
+
+-- As before, with orders priced the same way place_order prices them
+CREATE OR REPLACE FUNCTION create_payment_intent(
+  purpose_param TEXT,
+  items_param JSONB DEFAULT NULL,
+  plan_id_param UUID DEFAULT NULL
+)
+RETURNS public.payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  config JSONB;
+  discount DECIMAL;
+  price DECIMAL(10,2);
+  offset_amount DECIMAL(4,2) := 0;
+  missing_products INTEGER;
+  intent public.payment_intents;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to start a payment'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF purpose_param = 'order' THEN
+    IF items_param IS NULL
+       OR jsonb_typeof(items_param) <> 'array'
+       OR jsonb_array_length(items_param) = 0 THEN
+      RAISE EXCEPTION 'Order must contain at least one item'
+        USING ERRCODE = '22023';
+    END IF;
+
+    discount := member_discount_percent(caller_id);
+
+    SELECT COUNT(*) FILTER (WHERE p.id IS NULL OR NOT p.is_active),
+           SUM(ROUND(p.price * (100 - discount) / 100, 2) * (item ->> 'quantity')::INTEGER)
+    INTO missing_products, price
+    FROM jsonb_array_elements(items_param) AS item
+    LEFT JOIN products p ON p.id = (item ->> 'product_id')::UUID;
+
+    IF missing_products > 0 THEN
+      RAISE EXCEPTION 'One or more products are no longer available'
+        USING ERRCODE = 'P0002';
+    END IF;
+  ELSIF purpose_param = 'subscription' THEN
+    SELECT sp.price INTO price
+    FROM subscription_plans sp
+    WHERE sp.id = plan_id_param AND sp.is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Subscription plan % is not available', plan_id_param
+        USING ERRCODE = 'P0002';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Invalid payment purpose: %', purpose_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF price IS NULL OR price <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM expire_payment_intents();
+
+  SELECT * INTO intent
+  FROM payment_intents
+  WHERE user_id = caller_id
+    AND purpose = purpose_param
+    AND status = 'open'
+    AND base_amount = price
+    AND plan_id IS NOT DISTINCT FROM plan_id_param
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN intent;
+  END IF;
+
+  SELECT value INTO config FROM system_settings WHERE key = 'payment_intent_config';
+
+  IF COALESCE((config ->> 'use_amount_offset')::BOOLEAN, true) THEN
+    -- Serialise offset allocation so two checkouts cannot pick the same amount
+    PERFORM pg_advisory_xact_lock(hashtext('payment_intents.amount_offset'));
+
+    SELECT candidate.paise / 100.0 INTO offset_amount
+    FROM generate_series(1, 99) AS candidate(paise)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM payment_intents pi
+      WHERE pi.status IN ('open', 'attached')
+        AND pi.amount = price + candidate.paise / 100.0
+    )
+    ORDER BY candidate.paise
+    LIMIT 1;
+
+    -- Every offset is taken: fall back to the reference alone
+    offset_amount := COALESCE(offset_amount, 0);
+  END IF;
+
+  INSERT INTO payment_intents (
+    user_id, purpose, reference, base_amount, amount_offset, amount, plan_id, expires_at
+  ) VALUES (
+    caller_id,
+    purpose_param,
+    generate_payment_reference(),
+    price,
+    offset_amount,
+    price + offset_amount,
+    plan_id_param,
+    NOW() + make_interval(mins => COALESCE((config ->> 'expiry_minutes')::INTEGER, 30))
+  )
+  RETURNING * INTO intent;
+
+  RETURN intent;
+END;
+$$;
+
+-- ================================================================
+-- 4. REFERRAL ELIGIBILITY
+-- ================================================================
+
+-- As in the plan catalogue migration, skipping referrers whose plan does not
+-- include referral rewards
+CREATE OR REPLACE FUNCTION process_referral_rewards(
+  new_active_user_id UUID,
+  trigger_type_param TEXT DEFAULT 'subscription_activation'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reward_config JSONB;
+  current_user_id UUID;
+  new_user_profile_id UUID;
+  current_level INTEGER := 1;
+  reward_amount DECIMAL;
+  reward_multiplier DECIMAL := 1;
+  total_distributed DECIMAL := 0;
+BEGIN
+  SELECT value INTO reward_config
+  FROM system_settings
+  WHERE key = 'referral_reward_config';
+
+  IF reward_config IS NULL THEN
+    reward_config := '{
+      "level1": 200,
+      "level2": 15,
+      "level3": 11,
+      "level4": 9,
+      "level5": 7,
+      "level6": 5,
+      "level7": 3
+    }'::JSONB;
+  END IF;
+
+  SELECT id INTO new_user_profile_id
+  FROM user_profiles
+  WHERE user_id = new_active_user_id;
+
+  IF new_user_profile_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'message', 'User profile not found',
+      'distributed', 0
+    );
+  END IF;
+
+  SELECT COALESCE(sp.referral_reward_multiplier, 1) INTO reward_multiplier
+  FROM user_subscriptions us
+  JOIN subscription_plans sp ON sp.id = us.plan_id
+  WHERE us.user_id = new_active_user_id AND us.status = 'active';
+
+  reward_multiplier := COALESCE(reward_multiplier, 1);
+  current_user_id := new_user_profile_id;
+
+  WHILE current_level <= 7 LOOP
+    SELECT referred_by INTO current_user_id
+    FROM user_profiles
+    WHERE id = current_user_id;
+
+    EXIT WHEN current_user_id IS NULL;
+
+    reward_amount := ROUND(COALESCE((reward_config ->> ('level' || current_level))::DECIMAL, 0) * reward_multiplier, 2);
+
+    IF reward_amount > 0 AND referrer_earns_rewards(current_user_id) AND NOT EXISTS (
+      SELECT 1 FROM referral_commissions
+      WHERE referrer_id = current_user_id
+      AND trigger_user_id = new_active_user_id
+      AND trigger_type = trigger_type_param
+      AND level = current_level
+    ) THEN
+      INSERT INTO referral_commissions (
+        referrer_id,
+        referee_id,
+        order_id,
+        level,
+        commission_rate,
+        commission_amount,
+        status,
+        trigger_type,
+        trigger_user_id
+      ) VALUES (
+        current_user_id,
+        new_user_profile_id,
+        NULL,
+        current_level,
+        0,
+        reward_amount,
+        'paid',
+        trigger_type_param,
+        new_active_user_id
+      );
+
+      UPDATE user_profiles
+      SET
+        total_earnings = total_earnings + reward_amount,
+        available_balance = available_balance + reward_amount,
+        updated_at = NOW()
+      WHERE id = current_user_id;
+
+      total_distributed := total_distributed + reward_amount;
+    END IF;
+
+    current_level := current_level + 1;
+  END LOOP;
+
+  RETURN json_build_object(
+    'success', true,
+    'levels_processed', current_level - 1,
+    'total_distributed', total_distributed,
+    'reward_multiplier', reward_multiplier
+  );
+END;
+$$;
+
+-- Order commissions: same rates as before, skipping ineligible referrers
+CREATE OR REPLACE FUNCTION distribute_referral_commissions(order_id_param UUID)
+RETURNS VOID AS $$
+DECLARE
+    order_rec RECORD;
+    commission_rates DECIMAL[] := ARRAY[0.10, 0.05, 0.03, 0.02, 0.01, 0.01, 0.01]; -- 10%, 5%, 3%, 2%, 1%, 1%, 1%
+    current_level INTEGER := 1;
+    current_referrer_id UUID;
+    commission_amount DECIMAL(10,2);
+BEGIN
+    SELECT * INTO order_rec FROM public.orders WHERE id = order_id_param;
+
+    SELECT referred_by INTO current_referrer_id
+    FROM public.user_profiles
+    WHERE user_id = order_rec.user_id;
+
+    WHILE current_referrer_id IS NOT NULL AND current_level <= 7 LOOP
+        IF public.referrer_earns_rewards(current_referrer_id) THEN
+            commission_amount := order_rec.total_amount * commission_rates[current_level];
+
+            INSERT INTO public.referral_commissions (
+                referrer_id,
+                referee_id,
+                order_id,
+                level,
+                commission_rate,
+                commission_amount,
+                trigger_type,
+                trigger_user_id
+            ) VALUES (
+                current_referrer_id,
+                (SELECT id FROM public.user_profiles WHERE user_id = order_rec.user_id),
+                order_id_param,
+                current_level,
+                commission_rates[current_level],
+                commission_amount,
+                'order_purchase',
+                order_rec.user_id
+            );
+
+            UPDATE public.user_profiles
+            SET
+                total_earnings = total_earnings + commission_amount,
+                available_balance = available_balance + commission_amount,
+                updated_at = NOW()
+            WHERE id = current_referrer_id;
+        END IF;
+
+        SELECT referred_by INTO current_referrer_id
+        FROM public.user_profiles
+        WHERE id = current_referrer_id;
+
+        current_level := current_level + 1;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ================================================================
+-- 5. PERMISSIONS
+-- ================================================================
+
+REVOKE EXECUTE ON FUNCTION plan_features_for_user(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION plan_features_for_user(UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION plan_features_for_user(UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION member_discount_percent(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION member_discount_percent(UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION member_discount_percent(UUID) TO service_role;
+
+-- referrer_earns_rewards stays callable: distribute_referral_commissions runs
+-- with the privileges of whoever marks the order paid
+
+GRANT EXECUTE ON FUNCTION get_my_plan_features() TO authenticated;
+
+COMMIT;
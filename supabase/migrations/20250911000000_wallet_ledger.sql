@@ -0,0 +1,634 @@
+-- Wallet ledger
+-- Every movement of referral money is recorded in wallet_transactions as a
+-- transfer between two accounts:
+--   rewards    money paid out by the platform as rewards and commissions
+--   available  the user's withdrawable balance
+--   held       balance set aside for a pending withdrawal request
+--   paid_out   money sent to the user
+-- The counters on user_profiles (total_earnings, available_balance,
+-- withdrawn_amount) are kept in step with the ledger by post_wallet_transaction,
+-- and wallet_drift lists profiles where they no longer agree.
+
+BEGIN;
+
+-- ================================================================
+-- 1. TABLES
+-- ================================================================
+
+-- Older databases created these outside the migrations
+ALTER TABLE withdrawal_requests
+ADD COLUMN IF NOT EXISTS upi_id TEXT,
+ADD COLUMN IF NOT EXISTS processed_by UUID;
+
+CREATE TABLE IF NOT EXISTS wallet_transactions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    entry_type TEXT NOT NULL CHECK (entry_type IN (
+      'commission_credit', 'withdrawal_hold', 'withdrawal_release', 'payout', 'reversal', 'admin_adjustment'
+    )),
+    from_account TEXT NOT NULL CHECK (from_account IN ('rewards', 'available', 'held', 'paid_out')),
+    to_account TEXT NOT NULL CHECK (to_account IN ('rewards', 'available', 'held', 'paid_out')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    commission_id UUID REFERENCES referral_commissions(id) ON DELETE SET NULL,
+    withdrawal_request_id UUID REFERENCES withdrawal_requests(id) ON DELETE SET NULL,
+    description TEXT,
+    created_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (from_account <> to_account)
+);
+
+CREATE INDEX IF NOT EXISTS wallet_transactions_profile_id_created_at_idx
+    ON wallet_transactions (profile_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS wallet_transactions_user_id_created_at_idx
+    ON wallet_transactions (user_id, created_at DESC);
+
+-- A commission or withdrawal request posts each kind of entry at most once
+CREATE UNIQUE INDEX IF NOT EXISTS wallet_transactions_commission_entry_idx
+    ON wallet_transactions (commission_id, entry_type) WHERE commission_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS wallet_transactions_withdrawal_entry_idx
+    ON wallet_transactions (withdrawal_request_id, entry_type) WHERE withdrawal_request_id IS NOT NULL;
+
+ALTER TABLE wallet_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own wallet transactions" ON wallet_transactions;
+CREATE POLICY "Users can view own wallet transactions" ON wallet_transactions
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- ================================================================
+-- 2. BALANCES
+-- ================================================================
+
+-- Balances derived from the ledger; runs with the caller's RLS, so users
+-- only ever see their own row
+CREATE OR REPLACE VIEW wallet_balances
+WITH (security_invoker = true) AS
+SELECT
+  profile_id,
+  user_id,
+  COALESCE(SUM(CASE WHEN from_account = 'rewards' THEN amount WHEN to_account = 'rewards' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS total_earnings,
+  COALESCE(SUM(CASE WHEN to_account = 'available' THEN amount WHEN from_account = 'available' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS available_balance,
+  COALESCE(SUM(CASE WHEN to_account = 'held' THEN amount WHEN from_account = 'held' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS held_amount,
+  COALESCE(SUM(CASE WHEN to_account = 'paid_out' THEN amount WHEN from_account = 'paid_out' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS withdrawn_amount,
+  MAX(created_at) AS last_transaction_at
+FROM wallet_transactions
+GROUP BY profile_id, user_id;
+
+-- Profiles whose counters disagree with the ledger (admin)
+CREATE OR REPLACE VIEW wallet_drift AS
+SELECT
+  up.id AS profile_id,
+  up.user_id,
+  up.full_name,
+  up.email,
+  COALESCE(up.total_earnings, 0) AS counter_total_earnings,
+  COALESCE(up.available_balance, 0) AS counter_available_balance,
+  COALESCE(up.withdrawn_amount, 0) AS counter_withdrawn_amount,
+  COALESCE(wb.total_earnings, 0) AS ledger_total_earnings,
+  COALESCE(wb.available_balance, 0) AS ledger_available_balance,
+  COALESCE(wb.withdrawn_amount, 0) AS ledger_withdrawn_amount,
+  COALESCE(wb.held_amount, 0) AS ledger_held_amount,
+  wb.last_transaction_at
+FROM user_profiles up
+LEFT JOIN wallet_balances wb ON wb.profile_id = up.id
+WHERE COALESCE(up.total_earnings, 0) <> COALESCE(wb.total_earnings, 0)
+   OR COALESCE(up.available_balance, 0) <> COALESCE(wb.available_balance, 0)
+   OR COALESCE(up.withdrawn_amount, 0) <> COALESCE(wb.withdrawn_amount, 0);
+
+-- ================================================================
+-- 3. POSTING
+-- ================================================================
+
+-- Record one ledger entry and move the profile counters by the same amounts.
+-- Admin adjustments take a signed amount; every other entry type is positive.
+CREATE OR REPLACE FUNCTION post_wallet_transaction(
+  profile_id_param UUID,
+  entry_type_param TEXT,
+  amount_param DECIMAL,
+  commission_id_param UUID DEFAULT NULL,
+  withdrawal_request_id_param UUID DEFAULT NULL,
+  description_param TEXT DEFAULT NULL,
+  created_by_param UUID DEFAULT NULL
+)
+RETURNS wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile_rec RECORD;
+  posted wallet_transactions;
+  from_acc TEXT;
+  to_acc TEXT;
+  entry_amount DECIMAL(12,2) := ROUND(ABS(amount_param), 2);
+  ledger_available DECIMAL(12,2);
+BEGIN
+  IF entry_amount = 0 THEN
+    RAISE EXCEPTION 'Wallet transactions need a non-zero amount'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF amount_param < 0 AND entry_type_param <> 'admin_adjustment' THEN
+    RAISE EXCEPTION 'Only admin adjustments can be negative'
+      USING ERRCODE = '22023';
+  END IF;
+
+  CASE entry_type_param
+    WHEN 'commission_credit' THEN from_acc := 'rewards'; to_acc := 'available';
+    WHEN 'reversal' THEN from_acc := 'available'; to_acc := 'rewards';
+    WHEN 'withdrawal_hold' THEN from_acc := 'available'; to_acc := 'held';
+    WHEN 'withdrawal_release' THEN from_acc := 'held'; to_acc := 'available';
+    WHEN 'payout' THEN from_acc := 'held'; to_acc := 'paid_out';
+    WHEN 'admin_adjustment' THEN
+      IF amount_param > 0 THEN
+        from_acc := 'rewards'; to_acc := 'available';
+      ELSE
+        from_acc := 'available'; to_acc := 'rewards';
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Unknown wallet entry type: %', entry_type_param
+        USING ERRCODE = '22023';
+  END CASE;
+
+  -- Serialises postings per profile so balance checks see every earlier entry
+  SELECT id, user_id INTO profile_rec
+  FROM user_profiles
+  WHERE id = profile_id_param
+  FOR UPDATE;
+
+  IF profile_rec.id IS NULL THEN
+    RAISE EXCEPTION 'User profile % not found', profile_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Withdrawals may only spend what the ledger says is available. Reversals
+  -- and adjustments may take the balance negative; future earnings net it off.
+  IF entry_type_param = 'withdrawal_hold' THEN
+    SELECT COALESCE(available_balance, 0) INTO ledger_available
+    FROM wallet_balances
+    WHERE profile_id = profile_id_param;
+
+    IF COALESCE(ledger_available, 0) < entry_amount THEN
+      RAISE EXCEPTION 'Insufficient balance. Available: ₹%, Requested: ₹%', COALESCE(ledger_available, 0), entry_amount
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  INSERT INTO wallet_transactions (
+    profile_id, user_id, entry_type, from_account, to_account, amount,
+    commission_id, withdrawal_request_id, description, created_by
+  ) VALUES (
+    profile_id_param, profile_rec.user_id, entry_type_param, from_acc, to_acc, entry_amount,
+    commission_id_param, withdrawal_request_id_param, description_param,
+    COALESCE(created_by_param, auth.uid())
+  )
+  RETURNING * INTO posted;
+
+  UPDATE user_profiles
+  SET
+    total_earnings = COALESCE(total_earnings, 0)
+      + CASE WHEN from_acc = 'rewards' THEN entry_amount WHEN to_acc = 'rewards' THEN -entry_amount ELSE 0 END,
+    available_balance = COALESCE(available_balance, 0)
+      + CASE WHEN to_acc = 'available' THEN entry_amount WHEN from_acc = 'available' THEN -entry_amount ELSE 0 END,
+    withdrawn_amount = COALESCE(withdrawn_amount, 0)
+      + CASE WHEN to_acc = 'paid_out' THEN entry_amount WHEN from_acc = 'paid_out' THEN -entry_amount ELSE 0 END,
+    updated_at = NOW()
+  WHERE id = profile_id_param;
+
+  RETURN posted;
+END;
+$$;
+
+-- ================================================================
+-- 4. COMMISSIONS
+-- ================================================================
+
+-- New commissions are credited to the referrer; reversing one takes it back
+CREATE OR REPLACE FUNCTION handle_commission_wallet_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.commission_amount, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status <> 'reversed' THEN
+    PERFORM post_wallet_transaction(
+      NEW.referrer_id,
+      'commission_credit',
+      NEW.commission_amount,
+      NEW.id,
+      NULL,
+      CASE WHEN COALESCE(NEW.trigger_type, 'order_purchase') = 'order_purchase'
+        THEN format('Level %s order commission', NEW.level)
+        ELSE format('Level %s referral reward', NEW.level)
+      END
+    );
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'reversed' AND OLD.status IS DISTINCT FROM 'reversed' THEN
+    PERFORM post_wallet_transaction(
+      NEW.referrer_id,
+      'reversal',
+      NEW.commission_amount,
+      NEW.id,
+      NULL,
+      format('Level %s commission reversed', NEW.level)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_commission_wallet_entry_trigger ON referral_commissions;
+CREATE TRIGGER handle_commission_wallet_entry_trigger
+    AFTER INSERT OR UPDATE OF status ON referral_commissions
+    FOR EACH ROW EXECUTE FUNCTION handle_commission_wallet_entry();
+
+-- As in the plan features migration; the wallet trigger now credits the referrer
+CREATE OR REPLACE FUNCTION process_referral_rewards(
+  new_active_user_id UUID,
+  trigger_type_param TEXT DEFAULT 'subscription_activation'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reward_config JSONB;
+  current_user_id UUID;
+  new_user_profile_id UUID;
+  current_level INTEGER := 1;
+  reward_amount DECIMAL;
+  reward_multiplier DECIMAL := 1;
+  total_distributed DECIMAL := 0;
+BEGIN
+  SELECT value INTO reward_config
+  FROM system_settings
+  WHERE key = 'referral_reward_config';
+
+  IF reward_config IS NULL THEN
+    reward_config := '{
+      "level1": 200,
+      "level2": 15,
+      "level3": 11,
+      "level4": 9,
+      "level5": 7,
+      "level6": 5,
+      "level7": 3
+    }'::JSONB;
+  END IF;
+
+  SELECT id INTO new_user_profile_id
+  FROM user_profiles
+  WHERE user_id = new_active_user_id;
+
+  IF new_user_profile_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'message', 'User profile not found',
+      'distributed', 0
+    );
+  END IF;
+
+  SELECT COALESCE(sp.referral_reward_multiplier, 1) INTO reward_multiplier
+  FROM user_subscriptions us
+  JOIN subscription_plans sp ON sp.id = us.plan_id
+  WHERE us.user_id = new_active_user_id AND us.status = 'active';
+
+  reward_multiplier := COALESCE(reward_multiplier, 1);
+  current_user_id := new_user_profile_id;
+
+  WHILE current_level <= 7 LOOP
+    SELECT referred_by INTO current_user_id
+    FROM user_profiles
+    WHERE id = current_user_id;
+
+    EXIT WHEN current_user_id IS NULL;
+
+    reward_amount := ROUND(COALESCE((reward_config ->> ('level' || current_level))::DECIMAL, 0) * reward_multiplier, 2);
+
+    IF reward_amount > 0 AND referrer_earns_rewards(current_user_id) AND NOT EXISTS (
+      SELECT 1 FROM referral_commissions
+      WHERE referrer_id = current_user_id
+      AND trigger_user_id = new_active_user_id
+      AND trigger_type = trigger_type_param
+      AND level = current_level
+    ) THEN
+      INSERT INTO referral_commissions (
+        referrer_id,
+        referee_id,
+        order_id,
+        level,
+        commission_rate,
+        commission_amount,
+        status,
+        trigger_type,
+        trigger_user_id
+      ) VALUES (
+        current_user_id,
+        new_user_profile_id,
+        NULL,
+        current_level,
+        0,
+        reward_amount,
+        'paid',
+        trigger_type_param,
+        new_active_user_id
+      );
+
+      total_distributed := total_distributed + reward_amount;
+    END IF;
+
+    current_level := current_level + 1;
+  END LOOP;
+
+  RETURN json_build_object(
+    'success', true,
+    'levels_processed', current_level - 1,
+    'total_distributed', total_distributed,
+    'reward_multiplier', reward_multiplier
+  );
+END;
+$$;
+
+-- Order commissions: same rates and eligibility, credited by the wallet trigger
+CREATE OR REPLACE FUNCTION distribute_referral_commissions(order_id_param UUID)
+RETURNS VOID AS $$
+DECLARE
+    order_rec RECORD;
+    commission_rates DECIMAL[] := ARRAY[0.10, 0.05, 0.03, 0.02, 0.01, 0.01, 0.01]; -- 10%, 5%, 3%, 2%, 1%, 1%, 1%
+    current_level INTEGER := 1;
+    current_referrer_id UUID;
+    commission_amount DECIMAL(10,2);
+BEGIN
+    SELECT * INTO order_rec FROM public.orders WHERE id = order_id_param;
+
+    SELECT referred_by INTO current_referrer_id
+    FROM public.user_profiles
+    WHERE user_id = order_rec.user_id;
+
+    WHILE current_referrer_id IS NOT NULL AND current_level <= 7 LOOP
+        IF public.referrer_earns_rewards(current_referrer_id) THEN
+            commission_amount := order_rec.total_amount * commission_rates[current_level];
+
+            INSERT INTO public.referral_commissions (
+                referrer_id,
+                referee_id,
+                order_id,
+                level,
+                commission_rate,
+                commission_amount,
+                trigger_type,
+                trigger_user_id
+            ) VALUES (
+                current_referrer_id,
+                (SELECT id FROM public.user_profiles WHERE user_id = order_rec.user_id),
+                order_id_param,
+                current_level,
+                commission_rates[current_level],
+                commission_amount,
+                'order_purchase',
+                order_rec.user_id
+            );
+        END IF;
+
+        SELECT referred_by INTO current_referrer_id
+        FROM public.user_profiles
+        WHERE id = current_referrer_id;
+
+        current_level := current_level + 1;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Marking the commissions reversed posts the reversal entries
+CREATE OR REPLACE FUNCTION reverse_order_commissions(order_id_param UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reversed_count INTEGER;
+BEGIN
+  UPDATE referral_commissions
+  SET status = 'reversed',
+      reversed_at = NOW()
+  WHERE order_id = order_id_param
+    AND COALESCE(trigger_type, 'order_purchase') = 'order_purchase'
+    AND status <> 'reversed';
+
+  GET DIAGNOSTICS reversed_count = ROW_COUNT;
+  RETURN reversed_count;
+END;
+$$;
+
+-- ================================================================
+-- 5. WITHDRAWALS
+-- ================================================================
+
+-- A new request holds the amount; rejecting it releases the hold and
+-- approving it pays it out. Processed requests cannot change again.
+CREATE OR REPLACE FUNCTION handle_withdrawal_wallet_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  requester_profile_id UUID;
+BEGIN
+  SELECT id INTO requester_profile_id
+  FROM user_profiles
+  WHERE user_id = NEW.user_id;
+
+  IF requester_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found for withdrawal request'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'Withdrawal requests start as pending'
+        USING ERRCODE = 'P0003';
+    END IF;
+
+    PERFORM post_wallet_transaction(
+      requester_profile_id, 'withdrawal_hold', NEW.amount, NULL, NEW.id,
+      'Withdrawal requested' || COALESCE(' to ' || NEW.upi_id, ''),
+      NEW.user_id
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status <> 'pending' THEN
+      RAISE EXCEPTION 'Withdrawal request is already %', OLD.status
+        USING ERRCODE = 'P0003';
+    END IF;
+
+    IF NEW.status = 'rejected' THEN
+      PERFORM post_wallet_transaction(
+        requester_profile_id, 'withdrawal_release', OLD.amount, NULL, NEW.id,
+        'Withdrawal rejected' || COALESCE(': ' || NEW.admin_notes, ''),
+        NEW.processed_by
+      );
+    ELSIF NEW.status = 'approved' THEN
+      PERFORM post_wallet_transaction(
+        requester_profile_id, 'payout', OLD.amount, NULL, NEW.id,
+        'Withdrawal paid' || COALESCE(' to ' || NEW.upi_id, ''),
+        NEW.processed_by
+      );
+    END IF;
+  ELSIF NEW.amount IS DISTINCT FROM OLD.amount THEN
+    RAISE EXCEPTION 'Withdrawal amounts cannot be changed'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_withdrawal_wallet_entry_trigger ON withdrawal_requests;
+CREATE TRIGGER handle_withdrawal_wallet_entry_trigger
+    AFTER INSERT OR UPDATE OF status, amount ON withdrawal_requests
+    FOR EACH ROW EXECUTE FUNCTION handle_withdrawal_wallet_entry();
+
+-- ================================================================
+-- 6. ADMIN FUNCTIONS
+-- ================================================================
+
+-- Manual credit (positive) or debit (negative) with a mandatory reason
+CREATE OR REPLACE FUNCTION admin_adjust_wallet(
+  profile_id_param UUID,
+  amount_param DECIMAL,
+  reason_param TEXT,
+  admin_id_param UUID DEFAULT NULL
+)
+RETURNS wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF reason_param IS NULL OR btrim(reason_param) = '' THEN
+    RAISE EXCEPTION 'A reason is required for wallet adjustments'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN post_wallet_transaction(
+    profile_id_param, 'admin_adjustment', amount_param, NULL, NULL,
+    btrim(reason_param), admin_id_param
+  );
+END;
+$$;
+
+-- Overwrite a profile's counters with the balances derived from the ledger
+CREATE OR REPLACE FUNCTION sync_wallet_counters(profile_id_param UUID)
+RETURNS user_profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  synced user_profiles;
+BEGIN
+  UPDATE user_profiles up
+  SET
+    total_earnings = COALESCE(wb.total_earnings, 0),
+    available_balance = COALESCE(wb.available_balance, 0),
+    withdrawn_amount = COALESCE(wb.withdrawn_amount, 0),
+    updated_at = NOW()
+  FROM (SELECT profile_id_param AS profile_id) target
+  LEFT JOIN wallet_balances wb ON wb.profile_id = target.profile_id
+  WHERE up.id = target.profile_id
+  RETURNING up.* INTO synced;
+
+  IF synced.id IS NULL THEN
+    RAISE EXCEPTION 'User profile % not found', profile_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN synced;
+END;
+$$;
+
+-- ================================================================
+-- 7. BACKFILL
+-- ================================================================
+
+-- Replay existing commissions and withdrawals into the ledger without
+-- touching the counters; any disagreement shows up in wallet_drift
+INSERT INTO wallet_transactions (
+  profile_id, user_id, entry_type, from_account, to_account, amount, commission_id, description, created_at
+)
+SELECT rc.referrer_id, up.user_id, 'commission_credit', 'rewards', 'available', rc.commission_amount, rc.id,
+       format('Level %s %s', rc.level,
+         CASE WHEN COALESCE(rc.trigger_type, 'order_purchase') = 'order_purchase' THEN 'order commission' ELSE 'referral reward' END),
+       rc.created_at
+FROM referral_commissions rc
+JOIN user_profiles up ON up.id = rc.referrer_id
+WHERE rc.commission_amount > 0
+ON CONFLICT DO NOTHING;
+
+INSERT INTO wallet_transactions (
+  profile_id, user_id, entry_type, from_account, to_account, amount, commission_id, description, created_at
+)
+SELECT rc.referrer_id, up.user_id, 'reversal', 'available', 'rewards', rc.commission_amount, rc.id,
+       format('Level %s commission reversed', rc.level),
+       COALESCE(rc.reversed_at, rc.created_at)
+FROM referral_commissions rc
+JOIN user_profiles up ON up.id = rc.referrer_id
+WHERE rc.commission_amount > 0 AND rc.status = 'reversed'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO wallet_transactions (
+  profile_id, user_id, entry_type, from_account, to_account, amount, withdrawal_request_id, description, created_at
+)
+SELECT up.id, wr.user_id, 'withdrawal_hold', 'available', 'held', wr.amount, wr.id,
+       'Withdrawal requested' || COALESCE(' to ' || wr.upi_id, ''),
+       wr.requested_at
+FROM withdrawal_requests wr
+JOIN user_profiles up ON up.user_id = wr.user_id
+WHERE wr.amount > 0
+ON CONFLICT DO NOTHING;
+
+INSERT INTO wallet_transactions (
+  profile_id, user_id, entry_type, from_account, to_account, amount, withdrawal_request_id, description, created_at
+)
+SELECT up.id, wr.user_id,
+       CASE WHEN wr.status = 'approved' THEN 'payout' ELSE 'withdrawal_release' END,
+       'held',
+       CASE WHEN wr.status = 'approved' THEN 'paid_out' ELSE 'available' END,
+       wr.amount, wr.id,
+       CASE WHEN wr.status = 'approved' THEN 'Withdrawal paid' ELSE 'Withdrawal rejected' END,
+       COALESCE(wr.processed_at, wr.requested_at)
+FROM withdrawal_requests wr
+JOIN user_profiles up ON up.user_id = wr.user_id
+WHERE wr.amount > 0 AND wr.status IN ('approved', 'rejected')
+ON CONFLICT DO NOTHING;
+
+-- ================================================================
+-- 8. PERMISSIONS
+-- ================================================================
+
+GRANT SELECT ON wallet_balances TO authenticated;
+
+REVOKE ALL ON wallet_drift FROM PUBLIC;
+REVOKE ALL ON wallet_drift FROM anon, authenticated;
+GRANT SELECT ON wallet_drift TO service_role;
+
+REVOKE EXECUTE ON FUNCTION post_wallet_transaction(UUID, TEXT, DECIMAL, UUID, UUID, TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION post_wallet_transaction(UUID, TEXT, DECIMAL, UUID, UUID, TEXT, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION post_wallet_transaction(UUID, TEXT, DECIMAL, UUID, UUID, TEXT, UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION admin_adjust_wallet(UUID, DECIMAL, TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION admin_adjust_wallet(UUID, DECIMAL, TEXT, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION admin_adjust_wallet(UUID, DECIMAL, TEXT, UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION sync_wallet_counters(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION sync_wallet_counters(UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION sync_wallet_counters(UUID) TO service_role;
+
+COMMIT;
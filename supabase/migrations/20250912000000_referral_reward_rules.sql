@@ -0,0 +1,371 @@
+-- Referral reward rules engine
+-- Replaces the two reward paths (fixed per-level amounts on subscription
+-- activation, percentage commissions on paid orders) with one engine driven by
+-- the rules in system_settings.referral_reward_rules. Each trigger event is
+-- claimed once through referral_reward_events.idempotency_key, so replays of
+-- the same activation or order never pay twice. Rewards are only created by
+-- database triggers; the browser has no way to start a payout.
+
+BEGIN;
+
+-- ================================================================
+-- 1. TABLES
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS referral_reward_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- e.g. subscription_activation:<user id>, order_purchase:<order id>
+    idempotency_key TEXT NOT NULL UNIQUE,
+    trigger_type TEXT NOT NULL CHECK (trigger_type IN ('subscription_activation', 'first_order', 'order_purchase')),
+    source_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    -- The rule as it was when the event was processed
+    rule JSONB,
+    base_amount DECIMAL(12,2),
+    total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS referral_reward_events_source_user_id_idx
+    ON referral_reward_events (source_user_id, created_at DESC);
+
+ALTER TABLE referral_reward_events ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE referral_commissions
+ADD COLUMN IF NOT EXISTS reward_event_id UUID REFERENCES referral_reward_events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS referral_commissions_reward_event_id_idx
+    ON referral_commissions (reward_event_id);
+
+-- ================================================================
+-- 2. RULES
+-- ================================================================
+
+-- One rule per trigger. levels[n] is the reward for level n + 1: rupees for
+-- fixed rules, percent of the plan price or order total for percentage rules.
+-- max_amount caps each individual reward (null for no cap).
+INSERT INTO system_settings (key, value, description)
+SELECT
+  'referral_reward_rules',
+  jsonb_build_object(
+    'subscription_activation', jsonb_build_object(
+      'enabled', true,
+      'type', 'fixed',
+      'levels', jsonb_build_array(
+        COALESCE((old.value ->> 'level1')::NUMERIC, 200),
+        COALESCE((old.value ->> 'level2')::NUMERIC, 15),
+        COALESCE((old.value ->> 'level3')::NUMERIC, 11),
+        COALESCE((old.value ->> 'level4')::NUMERIC, 9),
+        COALESCE((old.value ->> 'level5')::NUMERIC, 7),
+        COALESCE((old.value ->> 'level6')::NUMERIC, 5),
+        COALESCE((old.value ->> 'level7')::NUMERIC, 3)
+      ),
+      'max_amount', NULL
+    ),
+    'first_order', jsonb_build_object(
+      'enabled', false,
+      'type', 'fixed',
+      'levels', '[0, 0, 0, 0, 0, 0, 0]'::JSONB,
+      'max_amount', NULL
+    ),
+    'order_purchase', jsonb_build_object(
+      'enabled', true,
+      'type', 'percentage',
+      'levels', '[10, 5, 3, 2, 1, 1, 1]'::JSONB,
+      'max_amount', NULL
+    )
+  ),
+  'Referral reward rules per trigger: fixed rupees or percentage per level, with an optional cap per reward'
+FROM (SELECT 1) seed
+LEFT JOIN system_settings old ON old.key = 'referral_reward_config'
+ON CONFLICT (key) DO NOTHING;
+
+-- ================================================================
+-- 3. BACKFILL
+-- ================================================================
+
+-- Existing payouts become claimed events so the engine never repeats them
+INSERT INTO referral_reward_events (idempotency_key, trigger_type, source_user_id, order_id, total_amount, created_at)
+SELECT
+  event_key,
+  trigger_type,
+  MIN(trigger_user_id::TEXT)::UUID,
+  MIN(order_id::TEXT)::UUID,
+  SUM(commission_amount),
+  MIN(created_at)
+FROM (
+  SELECT
+    CASE
+      WHEN rc.trigger_type = 'subscription_activation' THEN 'subscription_activation:' || rc.trigger_user_id
+      ELSE 'order_purchase:' || rc.order_id
+    END AS event_key,
+    CASE WHEN rc.trigger_type = 'subscription_activation' THEN 'subscription_activation' ELSE 'order_purchase' END AS trigger_type,
+    rc.trigger_user_id,
+    rc.order_id,
+    rc.commission_amount,
+    rc.created_at
+  FROM referral_commissions rc
+  WHERE rc.reward_event_id IS NULL
+    AND CASE WHEN rc.trigger_type = 'subscription_activation' THEN rc.trigger_user_id ELSE rc.order_id END IS NOT NULL
+) legacy
+GROUP BY event_key, trigger_type
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+UPDATE referral_commissions rc
+SET reward_event_id = rre.id
+FROM referral_reward_events rre
+WHERE rc.reward_event_id IS NULL
+  AND rre.idempotency_key = CASE
+    WHEN rc.trigger_type = 'subscription_activation' THEN 'subscription_activation:' || rc.trigger_user_id
+    ELSE 'order_purchase:' || rc.order_id
+  END;
+
+-- ================================================================
+-- 4. ENGINE
+-- ================================================================
+
+-- Apply the rule for one trigger event. order_id_param is required for the
+-- order triggers. Returns what was paid, or why nothing was.
+CREATE OR REPLACE FUNCTION apply_referral_rules(
+  trigger_type_param TEXT,
+  source_user_id_param UUID,
+  order_id_param UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rule JSONB;
+  idempotency_key_value TEXT;
+  event_id UUID;
+  source_profile_id UUID;
+  current_referrer_id UUID;
+  current_level INTEGER := 1;
+  level_count INTEGER;
+  level_value NUMERIC;
+  max_amount NUMERIC;
+  base_amount NUMERIC := 0;
+  reward_multiplier NUMERIC := 1;
+  reward_amount NUMERIC;
+  total_distributed NUMERIC := 0;
+  order_rec public.orders;
+BEGIN
+  IF trigger_type_param NOT IN ('subscription_activation', 'first_order', 'order_purchase') THEN
+    RAISE EXCEPTION 'Unknown referral trigger: %', trigger_type_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT value -> trigger_type_param INTO rule
+  FROM system_settings
+  WHERE key = 'referral_reward_rules';
+
+  IF rule IS NULL OR NOT COALESCE((rule ->> 'enabled')::BOOLEAN, false) THEN
+    RETURN json_build_object('success', true, 'skipped', 'rule_disabled', 'total_distributed', 0);
+  END IF;
+
+  SELECT id INTO source_profile_id
+  FROM user_profiles
+  WHERE user_id = source_user_id_param;
+
+  IF source_profile_id IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'User profile not found', 'total_distributed', 0);
+  END IF;
+
+  IF trigger_type_param = 'subscription_activation' THEN
+    idempotency_key_value := 'subscription_activation:' || source_user_id_param;
+
+    SELECT COALESCE(sp.referral_reward_multiplier, 1), COALESCE(sp.price, 0)
+    INTO reward_multiplier, base_amount
+    FROM user_subscriptions us
+    JOIN subscription_plans sp ON sp.id = us.plan_id
+    WHERE us.user_id = source_user_id_param AND us.status = 'active';
+
+    reward_multiplier := COALESCE(reward_multiplier, 1);
+    base_amount := COALESCE(base_amount, 0);
+  ELSE
+    SELECT * INTO order_rec FROM orders WHERE id = order_id_param;
+
+    IF order_rec.id IS NULL OR order_rec.user_id IS DISTINCT FROM source_user_id_param THEN
+      RAISE EXCEPTION 'Order % not found for this user', order_id_param
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    base_amount := COALESCE(order_rec.total_amount, 0);
+
+    IF trigger_type_param = 'order_purchase' THEN
+      idempotency_key_value := 'order_purchase:' || order_id_param;
+    ELSE
+      idempotency_key_value := 'first_order:' || source_user_id_param;
+
+      -- Only the buyer's first paid order counts
+      IF EXISTS (
+        SELECT 1 FROM orders
+        WHERE user_id = source_user_id_param
+          AND id <> order_id_param
+          AND created_at < order_rec.created_at
+          AND order_status_is_paid(status)
+      ) THEN
+        RETURN json_build_object('success', true, 'skipped', 'not_first_order', 'total_distributed', 0);
+      END IF;
+    END IF;
+  END IF;
+
+  -- Claim the event; a second call with the same key stops here
+  INSERT INTO referral_reward_events (idempotency_key, trigger_type, source_user_id, order_id, rule, base_amount)
+  VALUES (idempotency_key_value, trigger_type_param, source_user_id_param, order_id_param, rule, base_amount)
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO event_id;
+
+  IF event_id IS NULL THEN
+    RETURN json_build_object('success', true, 'skipped', 'already_processed', 'total_distributed', 0);
+  END IF;
+
+  level_count := LEAST(jsonb_array_length(COALESCE(rule -> 'levels', '[]'::JSONB)), 7);
+  max_amount := NULLIF(rule ->> 'max_amount', '')::NUMERIC;
+
+  SELECT referred_by INTO current_referrer_id
+  FROM user_profiles
+  WHERE id = source_profile_id;
+
+  WHILE current_referrer_id IS NOT NULL AND current_level <= level_count LOOP
+    level_value := COALESCE((rule -> 'levels' ->> (current_level - 1))::NUMERIC, 0);
+
+    -- Fixed amounts scale with the plan's multiplier; percentages already
+    -- follow the plan price
+    IF rule ->> 'type' = 'percentage' THEN
+      reward_amount := ROUND(base_amount * level_value / 100, 2);
+    ELSE
+      reward_amount := ROUND(level_value * reward_multiplier, 2);
+    END IF;
+
+    IF max_amount IS NOT NULL THEN
+      reward_amount := LEAST(reward_amount, max_amount);
+    END IF;
+
+    IF reward_amount > 0 AND referrer_earns_rewards(current_referrer_id) THEN
+      INSERT INTO referral_commissions (
+        referrer_id,
+        referee_id,
+        order_id,
+        level,
+        commission_rate,
+        commission_amount,
+        status,
+        trigger_type,
+        trigger_user_id,
+        reward_event_id
+      ) VALUES (
+        current_referrer_id,
+        source_profile_id,
+        order_id_param,
+        current_level,
+        CASE WHEN rule ->> 'type' = 'percentage' THEN level_value / 100 ELSE 0 END,
+        reward_amount,
+        CASE WHEN trigger_type_param = 'subscription_activation' THEN 'paid' ELSE 'pending' END,
+        trigger_type_param,
+        source_user_id_param,
+        event_id
+      );
+
+      total_distributed := total_distributed + reward_amount;
+    END IF;
+
+    SELECT referred_by INTO current_referrer_id
+    FROM user_profiles
+    WHERE id = current_referrer_id;
+
+    current_level := current_level + 1;
+  END LOOP;
+
+  UPDATE referral_reward_events
+  SET total_amount = total_distributed
+  WHERE id = event_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'event_id', event_id,
+    'levels_processed', current_level - 1,
+    'total_distributed', total_distributed,
+    'reward_multiplier', reward_multiplier
+  );
+END;
+$$;
+
+-- ================================================================
+-- 5. TRIGGERS
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION handle_subscription_activation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.subscription_status = 'active'
+     AND (OLD.subscription_status IS DISTINCT FROM NEW.subscription_status)
+     AND NEW.referred_by IS NOT NULL THEN
+    PERFORM apply_referral_rules('subscription_activation', NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_order_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+    PERFORM apply_referral_rules('first_order', NEW.user_id, NEW.id);
+    PERFORM apply_referral_rules('order_purchase', NEW.user_id, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- First-order rewards are tied to the order too, so they are reversed with it
+CREATE OR REPLACE FUNCTION reverse_order_commissions(order_id_param UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reversed_count INTEGER;
+BEGIN
+  UPDATE referral_commissions
+  SET status = 'reversed',
+      reversed_at = NOW()
+  WHERE order_id = order_id_param
+    AND COALESCE(trigger_type, 'order_purchase') IN ('order_purchase', 'first_order')
+    AND status <> 'reversed';
+
+  GET DIAGNOSTICS reversed_count = ROW_COUNT;
+  RETURN reversed_count;
+END;
+$$;
+
+-- The old entry points are replaced by apply_referral_rules
+DROP FUNCTION IF EXISTS process_referral_rewards(UUID, TEXT);
+DROP FUNCTION IF EXISTS distribute_referral_commissions(UUID);
+
+-- ================================================================
+-- 6. PERMISSIONS
+-- ================================================================
+
+REVOKE EXECUTE ON FUNCTION apply_referral_rules(TEXT, UUID, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION apply_referral_rules(TEXT, UUID, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION apply_referral_rules(TEXT, UUID, UUID) TO service_role;
+
+-- Only reached from the rules engine now
+REVOKE EXECUTE ON FUNCTION referrer_earns_rewards(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION referrer_earns_rewards(UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION referrer_earns_rewards(UUID) TO service_role;
+
+COMMIT;
@@ -0,0 +1,515 @@
+-- Commission maturation
+-- Order commissions are recorded as pending and sit in the referrer's locked
+-- balance until the order has been delivered (or completed) and the return
+-- window has passed; mature_referral_commissions() then makes them payable.
+-- Pending commissions are voided if the order is cancelled, fails payment or
+-- is refunded. Subscription rewards are payable straight away.
+
+BEGIN;
+
+-- ================================================================
+-- 1. STATUSES
+-- ================================================================
+
+ALTER TABLE referral_commissions
+ADD COLUMN IF NOT EXISTS matures_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS matured_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE referral_commissions DROP CONSTRAINT IF EXISTS referral_commissions_status_check;
+
+-- Everything recorded so far was credited to the available balance when it
+-- was created, so it is payable already. The wallet trigger in place at this
+-- point only reacts to reversals, so this posts no ledger entries.
+UPDATE referral_commissions
+SET status = 'payable',
+    matured_at = COALESCE(matured_at, created_at)
+WHERE status IN ('pending', 'paid');
+
+ALTER TABLE referral_commissions
+ADD CONSTRAINT referral_commissions_status_check CHECK (status IN ('pending', 'payable', 'void', 'reversed'));
+
+CREATE INDEX IF NOT EXISTS referral_commissions_pending_matures_at_idx
+    ON referral_commissions (matures_at) WHERE status = 'pending';
+
+INSERT INTO system_settings (key, value, description)
+VALUES (
+    'commission_maturation',
+    '{"return_window_days": 7}'::jsonb,
+    'Days after delivery before order commissions become withdrawable'
+) ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION commission_return_window_days()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT (value ->> 'return_window_days')::INTEGER FROM system_settings WHERE key = 'commission_maturation'),
+    7
+  );
+$$;
+
+-- ================================================================
+-- 2. LEDGER
+-- ================================================================
+
+-- Pending commissions move through a locked account:
+--   commission_pending  rewards -> locked
+--   commission_matured  locked  -> available
+--   commission_void     locked  -> rewards
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_entry_type_check;
+ALTER TABLE wallet_transactions
+ADD CONSTRAINT wallet_transactions_entry_type_check CHECK (entry_type IN (
+  'commission_credit', 'commission_pending', 'commission_matured', 'commission_void',
+  'withdrawal_hold', 'withdrawal_release', 'payout', 'reversal', 'admin_adjustment'
+));
+
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_from_account_check;
+ALTER TABLE wallet_transactions
+ADD CONSTRAINT wallet_transactions_from_account_check CHECK (from_account IN ('rewards', 'locked', 'available', 'held', 'paid_out'));
+
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_to_account_check;
+ALTER TABLE wallet_transactions
+ADD CONSTRAINT wallet_transactions_to_account_check CHECK (to_account IN ('rewards', 'locked', 'available', 'held', 'paid_out'));
+
+CREATE OR REPLACE VIEW wallet_balances
+WITH (security_invoker = true) AS
+SELECT
+  profile_id,
+  user_id,
+  COALESCE(SUM(CASE WHEN from_account = 'rewards' THEN amount WHEN to_account = 'rewards' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS total_earnings,
+  COALESCE(SUM(CASE WHEN to_account = 'available' THEN amount WHEN from_account = 'available' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS available_balance,
+  COALESCE(SUM(CASE WHEN to_account = 'held' THEN amount WHEN from_account = 'held' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS held_amount,
+  COALESCE(SUM(CASE WHEN to_account = 'paid_out' THEN amount WHEN from_account = 'paid_out' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS withdrawn_amount,
+  MAX(created_at) AS last_transaction_at,
+  COALESCE(SUM(CASE WHEN to_account = 'locked' THEN amount WHEN from_account = 'locked' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS locked_amount
+FROM wallet_transactions
+GROUP BY profile_id, user_id;
+
+-- As in the wallet ledger migration, with the locked account
+CREATE OR REPLACE FUNCTION post_wallet_transaction(
+  profile_id_param UUID,
+  entry_type_param TEXT,
+  amount_param DECIMAL,
+  commission_id_param UUID DEFAULT NULL,
+  withdrawal_request_id_param UUID DEFAULT NULL,
+  description_param TEXT DEFAULT NULL,
+  created_by_param UUID DEFAULT NULL
+)
+RETURNS wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile_rec RECORD;
+  posted wallet_transactions;
+  from_acc TEXT;
+  to_acc TEXT;
+  entry_amount DECIMAL(12,2) := ROUND(ABS(amount_param), 2);
+  ledger_available DECIMAL(12,2);
+BEGIN
+  IF entry_amount = 0 THEN
+    RAISE EXCEPTION 'Wallet transactions need a non-zero amount'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF amount_param < 0 AND entry_type_param <> 'admin_adjustment' THEN
+    RAISE EXCEPTION 'Only admin adjustments can be negative'
+      USING ERRCODE = '22023';
+  END IF;
+
+  CASE entry_type_param
+    WHEN 'commission_credit' THEN from_acc := 'rewards'; to_acc := 'available';
+    WHEN 'commission_pending' THEN from_acc := 'rewards'; to_acc := 'locked';
+    WHEN 'commission_matured' THEN from_acc := 'locked'; to_acc := 'available';
+    WHEN 'commission_void' THEN from_acc := 'locked'; to_acc := 'rewards';
+    WHEN 'reversal' THEN from_acc := 'available'; to_acc := 'rewards';
+    WHEN 'withdrawal_hold' THEN from_acc := 'available'; to_acc := 'held';
+    WHEN 'withdrawal_release' THEN from_acc := 'held'; to_acc := 'available';
+    WHEN 'payout' THEN from_acc := 'held'; to_acc := 'paid_out';
+    WHEN 'admin_adjustment' THEN
+      IF amount_param > 0 THEN
+        from_acc := 'rewards'; to_acc := 'available';
+      ELSE
+        from_acc := 'available'; to_acc := 'rewards';
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Unknown wallet entry type: %', entry_type_param
+        USING ERRCODE = '22023';
+  END CASE;
+
+  -- Serialises postings per profile so balance checks see every earlier entry
+  SELECT id, user_id INTO profile_rec
+  FROM user_profiles
+  WHERE id = profile_id_param
+  FOR UPDATE;
+
+  IF profile_rec.id IS NULL THEN
+    RAISE EXCEPTION 'User profile % not found', profile_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Withdrawals may only spend what the ledger says is available. Reversals
+  -- and adjustments may take the balance negative; future earnings net it off.
+  IF entry_type_param = 'withdrawal_hold' THEN
+    SELECT COALESCE(available_balance, 0) INTO ledger_available
+    FROM wallet_balances
+    WHERE profile_id = profile_id_param;
+
+    IF COALESCE(ledger_available, 0) < entry_amount THEN
+      RAISE EXCEPTION 'Insufficient balance. Available: ₹%, Requested: ₹%', COALESCE(ledger_available, 0), entry_amount
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  INSERT INTO wallet_transactions (
+    profile_id, user_id, entry_type, from_account, to_account, amount,
+    commission_id, withdrawal_request_id, description, created_by
+  ) VALUES (
+    profile_id_param, profile_rec.user_id, entry_type_param, from_acc, to_acc, entry_amount,
+    commission_id_param, withdrawal_request_id_param, description_param,
+    COALESCE(created_by_param, auth.uid())
+  )
+  RETURNING * INTO posted;
+
+  UPDATE user_profiles
+  SET
+    total_earnings = COALESCE(total_earnings, 0)
+      + CASE WHEN from_acc = 'rewards' THEN entry_amount WHEN to_acc = 'rewards' THEN -entry_amount ELSE 0 END,
+    available_balance = COALESCE(available_balance, 0)
+      + CASE WHEN to_acc = 'available' THEN entry_amount WHEN from_acc = 'available' THEN -entry_amount ELSE 0 END,
+    withdrawn_amount = COALESCE(withdrawn_amount, 0)
+      + CASE WHEN to_acc = 'paid_out' THEN entry_amount WHEN from_acc = 'paid_out' THEN -entry_amount ELSE 0 END,
+    updated_at = NOW()
+  WHERE id = profile_id_param;
+
+  RETURN posted;
+END;
+$$;
+
+-- Pending commissions are locked, payable ones credited; maturing, voiding
+-- and reversing move the money on
+CREATE OR REPLACE FUNCTION handle_commission_wallet_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  label TEXT := CASE WHEN COALESCE(NEW.trigger_type, 'order_purchase') = 'subscription_activation'
+    THEN format('Level %s referral reward', NEW.level)
+    ELSE format('Level %s order commission', NEW.level)
+  END;
+BEGIN
+  IF COALESCE(NEW.commission_amount, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'pending' THEN
+      PERFORM post_wallet_transaction(NEW.referrer_id, 'commission_pending', NEW.commission_amount, NEW.id, NULL, label || ' (locked)');
+    ELSIF NEW.status = 'payable' THEN
+      PERFORM post_wallet_transaction(NEW.referrer_id, 'commission_credit', NEW.commission_amount, NEW.id, NULL, label);
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status = 'pending' AND NEW.status = 'payable' THEN
+      PERFORM post_wallet_transaction(NEW.referrer_id, 'commission_matured', NEW.commission_amount, NEW.id, NULL, label || ' unlocked');
+    ELSIF OLD.status = 'pending' AND NEW.status IN ('void', 'reversed') THEN
+      PERFORM post_wallet_transaction(NEW.referrer_id, 'commission_void', NEW.commission_amount, NEW.id, NULL, label || ' voided');
+    ELSIF OLD.status = 'payable' AND NEW.status = 'reversed' THEN
+      PERFORM post_wallet_transaction(NEW.referrer_id, 'reversal', NEW.commission_amount, NEW.id, NULL, format('Level %s commission reversed', NEW.level));
+    ELSE
+      RAISE EXCEPTION 'Commission cannot go from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'P0003';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ================================================================
+-- 3. ORDER LIFECYCLE
+-- ================================================================
+
+-- As in the reward rules migration; subscription rewards are payable at once
+-- and order commissions start locked
+CREATE OR REPLACE FUNCTION apply_referral_rules(
+  trigger_type_param TEXT,
+  source_user_id_param UUID,
+  order_id_param UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rule JSONB;
+  idempotency_key_value TEXT;
+  event_id UUID;
+  source_profile_id UUID;
+  current_referrer_id UUID;
+  current_level INTEGER := 1;
+  level_count INTEGER;
+  level_value NUMERIC;
+  max_amount NUMERIC;
+  base_amount NUMERIC := 0;
+  reward_multiplier NUMERIC := 1;
+  reward_amount NUMERIC;
+  total_distributed NUMERIC := 0;
+  order_rec public.orders;
+  commission_matures_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF trigger_type_param NOT IN ('subscription_activation', 'first_order', 'order_purchase') THEN
+    RAISE EXCEPTION 'Unknown referral trigger: %', trigger_type_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT value -> trigger_type_param INTO rule
+  FROM system_settings
+  WHERE key = 'referral_reward_rules';
+
+  IF rule IS NULL OR NOT COALESCE((rule ->> 'enabled')::BOOLEAN, false) THEN
+    RETURN json_build_object('success', true, 'skipped', 'rule_disabled', 'total_distributed', 0);
+  END IF;
+
+  SELECT id INTO source_profile_id
+  FROM user_profiles
+  WHERE user_id = source_user_id_param;
+
+  IF source_profile_id IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'User profile not found', 'total_distributed', 0);
+  END IF;
+
+  IF trigger_type_param = 'subscription_activation' THEN
+    idempotency_key_value := 'subscription_activation:' || source_user_id_param;
+
+    SELECT COALESCE(sp.referral_reward_multiplier, 1), COALESCE(sp.price, 0)
+    INTO reward_multiplier, base_amount
+    FROM user_subscriptions us
+    JOIN subscription_plans sp ON sp.id = us.plan_id
+    WHERE us.user_id = source_user_id_param AND us.status = 'active';
+
+    reward_multiplier := COALESCE(reward_multiplier, 1);
+    base_amount := COALESCE(base_amount, 0);
+  ELSE
+    SELECT * INTO order_rec FROM orders WHERE id = order_id_param;
+
+    IF order_rec.id IS NULL OR order_rec.user_id IS DISTINCT FROM source_user_id_param THEN
+      RAISE EXCEPTION 'Order % not found for this user', order_id_param
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    base_amount := COALESCE(order_rec.total_amount, 0);
+
+    -- Orders paid after delivery start their return window straight away
+    IF order_rec.status IN ('delivered', 'completed') THEN
+      commission_matures_at := NOW() + make_interval(days => commission_return_window_days());
+    END IF;
+
+    IF trigger_type_param = 'order_purchase' THEN
+      idempotency_key_value := 'order_purchase:' || order_id_param;
+    ELSE
+      idempotency_key_value := 'first_order:' || source_user_id_param;
+
+      -- Only the buyer's first paid order counts
+      IF EXISTS (
+        SELECT 1 FROM orders
+        WHERE user_id = source_user_id_param
+          AND id <> order_id_param
+          AND created_at < order_rec.created_at
+          AND order_status_is_paid(status)
+      ) THEN
+        RETURN json_build_object('success', true, 'skipped', 'not_first_order', 'total_distributed', 0);
+      END IF;
+    END IF;
+  END IF;
+
+  -- Claim the event; a second call with the same key stops here
+  INSERT INTO referral_reward_events (idempotency_key, trigger_type, source_user_id, order_id, rule, base_amount)
+  VALUES (idempotency_key_value, trigger_type_param, source_user_id_param, order_id_param, rule, base_amount)
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO event_id;
+
+  IF event_id IS NULL THEN
+    RETURN json_build_object('success', true, 'skipped', 'already_processed', 'total_distributed', 0);
+  END IF;
+
+  level_count := LEAST(jsonb_array_length(COALESCE(rule -> 'levels', '[]'::JSONB)), 7);
+  max_amount := NULLIF(rule ->> 'max_amount', '')::NUMERIC;
+
+  SELECT referred_by INTO current_referrer_id
+  FROM user_profiles
+  WHERE id = source_profile_id;
+
+  WHILE current_referrer_id IS NOT NULL AND current_level <= level_count LOOP
+    level_value := COALESCE((rule -> 'levels' ->> (current_level - 1))::NUMERIC, 0);
+
+    -- Fixed amounts scale with the plan's multiplier; percentages already
+    -- follow the plan price
+    IF rule ->> 'type' = 'percentage' THEN
+      reward_amount := ROUND(base_amount * level_value / 100, 2);
+    ELSE
+      reward_amount := ROUND(level_value * reward_multiplier, 2);
+    END IF;
+
+    IF max_amount IS NOT NULL THEN
+      reward_amount := LEAST(reward_amount, max_amount);
+    END IF;
+
+    IF reward_amount > 0 AND referrer_earns_rewards(current_referrer_id) THEN
+      INSERT INTO referral_commissions (
+        referrer_id,
+        referee_id,
+        order_id,
+        level,
+        commission_rate,
+        commission_amount,
+        status,
+        trigger_type,
+        trigger_user_id,
+        reward_event_id,
+        matures_at,
+        matured_at
+      ) VALUES (
+        current_referrer_id,
+        source_profile_id,
+        order_id_param,
+        current_level,
+        CASE WHEN rule ->> 'type' = 'percentage' THEN level_value / 100 ELSE 0 END,
+        reward_amount,
+        CASE WHEN trigger_type_param = 'subscription_activation' THEN 'payable' ELSE 'pending' END,
+        trigger_type_param,
+        source_user_id_param,
+        event_id,
+        commission_matures_at,
+        CASE WHEN trigger_type_param = 'subscription_activation' THEN NOW() END
+      );
+
+      total_distributed := total_distributed + reward_amount;
+    END IF;
+
+    SELECT referred_by INTO current_referrer_id
+    FROM user_profiles
+    WHERE id = current_referrer_id;
+
+    current_level := current_level + 1;
+  END LOOP;
+
+  UPDATE referral_reward_events
+  SET total_amount = total_distributed
+  WHERE id = event_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'event_id', event_id,
+    'levels_processed', current_level - 1,
+    'total_distributed', total_distributed,
+    'reward_multiplier', reward_multiplier
+  );
+END;
+$$;
+
+-- Unpaid commissions are voided; commissions that already matured are reversed
+CREATE OR REPLACE FUNCTION reverse_order_commissions(order_id_param UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  voided_count INTEGER;
+  reversed_count INTEGER;
+BEGIN
+  UPDATE referral_commissions
+  SET status = 'void',
+      voided_at = NOW()
+  WHERE order_id = order_id_param
+    AND COALESCE(trigger_type, 'order_purchase') IN ('order_purchase', 'first_order')
+    AND status = 'pending';
+
+  GET DIAGNOSTICS voided_count = ROW_COUNT;
+
+  UPDATE referral_commissions
+  SET status = 'reversed',
+      reversed_at = NOW()
+  WHERE order_id = order_id_param
+    AND COALESCE(trigger_type, 'order_purchase') IN ('order_purchase', 'first_order')
+    AND status = 'payable';
+
+  GET DIAGNOSTICS reversed_count = ROW_COUNT;
+  RETURN voided_count + reversed_count;
+END;
+$$;
+
+-- Delivery starts the return window; cancellation, failed payment or refund
+-- takes the commissions back
+CREATE OR REPLACE FUNCTION handle_order_commission_reversal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('cancelled', 'payment_failed', 'refunded') THEN
+      PERFORM reverse_order_commissions(NEW.id);
+    ELSIF NEW.status IN ('delivered', 'completed') THEN
+      UPDATE referral_commissions
+      SET matures_at = NOW() + make_interval(days => commission_return_window_days())
+      WHERE order_id = NEW.id
+        AND status = 'pending'
+        AND matures_at IS NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Make commissions whose return window has passed payable
+CREATE OR REPLACE FUNCTION mature_referral_commissions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  matured_count INTEGER;
+BEGIN
+  UPDATE referral_commissions
+  SET status = 'payable',
+      matured_at = NOW()
+  WHERE status = 'pending'
+    AND matures_at IS NOT NULL
+    AND matures_at <= NOW();
+
+  GET DIAGNOSTICS matured_count = ROW_COUNT;
+  RETURN matured_count;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'mature-referral-commissions',
+      '30 * * * *',
+      'SELECT mature_referral_commissions()'
+    );
+  END IF;
+END$$;
+
+-- ================================================================
+-- 4. PERMISSIONS
+-- ================================================================
+
+REVOKE EXECUTE ON FUNCTION mature_referral_commissions() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION mature_referral_commissions() FROM authenticated;
+GRANT EXECUTE ON FUNCTION mature_referral_commissions() TO service_role;
+
+COMMIT;
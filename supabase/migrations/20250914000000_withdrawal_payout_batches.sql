@@ -0,0 +1,320 @@
+-- Withdrawal payout batches
+-- Approving a withdrawal no longer means it has been paid: the amount stays
+-- held until an admin records the transfer. Approved requests are grouped
+-- into payout batches, exported as a bulk-payout file for the bank or UPI
+-- portal, and each line is then marked paid (with its UTR) or failed.
+-- Failed lines release the hold back to the user's available balance.
+--
+-- Withdrawal statuses:
+--   pending   requested, amount held
+--   approved  cleared for payment, amount still held
+--   paid      money sent; the hold is paid out
+--   failed    transfer bounced; the hold is released
+--   rejected  refused before payment; the hold is released
+
+BEGIN;
+
+-- ================================================================
+-- 1. BATCHES
+-- ================================================================
+
+CREATE SEQUENCE IF NOT EXISTS payout_batch_number_seq;
+
+CREATE TABLE IF NOT EXISTS payout_batches (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reference TEXT NOT NULL UNIQUE,
+    file_format TEXT NOT NULL CHECK (file_format IN ('upi_bulk', 'bank_bulk')),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed')),
+    line_count INTEGER NOT NULL DEFAULT 0,
+    total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    paid_count INTEGER NOT NULL DEFAULT 0,
+    paid_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    created_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS payout_batches_created_at_idx ON payout_batches (created_at DESC);
+
+-- Only the service role (admin client) reads or writes batches
+ALTER TABLE payout_batches ENABLE ROW LEVEL SECURITY;
+
+-- ================================================================
+-- 2. WITHDRAWAL REQUESTS
+-- ================================================================
+
+ALTER TABLE withdrawal_requests
+ADD COLUMN IF NOT EXISTS payout_batch_id UUID REFERENCES payout_batches(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS utr TEXT,
+ADD COLUMN IF NOT EXISTS failure_reason TEXT,
+ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS withdrawal_requests_payout_batch_idx
+    ON withdrawal_requests (payout_batch_id) WHERE payout_batch_id IS NOT NULL;
+
+-- A UTR identifies one transfer, so it can settle only one request
+CREATE UNIQUE INDEX IF NOT EXISTS withdrawal_requests_utr_idx
+    ON withdrawal_requests (utr) WHERE utr IS NOT NULL;
+
+ALTER TABLE withdrawal_requests DROP CONSTRAINT IF EXISTS withdrawal_requests_status_check;
+
+-- Until now approval posted the payout, so approved requests have already
+-- been paid. The wallet trigger would reject the change, and the ledger
+-- already has the payout entry, so it is switched off for the relabel.
+ALTER TABLE withdrawal_requests DISABLE TRIGGER handle_withdrawal_wallet_entry_trigger;
+
+UPDATE withdrawal_requests
+SET status = 'paid',
+    paid_at = COALESCE(paid_at, processed_at, requested_at)
+WHERE status = 'approved';
+
+ALTER TABLE withdrawal_requests ENABLE TRIGGER handle_withdrawal_wallet_entry_trigger;
+
+ALTER TABLE withdrawal_requests
+ADD CONSTRAINT withdrawal_requests_status_check CHECK (status IN ('pending', 'approved', 'paid', 'failed', 'rejected'));
+
+-- ================================================================
+-- 3. LEDGER
+-- ================================================================
+
+-- A new request holds the amount. Approval keeps it held; paying it out or
+-- rejecting/failing it settles the hold. Settled requests cannot change again.
+CREATE OR REPLACE FUNCTION handle_withdrawal_wallet_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  requester_profile_id UUID;
+BEGIN
+  SELECT id INTO requester_profile_id
+  FROM user_profiles
+  WHERE user_id = NEW.user_id;
+
+  IF requester_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found for withdrawal request'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'Withdrawal requests start as pending'
+        USING ERRCODE = 'P0003';
+    END IF;
+
+    PERFORM post_wallet_transaction(
+      requester_profile_id, 'withdrawal_hold', NEW.amount, NULL, NEW.id,
+      'Withdrawal requested' || COALESCE(' to ' || NEW.upi_id, ''),
+      NEW.user_id
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status = 'pending' AND NEW.status = 'approved' THEN
+      NULL;
+    ELSIF OLD.status IN ('pending', 'approved') AND NEW.status = 'rejected' THEN
+      PERFORM post_wallet_transaction(
+        requester_profile_id, 'withdrawal_release', OLD.amount, NULL, NEW.id,
+        'Withdrawal rejected' || COALESCE(': ' || NEW.admin_notes, ''),
+        NEW.processed_by
+      );
+    ELSIF OLD.status = 'approved' AND NEW.status = 'paid' THEN
+      PERFORM post_wallet_transaction(
+        requester_profile_id, 'payout', OLD.amount, NULL, NEW.id,
+        'Withdrawal paid' || COALESCE(' to ' || NEW.upi_id, '') || COALESCE(' (UTR ' || NEW.utr || ')', ''),
+        NEW.processed_by
+      );
+    ELSIF OLD.status = 'approved' AND NEW.status = 'failed' THEN
+      PERFORM post_wallet_transaction(
+        requester_profile_id, 'withdrawal_release', OLD.amount, NULL, NEW.id,
+        'Withdrawal payout failed' || COALESCE(': ' || NEW.failure_reason, ''),
+        NEW.processed_by
+      );
+    ELSE
+      RAISE EXCEPTION 'Withdrawal request cannot go from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'P0003';
+    END IF;
+  ELSIF NEW.amount IS DISTINCT FROM OLD.amount THEN
+    RAISE EXCEPTION 'Withdrawal amounts cannot be changed'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ================================================================
+-- 4. BATCH FUNCTIONS
+-- ================================================================
+
+-- Group approved, unbatched requests into a new batch
+CREATE OR REPLACE FUNCTION create_payout_batch(
+  request_ids_param UUID[],
+  file_format_param TEXT,
+  admin_id_param UUID DEFAULT NULL
+)
+RETURNS payout_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  batch payout_batches;
+  requested_count INTEGER := COALESCE(array_length(request_ids_param, 1), 0);
+  eligible_count INTEGER;
+  eligible_total DECIMAL(12,2);
+BEGIN
+  IF requested_count = 0 THEN
+    RAISE EXCEPTION 'Select at least one withdrawal request'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF file_format_param NOT IN ('upi_bulk', 'bank_bulk') THEN
+    RAISE EXCEPTION 'Unknown payout file format: %', file_format_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the requests so a concurrent batch cannot take the same lines
+  PERFORM 1
+  FROM withdrawal_requests
+  WHERE id = ANY(request_ids_param)
+  FOR UPDATE;
+
+  SELECT COUNT(*), COALESCE(SUM(amount), 0)
+  INTO eligible_count, eligible_total
+  FROM withdrawal_requests
+  WHERE id = ANY(request_ids_param)
+    AND status = 'approved'
+    AND payout_batch_id IS NULL;
+
+  IF eligible_count <> (SELECT COUNT(DISTINCT id) FROM unnest(request_ids_param) AS id) THEN
+    RAISE EXCEPTION 'Only approved requests that are not already in a batch can be added'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  INSERT INTO payout_batches (reference, file_format, line_count, total_amount, created_by)
+  VALUES (
+    'PB' || to_char(NOW(), 'YYMMDD') || lpad(nextval('payout_batch_number_seq')::TEXT, 4, '0'),
+    file_format_param,
+    eligible_count,
+    eligible_total,
+    admin_id_param
+  )
+  RETURNING * INTO batch;
+
+  UPDATE withdrawal_requests
+  SET payout_batch_id = batch.id
+  WHERE id = ANY(request_ids_param);
+
+  RETURN batch;
+END;
+$$;
+
+-- Record the outcome of one approved request's transfer. Paid lines need the
+-- UTR from the bank; failed lines need a reason and go back to the balance.
+CREATE OR REPLACE FUNCTION record_withdrawal_payout(
+  request_id_param UUID,
+  outcome_param TEXT,
+  utr_param TEXT DEFAULT NULL,
+  failure_reason_param TEXT DEFAULT NULL,
+  admin_id_param UUID DEFAULT NULL
+)
+RETURNS withdrawal_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request withdrawal_requests;
+  clean_utr TEXT := upper(regexp_replace(COALESCE(utr_param, ''), '\s', '', 'g'));
+BEGIN
+  SELECT * INTO request
+  FROM withdrawal_requests
+  WHERE id = request_id_param
+  FOR UPDATE;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Withdrawal request % not found', request_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF request.status <> 'approved' THEN
+    RAISE EXCEPTION 'Withdrawal request is already %', request.status
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  IF outcome_param = 'paid' THEN
+    -- 12-digit UPI/IMPS reference or a NEFT/RTGS UTR of up to 22 characters
+    IF clean_utr !~ '^[A-Z0-9]{12,22}$' THEN
+      RAISE EXCEPTION 'Enter the 12 to 22 character UTR for this transfer'
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM withdrawal_requests WHERE utr = clean_utr) THEN
+      RAISE EXCEPTION 'UTR % is already recorded against another withdrawal', clean_utr
+        USING ERRCODE = 'P0003';
+    END IF;
+
+    UPDATE withdrawal_requests
+    SET status = 'paid',
+        utr = clean_utr,
+        paid_at = NOW(),
+        processed_at = NOW(),
+        processed_by = COALESCE(admin_id_param, processed_by)
+    WHERE id = request_id_param
+    RETURNING * INTO request;
+  ELSIF outcome_param = 'failed' THEN
+    IF failure_reason_param IS NULL OR btrim(failure_reason_param) = '' THEN
+      RAISE EXCEPTION 'A reason is required for failed payouts'
+        USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE withdrawal_requests
+    SET status = 'failed',
+        utr = NULLIF(clean_utr, ''),
+        failure_reason = btrim(failure_reason_param),
+        processed_at = NOW(),
+        processed_by = COALESCE(admin_id_param, processed_by)
+    WHERE id = request_id_param
+    RETURNING * INTO request;
+  ELSE
+    RAISE EXCEPTION 'Payout outcome must be paid or failed'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF request.payout_batch_id IS NOT NULL THEN
+    UPDATE payout_batches pb
+    SET paid_count = totals.paid_count,
+        paid_amount = totals.paid_amount,
+        failed_count = totals.failed_count,
+        status = CASE WHEN totals.settled_count = pb.line_count THEN 'completed' ELSE 'open' END,
+        completed_at = CASE WHEN totals.settled_count = pb.line_count THEN NOW() ELSE NULL END
+    FROM (
+      SELECT
+        COUNT(*) FILTER (WHERE status = 'paid') AS paid_count,
+        COALESCE(SUM(amount) FILTER (WHERE status = 'paid'), 0) AS paid_amount,
+        COUNT(*) FILTER (WHERE status = 'failed') AS failed_count,
+        COUNT(*) FILTER (WHERE status IN ('paid', 'failed')) AS settled_count
+      FROM withdrawal_requests
+      WHERE payout_batch_id = request.payout_batch_id
+    ) totals
+    WHERE pb.id = request.payout_batch_id;
+  END IF;
+
+  RETURN request;
+END;
+$$;
+
+-- ================================================================
+-- 5. PERMISSIONS
+-- ================================================================
+
+REVOKE EXECUTE ON FUNCTION create_payout_batch(UUID[], TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION create_payout_batch(UUID[], TEXT, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION create_payout_batch(UUID[], TEXT, UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION record_withdrawal_payout(UUID, TEXT, TEXT, TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_withdrawal_payout(UUID, TEXT, TEXT, TEXT, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_withdrawal_payout(UUID, TEXT, TEXT, TEXT, UUID) TO service_role;
+
+COMMIT;
@@ -0,0 +1,283 @@
+-- Withdrawal policy
+-- Rules for new withdrawal requests live in system_settings and are checked
+-- by a trigger before the request is inserted, so the dialog cannot be
+-- bypassed:
+--   min_amount                 smallest amount per request
+--   daily_limit/monthly_limit  total requested per IST day / calendar month
+--   one_pending_request        only one request in progress at a time
+--   upi_change_cooling_hours   wait after changing the payout UPI ID
+--   kyc_threshold              requests above this need verified KYC
+-- A null limit or threshold switches that rule off.
+--
+-- The payout UPI ID and KYC status are kept in payout_profiles rather than
+-- user_profiles, which users are allowed to update themselves.
+
+BEGIN;
+
+-- ================================================================
+-- 1. SETTINGS
+-- ================================================================
+
+INSERT INTO system_settings (key, value, description)
+VALUES (
+    'withdrawal_policy',
+    '{
+      "min_amount": 10,
+      "daily_limit": 25000,
+      "monthly_limit": 100000,
+      "one_pending_request": true,
+      "upi_change_cooling_hours": 24,
+      "kyc_threshold": null
+    }'::jsonb,
+    'Withdrawal rules: minimum amount, daily and monthly caps, one request at a time, cooling period after a UPI ID change and the amount above which KYC is required'
+) ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION withdrawal_policy()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT '{
+    "min_amount": 10,
+    "daily_limit": null,
+    "monthly_limit": null,
+    "one_pending_request": true,
+    "upi_change_cooling_hours": 0,
+    "kyc_threshold": null
+  }'::jsonb || COALESCE((SELECT value FROM system_settings WHERE key = 'withdrawal_policy'), '{}'::jsonb);
+$$;
+
+-- ================================================================
+-- 2. PAYOUT PROFILES
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS payout_profiles (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    payout_upi_id TEXT,
+    -- Set when an existing UPI ID is replaced; starts the cooling period
+    payout_upi_changed_at TIMESTAMP WITH TIME ZONE,
+    kyc_status TEXT NOT NULL DEFAULT 'not_submitted' CHECK (kyc_status IN ('not_submitted', 'pending', 'verified', 'rejected')),
+    kyc_verified_at TIMESTAMP WITH TIME ZONE,
+    kyc_verified_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE payout_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own payout profile" ON payout_profiles;
+CREATE POLICY "Users can view own payout profile" ON payout_profiles
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Start everyone who has withdrawn before on the UPI ID they used last
+INSERT INTO payout_profiles (user_id, payout_upi_id)
+SELECT DISTINCT ON (user_id) user_id, upi_id
+FROM withdrawal_requests
+WHERE upi_id IS NOT NULL
+ORDER BY user_id, requested_at DESC
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Save the caller's payout UPI ID. Replacing an existing one starts the
+-- cooling period; setting the first one does not.
+CREATE OR REPLACE FUNCTION set_payout_upi_id(upi_id_param TEXT)
+RETURNS payout_profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  clean_upi TEXT := lower(btrim(COALESCE(upi_id_param, '')));
+  saved payout_profiles;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to continue'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF clean_upi !~ '^[a-z0-9.\-_]{2,}@[a-z]{2,}$' THEN
+    RAISE EXCEPTION 'Please enter a valid UPI ID (e.g., yourname@paytm)'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO payout_profiles (user_id, payout_upi_id)
+  VALUES (caller_id, clean_upi)
+  ON CONFLICT (user_id) DO UPDATE
+  SET payout_upi_id = EXCLUDED.payout_upi_id,
+      payout_upi_changed_at = CASE
+        WHEN payout_profiles.payout_upi_id IS NULL THEN payout_profiles.payout_upi_changed_at
+        WHEN payout_profiles.payout_upi_id = EXCLUDED.payout_upi_id THEN payout_profiles.payout_upi_changed_at
+        ELSE NOW()
+      END,
+      updated_at = NOW()
+  RETURNING * INTO saved;
+
+  RETURN saved;
+END;
+$$;
+
+-- ================================================================
+-- 3. ENFORCEMENT
+-- ================================================================
+
+-- Amounts already requested today and this month (IST), and requests still
+-- in progress. Rejected and failed requests do not count.
+CREATE OR REPLACE FUNCTION withdrawal_usage(user_id_param UUID)
+RETURNS TABLE (used_today DECIMAL, used_this_month DECIMAL, open_requests INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(amount) FILTER (
+      WHERE (requested_at AT TIME ZONE 'Asia/Kolkata') >= date_trunc('day', NOW() AT TIME ZONE 'Asia/Kolkata')
+    ), 0)::DECIMAL(12,2),
+    COALESCE(SUM(amount) FILTER (
+      WHERE (requested_at AT TIME ZONE 'Asia/Kolkata') >= date_trunc('month', NOW() AT TIME ZONE 'Asia/Kolkata')
+    ), 0)::DECIMAL(12,2),
+    COUNT(*) FILTER (WHERE status IN ('pending', 'approved'))::INTEGER
+  FROM withdrawal_requests
+  WHERE user_id = user_id_param
+    AND status NOT IN ('rejected', 'failed');
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_withdrawal_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy JSONB := withdrawal_policy();
+  payout payout_profiles;
+  usage RECORD;
+  min_amount DECIMAL := (policy ->> 'min_amount')::DECIMAL;
+  daily_limit DECIMAL := (policy ->> 'daily_limit')::DECIMAL;
+  monthly_limit DECIMAL := (policy ->> 'monthly_limit')::DECIMAL;
+  kyc_threshold DECIMAL := (policy ->> 'kyc_threshold')::DECIMAL;
+  cooling_hours INTEGER := COALESCE((policy ->> 'upi_change_cooling_hours')::INTEGER, 0);
+  cooling_ends_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NEW.amount IS NULL OR NEW.amount <= 0 THEN
+    RAISE EXCEPTION 'Please enter a valid amount'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF min_amount IS NOT NULL AND NEW.amount < min_amount THEN
+    RAISE EXCEPTION 'Minimum withdrawal amount is ₹%', min_amount
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- The first withdrawal saves the UPI ID it is sent to
+  INSERT INTO payout_profiles (user_id, payout_upi_id)
+  VALUES (NEW.user_id, lower(btrim(NEW.upi_id)))
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Serialises requests per user so the caps see every earlier request
+  SELECT * INTO payout
+  FROM payout_profiles
+  WHERE user_id = NEW.user_id
+  FOR UPDATE;
+
+  IF payout.payout_upi_id IS NULL THEN
+    UPDATE payout_profiles
+    SET payout_upi_id = lower(btrim(NEW.upi_id)), updated_at = NOW()
+    WHERE user_id = NEW.user_id
+    RETURNING * INTO payout;
+  END IF;
+
+  IF lower(btrim(NEW.upi_id)) IS DISTINCT FROM payout.payout_upi_id THEN
+    RAISE EXCEPTION 'Withdrawals can only be sent to your saved payout UPI ID (%)', payout.payout_upi_id
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  cooling_ends_at := payout.payout_upi_changed_at + make_interval(hours => cooling_hours);
+  IF cooling_ends_at > NOW() THEN
+    RAISE EXCEPTION 'Your payout UPI ID was changed recently. Withdrawals to it open at % IST',
+      to_char(cooling_ends_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI')
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  SELECT * INTO usage FROM withdrawal_usage(NEW.user_id);
+
+  IF COALESCE((policy ->> 'one_pending_request')::BOOLEAN, false) AND usage.open_requests > 0 THEN
+    RAISE EXCEPTION 'You already have a withdrawal request in progress'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  IF daily_limit IS NOT NULL AND usage.used_today + NEW.amount > daily_limit THEN
+    RAISE EXCEPTION 'Daily withdrawal limit is ₹%. You can request up to ₹% more today', daily_limit, GREATEST(daily_limit - usage.used_today, 0)
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF monthly_limit IS NOT NULL AND usage.used_this_month + NEW.amount > monthly_limit THEN
+    RAISE EXCEPTION 'Monthly withdrawal limit is ₹%. You can request up to ₹% more this month', monthly_limit, GREATEST(monthly_limit - usage.used_this_month, 0)
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF kyc_threshold IS NOT NULL AND NEW.amount > kyc_threshold AND payout.kyc_status <> 'verified' THEN
+    RAISE EXCEPTION 'Withdrawals above ₹% need verified KYC', kyc_threshold
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  NEW.upi_id := payout.payout_upi_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_withdrawal_policy_trigger ON withdrawal_requests;
+CREATE TRIGGER enforce_withdrawal_policy_trigger
+    BEFORE INSERT ON withdrawal_requests
+    FOR EACH ROW EXECUTE FUNCTION enforce_withdrawal_policy();
+
+-- The caller's limits and how much of them is used, for the withdrawal dialog
+CREATE OR REPLACE FUNCTION get_withdrawal_limits()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  policy JSONB := withdrawal_policy();
+  payout payout_profiles;
+  usage RECORD;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to continue'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO payout FROM payout_profiles WHERE user_id = caller_id;
+  SELECT * INTO usage FROM withdrawal_usage(caller_id);
+
+  RETURN jsonb_build_object(
+    'policy', policy,
+    'used_today', usage.used_today,
+    'used_this_month', usage.used_this_month,
+    'open_requests', usage.open_requests,
+    'payout_upi_id', payout.payout_upi_id,
+    'upi_cooling_ends_at', payout.payout_upi_changed_at
+      + make_interval(hours => COALESCE((policy ->> 'upi_change_cooling_hours')::INTEGER, 0)),
+    'kyc_status', COALESCE(payout.kyc_status, 'not_submitted')
+  );
+END;
+$$;
+
+-- ================================================================
+-- 4. PERMISSIONS
+-- ================================================================
+
+REVOKE EXECUTE ON FUNCTION withdrawal_usage(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION withdrawal_usage(UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION withdrawal_usage(UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION set_payout_upi_id(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_payout_upi_id(TEXT) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION get_withdrawal_limits() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_withdrawal_limits() TO authenticated;
+
+COMMIT;
@@ -0,0 +1,594 @@
+-- KYC and payout accounts
+-- Users save payout accounts (a UPI VPA, or a bank account with IFSC) and
+-- upload PAN and ID documents to the private kyc-documents bucket. Admins
+-- verify both from a queue. Withdrawals can only go to a verified payout
+-- account, and KYC counts as verified once a PAN document is verified.
+--
+-- This replaces the single saved payout UPI ID from the withdrawal policy
+-- migration: the cooling period now starts when a replacement payout
+-- account is verified.
+
+BEGIN;
+
+-- ================================================================
+-- 1. STORAGE
+-- ================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('kyc-documents', 'kyc-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files live under <user id>/; users can add and read only their own
+DROP POLICY IF EXISTS "Users can upload own KYC documents" ON storage.objects;
+CREATE POLICY "Users can upload own KYC documents" ON storage.objects
+    FOR INSERT TO authenticated
+    WITH CHECK (bucket_id = 'kyc-documents' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+DROP POLICY IF EXISTS "Users can view own KYC documents" ON storage.objects;
+CREATE POLICY "Users can view own KYC documents" ON storage.objects
+    FOR SELECT TO authenticated
+    USING (bucket_id = 'kyc-documents' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+-- ================================================================
+-- 2. PAYOUT ACCOUNTS
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS payout_accounts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    account_type TEXT NOT NULL CHECK (account_type IN ('upi', 'bank')),
+    upi_id TEXT,
+    account_holder_name TEXT,
+    account_number TEXT,
+    ifsc TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'rejected')),
+    rejection_reason TEXT,
+    -- Withdrawals to a replacement account open after the cooling period
+    cooling_ends_at TIMESTAMP WITH TIME ZONE,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    verified_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (
+      (account_type = 'upi' AND upi_id IS NOT NULL AND account_number IS NULL AND ifsc IS NULL)
+      OR (account_type = 'bank' AND upi_id IS NULL AND account_number IS NOT NULL AND ifsc IS NOT NULL AND account_holder_name IS NOT NULL)
+    )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS payout_accounts_user_upi_idx
+    ON payout_accounts (user_id, upi_id) WHERE account_type = 'upi';
+
+CREATE UNIQUE INDEX IF NOT EXISTS payout_accounts_user_bank_idx
+    ON payout_accounts (user_id, account_number, ifsc) WHERE account_type = 'bank';
+
+CREATE INDEX IF NOT EXISTS payout_accounts_pending_idx
+    ON payout_accounts (created_at) WHERE status = 'pending';
+
+ALTER TABLE payout_accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own payout accounts" ON payout_accounts;
+CREATE POLICY "Users can view own payout accounts" ON payout_accounts
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own payout accounts" ON payout_accounts;
+CREATE POLICY "Users can delete own payout accounts" ON payout_accounts
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- UPI IDs users were already paid to carry over as verified accounts
+INSERT INTO payout_accounts (user_id, account_type, upi_id, status, verified_at)
+SELECT user_id, 'upi', payout_upi_id, 'verified', NOW()
+FROM payout_profiles
+WHERE payout_upi_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Save a payout account for the caller, pending verification
+CREATE OR REPLACE FUNCTION add_payout_account(
+  account_type_param TEXT,
+  upi_id_param TEXT DEFAULT NULL,
+  account_holder_name_param TEXT DEFAULT NULL,
+  account_number_param TEXT DEFAULT NULL,
+  ifsc_param TEXT DEFAULT NULL
+)
+RETURNS payout_accounts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  clean_upi TEXT := lower(btrim(COALESCE(upi_id_param, '')));
+  clean_number TEXT := regexp_replace(COALESCE(account_number_param, ''), '\s', '', 'g');
+  clean_ifsc TEXT := upper(btrim(COALESCE(ifsc_param, '')));
+  clean_name TEXT := NULLIF(btrim(COALESCE(account_holder_name_param, '')), '');
+  saved payout_accounts;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to continue'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF account_type_param = 'upi' THEN
+    IF clean_upi !~ '^[a-z0-9.\-_]{2,}@[a-z]{2,}$' THEN
+      RAISE EXCEPTION 'Please enter a valid UPI ID (e.g., yourname@paytm)'
+        USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO payout_accounts (user_id, account_type, upi_id, account_holder_name)
+    VALUES (caller_id, 'upi', clean_upi, clean_name)
+    RETURNING * INTO saved;
+  ELSIF account_type_param = 'bank' THEN
+    IF clean_name IS NULL THEN
+      RAISE EXCEPTION 'Enter the account holder''s name as printed on the passbook'
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF clean_number !~ '^[0-9]{9,18}$' THEN
+      RAISE EXCEPTION 'Bank account numbers are 9 to 18 digits'
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF clean_ifsc !~ '^[A-Z]{4}0[A-Z0-9]{6}$' THEN
+      RAISE EXCEPTION 'Please enter a valid IFSC (e.g., SBIN0001234)'
+        USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO payout_accounts (user_id, account_type, account_holder_name, account_number, ifsc)
+    VALUES (caller_id, 'bank', clean_name, clean_number, clean_ifsc)
+    RETURNING * INTO saved;
+  ELSE
+    RAISE EXCEPTION 'Payout accounts are UPI or bank accounts'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN saved;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'This payout account is already saved'
+      USING ERRCODE = 'P0003';
+END;
+$$;
+
+-- ================================================================
+-- 3. KYC DOCUMENTS
+-- ================================================================
+
+ALTER TABLE payout_profiles
+ADD COLUMN IF NOT EXISTS pan_number TEXT;
+
+CREATE TABLE IF NOT EXISTS kyc_documents (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    document_type TEXT NOT NULL CHECK (document_type IN ('pan', 'aadhaar', 'passport', 'voter_id', 'driving_licence')),
+    document_number TEXT NOT NULL,
+    storage_path TEXT NOT NULL,
+    file_name TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'rejected')),
+    rejection_reason TEXT,
+    reviewed_by UUID,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS kyc_documents_user_idx ON kyc_documents (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS kyc_documents_pending_idx ON kyc_documents (created_at) WHERE status = 'pending';
+
+ALTER TABLE kyc_documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own KYC documents" ON kyc_documents;
+CREATE POLICY "Users can view own KYC documents" ON kyc_documents
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Only a verified PAN completes KYC; other documents support the review
+CREATE OR REPLACE FUNCTION refresh_kyc_status(user_id_param UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  verified_pan kyc_documents;
+  new_status TEXT;
+BEGIN
+  SELECT * INTO verified_pan
+  FROM kyc_documents
+  WHERE user_id = user_id_param AND document_type = 'pan' AND status = 'verified'
+  ORDER BY reviewed_at DESC
+  LIMIT 1;
+
+  new_status := CASE
+    WHEN verified_pan.id IS NOT NULL THEN 'verified'
+    WHEN EXISTS (SELECT 1 FROM kyc_documents WHERE user_id = user_id_param AND status = 'pending') THEN 'pending'
+    WHEN EXISTS (SELECT 1 FROM kyc_documents WHERE user_id = user_id_param AND status = 'rejected') THEN 'rejected'
+    ELSE 'not_submitted'
+  END;
+
+  INSERT INTO payout_profiles (user_id, kyc_status, kyc_verified_at, kyc_verified_by, pan_number)
+  VALUES (user_id_param, new_status, verified_pan.reviewed_at, verified_pan.reviewed_by, verified_pan.document_number)
+  ON CONFLICT (user_id) DO UPDATE
+  SET kyc_status = EXCLUDED.kyc_status,
+      kyc_verified_at = EXCLUDED.kyc_verified_at,
+      kyc_verified_by = EXCLUDED.kyc_verified_by,
+      pan_number = EXCLUDED.pan_number,
+      updated_at = NOW();
+
+  RETURN new_status;
+END;
+$$;
+
+-- Record a document the caller has uploaded to their kyc-documents folder
+CREATE OR REPLACE FUNCTION submit_kyc_document(
+  document_type_param TEXT,
+  document_number_param TEXT,
+  storage_path_param TEXT,
+  file_name_param TEXT DEFAULT NULL
+)
+RETURNS kyc_documents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  clean_number TEXT := upper(regexp_replace(COALESCE(document_number_param, ''), '\s', '', 'g'));
+  saved kyc_documents;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to continue'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF storage_path_param IS NULL OR split_part(storage_path_param, '/', 1) <> caller_id::TEXT THEN
+    RAISE EXCEPTION 'Upload the document to your own folder first'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF document_type_param = 'pan' AND clean_number !~ '^[A-Z]{5}[0-9]{4}[A-Z]$' THEN
+    RAISE EXCEPTION 'Please enter a valid PAN (e.g., ABCDE1234F)'
+      USING ERRCODE = '22023';
+  ELSIF document_type_param = 'aadhaar' AND clean_number !~ '^[2-9][0-9]{11}$' THEN
+    RAISE EXCEPTION 'Aadhaar numbers are 12 digits'
+      USING ERRCODE = '22023';
+  ELSIF length(clean_number) < 5 THEN
+    RAISE EXCEPTION 'Please enter the document number'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO kyc_documents (user_id, document_type, document_number, storage_path, file_name)
+  VALUES (caller_id, document_type_param, clean_number, storage_path_param, file_name_param)
+  RETURNING * INTO saved;
+
+  PERFORM refresh_kyc_status(caller_id);
+  RETURN saved;
+END;
+$$;
+
+-- ================================================================
+-- 4. REVIEW
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION review_kyc_document(
+  document_id_param UUID,
+  decision_param TEXT,
+  reason_param TEXT DEFAULT NULL,
+  admin_id_param UUID DEFAULT NULL
+)
+RETURNS kyc_documents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reviewed kyc_documents;
+BEGIN
+  IF decision_param NOT IN ('verified', 'rejected') THEN
+    RAISE EXCEPTION 'Documents are either verified or rejected'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF decision_param = 'rejected' AND (reason_param IS NULL OR btrim(reason_param) = '') THEN
+    RAISE EXCEPTION 'A reason is required when rejecting a document'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE kyc_documents
+  SET status = decision_param,
+      rejection_reason = CASE WHEN decision_param = 'rejected' THEN btrim(reason_param) END,
+      reviewed_by = admin_id_param,
+      reviewed_at = NOW()
+  WHERE id = document_id_param
+  RETURNING * INTO reviewed;
+
+  IF reviewed.id IS NULL THEN
+    RAISE EXCEPTION 'KYC document % not found', document_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM refresh_kyc_status(reviewed.user_id);
+  RETURN reviewed;
+END;
+$$;
+
+-- Verifying a user's second or later account starts the cooling period
+-- from the withdrawal policy before withdrawals can go to it
+CREATE OR REPLACE FUNCTION review_payout_account(
+  account_id_param UUID,
+  decision_param TEXT,
+  reason_param TEXT DEFAULT NULL,
+  admin_id_param UUID DEFAULT NULL
+)
+RETURNS payout_accounts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  account payout_accounts;
+  cooling_hours INTEGER := COALESCE((withdrawal_policy() ->> 'upi_change_cooling_hours')::INTEGER, 0);
+BEGIN
+  IF decision_param NOT IN ('verified', 'rejected') THEN
+    RAISE EXCEPTION 'Payout accounts are either verified or rejected'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF decision_param = 'rejected' AND (reason_param IS NULL OR btrim(reason_param) = '') THEN
+    RAISE EXCEPTION 'A reason is required when rejecting a payout account'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO account
+  FROM payout_accounts
+  WHERE id = account_id_param
+  FOR UPDATE;
+
+  IF account.id IS NULL THEN
+    RAISE EXCEPTION 'Payout account % not found', account_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE payout_accounts
+  SET status = decision_param,
+      rejection_reason = CASE WHEN decision_param = 'rejected' THEN btrim(reason_param) END,
+      verified_at = CASE WHEN decision_param = 'verified' THEN NOW() END,
+      verified_by = admin_id_param,
+      cooling_ends_at = CASE
+        WHEN decision_param = 'verified' AND cooling_hours > 0 AND EXISTS (
+          SELECT 1 FROM payout_accounts other
+          WHERE other.user_id = account.user_id AND other.id <> account.id AND other.status = 'verified'
+        ) THEN NOW() + make_interval(hours => cooling_hours)
+      END,
+      updated_at = NOW()
+  WHERE id = account_id_param
+  RETURNING * INTO account;
+
+  RETURN account;
+END;
+$$;
+
+-- ================================================================
+-- 5. WITHDRAWALS
+-- ================================================================
+
+-- Where the money goes is copied from the account so later edits to the
+-- account do not change requests already made
+ALTER TABLE withdrawal_requests
+ADD COLUMN IF NOT EXISTS payout_account_id UUID REFERENCES payout_accounts(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS account_holder_name TEXT,
+ADD COLUMN IF NOT EXISTS bank_account_number TEXT,
+ADD COLUMN IF NOT EXISTS bank_ifsc TEXT;
+
+-- As in the withdrawal policy migration, with the saved UPI ID replaced by
+-- a verified payout account
+CREATE OR REPLACE FUNCTION enforce_withdrawal_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy JSONB := withdrawal_policy();
+  payout payout_profiles;
+  account payout_accounts;
+  usage RECORD;
+  min_amount DECIMAL := (policy ->> 'min_amount')::DECIMAL;
+  daily_limit DECIMAL := (policy ->> 'daily_limit')::DECIMAL;
+  monthly_limit DECIMAL := (policy ->> 'monthly_limit')::DECIMAL;
+  kyc_threshold DECIMAL := (policy ->> 'kyc_threshold')::DECIMAL;
+BEGIN
+  IF NEW.amount IS NULL OR NEW.amount <= 0 THEN
+    RAISE EXCEPTION 'Please enter a valid amount'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF min_amount IS NOT NULL AND NEW.amount < min_amount THEN
+    RAISE EXCEPTION 'Minimum withdrawal amount is ₹%', min_amount
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO payout_profiles (user_id)
+  VALUES (NEW.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Serialises requests per user so the caps see every earlier request
+  SELECT * INTO payout
+  FROM payout_profiles
+  WHERE user_id = NEW.user_id
+  FOR UPDATE;
+
+  SELECT * INTO account
+  FROM payout_accounts
+  WHERE id = NEW.payout_account_id AND user_id = NEW.user_id;
+
+  IF account.id IS NULL OR account.status <> 'verified' THEN
+    RAISE EXCEPTION 'Withdrawals can only be sent to a verified payout account'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  IF account.cooling_ends_at > NOW() THEN
+    RAISE EXCEPTION 'This payout account was added recently. Withdrawals to it open at % IST',
+      to_char(account.cooling_ends_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI')
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  SELECT * INTO usage FROM withdrawal_usage(NEW.user_id);
+
+  IF COALESCE((policy ->> 'one_pending_request')::BOOLEAN, false) AND usage.open_requests > 0 THEN
+    RAISE EXCEPTION 'You already have a withdrawal request in progress'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  IF daily_limit IS NOT NULL AND usage.used_today + NEW.amount > daily_limit THEN
+    RAISE EXCEPTION 'Daily withdrawal limit is ₹%. You can request up to ₹% more today', daily_limit, GREATEST(daily_limit - usage.used_today, 0)
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF monthly_limit IS NOT NULL AND usage.used_this_month + NEW.amount > monthly_limit THEN
+    RAISE EXCEPTION 'Monthly withdrawal limit is ₹%. You can request up to ₹% more this month', monthly_limit, GREATEST(monthly_limit - usage.used_this_month, 0)
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF kyc_threshold IS NOT NULL AND NEW.amount > kyc_threshold AND payout.kyc_status <> 'verified' THEN
+    RAISE EXCEPTION 'Withdrawals above ₹% need verified KYC', kyc_threshold
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  NEW.upi_id := account.upi_id;
+  NEW.account_holder_name := account.account_holder_name;
+  NEW.bank_account_number := account.account_number;
+  NEW.bank_ifsc := account.ifsc;
+  RETURN NEW;
+END;
+$$;
+
+-- As in the withdrawal policy migration, reporting KYC but no saved UPI ID
+CREATE OR REPLACE FUNCTION get_withdrawal_limits()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  policy JSONB := withdrawal_policy();
+  payout payout_profiles;
+  usage RECORD;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to continue'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO payout FROM payout_profiles WHERE user_id = caller_id;
+  SELECT * INTO usage FROM withdrawal_usage(caller_id);
+
+  RETURN jsonb_build_object(
+    'policy', policy,
+    'used_today', usage.used_today,
+    'used_this_month', usage.used_this_month,
+    'open_requests', usage.open_requests,
+    'kyc_status', COALESCE(payout.kyc_status, 'not_submitted')
+  );
+END;
+$$;
+
+DROP FUNCTION IF EXISTS set_payout_upi_id(TEXT);
+
+ALTER TABLE payout_profiles
+DROP COLUMN IF EXISTS payout_upi_id,
+DROP COLUMN IF EXISTS payout_upi_changed_at;
+
+-- As in the payout batches migration; UPI bulk files cannot carry bank
+-- account lines
+CREATE OR REPLACE FUNCTION create_payout_batch(
+  request_ids_param UUID[],
+  file_format_param TEXT,
+  admin_id_param UUID DEFAULT NULL
+)
+RETURNS payout_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  batch payout_batches;
+  requested_count INTEGER := COALESCE(array_length(request_ids_param, 1), 0);
+  eligible_count INTEGER;
+  eligible_total DECIMAL(12,2);
+BEGIN
+  IF requested_count = 0 THEN
+    RAISE EXCEPTION 'Select at least one withdrawal request'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF file_format_param NOT IN ('upi_bulk', 'bank_bulk') THEN
+    RAISE EXCEPTION 'Unknown payout file format: %', file_format_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the requests so a concurrent batch cannot take the same lines
+  PERFORM 1
+  FROM withdrawal_requests
+  WHERE id = ANY(request_ids_param)
+  FOR UPDATE;
+
+  SELECT COUNT(*), COALESCE(SUM(amount), 0)
+  INTO eligible_count, eligible_total
+  FROM withdrawal_requests
+  WHERE id = ANY(request_ids_param)
+    AND status = 'approved'
+    AND payout_batch_id IS NULL;
+
+  IF eligible_count <> (SELECT COUNT(DISTINCT id) FROM unnest(request_ids_param) AS id) THEN
+    RAISE EXCEPTION 'Only approved requests that are not already in a batch can be added'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  IF file_format_param = 'upi_bulk' AND EXISTS (
+    SELECT 1 FROM withdrawal_requests
+    WHERE id = ANY(request_ids_param) AND upi_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'UPI bulk files can only carry UPI payouts; use the bank bulk format for bank accounts'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO payout_batches (reference, file_format, line_count, total_amount, created_by)
+  VALUES (
+    'PB' || to_char(NOW(), 'YYMMDD') || lpad(nextval('payout_batch_number_seq')::TEXT, 4, '0'),
+    file_format_param,
+    eligible_count,
+    eligible_total,
+    admin_id_param
+  )
+  RETURNING * INTO batch;
+
+  UPDATE withdrawal_requests
+  SET payout_batch_id = batch.id
+  WHERE id = ANY(request_ids_param);
+
+  RETURN batch;
+END;
+$$;
+
+-- ================================================================
+-- 6. PERMISSIONS
+-- ================================================================
+
+REVOKE EXECUTE ON FUNCTION add_payout_account(TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION add_payout_account(TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION submit_kyc_document(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION submit_kyc_document(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION refresh_kyc_status(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION refresh_kyc_status(UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION refresh_kyc_status(UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION review_kyc_document(UUID, TEXT, TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION review_kyc_document(UUID, TEXT, TEXT, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION review_kyc_document(UUID, TEXT, TEXT, UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION review_payout_account(UUID, TEXT, TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION review_payout_account(UUID, TEXT, TEXT, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION review_payout_account(UUID, TEXT, TEXT, UUID) TO service_role;
+
+COMMIT;
@@ -0,0 +1,540 @@
+-- TDS on referral income
+-- Tax is worked out when a withdrawal is approved and withheld when it is
+-- paid: the payout sends the net amount and the tax moves to a new
+-- tax_withheld ledger account. The rules live in system_settings:
+--   enabled               switch deduction on or off
+--   section               printed on statements and reports
+--   rate_percent          rate for users with a verified PAN
+--   no_pan_rate_percent   higher rate when no PAN is verified
+--   annual_threshold      no tax until a user's approved withdrawals in the
+--                         financial year (April-March) pass this amount; the
+--                         request that crosses it is taxed on the whole year
+-- A null threshold taxes every withdrawal.
+
+BEGIN;
+
+-- ================================================================
+-- 1. SETTINGS
+-- ================================================================
+
+INSERT INTO system_settings (key, value, description)
+VALUES (
+    'tds_policy',
+    '{
+      "enabled": true,
+      "section": "194H",
+      "rate_percent": 2,
+      "no_pan_rate_percent": 20,
+      "annual_threshold": 20000
+    }'::jsonb,
+    'TDS on withdrawals: section, rate with and without a verified PAN and the yearly amount below which nothing is deducted'
+) ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION tds_policy()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT '{
+    "enabled": false,
+    "section": "194H",
+    "rate_percent": 0,
+    "no_pan_rate_percent": 0,
+    "annual_threshold": null
+  }'::jsonb || COALESCE((SELECT value FROM system_settings WHERE key = 'tds_policy'), '{}'::jsonb);
+$$;
+
+-- Indian financial year of a moment, e.g. '2025-26'
+CREATE OR REPLACE FUNCTION financial_year_of(at_param TIMESTAMP WITH TIME ZONE)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT start_year::TEXT || '-' || lpad(((start_year + 1) % 100)::TEXT, 2, '0')
+  FROM (
+    SELECT CASE
+      WHEN EXTRACT(MONTH FROM at_param AT TIME ZONE 'Asia/Kolkata') >= 4
+        THEN EXTRACT(YEAR FROM at_param AT TIME ZONE 'Asia/Kolkata')::INTEGER
+      ELSE EXTRACT(YEAR FROM at_param AT TIME ZONE 'Asia/Kolkata')::INTEGER - 1
+    END AS start_year
+  ) fy;
+$$;
+
+-- ================================================================
+-- 2. WITHDRAWAL REQUESTS
+-- ================================================================
+
+ALTER TABLE withdrawal_requests
+ADD COLUMN IF NOT EXISTS financial_year TEXT,
+ADD COLUMN IF NOT EXISTS tds_section TEXT,
+ADD COLUMN IF NOT EXISTS tds_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS tds_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (tds_amount >= 0),
+-- PAN on file when the tax was worked out
+ADD COLUMN IF NOT EXISTS tds_pan TEXT;
+
+ALTER TABLE withdrawal_requests
+ADD COLUMN IF NOT EXISTS net_amount DECIMAL(12,2) GENERATED ALWAYS AS (amount - tds_amount) STORED;
+
+CREATE INDEX IF NOT EXISTS withdrawal_requests_user_financial_year_idx
+    ON withdrawal_requests (user_id, financial_year);
+
+-- Requests settled before deduction started belong to the year they were paid in
+UPDATE withdrawal_requests
+SET financial_year = financial_year_of(COALESCE(paid_at, processed_at, requested_at))
+WHERE financial_year IS NULL AND status IN ('approved', 'paid');
+
+-- Work out the tax as a request is approved. Earlier approved and paid
+-- requests in the same year count towards the threshold, and anything they
+-- should have had deducted once it is crossed is caught up on this one.
+CREATE OR REPLACE FUNCTION apply_withdrawal_tds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy JSONB := tds_policy();
+  payout payout_profiles;
+  threshold DECIMAL := (policy ->> 'annual_threshold')::DECIMAL;
+  rate DECIMAL;
+  prior_gross DECIMAL(12,2);
+  prior_tds DECIMAL(12,2);
+BEGIN
+  IF NOT (OLD.status = 'pending' AND NEW.status = 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO payout_profiles (user_id)
+  VALUES (NEW.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Serialises approvals per user so each sees the tax already taken
+  SELECT * INTO payout
+  FROM payout_profiles
+  WHERE user_id = NEW.user_id
+  FOR UPDATE;
+
+  NEW.financial_year := financial_year_of(COALESCE(NEW.processed_at, NOW()));
+  NEW.tds_section := policy ->> 'section';
+  NEW.tds_pan := CASE WHEN payout.kyc_status = 'verified' THEN payout.pan_number END;
+  NEW.tds_rate := 0;
+  NEW.tds_amount := 0;
+
+  IF NOT COALESCE((policy ->> 'enabled')::BOOLEAN, false) THEN
+    RETURN NEW;
+  END IF;
+
+  rate := CASE
+    WHEN NEW.tds_pan IS NOT NULL THEN (policy ->> 'rate_percent')::DECIMAL
+    ELSE (policy ->> 'no_pan_rate_percent')::DECIMAL
+  END;
+
+  SELECT COALESCE(SUM(amount), 0), COALESCE(SUM(tds_amount), 0)
+  INTO prior_gross, prior_tds
+  FROM withdrawal_requests
+  WHERE user_id = NEW.user_id
+    AND financial_year = NEW.financial_year
+    AND status IN ('approved', 'paid')
+    AND id <> NEW.id;
+
+  IF threshold IS NULL OR prior_gross + NEW.amount > threshold THEN
+    NEW.tds_rate := rate;
+    NEW.tds_amount := LEAST(
+      GREATEST(ROUND((prior_gross + NEW.amount) * rate / 100, 2) - prior_tds, 0),
+      NEW.amount
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_withdrawal_tds_trigger ON withdrawal_requests;
+CREATE TRIGGER apply_withdrawal_tds_trigger
+    BEFORE UPDATE OF status ON withdrawal_requests
+    FOR EACH ROW EXECUTE FUNCTION apply_withdrawal_tds();
+
+-- ================================================================
+-- 3. LEDGER
+-- ================================================================
+
+-- Tax withheld from a payout moves to its own account:
+--   tds_deduction  held -> tax_withheld
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_entry_type_check;
+ALTER TABLE wallet_transactions
+ADD CONSTRAINT wallet_transactions_entry_type_check CHECK (entry_type IN (
+  'commission_credit', 'commission_pending', 'commission_matured', 'commission_void',
+  'withdrawal_hold', 'withdrawal_release', 'payout', 'tds_deduction', 'reversal', 'admin_adjustment'
+));
+
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_from_account_check;
+ALTER TABLE wallet_transactions
+ADD CONSTRAINT wallet_transactions_from_account_check CHECK (from_account IN ('rewards', 'locked', 'available', 'held', 'paid_out', 'tax_withheld'));
+
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_to_account_check;
+ALTER TABLE wallet_transactions
+ADD CONSTRAINT wallet_transactions_to_account_check CHECK (to_account IN ('rewards', 'locked', 'available', 'held', 'paid_out', 'tax_withheld'));
+
+CREATE OR REPLACE VIEW wallet_balances
+WITH (security_invoker = true) AS
+SELECT
+  profile_id,
+  user_id,
+  COALESCE(SUM(CASE WHEN from_account = 'rewards' THEN amount WHEN to_account = 'rewards' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS total_earnings,
+  COALESCE(SUM(CASE WHEN to_account = 'available' THEN amount WHEN from_account = 'available' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS available_balance,
+  COALESCE(SUM(CASE WHEN to_account = 'held' THEN amount WHEN from_account = 'held' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS held_amount,
+  COALESCE(SUM(CASE WHEN to_account = 'paid_out' THEN amount WHEN from_account = 'paid_out' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS withdrawn_amount,
+  MAX(created_at) AS last_transaction_at,
+  COALESCE(SUM(CASE WHEN to_account = 'locked' THEN amount WHEN from_account = 'locked' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS locked_amount,
+  COALESCE(SUM(CASE WHEN to_account = 'tax_withheld' THEN amount WHEN from_account = 'tax_withheld' THEN -amount ELSE 0 END), 0)::DECIMAL(12,2) AS tds_withheld
+FROM wallet_transactions
+GROUP BY profile_id, user_id;
+
+-- As in the commission maturation migration, with the tax_withheld account
+CREATE OR REPLACE FUNCTION post_wallet_transaction(
+  profile_id_param UUID,
+  entry_type_param TEXT,
+  amount_param DECIMAL,
+  commission_id_param UUID DEFAULT NULL,
+  withdrawal_request_id_param UUID DEFAULT NULL,
+  description_param TEXT DEFAULT NULL,
+  created_by_param UUID DEFAULT NULL
+)
+RETURNS wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile_rec RECORD;
+  posted wallet_transactions;
+  from_acc TEXT;
+  to_acc TEXT;
+  entry_amount DECIMAL(12,2) := ROUND(ABS(amount_param), 2);
+  ledger_available DECIMAL(12,2);
+BEGIN
+  IF entry_amount = 0 THEN
+    RAISE EXCEPTION 'Wallet transactions need a non-zero amount'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF amount_param < 0 AND entry_type_param <> 'admin_adjustment' THEN
+    RAISE EXCEPTION 'Only admin adjustments can be negative'
+      USING ERRCODE = '22023';
+  END IF;
+
+  CASE entry_type_param
+    WHEN 'commission_credit' THEN from_acc := 'rewards'; to_acc := 'available';
+    WHEN 'commission_pending' THEN from_acc := 'rewards'; to_acc := 'locked';
+    WHEN 'commission_matured' THEN from_acc := 'locked'; to_acc := 'available';
+    WHEN 'commission_void' THEN from_acc := 'locked'; to_acc := 'rewards';
+    WHEN 'reversal' THEN from_acc := 'available'; to_acc := 'rewards';
+    WHEN 'withdrawal_hold' THEN from_acc := 'available'; to_acc := 'held';
+    WHEN 'withdrawal_release' THEN from_acc := 'held'; to_acc := 'available';
+    WHEN 'payout' THEN from_acc := 'held'; to_acc := 'paid_out';
+    WHEN 'tds_deduction' THEN from_acc := 'held'; to_acc := 'tax_withheld';
+    WHEN 'admin_adjustment' THEN
+      IF amount_param > 0 THEN
+        from_acc := 'rewards'; to_acc := 'available';
+      ELSE
+        from_acc := 'available'; to_acc := 'rewards';
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Unknown wallet entry type: %', entry_type_param
+        USING ERRCODE = '22023';
+  END CASE;
+
+  -- Serialises postings per profile so balance checks see every earlier entry
+  SELECT id, user_id INTO profile_rec
+  FROM user_profiles
+  WHERE id = profile_id_param
+  FOR UPDATE;
+
+  IF profile_rec.id IS NULL THEN
+    RAISE EXCEPTION 'User profile % not found', profile_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Withdrawals may only spend what the ledger says is available. Reversals
+  -- and adjustments may take the balance negative; future earnings net it off.
+  IF entry_type_param = 'withdrawal_hold' THEN
+    SELECT COALESCE(available_balance, 0) INTO ledger_available
+    FROM wallet_balances
+    WHERE profile_id = profile_id_param;
+
+    IF COALESCE(ledger_available, 0) < entry_amount THEN
+      RAISE EXCEPTION 'Insufficient balance. Available: ₹%, Requested: ₹%', COALESCE(ledger_available, 0), entry_amount
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  INSERT INTO wallet_transactions (
+    profile_id, user_id, entry_type, from_account, to_account, amount,
+    commission_id, withdrawal_request_id, description, created_by
+  ) VALUES (
+    profile_id_param, profile_rec.user_id, entry_type_param, from_acc, to_acc, entry_amount,
+    commission_id_param, withdrawal_request_id_param, description_param,
+    COALESCE(created_by_param, auth.uid())
+  )
+  RETURNING * INTO posted;
+
+  UPDATE user_profiles
+  SET
+    total_earnings = COALESCE(total_earnings, 0)
+      + CASE WHEN from_acc = 'rewards' THEN entry_amount WHEN to_acc = 'rewards' THEN -entry_amount ELSE 0 END,
+    available_balance = COALESCE(available_balance, 0)
+      + CASE WHEN to_acc = 'available' THEN entry_amount WHEN from_acc = 'available' THEN -entry_amount ELSE 0 END,
+    withdrawn_amount = COALESCE(withdrawn_amount, 0)
+      + CASE WHEN to_acc = 'paid_out' THEN entry_amount WHEN from_acc = 'paid_out' THEN -entry_amount ELSE 0 END,
+    updated_at = NOW()
+  WHERE id = profile_id_param;
+
+  RETURN posted;
+END;
+$$;
+
+-- As in the payout batches migration; a paid request sends the net amount
+-- and withholds the tax
+CREATE OR REPLACE FUNCTION handle_withdrawal_wallet_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  requester_profile_id UUID;
+BEGIN
+  SELECT id INTO requester_profile_id
+  FROM user_profiles
+  WHERE user_id = NEW.user_id;
+
+  IF requester_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found for withdrawal request'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'Withdrawal requests start as pending'
+        USING ERRCODE = 'P0003';
+    END IF;
+
+    PERFORM post_wallet_transaction(
+      requester_profile_id, 'withdrawal_hold', NEW.amount, NULL, NEW.id,
+      'Withdrawal requested' || COALESCE(' to ' || NEW.upi_id, ''),
+      NEW.user_id
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status = 'pending' AND NEW.status = 'approved' THEN
+      NULL;
+    ELSIF OLD.status IN ('pending', 'approved') AND NEW.status = 'rejected' THEN
+      PERFORM post_wallet_transaction(
+        requester_profile_id, 'withdrawal_release', OLD.amount, NULL, NEW.id,
+        'Withdrawal rejected' || COALESCE(': ' || NEW.admin_notes, ''),
+        NEW.processed_by
+      );
+    ELSIF OLD.status = 'approved' AND NEW.status = 'paid' THEN
+      IF NEW.net_amount > 0 THEN
+        PERFORM post_wallet_transaction(
+          requester_profile_id, 'payout', NEW.net_amount, NULL, NEW.id,
+          'Withdrawal paid' || COALESCE(' to ' || NEW.upi_id, '') || COALESCE(' (UTR ' || NEW.utr || ')', ''),
+          NEW.processed_by
+        );
+      END IF;
+      IF NEW.tds_amount > 0 THEN
+        PERFORM post_wallet_transaction(
+          requester_profile_id, 'tds_deduction', NEW.tds_amount, NULL, NEW.id,
+          'TDS u/s ' || COALESCE(NEW.tds_section, '194H') || ' at ' || NEW.tds_rate || '% for FY ' || NEW.financial_year,
+          NEW.processed_by
+        );
+      END IF;
+    ELSIF OLD.status = 'approved' AND NEW.status = 'failed' THEN
+      PERFORM post_wallet_transaction(
+        requester_profile_id, 'withdrawal_release', OLD.amount, NULL, NEW.id,
+        'Withdrawal payout failed' || COALESCE(': ' || NEW.failure_reason, ''),
+        NEW.processed_by
+      );
+    ELSE
+      RAISE EXCEPTION 'Withdrawal request cannot go from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'P0003';
+    END IF;
+  ELSIF NEW.amount IS DISTINCT FROM OLD.amount THEN
+    RAISE EXCEPTION 'Withdrawal amounts cannot be changed'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ================================================================
+-- 4. PAYOUT BATCHES
+-- ================================================================
+
+-- As in the KYC migration; batch totals are what is actually sent
+CREATE OR REPLACE FUNCTION create_payout_batch(
+  request_ids_param UUID[],
+  file_format_param TEXT,
+  admin_id_param UUID DEFAULT NULL
+)
+RETURNS payout_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  batch payout_batches;
+  requested_count INTEGER := COALESCE(array_length(request_ids_param, 1), 0);
+  eligible_count INTEGER;
+  eligible_total DECIMAL(12,2);
+BEGIN
+  IF requested_count = 0 THEN
+    RAISE EXCEPTION 'Select at least one withdrawal request'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF file_format_param NOT IN ('upi_bulk', 'bank_bulk') THEN
+    RAISE EXCEPTION 'Unknown payout file format: %', file_format_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the requests so a concurrent batch cannot take the same lines
+  PERFORM 1
+  FROM withdrawal_requests
+  WHERE id = ANY(request_ids_param)
+  FOR UPDATE;
+
+  SELECT COUNT(*), COALESCE(SUM(net_amount), 0)
+  INTO eligible_count, eligible_total
+  FROM withdrawal_requests
+  WHERE id = ANY(request_ids_param)
+    AND status = 'approved'
+    AND payout_batch_id IS NULL;
+
+  IF eligible_count <> (SELECT COUNT(DISTINCT id) FROM unnest(request_ids_param) AS id) THEN
+    RAISE EXCEPTION 'Only approved requests that are not already in a batch can be added'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  IF file_format_param = 'upi_bulk' AND EXISTS (
+    SELECT 1 FROM withdrawal_requests
+    WHERE id = ANY(request_ids_param) AND upi_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'UPI bulk files can only carry UPI payouts; use the bank bulk format for bank accounts'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO payout_batches (reference, file_format, line_count, total_amount, created_by)
+  VALUES (
+    'PB' || to_char(NOW(), 'YYMMDD') || lpad(nextval('payout_batch_number_seq')::TEXT, 4, '0'),
+    file_format_param,
+    eligible_count,
+    eligible_total,
+    admin_id_param
+  )
+  RETURNING * INTO batch;
+
+  UPDATE withdrawal_requests
+  SET payout_batch_id = batch.id
+  WHERE id = ANY(request_ids_param);
+
+  RETURN batch;
+END;
+$$;
+
+-- As in the payout batches migration; paid batch amounts are net of TDS
+CREATE OR REPLACE FUNCTION record_withdrawal_payout(
+  request_id_param UUID,
+  outcome_param TEXT,
+  utr_param TEXT DEFAULT NULL,
+  failure_reason_param TEXT DEFAULT NULL,
+  admin_id_param UUID DEFAULT NULL
+)
+RETURNS withdrawal_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request withdrawal_requests;
+  clean_utr TEXT := upper(regexp_replace(COALESCE(utr_param, ''), '\s', '', 'g'));
+BEGIN
+  SELECT * INTO request
+  FROM withdrawal_requests
+  WHERE id = request_id_param
+  FOR UPDATE;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Withdrawal request % not found', request_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF request.status <> 'approved' THEN
+    RAISE EXCEPTION 'Withdrawal request is already %', request.status
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  IF outcome_param = 'paid' THEN
+    -- 12-digit UPI/IMPS reference or a NEFT/RTGS UTR of up to 22 characters
+    IF clean_utr !~ '^[A-Z0-9]{12,22}$' THEN
+      RAISE EXCEPTION 'Enter the 12 to 22 character UTR for this transfer'
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM withdrawal_requests WHERE utr = clean_utr) THEN
+      RAISE EXCEPTION 'UTR % is already recorded against another withdrawal', clean_utr
+        USING ERRCODE = 'P0003';
+    END IF;
+
+    UPDATE withdrawal_requests
+    SET status = 'paid',
+        utr = clean_utr,
+        paid_at = NOW(),
+        processed_at = NOW(),
+        processed_by = COALESCE(admin_id_param, processed_by)
+    WHERE id = request_id_param
+    RETURNING * INTO request;
+  ELSIF outcome_param = 'failed' THEN
+    IF failure_reason_param IS NULL OR btrim(failure_reason_param) = '' THEN
+      RAISE EXCEPTION 'A reason is required for failed payouts'
+        USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE withdrawal_requests
+    SET status = 'failed',
+        utr = NULLIF(clean_utr, ''),
+        failure_reason = btrim(failure_reason_param),
+        processed_at = NOW(),
+        processed_by = COALESCE(admin_id_param, processed_by)
+    WHERE id = request_id_param
+    RETURNING * INTO request;
+  ELSE
+    RAISE EXCEPTION 'Payout outcome must be paid or failed'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF request.payout_batch_id IS NOT NULL THEN
+    UPDATE payout_batches pb
+    SET paid_count = totals.paid_count,
+        paid_amount = totals.paid_amount,
+        failed_count = totals.failed_count,
+        status = CASE WHEN totals.settled_count = pb.line_count THEN 'completed' ELSE 'open' END,
+        completed_at = CASE WHEN totals.settled_count = pb.line_count THEN NOW() ELSE NULL END
+    FROM (
+      SELECT
+        COUNT(*) FILTER (WHERE status = 'paid') AS paid_count,
+        COALESCE(SUM(net_amount) FILTER (WHERE status = 'paid'), 0) AS paid_amount,
+        COUNT(*) FILTER (WHERE status = 'failed') AS failed_count,
+        COUNT(*) FILTER (WHERE status IN ('paid', 'failed')) AS settled_count
+      FROM withdrawal_requests
+      WHERE payout_batch_id = request.payout_batch_id
+    ) totals
+    WHERE pb.id = request.payout_batch_id;
+  END IF;
+
+  RETURN request;
+END;
+$$;
+
+COMMIT;
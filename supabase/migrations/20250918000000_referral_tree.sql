@@ -0,0 +1,275 @@
+-- Referral tree explorer
+-- The downline is browsed one level at a time: each call returns the direct
+-- referrals of one member with their subscription status, join date, how
+-- many people they referred (so the app knows what can be expanded) and
+-- what they have earned the member at the top of the tree. A search looks
+-- through the whole downline and returns the path to each match so the app
+-- can open the branches leading to it.
+--
+-- Users can only see their own downline, down to the 7 levels that earn
+-- rewards; user_profiles RLS hides other people's rows, so these run as
+-- SECURITY DEFINER. Admins use the service role versions, which take the
+-- member at the top of the tree as a parameter.
+
+BEGIN;
+
+-- ================================================================
+-- 1. CHILDREN OF A NODE
+-- ================================================================
+
+-- Direct referrals of parent_profile_id_param, which must be the root or
+-- someone in the root's downline above level 7. Earnings are what each
+-- member's own purchases and activations paid the root, leaving out voided
+-- and reversed commissions.
+CREATE OR REPLACE FUNCTION referral_tree_children(
+  root_profile_id_param UUID,
+  parent_profile_id_param UUID
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  full_name TEXT,
+  referral_code TEXT,
+  subscription_status TEXT,
+  joined_at TIMESTAMP WITH TIME ZONE,
+  level INTEGER,
+  direct_referrals INTEGER,
+  earnings_generated DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent_level INTEGER;
+BEGIN
+  -- Walk up from the parent; it has to reach the root within 6 steps
+  WITH RECURSIVE upline AS (
+    SELECT up.id, up.referred_by, 0 AS depth
+    FROM user_profiles up
+    WHERE up.id = parent_profile_id_param
+    UNION ALL
+    SELECT up.id, up.referred_by, u.depth + 1
+    FROM user_profiles up
+    JOIN upline u ON up.id = u.referred_by
+    WHERE u.depth < 7
+  )
+  SELECT MIN(u.depth) INTO parent_level
+  FROM upline u
+  WHERE u.id = root_profile_id_param;
+
+  IF parent_level IS NULL THEN
+    RAISE EXCEPTION 'This member is not in the referral tree'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF parent_level >= 7 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    child.id,
+    child.user_id,
+    child.full_name,
+    child.referral_code,
+    child.subscription_status,
+    child.created_at,
+    parent_level + 1,
+    (SELECT COUNT(*)::INTEGER FROM user_profiles grandchild WHERE grandchild.referred_by = child.id),
+    COALESCE((
+      SELECT SUM(rc.commission_amount)
+      FROM referral_commissions rc
+      WHERE rc.referrer_id = root_profile_id_param
+        AND rc.referee_id = child.id
+        AND rc.status IN ('pending', 'payable')
+    ), 0)::DECIMAL
+  FROM user_profiles child
+  WHERE child.referred_by = parent_profile_id_param
+  ORDER BY child.created_at;
+END;
+$$;
+
+-- ================================================================
+-- 2. SEARCH
+-- ================================================================
+
+-- Members of the root's downline whose name or referral code contains the
+-- query. path holds the profile ids from level 1 down to the match's parent.
+CREATE OR REPLACE FUNCTION search_referral_tree(
+  root_profile_id_param UUID,
+  query_param TEXT,
+  limit_param INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  full_name TEXT,
+  referral_code TEXT,
+  subscription_status TEXT,
+  joined_at TIMESTAMP WITH TIME ZONE,
+  level INTEGER,
+  direct_referrals INTEGER,
+  earnings_generated DECIMAL,
+  path UUID[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  clean_query TEXT := btrim(COALESCE(query_param, ''));
+  pattern TEXT;
+BEGIN
+  IF length(clean_query) < 2 THEN
+    RAISE EXCEPTION 'Enter at least 2 characters to search'
+      USING ERRCODE = '22023';
+  END IF;
+
+  pattern := '%' || replace(replace(replace(clean_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  RETURN QUERY
+  WITH RECURSIVE downline AS (
+    SELECT up.id, 1 AS depth, ARRAY[]::UUID[] AS ancestors
+    FROM user_profiles up
+    WHERE up.referred_by = root_profile_id_param
+    UNION ALL
+    SELECT up.id, d.depth + 1, d.ancestors || d.id
+    FROM user_profiles up
+    JOIN downline d ON up.referred_by = d.id
+    WHERE d.depth < 7
+  )
+  SELECT
+    member.id,
+    member.user_id,
+    member.full_name,
+    member.referral_code,
+    member.subscription_status,
+    member.created_at,
+    d.depth,
+    (SELECT COUNT(*)::INTEGER FROM user_profiles child WHERE child.referred_by = member.id),
+    COALESCE((
+      SELECT SUM(rc.commission_amount)
+      FROM referral_commissions rc
+      WHERE rc.referrer_id = root_profile_id_param
+        AND rc.referee_id = member.id
+        AND rc.status IN ('pending', 'payable')
+    ), 0)::DECIMAL,
+    d.ancestors
+  FROM downline d
+  JOIN user_profiles member ON member.id = d.id
+  WHERE member.full_name ILIKE pattern
+     OR member.referral_code ILIKE pattern
+  ORDER BY d.depth, member.full_name
+  LIMIT GREATEST(LEAST(COALESCE(limit_param, 50), 200), 1);
+END;
+$$;
+
+-- ================================================================
+-- 3. SIGNED-IN USER'S OWN TREE
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION get_my_referral_tree_children(parent_profile_id_param UUID DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  full_name TEXT,
+  referral_code TEXT,
+  subscription_status TEXT,
+  joined_at TIMESTAMP WITH TIME ZONE,
+  level INTEGER,
+  direct_referrals INTEGER,
+  earnings_generated DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_profile_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to continue'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT up.id INTO caller_profile_id
+  FROM user_profiles up
+  WHERE up.user_id = auth.uid();
+
+  IF caller_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM referral_tree_children(caller_profile_id, COALESCE(parent_profile_id_param, caller_profile_id));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_my_referral_tree(query_param TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  full_name TEXT,
+  referral_code TEXT,
+  subscription_status TEXT,
+  joined_at TIMESTAMP WITH TIME ZONE,
+  level INTEGER,
+  direct_referrals INTEGER,
+  earnings_generated DECIMAL,
+  path UUID[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_profile_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to continue'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT up.id INTO caller_profile_id
+  FROM user_profiles up
+  WHERE up.user_id = auth.uid();
+
+  IF caller_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM search_referral_tree(caller_profile_id, query_param);
+END;
+$$;
+
+-- ================================================================
+-- 4. INDEXES AND PERMISSIONS
+-- ================================================================
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_referred_by ON user_profiles(referred_by);
+CREATE INDEX IF NOT EXISTS idx_referral_commissions_referrer_referee
+    ON referral_commissions(referrer_id, referee_id);
+
+REVOKE EXECUTE ON FUNCTION referral_tree_children(UUID, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION referral_tree_children(UUID, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION referral_tree_children(UUID, UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION search_referral_tree(UUID, TEXT, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION search_referral_tree(UUID, TEXT, INTEGER) FROM authenticated;
+GRANT EXECUTE ON FUNCTION search_referral_tree(UUID, TEXT, INTEGER) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION get_my_referral_tree_children(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_my_referral_tree_children(UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION search_my_referral_tree(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION search_my_referral_tree(TEXT) TO authenticated;
+
+COMMIT;
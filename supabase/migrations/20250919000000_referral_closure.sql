@@ -0,0 +1,320 @@
+-- Server-side referral chain resolution
+-- The app used to walk the referral chain from the browser: two queries per
+-- level to find a user's upline and one query per level for the downline.
+-- These functions answer both in a single call:
+--   get_referral_upline       everyone above a user, nearest first
+--   get_downline_level_counts members and active members per level
+--   get_downline_members      everyone below a user, with their level
+--
+-- The upline is resolved with a recursive CTE over user_profiles. Downline
+-- lookups read referral_closure, which stores every ancestor/descendant
+-- pair up to the 7 levels that earn rewards and is kept in step with
+-- user_profiles.referred_by by trigger.
+--
+-- get_downline_level_counts replaces count_referrals_by_level, which the app
+-- called but no migration created.
+
+BEGIN;
+
+-- ================================================================
+-- 1. CLOSURE TABLE
+-- ================================================================
+
+-- One row per (ancestor, descendant) pair, including each profile with
+-- itself at depth 0. Pairs further apart than 7 levels are not stored.
+CREATE TABLE IF NOT EXISTS referral_closure (
+    ancestor_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    descendant_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    depth INTEGER NOT NULL CHECK (depth BETWEEN 0 AND 7),
+    PRIMARY KEY (ancestor_id, descendant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_closure_ancestor_depth ON referral_closure(ancestor_id, depth);
+CREATE INDEX IF NOT EXISTS idx_referral_closure_descendant ON referral_closure(descendant_id);
+
+-- Only read through the functions below
+ALTER TABLE referral_closure ENABLE ROW LEVEL SECURITY;
+
+TRUNCATE referral_closure;
+
+INSERT INTO referral_closure (ancestor_id, descendant_id, depth)
+WITH RECURSIVE pairs AS (
+  SELECT up.id AS ancestor_id, up.id AS descendant_id, 0 AS depth
+  FROM user_profiles up
+  UNION ALL
+  SELECT p.ancestor_id, child.id, p.depth + 1
+  FROM pairs p
+  JOIN user_profiles child ON child.referred_by = p.descendant_id
+  WHERE p.depth < 7
+)
+SELECT ancestor_id, descendant_id, MIN(depth)
+FROM pairs
+GROUP BY ancestor_id, descendant_id;
+
+-- ================================================================
+-- 2. KEEPING THE CLOSURE IN STEP
+-- ================================================================
+
+-- A profile cannot be referred by itself or by anyone it referred, directly
+-- or further down
+CREATE OR REPLACE FUNCTION prevent_referral_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.referred_by IS NULL OR NEW.referred_by IS NOT DISTINCT FROM OLD.referred_by THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.referred_by = NEW.id OR EXISTS (
+    WITH RECURSIVE upline AS (
+      SELECT up.id, up.referred_by, ARRAY[up.id] AS visited
+      FROM user_profiles up
+      WHERE up.id = NEW.referred_by
+      UNION ALL
+      SELECT up.id, up.referred_by, u.visited || up.id
+      FROM user_profiles up
+      JOIN upline u ON up.id = u.referred_by
+      WHERE NOT up.id = ANY(u.visited)
+    )
+    SELECT 1 FROM upline WHERE upline.id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A member cannot be placed under someone in their own downline'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_referral_cycle_trigger ON user_profiles;
+CREATE TRIGGER prevent_referral_cycle_trigger
+    BEFORE UPDATE OF referred_by ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_referral_cycle();
+
+CREATE OR REPLACE FUNCTION maintain_referral_closure()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO referral_closure (ancestor_id, descendant_id, depth)
+    VALUES (NEW.id, NEW.id, 0)
+    ON CONFLICT DO NOTHING;
+
+    IF NEW.referred_by IS NOT NULL THEN
+      INSERT INTO referral_closure (ancestor_id, descendant_id, depth)
+      SELECT c.ancestor_id, NEW.id, c.depth + 1
+      FROM referral_closure c
+      WHERE c.descendant_id = NEW.referred_by
+        AND c.depth < 7
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.referred_by IS NOT DISTINCT FROM OLD.referred_by THEN
+    RETURN NEW;
+  END IF;
+
+  -- Detach the moved subtree from everyone above it...
+  DELETE FROM referral_closure c
+  WHERE c.descendant_id IN (
+      SELECT s.descendant_id FROM referral_closure s WHERE s.ancestor_id = NEW.id
+    )
+    AND c.ancestor_id NOT IN (
+      SELECT s.descendant_id FROM referral_closure s WHERE s.ancestor_id = NEW.id
+    );
+
+  -- ...and hang it under the new referrer. Members more than 7 levels below
+  -- the moved profile never had pairs above it, so they need nothing.
+  IF NEW.referred_by IS NOT NULL THEN
+    INSERT INTO referral_closure (ancestor_id, descendant_id, depth)
+    SELECT above.ancestor_id, below.descendant_id, above.depth + below.depth + 1
+    FROM referral_closure above
+    JOIN referral_closure below ON below.ancestor_id = NEW.id
+    WHERE above.descendant_id = NEW.referred_by
+      AND above.depth + below.depth + 1 <= 7
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS maintain_referral_closure_trigger ON user_profiles;
+CREATE TRIGGER maintain_referral_closure_trigger
+    AFTER INSERT OR UPDATE OF referred_by ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION maintain_referral_closure();
+
+-- ================================================================
+-- 3. LOOKUPS
+-- ================================================================
+
+-- Users may look up their own network; the service role any user's
+CREATE OR REPLACE FUNCTION assert_referral_network_access(user_id_param UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to continue'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF auth.uid() <> user_id_param THEN
+    RAISE EXCEPTION 'You can only view your own referral network'
+      USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- Everyone above a user, level 1 being whoever referred them. Leave
+-- max_levels_param NULL for the whole chain.
+CREATE OR REPLACE FUNCTION get_referral_upline(
+  user_id_param UUID,
+  max_levels_param INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  full_name TEXT,
+  referral_code TEXT,
+  subscription_status TEXT,
+  level INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_referral_network_access(user_id_param);
+
+  RETURN QUERY
+  WITH RECURSIVE upline AS (
+    SELECT referrer.id, referrer.referred_by, 1 AS depth, ARRAY[member.id, referrer.id] AS visited
+    FROM user_profiles member
+    JOIN user_profiles referrer ON referrer.id = member.referred_by
+    WHERE member.user_id = user_id_param
+    UNION ALL
+    SELECT referrer.id, referrer.referred_by, u.depth + 1, u.visited || referrer.id
+    FROM upline u
+    JOIN user_profiles referrer ON referrer.id = u.referred_by
+    WHERE NOT referrer.id = ANY(u.visited)
+      AND (max_levels_param IS NULL OR u.depth < max_levels_param)
+  )
+  SELECT
+    referrer.id,
+    referrer.user_id,
+    referrer.full_name,
+    referrer.referral_code,
+    referrer.subscription_status,
+    u.depth
+  FROM upline u
+  JOIN user_profiles referrer ON referrer.id = u.id
+  ORDER BY u.depth;
+END;
+$$;
+
+-- How many members sit on each of the 7 levels below a user, and how many
+-- of them have an active subscription. Levels with nobody are left out.
+CREATE OR REPLACE FUNCTION get_downline_level_counts(user_id_param UUID)
+RETURNS TABLE (
+  level INTEGER,
+  member_count INTEGER,
+  active_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_referral_network_access(user_id_param);
+
+  RETURN QUERY
+  SELECT
+    c.depth,
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE member.subscription_status = 'active')::INTEGER
+  FROM user_profiles root
+  JOIN referral_closure c ON c.ancestor_id = root.id AND c.depth > 0
+  JOIN user_profiles member ON member.id = c.descendant_id
+  WHERE root.user_id = user_id_param
+  GROUP BY c.depth
+  ORDER BY c.depth;
+END;
+$$;
+
+-- Everyone below a user down to max_level_param, by level and newest first
+CREATE OR REPLACE FUNCTION get_downline_members(
+  user_id_param UUID,
+  max_level_param INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  referral_code TEXT,
+  subscription_status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  level INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_referral_network_access(user_id_param);
+
+  RETURN QUERY
+  SELECT
+    member.id,
+    member.full_name,
+    member.referral_code,
+    member.subscription_status,
+    member.created_at,
+    c.depth
+  FROM user_profiles root
+  JOIN referral_closure c ON c.ancestor_id = root.id
+  JOIN user_profiles member ON member.id = c.descendant_id
+  WHERE root.user_id = user_id_param
+    AND c.depth BETWEEN 1 AND LEAST(COALESCE(max_level_param, 7), 7)
+  ORDER BY c.depth, member.created_at DESC;
+END;
+$$;
+
+-- ================================================================
+-- 4. PERMISSIONS
+-- ================================================================
+
+REVOKE EXECUTE ON FUNCTION prevent_referral_cycle() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION maintain_referral_closure() FROM PUBLIC;
+
+REVOKE EXECUTE ON FUNCTION assert_referral_network_access(UUID) FROM PUBLIC;
+
+REVOKE EXECUTE ON FUNCTION get_referral_upline(UUID, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_referral_upline(UUID, INTEGER) TO authenticated, service_role;
+
+REVOKE EXECUTE ON FUNCTION get_downline_level_counts(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_downline_level_counts(UUID) TO authenticated, service_role;
+
+REVOKE EXECUTE ON FUNCTION get_downline_members(UUID, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_downline_members(UUID, INTEGER) TO authenticated, service_role;
+
+COMMIT;
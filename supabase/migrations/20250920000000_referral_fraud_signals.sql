@@ -0,0 +1,501 @@
+-- Referral fraud signals
+-- Each account leaves fingerprints: the device it registered and signs in
+-- from (a random id kept in the browser's localStorage), the network it
+-- signs in from (an IP address hashed by the record-device-fingerprint edge
+-- function, so raw IPs are never stored), its phone number and the payout
+-- accounts it adds. Everything is stored as a SHA-256 hash.
+--
+-- When two profiles share a fingerprint:
+--   * if one is in the other's upline (within the 7 reward levels) the pair
+--     is flagged as a self-referral ring, since that is how alt accounts
+--     farm rewards for their owner;
+--   * if they share a payout account they are flagged for it even when
+--     they are unrelated.
+-- While a profile has an open flag, new rewards it earns are held in the
+-- locked balance and it cannot request withdrawals. Admins clear a flag
+-- (the held rewards are released) or reverse it (held rewards are voided
+-- and rewards earned from the linked account are taken back).
+
+BEGIN;
+
+-- ================================================================
+-- 1. SETTINGS
+-- ================================================================
+
+-- ring_signals: fingerprints that link a referrer and referee into a ring.
+-- Shared IPs are recorded but left out by default: families and mobile
+-- networks share addresses.
+INSERT INTO system_settings (key, value, description)
+VALUES (
+    'fraud_detection',
+    '{
+      "enabled": true,
+      "ring_signals": ["device", "phone", "payout_upi", "payout_bank"],
+      "hold_rewards": true
+    }'::jsonb,
+    'Referral fraud checks: which shared fingerprints flag a self-referral ring and whether flagged accounts have rewards held'
+) ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION fraud_policy()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT '{
+    "enabled": false,
+    "ring_signals": [],
+    "hold_rewards": false
+  }'::jsonb || COALESCE((SELECT value FROM system_settings WHERE key = 'fraud_detection'), '{}'::jsonb);
+$$;
+
+-- ================================================================
+-- 2. SIGNALS AND FLAGS
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS fraud_signals (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    signal_type TEXT NOT NULL CHECK (signal_type IN ('device', 'ip', 'phone', 'payout_upi', 'payout_bank')),
+    value_hash TEXT NOT NULL,
+    -- Where it was first seen: registration, sign_in, profile or payout_account
+    source TEXT NOT NULL,
+    first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (profile_id, signal_type, value_hash)
+);
+
+CREATE INDEX IF NOT EXISTS fraud_signals_value_idx ON fraud_signals (signal_type, value_hash);
+
+-- One flag per profile, linked profile and reason. Both profiles of a pair
+-- are flagged, so each side is reviewed on its own.
+CREATE TABLE IF NOT EXISTS fraud_flags (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    related_profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN ('self_referral', 'duplicate_payout_account')),
+    -- The fingerprints the two profiles share
+    signal_types TEXT[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'cleared', 'reversed')),
+    review_notes TEXT,
+    reviewed_by UUID,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (profile_id, related_profile_id, reason)
+);
+
+CREATE INDEX IF NOT EXISTS fraud_flags_open_idx ON fraud_flags (profile_id) WHERE status = 'open';
+
+-- Service role only; admins read them through the dashboard
+ALTER TABLE fraud_signals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fraud_flags ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE referral_commissions
+ADD COLUMN IF NOT EXISTS fraud_hold BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS referral_commissions_fraud_hold_idx
+    ON referral_commissions (referrer_id) WHERE fraud_hold;
+
+CREATE OR REPLACE FUNCTION profile_has_open_fraud_flag(profile_id_param UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM fraud_flags
+    WHERE profile_id = profile_id_param AND status = 'open'
+  );
+$$;
+
+-- ================================================================
+-- 3. RECORDING AND MATCHING
+-- ================================================================
+
+-- Stores one fingerprint and flags every profile it links this one to.
+-- IP addresses arrive already hashed (prehashed_param); everything else is
+-- normalised and hashed here. Returns the number of new flags.
+CREATE OR REPLACE FUNCTION record_fraud_signal(
+  user_id_param UUID,
+  signal_type_param TEXT,
+  value_param TEXT,
+  source_param TEXT,
+  prehashed_param BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy JSONB := fraud_policy();
+  member_profile_id UUID;
+  normalized TEXT;
+  hashed TEXT;
+  other RECORD;
+  is_ring BOOLEAN;
+  flag_reason TEXT;
+  new_flags INTEGER := 0;
+  inserted INTEGER;
+BEGIN
+  IF signal_type_param NOT IN ('device', 'ip', 'phone', 'payout_upi', 'payout_bank') THEN
+    RAISE EXCEPTION 'Unknown fraud signal: %', signal_type_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  normalized := CASE
+    WHEN prehashed_param THEN lower(btrim(COALESCE(value_param, '')))
+    -- Last 10 digits, so +91 and leading zeros do not hide a match
+    WHEN signal_type_param = 'phone' THEN right(regexp_replace(COALESCE(value_param, ''), '\D', '', 'g'), 10)
+    WHEN signal_type_param = 'payout_bank' THEN upper(regexp_replace(COALESCE(value_param, ''), '\s', '', 'g'))
+    ELSE lower(btrim(COALESCE(value_param, '')))
+  END;
+
+  IF normalized = '' OR (signal_type_param = 'phone' AND length(normalized) < 10) THEN
+    RETURN 0;
+  END IF;
+
+  hashed := CASE WHEN prehashed_param THEN normalized ELSE encode(sha256(convert_to(normalized, 'UTF8')), 'hex') END;
+
+  SELECT id INTO member_profile_id
+  FROM user_profiles
+  WHERE user_id = user_id_param;
+
+  IF member_profile_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO fraud_signals (profile_id, user_id, signal_type, value_hash, source)
+  VALUES (member_profile_id, user_id_param, signal_type_param, hashed, COALESCE(source_param, 'unknown'))
+  ON CONFLICT (profile_id, signal_type, value_hash) DO UPDATE
+  SET last_seen_at = NOW();
+
+  IF NOT COALESCE((policy ->> 'enabled')::BOOLEAN, false) THEN
+    RETURN 0;
+  END IF;
+
+  FOR other IN
+    SELECT DISTINCT fs.profile_id
+    FROM fraud_signals fs
+    WHERE fs.signal_type = signal_type_param
+      AND fs.value_hash = hashed
+      AND fs.profile_id <> member_profile_id
+  LOOP
+    is_ring := EXISTS (
+      SELECT 1 FROM referral_closure rc
+      WHERE rc.depth > 0
+        AND ((rc.ancestor_id = other.profile_id AND rc.descendant_id = member_profile_id)
+          OR (rc.ancestor_id = member_profile_id AND rc.descendant_id = other.profile_id))
+    );
+
+    IF is_ring AND (policy -> 'ring_signals') ? signal_type_param THEN
+      flag_reason := 'self_referral';
+    ELSIF signal_type_param IN ('payout_upi', 'payout_bank') THEN
+      flag_reason := 'duplicate_payout_account';
+    ELSE
+      CONTINUE;
+    END IF;
+
+    -- A flag an admin already closed stays closed; the shared fingerprints
+    -- are still added to it for the record
+    INSERT INTO fraud_flags (profile_id, related_profile_id, reason, signal_types)
+    VALUES
+      (member_profile_id, other.profile_id, flag_reason, ARRAY[signal_type_param]),
+      (other.profile_id, member_profile_id, flag_reason, ARRAY[signal_type_param])
+    ON CONFLICT (profile_id, related_profile_id, reason) DO UPDATE
+    SET signal_types = ARRAY(SELECT DISTINCT unnest(fraud_flags.signal_types || EXCLUDED.signal_types)),
+        updated_at = NOW()
+    WHERE NOT signal_type_param = ANY(fraud_flags.signal_types);
+
+    GET DIAGNOSTICS inserted = ROW_COUNT;
+    new_flags := new_flags + inserted;
+  END LOOP;
+
+  -- Rewards the flagged profiles earned but cannot withdraw yet stay locked
+  IF new_flags > 0 AND COALESCE((policy ->> 'hold_rewards')::BOOLEAN, false) THEN
+    UPDATE referral_commissions
+    SET fraud_hold = true
+    WHERE status = 'pending'
+      AND NOT fraud_hold
+      AND profile_has_open_fraud_flag(referrer_id)
+      AND referrer_id IN (
+        SELECT profile_id FROM fraud_flags
+        WHERE member_profile_id IN (profile_id, related_profile_id)
+      );
+  END IF;
+
+  RETURN new_flags;
+END;
+$$;
+
+-- Phone numbers and, on registration, the device id the app put in the
+-- sign-up metadata. A failure here must not stop anyone registering.
+CREATE OR REPLACE FUNCTION record_profile_fraud_signals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  device_id TEXT;
+BEGIN
+  BEGIN
+    IF TG_OP = 'INSERT' THEN
+      SELECT raw_user_meta_data ->> 'device_id' INTO device_id
+      FROM auth.users
+      WHERE id = NEW.user_id;
+
+      IF device_id IS NOT NULL THEN
+        PERFORM record_fraud_signal(NEW.user_id, 'device', device_id, 'registration');
+      END IF;
+    END IF;
+
+    IF NEW.phone IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.phone IS DISTINCT FROM OLD.phone) THEN
+      PERFORM record_fraud_signal(NEW.user_id, 'phone', NEW.phone, CASE WHEN TG_OP = 'INSERT' THEN 'registration' ELSE 'profile' END);
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not record fraud signals for %: %', NEW.user_id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after the referral closure trigger (triggers fire in name order), so
+-- a new member's upline is known when their fingerprints are compared
+DROP TRIGGER IF EXISTS record_profile_fraud_signals_trigger ON user_profiles;
+CREATE TRIGGER record_profile_fraud_signals_trigger
+    AFTER INSERT OR UPDATE OF phone ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION record_profile_fraud_signals();
+
+CREATE OR REPLACE FUNCTION record_payout_account_fraud_signal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.account_type = 'upi' THEN
+    PERFORM record_fraud_signal(NEW.user_id, 'payout_upi', NEW.upi_id, 'payout_account');
+  ELSE
+    PERFORM record_fraud_signal(NEW.user_id, 'payout_bank', NEW.account_number || ':' || NEW.ifsc, 'payout_account');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_payout_account_fraud_signal_trigger ON payout_accounts;
+CREATE TRIGGER record_payout_account_fraud_signal_trigger
+    AFTER INSERT ON payout_accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION record_payout_account_fraud_signal();
+
+-- Phone numbers and payout accounts that already exist
+DO $$
+DECLARE
+  rec RECORD;
+BEGIN
+  FOR rec IN SELECT user_id, phone FROM user_profiles WHERE phone IS NOT NULL LOOP
+    PERFORM record_fraud_signal(rec.user_id, 'phone', rec.phone, 'profile');
+  END LOOP;
+
+  FOR rec IN SELECT * FROM payout_accounts LOOP
+    PERFORM record_fraud_signal(
+      rec.user_id,
+      CASE WHEN rec.account_type = 'upi' THEN 'payout_upi' ELSE 'payout_bank' END,
+      CASE WHEN rec.account_type = 'upi' THEN rec.upi_id ELSE rec.account_number || ':' || rec.ifsc END,
+      'payout_account'
+    );
+  END LOOP;
+END$$;
+
+-- ================================================================
+-- 4. HOLDING REWARDS
+-- ================================================================
+
+-- New rewards for a flagged referrer start locked, even subscription
+-- rewards that would otherwise be payable at once
+CREATE OR REPLACE FUNCTION hold_flagged_commission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE((fraud_policy() ->> 'hold_rewards')::BOOLEAN, false)
+     AND NEW.status IN ('pending', 'payable')
+     AND profile_has_open_fraud_flag(NEW.referrer_id) THEN
+    NEW.fraud_hold := true;
+    NEW.status := 'pending';
+    NEW.matured_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS hold_flagged_commission_trigger ON referral_commissions;
+CREATE TRIGGER hold_flagged_commission_trigger
+    BEFORE INSERT ON referral_commissions
+    FOR EACH ROW
+    EXECUTE FUNCTION hold_flagged_commission();
+
+-- As in the commission maturation migration; held commissions wait for review
+CREATE OR REPLACE FUNCTION mature_referral_commissions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  matured_count INTEGER;
+BEGIN
+  UPDATE referral_commissions
+  SET status = 'payable',
+      matured_at = NOW()
+  WHERE status = 'pending'
+    AND NOT fraud_hold
+    AND matures_at IS NOT NULL
+    AND matures_at <= NOW();
+
+  GET DIAGNOSTICS matured_count = ROW_COUNT;
+  RETURN matured_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION block_flagged_withdrawal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE((fraud_policy() ->> 'hold_rewards')::BOOLEAN, false) AND EXISTS (
+    SELECT 1 FROM user_profiles up
+    WHERE up.user_id = NEW.user_id AND profile_has_open_fraud_flag(up.id)
+  ) THEN
+    RAISE EXCEPTION 'Withdrawals are paused while your account is under review. Please contact support.'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS block_flagged_withdrawal_trigger ON withdrawal_requests;
+CREATE TRIGGER block_flagged_withdrawal_trigger
+    BEFORE INSERT ON withdrawal_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION block_flagged_withdrawal();
+
+-- ================================================================
+-- 5. REVIEW
+-- ================================================================
+
+-- clear: a false alarm. reverse: the pair is one person; this profile's
+-- held rewards are voided and anything it earned from the linked profile is
+-- taken back. Either way, once a profile has no open flags its remaining
+-- held rewards are released, and those past their return window (or from
+-- subscriptions) become payable.
+CREATE OR REPLACE FUNCTION review_fraud_flag(
+  flag_id_param UUID,
+  decision_param TEXT,
+  notes_param TEXT DEFAULT NULL,
+  admin_id_param UUID DEFAULT NULL
+)
+RETURNS fraud_flags
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  flag fraud_flags;
+BEGIN
+  IF decision_param NOT IN ('clear', 'reverse') THEN
+    RAISE EXCEPTION 'Decision must be clear or reverse'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO flag
+  FROM fraud_flags
+  WHERE id = flag_id_param
+  FOR UPDATE;
+
+  IF flag.id IS NULL THEN
+    RAISE EXCEPTION 'Fraud flag % not found', flag_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF flag.status <> 'open' THEN
+    RAISE EXCEPTION 'This flag was already %', flag.status
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  IF decision_param = 'reverse' THEN
+    UPDATE referral_commissions
+    SET status = 'void',
+        voided_at = NOW(),
+        fraud_hold = false
+    WHERE referrer_id = flag.profile_id
+      AND status = 'pending'
+      AND (fraud_hold OR referee_id = flag.related_profile_id);
+
+    UPDATE referral_commissions
+    SET status = 'reversed',
+        reversed_at = NOW()
+    WHERE referrer_id = flag.profile_id
+      AND referee_id = flag.related_profile_id
+      AND status = 'payable';
+  END IF;
+
+  UPDATE fraud_flags
+  SET status = CASE WHEN decision_param = 'clear' THEN 'cleared' ELSE 'reversed' END,
+      review_notes = NULLIF(btrim(COALESCE(notes_param, '')), ''),
+      reviewed_by = admin_id_param,
+      reviewed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = flag.id
+  RETURNING * INTO flag;
+
+  IF NOT profile_has_open_fraud_flag(flag.profile_id) THEN
+    UPDATE referral_commissions
+    SET fraud_hold = false,
+        status = CASE
+          WHEN trigger_type = 'subscription_activation' OR matures_at <= NOW() THEN 'payable'
+          ELSE status
+        END,
+        matured_at = CASE
+          WHEN trigger_type = 'subscription_activation' OR matures_at <= NOW() THEN NOW()
+          ELSE matured_at
+        END
+    WHERE referrer_id = flag.profile_id
+      AND fraud_hold
+      AND status = 'pending';
+  END IF;
+
+  RETURN flag;
+END;
+$$;
+
+-- ================================================================
+-- 6. PERMISSIONS
+-- ================================================================
+
+REVOKE EXECUTE ON FUNCTION record_profile_fraud_signals() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_payout_account_fraud_signal() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION hold_flagged_commission() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION block_flagged_withdrawal() FROM PUBLIC;
+
+REVOKE EXECUTE ON FUNCTION record_fraud_signal(UUID, TEXT, TEXT, TEXT, BOOLEAN) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_fraud_signal(UUID, TEXT, TEXT, TEXT, BOOLEAN) FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_fraud_signal(UUID, TEXT, TEXT, TEXT, BOOLEAN) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION review_fraud_flag(UUID, TEXT, TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION review_fraud_flag(UUID, TEXT, TEXT, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION review_fraud_flag(UUID, TEXT, TEXT, UUID) TO service_role;
+
+COMMIT;
@@ -0,0 +1,88 @@
+-- Admin API sessions
+-- The admin dashboard used to talk to the database with the service role
+-- key, which shipped in the browser bundle. Admin operations now go through
+-- the admin-api edge function: it signs admins in, issues a session token
+-- and runs each operation with the service role only after checking that
+-- token against admin_sessions.
+--
+-- Nothing outside the service role reads or writes admins or
+-- admin_sessions any more, so both are locked down here.
+
+BEGIN;
+
+-- ================================================================
+-- 1. ADMINS
+-- ================================================================
+
+-- Columns the app has always written but no migration created
+ALTER TABLE admins
+ADD COLUMN IF NOT EXISTS password_salt TEXT,
+ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'admin',
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES admins(id);
+
+ALTER TABLE admins DROP CONSTRAINT IF EXISTS admins_role_check;
+ALTER TABLE admins ADD CONSTRAINT admins_role_check CHECK (role IN ('admin', 'super_admin'));
+
+-- The policies the old setup script suggested let anyone read password
+-- hashes and add admins
+DROP POLICY IF EXISTS "Admins can view all admins" ON admins;
+DROP POLICY IF EXISTS "Admins can insert new admins" ON admins;
+DROP POLICY IF EXISTS "Admins can update admins" ON admins;
+
+ALTER TABLE admins ENABLE ROW LEVEL SECURITY;
+
+-- ================================================================
+-- 2. SESSIONS
+-- ================================================================
+
+-- Only a SHA-256 hash of each token is stored
+CREATE TABLE IF NOT EXISTS admin_sessions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    admin_id UUID NOT NULL REFERENCES admins(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS admin_sessions_admin_idx ON admin_sessions (admin_id) WHERE revoked_at IS NULL;
+
+ALTER TABLE admin_sessions ENABLE ROW LEVEL SECURITY;
+
+-- A deactivated admin is signed out everywhere
+CREATE OR REPLACE FUNCTION revoke_inactive_admin_sessions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.is_active AND OLD.is_active THEN
+    UPDATE admin_sessions
+    SET revoked_at = NOW()
+    WHERE admin_id = NEW.id
+      AND revoked_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS revoke_inactive_admin_sessions_trigger ON admins;
+CREATE TRIGGER revoke_inactive_admin_sessions_trigger
+    AFTER UPDATE OF is_active ON admins
+    FOR EACH ROW
+    EXECUTE FUNCTION revoke_inactive_admin_sessions();
+
+-- ================================================================
+-- 3. PERMISSIONS
+-- ================================================================
+
+REVOKE EXECUTE ON FUNCTION revoke_inactive_admin_sessions() FROM PUBLIC;
+
+REVOKE ALL ON admins FROM anon, authenticated;
+REVOKE ALL ON admin_sessions FROM anon, authenticated;
+
+COMMIT;
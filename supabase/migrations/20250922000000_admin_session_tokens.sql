@@ -0,0 +1,58 @@
+-- Signed admin session tokens
+-- Admin sessions now hand out short-lived signed tokens from the admin-login
+-- function. The dashboard refreshes its token while it is in use; each
+-- refresh replaces token_hash, so only the latest token of a session works.
+-- A session ends when its token lapses, when it reaches expires_at, or when
+-- an admin revokes it from the dashboard.
+
+BEGIN;
+
+-- ================================================================
+-- 1. SESSION COLUMNS
+-- ================================================================
+
+ALTER TABLE admin_sessions
+ADD COLUMN IF NOT EXISTS ip_address TEXT,
+ADD COLUMN IF NOT EXISTS token_expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS refreshed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES admins(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS revoke_reason TEXT;
+
+-- Sessions from the opaque tokens issued before this migration cannot be
+-- refreshed; end them so every admin signs in again
+UPDATE admin_sessions
+SET revoked_at = NOW(),
+    revoke_reason = 'token_format_changed'
+WHERE revoked_at IS NULL;
+
+UPDATE admin_sessions
+SET token_expires_at = COALESCE(token_expires_at, revoked_at, expires_at);
+
+ALTER TABLE admin_sessions ALTER COLUMN token_expires_at SET NOT NULL;
+
+-- ================================================================
+-- 2. DEACTIVATION
+-- ================================================================
+
+-- As in the admin API migration, a deactivated admin is signed out
+-- everywhere; the revocation now says why
+CREATE OR REPLACE FUNCTION revoke_inactive_admin_sessions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.is_active AND OLD.is_active THEN
+    UPDATE admin_sessions
+    SET revoked_at = NOW(),
+        revoke_reason = 'admin_deactivated'
+    WHERE admin_id = NEW.id
+      AND revoked_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,126 @@
+-- Admin roles and permissions
+-- Admins used to be either 'admin' or 'super_admin', and every admin could
+-- do everything. Each role now carries a list of fine-grained permissions
+-- such as 'withdrawals.approve' or 'products.write'. The admin-api function
+-- checks them on every call and the dashboard hides what a role cannot use.
+--
+-- 'admin' keeps everything except managing other admins, so existing
+-- accounts behave as before; 'super_admin' has every permission.
+
+BEGIN;
+
+-- ================================================================
+-- 1. ROLES
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS admin_roles (
+    role TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    description TEXT,
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO admin_roles (role, label, description, permissions, sort_order) VALUES
+(
+  'super_admin',
+  'Super Admin',
+  'Everything, including adding admins, assigning roles and ending their sessions',
+  ARRAY[
+    'analytics.view',
+    'orders.view', 'orders.update', 'refunds.manage',
+    'payments.view', 'payments.verify', 'reconciliation.manage',
+    'subscriptions.view', 'subscriptions.approve', 'plans.write',
+    'withdrawals.view', 'withdrawals.approve', 'payouts.manage',
+    'kyc.view', 'kyc.review', 'fraud.view', 'fraud.review',
+    'products.view', 'products.write', 'inventory.adjust',
+    'users.view', 'users.write', 'users.delete', 'wallet.adjust', 'referrals.view',
+    'tds.view', 'settings.write', 'admins.manage'
+  ],
+  1
+),
+(
+  'admin',
+  'Administrator',
+  'Every day-to-day operation, without managing other admins',
+  ARRAY[
+    'analytics.view',
+    'orders.view', 'orders.update', 'refunds.manage',
+    'payments.view', 'payments.verify', 'reconciliation.manage',
+    'subscriptions.view', 'subscriptions.approve', 'plans.write',
+    'withdrawals.view', 'withdrawals.approve', 'payouts.manage',
+    'kyc.view', 'kyc.review', 'fraud.view', 'fraud.review',
+    'products.view', 'products.write', 'inventory.adjust',
+    'users.view', 'users.write', 'users.delete', 'wallet.adjust', 'referrals.view',
+    'tds.view', 'settings.write'
+  ],
+  2
+),
+(
+  'order_fulfilment',
+  'Order Fulfilment',
+  'Moves orders through packing and delivery and handles cancellations',
+  ARRAY['orders.view', 'orders.update', 'refunds.manage', 'products.view', 'users.view'],
+  3
+),
+(
+  'payments_verifier',
+  'Payments Verifier',
+  'Verifies UPI payments and subscription requests and reconciles bank statements',
+  ARRAY[
+    'payments.view', 'payments.verify', 'reconciliation.manage',
+    'subscriptions.view', 'subscriptions.approve', 'orders.view', 'users.view'
+  ],
+  4
+),
+(
+  'support',
+  'Support',
+  'Looks up members, orders and requests and corrects member details',
+  ARRAY[
+    'users.view', 'users.write', 'referrals.view', 'orders.view',
+    'subscriptions.view', 'withdrawals.view', 'kyc.view'
+  ],
+  5
+),
+(
+  'catalog_manager',
+  'Catalog Manager',
+  'Maintains products, prices and stock',
+  ARRAY['products.view', 'products.write', 'inventory.adjust', 'orders.view'],
+  6
+),
+(
+  'finance',
+  'Finance',
+  'Approves and pays withdrawals, reviews KYC and fraud, and runs the TDS report',
+  ARRAY[
+    'analytics.view', 'withdrawals.view', 'withdrawals.approve', 'payouts.manage',
+    'kyc.view', 'kyc.review', 'fraud.view', 'fraud.review', 'wallet.adjust',
+    'payments.view', 'reconciliation.manage', 'tds.view', 'users.view', 'referrals.view'
+  ],
+  7
+)
+ON CONFLICT (role) DO NOTHING;
+
+ALTER TABLE admin_roles ENABLE ROW LEVEL SECURITY;
+
+-- ================================================================
+-- 2. ADMINS
+-- ================================================================
+
+-- The role list now lives in admin_roles
+ALTER TABLE admins DROP CONSTRAINT IF EXISTS admins_role_check;
+ALTER TABLE admins DROP CONSTRAINT IF EXISTS admins_role_fkey;
+ALTER TABLE admins
+ADD CONSTRAINT admins_role_fkey FOREIGN KEY (role) REFERENCES admin_roles(role) ON UPDATE CASCADE;
+
+-- ================================================================
+-- 3. PERMISSIONS
+-- ================================================================
+
+REVOKE ALL ON admin_roles FROM anon, authenticated;
+
+COMMIT;
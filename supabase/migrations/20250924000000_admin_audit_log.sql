@@ -0,0 +1,79 @@
+-- Admin audit log
+-- Every change an admin makes through the admin-api function is recorded
+-- here by the function itself: who made it, from which IP, what it touched
+-- and the row before and after. Rows can be added but never changed or
+-- removed, not even with the service role.
+
+BEGIN;
+
+-- ================================================================
+-- 1. AUDIT LOG
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- Admins are deactivated rather than deleted, so the reference holds;
+    -- admin_email records the address used at the time
+    admin_id UUID REFERENCES admins(id),
+    admin_email TEXT NOT NULL,
+    session_id UUID,
+    -- '<table>.<operation>' for table changes, the function name for RPCs
+    action TEXT NOT NULL,
+    target_table TEXT,
+    target_id TEXT,
+    before JSONB,
+    after JSONB,
+    -- Only the columns that changed: { column: { from, to } }
+    changes JSONB,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ip_address TEXT,
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_admin_id ON admin_audit_log(admin_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_table, target_id);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action ON admin_audit_log(action);
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- ================================================================
+-- 2. APPEND ONLY
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION prevent_admin_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS admin_audit_log_append_only ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_admin_audit_log_changes();
+
+DROP TRIGGER IF EXISTS admin_audit_log_no_truncate ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_no_truncate
+  BEFORE TRUNCATE ON admin_audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_admin_audit_log_changes();
+
+-- ================================================================
+-- 3. PERMISSIONS
+-- ================================================================
+
+-- Reading the log is its own permission, granted to super admins and
+-- administrators
+UPDATE admin_roles
+SET permissions = array_append(permissions, 'audit.view'),
+    updated_at = NOW()
+WHERE role IN ('super_admin', 'admin')
+  AND NOT ('audit.view' = ANY(permissions));
+
+REVOKE ALL ON admin_audit_log FROM anon, authenticated;
+
+COMMIT;
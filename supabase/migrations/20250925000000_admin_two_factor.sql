@@ -0,0 +1,39 @@
+-- Two-factor authentication for admins
+-- Admins can turn on TOTP codes from an authenticator app. Once on, the
+-- admin-login function asks for a code (or a one-time backup code) after the
+-- password and only then issues a session. Roles can require it: an admin
+-- of such a role without 2FA has to set it up at their next sign-in.
+-- Everything here is read and written by the admin functions only.
+
+BEGIN;
+
+-- ================================================================
+-- 1. ADMIN COLUMNS
+-- ================================================================
+
+ALTER TABLE admins
+-- Base32 secret shared with the authenticator app
+ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+-- Secret shown during enrolment, until the admin confirms a code from it
+ADD COLUMN IF NOT EXISTS totp_pending_secret TEXT,
+ADD COLUMN IF NOT EXISTS totp_enabled_at TIMESTAMP WITH TIME ZONE,
+-- Time step of the last accepted code, so a code cannot be used twice
+ADD COLUMN IF NOT EXISTS totp_last_step BIGINT,
+-- SHA-256 hashes of the unused backup codes
+ADD COLUMN IF NOT EXISTS totp_backup_codes TEXT[] NOT NULL DEFAULT '{}',
+-- Wrong codes in a row; too many locks code entry for a while
+ADD COLUMN IF NOT EXISTS totp_failed_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS totp_locked_until TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE admins DROP CONSTRAINT IF EXISTS admins_totp_enabled_check;
+ALTER TABLE admins ADD CONSTRAINT admins_totp_enabled_check
+  CHECK (totp_enabled_at IS NULL OR totp_secret IS NOT NULL);
+
+-- ================================================================
+-- 2. ROLE REQUIREMENT
+-- ================================================================
+
+ALTER TABLE admin_roles
+ADD COLUMN IF NOT EXISTS require_2fa BOOLEAN NOT NULL DEFAULT false;
+
+COMMIT;
@@ -0,0 +1,141 @@
+-- Keep stock held for orders whose payment is being verified
+-- Manual UPI orders stay payment_pending until an admin verifies the payment,
+-- which often takes longer than the reservation lifetime. Reservations of an
+-- order with a submitted payment notification, or with a payment link that
+-- is still valid, no longer expire. If a payment is verified after the hold
+-- did lapse, the stock is only taken again when enough is left.
+
+BEGIN;
+
+-- ================================================================
+-- 1. EXPIRY
+-- ================================================================
+
+-- Release reservations whose hold period has passed, unless the order is
+-- waiting on a payment: a pending payment notification, or an open payment
+-- intent that has not expired yet. Called at the start of place_order and
+-- from the scheduled job when pg_cron is available.
+CREATE OR REPLACE FUNCTION release_expired_stock_reservations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_order RECORD;
+  released_count INTEGER := 0;
+BEGIN
+  FOR expired_order IN
+    SELECT DISTINCT r.order_id
+    FROM stock_reservations r
+    WHERE r.status = 'active'
+      AND r.expires_at < NOW()
+      AND NOT EXISTS (
+        SELECT 1 FROM upi_payment_notifications n
+        WHERE n.order_id = r.order_id AND n.status = 'pending'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM payment_intents pi
+        WHERE pi.order_id = r.order_id
+          AND pi.status IN ('open', 'attached')
+          AND pi.expires_at > NOW()
+      )
+  LOOP
+    released_count := released_count + release_order_reservations(
+      expired_order.order_id,
+      'expired',
+      'Reservation expired before payment was verified'
+    );
+  END LOOP;
+
+  RETURN released_count;
+END;
+$$;
+
+-- ================================================================
+-- 2. ORDER STATUS
+-- ================================================================
+
+-- Keep reservations in step with the order status:
+--   cancelled / payment_failed        -> release back to stock
+--   paid and later fulfilment steps   -> reservation becomes a sale
+--   refunded                          -> sold quantity goes back to stock
+--   payment_failed -> payment_pending -> stock is taken again for the retry
+CREATE OR REPLACE FUNCTION handle_order_inventory()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item RECORD;
+  current_stock INTEGER;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('cancelled', 'payment_failed') THEN
+    PERFORM release_order_reservations(NEW.id, 'released', 'Order ' || NEW.status);
+
+    IF NEW.status = 'cancelled' THEN
+      PERFORM restore_consumed_reservations(NEW.id, 'cancellation', 'Order cancelled after payment');
+    END IF;
+
+  ELSIF NEW.status = 'refunded' THEN
+    PERFORM restore_consumed_reservations(NEW.id, 'refund', 'Order refunded');
+
+  ELSIF NEW.status IN ('paid', 'processing', 'shipped', 'delivered', 'completed') THEN
+    UPDATE stock_reservations
+    SET status = 'consumed'
+    WHERE order_id = NEW.id AND status = 'active';
+
+    -- Payment arrived after the hold lapsed: take the stock again, but never
+    -- below zero. The admin has to restock or cancel and refund the order.
+    IF EXISTS (SELECT 1 FROM stock_reservations WHERE order_id = NEW.id AND status = 'expired') THEN
+      FOR item IN
+        SELECT product_id, SUM(quantity)::INTEGER AS quantity
+        FROM stock_reservations
+        WHERE order_id = NEW.id AND status = 'expired'
+        GROUP BY product_id
+        ORDER BY product_id
+      LOOP
+        SELECT COALESCE(stock_quantity, 0) INTO current_stock FROM products WHERE id = item.product_id FOR UPDATE;
+
+        IF current_stock < item.quantity THEN
+          RAISE EXCEPTION 'Stock hold for this order expired and only % left of product %; restock or cancel and refund the order',
+            current_stock, item.product_id
+            USING ERRCODE = 'P0001';
+        END IF;
+
+        PERFORM apply_stock_movement(item.product_id, -item.quantity, 'sale', NEW.id, 'Stock re-taken after reservation expired');
+      END LOOP;
+
+      UPDATE stock_reservations
+      SET status = 'consumed'
+      WHERE order_id = NEW.id AND status = 'expired';
+    END IF;
+
+  ELSIF NEW.status = 'payment_pending'
+        AND OLD.status = 'payment_failed'
+        AND NOT EXISTS (SELECT 1 FROM stock_reservations WHERE order_id = NEW.id AND status = 'active') THEN
+    FOR item IN SELECT product_id, quantity FROM order_items WHERE order_id = NEW.id ORDER BY product_id LOOP
+      SELECT COALESCE(stock_quantity, 0) INTO current_stock FROM products WHERE id = item.product_id FOR UPDATE;
+
+      IF current_stock < item.quantity THEN
+        RAISE EXCEPTION 'Insufficient stock to retry payment: only % left', current_stock
+          USING ERRCODE = 'P0001';
+      END IF;
+
+      PERFORM apply_stock_movement(item.product_id, -item.quantity, 'sale', NEW.id, 'Payment retry');
+
+      INSERT INTO stock_reservations (order_id, product_id, quantity, expires_at)
+      VALUES (NEW.id, item.product_id, item.quantity, NOW() + get_stock_reservation_interval());
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,40 @@
+-- Skip re-imported statement credits that carry no UTR
+-- Credits with a UTR are deduplicated by it; cash deposits, NEFT lines and
+-- some UPI apps have none, so those were stored again on every re-import.
+-- They are now recognised by value date, amount and a hash of the narration.
+
+BEGIN;
+
+-- ================================================================
+-- 1. NARRATION HASH
+-- ================================================================
+
+-- SHA-256 (hex) of the narration, lower-cased with whitespace collapsed.
+-- Computed by the importer; only set on credits without a UTR.
+ALTER TABLE bank_statement_entries
+ADD COLUMN IF NOT EXISTS narration_hash TEXT;
+
+-- Earlier imports: hash the first copy of each credit. Copies stored by
+-- earlier re-imports keep a NULL hash, so they stay visible for review.
+WITH ranked AS (
+    SELECT
+        id,
+        encode(sha256(convert_to(lower(btrim(regexp_replace(COALESCE(description, ''), '\s+', ' ', 'g'))), 'UTF8')), 'hex') AS hash,
+        ROW_NUMBER() OVER (
+            PARTITION BY transaction_date, amount, lower(btrim(regexp_replace(COALESCE(description, ''), '\s+', ' ', 'g')))
+            ORDER BY created_at, id
+        ) AS copy_number
+    FROM bank_statement_entries
+    WHERE utr IS NULL AND narration_hash IS NULL
+)
+UPDATE bank_statement_entries e
+SET narration_hash = ranked.hash
+FROM ranked
+WHERE e.id = ranked.id AND ranked.copy_number = 1;
+
+-- The same credit without a UTR can only be recorded once
+CREATE UNIQUE INDEX IF NOT EXISTS bank_statement_entries_narration_idx
+    ON bank_statement_entries (transaction_date, amount, narration_hash)
+    WHERE utr IS NULL AND narration_hash IS NOT NULL;
+
+COMMIT;
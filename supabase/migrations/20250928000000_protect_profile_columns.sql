@@ -0,0 +1,57 @@
+-- Protect server-managed profile columns
+-- The "Users can update own profile" policy lets customers update their own
+-- user_profiles row, which also covered their referrer, subscription status
+-- and wallet counters. Those are only changed by the service role (the
+-- admin-api function) and by SECURITY DEFINER functions such as the wallet
+-- ledger and subscription approval; a customer's own request is refused.
+
+BEGIN;
+
+-- ================================================================
+-- 1. TRIGGER
+-- ================================================================
+
+-- Not SECURITY DEFINER on purpose: current_user is the role the change runs
+-- as. Customers' requests run as authenticated (or anon); the service role
+-- and SECURITY DEFINER functions run as service_role or the owner.
+CREATE OR REPLACE FUNCTION protect_profile_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.referred_by IS DISTINCT FROM OLD.referred_by
+     OR NEW.subscription_status IS DISTINCT FROM OLD.subscription_status
+     OR NEW.total_earnings IS DISTINCT FROM OLD.total_earnings
+     OR NEW.available_balance IS DISTINCT FROM OLD.available_balance
+     OR NEW.withdrawn_amount IS DISTINCT FROM OLD.withdrawn_amount THEN
+    RAISE EXCEPTION 'Referrer, subscription status and balances cannot be changed from your profile'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_columns_trigger ON user_profiles;
+CREATE TRIGGER protect_profile_columns_trigger
+    BEFORE UPDATE ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_profile_columns();
+
+-- ================================================================
+-- 2. PERMISSIONS
+-- ================================================================
+
+-- SECURITY DEFINER and granted to every signed-in user, so it would let a
+-- customer switch their own subscription on past the trigger. Nothing in the
+-- app calls it; admins change subscriptions through admin-api.
+REVOKE EXECUTE ON FUNCTION update_user_subscription_status(UUID, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION update_user_subscription_status(UUID, TEXT) FROM authenticated;
+GRANT EXECUTE ON FUNCTION update_user_subscription_status(UUID, TEXT) TO service_role;
+
+COMMIT;
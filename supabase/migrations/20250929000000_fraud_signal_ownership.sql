@@ -0,0 +1,276 @@
+-- Flag only the account that added a shared fingerprint
+-- Payout accounts were fingerprinted as soon as they were added, before
+-- anyone checked they belong to the member, and a shared fingerprint flagged
+-- both profiles. Adding someone else's UPI ID or bank account (or setting
+-- your phone to your referrer's number) therefore froze the other member's
+-- withdrawals and rewards. Now:
+--   * payout accounts are fingerprinted when an admin verifies them;
+--   * only the profile whose fingerprint arrived last is flagged and held;
+--     the earlier holder is left alone and shows as the linked profile.
+-- Reversing a self-referral flag also takes back what the linked upline
+-- earned from the flagged profile, since that side is no longer flagged.
+
+BEGIN;
+
+-- ================================================================
+-- 1. RECORDING AND MATCHING
+-- ================================================================
+
+-- As in the referral fraud signals migration, except that a profile is only
+-- compared with profiles that had the fingerprint first, and only this
+-- profile is flagged. Signing in again from a shared device therefore never
+-- flags the device's first user.
+CREATE OR REPLACE FUNCTION record_fraud_signal(
+  user_id_param UUID,
+  signal_type_param TEXT,
+  value_param TEXT,
+  source_param TEXT,
+  prehashed_param BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy JSONB := fraud_policy();
+  member_profile_id UUID;
+  normalized TEXT;
+  hashed TEXT;
+  seen_at TIMESTAMP WITH TIME ZONE;
+  other RECORD;
+  is_ring BOOLEAN;
+  flag_reason TEXT;
+  new_flags INTEGER := 0;
+  inserted INTEGER;
+BEGIN
+  IF signal_type_param NOT IN ('device', 'ip', 'phone', 'payout_upi', 'payout_bank') THEN
+    RAISE EXCEPTION 'Unknown fraud signal: %', signal_type_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  normalized := CASE
+    WHEN prehashed_param THEN lower(btrim(COALESCE(value_param, '')))
+    -- Last 10 digits, so +91 and leading zeros do not hide a match
+    WHEN signal_type_param = 'phone' THEN right(regexp_replace(COALESCE(value_param, ''), '\D', '', 'g'), 10)
+    WHEN signal_type_param = 'payout_bank' THEN upper(regexp_replace(COALESCE(value_param, ''), '\s', '', 'g'))
+    ELSE lower(btrim(COALESCE(value_param, '')))
+  END;
+
+  IF normalized = '' OR (signal_type_param = 'phone' AND length(normalized) < 10) THEN
+    RETURN 0;
+  END IF;
+
+  hashed := CASE WHEN prehashed_param THEN normalized ELSE encode(sha256(convert_to(normalized, 'UTF8')), 'hex') END;
+
+  SELECT id INTO member_profile_id
+  FROM user_profiles
+  WHERE user_id = user_id_param;
+
+  IF member_profile_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO fraud_signals (profile_id, user_id, signal_type, value_hash, source)
+  VALUES (member_profile_id, user_id_param, signal_type_param, hashed, COALESCE(source_param, 'unknown'))
+  ON CONFLICT (profile_id, signal_type, value_hash) DO UPDATE
+  SET last_seen_at = NOW()
+  RETURNING first_seen_at INTO seen_at;
+
+  IF NOT COALESCE((policy ->> 'enabled')::BOOLEAN, false) THEN
+    RETURN 0;
+  END IF;
+
+  FOR other IN
+    SELECT DISTINCT fs.profile_id
+    FROM fraud_signals fs
+    WHERE fs.signal_type = signal_type_param
+      AND fs.value_hash = hashed
+      AND fs.profile_id <> member_profile_id
+      AND fs.first_seen_at <= seen_at
+  LOOP
+    is_ring := EXISTS (
+      SELECT 1 FROM referral_closure rc
+      WHERE rc.depth > 0
+        AND ((rc.ancestor_id = other.profile_id AND rc.descendant_id = member_profile_id)
+          OR (rc.ancestor_id = member_profile_id AND rc.descendant_id = other.profile_id))
+    );
+
+    IF is_ring AND (policy -> 'ring_signals') ? signal_type_param THEN
+      flag_reason := 'self_referral';
+    ELSIF signal_type_param IN ('payout_upi', 'payout_bank') THEN
+      flag_reason := 'duplicate_payout_account';
+    ELSE
+      CONTINUE;
+    END IF;
+
+    -- A flag an admin already closed stays closed; the shared fingerprints
+    -- are still added to it for the record
+    INSERT INTO fraud_flags (profile_id, related_profile_id, reason, signal_types)
+    VALUES (member_profile_id, other.profile_id, flag_reason, ARRAY[signal_type_param])
+    ON CONFLICT (profile_id, related_profile_id, reason) DO UPDATE
+    SET signal_types = ARRAY(SELECT DISTINCT unnest(fraud_flags.signal_types || EXCLUDED.signal_types)),
+        updated_at = NOW()
+    WHERE NOT signal_type_param = ANY(fraud_flags.signal_types);
+
+    GET DIAGNOSTICS inserted = ROW_COUNT;
+    new_flags := new_flags + inserted;
+  END LOOP;
+
+  -- Rewards the flagged profile earned but cannot withdraw yet stay locked
+  IF new_flags > 0
+     AND COALESCE((policy ->> 'hold_rewards')::BOOLEAN, false)
+     AND profile_has_open_fraud_flag(member_profile_id) THEN
+    UPDATE referral_commissions
+    SET fraud_hold = true
+    WHERE referrer_id = member_profile_id
+      AND status = 'pending'
+      AND NOT fraud_hold;
+  END IF;
+
+  RETURN new_flags;
+END;
+$$;
+
+-- Payout accounts are fingerprinted once verified: until then anyone can
+-- type in an account that is not theirs
+DROP TRIGGER IF EXISTS record_payout_account_fraud_signal_trigger ON payout_accounts;
+CREATE TRIGGER record_payout_account_fraud_signal_trigger
+    AFTER UPDATE OF status ON payout_accounts
+    FOR EACH ROW
+    WHEN (NEW.status = 'verified' AND OLD.status IS DISTINCT FROM 'verified')
+    EXECUTE FUNCTION record_payout_account_fraud_signal();
+
+-- ================================================================
+-- 2. REVIEW
+-- ================================================================
+
+-- As in the referral fraud signals migration. Reversing a self-referral flag
+-- also takes back the rewards the linked profile earned from this one: the
+-- flagged profile is the later account, usually the upline's alt.
+CREATE OR REPLACE FUNCTION review_fraud_flag(
+  flag_id_param UUID,
+  decision_param TEXT,
+  notes_param TEXT DEFAULT NULL,
+  admin_id_param UUID DEFAULT NULL
+)
+RETURNS fraud_flags
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  flag fraud_flags;
+BEGIN
+  IF decision_param NOT IN ('clear', 'reverse') THEN
+    RAISE EXCEPTION 'Decision must be clear or reverse'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO flag
+  FROM fraud_flags
+  WHERE id = flag_id_param
+  FOR UPDATE;
+
+  IF flag.id IS NULL THEN
+    RAISE EXCEPTION 'Fraud flag % not found', flag_id_param
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF flag.status <> 'open' THEN
+    RAISE EXCEPTION 'This flag was already %', flag.status
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  IF decision_param = 'reverse' THEN
+    UPDATE referral_commissions
+    SET status = 'void',
+        voided_at = NOW(),
+        fraud_hold = false
+    WHERE status = 'pending'
+      AND ((referrer_id = flag.profile_id AND (fraud_hold OR referee_id = flag.related_profile_id))
+        OR (flag.reason = 'self_referral' AND referrer_id = flag.related_profile_id AND referee_id = flag.profile_id));
+
+    UPDATE referral_commissions
+    SET status = 'reversed',
+        reversed_at = NOW()
+    WHERE status = 'payable'
+      AND ((referrer_id = flag.profile_id AND referee_id = flag.related_profile_id)
+        OR (flag.reason = 'self_referral' AND referrer_id = flag.related_profile_id AND referee_id = flag.profile_id));
+  END IF;
+
+  UPDATE fraud_flags
+  SET status = CASE WHEN decision_param = 'clear' THEN 'cleared' ELSE 'reversed' END,
+      review_notes = NULLIF(btrim(COALESCE(notes_param, '')), ''),
+      reviewed_by = admin_id_param,
+      reviewed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = flag.id
+  RETURNING * INTO flag;
+
+  IF NOT profile_has_open_fraud_flag(flag.profile_id) THEN
+    UPDATE referral_commissions
+    SET fraud_hold = false,
+        status = CASE
+          WHEN trigger_type = 'subscription_activation' OR matures_at <= NOW() THEN 'payable'
+          ELSE status
+        END,
+        matured_at = CASE
+          WHEN trigger_type = 'subscription_activation' OR matures_at <= NOW() THEN NOW()
+          ELSE matured_at
+        END
+    WHERE referrer_id = flag.profile_id
+      AND fraud_hold
+      AND status = 'pending';
+  END IF;
+
+  RETURN flag;
+END;
+$$;
+
+-- ================================================================
+-- 3. EXISTING SIGNALS AND FLAGS
+-- ================================================================
+
+-- Fingerprints of payout accounts nobody has verified
+DELETE FROM fraud_signals fs
+WHERE fs.signal_type IN ('payout_upi', 'payout_bank')
+  AND NOT EXISTS (
+    SELECT 1 FROM payout_accounts pa
+    WHERE pa.user_id = fs.user_id
+      AND pa.status = 'verified'
+      AND fs.signal_type = CASE WHEN pa.account_type = 'upi' THEN 'payout_upi' ELSE 'payout_bank' END
+      AND fs.value_hash = encode(sha256(convert_to(
+        CASE
+          WHEN pa.account_type = 'upi' THEN lower(btrim(pa.upi_id))
+          ELSE upper(regexp_replace(pa.account_number || ':' || pa.ifsc, '\s', '', 'g'))
+        END, 'UTF8')), 'hex')
+  );
+
+-- Open flags on a profile that had every shared fingerprint first, or that
+-- no longer shares one, are cleared; review_fraud_flag releases what they
+-- held
+DO $$
+DECLARE
+  rec RECORD;
+BEGIN
+  FOR rec IN
+    SELECT ff.id FROM fraud_flags ff
+    WHERE ff.status = 'open'
+      AND NOT EXISTS (
+        SELECT 1
+        FROM fraud_signals mine
+        JOIN fraud_signals theirs
+          ON theirs.signal_type = mine.signal_type
+         AND theirs.value_hash = mine.value_hash
+        WHERE mine.profile_id = ff.profile_id
+          AND theirs.profile_id = ff.related_profile_id
+          AND mine.signal_type = ANY(ff.signal_types)
+          AND theirs.first_seen_at <= mine.first_seen_at
+      )
+  LOOP
+    PERFORM review_fraud_flag(rec.id, 'clear', 'Cleared automatically: this account did not add the shared details');
+  END LOOP;
+END$$;
+
+COMMIT;
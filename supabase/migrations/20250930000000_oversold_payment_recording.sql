@@ -0,0 +1,173 @@
+-- Record late payments even when their stock has sold out
+-- A payment verified after the order's stock hold lapsed re-took the stock,
+-- and raised when too little was left. The payment could then never be
+-- recorded: the admin could not mark the order paid, Razorpay webhooks failed
+-- and were retried, and cancelling the unpaid order created no refund. Now
+-- the order always moves to paid; whatever stock is left is taken and the
+-- rest is recorded on the order as a shortfall for the admin to restock or
+-- cancel and refund. Cancelling a paid order now creates its refund however
+-- it is cancelled, not only through a customer's cancellation.
+
+BEGIN;
+
+-- ================================================================
+-- 1. SHORTFALL
+-- ================================================================
+
+-- Units paid for that were out of stock when the payment arrived
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS stock_shortfall INTEGER NOT NULL DEFAULT 0;
+
+-- ================================================================
+-- 2. ORDER STATUS
+-- ================================================================
+
+-- As in the stock reservation payment hold migration, except that a lapsed
+-- hold only takes the stock that is left. Each expired reservation becomes a
+-- sale of what was taken, so cancelling later restores no more than that.
+CREATE OR REPLACE FUNCTION handle_order_inventory()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item RECORD;
+  reservation RECORD;
+  current_stock INTEGER;
+  taken INTEGER;
+  shortfall INTEGER := 0;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('cancelled', 'payment_failed') THEN
+    PERFORM release_order_reservations(NEW.id, 'released', 'Order ' || NEW.status);
+
+    IF NEW.status = 'cancelled' THEN
+      PERFORM restore_consumed_reservations(NEW.id, 'cancellation', 'Order cancelled after payment');
+    END IF;
+
+  ELSIF NEW.status = 'refunded' THEN
+    PERFORM restore_consumed_reservations(NEW.id, 'refund', 'Order refunded');
+
+  ELSIF NEW.status IN ('paid', 'processing', 'shipped', 'delivered', 'completed') THEN
+    UPDATE stock_reservations
+    SET status = 'consumed'
+    WHERE order_id = NEW.id AND status = 'active';
+
+    -- Payment arrived after the hold lapsed: take the stock again, but never
+    -- below zero. The payment is recorded either way.
+    FOR reservation IN
+      SELECT id, product_id, quantity
+      FROM stock_reservations
+      WHERE order_id = NEW.id AND status = 'expired'
+      ORDER BY product_id
+      FOR UPDATE
+    LOOP
+      SELECT GREATEST(COALESCE(stock_quantity, 0), 0) INTO current_stock
+      FROM products
+      WHERE id = reservation.product_id
+      FOR UPDATE;
+
+      taken := LEAST(COALESCE(current_stock, 0), reservation.quantity);
+
+      IF taken > 0 THEN
+        PERFORM apply_stock_movement(reservation.product_id, -taken, 'sale', NEW.id, 'Stock re-taken after reservation expired');
+
+        UPDATE stock_reservations
+        SET status = 'consumed',
+            quantity = taken
+        WHERE id = reservation.id;
+      ELSE
+        UPDATE stock_reservations
+        SET status = 'released',
+            released_at = COALESCE(released_at, NOW())
+        WHERE id = reservation.id;
+      END IF;
+
+      shortfall := shortfall + reservation.quantity - taken;
+    END LOOP;
+
+    IF shortfall > 0 THEN
+      UPDATE orders
+      SET stock_shortfall = stock_shortfall + shortfall
+      WHERE id = NEW.id;
+    END IF;
+
+  ELSIF NEW.status = 'payment_pending'
+        AND OLD.status = 'payment_failed'
+        AND NOT EXISTS (SELECT 1 FROM stock_reservations WHERE order_id = NEW.id AND status = 'active') THEN
+    FOR item IN SELECT product_id, quantity FROM order_items WHERE order_id = NEW.id ORDER BY product_id LOOP
+      SELECT COALESCE(stock_quantity, 0) INTO current_stock FROM products WHERE id = item.product_id FOR UPDATE;
+
+      IF current_stock < item.quantity THEN
+        RAISE EXCEPTION 'Insufficient stock to retry payment: only % left', current_stock
+          USING ERRCODE = 'P0001';
+      END IF;
+
+      PERFORM apply_stock_movement(item.product_id, -item.quantity, 'sale', NEW.id, 'Payment retry');
+
+      INSERT INTO stock_reservations (order_id, product_id, quantity, expires_at)
+      VALUES (NEW.id, item.product_id, item.quantity, NOW() + get_stock_reservation_interval());
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ================================================================
+-- 3. REFUNDS
+-- ================================================================
+
+-- As in the order cancellation migration, except that a refund recorded
+-- without the customer's UPI ID or cancellation request picks them up when
+-- the cancellation RPCs call this after the status change
+CREATE OR REPLACE FUNCTION create_order_refund(
+  order_rec public.orders,
+  cancellation_request_id_param UUID,
+  upi_id_param TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO refunds (order_id, user_id, cancellation_request_id, amount, upi_id)
+  VALUES (order_rec.id, order_rec.user_id, cancellation_request_id_param, order_rec.total_amount, NULLIF(TRIM(upi_id_param), ''))
+  ON CONFLICT (order_id) DO UPDATE
+  SET cancellation_request_id = COALESCE(refunds.cancellation_request_id, EXCLUDED.cancellation_request_id),
+      upi_id = COALESCE(refunds.upi_id, EXCLUDED.upi_id),
+      updated_at = NOW()
+  WHERE refunds.status = 'pending';
+END;
+$$;
+
+-- A paid order that an admin cancels directly is refunded too
+CREATE OR REPLACE FUNCTION handle_order_cancellation_refund()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM NEW.status AND order_status_is_paid(OLD.status) THEN
+    PERFORM create_order_refund(NEW, NULL, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_order_cancellation_refund_trigger ON orders;
+CREATE TRIGGER handle_order_cancellation_refund_trigger
+    AFTER UPDATE OF status ON orders
+    FOR EACH ROW EXECUTE FUNCTION handle_order_cancellation_refund();
+
+REVOKE EXECUTE ON FUNCTION create_order_refund(public.orders, UUID, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION create_order_refund(public.orders, UUID, TEXT) FROM authenticated;
+
+COMMIT;